@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { StatusBar } from 'expo-status-bar';
 import { StyleSheet, View, Text, ActivityIndicator } from 'react-native';
@@ -26,13 +26,17 @@ import { colors } from './src/theme';
 import { useStorage, StorageProvider } from './src/hooks/useStorage';
 import { PremiumProvider } from './src/hooks/usePremium';
 import { Features } from './src/config/features';
+import { usePremiumGate } from './src/config/premium';
+import { SyncStatusContext, type SyncStatusValue } from './src/hooks/useSyncStatus';
 import { initAnalytics, trackEvent } from './src/services/analyticsService';
 import { PaywallModal, MigrationBanner } from './src/components';
 import {
   cancelAllNotifications,
   scheduleMorningReminder,
 } from './src/utils/notificationScheduler';
-import { getEffectiveSeason } from './src/utils/seasonality';
+import { groupPlantsBySpace } from './src/utils/gardens';
+import { toCloudData, type CloudData } from './src/utils/syncConverters';
+import { mergeCloudData } from './src/utils/syncMerge';
 
 // Screens
 import TodayScreen from './src/screens/TodayScreen';
@@ -175,8 +179,9 @@ function AppContentMVP() {
       try {
         await cancelAllNotifications();
         const morningTime = notificationSettings?.morningTime ?? '08:00';
-        const season = getEffectiveSeason(location, climateOverride, new Date());
-        await scheduleMorningReminder(morningTime, plants, null, season, null, []);
+        // Pre-v1 data has no spaces: every plant is home.
+        const spaces = groupPlantsBySpace(plants, [], { location, climateOverride }, new Date(), () => null);
+        await scheduleMorningReminder(morningTime, plants, null, spaces, null, []);
         // NOTE (B1): the smart-sun scheduler is intentionally NOT called here —
         // it requires weather data and would be a no-op at App-level. TodayScreen's
         // existing useNotifications hook handles it once weather loads.
@@ -236,6 +241,7 @@ function AppContentFull() {
   // Lazy-require to avoid importing auth/sync modules at the top level when not needed
   const { AuthProvider, useAuthContext } = require('./src/components/AuthProvider');
   const { useSync } = require('./src/hooks/useSync');
+  const { usePhotoSync } = require('./src/hooks/usePhotoSync');
   const { DataMigrationModal } = require('./src/components/DataMigrationModal');
   const { default: LoginScreen } = require('./src/screens/LoginScreen');
 
@@ -244,6 +250,7 @@ function AppContentFull() {
       <AppContentFullInner
         useAuthContext={useAuthContext}
         useSync={useSync}
+        usePhotoSync={usePhotoSync}
         DataMigrationModal={DataMigrationModal}
         LoginScreen={LoginScreen}
       />
@@ -254,11 +261,13 @@ function AppContentFull() {
 function AppContentFullInner({
   useAuthContext,
   useSync,
+  usePhotoSync,
   DataMigrationModal,
   LoginScreen,
 }: {
   useAuthContext: any;
   useSync: any;
+  usePhotoSync: any;
   DataMigrationModal: any;
   LoginScreen: any;
 }) {
@@ -282,8 +291,18 @@ function AppContentFullInner({
     climateOverride,
     notificationSettings,
     plantNetApiKey,
+    gardens,
+    journals,
+    diagnosisHistory,
+    shoppingList,
+    careLog,
+    syncTombstones,
     setPlants,
+    setPhotoRemotePath,
+    getAppDataSnapshot,
+    restoreAppData,
   } = useStorage();
+  const { photoStorageQuotaBytes } = usePremiumGate();
 
   const { user, loading: authLoading, isAuthenticated } = useAuthContext();
 
@@ -294,24 +313,71 @@ function AppContentFullInner({
   const [showMigrationModal, setShowMigrationModal] = useState(false);
   const [migrationChecked, setMigrationChecked] = useState(false);
 
-  const handleDataReceived = useCallback((data: any) => {
-    if (data.plants.length > 0) {
-      setPlants(data.plants);
-    }
-  }, [setPlants]);
+  // v1.3 (SYNC-01/02): downloads are merged record by record into what is on this phone.
+  // The merged slice goes back to useSync so the merge is not queued as local changes.
+  const handleDataReceived = useCallback((data: CloudData): CloudData => {
+    const merged = mergeCloudData(getAppDataSnapshot(), data, new Date());
+    restoreAppData(merged);
+    return toCloudData(merged);
+  }, [getAppDataSnapshot, restoreAppData]);
 
-  const { syncUp, syncDown, checkCloudData } = Features.CLOUD_SYNC
+  const cloudData = useMemo<CloudData>(() => ({
+    plants,
+    notes,
+    reminders,
+    location,
+    notificationSettings,
+    plantNetApiKey,
+    gardens,
+    climateOverride: climateOverride ?? 'auto',
+    journals: journals ?? {},
+    diagnosisHistory,
+    shoppingList,
+    careLog: careLog ?? {},
+    tombstones: syncTombstones,
+  }), [
+    plants, notes, reminders, location, notificationSettings, plantNetApiKey, gardens,
+    climateOverride, journals, diagnosisHistory, shoppingList, careLog, syncTombstones,
+  ]);
+
+  const sync = Features.CLOUD_SYNC
     ? useSync({
         user,
-        plants,
-        notes,
-        reminders,
-        location,
-        notificationSettings,
-        plantNetApiKey,
+        data: cloudData,
+        ready: !storageLoading,
         onDataReceived: handleDataReceived,
       })
-    : { syncUp: async () => {}, syncDown: async () => null, checkCloudData: async () => false };
+    : null;
+  const { syncUp, syncDown, checkCloudData } = sync
+    ?? { syncUp: async () => {}, syncDown: async () => null, checkCloudData: async () => false };
+
+  // v1.3 (SYNC-03): photos upload in the background; their bucket paths then sync with the records.
+  const photoSync = Features.CLOUD_SYNC
+    ? usePhotoSync({
+        user,
+        plants,
+        gardens,
+        journals,
+        quotaBytes: photoStorageQuotaBytes(),
+        onUploaded: setPhotoRemotePath,
+      })
+    : null;
+
+  // v1.3 (SYNC-04): pending changes and per-item failures for the badge in Settings.
+  const syncStatus = useMemo<SyncStatusValue | null>(() => (sync && user ? {
+    status: sync.status,
+    lastSyncedAt: sync.lastSyncedAt,
+    pendingCount: sync.pendingCount,
+    failures: sync.failures,
+    photoPendingCount: photoSync?.pendingCount ?? 0,
+    photoQuotaExceeded: photoSync?.quotaExceeded ?? false,
+    syncNow: sync.retryFailed,
+    userId: user.id,
+    pullAll: async () => { await sync.syncDown({ full: true }); },
+  } : null), [
+    sync?.status, sync?.lastSyncedAt, sync?.pendingCount, sync?.failures, sync?.retryFailed, sync?.syncDown,
+    photoSync?.pendingCount, photoSync?.quotaExceeded, user?.id,
+  ]);
 
   useEffect(() => {
     if (!Features.CLOUD_SYNC) return;
@@ -349,7 +415,7 @@ function AppContentFullInner({
   const showOnboarding = !onboardingCompleted && plants.length === 0;
 
   return (
-    <>
+    <SyncStatusContext.Provider value={syncStatus}>
       <NavigationContainer>
         <StatusBar style="dark" />
         {showOnboarding ? <OnboardingScreen /> : <MainTabs />}
@@ -368,7 +434,7 @@ function AppContentFullInner({
       {/* Phase 9 (PAY-01): single-render mount; mirrors AppContentMVP line 227.
           Two-AppContent-paths discipline (Phase 5 Plan 05 lock) — both paths in sync. */}
       <PaywallModal />
-    </>
+    </SyncStatusContext.Provider>
   );
 }
 
@@ -146,9 +146,55 @@ for (const entry of PLANT_DATABASE) {
   }
 }
 
+// ─── v1.3 (I18N-02): message keys returned by the health / alert / task generators ───
+// calculatePlantHealth, generatePlantAlerts and getTasksForDay return { key, params } and the
+// UI renders them with t(). Every literal `key: '...'` in those modules must exist in both
+// en/common.json and es/common.json (plain, or as the _one/_other plural pair), as must
+// health.rule.<id> for every HealthRuleId and health.<level> for every HealthLevel.
+const enCommon = JSON.parse(readFileSync(resolve(ROOT, 'src/i18n/locales/en/common.json'), 'utf8'));
+const esCommon = JSON.parse(readFileSync(resolve(ROOT, 'src/i18n/locales/es/common.json'), 'utf8'));
+const MESSAGE_SOURCES = [
+  'src/utils/plantHealth.ts',
+  'src/utils/plantAlerts.ts',
+  'src/utils/plantLogic.ts',
+  'src/components/WeatherAlerts.tsx',
+];
+
+const lookup = (dict, key) =>
+  key.split('.').reduce((node, part) => (node && typeof node === 'object' ? node[part] : undefined), dict);
+const hasMessage = (dict, key) =>
+  typeof lookup(dict, key) === 'string' ||
+  (typeof lookup(dict, `${key}_one`) === 'string' && typeof lookup(dict, `${key}_other`) === 'string');
+
+const messageKeys = new Set();
+for (const file of MESSAGE_SOURCES) {
+  const source = readFileSync(resolve(ROOT, file), 'utf8');
+  for (const match of source.matchAll(/\bkey:\s*(?:[^,{}]*\?\s*)?['"]([\w.]+)['"](?:\s*:\s*['"]([\w.]+)['"])?/g)) {
+    messageKeys.add(match[1]);
+    if (match[2]) messageKeys.add(match[2]);
+  }
+}
+const typesSource = readFileSync(resolve(ROOT, 'src/types/index.ts'), 'utf8');
+const unionMembers = (name) => {
+  const decl = typesSource.match(new RegExp(`export type ${name}\\s*=([^;]+);`));
+  return decl ? [...decl[1].matchAll(/['"](\w+)['"]/g)].map(m => m[1]) : [];
+};
+const ruleIds = unionMembers('HealthRuleId');
+const levels = unionMembers('HealthLevel');
+if (ruleIds.length === 0) errors.push('[common] could not read HealthRuleId from src/types/index.ts');
+if (levels.length === 0) errors.push('[common] could not read HealthLevel from src/types/index.ts');
+ruleIds.forEach(id => messageKeys.add(`health.rule.${id}`));
+levels.forEach(level => messageKeys.add(`health.${level}`));
+
+for (const key of [...messageKeys].sort()) {
+  for (const [locale, dict] of [['en', enCommon], ['es', esCommon]]) {
+    if (!hasMessage(dict, key)) errors.push(`[${locale}] common.json missing message key: "${key}"`);
+  }
+}
+
 if (errors.length > 0) {
   console.error(`\n[check:i18n-keys] FAIL (${errors.length} issues):`);
   errors.forEach(e => console.error('  ' + e));
   process.exit(1);
 }
-console.log(`[check:i18n-keys] PASS — ${PLANT_DATABASE.length} catalog ids verified across en/es plants.json`);
+console.log(`[check:i18n-keys] PASS — ${PLANT_DATABASE.length} catalog ids verified across en/es plants.json, ${messageKeys.size} message keys across en/es common.json`);
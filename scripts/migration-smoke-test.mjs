@@ -127,7 +127,26 @@ try {
   assert('migratePlant_0to1 on already-migrated plant is identity', JSON.stringify(guarded) === JSON.stringify(migrated.plants[0]));
 
   // -------- Schema version constant --------
-  assert('CURRENT_SCHEMA_VERSION === 1', CURRENT_SCHEMA_VERSION === 1);
+  assert('CURRENT_SCHEMA_VERSION === 3', CURRENT_SCHEMA_VERSION === 3);
+
+  // -------- Care log seed (v1.3 HIST-01 — v1 → v2) --------
+  assert('migrated.careLog has one list per plant', migrated.plants.every((p) => Array.isArray(migrated.careLog?.[p.id])));
+  assert(
+    'watered plants seed exactly one migration water event',
+    migrated.plants.every((p) =>
+      migrated.careLog[p.id].filter((e) => e.type === 'water').length === (p.lastWatered ? 1 : 0) &&
+      migrated.careLog[p.id].every((e) => e.source === 'migration')
+    )
+  );
+
+  // -------- Gardens default (v1.3 GARDEN-01 — v2 → v3) --------
+  assert('migrated.gardens defaults to []', Array.isArray(migrated.gardens) && migrated.gardens.length === 0);
+  assert("migrated.activeGardenId defaults to 'home'", migrated.activeGardenId === 'home');
+  const dangling = runMigrations({
+    schemaVersion: 2,
+    data: { ...migrated, plants: [{ ...migrated.plants[0], gardenId: 'garden-gone' }] },
+  });
+  assert('dangling plant gardenId dropped (plant moves home)', !('gardenId' in dangling.plants[0]));
 
   // ======================================================================
   // PHASE 5 — seasonality + soil_check + overdue-penalty skip
@@ -316,7 +335,7 @@ try {
     assert("soil_check task icon === '🤚'",
       baTasks[0]?.icon === '🤚');
     assert("soil_check task label uses tasks.checkSoil i18n key (stubbed pass-through)",
-      baTasks[0]?.label?.startsWith('tasks.checkSoil'));
+      baTasks[0]?.label?.key === 'tasks.checkSoil');
 
     // Non-check-in day: same plant, day before next check-in.
     const apr14 = new Date(2026, 3, 14);
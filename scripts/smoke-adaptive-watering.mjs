@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+// scripts/smoke-adaptive-watering.mjs
+// v1.3 (ADAPT-01) adaptive watering smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles src/utils/dates.ts + src/utils/adaptiveWatering.ts and exercises the interval math.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-adaptive-watering');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+const adaptivePath = compile('src/utils/adaptiveWatering.ts', 'adaptiveWatering.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+const mod = await import(adaptivePath + '?t=' + Date.now());
+const { median, collectIntervalSamples, suggestWaterInterval, ADAPTIVE_MIN_SAMPLES, ADAPTIVE_MAX_GAP_DAYS } = mod;
+
+// ─── Fixtures ───
+let seq = 0;
+const ev = (type, date) => ({ id: `e${++seq}`, type, date, timestamp: `${date}T10:00:00.000Z`, source: 'task' });
+const water = (date) => ev('water', date);
+const moist = (date) => ev('soil_check', date);
+const allWarm = () => 'warm';
+// Southern hemisphere style split: May–Sep cold, rest warm.
+const bySouthMonth = (d) => (d.getMonth() >= 4 && d.getMonth() <= 8 ? 'cold' : 'warm');
+const plant = (overrides = {}) => ({
+  id: 'p1',
+  name: 'Potus',
+  typeId: 'potus',
+  icon: '🪴',
+  waterEvery: 7,
+  sunHours: 2,
+  sunDoneDate: null,
+  outdoorDays: [],
+  outdoorDoneDate: null,
+  lastWatered: null,
+  notes: '',
+  waterMode: 'soil_check',
+  waterSchedule: { warm: 7, cold: 14 },
+  ...overrides,
+});
+
+// ─── median ───
+assert(median([5]) === 5, 'AW.1: median of single value');
+assert(median([9, 3, 5]) === 5, 'AW.2: median of odd-length list sorts first');
+assert(median([4, 2, 6, 8]) === 5, 'AW.3: median of even-length list averages middle pair');
+assert(ADAPTIVE_MIN_SAMPLES === 3, 'AW.4: ADAPTIVE_MIN_SAMPLES is 3');
+
+// ─── collectIntervalSamples ───
+{
+  const events = [water('2026-01-01'), water('2026-01-05'), water('2026-01-10'), water('2026-01-14')];
+  const { samples, skippedChecks } = collectIntervalSamples(events, 'warm', allWarm);
+  assert(JSON.stringify(samples) === '[4,5,4]', 'AW.5: closed water-to-water gaps collected in order');
+  assert(skippedChecks === 0, 'AW.6: no skipped checks without soil_check events');
+}
+{
+  const events = [water('2026-01-01'), water('2026-01-01'), water('2026-01-05')];
+  const { samples } = collectIntervalSamples(events, 'warm', allWarm);
+  assert(JSON.stringify(samples) === '[4]', 'AW.7: same-day double watering yields no zero-day sample');
+}
+{
+  const events = [water('2026-01-01'), water('2026-03-20'), water('2026-03-25')];
+  const { samples } = collectIntervalSamples(events, 'warm', allWarm);
+  assert(!samples.some(s => s > ADAPTIVE_MAX_GAP_DAYS), 'AW.8: gaps above ADAPTIVE_MAX_GAP_DAYS are discarded');
+  assert(JSON.stringify(samples) === '[5]', 'AW.9: normal gap after a long absence still counts');
+}
+{
+  const events = [water('2026-01-01'), water('2026-01-06'), water('2026-01-11'), moist('2026-01-17'), moist('2026-01-19')];
+  const { samples, skippedChecks } = collectIntervalSamples(events, 'warm', allWarm);
+  assert(skippedChecks === 2, 'AW.10: skipped soil checks are counted');
+  assert(JSON.stringify(samples) === '[5,5,9]', 'AW.11: open skip gap after the latest watering is a lower bound (days + 1)');
+}
+{
+  const events = [water('2026-01-01'), moist('2026-01-05'), water('2026-01-08')];
+  const { samples } = collectIntervalSamples(events, 'warm', allWarm);
+  assert(JSON.stringify(samples) === '[7]', 'AW.12: skips closed by a later watering do not add a separate sample');
+}
+{
+  const events = [moist('2026-01-01'), water('2026-01-03')];
+  const { samples, skippedChecks } = collectIntervalSamples(events, 'warm', allWarm);
+  assert(samples.length === 0 && skippedChecks === 0, 'AW.13: skip before any watering is ignored');
+}
+{
+  // April (warm) → June (cold): gaps bucketed by the season of the closing watering.
+  const events = [
+    water('2026-04-20'), water('2026-04-25'),
+    water('2026-06-01'), water('2026-06-12'), water('2026-06-24'),
+  ];
+  const warm = collectIntervalSamples(events, 'warm', bySouthMonth).samples;
+  const cold = collectIntervalSamples(events, 'cold', bySouthMonth).samples;
+  assert(JSON.stringify(warm) === '[5]', 'AW.14: warm bucket only holds gaps closed in the warm season');
+  assert(JSON.stringify(cold) === '[37,11,12]', 'AW.15: cold bucket holds gaps closed in the cold season');
+}
+{
+  const events = [water('2026-01-01'), water('2026-01-05'), water('2026-01-09')];
+  const tropical = collectIntervalSamples(events, 'warm', () => 'tropical').samples;
+  assert(tropical.length === 2, 'AW.16: tropical season maps to the warm bucket');
+}
+
+// ─── suggestWaterInterval ───
+{
+  const events = [water('2026-01-01'), water('2026-01-11'), water('2026-01-21'), water('2026-01-31')];
+  const s = suggestWaterInterval(plant(), events, 'warm', allWarm);
+  assert(s !== null && s.suggestedDays === 10 && s.currentDays === 7, 'AW.17: suggests the median gap for the current bucket');
+  assert(s !== null && s.bucket === 'warm' && s.sampleCount === 3, 'AW.18: suggestion reports bucket and sample count');
+}
+{
+  const events = [water('2026-01-01'), water('2026-01-11'), water('2026-01-21')];
+  assert(suggestWaterInterval(plant(), events, 'warm', allWarm) === null, 'AW.19: fewer than ADAPTIVE_MIN_SAMPLES → null');
+}
+{
+  const events = [water('2026-01-01'), water('2026-01-11'), water('2026-01-21'), water('2026-01-31')];
+  assert(suggestWaterInterval(plant({ waterMode: 'schedule' }), events, 'warm', allWarm) === null,
+    'AW.20: schedule-mode plants never get a suggestion');
+  assert(suggestWaterInterval(plant({ waterSchedule: undefined }), events, 'warm', allWarm) === null,
+    'AW.21: plants without waterSchedule get no suggestion');
+}
+{
+  const events = [water('2026-01-01'), water('2026-01-08'), water('2026-01-15'), water('2026-01-22')];
+  assert(suggestWaterInterval(plant(), events, 'warm', allWarm) === null, 'AW.22: suggestion equal to current value → null');
+}
+{
+  const events = [water('2026-01-01'), water('2026-02-10'), water('2026-03-22'), water('2026-05-01')];
+  const s = suggestWaterInterval(plant({ waterSchedule: { warm: 7, cold: 14 } }), events, 'warm', allWarm);
+  assert(s !== null && s.suggestedDays === 30, 'AW.23: suggestion clamped to 30 days');
+}
+{
+  const events = [water('2026-01-01'), water('2026-01-04'), water('2026-01-07'), moist('2026-01-12'), moist('2026-01-14')];
+  const s = suggestWaterInterval(plant({ waterSchedule: { warm: 5, cold: 10 } }), events, 'warm', allWarm);
+  assert(s !== null && s.suggestedDays === 3 && s.skippedChecks === 2, 'AW.24: skips feed a lower bound without dominating the median');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-adaptive-watering] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-adaptive-watering] PASS ${pass}/${pass}`);
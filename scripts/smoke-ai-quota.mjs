@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+// scripts/smoke-ai-quota.mjs
+// v1.3 (QUOTA-01) server-side AI quota smoke runner. Single-compile-path policy (Phase 4 lock).
+// Checks that the edge functions' free limits match src/config/premium.ts, that all three AI
+// functions count calls and allow the quota headers, and compiles aiQuotaService against stubs
+// to check the request headers and the QUOTA_EXCEEDED error parsing.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-ai-quota');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Stubs (auto-written) ───
+const stubs = {
+  'secureStore.mjs':
+    `// QUOTA-01 smoke stub for expo-secure-store.\n` +
+    `export const store = new Map();\n` +
+    `export async function getItemAsync(key) { return store.has(key) ? store.get(key) : null; }\n` +
+    `export async function setItemAsync(key, value) { store.set(key, value); }\n`,
+  'crypto.mjs':
+    `// QUOTA-01 smoke stub for expo-crypto.\n` +
+    `let n = 0;\n` +
+    `export function randomUUID() { n++; return '00000000-0000-4000-8000-' + String(n).padStart(12, '0'); }\n`,
+  'reactNative.mjs':
+    `// QUOTA-01 smoke stub for react-native.\n` +
+    `export const Platform = { OS: 'ios' };\n`,
+  'supabase.mjs':
+    `// QUOTA-01 smoke stub for ../lib/supabase — set globalThis.__session to sign in,\n` +
+    `// globalThis.__anonymousFails to make anonymous sign-in fail.\n` +
+    `export const supabase = { auth: {\n` +
+    `  getSession: async () => ({ data: { session: globalThis.__session ?? null } }),\n` +
+    `  signInAnonymously: async () => {\n` +
+    `    if (globalThis.__anonymousFails) return { data: { session: null }, error: new Error('disabled') };\n` +
+    `    globalThis.__session = { access_token: 'anonymous-jwt', user: { id: 'anon-user', is_anonymous: true } };\n` +
+    `    return { data: { session: globalThis.__session }, error: null };\n` +
+    `  },\n` +
+    `} };\n`,
+  'payments.mjs':
+    `// QUOTA-01 smoke stub for ./payments — records RevenueCat logins in globalThis.__rcLogins.\n` +
+    `globalThis.__rcLogins = [];\n` +
+    `export const paymentService = { logIn: async (id) => { globalThis.__rcLogins.push(id); } };\n`,
+};
+for (const [name, src] of Object.entries(stubs)) writeFileSync(resolve(TMP_DIR, name), src);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+const servicePath = compile('src/services/aiQuotaService.ts', 'aiQuotaService.mjs', [
+  ["from 'expo-secure-store'", "from './secureStore.mjs'"],
+  ["from 'expo-crypto'", "from './crypto.mjs'"],
+  ["from 'react-native'", "from './reactNative.mjs'"],
+  ["from '../lib/supabase'", "from './supabase.mjs'"],
+  ["from './payments'", "from './payments.mjs'"],
+]);
+const {
+  QUOTA_EXCEEDED_CODE,
+  QUOTA_EXCEEDED_ERROR,
+  getAiRequestHeaders,
+  readFunctionError,
+} = await import(servicePath + '?t=' + Date.now());
+const { store } = await import(resolve(TMP_DIR, 'secureStore.mjs'));
+
+const read = (relPath) => readFileSync(resolve(ROOT, relPath), 'utf8');
+const constant = (src, name) => {
+  const m = src.match(new RegExp(`const ${name} = (\\d+);`));
+  return m ? Number(m[1]) : null;
+};
+
+// ─── Limits mirror the app gate ───
+{
+  const premium = read('src/config/premium.ts');
+  const shared = read('supabase/functions/_shared/quota.ts');
+  for (const [n, name] of [[1, 'FREE_IDENTIFICATION_LIMIT'], [2, 'FREE_DIAGNOSIS_LIMIT'], [3, 'FREE_CHAT_MESSAGES_PER_DIAGNOSIS']]) {
+    const app = constant(premium, name);
+    assert(app !== null && app === constant(shared, name), `AQ.${n}: ${name} matches src/config/premium.ts`);
+  }
+  assert(shared.includes("code: 'QUOTA_EXCEEDED'") && shared.includes(`'${QUOTA_EXCEEDED_CODE}'`), 'AQ.4: the server answers with the code the client checks');
+  assert(!shared.includes("'x-revenuecat-id'") && shared.includes('getPremiumEntitlement(caller.userId)'), 'AQ.25: premium is checked for the authenticated user, not a request header');
+  assert(shared.includes("'NO_DEVICE_ID'") && !shared.includes("if (deviceId && DEVICE_ID_RE.test(deviceId))"), 'AQ.26: calls without the device id header are refused, not counted per user only');
+  assert(shared.includes('data.user.is_anonymous ? [device]'), 'AQ.27: anonymous sessions count against the device');
+  assert(shared.includes(':diagnosis:${diagnosisId}') && shared.includes('chat: FREE_CHAT_MESSAGES_PER_DIAGNOSIS,'), 'AQ.28: chat messages are counted per diagnosis');
+}
+
+// ─── Edge functions ───
+{
+  const fns = [['identify-plant', 'identification'], ['diagnose-plant', 'diagnosis'], ['chat-diagnosis', 'chat']];
+  fns.forEach(([fn, kind], i) => {
+    const src = read(`supabase/functions/${fn}/index.ts`);
+    const call = kind === 'chat' ? `checkQuota(req, 'chat', corsHeaders, body.diagnosisId)` : `checkQuota(req, '${kind}', corsHeaders)`;
+    assert(
+      src.includes(call) && src.includes('if (!quota.allowed) return quota.response;'),
+      `AQ.${5 + i}: ${fn} counts its calls as '${kind}'`
+    );
+    assert(src.includes('${QUOTA_HEADERS}') && src.includes('await releaseQuota()'), `AQ.${8 + i}: ${fn} allows the quota headers and gives failed calls back`);
+  });
+  const migration = read('supabase/migrations/012_ai_quota.sql');
+  const schema = read('supabase/schema.sql');
+  assert(
+    ['ai_usage', 'consume_ai_quota', 'release_ai_quota'].every(n => migration.includes(n) && schema.includes(n)),
+    'AQ.11: migration 012 and schema.sql both define the usage table and functions'
+  );
+}
+
+// ─── Clients ───
+{
+  for (const [n, file] of [[12, 'src/utils/plantDiagnosis.ts'], [13, 'src/utils/plantIdentification.ts']]) {
+    const src = read(file);
+    assert(
+      src.includes('headers: await getAiRequestHeaders()') && !src.includes('EXPO_PUBLIC_SUPABASE_ANON_KEY'),
+      `AQ.${n}: ${file} sends the quota headers on every call`
+    );
+  }
+  assert(read('src/utils/plantDiagnosis.ts').includes('diagnosisId,') && read('src/hooks/usePlantDiagnosis.ts').includes('conversationIdRef.current ?? undefined'),
+    'AQ.29: chat messages carry the id of their diagnosis');
+}
+
+// ─── Request headers ───
+{
+  globalThis.__anonymousFails = true;
+  const offline = await getAiRequestHeaders();
+  assert(offline.Authorization === 'Bearer anon-key' && globalThis.__rcLogins.length === 0, 'AQ.14: with no session at all, the anon key goes and RevenueCat is left alone');
+  assert(/^[A-Za-z0-9-]{8,64}$/.test(offline['x-device-id']), 'AQ.15: the device id passes the server format check');
+  assert([...store.values()].includes(offline['x-device-id']), 'AQ.16: the device id is kept in SecureStore');
+
+  globalThis.__anonymousFails = false;
+  const anon = await getAiRequestHeaders();
+  assert(anon.Authorization === 'Bearer anonymous-jwt' && globalThis.__rcLogins.join() === 'anon-user', 'AQ.17: logged out, the app signs in anonymously and logs RevenueCat in with that id');
+
+  globalThis.__session = { access_token: 'user-jwt', user: { id: 'user-1' } };
+  const signedIn = await getAiRequestHeaders();
+  assert(signedIn.Authorization === 'Bearer user-jwt' && globalThis.__rcLogins.at(-1) === 'user-1', 'AQ.18: signed in, the access token goes and RevenueCat uses the auth id');
+  assert(signedIn['x-device-id'] === offline['x-device-id'] && !('x-revenuecat-id' in signedIn), 'AQ.19: the device id is stable; no client-supplied RevenueCat id');
+}
+
+// ─── Error parsing ───
+{
+  const httpError = (body) => ({ message: 'non-2xx', context: { json: async () => body } });
+  const quota = await readFunctionError(httpError({ error: 'Alcanzaste el límite', code: 'QUOTA_EXCEEDED' }), 'fallback');
+  assert(quota.code === QUOTA_EXCEEDED_CODE && quota.message === 'Alcanzaste el límite', 'AQ.20: code and message are read from the body');
+  const plain = await readFunctionError(httpError({ message: 'boom' }), 'fallback');
+  assert(plain.code === null && plain.message === 'boom', 'AQ.21: bodies without code give a null code');
+  const broken = await readFunctionError({ context: { json: async () => { throw new Error('x'); } } }, 'fallback');
+  assert(broken.message === 'fallback', 'AQ.22: unreadable bodies fall back');
+  const relay = await readFunctionError({ message: 'relay down' }, 'fallback');
+  assert(relay.message === 'relay down' && relay.code === null, 'AQ.23: errors without a response keep their message');
+  assert(QUOTA_EXCEEDED_ERROR !== 'AbortError', 'AQ.24: the quota error name is its own');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-ai-quota] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-ai-quota] PASS ${pass}/${pass}`);
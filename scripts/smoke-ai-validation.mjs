@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+// scripts/smoke-ai-validation.mjs
+// v1.3 (AIVAL-01) AI response validation smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles the shared aiValidation + aiResponse modules and checks the diagnosis / chat /
+// identification validators (repairs and typed errors), the single re-ask against a fake
+// provider, and that the edge functions and the app both use the validators.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-ai-validation');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+const silenced = console.error;
+console.error = () => {};
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('supabase/functions/_shared/vision.ts', 'vision.mjs');
+const {
+  validateDiagnosisResult,
+  validateChatResponse,
+  validateIdentificationResponse,
+} = await import(compile('supabase/functions/_shared/aiValidation.ts', 'aiValidation.mjs') + '?t=' + Date.now());
+const { generateValidated } = await import(compile('supabase/functions/_shared/aiResponse.ts', 'aiResponse.mjs', [
+  ['from "./vision.ts"', 'from "./vision.mjs"'],
+  ['from "./aiValidation.ts"', 'from "./aiValidation.mjs"'],
+]) + '?t=' + Date.now());
+
+const read = (relPath) => readFileSync(resolve(ROOT, relPath), 'utf8');
+
+// ─── Fixtures ───
+const issue = (overrides = {}) => ({
+  name: 'Exceso de riego',
+  confidence: 80,
+  severity: 'moderate',
+  description: 'Hojas amarillas.',
+  treatment: 'Regá menos.',
+  ...overrides,
+});
+const diagnosis = (overrides = {}) => ({
+  overallStatus: 'moderate',
+  summary: 'Algo de exceso de riego.',
+  issues: [issue()],
+  careTips: ['Revisá la tierra.'],
+  severity: 'moderate',
+  problemSummary: 'Exceso de riego.',
+  ...overrides,
+});
+const match = (overrides = {}) => ({
+  score: 0.82,
+  species: {
+    scientificNameWithoutAuthor: 'Epipremnum aureum',
+    scientificNameAuthorship: '(Linden & André) G.S.Bunting',
+    genus: { scientificNameWithoutAuthor: 'Epipremnum' },
+    family: { scientificNameWithoutAuthor: 'Araceae' },
+    commonNames: ['Potus'],
+  },
+  ...overrides,
+});
+
+// ─── Diagnosis ───
+{
+  const ok = validateDiagnosisResult(diagnosis());
+  assert(ok.ok && ok.repairs.length === 0 && JSON.stringify(ok.value) === JSON.stringify(diagnosis()), 'AV.1: a valid diagnosis passes untouched');
+
+  const aliased = validateDiagnosisResult(diagnosis({ overallStatus: 'Moderada', issues: [issue({ severity: 'high' })] }));
+  assert(aliased.ok && aliased.value.overallStatus === 'moderate' && aliased.value.issues[0].severity === 'severe', 'AV.2: severities in other words or languages are mapped');
+
+  const scaled = validateDiagnosisResult(diagnosis({ issues: [issue({ confidence: 0.85 }), issue({ confidence: '90%' }), issue({ confidence: 150 }), issue({ confidence: -5 })] }));
+  assert(scaled.ok && scaled.value.issues.map(i => i.confidence).join() === '85,90,100,0', 'AV.3: confidence is scaled, parsed and clamped to 0-100');
+  assert(scaled.ok && scaled.repairs.length === 3, 'AV.4: every repair is reported');
+
+  const noIssues = validateDiagnosisResult(diagnosis({ issues: undefined }));
+  assert(noIssues.ok && Array.isArray(noIssues.value.issues) && noIssues.value.issues.length === 0, 'AV.5: a missing issues list becomes empty');
+
+  const inherited = validateDiagnosisResult(diagnosis({ issues: [issue({ severity: undefined, description: undefined })] }));
+  assert(inherited.ok && inherited.value.issues[0].severity === 'moderate' && inherited.value.issues[0].description === '', 'AV.6: issue severity falls back to the status, texts to empty');
+
+  const derived = validateDiagnosisResult(diagnosis({ overallStatus: undefined, severity: undefined, issues: [issue({ severity: 'minor' }), issue({ severity: 'severe' })] }));
+  assert(derived.ok && derived.value.overallStatus === 'severe' && derived.value.severity === 'severe', 'AV.7: a missing status comes from the worst issue');
+
+  const noStatus = validateDiagnosisResult(diagnosis({ overallStatus: 'regular', severity: undefined, issues: [] }));
+  assert(!noStatus.ok && noStatus.code === 'INVALID_SHAPE' && noStatus.errors.includes('overallStatus missing'), 'AV.8: an underivable status is INVALID_SHAPE');
+
+  const unnamed = validateDiagnosisResult(diagnosis({ issues: [issue(), issue({ name: ' ' })] }));
+  assert(!unnamed.ok && unnamed.errors.includes('issues[1].name missing'), 'AV.9: issues without a name cannot be repaired');
+  const noConfidence = validateDiagnosisResult(diagnosis({ issues: [issue({ confidence: 'alta' })] }));
+  assert(!noConfidence.ok && noConfidence.errors.includes('issues[0].confidence missing'), 'AV.10: non-numeric confidence cannot be repaired');
+
+  const tips = validateDiagnosisResult(diagnosis({ careTips: 'Regá menos.' }));
+  const mixed = validateDiagnosisResult(diagnosis({ careTips: ['Uno', 3, '', 'Dos'] }));
+  assert(tips.ok && tips.value.careTips.join() === 'Regá menos.' && mixed.ok && mixed.value.careTips.join() === 'Uno,Dos', 'AV.11: tips become a clean list of strings');
+
+  const summary = validateDiagnosisResult(diagnosis({ summary: '' }));
+  assert(summary.ok && summary.value.summary === 'Exceso de riego.', 'AV.12: the summary falls back to problemSummary');
+  const wrapped = validateDiagnosisResult(diagnosis({ issues: issue() }));
+  assert(wrapped.ok && wrapped.value.issues.length === 1, 'AV.13: a lone issue object is wrapped in a list');
+  assert(validateDiagnosisResult(undefined).code === 'INVALID_JSON' && validateDiagnosisResult([diagnosis()]).code === 'INVALID_JSON', 'AV.14: no object is INVALID_JSON');
+}
+
+// ─── Chat ───
+{
+  const ok = validateChatResponse({ reply: 'Sí, regá menos.', updatedTips: ['Regá cada 10 días'], improvementDetected: true });
+  assert(ok.ok && ok.repairs.length === 0 && ok.value.improvementDetected === true, 'AV.15: a valid reply passes');
+  const bare = validateChatResponse({ reply: 'Hola' });
+  assert(bare.ok && bare.value.updatedTips.length === 0 && bare.value.improvementDetected === false, 'AV.16: missing tips and flag default to none');
+  const coerced = validateChatResponse({ reply: 'Hola', updatedTips: 'Una', improvementDetected: 'true' });
+  assert(coerced.ok && coerced.value.updatedTips.join() === 'Una' && coerced.value.improvementDetected === true, 'AV.17: loose tips and string flags are coerced');
+  const empty = validateChatResponse({ reply: '', updatedTips: [] });
+  assert(!empty.ok && empty.code === 'INVALID_SHAPE', 'AV.18: a reply is required');
+}
+
+// ─── Identification ───
+{
+  const ok = validateIdentificationResponse({ results: [match()], bestMatch: 'Epipremnum aureum' });
+  assert(ok.ok && ok.repairs.length === 0 && ok.value.results[0].score === 0.82 && ok.value.bestMatch === 'Epipremnum aureum', 'AV.19: a valid PlantNet payload passes');
+  const none = validateIdentificationResponse({ message: 'No se pudo identificar la planta en la imagen' });
+  assert(none.ok && none.value.results.length === 0 && none.value.message, 'AV.20: no results is a valid empty answer');
+  const messy = validateIdentificationResponse({
+    results: [match({ score: 87 }), match({ species: {} }), { score: 0.5 }, match({ score: 'x' })],
+  });
+  assert(messy.ok && messy.value.results.length === 1 && messy.value.results[0].score === 0.87, 'AV.21: percent scores are scaled, unusable matches dropped');
+  const sparse = validateIdentificationResponse({ results: [match({ species: { scientificNameWithoutAuthor: 'Ficus lyrata', commonNames: ['Ficus', 4] } })] });
+  const s = sparse.ok && sparse.value.results[0].species;
+  assert(s && s.genus.scientificNameWithoutAuthor === 'Ficus' && s.family.scientificNameWithoutAuthor === '' && s.commonNames.join() === 'Ficus', 'AV.22: missing genus / family are filled, names cleaned');
+  assert(validateIdentificationResponse({ results: 'Potus' }).code === 'INVALID_SHAPE', 'AV.23: results that are not a list are INVALID_SHAPE');
+}
+
+// ─── Re-ask ───
+{
+  const fakeProvider = (answers) => {
+    const requests = [];
+    return {
+      requests,
+      provider: {
+        name: 'fake',
+        model: 'fake',
+        async generate(request) {
+          requests.push(request);
+          return answers.shift();
+        },
+      },
+    };
+  };
+  const request = { task: 'chat', system: 'S', messages: [{ role: 'user', parts: [{ text: '¿Y ahora?' }] }] };
+  const retryText = (errors) => `Respondé de nuevo (${errors.join('; ')})`;
+
+  const first = fakeProvider([{ ok: true, text: '{"reply":"Bien"}' }]);
+  const once = await generateValidated(first.provider, request, validateChatResponse, retryText);
+  assert(once.ok && once.attempts === 1 && first.requests.length === 1, 'AV.24: a valid answer is not re-asked');
+
+  const retry = fakeProvider([{ ok: true, text: '{"reply":""}' }, { ok: true, text: '{"reply":"Ahora sí"}' }]);
+  const twice = await generateValidated(retry.provider, request, validateChatResponse, retryText);
+  const follow = retry.requests[1]?.messages ?? [];
+  assert(twice.ok && twice.attempts === 2 && twice.value.reply === 'Ahora sí', 'AV.25: an invalid answer is asked once more');
+  assert(
+    follow.length === 3 && follow[1].role === 'model' && follow[1].parts[0].text === '{"reply":""}' &&
+      follow[2].parts[0].text.includes('reply missing') && follow[2].parts[0].text.includes('Respondé'),
+    'AV.26: the re-ask carries the bad answer and the locale retry text with the errors'
+  );
+
+  const stubborn = fakeProvider([{ ok: true, text: 'no sé' }, { ok: true, text: 'tampoco' }]);
+  const failed = await generateValidated(stubborn.provider, request, validateChatResponse, retryText);
+  assert(!failed.ok && failed.code === 'INVALID_JSON' && stubborn.requests.length === 2, 'AV.27: a second failure returns its code, no third try');
+
+  const down = fakeProvider([{ ok: false, code: 'PROVIDER_ERROR', status: 503 }]);
+  const outage = await generateValidated(down.provider, request, validateChatResponse, retryText);
+  assert(!outage.ok && outage.code === 'PROVIDER_ERROR' && down.requests.length === 1, 'AV.28: provider failures are not re-asked');
+}
+
+// ─── Wiring ───
+{
+  const edge = [
+    ['diagnose-plant', 'validateDiagnosisResult'],
+    ['chat-diagnosis', 'validateChatResponse'],
+    ['identify-plant', 'validateIdentificationResponse'],
+  ].every(([fn, validator]) => {
+    const src = read(`supabase/functions/${fn}/index.ts`);
+    return src.includes(validator) && src.includes('INVALID_AI_RESPONSE');
+  });
+  assert(edge, 'AV.29: every AI edge function validates and answers INVALID_AI_RESPONSE');
+  const diagnosisClient = read('src/utils/plantDiagnosis.ts');
+  const identificationClient = read('src/utils/plantIdentification.ts');
+  assert(
+    diagnosisClient.includes('validateDiagnosisResult(data)') && diagnosisClient.includes('validateChatResponse(data)') &&
+      identificationClient.includes('validateIdentificationResponse(data)'),
+    'AV.30: the app validates what it receives with the same module'
+  );
+  const union = (src, name) => src.match(new RegExp(`type ${name} = ([^;]+);`))?.[1].trim();
+  assert(
+    union(read('src/types/index.ts'), 'AiResponseErrorCode') === union(read('supabase/functions/_shared/aiValidation.ts'), 'AiValidationErrorCode'),
+    'AV.31: the app error codes mirror the validator codes'
+  );
+}
+
+// ─── Report ───
+console.error = silenced;
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-ai-validation] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-ai-validation] PASS ${pass}/${pass}`);
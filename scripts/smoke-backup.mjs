@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+// scripts/smoke-backup.mjs
+// v1.3 (BACKUP-01) backup export/import smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles migration + backup and checks the archive round trip, photo path portability,
+// photo path validation, error codes, and the merge / replace rules with conflicts reported by plant id.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-backup');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const migrationPath = compile('src/utils/migration.ts', 'migration.mjs');
+const backupPath = compile('src/utils/backup.ts', 'backup.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+
+const { CURRENT_SCHEMA_VERSION } = await import(migrationPath + '?t=' + Date.now());
+const {
+  BACKUP_FORMAT,
+  BACKUP_JSON_START,
+  backupPhotoJson,
+  backupJsonEnd,
+  isSafePhotoPath,
+  collectPhotoUris,
+  toArchivePath,
+  buildBackupArchive,
+  localizeBackupData,
+  parseBackupArchive,
+  applyBackup,
+  getBackupFileName,
+  unreferencedPhotoUris,
+} = await import(backupPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const OLD_DOC = 'file:///var/mobile/Containers/Data/Application/AAAA/Documents/';
+const NEW_DOC = 'file:///var/mobile/Containers/Data/Application/BBBB/Documents/';
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  waterSchedule: { warm: 7, cold: 14 },
+  lightLevel: 'bright_indirect',
+  waterMode: 'fixed',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: '2026-10-01',
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  ...overrides,
+});
+const appData = (overrides = {}) => ({
+  plants: [],
+  notes: {},
+  reminders: {},
+  location: null,
+  onboardingCompleted: true,
+  userName: null,
+  notificationSettings: null,
+  plantNetApiKey: null,
+  installDate: '2026-01-01',
+  identificationCount: 0,
+  diagnosisCount: 0,
+  diagnosisHistory: {},
+  shoppingList: [],
+  climateOverride: 'auto',
+  journals: {},
+  careLog: {},
+  vacation: null,
+  gardens: [],
+  activeGardenId: 'home',
+  ...overrides,
+});
+const event = (id, date) => ({ id, type: 'water', date, source: 'task', loggedAt: `${date}T09:00:00.000Z` });
+
+const phonePlant = plant('p1', {
+  name: 'Monstera',
+  photos: [
+    { id: 'ph1', uri: `${OLD_DOC}plant-photos/p1/ph1.jpg`, date: '2026-09-01' },
+    { id: 'ph2', uri: 'https://example.com/remote.jpg', date: '2026-09-02' },
+  ],
+});
+const oldPhone = appData({
+  plants: [phonePlant, plant('p2', { name: 'Pothos', gardenId: 'garden-1' })],
+  gardens: [{ id: 'garden-1', name: 'Balcón', icon: '🌇', location: null, climateOverride: 'auto' }],
+  journals: { p1: [{ id: 'j1', date: '2026-09-03', text: 'hojas nuevas', photoUri: `${OLD_DOC}journal/p1/j1.jpg` }] },
+  careLog: { p1: [event('e1', '2026-10-01')], p2: [event('e2', '2026-10-02')] },
+  notes: { '2026-09-10': [{ id: 'n1', text: 'rotar', createdAt: '2026-09-10' }] },
+  reminders: { '2026-10-20': [{ id: 'r1', text: 'abonar', time: '09:00', done: false }, { id: 'r2', text: 'podar', time: '10:00', done: false }] },
+  shoppingList: [{ id: 's1', text: 'fungicida', diagnosisId: 'd1', plantId: 'p2', plantName: 'Pothos', checked: false, createdAt: '2026-09-11' }],
+  plantNetApiKey: 'secret-key',
+  identificationCount: 4,
+});
+
+// ─── Photos + archive ───
+{
+  const uris = collectPhotoUris(oldPhone);
+  assert(uris.length === 3, 'BK.1: plant + journal photo URIs are collected');
+  assert(toArchivePath(`${OLD_DOC}journal/p1/j1.jpg`, OLD_DOC) === 'journal/p1/j1.jpg', 'BK.2: archive path is relative to the document dir');
+  assert(toArchivePath('https://example.com/remote.jpg', OLD_DOC) === null, 'BK.3: remote URLs are not packaged');
+}
+
+const files = { 'plant-photos/p1/ph1.jpg': 'AAAA', 'journal/p1/j1.jpg': 'BBBB' };
+const archive = buildBackupArchive(oldPhone, Object.keys(files), OLD_DOC, new Date('2026-10-18T10:00:00Z'));
+// Written the way the export streams it: opening, one entry per photo, then the head.
+const text = BACKUP_JSON_START
+  + Object.entries(files).map(([path, base64], i) => backupPhotoJson(path, base64, i)).join('')
+  + backupJsonEnd(archive);
+{
+  assert(archive.format === BACKUP_FORMAT && archive.persisted.schemaVersion === CURRENT_SCHEMA_VERSION, 'BK.4: archive wraps the current envelope');
+  assert(archive.persisted.data.plantNetApiKey === null, 'BK.5: PlantNet key never leaves the phone');
+  assert(archive.persisted.data.plants[0].photos[0].uri === 'plant-photos/p1/ph1.jpg', 'BK.6: packaged photo URIs become relative');
+  assert(archive.persisted.data.plants[0].photos[1].uri === 'https://example.com/remote.jpg', 'BK.7: remote photo URIs are untouched');
+  assert(oldPhone.plants[0].photos[0].uri.startsWith(OLD_DOC), 'BK.8: export does not mutate live data');
+  assert(getBackupFileName('2026-10-18') === 'plant-agenda-backup-2026-10-18.json', 'BK.9: file name carries the export date');
+  assert(JSON.stringify(JSON.parse(text)) === JSON.stringify({ files, ...archive }), 'BK.31: the streamed pieces make up the whole archive as JSON');
+}
+
+// ─── Parse + validate ───
+{
+  const parsed = parseBackupArchive(text);
+  assert(parsed.success && parsed.data.plants.length === 2 && parsed.exportedAt === '2026-10-18T10:00:00.000Z', 'BK.10: archive round-trips');
+  const local = localizeBackupData(parsed.data, parsed.files, NEW_DOC);
+  assert(local.plants[0].photos[0].uri === `${NEW_DOC}plant-photos/p1/ph1.jpg`, 'BK.11: photo URIs point at the new install');
+  assert(local.journals.p1[0].photoUri === `${NEW_DOC}journal/p1/j1.jpg`, 'BK.12: journal photo URIs point at the new install');
+
+  const err = (t) => { const r = parseBackupArchive(t); return r.success ? 'ok' : r.error; };
+  assert(err('{not json') === 'invalid_json', 'BK.13: broken JSON is rejected');
+  assert(err(JSON.stringify({ schemaVersion: 3, data: { plants: [] } })) === 'not_a_backup', 'BK.14: a bare envelope is not a backup');
+  assert(err(JSON.stringify({ ...archive, formatVersion: 99 })) === 'unsupported_version', 'BK.15: newer archive format is refused');
+  assert(err(JSON.stringify({ ...archive, persisted: { schemaVersion: CURRENT_SCHEMA_VERSION + 1, data: archive.persisted.data } })) === 'newer_schema', 'BK.16: newer schema is refused');
+  assert(err(JSON.stringify({ ...archive, persisted: { schemaVersion: 3, data: { plants: [{ name: 'x' }] } } })) === 'invalid_data', 'BK.17: plants without ids are rejected');
+
+  const v1 = { ...archive, persisted: { schemaVersion: 1, data: { ...archive.persisted.data, careLog: undefined, gardens: undefined, activeGardenId: undefined } } };
+  const migrated = parseBackupArchive(JSON.stringify(v1));
+  assert(migrated.success && Array.isArray(migrated.data.careLog.p1) && Array.isArray(migrated.data.gardens), 'BK.18: old envelopes run through runMigrations');
+
+  assert(isSafePhotoPath('plant-photos/p1/ph1.jpg') && isSafePhotoPath('journal/p1/j1.jpg'), 'BK.34: photo folder paths are accepted');
+  assert(
+    ['/etc/passwd', 'file:///data/x.jpg', 'journal/../../secrets.json', 'plant-photos/./p1/x.jpg', 'plant-photos//x.jpg', 'journal', 'notes/x.jpg', 'journal\\..\\x.jpg']
+      .every(path => !isSafePhotoPath(path)),
+    'BK.35: absolute, scheme, dot-segment and out-of-folder paths are rejected'
+  );
+  const crafted = parseBackupArchive(JSON.stringify({
+    ...archive,
+    files: { ...files, '../../Library/evil.jpg': 'CCCC', '/tmp/evil.jpg': 'DDDD' },
+    persisted: { ...archive.persisted, data: { ...archive.persisted.data, plants: [plant('px', { photos: [{ id: 'x', uri: '../../Library/evil.jpg' }] })] } },
+  }));
+  assert(
+    crafted.success && Object.keys(crafted.files).join() === Object.keys(files).join()
+      && localizeBackupData(crafted.data, crafted.files, NEW_DOC).plants[0].photos[0].uri === '../../Library/evil.jpg',
+    'BK.36: unsafe photo paths are dropped on parse and never mapped under the document directory'
+  );
+}
+
+// ─── Merge ───
+const backup = localizeBackupData(parseBackupArchive(text).data, files, NEW_DOC);
+{
+  const newPhone = appData({
+    plants: [plant('p1', { name: 'Monstera del living' }), plant('p3', { name: 'Ficus' })],
+    careLog: { p1: [event('e9', '2026-10-15')], p3: [] },
+    notes: { '2026-09-10': [{ id: 'n7', text: 'regar el ficus', createdAt: '2026-09-10' }] },
+    reminders: { '2026-10-21': [{ id: 'r1', text: 'abonar (movido)', time: '09:00', done: false }] },
+    plantNetApiKey: 'new-phone-key',
+  });
+  const { data, added, conflicts } = applyBackup(newPhone, backup, 'merge');
+  assert(added.join() === 'p2', 'BK.19: merge adds plants missing on this phone');
+  assert(conflicts.length === 1 && conflicts[0].plantId === 'p1' && conflicts[0].localName === 'Monstera del living', 'BK.20: conflicts are reported by plant id');
+  assert(data.plants.find(p => p.id === 'p1').name === 'Monstera del living' && data.careLog.p1[0].id === 'e9', 'BK.21: conflicting plant keeps local data and history');
+  assert(data.careLog.p2[0].id === 'e2', 'BK.22: added plants bring their history');
+  assert(data.gardens.length === 1 && data.plants.find(p => p.id === 'p2').gardenId === 'garden-1', 'BK.23: spaces of added plants come along');
+  assert(data.shoppingList.length === 1 && data.plantNetApiKey === 'new-phone-key', 'BK.24: shopping items follow their plant; local settings stay');
+  const same = applyBackup(appData({ plants: [backup.plants[1]] }), backup, 'merge');
+  assert(same.conflicts.length === 0 && same.added.join() === 'p1', 'BK.25: identical plants are not conflicts');
+  assert(data.notes['2026-09-10'].map(n => n.id).join() === 'n7,n1', 'BK.29: calendar notes survive the merge, joining local notes of the same date');
+  assert(
+    data.reminders['2026-10-21'].map(r => r.text).join() === 'abonar (movido)' && data.reminders['2026-10-20'].map(r => r.id).join() === 'r2',
+    'BK.30: reminders merge by id — one already on this phone is kept once, under its local date'
+  );
+}
+
+// ─── Replace ───
+{
+  const newPhone = appData({
+    plants: [plant('p3', { photos: [{ id: 'ph9', uri: `${NEW_DOC}plant-photos/p3/ph9.jpg` }, { id: 'ph8', uri: 'https://example.com/p3.jpg' }] })],
+    plantNetApiKey: 'new-phone-key',
+    identificationCount: 9,
+  });
+  const { data, added, conflicts } = applyBackup(newPhone, backup, 'replace');
+  assert(data.plants.map(p => p.id).join() === 'p1,p2' && added.length === 2 && conflicts.length === 0, 'BK.26: replace takes the backup wholesale');
+  assert(data.plantNetApiKey === 'new-phone-key', 'BK.27: replace keeps this phone\'s PlantNet key');
+  assert(data.identificationCount === 9, 'BK.28: replace cannot lower the AI usage counters');
+  assert(
+    unreferencedPhotoUris(newPhone, data, NEW_DOC).join() === `${NEW_DOC}plant-photos/p3/ph9.jpg`,
+    'BK.32: replace reports the local photo files the backup no longer references'
+  );
+  assert(unreferencedPhotoUris(data, data, NEW_DOC).length === 0, 'BK.33: photos still referenced are kept');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-backup] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-backup] PASS ${pass}/${pass}`);
@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+// scripts/smoke-care-streaks.mjs
+// v1.3 (STREAK-01) care completion smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + careLog + taskDeferral + plantLogic + careStreaks and checks daily due/done recording,
+// the current / longest run of complete days and the weekly per-plant summary.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-care-streaks');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+writeFileSync(resolve(TMP_DIR, 'plantDatabase.mjs'),
+  `// STREAK-01 smoke stub for ../data/plantDatabase. Auto-written — 'fern' fertilizes every 30 days.\n` +
+  `export function getCatalogEntry(id) { return id === 'fern' ? { id, fertilizeIntervalWarm: 30, fertilizeIntervalCold: null } : null; }\n`
+);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+compile('src/utils/careLog.ts', 'careLog.mjs');
+compile('src/utils/taskDeferral.ts', 'taskDeferral.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+compile('src/utils/plantLogic.ts', 'plantLogic.mjs', [
+  ['from "./dates"', 'from "./dates.mjs"'],
+  ['from "./taskDeferral"', 'from "./taskDeferral.mjs"'],
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+]);
+const streaksPath = compile('src/utils/careStreaks.ts', 'careStreaks.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './careLog'", "from './careLog.mjs'"],
+  ["from './taskDeferral'", "from './taskDeferral.mjs'"],
+]);
+const {
+  CARE_HISTORY_DAYS,
+  WEEKLY_SUMMARY_DAYS,
+  isTaskDoneOn,
+  recordCareDay,
+  recordCareDays,
+  getCareStreaks,
+  getWeeklyCareSummary,
+} = await import(streaksPath + '?t=' + Date.now());
+const { addDays, formatDate } = await import(resolve(TMP_DIR, 'dates.mjs') + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const TODAY = new Date(2026, 9, 18); // Sunday
+const day = (offset) => formatDate(addDays(TODAY, offset));
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  waterSchedule: { warm: 7, cold: 7 },
+  waterMode: 'fixed',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: day(-3),
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  ...overrides,
+});
+const careDay = (date, due, done = due) => ({ date, due, done });
+// history: { plantId: [[offset, dueCount, doneCount], ...] }
+const history = (spec) => Object.fromEntries(Object.entries(spec).map(([id, days]) => [
+  id,
+  days.map(([offset, due, done]) => careDay(day(offset), Array(due).fill('water'), Array(done).fill('water'))),
+]));
+
+// ─── Done checks ───
+{
+  const p = plant('a', { lastWatered: day(0), sunDoneDate: day(0), outdoorDoneDate: day(-1), fertilizeSchedule: { intervalDays: 30, lastFertilized: day(0) } });
+  assert(isTaskDoneOn('water', p, day(0)) && isTaskDoneOn('check_soil', p, day(0)), 'CS.1: watering covers water and soil check tasks');
+  assert(isTaskDoneOn('sun', p, day(0)) && isTaskDoneOn('fertilize', p, day(0)), 'CS.2: sun and fertilize read their done dates');
+  assert(!isTaskDoneOn('outdoor', p, day(0)), 'CS.3: a task done another day is not done today');
+}
+
+// ─── Recording ───
+{
+  const thirsty = plant('a', { lastWatered: day(-7) });
+  const fine = plant('b');
+  const first = recordCareDays({}, [thirsty, fine], day(0), 'warm');
+  assert(JSON.stringify(first.a) === JSON.stringify([careDay(day(0), ['water'], [])]), 'CS.4: a due watering is recorded as due, not done');
+  assert(!('b' in first), 'CS.5: plants with nothing due get no record');
+  assert(recordCareDays(first, [thirsty, fine], day(0), 'warm') === first, 'CS.6: unchanged days return the same history');
+
+  const watered = { ...thirsty, lastWatered: day(0) };
+  const after = recordCareDays(first, [watered, fine], day(0), 'warm');
+  assert(JSON.stringify(after.a) === JSON.stringify([careDay(day(0), ['water'], ['water'])]), 'CS.7: a watering that left the task list stays due and counts as done');
+
+  const sunny = plant('s', { sunDays: [TODAY.getDay()], sunDoneDate: day(0) });
+  const sunDone = recordCareDays({}, [sunny], day(0), 'warm');
+  const undone = recordCareDays(sunDone, [{ ...sunny, sunDoneDate: null }], day(0), 'warm');
+  assert(sunDone.s[0].done.join() === 'sun' && undone.s[0].done.length === 0 && undone.s[0].due.join() === 'sun', 'CS.8: undoing the sun task takes it back out of done');
+
+  const both = recordCareDays({}, [plant('w', { lastWatered: day(-7), sunDays: [TODAY.getDay()] })], day(0), 'warm');
+  assert(both.w[0].due.join() === 'water,sun', 'CS.9: task types are stored in a stable order');
+
+  const checkIn = plant('c', { waterMode: 'soil_check', lastWatered: day(-7) });
+  const soilLog = { c: [{ id: 'e1', type: 'soil_check', date: day(0), timestamp: `${day(0)}T09:00:00.000Z`, source: 'task' }] };
+  const checked = recordCareDays({}, [checkIn], day(0), 'warm', soilLog);
+  assert(checked.c[0].due.join() === 'check_soil' && checked.c[0].done.join() === 'check_soil', 'CS.25: a same-day soil check-in completes the check_soil task');
+  assert(recordCareDays({}, [checkIn], day(0), 'warm').c[0].done.length === 0, 'CS.26: without a check-in or watering check_soil stays undone');
+
+  const snoozed = { ...thirsty, taskDeferrals: { water: { kind: 'snooze', dueDate: day(0), until: day(1), anchor: thirsty.lastWatered } } };
+  const deferred = recordCareDays(first, [snoozed], day(0), 'warm');
+  assert(deferred.a[0].due.length === 0 && deferred.a[0].done.length === 0, 'CS.27: a task snoozed after it was recorded leaves that day\'s due list');
+  assert(!('a' in recordCareDays({}, [snoozed], day(0), 'warm')), 'CS.28: a task snoozed before it was recorded is never due');
+}
+
+// ─── Pruning ───
+{
+  const old = [careDay(day(-CARE_HISTORY_DAYS), ['water']), careDay(day(-2), ['water'])];
+  const next = recordCareDay(old, careDay(day(0), ['sun']));
+  assert(next.map(d => d.date).join() === [day(-2), day(0)].join(), 'CS.10: records older than a year are dropped, the rest stay sorted');
+  const same = [careDay(day(0), ['sun'])];
+  assert(recordCareDay(same, careDay(day(0), ['sun'])) === same, 'CS.11: re-recording the same day is a no-op');
+}
+
+// ─── Streaks ───
+{
+  assert(JSON.stringify(getCareStreaks({}, day(0))) === JSON.stringify({ current: 0, longest: 0 }), 'CS.12: no records, no streak');
+  const run = history({ a: [[-3, 1, 1], [-2, 1, 1], [-1, 1, 1]] });
+  assert(getCareStreaks(run, day(0)).current === 3, 'CS.13: complete days in a row count');
+  const unfinished = history({ a: [[-3, 1, 1], [-2, 1, 1], [-1, 1, 1], [0, 1, 0]] });
+  assert(getCareStreaks(unfinished, day(0)).current === 3, 'CS.14: an unfinished today does not end it');
+  const finished = history({ a: [[-3, 1, 1], [-2, 1, 1], [-1, 1, 1], [0, 1, 1]] });
+  assert(getCareStreaks(finished, day(0)).current === 4, 'CS.15: a finished today counts');
+  const broken = history({ a: [[-6, 1, 1], [-5, 1, 1], [-4, 1, 1], [-2, 2, 1], [-1, 1, 1]] });
+  const b = getCareStreaks(broken, day(0));
+  assert(b.current === 1 && b.longest === 3, 'CS.16: a missed day restarts the count, the longest run is kept');
+  const gaps = history({ a: [[-10, 1, 1], [-5, 1, 1], [-1, 1, 1]] });
+  assert(getCareStreaks(gaps, day(0)).current === 3, 'CS.17: days without a record neither count nor break');
+  const shared = history({ a: [[-1, 1, 1]], b: [[-1, 1, 0]] });
+  assert(getCareStreaks(shared, day(0)).current === 0, 'CS.18: a day is complete only when every plant is done');
+  const future = history({ a: [[1, 1, 1]] });
+  assert(getCareStreaks(future, day(0)).longest === 0, 'CS.19: days after today are ignored');
+}
+
+// ─── Weekly summary ───
+{
+  const week = history({
+    a: [[-WEEKLY_SUMMARY_DAYS, 1, 0], [-6, 1, 1], [-3, 2, 1], [0, 1, 1]],
+    b: [[-2, 1, 0]],
+    c: [[-10, 1, 1]],
+  });
+  const s = getWeeklyCareSummary(week, ['b', 'a', 'c'], day(0));
+  assert(s.from === day(-6) && s.until === day(0), 'CS.20: the week covers the seven days up to the last one');
+  assert(s.plants.map(p => p.plantId).join() === 'b,a', 'CS.21: plants with nothing due that week are left out, order is kept');
+  assert(JSON.stringify(s.plants[1]) === JSON.stringify({ plantId: 'a', due: 4, done: 3 }), 'CS.22: per-plant counts add up the days inside the week');
+  assert(s.due === 5 && s.done === 3, 'CS.23: totals add up every plant');
+  assert(getWeeklyCareSummary(week, ['a'], day(-7)).due === 1, 'CS.24: the week ends on the day asked for');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-care-streaks] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-care-streaks] PASS ${pass}/${pass}`);
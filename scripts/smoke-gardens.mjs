@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+// scripts/smoke-gardens.mjs
+// v1.3 (GARDEN-01) multiple gardens smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles seasonality + gardens + migration and checks per-space filtering, the
+// location/climate fallback to home, per-space seasons and the v2 → v3 migration.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-gardens');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const seasonPath = compile('src/utils/seasonality.ts', 'seasonality.mjs');
+const gardensPath = compile('src/utils/gardens.ts', 'gardens.mjs', [["from './seasonality'", "from './seasonality.mjs'"]]);
+const migrationPath = compile('src/utils/migration.ts', 'migration.mjs');
+
+const {
+  HOME_GARDEN_ID,
+  GARDEN_NAME_MAX_LENGTH,
+  getPlantGardenId,
+  filterPlantsByGarden,
+  resolveGardenContext,
+  createGarden,
+  reassignPlantsFromGarden,
+  dropDanglingGardenIds,
+  groupPlantsBySpace,
+} = await import(gardensPath + '?t=' + Date.now());
+const { getEffectiveSeason } = await import(seasonPath + '?t=' + Date.now());
+const { runMigrations, CURRENT_SCHEMA_VERSION } = await import(migrationPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: '2026-03-01',
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  ...overrides,
+});
+const buenosAires = { lat: -34.6, lon: -58.4, name: 'Buenos Aires', country: 'Argentina' };
+const madrid = { lat: 40.4, lon: -3.7, name: 'Madrid', country: 'España' };
+const home = { location: buenosAires, climateOverride: 'auto' };
+const balcony = { id: 'garden-1', name: 'Balcón', icon: '🌇', location: null, climateOverride: 'auto' };
+const office = { id: 'garden-2', name: 'Oficina', icon: '🏢', location: madrid, climateOverride: 'auto' };
+const greenhouse = { id: 'garden-3', name: 'Invernadero', icon: '🏕️', location: null, climateOverride: 'tropical' };
+const gardens = [balcony, office, greenhouse];
+
+// ─── Plant membership ───
+{
+  const plants = [plant('a'), plant('b', { gardenId: 'garden-1' }), plant('c', { gardenId: 'garden-2' })];
+  assert(getPlantGardenId(plants[0]) === HOME_GARDEN_ID, 'GD.1: plants without gardenId belong to home');
+  assert(getPlantGardenId(plants[1]) === 'garden-1', 'GD.2: gardenId is the plant space');
+  assert(filterPlantsByGarden(plants, HOME_GARDEN_ID).map(p => p.id).join() === 'a', 'GD.3: home filter keeps home plants only');
+  assert(filterPlantsByGarden(plants, 'garden-2').map(p => p.id).join() === 'c', 'GD.4: space filter keeps its plants only');
+  assert(filterPlantsByGarden(plants, 'garden-9').length === 0, 'GD.5: unknown space shows no plants');
+}
+
+// ─── resolveGardenContext ───
+{
+  assert(resolveGardenContext(HOME_GARDEN_ID, gardens, home) === home, 'GD.6: home resolves to the home context');
+  assert(resolveGardenContext(undefined, gardens, home) === home, 'GD.7: undefined resolves to home');
+  assert(resolveGardenContext('garden-9', gardens, home) === home, 'GD.8: deleted space falls back to home');
+  assert(resolveGardenContext('garden-1', gardens, home) === home, 'GD.9: no location + auto climate behaves like home');
+  const officeCtx = resolveGardenContext('garden-2', gardens, home);
+  assert(officeCtx.location === madrid && officeCtx.climateOverride === 'auto', 'GD.10: own location is used');
+  const ghCtx = resolveGardenContext('garden-3', gardens, home);
+  assert(ghCtx.location === buenosAires && ghCtx.climateOverride === 'tropical', 'GD.11: climate override alone keeps the home location');
+}
+
+// ─── Per-space season ───
+{
+  const july = new Date(2026, 6, 15);
+  const season = (id) => {
+    const ctx = resolveGardenContext(id, gardens, home);
+    return getEffectiveSeason(ctx.location, ctx.climateOverride, july);
+  };
+  assert(season(HOME_GARDEN_ID) === 'cold', 'GD.12: southern home is cold in July');
+  assert(season('garden-2') === 'warm', 'GD.13: northern space is warm in July');
+  assert(season('garden-3') === 'warm', 'GD.14: tropical override (always warm) wins over the home hemisphere');
+}
+
+// ─── groupPlantsBySpace (app-wide work: notifications, snapshots) ───
+{
+  const july = new Date(2026, 6, 15);
+  const baWeather = { city: 'ba' };
+  const madridWeather = { city: 'madrid' };
+  const weatherFor = (loc) => (loc === buenosAires ? baWeather : loc === madrid ? madridWeather : null);
+  const all = [plant('a'), plant('b', { gardenId: 'garden-2' }), plant('c'), plant('d', { gardenId: 'garden-1' })];
+  const spaces = groupPlantsBySpace(all, gardens, home, july, weatherFor);
+  assert(spaces.map(s => `${s.gardenId}:${s.plants.map(p => p.id).join('')}`).join() === 'home:ac,garden-2:b,garden-1:d', 'GD.26: every plant lands in its own space, first-plant order');
+  const office2 = spaces.find(s => s.gardenId === 'garden-2');
+  assert(office2.season === 'warm' && office2.weather === madridWeather, 'GD.27: a space in another city gets its own season and weather');
+  const homeSpace = spaces.find(s => s.gardenId === HOME_GARDEN_ID);
+  const balconySpace = spaces.find(s => s.gardenId === 'garden-1');
+  assert(homeSpace.season === 'cold' && homeSpace.weather === baWeather && balconySpace.weather === baWeather, 'GD.28: home and same-city spaces share the home forecast');
+  assert(groupPlantsBySpace([], gardens, home, july, weatherFor).length === 0, 'GD.29: spaces without plants are left out');
+}
+
+// ─── createGarden / delete / dangling ───
+{
+  const g = createGarden('  Terraza  ', '🌳', null, 'auto');
+  assert(g.name === 'Terraza' && g.id.startsWith('garden-'), 'GD.15: createGarden trims the name and prefixes the id');
+  assert(createGarden('x'.repeat(50), '🌳', null, 'auto').name.length === GARDEN_NAME_MAX_LENGTH, 'GD.16: name is capped');
+  const plants = [plant('a'), plant('b', { gardenId: 'garden-1' })];
+  const moved = reassignPlantsFromGarden(plants, 'garden-1');
+  assert(moved[0] === plants[0], 'GD.17: untouched plants keep identity');
+  assert(!('gardenId' in moved[1]), 'GD.18: deleted space plants move home');
+  const cleaned = dropDanglingGardenIds([plant('c', { gardenId: 'garden-9' }), plants[1]], gardens);
+  assert(!('gardenId' in cleaned[0]) && cleaned[1] === plants[1], 'GD.19: only dangling gardenIds are dropped');
+}
+
+// ─── Migration v2 → v3 ───
+{
+  assert(CURRENT_SCHEMA_VERSION === 3, 'GD.20: schema version bumped to 3');
+  const v2 = { plants: [plant('a'), plant('b', { gardenId: 'garden-1' })], careLog: { a: [], b: [] } };
+  const migrated = runMigrations({ schemaVersion: 2, data: v2 });
+  assert(Array.isArray(migrated.gardens) && migrated.gardens.length === 0, 'GD.21: gardens default to []');
+  assert(migrated.activeGardenId === HOME_GARDEN_ID, 'GD.22: active space defaults to home');
+  assert(!('gardenId' in migrated.plants[1]), 'GD.23: plants pointing at no space land home');
+  const kept = runMigrations({ schemaVersion: 2, data: { ...v2, gardens: [balcony], activeGardenId: 'garden-1' } });
+  assert(kept.plants[1].gardenId === 'garden-1' && kept.activeGardenId === 'garden-1', 'GD.24: existing spaces are kept');
+  const again = runMigrations({ schemaVersion: 2, data: migrated });
+  assert(JSON.stringify(again) === JSON.stringify(migrated), 'GD.25: migration is idempotent');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-gardens] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-gardens] PASS ${pass}/${pass}`);
@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+// scripts/smoke-health-history.mjs
+// v1.3 (HEALTH-01) health score history smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + healthHistory and checks daily snapshot recording / pruning, the 30/90/365
+// day trend columns, the garden average and the trend summary.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-health-history');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+const historyPath = compile('src/utils/healthHistory.ts', 'healthHistory.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+const {
+  HEALTH_HISTORY_DAYS,
+  HEALTH_TREND_RANGES,
+  toHealthSnapshot,
+  recordHealthSnapshot,
+  recordHealthSnapshots,
+  getHealthTrend,
+  getGardenHealthTrend,
+  summarizeHealthTrend,
+  findTrendBucket,
+} = await import(historyPath + '?t=' + Date.now());
+const { addDays, formatDate } = await import(resolve(TMP_DIR, 'dates.mjs') + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const TODAY = new Date(2026, 9, 18);
+const day = (offset) => formatDate(addDays(TODAY, offset));
+const status = (plantId, score, issues = []) => ({ plantId, score, level: 'good', issues });
+const water = { type: 'overdue_water', severity: 'medium', message: 'Necesita riego desde ayer', daysSince: 1 };
+
+// ─── Recording ───
+{
+  const snap = toHealthSnapshot(status('a', 70, [water]), day(0));
+  assert(snap.date === '2026-10-18' && snap.score === 70, 'HH.1: a snapshot keeps the day and the score');
+  assert(JSON.stringify(snap.issues) === JSON.stringify([{ type: 'overdue_water', severity: 'medium' }]), 'HH.2: issues keep only type and severity');
+
+  const one = recordHealthSnapshot(undefined, snap);
+  assert(one.length === 1, 'HH.3: the first snapshot starts the history');
+  assert(recordHealthSnapshot(one, { ...snap, issues: [...snap.issues] }) === one, 'HH.4: an identical snapshot is a no-op (same array)');
+  const evening = recordHealthSnapshot(one, toHealthSnapshot(status('a', 100), day(0)));
+  assert(evening.length === 1 && evening[0].score === 100, 'HH.5: a later computation the same day replaces the day');
+  const next = recordHealthSnapshot(evening, toHealthSnapshot(status('a', 90), day(1)));
+  assert(next.map(s => s.date).join() === '2026-10-18,2026-10-19', 'HH.6: a new day appends');
+  const late = recordHealthSnapshot(next, toHealthSnapshot(status('a', 80), day(-1)));
+  assert(late.map(s => s.date).join() === '2026-10-17,2026-10-18,2026-10-19', 'HH.7: history stays sorted by day');
+
+  const old = [{ date: day(-400), score: 50, issues: [] }, { date: day(-HEALTH_HISTORY_DAYS + 1), score: 60, issues: [] }];
+  const pruned = recordHealthSnapshot(old, toHealthSnapshot(status('a', 90), day(0)));
+  assert(HEALTH_HISTORY_DAYS === 365 && pruned.map(s => s.score).join() === '60,90', 'HH.8: snapshots older than a year are dropped on write');
+}
+{
+  const history = { a: [{ date: day(0), score: 80, issues: [] }] };
+  assert(recordHealthSnapshots(history, [status('a', 80)], day(0)) === history, 'HH.9: nothing changed — same map, so no save');
+  const next = recordHealthSnapshots(history, [status('a', 80), status('b', 40)], day(0));
+  assert(next !== history && next.a === history.a && next.b.length === 1, 'HH.10: only changed plants get new arrays');
+  assert(history.b === undefined, 'HH.11: the input map is not mutated');
+}
+
+// ─── Trends ───
+{
+  assert(HEALTH_TREND_RANGES.join() === '30,90,365', 'HH.12: ranges are 30, 90 and 365 days');
+  const history = [
+    { date: day(-29), score: 40, issues: [] },
+    { date: day(-10), score: 60, issues: [] },
+    { date: day(0), score: 90, issues: [] },
+    { date: day(-200), score: 20, issues: [] },
+  ];
+  const month = getHealthTrend(history, 30, TODAY);
+  assert(month.length === 30 && month[0].start === day(-29) && month[29].end === day(0), 'HH.13: 30 days → one column per day, oldest first');
+  assert(month[0].score === 40 && month[19].score === 60 && month[29].score === 90 && month[5].score === null, 'HH.14: days without a snapshot are gaps');
+
+  const quarter = getHealthTrend(history, 90, TODAY);
+  assert(quarter.length === 30 && quarter[29].start === day(-2) && quarter[29].end === day(0), 'HH.15: 90 days → 3 days per column');
+  const year = getHealthTrend(history, 365, TODAY);
+  assert(year.length === 29 && year[28].start === day(-12), 'HH.16: 365 days → 13 days per column');
+  assert(year.some(b => b.score === 20), 'HH.17: the year view reaches back past 90 days');
+
+  const averaged = getHealthTrend([{ date: day(-2), score: 50, issues: [] }, { date: day(-1), score: 71, issues: [] }], 90, TODAY);
+  assert(averaged[29].score === 61, 'HH.18: a column averages its snapshots (rounded)');
+  assert(getHealthTrend(undefined, 30, TODAY).every(b => b.score === null), 'HH.19: no history → all gaps');
+}
+{
+  const history = {
+    a: [{ date: day(-1), score: 100, issues: [] }, { date: day(0), score: 80, issues: [] }],
+    b: [{ date: day(0), score: 40, issues: [] }],
+    other: [{ date: day(0), score: 0, issues: [] }],
+  };
+  const trend = getGardenHealthTrend(history, ['a', 'b'], 30, TODAY);
+  assert(trend[29].score === 60, 'HH.20: the garden column averages the plants that day');
+  assert(trend[28].score === 100, 'HH.21: plants without a snapshot that day do not drag it down');
+}
+
+// ─── Summary ───
+{
+  const cols = (...scores) => scores.map((score, i) => ({ start: day(i), end: day(i), score }));
+  assert(JSON.stringify(summarizeHealthTrend(cols(40, null, 70))) === JSON.stringify({ direction: 'up', change: 30 }), 'HH.22: recovering');
+  assert(summarizeHealthTrend(cols(90, 80, 60)).direction === 'down', 'HH.23: declining');
+  assert(summarizeHealthTrend(cols(80, 60, 83)).direction === 'flat', 'HH.24: small changes are stable');
+  assert(summarizeHealthTrend(cols(null, 80, null)) === null, 'HH.25: one column with data is not a trend');
+  const month = getHealthTrend([], 90, TODAY);
+  assert(findTrendBucket(month, `${day(-1)}T10:00:00.000Z`) === 29 && findTrendBucket(month, day(-120)) === -1, 'HH.26: markers find their column by day');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-health-history] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-health-history] PASS ${pass}/${pass}`);
@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+// scripts/smoke-health-rules.mjs
+// v1.3 (HEALTH-02) health scoring model smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles plantHealth (+ plantLogic / placement deps) and checks the rule table: the
+// original penalties, the per-rule breakdown, the fertilize / tracked problem / repotting
+// rules, missed follow-ups (HEALTH-03) and custom weights and rules passed through the model.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-health-rules');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Stubs (auto-written — gitignored) ───
+writeFileSync(resolve(TMP_DIR, 'i18n.mjs'),
+  `// HEALTH-02 smoke stub for ../i18n. Auto-written.\n` +
+  `export default { t: (key, opts) => (opts ? key + ' ' + JSON.stringify(opts) : key), on: () => {}, language: 'es' };\n`
+);
+writeFileSync(resolve(TMP_DIR, 'plantDatabase.mjs'),
+  `// HEALTH-02 smoke stub for ../data/plantDatabase. Auto-written — 'fern' fertilizes every 30 days.\n` +
+  `export function getCatalogEntry(id) { return id === 'fern' ? { id, fertilizeIntervalWarm: 30, fertilizeIntervalCold: null } : null; }\n`
+);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+compile('src/utils/taskDeferral.ts', 'taskDeferral.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+compile('src/utils/plantLogic.ts', 'plantLogic.mjs', [
+  ['from "./dates"', 'from "./dates.mjs"'],
+  ['from "./taskDeferral"', 'from "./taskDeferral.mjs"'],
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+  ['from "../i18n"', 'from "./i18n.mjs"'],
+]);
+compile('src/utils/migration.ts', 'migration.mjs');
+compile('src/utils/lightLabel.ts', 'lightLabel.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+compile('src/utils/placement.ts', 'placement.mjs', [
+  ["from './lightLabel'", "from './lightLabel.mjs'"],
+]);
+const healthPath = compile('src/utils/plantHealth.ts', 'plantHealth.mjs', [
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './taskDeferral'", "from './taskDeferral.mjs'"],
+  ["from './placement'", "from './placement.mjs'"],
+  ["from '../data/plantDatabase'", "from './plantDatabase.mjs'"],
+  ["from '../i18n'", "from './i18n.mjs'"],
+]);
+
+const {
+  calculatePlantHealth,
+  DEFAULT_HEALTH_MODEL,
+  DEFAULT_HEALTH_WEIGHTS,
+  HEALTH_RULES,
+} = await import(healthPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const today = new Date(2026, 9, 18); // Sunday
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  waterSchedule: { warm: 7, cold: 7 },
+  waterMode: 'fixed',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: '2026-10-17',
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  ...overrides,
+});
+const diagnosis = (id, overrides = {}) => ({
+  id,
+  plantId: 'p',
+  date: '2026-10-10T10:00:00.000Z',
+  imageUri: null,
+  result: { overallStatus: 'moderate', summary: 'Hojas amarillas' },
+  context: {},
+  chat: [],
+  resolved: false,
+  resolvedDate: null,
+  ...overrides,
+});
+const health = (p, diagnoses, model) => calculatePlantHealth(p, today, null, diagnoses, 'warm', model);
+const rules = (status) => status.breakdown.map(c => `${c.rule}${c.points}`).join();
+
+// ─── Original rules, unchanged scores ───
+{
+  const fine = health(plant('fine'));
+  assert(fine.score === 100 && fine.issues.length === 0 && fine.breakdown.length === 0, 'HR.1: a cared-for plant scores 100 with an empty breakdown');
+
+  // getNextWaterDate rolls a missed watering forward, so exercise the row directly.
+  const waterRule = HEALTH_RULES.find(r => r.id === 'overdue_water');
+  const ctx = (p, daysUntilWater) => ({ plant: p, today, todayStr: '2026-10-18', season: 'warm', weather: null, diagnoses: [], catalogEntry: null, daysUntilWater, weights: DEFAULT_HEALTH_WEIGHTS });
+  const late = waterRule.evaluate(ctx(plant('late'), -3));
+  assert(late.points === 40 && late.issue.daysSince === 3 && late.issue.severity === 'medium', 'HR.2: watering 3 days late costs 20 + 2×10');
+  assert(waterRule.evaluate(ctx(plant('veryLate'), -9)).points === 50 && waterRule.evaluate(ctx(plant('late'), 0)) === null, 'HR.3: the per-day penalty caps at 3 extra days');
+  assert(health(plant('soil', { lastWatered: '2026-09-01', waterMode: 'soil_check' })).score === 100, 'HR.4: soil_check plants are not penalized for watering');
+
+  const sunAndNever = health(plant('new', { lastWatered: null, sunDays: [0] }));
+  assert(rules(sunAndNever) === 'overdue_sun-15,no_care-10' && sunAndNever.score === 75, 'HR.5: breakdown lists each rule in table order');
+  assert(sunAndNever.breakdown.reduce((s, c) => s + c.points, 100) === sunAndNever.score, 'HR.6: breakdown adds up to the score');
+}
+
+// ─── Diagnoses and tracked problems ───
+{
+  const open = health(plant('d'), [diagnosis('a'), diagnosis('b', { result: { overallStatus: 'severe', summary: 'Podredumbre' } })]);
+  assert(rules(open) === 'active_diagnosis-25' && open.issues[0].message.key === 'health.issue.activeDiagnoses' && open.issues[0].message.params.count === 2, 'HR.7: worst open diagnosis counts once');
+  assert(health(plant('d'), [diagnosis('a', { resolved: true })]).score === 100, 'HR.8: resolved diagnoses do not count');
+
+  const tracked = health(plant('t'), [diagnosis('a', { isTracked: true, trackingStatus: 'needs_attention', problemSummary: 'Cochinilla' })]);
+  assert(rules(tracked) === 'tracked_problem-20', 'HR.9: a tracked problem scores by tracking status, not as an open diagnosis');
+  assert(tracked.issues[0].type === 'tracked_problem' && tracked.issues[0].message.key === 'health.issue.trackedProblem' && tracked.issues[0].message.params.summary.includes('Cochinilla') && tracked.issues[0].severity === 'high', 'HR.10: tracked problem issue names the problem');
+  const recovering = health(plant('t'), [diagnosis('a', { isTracked: true, trackingStatus: 'recovering' })]);
+  assert(recovering.score === 100 && recovering.issues.length === 0, 'HR.11: a recovering problem costs nothing');
+  const watching = health(plant('t'), [diagnosis('a', { isTracked: true, trackingStatus: 'watching' }), diagnosis('b', { isTracked: true, trackingStatus: 'watching' })]);
+  assert(rules(watching) === 'tracked_problem-10' && watching.issues[0].severity === 'medium' && watching.issues[0].message.key === 'health.issue.trackedProblems', 'HR.12: watching problems are medium, counted once');
+}
+
+// ─── Fertilizing ───
+{
+  const fern = (lastFertilized, extra = {}) => plant('fern', { databaseId: 'fern', fertilizeSchedule: { lastFertilized }, ...extra });
+  assert(health(fern('2026-09-15')).score === 100, 'HR.13: within the grace days → no penalty'); // due 10-15
+  const late = health(fern('2026-09-01')); // due 10-01 → 17 days
+  assert(rules(late) === 'overdue_fertilize-5' && late.issues[0].daysSince === 17, 'HR.14: fertilizing past the grace days costs 5');
+  assert(rules(health(fern('2026-07-01'))) === 'overdue_fertilize-10', 'HR.15: a whole cycle late costs 10');
+  assert(health(fern('2026-07-01')).issues[0].severity === 'medium', 'HR.16: long overdue is medium severity');
+  assert(calculatePlantHealth(fern('2026-07-01'), today, null, [], 'cold').score === 100, 'HR.17: cold-season dormancy is not overdue');
+  assert(health(plant('custom', { fertilizeSchedule: { lastFertilized: '2026-01-01' } })).score === 100, 'HR.18: no interval (custom plant) → never overdue');
+  assert(health(fern(undefined)).score === 100, 'HR.19: never fertilized is due, not overdue');
+  const snoozed = fern('2026-07-01', { taskDeferrals: { fertilize: { kind: 'snooze', dueDate: '2026-10-15', until: '2026-10-20', anchor: '2026-07-01' } } });
+  assert(health(snoozed).score === 100, 'HR.20: a pending fertilize snooze is not penalized');
+  const snoozeOver = fern('2026-07-01', { taskDeferrals: { fertilize: { kind: 'snooze', dueDate: '2026-07-31', until: '2026-08-05', anchor: '2026-07-01' } } });
+  assert(health(snoozeOver).issues[0].daysSince === 74, 'HR.21: an expired snooze counts from its end');
+}
+
+// ─── Missed follow-ups (HEALTH-03) ───
+{
+  const tracked = (overrides) => diagnosis('f', { isTracked: true, trackingStatus: 'recovering', followUpDate: '2026-10-15T12:00:00.000Z', problemSummary: 'Manchas', ...overrides });
+  const missed = health(plant('f'), [tracked()]);
+  assert(rules(missed) === 'missed_follow_up-10' && missed.issues[0].daysSince === 3, 'HR.22: a follow-up day 3 days gone costs 10');
+  assert(missed.issues[0].type === 'missed_follow_up' && missed.issues[0].severity === 'medium' && missed.issues[0].message.key === 'health.issue.missedFollowUp' && missed.issues[0].message.params.summary.includes('Manchas'), 'HR.23: the issue names the problem');
+  const entry = { id: 'e', date: '2026-10-16T09:00:00.000Z', photoUri: null, aiNotes: '', statusChange: null };
+  assert(health(plant('f'), [tracked({ entries: [entry] })]).score === 100, 'HR.24: a follow-up entry on or after the day clears it');
+  assert(health(plant('f'), [tracked({ followUpDate: '2026-10-18T20:00:00.000Z' })]).score === 100, 'HR.25: due today is not missed yet');
+  assert(health(plant('f'), [tracked({ resolved: true, trackingStatus: 'resolved' })]).score === 100, 'HR.26: resolved problems have no follow-up');
+}
+
+// ─── Repotting ───
+{
+  assert(health(plant('r')).breakdown.length === 0, 'HR.27: unknown repotting date is not overdue');
+  assert(health(plant('r', { lastRepotted: '2025-01-10' })).score === 100, 'HR.28: repotted within two years');
+  const old = health(plant('r', { lastRepotted: '2024-03-01' }));
+  assert(rules(old) === 'overdue_repot-5' && old.issues[0].type === 'overdue_repot', 'HR.29: repotting over two years ago costs 5');
+}
+
+// ─── Configurable model ───
+{
+  const weights = { ...DEFAULT_HEALTH_WEIGHTS, overdueSun: 30 };
+  const custom = health(plant('s', { sunDays: [0] }), [], { ...DEFAULT_HEALTH_MODEL, weights });
+  assert(custom.score === 70, 'HR.30: weights are read from the model');
+  const extraRule = { id: 'overdue_repot', evaluate: () => ({ points: 200, issue: { type: 'overdue_repot', severity: 'high', message: 'x' } }) };
+  const floored = health(plant('s'), [], { rules: [...HEALTH_RULES, extraRule], weights: DEFAULT_HEALTH_WEIGHTS });
+  assert(floored.score === 0 && floored.breakdown.at(-1).points === -200, 'HR.31: added rules join the breakdown; score is clamped at 0');
+  const rain = calculatePlantHealth(plant('rain', { placement: 'outdoor', lastWatered: '2026-10-11' }), today, {
+    current: { temperature: 18, weatherCode: 63, windSpeed: 5, humidity: 80, uvIndex: null },
+    daily: [{ date: '2026-10-18', weatherCode: 63, tempMin: 12, tempMax: 20, precipitation: 15, sunrise: null, sunset: null, uvIndexMax: null }],
+    lastFetched: 0,
+  }, [], 'warm');
+  assert(rain.score === 100 && rain.issues.length === 1 && rain.breakdown.length === 0, 'HR.32: zero-point notes are issues but not breakdown rows');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-health-rules] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-health-rules] PASS ${pass}/${pass}`);
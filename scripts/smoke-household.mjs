@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// scripts/smoke-household.mjs
+// v1.3 (HOUSE-01) household sharing smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles household + careLog + syncMerge + syncConverters and checks: invite codes, which
+// account a shared plant uploads to, shared rows coming back marked, "done by" on today's
+// care, and that an unshared garden leaves the phone with its plants.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-household');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const householdPath = compile('src/utils/household.ts', 'household.mjs');
+const careLogPath = compile('src/utils/careLog.ts', 'careLog.mjs');
+const mergePath = compile('src/utils/syncMerge.ts', 'syncMerge.mjs');
+compile('src/utils/migration.ts', 'migration.mjs');
+const convertersPath = compile('src/utils/syncConverters.ts', 'syncConverters.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+const {
+  INVITE_CODE_ALPHABET,
+  INVITE_CODE_LENGTH,
+  generateInviteCode,
+  normalizeInviteCode,
+  isValidInviteCode,
+  formatInviteCode,
+  inviteExpiresAt,
+  parseHouseholdError,
+  ownerIdFor,
+  canDeletePlant,
+  ownGardens,
+  sharedWithMe,
+} = await import(householdPath + '?t=' + Date.now());
+const { careByOthersOn } = await import(careLogPath + '?t=' + Date.now());
+const { mergeCloudData, unsharedGardenIds } = await import(mergePath + '?t=' + Date.now());
+const { dbToGarden, dbToCareEvent } = await import(convertersPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const ME = 'user-me';
+const ANA = 'user-ana';
+const garden = (id, extra = {}) => ({ id, name: id, icon: '🪴', location: null, climateOverride: 'auto', ...extra });
+const plant = (id, gardenId) => ({ id, name: id, typeId: 'interior', gardenId, updatedAt: '2026-10-01T00:00:00.000Z' });
+
+// ─── Invite codes ───
+{
+  const code = generateInviteCode(randomBytes);
+  assert(code.length === INVITE_CODE_LENGTH && [...code].every(c => INVITE_CODE_ALPHABET.includes(c)), 'HH.1: generated codes use the unambiguous alphabet');
+  assert(!/[01OIL]/.test(INVITE_CODE_ALPHABET), 'HH.2: look-alike characters are not in the alphabet');
+  assert(generateInviteCode(n => new Uint8Array(n)) === 'A'.repeat(INVITE_CODE_LENGTH), 'HH.3: the random source is injectable');
+  let calls = 0;
+  const biased = generateInviteCode(n => (calls++ === 0 ? new Uint8Array(n).fill(255) : new Uint8Array(n).fill(1)));
+  assert(biased === 'B'.repeat(INVITE_CODE_LENGTH) && calls === 2, 'HH.30: bytes past the last whole multiple of the alphabet are drawn again');
+  assert(parseHouseholdError('too_many_attempts') === 'too_many_attempts', 'HH.31: the attempt limit maps through');
+  assert(normalizeInviteCode(' abcd-efgh ') === 'ABCDEFGH', 'HH.4: typed codes are uppercased and stripped');
+  assert(isValidInviteCode('abcd-efgh') && !isValidInviteCode('ABCD-EFG') && !isValidInviteCode('ABCD-EFG0'), 'HH.5: validation checks length and alphabet');
+  assert(formatInviteCode('ABCDEFGH') === 'ABCD-EFGH', 'HH.6: codes are shown in two halves');
+  assert(inviteExpiresAt(NOW) === '2026-10-25T12:00:00.000Z', 'HH.7: invites expire after a week');
+}
+
+// ─── Errors ───
+{
+  assert(parseHouseholdError('invite_expired') === 'invite_expired', 'HH.8: server codes map through');
+  assert(parseHouseholdError('P0001: invite_used') === 'invite_used', 'HH.9: server codes are found inside the message');
+  assert(parseHouseholdError('TypeError: Network request failed') === 'network', 'HH.10: fetch failures are network errors');
+  assert(parseHouseholdError('duplicate key') === 'unknown' && parseHouseholdError(undefined) === 'unknown', 'HH.11: anything else is unknown');
+}
+
+// ─── Owners ───
+{
+  const data = {
+    gardens: [garden('balcony'), garden('ana-patio', { sharedBy: { userId: ANA, name: 'Ana' } })],
+    plants: [plant('p-home', undefined), plant('p-balcony', 'balcony'), plant('p-shared', 'ana-patio')],
+  };
+  assert(ownerIdFor(data, 'p-home', ME) === ME, 'HH.12: home plants upload to this account');
+  assert(ownerIdFor(data, 'p-balcony', ME) === ME, 'HH.13: plants in own gardens upload to this account');
+  assert(ownerIdFor(data, 'p-shared', ME) === ANA, 'HH.14: plants in a shared garden upload to its owner');
+  assert(ownerIdFor(data, 'gone', ME) === ME, 'HH.15: unknown plants fall back to this account');
+  assert(ownGardens(data.gardens).map(g => g.id).join() === 'balcony' && sharedWithMe(data.gardens).map(g => g.id).join() === 'ana-patio',
+    'HH.16: own and shared gardens are told apart');
+  const [home, balcony, shared] = data.plants;
+  assert(canDeletePlant(home, data.gardens) && canDeletePlant(balcony, data.gardens) && !canDeletePlant(shared, data.gardens),
+    'HH.32: only plants in a garden shared with you cannot be deleted');
+}
+
+// ─── Converters ───
+{
+  const names = new Map([[ANA, 'Ana']]);
+  const row = { id: 'uuid', user_id: ANA, local_id: 'ana-patio', name: 'Patio', icon: '🌿', location_lat: null, location_lon: null, location_name: null, location_country: null, location_admin1: null, climate_override: 'auto', updated_at: NOW.toISOString() };
+  const shared = dbToGarden(row, ME, names);
+  assert(shared.sharedBy?.userId === ANA && shared.sharedBy?.name === 'Ana', 'HH.17: another account\'s garden comes back marked with its owner');
+  assert(dbToGarden({ ...row, user_id: ME }, ME, names).sharedBy === undefined, 'HH.18: own gardens are not marked');
+  assert(dbToGarden(row).sharedBy === undefined, 'HH.19: without selfId nothing is marked (older callers)');
+
+  const eventRow = { id: 'uuid', user_id: ANA, local_id: 'e1', plant_local_id: 'p-shared', type: 'water', date: '2026-10-18', logged_at: '2026-10-18T09:14:00.000Z', source: 'task', undoes: null, done_by: ANA };
+  assert(dbToCareEvent(eventRow, ME, names).by?.name === 'Ana', 'HH.20: care logged by someone else carries who did it');
+  assert(dbToCareEvent({ ...eventRow, done_by: ME }, ME, names).by === undefined, 'HH.21: own care has no `by`');
+  assert(dbToCareEvent({ ...eventRow, done_by: null }, ME, names).by === undefined, 'HH.22: rows from before sharing have no `by`');
+}
+
+// ─── Done by ───
+{
+  const events = [
+    { id: 'e1', type: 'water', date: '2026-10-18', timestamp: '2026-10-18T09:14:00.000Z', source: 'task', by: { userId: ANA, name: 'Ana' } },
+    { id: 'e2', type: 'sun', date: '2026-10-18', timestamp: '2026-10-18T10:00:00.000Z', source: 'task' },
+    { id: 'e3', type: 'water', date: '2026-10-17', timestamp: '2026-10-17T09:00:00.000Z', source: 'task', by: { userId: ANA, name: 'Ana' } },
+    { id: 'e4', type: 'outdoor', date: '2026-10-18', timestamp: '2026-10-18T08:00:00.000Z', source: 'task', by: { userId: ANA, name: 'Ana' } },
+    { id: 'e5', type: 'outdoor', date: '2026-10-18', timestamp: '2026-10-18T08:05:00.000Z', source: 'undo', undoes: 'e4', by: { userId: ANA, name: 'Ana' } },
+  ];
+  const done = careByOthersOn(events, '2026-10-18');
+  assert(done.length === 1 && done[0].id === 'e1', 'HH.23: only today\'s effective care by others is shown');
+  assert(careByOthersOn(undefined, '2026-10-18').length === 0, 'HH.24: plants without history show nothing');
+}
+
+// ─── Unsharing ───
+{
+  const local = {
+    plants: [plant('p-home', undefined), plant('p-shared', 'ana-patio')],
+    notes: {}, reminders: {}, location: null, notificationSettings: null, plantNetApiKey: null,
+    gardens: [garden('ana-patio', { sharedBy: { userId: ANA, name: 'Ana' } }), garden('local-only')],
+    journals: { 'p-shared': [{ id: 'j1', date: '2026-10-10' }] },
+    diagnosisHistory: {}, shoppingList: [], careLog: { 'p-shared': [{ id: 'e1', type: 'water', date: '2026-10-18', timestamp: NOW.toISOString(), source: 'task' }] },
+    syncTombstones: [],
+  };
+  const remote = {
+    plants: [], notes: {}, reminders: {}, location: null, notificationSettings: null, plantNetApiKey: null,
+    gardens: [], climateOverride: null, journals: {}, diagnosisHistory: {}, shoppingList: [], careLog: {}, tombstones: [],
+  };
+  assert([...unsharedGardenIds(local.gardens, remote.gardens)].join() === 'ana-patio', 'HH.25: a shared garden missing from the download is unshared');
+  const merged = mergeCloudData(local, remote, NOW);
+  assert(merged.gardens.map(g => g.id).join() === 'local-only', 'HH.26: the unshared garden leaves; own local-only gardens stay');
+  assert(merged.plants.map(p => p.id).join() === 'p-home', 'HH.27: its plants leave with it');
+  assert(!merged.careLog['p-shared'] && !merged.journals['p-shared'], 'HH.28: and so does their history');
+
+  const stillShared = mergeCloudData(local, { ...remote, gardens: [garden('ana-patio', { sharedBy: { userId: ANA, name: 'Ana P.' } })] }, NOW);
+  assert(stillShared.plants.length === 2 && stillShared.gardens[0].sharedBy.name === 'Ana P.', 'HH.29: a garden still shared stays and picks up the owner\'s new name');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-household] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-household] PASS ${pass}/${pass}`);
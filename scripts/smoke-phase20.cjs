@@ -155,8 +155,12 @@ assert(modalSrc.includes('initialSection?: ModalSectionId'), 'CROSS.TOX-04.modal
 // Phase 19 TOX-06 — petToxicity.symptoms parity gate preserved in check script
 const checkScript = readSafe('scripts/check-i18n-keys.mjs') || '';
 assert(/petToxicity[^]*?symptoms/.test(checkScript), 'CROSS.TOX-06.checkScript.symptoms-extension-preserved');
-// Phase 20 health-axis no-op (Success Criterion 5) — plantHealth MUST NOT mention 'fertilize'
-assert(!plantHealthSrc.includes("'fertilize'") && !plantHealthSrc.includes('"fertilize"'), 'CROSS.health-no-fertilize-axis');
+// Phase 20 health-axis no-op (Success Criterion 5), lifted by v1.3 (HEALTH-02/03): fertilizing
+// may affect health only through the overdue_fertilize rule. Its scoring (on time vs. overdue)
+// is checked by behavior in smoke-health-rules.mjs HR.14–HR.20; these only pin where it lives.
+assert(plantHealthSrc.includes("id: 'overdue_fertilize'"), 'CROSS.health-fertilize.overdue-rule-defined');
+assert(plantHealthSrc.includes('getFertilizeOverdueDays('), 'CROSS.health-fertilize.overdue-days-from-plantLogic');
+assert(!plantHealthSrc.includes('lastFertilized'), 'CROSS.health-fertilize.no-own-fertilize-date-math');
 
 // ─── Report ───
 console.log('');
@@ -219,8 +219,20 @@ assertSkippable(() => {
 //   only the 4th line of each block carries the gam_anti_patterns.md path; lines 1-3 contain
 //   the word `streak` inside the anti-pattern doc itself, so they need a separate whitelist
 //   token. Plan 22-01 lands these comment blocks verbatim above each task-done useCallback).
-const STREAK_TOKENS_RE = /\b(streak|consecutiveDays|dayCount|currentStreak|bestStreak|streakReset)\b/i;
+// v1.3 (STREAK-01) narrows the rule instead of dropping it: the opt-in streak lives only in the
+// two modules behind Features.CARE_STREAKS (whole files whitelisted) plus the exact lines in
+// STREAK_ALLOWED_LINES; the task-done actions and everything else stay streak-free. The
+// requirement tag itself (`STREAK-01`) is not a token.
+const STREAK_TOKENS_RE = /\b(streak|consecutiveDays|dayCount|currentStreak|bestStreak|streakReset)\b(?!-\d)/i;
 const WHITELIST_LINE_RE = /CARE_STREAKS|gam_anti_patterns\.md|GAM-05 lock|streaks weaponize missed days/;
+const STREAK_GATED_FILES = new Set(['src/utils/careStreaks.ts', 'src/components/CareStreakCard.tsx']);
+// File → the literal text an allowed line carries. Add an entry per line, never a pattern.
+const STREAK_ALLOWED_LINES = [
+  { file: 'src/screens/TodayScreen.tsx', token: '{/* Care streak + weekly summary — v1.3 (STREAK-01) */}' },
+];
+function isAllowedStreakLine(rel, line) {
+  return STREAK_ALLOWED_LINES.some((a) => a.file === rel && line.trim() === a.token);
+}
 const STREAK_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx']);
 const streakViolations = [];
 function walkSrcForStreakTokens(dir) {
@@ -234,13 +246,15 @@ function walkSrcForStreakTokens(dir) {
     } else if (ent.isFile()) {
       const ext = path.extname(ent.name);
       if (!STREAK_EXTENSIONS.has(ext)) continue;
+      const relPosix = path.relative(ROOT, full).split(path.sep).join('/');
+      if (STREAK_GATED_FILES.has(relPosix)) continue;
       let content;
       try { content = fs.readFileSync(full, 'utf8'); }
       catch (_) { continue; }
       const lines = content.split('\n');
       for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
-        if (STREAK_TOKENS_RE.test(line) && !WHITELIST_LINE_RE.test(line)) {
+        if (STREAK_TOKENS_RE.test(line) && !WHITELIST_LINE_RE.test(line) && !isAllowedStreakLine(relPosix, line)) {
           const rel = path.relative(ROOT, full);
           streakViolations.push(`${rel}:${i + 1}: ${line.trim()}`);
         }
@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// scripts/smoke-photo-comparison.mjs
+// v1.3 (COMPARE-01) problem photo comparison smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + photoComparison and problemTrackingService (expo-file-system stubbed) and
+// checks the comparison photo list and pair, the original photos copied out of the cache when
+// tracking starts, and that the tracked-problem card and the follow-up chat use them.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-photo-comparison');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Stubs (auto-written) ───
+const stubs = {
+  'fileSystem.mjs':
+    `// COMPARE-01 smoke stub for expo-file-system — copies are recorded, '/broken' URIs throw.\n` +
+    `export const copies = [];\n` +
+    `export const Paths = { document: { uri: 'file:///doc/' } };\n` +
+    `export class Directory { constructor(uri) { this.uri = uri; this.exists = true; } create() {} }\n` +
+    `export class File {\n` +
+    `  constructor(uri) { this.uri = uri; }\n` +
+    `  copy(dest) { if (this.uri.includes('/broken')) throw new Error('missing'); copies.push([this.uri, dest.uri]); }\n` +
+    `}\n`,
+  'notificationScheduler.mjs':
+    `// COMPARE-01 smoke stub for ../utils/notificationScheduler.\n` +
+    `export async function scheduleFollowUpReminder() { return 'notif-1'; }\n` +
+    `export async function cancelFollowUpReminder() {}\n`,
+};
+for (const [name, src] of Object.entries(stubs)) writeFileSync(resolve(TMP_DIR, name), src);
+
+const silenced = console.warn;
+console.warn = () => {};
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+const {
+  ORIGINAL_PHOTO_ID,
+  getOriginalPhoto,
+  getComparisonPhotos,
+  getComparisonPair,
+} = await import(compile('src/utils/photoComparison.ts', 'photoComparison.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]) + '?t=' + Date.now());
+const { persistOriginalPhotos, startTracking } = await import(compile('src/services/problemTrackingService.ts', 'problemTrackingService.mjs', [
+  ["from 'expo-file-system'", "from './fileSystem.mjs'"],
+  ["from '../utils/notificationScheduler'", "from './notificationScheduler.mjs'"],
+]) + '?t=' + Date.now());
+const { copies } = await import(resolve(TMP_DIR, 'fileSystem.mjs'));
+
+const read = (relPath) => readFileSync(resolve(ROOT, relPath), 'utf8');
+
+// ─── Fixtures ───
+const entry = (id, date, photoUri, statusChange = null) => ({ id, date, photoUri, aiNotes: '', statusChange });
+const diagnosis = (overrides = {}) => ({
+  id: 'diag_1',
+  plantId: 'p1',
+  date: '2026-10-01T10:00:00.000Z',
+  imageUri: 'file:///cache/a.jpg',
+  imageUris: ['file:///cache/a.jpg', 'file:///cache/b.jpg'],
+  result: { overallStatus: 'moderate', summary: 'Manchas', issues: [], careTips: [] },
+  context: { species: 'Potus', lastWatered: null, outdoorDays: [] },
+  chat: [],
+  resolved: false,
+  resolvedDate: null,
+  entries: [],
+  ...overrides,
+});
+
+// ─── Original photo ───
+{
+  const original = getOriginalPhoto(diagnosis());
+  assert(original?.id === ORIGINAL_PHOTO_ID && original.uri === 'file:///cache/a.jpg', 'PC.1: the first diagnosis photo is the original');
+  assert(original.date === '2026-10-01T10:00:00.000Z' && original.severity === 'moderate' && original.statusChange === null, 'PC.2: it carries the diagnosis date and severity');
+  assert(getOriginalPhoto(diagnosis({ imageUris: undefined, imageUri: 'file:///old.jpg' }))?.uri === 'file:///old.jpg', 'PC.3: single-photo diagnoses use imageUri');
+  assert(getOriginalPhoto(diagnosis({ imageUris: [], imageUri: null })) === null, 'PC.4: no photos, no original');
+  assert(getOriginalPhoto(diagnosis({ severity: 'severe' })).severity === 'severe', 'PC.5: the tracked severity wins over the overall status');
+}
+
+// ─── Photo list ───
+{
+  const d = diagnosis({
+    entries: [
+      entry('e3', '2026-10-12T09:00:00.000Z', 'file:///doc/3.jpg', 'recovering'),
+      entry('e1', '2026-10-04T09:00:00.000Z', 'file:///doc/1.jpg'),
+      entry('e2', '2026-10-08T09:00:00.000Z', null),
+    ],
+  });
+  const photos = getComparisonPhotos(d);
+  assert(photos.map(p => p.id).join() === 'original,e1,e3', 'PC.6: original first, then follow-ups with a photo, oldest first');
+  assert(photos[2].statusChange === 'recovering' && photos[2].severity === undefined, 'PC.7: follow-ups keep their status change');
+  const noOriginal = getComparisonPhotos({ ...d, imageUris: [], imageUri: null });
+  assert(noOriginal.map(p => p.id).join() === 'e1,e3', 'PC.8: without an original the follow-ups still compare');
+  assert(getComparisonPhotos(diagnosis({ entries: undefined })).length === 1, 'PC.9: entries are optional');
+
+  const pair = getComparisonPair(photos);
+  assert(pair.before.id === 'original' && pair.after.id === 'e3', 'PC.10: by default the original faces the newest photo');
+  assert(pair.days === 11, 'PC.11: the pair knows the days between the photos');
+  assert(getComparisonPair(photos, 'e1').after.id === 'e1', 'PC.12: any follow-up can be picked');
+  assert(getComparisonPair(photos, 'original').after.id === 'e3' && getComparisonPair(photos, 'gone').after.id === 'e3', 'PC.13: picking the original or a missing photo falls back to the newest');
+  assert(getComparisonPair(photos.slice(0, 1)) === null && getComparisonPair([]) === null, 'PC.14: fewer than two photos, nothing to compare');
+}
+
+// ─── Original photos leave the cache when tracking starts ───
+{
+  copies.length = 0;
+  const persisted = persistOriginalPhotos(diagnosis());
+  assert(
+    persisted.join() === 'file:///doc/diagnosis-photos/diag_1/original-0.jpg,file:///doc/diagnosis-photos/diag_1/original-1.jpg',
+    'PC.15: every original photo is copied next to the follow-up photos, one file each'
+  );
+  copies.length = 0;
+  const kept = persistOriginalPhotos(diagnosis({ imageUris: ['file:///doc/diagnosis-photos/diag_1/original-0.jpg', 'file:///broken/c.jpg'] }));
+  assert(copies.length === 0 && kept[0] === 'file:///doc/diagnosis-photos/diag_1/original-0.jpg' && kept[1] === 'file:///broken/c.jpg', 'PC.16: stored photos are not copied again; a failed copy keeps its URI');
+  assert(persistOriginalPhotos(diagnosis({ imageUris: undefined, imageUri: null })).length === 0, 'PC.17: no photos, nothing to copy');
+
+  let args = null;
+  await startTracking({ id: 'p1', name: 'Potus' }, diagnosis(), (...a) => { args = a; });
+  assert(args?.[6]?.[0] === 'file:///doc/diagnosis-photos/diag_1/original-0.jpg', 'PC.18: startTracking stores the copied photos');
+}
+
+// ─── Wiring ───
+{
+  const section = read('src/components/ActiveProblemsSection.tsx');
+  assert(section.includes('<PhotoComparison photos={getComparisonPhotos(d)}'), 'PC.19: tracked problems show the comparison with the timeline');
+  const storage = read('src/hooks/useStorage.tsx');
+  assert(storage.includes('{ imageUris, imageUri: imageUris[0] }'), 'PC.20: trackProblem saves the copied photos');
+  const hook = read('src/hooks/usePlantDiagnosis.ts');
+  assert(hook.includes('imageBase64 ? await loadReferencePhoto(images, resumeDiag) : undefined'), 'PC.21: the chat sends the original only with a new photo');
+  const client = read('src/utils/plantDiagnosis.ts');
+  assert(client.includes('referenceImageBase64: referencePhoto.base64'), 'PC.22: the client forwards the original photo');
+
+  const keys = ['title', 'sideBySide', 'slider', 'original', 'followUp', 'daysApart_one', 'daysApart_other', 'sameDay', 'sliderA11y', 'sliderHint'];
+  const ok = ['en', 'es'].every(lang => {
+    const comparison = JSON.parse(read(`src/i18n/locales/${lang}/common.json`)).diagnosis.tracking.comparison ?? {};
+    return keys.every(k => typeof comparison[k] === 'string' && comparison[k].length > 0);
+  });
+  assert(ok, 'PC.23: the comparison strings exist in en and es');
+}
+
+// ─── Report ───
+console.warn = silenced;
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-photo-comparison] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-photo-comparison] PASS ${pass}/${pass}`);
@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+// scripts/smoke-photo-queue.mjs
+// v1.3 (SYNC-03) photo upload queue smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles photoQueue + syncMerge and checks: what needs uploading, queue reconciliation,
+// retry backoff, quota fitting, and that uploaded paths survive the sync merge.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-photo-queue');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const queuePath = compile('src/utils/photoQueue.ts', 'photoQueue.mjs');
+const mergePath = compile('src/utils/syncMerge.ts', 'syncMerge.mjs');
+const {
+  photoStoragePath,
+  pendingPhotoUploads,
+  reconcileQueue,
+  retryDelayMs,
+  markFailed,
+  dueJobs,
+  nextRetryAt,
+  fitToQuota,
+  cacheFileName,
+} = await import(queuePath + '?t=' + Date.now());
+const { mergeCloudData } = await import(mergePath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const plant = (id, photos) => ({
+  id, name: id, typeId: 'interior', typeName: 'Interior', icon: '🪴',
+  waterSchedule: { warm: 7, cold: 14 }, lightLevel: 'bright_indirect', waterMode: 'fixed',
+  sunDays: [], outdoorDays: [], lastWatered: '2026-10-10', sunDoneDate: null, outdoorDoneDate: null,
+  photos, updatedAt: '2026-10-18T10:00:00.000Z',
+});
+const photo = (id, remotePath) => ({ id, uri: `file:///plant-photos/p1/${id}.jpg`, date: '2026-10-18', ...(remotePath ? { remotePath } : {}) });
+
+// ─── Paths ───
+{
+  assert(photoStoragePath('u1', { kind: 'plant', plantId: 'p1', id: '42' }) === 'u1/plants/p1/42.jpg', 'PQ.1: plant photos live under <user>/plants/<plant>/');
+  assert(photoStoragePath('u1', { kind: 'journal', plantId: 'p1', id: '7' }) === 'u1/journal/p1/7.jpg', 'PQ.2: journal photos live under <user>/journal/<plant>/');
+  assert(cacheFileName('u1/plants/p1/42.jpg') === 'u1_plants_p1_42.jpg', 'PQ.3: cache file name is flat');
+}
+
+// ─── What needs uploading ───
+{
+  const plants = [plant('p1', [photo('a'), photo('b', 'u1/plants/p1/b.jpg')]), plant('p2', undefined)];
+  const journals = {
+    p1: [
+      { id: 'j1', date: '2026-10-01', photoUri: 'file:///journal/p1/j1.jpg' },
+      { id: 'j2', date: '2026-10-02', photoUri: 'file:///journal/p1/j2.jpg', photoRemotePath: 'u1/journal/p1/j2.jpg' },
+      { id: 'j3', date: '2026-10-03', text: 'sin foto' },
+    ],
+  };
+  const pending = pendingPhotoUploads(plants, journals);
+  assert(pending.length === 2, 'PQ.4: only photos without a cloud copy are pending');
+  assert(pending[0].kind === 'plant' && pending[0].id === 'a' && pending[1].kind === 'journal' && pending[1].id === 'j1', 'PQ.5: plant and journal photos are both picked up');
+}
+
+// ─── Queue reconciliation ───
+{
+  const refA = { kind: 'plant', plantId: 'p1', id: 'a', localUri: 'file:///a.jpg' };
+  const refB = { kind: 'journal', plantId: 'p1', id: 'b', localUri: 'file:///b.jpg' };
+  const fresh = reconcileQueue([], [refA, refB]);
+  assert(fresh.length === 2 && fresh.every(j => j.attempts === 0 && j.nextAttemptAt === null && j.lastError === null), 'PQ.6: new photos join the queue due now');
+
+  const failed = [markFailed(fresh[0], 'upload_failed', NOW), fresh[1]];
+  const kept = reconcileQueue(failed, [refA, refB]);
+  assert(kept === failed, 'PQ.7: unchanged pending set → same queue (no rewrite)');
+  const afterUpload = reconcileQueue(failed, [refA]);
+  assert(afterUpload.length === 1 && afterUpload[0].attempts === 1, 'PQ.8: uploaded photos leave the queue, retry state of the rest survives');
+  const replaced = reconcileQueue(failed, [{ ...refA, localUri: 'file:///a2.jpg' }]);
+  assert(replaced[0].attempts === 0, 'PQ.9: a new file for the same photo starts over');
+}
+
+// ─── Backoff ───
+{
+  assert(retryDelayMs(1) === 30000 && retryDelayMs(2) === 60000 && retryDelayMs(3) === 120000, 'PQ.10: retry delay doubles from 30 s');
+  assert(retryDelayMs(50) === 6 * 60 * 60 * 1000, 'PQ.11: retry delay is capped at 6 h');
+
+  const job = { kind: 'plant', plantId: 'p1', id: 'a', localUri: 'file:///a.jpg', attempts: 0, nextAttemptAt: null, lastError: null };
+  const once = markFailed(job, 'upload_failed', NOW);
+  assert(once.attempts === 1 && once.nextAttemptAt === '2026-10-18T12:00:30.000Z', 'PQ.12: failed upload is scheduled for later');
+  assert(dueJobs([once], NOW).length === 0 && dueJobs([once], new Date('2026-10-18T12:00:30.000Z')).length === 1, 'PQ.13: job is due once its retry time arrives');
+  assert(nextRetryAt([once, { ...job, id: 'b' }]) === once.nextAttemptAt, 'PQ.14: next wake-up is the earliest scheduled retry');
+
+  const missing = markFailed(job, 'missing_file', NOW);
+  assert(missing.attempts === 0 && dueJobs([missing], NOW).length === 0 && nextRetryAt([missing]) === null, 'PQ.15: photos from another phone are parked, not retried');
+  const quota = markFailed(job, 'quota_exceeded', NOW);
+  assert(quota.attempts === 0 && dueJobs([quota], NOW).length === 1, 'PQ.16: quota-blocked photos are re-checked every run');
+}
+
+// ─── Quota ───
+{
+  const MB = 1024 * 1024;
+  const jobs = [{ id: 'a', sizeBytes: 3 * MB }, { id: 'b', sizeBytes: 8 * MB }, { id: 'c', sizeBytes: 1 * MB }];
+  const { accepted, rejected } = fitToQuota(jobs, 20 * MB, 25 * MB);
+  assert(accepted.map(j => j.id).join() === 'a,c' && rejected.map(j => j.id).join() === 'b', 'PQ.17: a photo that does not fit does not block smaller ones');
+  assert(fitToQuota(jobs, 0, 1024 * MB).rejected.length === 0, 'PQ.18: premium quota takes them all');
+  assert(fitToQuota(jobs, 25 * MB, 25 * MB).accepted.length === 0, 'PQ.19: full account uploads nothing');
+}
+
+// ─── Merge keeps uploaded paths ───
+{
+  const base = {
+    plants: [], notes: {}, reminders: {}, location: null, onboardingCompleted: true, userName: null,
+    notificationSettings: null, plantNetApiKey: null, installDate: '2026-01-01', identificationCount: 0,
+    diagnosisCount: 0, diagnosisHistory: {}, shoppingList: [], climateOverride: 'auto', journals: {},
+    careLog: {}, vacation: null, gardens: [], activeGardenId: 'home', syncTombstones: [],
+  };
+  const cloud = {
+    plants: [], notes: {}, reminders: {}, location: null, notificationSettings: null, plantNetApiKey: null,
+    gardens: [], climateOverride: null, journals: {}, diagnosisHistory: {}, shoppingList: [], careLog: {}, tombstones: [],
+  };
+  // This phone renamed the plant later; the other one uploaded photo a meanwhile.
+  const local = { ...base, plants: [{ ...plant('p1', [photo('a')]), name: 'renamed', updatedAt: '2026-10-18T11:00:00.000Z' }] };
+  const remote = { ...cloud, plants: [plant('p1', [photo('a', 'u1/plants/p1/a.jpg')])] };
+  const merged = mergeCloudData(local, remote, NOW).plants[0];
+  assert(merged.name === 'renamed' && merged.photos[0].remotePath === 'u1/plants/p1/a.jpg', 'PQ.20: newer plant edit keeps the other side\'s photo upload');
+
+  const localJ = { ...base, plants: [plant('p1', [])], journals: { p1: [{ id: 'j1', date: '2026-10-01', photoUri: 'file:///j1.jpg' }] } };
+  const remoteJ = { ...cloud, journals: { p1: [{ id: 'j1', date: '2026-10-01', photoUri: 'file:///j1.jpg', photoRemotePath: 'u1/journal/p1/j1.jpg' }] } };
+  assert(mergeCloudData(localJ, remoteJ, NOW).journals.p1[0].photoRemotePath === 'u1/journal/p1/j1.jpg', 'PQ.21: journal entries pick up the uploaded path');
+}
+
+// ─── Server quota mirrors the app gate ───
+{
+  const premium = readFileSync(resolve(ROOT, 'src/config/premium.ts'), 'utf8');
+  const m = premium.match(/PHOTO_STORAGE_QUOTA_MB = \{ free: (\d+), premium: (\d+) \}/);
+  const migration = readFileSync(resolve(ROOT, 'supabase/migrations/008_photo_storage.sql'), 'utf8');
+  const server = migration.match(/THEN (\d+)\s+ELSE (\d+)\s+END/);
+  assert(m && server && server[1] === m[2] && server[2] === m[1], 'PQ.22: the upload policy quota matches PHOTO_STORAGE_QUOTA_MB');
+  const setup = readFileSync(resolve(ROOT, 'supabase/storage-setup.sql'), 'utf8');
+  assert((setup.match(/public\.photo_upload_allowed\(name\)/g) || []).length === 4, 'PQ.23: the upload and overwrite policies check the tier quota');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-photo-queue] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-photo-queue] PASS ${pass}/${pass}`);
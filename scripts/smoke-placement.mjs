@@ -0,0 +1,204 @@
+#!/usr/bin/env node
+// scripts/smoke-placement.mjs
+// v1.3 (PLACE-01) plant placement smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles placement + plantAlerts + plantHealth + wateringRecommendations and checks that
+// frost, heat, wind and rain reach each plant only as far as its placement lets them.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-placement');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Stubs (auto-written — gitignored) ───
+writeFileSync(resolve(TMP_DIR, 'i18n.mjs'),
+  `// PLACE-01 smoke stub for ../i18n. Auto-written.\n` +
+  `export default { t: (key, opts) => (opts && opts.defaultValue) || key, on: () => {}, language: 'es' };\n`
+);
+writeFileSync(resolve(TMP_DIR, 'plantDatabase.mjs'),
+  `// PLACE-01 smoke stub for ../data/plantDatabase. Auto-written — every type tolerates 10–30 °C.\n` +
+  `export function getCatalogEntry() { return null; }\n` +
+  `export function getPlantById() { return { tempMin: 10, tempMax: 30 }; }\n`
+);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+compile('src/utils/migration.ts', 'migration.mjs');
+compile('src/utils/lightLabel.ts', 'lightLabel.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+const placementPath = compile('src/utils/placement.ts', 'placement.mjs', [
+  ["from './lightLabel'", "from './lightLabel.mjs'"],
+]);
+compile('src/utils/taskDeferral.ts', 'taskDeferral.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+compile('src/utils/plantLogic.ts', 'plantLogic.mjs', [
+  ['from "./dates"', 'from "./dates.mjs"'],
+  ['from "./taskDeferral"', 'from "./taskDeferral.mjs"'],
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+  ['from "../i18n"', 'from "./i18n.mjs"'],
+]);
+compile('src/data/weatherCodes.ts', 'weatherCodes.mjs', [
+  ["from '../i18n'", "from './i18n.mjs'"],
+]);
+const alertsPath = compile('src/utils/plantAlerts.ts', 'plantAlerts.mjs', [
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+  ['from "./placement"', 'from "./placement.mjs"'],
+]);
+const healthPath = compile('src/utils/plantHealth.ts', 'plantHealth.mjs', [
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './taskDeferral'", "from './taskDeferral.mjs'"],
+  ["from './placement'", "from './placement.mjs'"],
+  ["from '../data/plantDatabase'", "from './plantDatabase.mjs'"],
+  ["from '../i18n'", "from './i18n.mjs'"],
+]);
+const recsPath = compile('src/utils/wateringRecommendations.ts', 'wateringRecommendations.mjs', [
+  ["from '../data/weatherCodes'", "from './weatherCodes.mjs'"],
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './dates'", "from './dates.mjs'"],
+  ["from '../i18n'", "from './i18n.mjs'"],
+  ["from './placement'", "from './placement.mjs'"],
+]);
+
+const {
+  PLACEMENT_OPTIONS,
+  inferPlacement,
+  getPlantPlacement,
+  getPlacementExposure,
+  exposedLow,
+  exposedHigh,
+} = await import(placementPath + '?t=' + Date.now());
+const { generatePlantAlerts } = await import(alertsPath + '?t=' + Date.now());
+const { calculatePlantHealth } = await import(healthPath + '?t=' + Date.now());
+const { getWateringRecommendations } = await import(recsPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const today = new Date(2026, 6, 15);
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  waterSchedule: { warm: 7, cold: 7 },
+  waterMode: 'fixed',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: '2026-07-14',
+  sunDoneDate: null,
+  outdoorDoneDate: '2026-07-15',
+  ...overrides,
+});
+const day = (date, tempMin, tempMax, precipitation = 0) => ({
+  date, weatherCode: precipitation > 0 ? 61 : 1, tempMin, tempMax, precipitation,
+  sunrise: null, sunset: null, uvIndexMax: null,
+});
+const weather = ({ temperature, windSpeed = 5, weatherCode = 1, today: d0, tomorrow: d1 }) => ({
+  current: { temperature, weatherCode, windSpeed, humidity: 50, uvIndex: null },
+  daily: [d0, d1],
+  lastFetched: 0,
+});
+const frost = weather({ temperature: 4, today: day('2026-07-15', 1, 9), tomorrow: day('2026-07-16', -2, 8) });
+const heatWave = weather({ temperature: 36, today: day('2026-07-15', 24, 37), tomorrow: day('2026-07-16', 25, 34) });
+const storm = weather({ temperature: 18, windSpeed: 55, weatherCode: 63, today: day('2026-07-15', 14, 20, 15), tomorrow: day('2026-07-16', 14, 20, 12) });
+const alertTypes = (p, w) => generatePlantAlerts([p], w).map(a => a.type).sort().join();
+const weatherIssues = (p, w) => calculatePlantHealth(p, today, w, undefined, 'warm').issues.filter(i => i.type === 'extreme_weather');
+
+// ─── Inference ───
+{
+  assert(PLACEMENT_OPTIONS.length === 4, 'PL.1: four placements');
+  assert(inferPlacement('exterior') === 'outdoor', 'PL.2: outdoor category infers outdoor');
+  assert(inferPlacement('suculentas') === 'indoor', 'PL.3: suculentas stays indoor (Phase 6 lock)');
+  assert(inferPlacement('aromaticas', false) === 'indoor', 'PL.4: catalog outdoor:false wins over the category');
+  assert(inferPlacement('interior', true) === 'outdoor', 'PL.5: catalog outdoor:true wins over the category');
+  assert(getPlantPlacement(plant('a', { typeId: 'huerta' })) === 'outdoor', 'PL.6: legacy plants fall back to the category');
+  assert(getPlantPlacement(plant('a', { typeId: 'huerta', placement: 'greenhouse' })) === 'greenhouse', 'PL.7: stored placement wins');
+}
+
+// ─── Exposure ───
+{
+  const indoor = getPlacementExposure(plant('a'));
+  assert(exposedLow(-5, indoor) === null && exposedHigh(40, indoor) === null, 'PL.8: indoor temperature is not weather-driven');
+  assert(!indoor.wind && !indoor.rain, 'PL.9: indoor is sheltered from wind and rain');
+  assert(getPlacementExposure(plant('a', { outdoorDays: [0, 6] })).wind, 'PL.10: indoor plants taken out on outdoorDays feel the wind');
+  const greenhouse = getPlacementExposure(plant('a', { placement: 'greenhouse' }));
+  assert(exposedLow(0, greenhouse) === 5 && exposedHigh(30, greenhouse) === 35, 'PL.11: greenhouse buffers lows and amplifies highs');
+  const balcony = getPlacementExposure(plant('a', { placement: 'covered_balcony' }));
+  assert(balcony.wind && !balcony.rain, 'PL.12: covered balcony is windy but dry');
+}
+
+// ─── generatePlantAlerts ───
+{
+  assert(alertTypes(plant('sofa'), frost) === '', 'PL.13: no frost alert for an indoor plant');
+  assert(alertTypes(plant('yard', { placement: 'outdoor' }), frost) === 'cold', 'PL.14: frost alert for an outdoor plant');
+  const gh = generatePlantAlerts([plant('gh', { placement: 'greenhouse' })], frost);
+  assert(gh.length === 1 && gh[0].message.key === 'alerts.coldMessage' && gh[0].message.params.forecast === -2, 'PL.15: greenhouse alert is triggered by the buffered low but quotes the forecast');
+  assert(alertTypes(plant('sofa'), heatWave) === '', 'PL.16: no heat alert for an indoor plant');
+  assert(alertTypes(plant('gh', { placement: 'greenhouse' }), heatWave) === 'heat', 'PL.17: heat alert inside the greenhouse');
+  assert(alertTypes(plant('balc', { placement: 'covered_balcony' }), storm).includes('wind'), 'PL.18: wind alert on the balcony');
+  assert(!alertTypes(plant('gh', { placement: 'greenhouse' }), storm).includes('wind'), 'PL.19: no wind alert inside the greenhouse');
+}
+
+// ─── calculatePlantHealth ───
+{
+  assert(weatherIssues(plant('sofa'), frost).length === 0, 'PL.20: indoor health ignores frost');
+  assert(weatherIssues(plant('yard', { placement: 'outdoor' }), frost).length === 1, 'PL.21: outdoor health is penalized for frost');
+  const indoorScore = calculatePlantHealth(plant('sofa'), today, heatWave, undefined, 'warm').score;
+  const outdoorScore = calculatePlantHealth(plant('yard', { placement: 'outdoor' }), today, heatWave, undefined, 'warm').score;
+  assert(indoorScore - outdoorScore === 10, 'PL.22: heat wave costs outdoor plants 10 points, indoor none');
+}
+
+// ─── getWateringRecommendations ───
+{
+  const due = { lastWatered: '2026-07-08' };
+  const recs = getWateringRecommendations(
+    [plant('sofa', due), plant('yard', { ...due, placement: 'outdoor' }), plant('balc', { ...due, placement: 'covered_balcony' })],
+    storm, today, 'warm'
+  );
+  const byId = Object.fromEntries(recs.map(r => [r.plantId, r.reason]));
+  assert(byId.yard === 'rain', 'PL.23: rain skip for the outdoor plant');
+  assert(byId.sofa === undefined && byId.balc === undefined, 'PL.24: no rain skip under a roof');
+  const hot = getWateringRecommendations([plant('sofa', due), plant('gh', { ...due, placement: 'greenhouse' })], heatWave, today, 'warm');
+  assert(hot.length === 1 && hot[0].plantId === 'gh' && hot[0].reason === 'extreme_heat', 'PL.25: heat advice follows the placement');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-placement] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-placement] PASS ${pass}/${pass}`);
@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+// scripts/smoke-plant-stats.mjs
+// v1.3 (STATS-01) per-plant statistics smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + careLog + plantStats and checks the first day in the garden, care counts
+// with the real average interval, diagnosis / journal / photo counts.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-plant-stats');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+compile('src/utils/careLog.ts', 'careLog.mjs');
+const statsPath = compile('src/utils/plantStats.ts', 'plantStats.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './careLog'", "from './careLog.mjs'"],
+]);
+const { getIdDate, getPlantStats } = await import(statsPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const TODAY = new Date(2026, 9, 18);
+const plant = (overrides = {}) => ({
+  id: 'p1',
+  name: 'Potus',
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: null,
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  ...overrides,
+});
+let seq = 0;
+const event = (type, date, extra = {}) => ({
+  id: `e${++seq}`,
+  type,
+  date,
+  timestamp: `${date}T10:00:00.000Z`,
+  source: 'task',
+  ...extra,
+});
+const diagnosis = (date, resolved) => ({ id: `d${++seq}`, plantId: 'p1', date, resolved, resolvedDate: resolved ? date : null });
+const entry = (date, careTag, photoUri) => ({ id: `j${++seq}`, date, careTag, photoUri });
+const stats = (input) => getPlantStats({ waterInterval: 7, fertilizeInterval: null, today: TODAY, ...input });
+
+// ─── First day in the garden ───
+{
+  const createdAt = new Date(2026, 8, 18, 12).getTime().toString();
+  assert(getIdDate(createdAt) === '2026-09-18', 'ST.1: Date.now() ids give the creation day');
+  assert(getIdDate('p1') === null && getIdDate('123') === null, 'ST.2: other ids carry no date');
+  const s = stats({ plant: plant({ id: createdAt }) });
+  assert(s.since === '2026-09-18' && s.daysInGarden === 30, 'ST.3: days in the garden count from the id day');
+  const older = stats({
+    plant: plant({ id: createdAt, photos: [{ id: 'ph', uri: 'x', date: '2026-08-01T09:00:00.000Z' }] }),
+  });
+  assert(older.since === '2026-08-01', 'ST.4: an older record (photo timestamp) moves the first day back');
+  const none = stats({ plant: plant() });
+  assert(none.since === null && none.daysInGarden === null, 'ST.5: nothing dated, nothing shown');
+  const today = stats({ plant: plant(), journal: [entry('2026-10-18')] });
+  assert(today.daysInGarden === 0, 'ST.6: the first day counts as day 0');
+}
+
+// ─── Care intervals ───
+{
+  const watered = event('water', '2026-10-10');
+  const careEvents = [
+    event('water', '2026-10-01'),
+    event('water', '2026-10-05'),
+    watered,
+    event('undo', '2026-10-10', { type: 'water', source: 'undo', undoes: watered.id }),
+    event('water', '2026-10-13'),
+    event('water', '2026-10-13'),
+    event('sun', '2026-10-02'),
+    event('fertilize', '2026-09-01'),
+  ];
+  const s = stats({ plant: plant(), careEvents });
+  assert(s.watering.count === 4, 'ST.7: undone waterings are not counted');
+  assert(s.watering.averageDays === 6, 'ST.8: the average spans distinct care days (1 → 5 → 13)');
+  assert(s.watering.scheduledDays === 7, 'ST.9: the scheduled interval is passed through');
+  assert(s.fertilizing.count === 1 && s.fertilizing.averageDays === null, 'ST.10: one fertilization has no average');
+  assert(s.fertilizing.scheduledDays === null, 'ST.11: no fertilizer plan, no scheduled interval');
+  const uneven = stats({ plant: plant(), careEvents: [event('water', '2026-10-01'), event('water', '2026-10-04'), event('water', '2026-10-11')] });
+  assert(uneven.watering.averageDays === 5, 'ST.12: averages are means of the gaps');
+  const thirds = stats({ plant: plant(), careEvents: [event('water', '2026-10-01'), event('water', '2026-10-02'), event('water', '2026-10-03'), event('water', '2026-10-05')] });
+  assert(thirds.watering.averageDays === 1.3, 'ST.13: averages keep one decimal');
+}
+
+// ─── Diagnoses, journal, photos ───
+{
+  const s = stats({
+    plant: plant({ photos: [{ id: 'a', uri: 'a', date: '2026-10-01' }, { id: 'b', uri: 'b', date: '2026-10-02' }] }),
+    diagnoses: [diagnosis('2026-09-10T08:00:00.000Z', true), diagnosis('2026-10-01', false)],
+    journal: [
+      entry('2026-10-01', 'poda'),
+      entry('2026-10-02', 'riego', 'file:///j1.jpg'),
+      entry('2026-10-03', 'poda'),
+      entry('2026-10-04'),
+    ],
+  });
+  assert(s.diagnoses.opened === 2 && s.diagnoses.resolved === 1, 'ST.14: diagnoses opened and resolved');
+  assert(JSON.stringify(s.journal.byTag) === JSON.stringify([{ tag: 'riego', count: 1 }, { tag: 'poda', count: 2 }]), 'ST.15: journal tags counted in the quick-add order, unused tags left out');
+  assert(s.journal.total === 4 && s.journal.untagged === 1, 'ST.16: untagged entries are counted apart');
+  assert(s.photos === 3, 'ST.17: album photos plus journal photos');
+  assert(s.since === '2026-09-10', 'ST.18: a diagnosis timestamp can date the plant');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-plant-stats] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-plant-stats] PASS ${pass}/${pass}`);
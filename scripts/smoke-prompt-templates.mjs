@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+// scripts/smoke-prompt-templates.mjs
+// v1.3 (PROMPT-01) locale prompt templates smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles the shared prompts module next to a copy of promptTemplates.json and checks that every
+// locale is complete and only uses known variables, the locale resolution (old clients sending
+// "es" keep voseo), the rendered diagnosis / chat prompts, the prompt version on every response,
+// and that a locale added only to the JSON works without code changes.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, copyFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-prompt-templates');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const read = (relPath) => readFileSync(resolve(ROOT, relPath), 'utf8');
+
+copyFileSync(resolve(ROOT, 'supabase/functions/_shared/promptTemplates.json'), resolve(TMP_DIR, 'promptTemplates.json'));
+const { loadPrompts, resolvePromptLocale, interpolate } = await import(compile('supabase/functions/_shared/prompts.ts', 'prompts.mjs') + '?t=' + Date.now());
+const { validateDiagnosisResult, validateChatResponse } = await import(compile('supabase/functions/_shared/aiValidation.ts', 'aiValidation.mjs') + '?t=' + Date.now());
+const catalog = JSON.parse(read('supabase/functions/_shared/promptTemplates.json'));
+const LOCALES = Object.keys(catalog.locales);
+
+// Template → [variables it may use, variables it must use]
+const VARIABLES = {
+  'plantContext.v2': [['species', 'waterLines', 'season', 'lightLevel', 'lastWatered', 'outdoorDays'], ['species', 'waterLines']],
+  'plantContext.waterSoilCheck': [[], []],
+  'plantContext.waterSchedule': [['warmDays', 'coldDays'], ['warmDays', 'coldDays']],
+  'plantContext.legacy': [['species', 'waterEvery', 'sunHours', 'lastWatered', 'outdoorDays'], ['species']],
+  'diagnosis.system': [['plantContext', 'photoContext'], ['plantContext', 'photoContext']],
+  'diagnosis.photoOne': [['photoCount'], []],
+  'diagnosis.photoMany': [['photoCount'], ['photoCount']],
+  'diagnosis.userOne': [['photoCount'], []],
+  'diagnosis.userMany': [['photoCount'], ['photoCount']],
+  'chat.system': [
+    ['plantContext', 'resume', 'overallStatus', 'summary', 'issues', 'careTips', 'species', 'offTopicReply'],
+    ['plantContext', 'resume', 'summary', 'issues', 'offTopicReply'],
+  ],
+  'chat.offTopic': [['species'], ['species']],
+  'chat.resume': [['priorSummary'], ['priorSummary']],
+  'chat.issue': [['name', 'severity', 'confidence', 'description'], ['name', 'description']],
+  'chat.noIssues': [[], []],
+  'chat.comparison': [['date'], ['date']],
+  'retry': [['errors'], ['errors']],
+};
+
+const at = (obj, path) => path.split('.').reduce((o, k) => o?.[k], obj);
+const varsOf = (template) => [...template.matchAll(/\{\{(\w+)\}\}/g)].map(m => m[1]);
+
+// ─── Catalog ───
+{
+  assert(
+    LOCALES.includes('es-AR') && LOCALES.includes('es-419') && LOCALES.includes('en') && LOCALES.includes('pt-BR'),
+    'PT.1: es-AR, neutral Spanish, English and Brazilian Portuguese ship'
+  );
+  assert(
+    LOCALES.includes(catalog.defaultLocale) && Object.values(catalog.aliases).every(l => LOCALES.includes(l)),
+    'PT.2: the default and every alias point at a locale'
+  );
+  assert(LOCALES.every(l => Number.isInteger(catalog.locales[l].version) && catalog.locales[l].version > 0), 'PT.3: every locale has a version');
+
+  const missing = LOCALES.flatMap(l => Object.keys(VARIABLES).filter(path => typeof at(catalog.locales[l], path) !== 'string').map(p => `${l}:${p}`));
+  assert(missing.length === 0, `PT.4: every locale has every template${missing.length ? ` (missing ${missing.join(', ')})` : ''}`);
+
+  const labelsOk = LOCALES.every(l => {
+    const labels = catalog.locales[l].labels;
+    return labels.days.length === 7 &&
+      ['direct', 'bright_indirect', 'medium_indirect', 'low'].every(k => typeof labels.lightLevel[k] === 'string') &&
+      ['warm', 'cold', 'tropical'].every(k => typeof labels.season[k] === 'string') &&
+      ['lightLevelUnknown', 'seasonUnknown', 'lastWateredUnknown', 'outdoorNone'].every(k => typeof labels[k] === 'string');
+  });
+  assert(labelsOk, 'PT.5: every locale has the day, light and season labels');
+
+  const unknown = [];
+  const unused = [];
+  for (const l of LOCALES) {
+    for (const [path, [allowed, required]] of Object.entries(VARIABLES)) {
+      const template = at(catalog.locales[l], path) ?? '';
+      const used = varsOf(template);
+      used.filter(v => !allowed.includes(v)).forEach(v => unknown.push(`${l}:${path}:${v}`));
+      required.filter(v => !used.includes(v)).forEach(v => unused.push(`${l}:${path}:${v}`));
+    }
+  }
+  assert(unknown.length === 0, `PT.6: templates only use known variables${unknown.length ? ` (${unknown.join(', ')})` : ''}`);
+  assert(unused.length === 0, `PT.7: templates keep their required variables${unused.length ? ` (${unused.join(', ')})` : ''}`);
+}
+
+// ─── Locale resolution ───
+{
+  assert(resolvePromptLocale('es') === 'es-AR', 'PT.8: "es" from the app keeps the voseo prompts');
+  assert(resolvePromptLocale('es-419') === 'es-419' && resolvePromptLocale('es-ar') === 'es-AR', 'PT.9: exact locales win, case-insensitive');
+  assert(resolvePromptLocale('es-MX') === 'es-AR' && resolvePromptLocale('pt_PT') === 'pt-BR', 'PT.10: other regions fall back to their language');
+  assert(resolvePromptLocale('en-US') === 'en' && resolvePromptLocale('pt') === 'pt-BR', 'PT.11: base languages and aliases resolve');
+  assert(resolvePromptLocale('fr') === 'en' && resolvePromptLocale(undefined) === 'en' && resolvePromptLocale('') === 'en', 'PT.12: unknown or missing languages get the default');
+  assert(loadPrompts('es').version === `es-AR@${catalog.locales['es-AR'].version}`, 'PT.13: the version is locale@version');
+}
+
+// ─── Rendering ───
+const ctx = {
+  species: 'Potus',
+  lastWatered: '2026-10-10',
+  outdoorDays: [1, 3],
+  waterSchedule: { warm: 7, cold: 14 },
+  waterMode: 'fixed',
+  lightLevel: 'bright_indirect',
+  currentSeason: 'warm',
+};
+const diagnosis = {
+  overallStatus: 'moderate',
+  summary: 'Hojas amarillas',
+  issues: [{ name: 'Exceso de riego', severity: 'moderate', confidence: 80, description: 'Tierra húmeda', treatment: 'Regar menos' }],
+  careTips: ['Menos agua', 'Más luz'],
+};
+{
+  const es = loadPrompts('es');
+  const many = es.diagnosis(ctx, 3);
+  assert(
+    many.system.startsWith('Sos un experto') && many.system.includes('\n\nContexto de la planta:\n- Especie: Potus\n') &&
+      many.system.includes('Se proporcionan 3 fotos') && many.user.includes('Te envío 3 fotos'),
+    'PT.14: es-AR diagnosis renders voseo with the context block and the photo count'
+  );
+  const plain = es.plantContext(ctx);
+  assert(
+    plain.includes('- Cuidado de riego: temporada cálida cada 7 días') && plain.includes('- Nivel de luz: luz brillante indirecta') &&
+      plain.includes('- Días al exterior: Lun, Mié'),
+    'PT.15: the context block fills the schedule, labels and days'
+  );
+  const soil = es.plantContext({ ...ctx, waterMode: 'soil_check', lightLevel: undefined, currentSeason: undefined });
+  assert(
+    soil.includes('Modo de riego: por chequeo') && !soil.includes('cada 7 días') && soil.includes('Nivel de luz: no especificado'),
+    'PT.16: check-in mode and missing fields use their lines'
+  );
+  const one = loadPrompts('en').diagnosis(undefined, 1);
+  assert(
+    one.system.includes('diagnose its health status.\n\nOne photo of the plant is provided.') && one.user === 'Diagnose the health status of this plant.',
+    'PT.17: no context, no block; one photo reads singular'
+  );
+}
+{
+  const en = loadPrompts('en');
+  const resumed = en.chat({ ctx, diagnosis, priorDiagnosisSummary: 'Overwatered last month' });
+  assert(
+    resumed.includes('- Exceso de riego (moderate, 80% confidence): Tierra húmeda') && resumed.includes('- Tips given: Menos agua; Más luz'),
+    'PT.18: chat lists the previous issues and tips'
+  );
+  assert(
+    resumed.includes('Prior diagnosis summary:\nOverwatered last month') && resumed.includes('reply: "I can only help you with the diagnosis of your Potus.'),
+    'PT.19: chat carries the resume clause and the off-topic reply'
+  );
+  const fresh = en.chat({ ctx, diagnosis: { ...diagnosis, issues: [] } });
+  assert(!fresh.includes('Prior diagnosis summary') && fresh.includes('- Issues:\n- No problems detected'), 'PT.20: no summary, no resume clause; no issues, the empty line');
+  assert(en.retry(['reply missing', 'x']).includes('(reply missing; x)'), 'PT.21: the retry text carries the errors');
+}
+{
+  const neutral = loadPrompts('es-419');
+  const system = neutral.diagnosis(ctx, 1).system + neutral.chat({ ctx, diagnosis }) + neutral.retry(['x']);
+  assert(
+    system.startsWith('Eres un experto') && !/\b(Sos|Analizá|Respondé|Usá|Tenés|podés)\b/.test(system),
+    'PT.22: neutral Spanish has no voseo'
+  );
+  const pt = loadPrompts('pt-BR');
+  assert(
+    pt.diagnosis(ctx, 2).system.startsWith('Você é um especialista') && pt.plantContext(ctx).includes('Dias ao ar livre: Seg, Qua'),
+    'PT.23: Brazilian Portuguese renders its own text and labels'
+  );
+  const tricky = loadPrompts('en').chat({ ctx: { ...ctx, species: '{{summary}}' }, diagnosis });
+  assert(tricky.includes('this plant ({{summary}})') && interpolate('{{a}}{{b}}', { a: '{{b}}', b: 1 }) === '{{b}}1', 'PT.24: values are not interpolated again');
+}
+
+// ─── A locale added only to the JSON ───
+{
+  const fr = JSON.parse(JSON.stringify(catalog.locales.en));
+  fr.version = 3;
+  fr.diagnosis.userOne = 'Diagnostique la santé de cette plante.';
+  fr.labels.days = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
+  const extended = { ...catalog, locales: { ...catalog.locales, fr } };
+  const prompts = loadPrompts('fr-CA', extended);
+  assert(
+    prompts.version === 'fr@3' && prompts.diagnosis(ctx, 1).user === 'Diagnostique la santé de cette plante.' &&
+      prompts.plantContext(ctx).includes('Outdoor days: Lun, Mer'),
+    'PT.25: a new language needs only its JSON entry'
+  );
+}
+
+// ─── Version on every response ───
+{
+  const checked = validateDiagnosisResult({ ...diagnosis, promptVersion: 'es-AR@1' });
+  const reply = validateChatResponse({ reply: 'Hola', promptVersion: 'es-AR@1' });
+  assert(checked.ok && checked.value.promptVersion === 'es-AR@1' && reply.ok && reply.value.promptVersion === 'es-AR@1', 'PT.26: the validators keep promptVersion');
+
+  const edge = ['diagnose-plant', 'chat-diagnosis'].every(fn => {
+    const src = read(`supabase/functions/${fn}/index.ts`);
+    return src.includes('loadPrompts(body.lang)') && src.includes('promptVersion: prompts.version') &&
+      src.includes("'X-Prompt-Version'") && !/\b(isEs|Sos un experto|You are an expert)\b/.test(src);
+  });
+  assert(edge, 'PT.27: the edge functions render from the templates and return the version');
+  const hook = read('src/hooks/usePlantDiagnosis.ts');
+  assert(hook.includes('promptVersion: response.promptVersion'), 'PT.28: assistant chat messages keep the version');
+}
+
+// ─── Follow-up photo comparison (COMPARE-01) ───
+{
+  const texts = LOCALES.map(l => loadPrompts(l).comparison('2026-10-01'));
+  assert(texts.every(text => text.includes('(2026-10-01)')), 'PT.29: every locale introduces the original photo with its date');
+  const chat = read('supabase/functions/chat-diagnosis/index.ts');
+  assert(
+    chat.indexOf('{ image: reference }') > -1 && chat.indexOf('{ image: reference }') < chat.indexOf('{ image: body.imageBase64 }'),
+    'PT.30: the original photo goes before the follow-up photo'
+  );
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-prompt-templates] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-prompt-templates] PASS ${pass}/${pass}`);
@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+// scripts/smoke-sitter-sheet.mjs
+// v1.3 (SITTER-01) plant-sitter handoff sheet smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + taskDeferral + plantLogic + lightLabel + petToxicity + gardens + sitterSheet
+// and checks the sheet window, the per-plant rows and the standalone HTML.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-sitter-sheet');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Stubs (auto-written — gitignored) ───
+writeFileSync(resolve(TMP_DIR, 'i18n.mjs'),
+  `// SITTER-01 smoke stub for ../i18n. Auto-written.\n` +
+  `export default { t: (key, opts) => (opts && opts.defaultValue) || key, on: () => {}, language: 'es' };\n`
+);
+writeFileSync(resolve(TMP_DIR, 'plantDatabase.mjs'),
+  `// SITTER-01 smoke stub for ../data/plantDatabase. Auto-written — two catalog entries.\n` +
+  `const ENTRIES = {\n` +
+  `  potus: { id: 'potus', careAction: { fixed: 'Regá cada 7 días.', soilCheck: 'Tocá la tierra.' }, petToxicity: { cats: 'toxic', dogs: 'caution' }, fertilizeIntervalWarm: 30, fertilizeIntervalCold: null },\n` +
+  `  calathea: { id: 'calathea', careAction: { fixed: 'Agua sin cloro.' }, petToxicity: { cats: 'safe', dogs: 'safe' } },\n` +
+  `};\n` +
+  `export function getCatalogEntry(slug) { return ENTRIES[slug] ?? null; }\n` +
+  `export function getTranslatedPlant(entry) { return { ...entry, careAction: entry.careAction && { fixed: entry.careAction.fixed && '[en] ' + entry.careAction.fixed, soilCheck: entry.careAction.soilCheck && '[en] ' + entry.careAction.soilCheck } }; }\n`
+);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+compile('src/utils/taskDeferral.ts', 'taskDeferral.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+compile('src/utils/plantLogic.ts', 'plantLogic.mjs', [
+  ['from "./dates"', 'from "./dates.mjs"'],
+  ['from "./taskDeferral"', 'from "./taskDeferral.mjs"'],
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+  ['from "../i18n"', 'from "./i18n.mjs"'],
+]);
+compile('src/utils/migration.ts', 'migration.mjs');
+compile('src/utils/lightLabel.ts', 'lightLabel.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+compile('src/utils/petToxicity.ts', 'petToxicity.mjs');
+compile('src/utils/seasonality.ts', 'seasonality.mjs');
+compile('src/utils/gardens.ts', 'gardens.mjs', [
+  ["from './seasonality'", "from './seasonality.mjs'"],
+]);
+const sheetPath = compile('src/utils/sitterSheet.ts', 'sitterSheet.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './lightLabel'", "from './lightLabel.mjs'"],
+  ["from './petToxicity'", "from './petToxicity.mjs'"],
+  ["from './gardens'", "from './gardens.mjs'"],
+  ["from '../data/plantDatabase'", "from './plantDatabase.mjs'"],
+]);
+const {
+  SITTER_SHEET_DEFAULT_DAYS,
+  getSitterSheetWindow,
+  buildSitterSheet,
+  countPetWarnings,
+  renderSitterSheetHtml,
+  escapeHtml,
+  getSitterSheetFileName,
+} = await import(sheetPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const TODAY = new Date(2026, 9, 18); // local midnight, like parseDate
+const t = (key, opts = {}) => {
+  const vars = Object.entries(opts).filter(([k]) => k !== 'defaultValue').map(([k, v]) => `${k}=${v}`).join(',');
+  return vars ? `${key}(${vars})` : key;
+};
+const plant = (id, extra = {}) => ({
+  id, name: id, typeId: 'interior', typeName: 'Interior', icon: '🪴',
+  sunDays: [], outdoorDays: [], lastWatered: '2026-10-15', sunDoneDate: null, outdoorDoneDate: null,
+  waterSchedule: { warm: 3, cold: 7 }, lightLevel: 'bright_indirect',
+  ...extra,
+});
+const gardens = [{ id: 'balcony', name: 'Balcón', icon: '🌇', location: null, climateOverride: 'auto' }];
+
+// ─── Window ───
+{
+  const w = getSitterSheetWindow(null, TODAY);
+  assert(w.from === '2026-10-18' && w.until === '2026-10-31' && SITTER_SHEET_DEFAULT_DAYS === 14, 'SS.1: without a trip the sheet covers the next two weeks');
+  const trip = getSitterSheetWindow({ departure: '2026-10-20', returnDate: '2026-10-25' }, TODAY);
+  assert(trip.from === '2026-10-18' && trip.until === '2026-10-24', 'SS.2: a planned trip covers today through the day before the return');
+  const past = getSitterSheetWindow({ departure: '2026-10-01', returnDate: '2026-10-10' }, TODAY);
+  assert(past.until === '2026-10-31', 'SS.3: a finished trip falls back to the default window');
+}
+
+// ─── Rows ───
+const window = { from: '2026-10-18', until: '2026-10-24' };
+const plants = [
+  plant('pothos', { databaseId: 'potus' }),
+  plant('fern', { lastWatered: '2026-10-10', waterSchedule: { warm: 10, cold: 14 }, waterMode: 'soil_check', gardenId: 'balcony' }),
+  plant('cactus', { lastWatered: '2026-10-17', waterSchedule: { warm: 21, cold: 30 }, databaseId: 'calathea' }),
+  plant('orphan', { gardenId: 'deleted-space', name: 'orphan <b>&</b>' }),
+];
+const sheet = buildSitterSheet(plants, gardens, window, 'warm', t);
+const rows = Object.fromEntries(sheet.groups.flatMap(g => g.plants).map(r => [r.plantId, r]));
+{
+  assert(sheet.groups.map(g => g.gardenId).join() === 'home,balcony', 'SS.4: groups are home first, then spaces');
+  assert(sheet.groups[0].plants.map(r => r.plantId).join() === 'orphan,pothos,cactus', 'SS.5: plants with an unknown space land at home, soonest watering first (then by name)');
+  assert(rows.pothos.waterDates.join() === '2026-10-18,2026-10-21,2026-10-24', 'SS.6: every watering day inside the window is listed');
+  assert(rows.fern.waterMode === 'soil_check' && rows.fern.waterDates.join() === '2026-10-20', 'SS.7: soil-check plants list their check-in days');
+  assert(rows.cactus.waterDates.length === 0 && rows.cactus.nextWater === '2026-11-07', 'SS.8: a plant with nothing due keeps its next date');
+  assert(rows.pothos.fertilizeDate === '2026-10-18', 'SS.9: fertilizing inside the window is listed');
+  assert(rows.cactus.fertilizeDate === null, 'SS.10: plants without a fertilize cadence have none');
+  assert(rows.pothos.careAction === '[en] Regá cada 7 días.', 'SS.11: careAction comes from the translated catalog entry');
+  assert(rows.fern.careAction === null, 'SS.12: custom plants have no careAction copy');
+  assert(rows.pothos.lightLabel === 'lightLevel.indoor.bright_indirect', 'SS.13: light goes through getLightLabel');
+  assert(rows.pothos.toxicity.cats === 'toxic' && rows.fern.toxicity.cats === 'unknown', 'SS.14: toxicity comes from the catalog; custom plants stay unknown');
+  assert(countPetWarnings(sheet) === 1, 'SS.15: only toxic/caution plants count as pet warnings');
+
+  const soil = buildSitterSheet([plant('p', { databaseId: 'potus', waterMode: 'soil_check' })], [], window, 'warm', t);
+  assert(soil.groups[0].plants[0].careAction === '[en] Tocá la tierra.', 'SS.16: soil-check plants get the soil-check copy');
+  const dormant = buildSitterSheet([plant('p', { databaseId: 'potus' })], [], window, 'cold', t);
+  assert(dormant.groups[0].plants[0].fertilizeDate === null, 'SS.17: dormant plants are not fertilized');
+  assert(buildSitterSheet([], gardens, window, 'warm', t).groups.length === 0, 'SS.18: empty spaces are left out');
+}
+
+// ─── HTML ───
+{
+  const html = renderSitterSheetHtml(sheet, { t, locale: 'en', photos: { pothos: 'data:image/jpeg;base64,AAAA' }, generatedOn: '2026-10-18' });
+  assert(html.startsWith('<!DOCTYPE html>') && html.includes('<html lang="en">') && html.includes('<meta charset="utf-8">'), 'SS.19: a complete HTML document');
+  assert(!/<script|<link|https?:\/\//i.test(html), 'SS.20: self-contained — no scripts, stylesheets or remote resources');
+  assert(html.includes('src="data:image/jpeg;base64,AAAA"'), 'SS.21: photos are embedded as data URIs');
+  assert(html.includes('orphan &lt;b&gt;&amp;&lt;/b&gt;') && !html.includes('<b>&</b>'), 'SS.22: plant names are escaped');
+  assert(html.includes('sitterSheet.checkSoilOn') && html.includes('sitterSheet.waterOn') && html.includes('sitterSheet.noWater'), 'SS.23: watering, soil checks and nothing-due rows render');
+  assert(html.includes('toxicity.toxicForSpecies(species=toxicity.species.cats)') && html.includes('toxicity.cautionForSpecies(species=toxicity.species.dogs)'), 'SS.24: pet warnings per species');
+  assert(html.includes('sitterSheet.petSummary(count=1)') && html.includes('sitterSheet.intro(count=4'), 'SS.25: summary counts plants and pet warnings');
+  assert(html.includes('<h2>🏠 gardens.home</h2>') && html.includes('<h2>🌇 Balcón</h2>'), 'SS.26: space headings when there is more than one space');
+  const single = renderSitterSheetHtml(buildSitterSheet([plants[2]], [], window, 'warm', t), { t, locale: 'es', generatedOn: '2026-10-18' });
+  assert(!single.includes('<h2>') && !single.includes('class="alert"'), 'SS.27: one space and no toxic plants — no headings, no pet alert');
+  assert(escapeHtml(`"it's" <a>`) === '&quot;it&#39;s&quot; &lt;a&gt;', 'SS.28: escapeHtml covers quotes');
+  assert(getSitterSheetFileName('2026-10-18') === 'plant-sitter-sheet-2026-10-18.html', 'SS.29: dated .html file name');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-sitter-sheet] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-sitter-sheet] PASS ${pass}/${pass}`);
@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+// scripts/smoke-sync-fields.mjs
+// v1.3 (SYNC-01) cloud sync converter smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles migration + syncConverters and round-trips every synced field through its Supabase
+// row shape: v1.1+ plant fields, journals, diagnoses, shopping list, care log and settings.
+// Also checks the legacy-row upgrade. Merge rules live in smoke-sync-merge.mjs.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-sync-fields');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/migration.ts', 'migration.mjs');
+const convertersPath = compile('src/utils/syncConverters.ts', 'syncConverters.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+
+const {
+  plantToDb,
+  dbToPlant,
+  journalEntryToDb,
+  dbToJournalEntry,
+  diagnosisToDb,
+  dbToDiagnosis,
+  shoppingItemToDb,
+  dbToShoppingItem,
+  careEventToDb,
+  dbToCareEvent,
+  settingsToDb,
+  dbToSettings,
+  noteToDb,
+  dbToNote,
+  tombstoneToDb,
+  dbToTombstone,
+  flattenKeyed,
+  groupByKey,
+} = await import(convertersPath + '?t=' + Date.now());
+
+// Simulates what Supabase hands back: server columns added, JSON round trip.
+const NOW = new Date('2026-10-18T10:00:00Z');
+const asRow = (insert, extra = {}) => JSON.parse(JSON.stringify({ id: 'uuid', updated_at: NOW.toISOString(), ...insert, ...extra }));
+
+// ─── Fixtures ───
+const plant = {
+  id: 'p1',
+  name: 'Monstera',
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  databaseId: 'monstera',
+  sunDays: [1, 3],
+  outdoorDays: [],
+  lastWatered: '2026-10-10',
+  sunDoneDate: null,
+  outdoorDoneDate: '2026-10-12',
+  photos: [{ id: 'ph1', uri: 'file:///doc/plant-photos/p1/ph1.jpg', date: '2026-09-01' }],
+  humidity: 'alta',
+  favorite: true,
+  waterSchedule: { warm: 6, cold: 12 },
+  lightLevel: 'bright_indirect',
+  waterMode: 'soil_check',
+  fertilizeSchedule: { intervalDays: 30, lastFertilized: '2026-10-01' },
+  taskDeferrals: { water: { kind: 'snooze', dueDate: '2026-10-16', until: '2026-10-18', anchor: '2026-10-10' } },
+  gardenId: 'garden-1',
+  placement: 'covered_balcony',
+  lastRepotted: '2025-09-20',
+  updatedAt: '2026-10-16T08:00:00.000Z',
+};
+
+// ─── Plants ───
+{
+  const insert = plantToDb(plant, 'u1', NOW);
+  assert(!('water_every' in insert) && !('sun_hours' in insert), 'SY.1: legacy water_every / sun_hours are no longer written');
+  assert(insert.water_schedule.warm === 6 && insert.light_level === 'bright_indirect' && insert.water_mode === 'soil_check', 'SY.2: v1.1 care fields are written');
+  assert(insert.fertilize_schedule.intervalDays === 30 && insert.task_deferrals.water.kind === 'snooze' && insert.placement === 'covered_balcony' && insert.last_repotted === '2025-09-20', 'SY.3: fertilize, deferrals, placement and repotting are written');
+
+  const back = dbToPlant(asRow(insert, { water_every: null, sun_hours: null }));
+  assert(deepEqual(back, plant), 'SY.4: plant round-trips unchanged');
+  assert(back._migratedFromV0 === undefined, 'SY.5: current rows are not re-migrated');
+
+  const minimal = { ...plant, photos: undefined, humidity: undefined, favorite: undefined, databaseId: undefined, fertilizeSchedule: undefined, taskDeferrals: undefined, gardenId: undefined, placement: undefined, lastRepotted: undefined };
+  const minimalBack = dbToPlant(asRow(plantToDb(minimal, 'u1', NOW)));
+  assert(!('fertilizeSchedule' in minimalBack) && !('gardenId' in minimalBack) && !('placement' in minimalBack) && !('lastRepotted' in minimalBack), 'SY.6: absent optional fields stay absent (no nulls leak in)');
+}
+
+// ─── Legacy rows (synced by a pre-SYNC-01 build) ───
+{
+  const legacy = asRow(plantToDb({ ...plant, waterSchedule: undefined, lightLevel: undefined, waterMode: undefined }, 'u1', NOW), {
+    water_every: 5,
+    sun_hours: 6,
+    water_schedule: null,
+    light_level: null,
+    water_mode: null,
+  });
+  const upgraded = dbToPlant(legacy);
+  assert(upgraded.waterSchedule.warm === 5 && typeof upgraded.waterSchedule.cold === 'number', 'SY.7: legacy water_every becomes waterSchedule');
+  assert(upgraded.lightLevel === 'direct' && typeof upgraded.waterMode === 'string', 'SY.8: legacy sun_hours becomes lightLevel');
+}
+
+// ─── Journals, diagnoses, shopping, care log ───
+{
+  const journals = { p1: [
+    { id: '1', date: '2026-10-01', text: 'hojas nuevas', careTag: 'riego', updatedAt: '2026-10-01T08:00:00.000Z' },
+    { id: '2', date: '2026-10-02', updatedAt: '2026-10-02T08:00:00.000Z' },
+    { id: '3', date: '2026-10-03', photoUri: 'file:///journal/p1/3.jpg', photoRemotePath: 'u1/journal/p1/3.jpg', updatedAt: '2026-10-03T08:00:00.000Z' },
+  ] };
+  const rows = flattenKeyed(journals, (e, plantId) => asRow(journalEntryToDb(e, plantId, 'u1', NOW)));
+  const back = groupByKey(rows, r => r.plant_local_id, dbToJournalEntry);
+  assert(deepEqual(back, journals), 'SY.9: journal entries round-trip per plant, photo bucket path and last edit included (empty fields stay absent)');
+
+  const diagnosis = {
+    id: 'd1', plantId: 'p1', date: '2026-10-05', imageUri: null,
+    result: { status: 'warning', summary: 'manchas' }, context: {}, chat: [{ role: 'user', text: 'hola' }],
+    resolved: false, resolvedDate: null, isTracked: true, trackingStatus: 'watching', followUpDate: '2026-10-12',
+    entries: [{ date: '2026-10-08', status: 'watching' }], updatedAt: '2026-10-08T08:00:00.000Z',
+  };
+  const dRow = asRow(diagnosisToDb(diagnosis, 'p1', 'u1', NOW));
+  assert(dRow.resolved === false && dRow.plant_local_id === 'p1', 'SY.10: diagnosis columns mirror the payload');
+  assert(deepEqual(dbToDiagnosis(dRow), diagnosis), 'SY.11: diagnosis round-trips with chat and tracking');
+
+  const item = { id: 's1', text: 'fungicida', diagnosisId: 'd1', plantId: 'p1', plantName: 'Monstera', checked: true, createdAt: '2026-10-05T12:00:00.000Z', updatedAt: '2026-10-06T12:00:00.000Z' };
+  assert(deepEqual(dbToShoppingItem(asRow(shoppingItemToDb(item, 'u1', NOW))), item), 'SY.12: shopping items round-trip with their last edit');
+
+  const events = [
+    { id: 'e1', type: 'water', date: '2026-10-10', timestamp: '2026-10-10T09:00:00.000Z', source: 'task' },
+    { id: 'e2', type: 'water', date: '2026-10-10', timestamp: '2026-10-10T09:01:00.000Z', source: 'undo', undoes: 'e1' },
+  ];
+  const eBack = groupByKey(flattenKeyed({ p1: events }, (e, id) => asRow(careEventToDb(e, id, 'u1'))), r => r.plant_local_id, dbToCareEvent);
+  assert(deepEqual(eBack.p1, events), 'SY.13: care events round-trip, undo links included');
+}
+
+// ─── Settings ───
+const cloud = (overrides = {}) => ({
+  plants: [plant],
+  notes: {},
+  reminders: {},
+  location: { lat: -34.6, lon: -58.4, name: 'Buenos Aires', country: 'AR' },
+  notificationSettings: { enabled: true, morningReminder: true, morningTime: '07:30', weatherAlerts: true, careReminders: false, fertilizeReminders: true, weeklySummary: true },
+  plantNetApiKey: null,
+  gardens: [],
+  climateOverride: 'southern',
+  journals: {},
+  diagnosisHistory: {},
+  shoppingList: [],
+  careLog: {},
+  ...overrides,
+});
+{
+  const s = dbToSettings(asRow(settingsToDb(cloud(), 'u1', NOW)));
+  assert(s.climateOverride === 'southern', 'SY.14: climate override round-trips');
+  assert(s.notificationSettings.fertilizeReminders === true && s.notificationSettings.weeklySummary === true && s.notificationSettings.morningTime === '07:30', 'SY.15: fertilize reminder and weekly summary opt-ins round-trip');
+  const old = dbToSettings(asRow(settingsToDb(cloud(), 'u1', NOW), { climate_override: null, notification_fertilize_reminders: null, notification_weekly_summary: null }));
+  assert(old.climateOverride === 'auto' && old.notificationSettings.fertilizeReminders === false && old.notificationSettings.weeklySummary === false, 'SY.16: settings rows without the new columns default safely');
+}
+
+// ─── v1.3 (SYNC-02) timestamps + tombstones ───
+{
+  const note = { id: 'n1', text: 'rotar', createdAt: '2026-10-01T10:00:00.000Z', updatedAt: '2026-10-02T10:00:00.000Z' };
+  assert(deepEqual(dbToNote(asRow(noteToDb(note, '2026-10-01', 'u1', NOW), { created_at: note.createdAt })), note), 'SY.17: note updatedAt round-trips');
+  const legacyNote = asRow(noteToDb({ id: 'n2', text: 'x', createdAt: '' }, '2026-10-01', 'u1', NOW), { updated_at: null });
+  assert(!('updatedAt' in dbToNote(legacyNote)), 'SY.18: rows without updated_at stay unstamped');
+  const tombstone = { kind: 'plant', id: 'p9', deletedAt: '2026-10-17T10:00:00.000Z' };
+  assert(deepEqual(dbToTombstone(asRow(tombstoneToDb(tombstone, 'u1'))), tombstone), 'SY.19: tombstones round-trip');
+}
+
+function deepEqual(a, b) {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+function sortKeys(value) {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).filter(k => value[k] !== undefined).sort().map(k => [k, sortKeys(value[k])]));
+  }
+  return value;
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-sync-fields] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-sync-fields] PASS ${pass}/${pass}`);
@@ -0,0 +1,365 @@
+#!/usr/bin/env node
+// scripts/smoke-sync-merge.mjs
+// v1.3 (SYNC-02) two-way sync merge smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles syncMerge and runs fixture scenarios for two devices on one account: local
+// stamping, tombstones, last-writer-wins, the plant field merge, incremental upload sets and
+// convergence (A⊕B == B⊕A).
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-sync-merge');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const mergePath = compile('src/utils/syncMerge.ts', 'syncMerge.mjs');
+const {
+  TOMBSTONE_TTL_DAYS,
+  stampRecords,
+  stampDatedRecords,
+  recordDeletions,
+  recordPerPlantDeletions,
+  mergeTombstones,
+  mergeCloudData,
+  changedSince,
+  changedSinceDated,
+  careEventsSince,
+  tombstonesSince,
+} = await import(mergePath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const T = (hh) => `2026-10-18T${String(hh).padStart(2, '0')}:00:00.000Z`;
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  waterSchedule: { warm: 7, cold: 14 },
+  lightLevel: 'bright_indirect',
+  waterMode: 'fixed',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: '2026-10-10',
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  ...overrides,
+});
+const appData = (overrides = {}) => ({
+  plants: [],
+  notes: {},
+  reminders: {},
+  location: null,
+  onboardingCompleted: true,
+  userName: null,
+  notificationSettings: null,
+  plantNetApiKey: null,
+  installDate: '2026-01-01',
+  identificationCount: 0,
+  diagnosisCount: 0,
+  diagnosisHistory: {},
+  shoppingList: [],
+  climateOverride: 'auto',
+  journals: {},
+  careLog: {},
+  vacation: null,
+  gardens: [],
+  activeGardenId: 'home',
+  syncTombstones: [],
+  ...overrides,
+});
+const cloud = (overrides = {}) => ({
+  plants: [],
+  notes: {},
+  reminders: {},
+  location: null,
+  notificationSettings: null,
+  plantNetApiKey: null,
+  gardens: [],
+  climateOverride: null,
+  journals: {},
+  diagnosisHistory: {},
+  shoppingList: [],
+  careLog: {},
+  tombstones: [],
+  ...overrides,
+});
+// What a device uploads: its whole synced slice.
+const toCloud = (d) => cloud({
+  plants: d.plants, notes: d.notes, reminders: d.reminders, gardens: d.gardens,
+  climateOverride: d.climateOverride, journals: d.journals, diagnosisHistory: d.diagnosisHistory,
+  shoppingList: d.shoppingList, careLog: d.careLog, tombstones: d.syncTombstones,
+});
+const ids = (list) => list.map(p => p.id).sort().join();
+
+// ─── Local stamping ───
+{
+  const a = plant('a', { updatedAt: T(1) });
+  const b = plant('b', { updatedAt: T(1) });
+  const next = stampRecords([a, b], [a, { ...b, name: 'renamed' }, plant('c')], T(5));
+  assert(next[0] === a, 'SM.1: untouched records keep their object and timestamp');
+  assert(next[1].updatedAt === T(5) && next[2].updatedAt === T(5), 'SM.2: edited and new records are stamped');
+
+  const notes = { '2026-10-01': [{ id: 'n1', text: 'x', createdAt: '' }] };
+  const stampedNotes = stampDatedRecords(notes, { ...notes, '2026-10-02': [{ id: 'n2', text: 'y', createdAt: '' }] }, T(5));
+  assert(stampedNotes['2026-10-01'] === notes['2026-10-01'] && stampedNotes['2026-10-02'][0].updatedAt === T(5), 'SM.3: only the touched date is re-stamped');
+
+  const tombs = recordDeletions([], 'plant', [a, b], [a], T(6));
+  assert(tombs.length === 1 && tombs[0].id === 'b' && tombs[0].deletedAt === T(6), 'SM.4: deleting a record leaves a tombstone');
+  const same = [];
+  assert(recordDeletions(same, 'plant', [a], [a], T(6)) === same, 'SM.5: no deletion → same tombstone array');
+}
+
+// ─── Deletion propagates instead of resurrecting ───
+{
+  // Both phones had p1 + p2. Phone A deleted p2 at 10:00; phone B never touched it.
+  const p1 = plant('p1', { updatedAt: T(1) });
+  const p2 = plant('p2', { updatedAt: T(1) });
+  const phoneA = appData({ plants: [p1], syncTombstones: [{ kind: 'plant', id: 'p2', deletedAt: T(10) }] });
+  const phoneB = appData({
+    plants: [p1, p2],
+    journals: { p2: [{ id: 'j1', date: '2026-10-01' }] },
+    careLog: { p2: [{ id: 'e1', type: 'water', date: '2026-10-01', timestamp: T(0), source: 'task' }] },
+  });
+  const merged = mergeCloudData(phoneB, toCloud(phoneA), NOW);
+  assert(ids(merged.plants) === 'p1', 'SM.6: tombstoned plant is dropped on the other phone');
+  assert(!merged.journals.p2 && !merged.careLog.p2, 'SM.7: its journal and care history go with it');
+  assert(merged.syncTombstones.length === 1, 'SM.8: the tombstone is kept so the next upload carries it');
+
+  // B edited p2 AFTER A deleted it → the edit wins.
+  const edited = appData({ plants: [p1, { ...p2, name: 'still here', updatedAt: T(11) }] });
+  const revived = mergeCloudData(edited, toCloud(phoneA), NOW);
+  assert(ids(revived.plants) === 'p1,p2' && revived.syncTombstones.length === 0, 'SM.9: an edit after the deletion revives the record and drops the tombstone');
+}
+
+// ─── Last writer wins (notes / reminders) ───
+{
+  const older = { id: 'n1', text: 'old', createdAt: '', updatedAt: T(2) };
+  const newer = { id: 'n1', text: 'new', createdAt: '', updatedAt: T(3) };
+  const fromLocal = mergeCloudData(appData({ notes: { '2026-10-01': [newer] } }), cloud({ notes: { '2026-10-01': [older] } }), NOW);
+  const fromRemote = mergeCloudData(appData({ notes: { '2026-10-01': [older] } }), cloud({ notes: { '2026-10-01': [newer] } }), NOW);
+  assert(fromLocal.notes['2026-10-01'][0].text === 'new' && fromRemote.notes['2026-10-01'][0].text === 'new', 'SM.10: newer note wins from either side');
+
+  const r1 = { id: 'r1', text: 'a', time: '09:00', done: false };
+  const r2 = { id: 'r1', text: 'b', time: '09:00', done: false };
+  const x = mergeCloudData(appData({ reminders: { d: [r1] } }), cloud({ reminders: { d: [r2] } }), NOW);
+  const y = mergeCloudData(appData({ reminders: { d: [r2] } }), cloud({ reminders: { d: [r1] } }), NOW);
+  assert(x.reminders.d[0].text === y.reminders.d[0].text, 'SM.11: unstamped ties resolve the same way on both phones');
+
+  const delNote = mergeCloudData(
+    appData({ notes: { '2026-10-01': [older] } }),
+    cloud({ tombstones: [{ kind: 'note', id: 'n1', deletedAt: T(4) }] }),
+    NOW
+  );
+  assert(!delNote.notes['2026-10-01'] || delNote.notes['2026-10-01'].length === 0, 'SM.12: note tombstones delete notes');
+}
+
+// ─── Plant field merge ───
+{
+  // A renamed at 09:00; B watered at 08:00 (older write, newer care date).
+  const renamed = plant('p1', { name: 'Monstera grande', lastWatered: '2026-10-10', updatedAt: T(9) });
+  const watered = plant('p1', { lastWatered: '2026-10-18', updatedAt: T(8), fertilizeSchedule: { intervalDays: 30, lastFertilized: '2026-10-18' }, lastRepotted: '2026-10-17' });
+  const withSchedule = { ...renamed, fertilizeSchedule: { intervalDays: 30, lastFertilized: '2026-09-01' } };
+  const merged = mergeCloudData(appData({ plants: [withSchedule] }), cloud({ plants: [watered] }), NOW).plants[0];
+  assert(merged.name === 'Monstera grande', 'SM.13: the newer write keeps its fields');
+  assert(merged.lastWatered === '2026-10-18' && merged.fertilizeSchedule.lastFertilized === '2026-10-18' && merged.lastRepotted === '2026-10-17', 'SM.14: care dates keep the latest from either side');
+}
+
+// ─── Incremental sets ───
+{
+  const since = T(5);
+  const list = [plant('a', { updatedAt: T(4) }), plant('b', { updatedAt: T(6) }), plant('legacy')];
+  assert(ids(changedSince(list, since)) === 'b', 'SM.15: only records edited after the cursor are uploaded');
+  assert(changedSince(list, null).length === 3, 'SM.16: first sync uploads everything, legacy records included');
+  const notes = { d1: [{ id: 'n1', updatedAt: T(4) }], d2: [{ id: 'n2', updatedAt: T(7) }] };
+  assert(Object.keys(changedSinceDated(notes, since)).join() === 'd2', 'SM.17: dates with no changes are left out');
+  assert(tombstonesSince([{ kind: 'plant', id: 'x', deletedAt: T(4) }, { kind: 'plant', id: 'y', deletedAt: T(6) }], since).length === 1, 'SM.18: only new tombstones are uploaded');
+
+  // Incremental download: absence is not deletion.
+  const local = appData({ plants: [plant('a'), plant('b')] });
+  const partial = mergeCloudData(local, cloud({ plants: [plant('c', { updatedAt: T(6) })] }), NOW);
+  assert(ids(partial.plants) === 'a,b,c', 'SM.19: records missing from a partial download are kept');
+
+  const careLog = { a: [{ id: 'e1', timestamp: T(4) }, { id: 'e2', timestamp: T(6) }], b: [{ id: 'e3', timestamp: T(3) }] };
+  const pending = careEventsSince(careLog, since);
+  assert(Object.keys(pending).join() === 'a' && ids(pending.a) === 'e2', 'SM.39: only care events logged after the cursor are uploaded');
+  assert(careEventsSince(careLog, null) === careLog, 'SM.40: first sync uploads the whole care history');
+
+  // The download overlap window brings back events this phone already has.
+  const event = (id, ts) => ({ id, type: 'water', date: ts.slice(0, 10), timestamp: ts, source: 'task' });
+  const withEvents = appData({ plants: [plant('a')], careLog: { a: [event('e1', T(4)), event('e2', T(6))] } });
+  const overlap = mergeCloudData(withEvents, cloud({ careLog: { a: [event('e2', T(6)), event('e4', T(7))] } }), NOW);
+  assert(ids(overlap.careLog.a) === 'e1,e2,e4', 'SM.41: care events read twice by the overlap window are kept once');
+}
+
+// ─── Tombstone pruning ───
+{
+  const old = new Date(NOW.getTime() - (TOMBSTONE_TTL_DAYS + 1) * 86400000).toISOString();
+  const kept = mergeTombstones([{ kind: 'plant', id: 'old', deletedAt: old }], [{ kind: 'plant', id: 'new', deletedAt: T(1) }, { kind: 'plant', id: 'new', deletedAt: T(2) }], NOW);
+  assert(kept.length === 1 && kept[0].id === 'new' && kept[0].deletedAt === T(2), 'SM.20: expired tombstones are pruned; the latest deletion wins');
+}
+
+// ─── Convergence: two phones end up identical ───
+{
+  const base = [plant('p1', { updatedAt: T(1) }), plant('p2', { updatedAt: T(1) }), plant('p3', { updatedAt: T(1) })];
+  const phoneA = appData({
+    plants: [{ ...base[0], name: 'A rename', updatedAt: T(3) }, base[1]],
+    syncTombstones: [{ kind: 'plant', id: 'p3', deletedAt: T(2) }],
+    notes: { d: [{ id: 'nA', text: 'from A', createdAt: '', updatedAt: T(2) }] },
+  });
+  const phoneB = appData({
+    plants: [{ ...base[0], lastWatered: '2026-10-18', updatedAt: T(2) }, { ...base[1], name: 'B rename', updatedAt: T(4) }, base[2], plant('p4', { updatedAt: T(5) })],
+    notes: { d: [{ id: 'nB', text: 'from B', createdAt: '', updatedAt: T(3) }] },
+  });
+  // A downloads B's state, B downloads A's state.
+  const aAfter = mergeCloudData(phoneA, toCloud(phoneB), NOW);
+  const bAfter = mergeCloudData(phoneB, toCloud(phoneA), NOW);
+  const canon = (d) => JSON.stringify({
+    plants: [...d.plants].sort((x, y) => x.id.localeCompare(y.id)),
+    notes: Object.fromEntries(Object.entries(d.notes).map(([k, v]) => [k, [...v].sort((x, y) => x.id.localeCompare(y.id))])),
+    tombstones: d.syncTombstones,
+  });
+  assert(canon(aAfter) === canon(bAfter), 'SM.21: both phones converge to the same plants, notes and tombstones');
+  assert(ids(aAfter.plants) === 'p1,p2,p4', 'SM.22: the deleted plant stays deleted on both');
+  const p1 = aAfter.plants.find(p => p.id === 'p1');
+  assert(p1.name === 'A rename' && p1.lastWatered === '2026-10-18', 'SM.23: rename on A and watering on B both survive');
+}
+
+// ─── Other collections + settings ───
+{
+  const local = appData({
+    plants: [plant('p1')],
+    location: { lat: 1, lon: 1, name: 'Local', country: 'AR' },
+    plantNetApiKey: 'local-key',
+    climateOverride: 'southern',
+    shoppingList: [{ id: 's1', text: 'local', diagnosisId: 'd', plantId: 'p1', plantName: 'p1', checked: true, createdAt: '', updatedAt: T(5) }],
+    journals: { p1: [{ id: '2', date: '2026-10-02', updatedAt: T(3) }] },
+  });
+  const merged = mergeCloudData(local, cloud({
+    plants: [plant('p1')],
+    journals: { p1: [{ id: '1', date: '2026-10-01', updatedAt: T(1) }, { id: '2', date: '2026-10-02', text: 'cloud copy', updatedAt: T(4) }] },
+    shoppingList: [{ id: 's1', text: 'cloud', diagnosisId: 'd', plantId: 'p1', plantName: 'p1', checked: false, createdAt: '', updatedAt: T(4) }],
+  }), NOW);
+  assert(merged.journals.p1.map(j => j.id).join() === '1,2' && merged.journals.p1[1].text === 'cloud copy', 'SM.24: journals merge by id in date order; the newer copy of an entry wins');
+  assert(merged.shoppingList.length === 1 && merged.shoppingList[0].checked === true, 'SM.25: the newer copy of a shopping item wins');
+  assert(merged.location.name === 'Local' && merged.plantNetApiKey === 'local-key' && merged.climateOverride === 'southern', 'SM.26: settings missing in the cloud keep local values');
+  assert(ids(mergeCloudData(local, cloud(), NOW).plants) === 'p1', 'SM.27: an empty cloud account leaves local plants alone');
+}
+
+// ─── Spaces: newer edit wins (GARDEN-01) ───
+{
+  const space = (name, updatedAt) => ({ id: 'g1', name, icon: '🌇', location: null, climateOverride: 'auto', updatedAt });
+  const newerLocal = mergeCloudData(appData({ gardens: [space('Terraza', T(5))] }), cloud({ gardens: [space('Balcón', T(3))] }), NOW);
+  const newerRemote = mergeCloudData(appData({ gardens: [space('Terraza', T(3))] }), cloud({ gardens: [space('Balcón', T(5))] }), NOW);
+  assert(newerLocal.gardens[0].name === 'Terraza' && newerRemote.gardens[0].name === 'Balcón', 'SM.28: a space renamed on two phones keeps the newer name');
+}
+
+// ─── Journals, diagnoses and shopping items edited on two phones (newer edit wins) ───
+{
+  const entry = (text, updatedAt) => ({ id: 'j1', date: '2026-10-01', text, photoUri: 'file:///journal/p1/j1.jpg', updatedAt });
+  const diagnosis = (resolved, updatedAt) => ({
+    id: 'd1', plantId: 'p1', date: '2026-10-05', imageUri: null, result: { status: 'warning' }, context: {}, chat: [],
+    resolved, resolvedDate: resolved ? '2026-10-18' : null, updatedAt,
+  });
+  const item = (checked, updatedAt) => ({ id: 's1', text: 'abono', diagnosisId: 'd1', plantId: 'p1', plantName: 'p1', checked, createdAt: '', updatedAt });
+  const phoneA = appData({
+    plants: [plant('p1')],
+    journals: { p1: [entry('texto en A', T(3))] },
+    diagnosisHistory: { p1: [diagnosis(true, T(5))] },
+    shoppingList: [item(false, T(3))],
+  });
+  const phoneB = appData({
+    plants: [plant('p1')],
+    journals: { p1: [{ ...entry('texto en B', T(5)), photoRemotePath: 'u1/journal/p1/j1.jpg' }] },
+    diagnosisHistory: { p1: [diagnosis(false, T(3))] },
+    shoppingList: [item(true, T(5))],
+  });
+  const onA = mergeCloudData(phoneA, toCloud(phoneB), NOW);
+  const onB = mergeCloudData(phoneB, toCloud(phoneA), NOW);
+  assert(onA.journals.p1[0].text === 'texto en B' && onB.journals.p1[0].text === 'texto en B', 'SM.33: a journal entry edited on two phones keeps the newer text on both');
+  assert(onA.diagnosisHistory.p1[0].resolved && onB.diagnosisHistory.p1[0].resolved, 'SM.34: a diagnosis resolved on one phone and edited earlier on the other stays resolved on both');
+  assert(onA.shoppingList[0].checked && onB.shoppingList[0].checked, 'SM.35: a shopping item checked later on the other phone is checked on both');
+
+  const olderPath = mergeCloudData(
+    appData({ plants: [plant('p1')], journals: { p1: [entry('nuevo', T(6))] } }),
+    toCloud(phoneB),
+    NOW
+  );
+  assert(olderPath.journals.p1[0].text === 'nuevo' && olderPath.journals.p1[0].photoRemotePath === 'u1/journal/p1/j1.jpg', 'SM.36: the winning entry keeps the photo path the other phone uploaded');
+
+  const revived = mergeCloudData(
+    appData({ plants: [plant('p1')], syncTombstones: [{ kind: 'journal', id: 'j1', deletedAt: T(4) }] }),
+    toCloud(phoneB),
+    NOW
+  );
+  assert(revived.journals.p1[0].text === 'texto en B' && revived.syncTombstones.length === 0, 'SM.37: a journal entry edited after its deletion is kept and the tombstone dropped');
+
+  const event = (id, source) => ({ id, type: 'water', date: '2026-10-10', timestamp: '2026-10-10T09:00:00.000Z', source });
+  const care = mergeCloudData(
+    appData({ plants: [plant('p1')], careLog: { p1: [event('e1', 'task')] } }),
+    cloud({ plants: [plant('p1')], careLog: { p1: [event('e1', 'quick'), event('e2', 'task')] } }),
+    NOW
+  );
+  assert(care.careLog.p1.map(e => `${e.id}:${e.source}`).join() === 'e1:task,e2:task', 'SM.38: care history stays a union by id, local copy first');
+}
+
+// ─── Deletions of journals, shopping items and spaces ───
+{
+  const j1 = { id: 'j1', date: '2026-10-01' };
+  const j2 = { id: 'j2', date: '2026-10-02' };
+  const tombs = recordPerPlantDeletions([], 'journal', { p1: [j1, j2], gone: [j1] }, { p1: [j1] }, new Set(['p1']), T(6));
+  assert(tombs.length === 1 && tombs[0].kind === 'journal' && tombs[0].id === 'j2', 'SM.29: a deleted journal entry leaves a tombstone; a deleted plant\'s entries do not');
+
+  const item = { id: 's1', text: 'abono', diagnosisId: 'd', plantId: 'p1', plantName: 'p1', checked: false, createdAt: '' };
+  const merged = mergeCloudData(
+    appData({ plants: [plant('p1')], syncTombstones: [{ kind: 'journal', id: 'j2', deletedAt: T(6) }, { kind: 'shopping', id: 's1', deletedAt: T(6) }] }),
+    cloud({ plants: [plant('p1')], journals: { p1: [j1, j2] }, shoppingList: [item] }),
+    NOW
+  );
+  assert(merged.journals.p1.map(j => j.id).join() === 'j1' && merged.shoppingList.length === 0, 'SM.30: tombstoned journal entries and shopping items are not brought back');
+
+  const space = (updatedAt) => ({ id: 'g1', name: 'Terraza', icon: '🌇', location: null, climateOverride: 'auto', updatedAt });
+  const tombstone = { kind: 'garden', id: 'g1', deletedAt: T(4) };
+  assert(mergeCloudData(appData({ syncTombstones: [tombstone] }), cloud({ gardens: [space(T(3))] }), NOW).gardens.length === 0, 'SM.31: a deleted space stays deleted');
+  assert(mergeCloudData(appData({ syncTombstones: [tombstone] }), cloud({ gardens: [space(T(5))] }), NOW).gardens.length === 1, 'SM.32: a space edited after the deletion is kept');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-sync-merge] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-sync-merge] PASS ${pass}/${pass}`);
@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+// scripts/smoke-sync-outbox.mjs
+// v1.3 (SYNC-04) offline sync outbox smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles syncOutbox and checks: which records a store change queues, coalescing, retry
+// backoff, network vs server failures, and "retry now".
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-sync-outbox');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const outboxPath = compile('src/utils/syncOutbox.ts', 'syncOutbox.mjs');
+const {
+  outboxKey,
+  diffCloudData,
+  enqueueChanges,
+  retryDelayMs,
+  markFailed,
+  dueEntries,
+  nextRetryAt,
+  retryAllNow,
+  resetOfflineBackoff,
+  isNetworkError,
+  failedEntries,
+} = await import(outboxPath + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const plant = (id, extra = {}) => ({ id, name: `Planta ${id}`, typeId: 'interior', ...extra });
+const baseData = () => {
+  const p1 = plant('p1');
+  const p2 = plant('p2');
+  return {
+    plants: [p1, p2],
+    notes: { '2026-10-18': [{ id: 'n1', text: 'Regar el helecho' }] },
+    reminders: {},
+    gardens: [],
+    journals: { p1: [{ id: 'j1', date: '2026-10-01' }], p2: [{ id: 'j2', date: '2026-10-02' }] },
+    diagnosisHistory: {},
+    careLog: { p1: [{ id: 'c1', type: 'water' }] },
+    shoppingList: [],
+    location: null,
+    notificationSettings: { enabled: true },
+    plantNetApiKey: null,
+    climateOverride: null,
+  };
+};
+
+// ─── Diff ───
+{
+  const prev = baseData();
+  assert(diffCloudData(prev, { ...prev }).length === 0, 'SO.1: unchanged records queue nothing');
+
+  const watered = { ...prev.plants[0], lastWatered: '2026-10-18' };
+  const next = { ...prev, plants: [watered, prev.plants[1]] };
+  const changes = diffCloudData(prev, next);
+  assert(changes.length === 1 && changes[0].kind === 'plant' && changes[0].op === 'upsert' && changes[0].recordId === 'p1',
+    'SO.2: replacing one plant queues only that plant');
+  assert(changes[0].label === 'Planta p1', 'SO.3: plant changes carry the plant name as label');
+}
+{
+  const prev = baseData();
+  const moved = { ...prev, notes: { '2026-10-19': prev.notes['2026-10-18'] } };
+  assert(diffCloudData(prev, moved).length === 0, 'SO.4: a note moved to another day (same record) queues nothing');
+  const edited = { ...prev, notes: { '2026-10-19': [{ id: 'n1', text: 'Regar el helecho y la monstera' }] } };
+  const changes = diffCloudData(prev, edited);
+  assert(changes.length === 1 && changes[0].kind === 'note' && changes[0].op === 'upsert', 'SO.5: an edited note is an upsert, not delete + insert');
+  const long = { ...prev, notes: { '2026-10-18': [{ id: 'n1', text: 'x'.repeat(80) }] } };
+  assert(diffCloudData(prev, long)[0].label.length === 40, 'SO.6: long note labels are shortened');
+}
+{
+  const prev = baseData();
+  const next = { ...prev, plants: [prev.plants[0]], journals: { p1: prev.journals.p1 }, careLog: prev.careLog };
+  const changes = diffCloudData(prev, next);
+  assert(changes.length === 1 && changes[0].kind === 'plant' && changes[0].op === 'delete' && changes[0].recordId === 'p2',
+    'SO.7: deleting a plant queues its delete and not its journal entries');
+}
+{
+  const prev = baseData();
+  const next = { ...prev, careLog: { p1: [...prev.careLog.p1, { id: 'c2', type: 'fertilize' }] } };
+  const changes = diffCloudData(prev, next);
+  assert(changes.length === 1 && changes[0].kind === 'care_event' && changes[0].plantId === 'p1' && changes[0].recordId === 'c2',
+    'SO.8: a new care event is queued with its plant');
+  assert(changes[0].label === 'Planta p1', 'SO.9: per-plant records are labelled with the plant name');
+  assert(outboxKey(changes[0]) === 'care_event:p1:c2', 'SO.10: per-plant keys include the plant id');
+}
+{
+  const prev = baseData();
+  const next = { ...prev, notificationSettings: { enabled: false } };
+  const changes = diffCloudData(prev, next);
+  assert(changes.length === 1 && changes[0].kind === 'settings' && outboxKey(changes[0]) === 'settings:settings',
+    'SO.11: a settings change queues one settings entry');
+}
+
+// ─── Queue ───
+{
+  const change = (id, op = 'upsert') => ({ kind: 'plant', op, recordId: id, plantId: null, label: id });
+  let outbox = enqueueChanges([], [change('p1'), change('p2')], NOW);
+  assert(outbox.length === 2 && outbox[0].queuedAt === NOW.toISOString(), 'SO.12: new changes are appended with queuedAt');
+  outbox = outbox.map(e => (e.recordId === 'p1' ? markFailed(e, 'boom', NOW) : e));
+  const later = new Date(NOW.getTime() + 60 * 1000);
+  outbox = enqueueChanges(outbox, [change('p1', 'delete')], later);
+  assert(outbox.length === 2 && outbox[0].recordId === 'p1', 'SO.13: a re-queued record keeps its place in line');
+  assert(outbox[0].op === 'delete' && outbox[0].attempts === 0 && outbox[0].lastError === null && outbox[0].nextAttemptAt === null,
+    'SO.14: the latest op wins and retry state resets');
+  assert(outbox[0].queuedAt === NOW.toISOString(), 'SO.15: coalescing keeps the original queuedAt');
+  assert(enqueueChanges(outbox, [], NOW) === outbox, 'SO.16: no changes returns the same outbox');
+}
+
+// ─── Backoff ───
+{
+  assert(retryDelayMs(1) === 5000 && retryDelayMs(2) === 10000 && retryDelayMs(3) === 20000, 'SO.17: backoff doubles from 5 s');
+  assert(retryDelayMs(30) === 15 * 60 * 1000, 'SO.18: backoff caps at 15 min');
+
+  const [entry] = enqueueChanges([], [{ kind: 'note', op: 'upsert', recordId: 'n1', plantId: null, label: null }], NOW);
+  const failed = markFailed(entry, 'permission denied', NOW);
+  assert(failed.attempts === 1 && failed.nextAttemptAt === '2026-10-18T12:00:05.000Z', 'SO.19: markFailed schedules the next attempt');
+  assert(dueEntries([failed], NOW).length === 0, 'SO.20: a backed-off entry is not due yet');
+  assert(dueEntries([failed], new Date('2026-10-18T12:00:05.000Z')).length === 1, 'SO.21: it is due once its time comes');
+  assert(nextRetryAt([entry, failed]) === failed.nextAttemptAt && nextRetryAt([entry]) === null, 'SO.22: nextRetryAt picks the earliest scheduled retry');
+
+  const retried = retryAllNow([failed]);
+  assert(retried[0].nextAttemptAt === null && retried[0].attempts === 1, 'SO.23: retry now makes entries due and keeps attempts');
+}
+
+// ─── Failures ───
+{
+  assert(isNetworkError('TypeError: Network request failed'), 'SO.24: RN fetch failure is a network error');
+  assert(isNetworkError('Failed to fetch') && isNetworkError('Request timed out'), 'SO.25: fetch and timeout failures are network errors');
+  assert(!isNetworkError('new row violates row-level security policy') && !isNetworkError(null), 'SO.26: server rejections are not network errors');
+
+  const base = enqueueChanges([], [
+    { kind: 'plant', op: 'upsert', recordId: 'p1', plantId: null, label: 'a' },
+    { kind: 'plant', op: 'upsert', recordId: 'p2', plantId: null, label: 'b' },
+    { kind: 'plant', op: 'upsert', recordId: 'p3', plantId: null, label: 'c' },
+  ], NOW);
+  const outbox = [markFailed(base[0], 'Network request failed', NOW), markFailed(base[1], 'value too long', NOW), base[2]];
+  const failed = failedEntries(outbox);
+  assert(failed.length === 1 && failed[0].recordId === 'p2', 'SO.27: only server rejections are listed as failures');
+
+  const reset = resetOfflineBackoff(outbox);
+  assert(reset[0].attempts === 0 && reset[0].nextAttemptAt === null && reset[0].lastError === null, 'SO.28: back online, offline entries are due and their backoff starts over');
+  assert(reset[1] === outbox[1] && reset[2] === outbox[2], 'SO.29: rejected and untouched entries keep their state');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-sync-outbox] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-sync-outbox] PASS ${pass}/${pass}`);
@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+// scripts/smoke-task-deferral.mjs
+// v1.3 (SNOOZE-01) skip/snooze smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + taskDeferral + plantLogic + plantHealth and checks that deferrals move
+// getNextWaterDate / getNextFertilizeDate and never surface as overdue health issues.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-task-deferral');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Stubs (auto-written — gitignored) ───
+writeFileSync(resolve(TMP_DIR, 'i18n.mjs'),
+  `// SNOOZE-01 smoke stub for ../i18n. Auto-written.\n` +
+  `export default { t: (key, opts) => (opts && opts.defaultValue) || key, on: () => {}, language: 'es' };\n`
+);
+writeFileSync(resolve(TMP_DIR, 'plantDatabase.mjs'),
+  `// SNOOZE-01 smoke stub for ../data/plantDatabase. Auto-written — no catalog needed.\n` +
+  `export function getCatalogEntry() { return null; }\n`
+);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+const deferralPath = compile('src/utils/taskDeferral.ts', 'taskDeferral.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+const logicPath = compile('src/utils/plantLogic.ts', 'plantLogic.mjs', [
+  ['from "./dates"', 'from "./dates.mjs"'],
+  ['from "./taskDeferral"', 'from "./taskDeferral.mjs"'],
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+  ['from "../i18n"', 'from "./i18n.mjs"'],
+]);
+compile('src/utils/migration.ts', 'migration.mjs');
+compile('src/utils/lightLabel.ts', 'lightLabel.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+compile('src/utils/placement.ts', 'placement.mjs', [
+  ["from './lightLabel'", "from './lightLabel.mjs'"],
+]);
+const healthPath = compile('src/utils/plantHealth.ts', 'plantHealth.mjs', [
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './taskDeferral'", "from './taskDeferral.mjs'"],
+  ["from './placement'", "from './placement.mjs'"],
+  ["from '../data/plantDatabase'", "from './plantDatabase.mjs'"],
+  ["from '../i18n'", "from './i18n.mjs'"],
+]);
+
+const { buildTaskDeferral, getActiveDeferral, isDeferralPending } = await import(deferralPath + '?t=' + Date.now());
+const { getNextWaterDate, getNextFertilizeDate, getTasksForDay } = await import(logicPath + '?t=' + Date.now());
+const { calculatePlantHealth } = await import(healthPath + '?t=' + Date.now());
+const { formatDate, parseDate } = await import(resolve(TMP_DIR, 'dates.mjs'));
+
+// ─── Fixtures ───
+const day = (s) => parseDate(s); // local midnight, matches how calendar days are compared
+const plant = (overrides = {}) => ({
+  id: 'p1',
+  name: 'Potus',
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: '2026-03-01',
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  waterMode: 'fixed',
+  waterSchedule: { warm: 7, cold: 14 },
+  ...overrides,
+});
+const withDeferral = (p, task, kind, due, days) => ({
+  ...p,
+  taskDeferrals: { ...p.taskDeferrals, [task]: buildTaskDeferral(p, task, kind, day(due), days) },
+});
+
+// ─── buildTaskDeferral / getActiveDeferral ───
+{
+  const p = plant();
+  const d = buildTaskDeferral(p, 'water', 'snooze', day('2026-03-08'), 2);
+  assert(d.dueDate === '2026-03-08' && d.until === '2026-03-10', 'TD.1: snooze moves due day forward by N days');
+  assert(d.anchor === '2026-03-01', 'TD.2: water deferral anchors on lastWatered');
+  const skip = buildTaskDeferral(p, 'water', 'skip', day('2026-03-08'), 7);
+  assert(skip.kind === 'skip' && skip.until === '2026-03-15', 'TD.3: skip moves due day by the interval');
+  const fp = plant({ fertilizeSchedule: { intervalDays: 30, lastFertilized: '2026-02-01' } });
+  assert(buildTaskDeferral(fp, 'fertilize', 'snooze', day('2026-03-03'), 1).anchor === '2026-02-01',
+    'TD.4: fertilize deferral anchors on lastFertilized');
+}
+{
+  const p = withDeferral(plant(), 'water', 'snooze', '2026-03-08', 2);
+  assert(getActiveDeferral(p, 'water') !== null, 'TD.5: deferral active while anchor matches');
+  assert(getActiveDeferral({ ...p, lastWatered: '2026-03-09' }, 'water') === null, 'TD.6: a newer watering voids the deferral');
+  assert(getActiveDeferral(p, 'fertilize') === null, 'TD.7: deferrals are per task');
+}
+{
+  const d = buildTaskDeferral(plant(), 'water', 'snooze', day('2026-03-08'), 2);
+  assert(isDeferralPending(d, day('2026-03-08')) && isDeferralPending(d, day('2026-03-09')), 'TD.8: pending inside the window');
+  assert(!isDeferralPending(d, day('2026-03-10')), 'TD.9: not pending on the until day');
+  assert(!isDeferralPending(null, day('2026-03-08')), 'TD.10: null deferral is never pending');
+}
+
+// ─── getNextWaterDate ───
+{
+  const base = plant();
+  assert(formatDate(getNextWaterDate(base, day('2026-03-08'), 'warm')) === '2026-03-08', 'TD.11: baseline due on lastWatered + 7');
+  const snoozed = withDeferral(base, 'water', 'snooze', '2026-03-08', 3);
+  assert(formatDate(getNextWaterDate(snoozed, day('2026-03-08'), 'warm')) === '2026-03-11', 'TD.12: snooze moves next watering');
+  assert(formatDate(getNextWaterDate(snoozed, day('2026-03-11'), 'warm')) === '2026-03-11', 'TD.13: snoozed task due on its new day');
+  assert(formatDate(getNextWaterDate(snoozed, day('2026-03-12'), 'warm')) === '2026-03-18', 'TD.14: cadence restarts from the snoozed day');
+  const skipped = withDeferral(base, 'water', 'skip', '2026-03-08', 7);
+  assert(formatDate(getNextWaterDate(skipped, day('2026-03-08'), 'warm')) === '2026-03-15', 'TD.15: skip moves next watering one interval out');
+  const watered = { ...snoozed, lastWatered: '2026-03-09' };
+  assert(formatDate(getNextWaterDate(watered, day('2026-03-09'), 'warm')) === '2026-03-16', 'TD.16: watering after a snooze restores normal cadence');
+  const neverWatered = withDeferral(plant({ lastWatered: null }), 'water', 'snooze', '2026-03-08', 1);
+  assert(formatDate(getNextWaterDate(neverWatered, day('2026-03-08'), 'warm')) === '2026-03-09', 'TD.17: never-watered plants can be snoozed');
+}
+{
+  const check = withDeferral(plant({ waterMode: 'soil_check' }), 'water', 'snooze', '2026-03-08', 2);
+  const tasks = getTasksForDay([check], day('2026-03-08'), 'warm');
+  assert(!tasks.some(t => t.type === 'check_soil'), 'TD.18: snoozed check_soil task leaves the due day');
+  assert(getTasksForDay([check], day('2026-03-10'), 'warm').some(t => t.type === 'check_soil'), 'TD.19: snoozed check_soil task appears on its new day');
+}
+
+// ─── getNextFertilizeDate ───
+{
+  const fp = plant({ fertilizeSchedule: { intervalDays: 30, lastFertilized: '2026-02-06' } });
+  assert(formatDate(getNextFertilizeDate(fp, null, day('2026-03-08'), 'warm')) === '2026-03-08', 'TD.20: baseline fertilize due');
+  const snoozed = withDeferral(fp, 'fertilize', 'snooze', '2026-03-08', 2);
+  assert(formatDate(getNextFertilizeDate(snoozed, null, day('2026-03-08'), 'warm')) === '2026-03-10', 'TD.21: snooze moves next fertilize');
+  const skipped = withDeferral(fp, 'fertilize', 'skip', '2026-03-08', 30);
+  assert(formatDate(getNextFertilizeDate(skipped, null, day('2026-03-08'), 'warm')) === '2026-04-07', 'TD.22: skip moves next fertilize one interval out');
+  const custom = withDeferral(plant(), 'fertilize', 'snooze', '2026-03-08', 2);
+  assert(getNextFertilizeDate(custom, null, day('2026-03-08'), 'warm') === null, 'TD.23: no fertilize cadence → deferral ignored');
+}
+
+// ─── calculatePlantHealth ───
+{
+  const skipped = withDeferral(plant(), 'water', 'skip', '2026-03-08', 7);
+  const health = calculatePlantHealth(skipped, day('2026-03-10'), null, [], 'warm');
+  assert(!health.issues.some(i => i.type === 'overdue_water'), 'TD.24: skipped watering is not reported as overdue');
+  assert(health.score === 100, 'TD.25: skipped watering costs no health points');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-task-deferral] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-task-deferral] PASS ${pass}/${pass}`);
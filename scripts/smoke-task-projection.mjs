@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+// scripts/smoke-task-projection.mjs
+// v1.3 (PROJ-01) calendar projection smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + taskDeferral + plantLogic + taskProjection and checks that future tasks
+// follow each day's season, carry completions forward and respect fertilizing dormancy.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-task-projection');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+writeFileSync(resolve(TMP_DIR, 'plantDatabase.mjs'),
+  `// PROJ-01 smoke stub for ../data/plantDatabase. Auto-written — 'fern' fertilizes every 30 days, dormant in the cold.\n` +
+  `export function getCatalogEntry(id) { return id === 'fern' ? { id, fertilizeIntervalWarm: 30, fertilizeIntervalCold: null } : null; }\n`
+);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+compile('src/utils/taskDeferral.ts', 'taskDeferral.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+const logicPath = compile('src/utils/plantLogic.ts', 'plantLogic.mjs', [
+  ['from "./dates"', 'from "./dates.mjs"'],
+  ['from "./taskDeferral"', 'from "./taskDeferral.mjs"'],
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+]);
+const projectionPath = compile('src/utils/taskProjection.ts', 'taskProjection.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+]);
+const { projectTasks } = await import(projectionPath + '?t=' + Date.now());
+const { getTasksForDay } = await import(logicPath + '?t=' + Date.now());
+const { addDays, formatDate } = await import(resolve(TMP_DIR, 'dates.mjs') + '?t=' + Date.now());
+
+// ─── Fixtures ───
+const TODAY = new Date(2026, 8, 20); // Sunday, 2026-09-20
+const day = (offset) => formatDate(addDays(TODAY, offset));
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  waterSchedule: { warm: 3, cold: 7 },
+  waterMode: 'fixed',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: day(0),
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  ...overrides,
+});
+// Northern temperate: warm through September, cold from October 1st.
+const northern = (date) => (date.getMonth() >= 3 && date.getMonth() <= 8 ? 'warm' : 'cold');
+const warmOnly = () => 'warm';
+const daysWith = (projection, plantId, type) =>
+  Object.entries(projection)
+    .filter(([, tasks]) => tasks.some(t => t.plantId === plantId && t.type === type))
+    .map(([date]) => date);
+
+// ─── Range ───
+{
+  const p = projectTasks([plant('a')], TODAY, addDays(TODAY, 9), warmOnly);
+  const keys = Object.keys(p);
+  assert(keys.length === 10 && keys[0] === day(0) && keys[9] === day(9), 'PR.1: one entry per day, both ends included');
+  const thirsty = plant('t', { lastWatered: day(-3), sunDays: [0] });
+  const first = projectTasks([thirsty], TODAY, TODAY, warmOnly);
+  assert(JSON.stringify(first[day(0)]) === JSON.stringify(getTasksForDay([thirsty], TODAY, 'warm')), 'PR.2: the first day matches getTasksForDay');
+}
+
+// ─── Completions carried forward ───
+{
+  const p = projectTasks([plant('a')], TODAY, addDays(TODAY, 9), warmOnly);
+  assert(daysWith(p, 'a', 'water').join() === [day(3), day(6), day(9)].join(), 'PR.3: waterings repeat every interval');
+  const soil = projectTasks([plant('s', { waterMode: 'soil_check' })], TODAY, addDays(TODAY, 6), warmOnly);
+  assert(daysWith(soil, 's', 'check_soil').join() === [day(3), day(6)].join(), 'PR.4: soil_check plants project check-ins');
+  const input = plant('a');
+  const before = JSON.stringify(input);
+  projectTasks([input], TODAY, addDays(TODAY, 30), warmOnly);
+  assert(JSON.stringify(input) === before, 'PR.5: the plants passed in are not changed');
+}
+
+// ─── Season change mid-range ───
+{
+  // 2026-09-20 warm (3 days) → 2026-10-01 cold (7 days).
+  const p = projectTasks([plant('a')], TODAY, new Date(2026, 9, 20), northern);
+  const water = daysWith(p, 'a', 'water');
+  assert(water.slice(0, 3).join() === '2026-09-23,2026-09-26,2026-09-29', 'PR.6: warm interval before the switch');
+  assert(water.slice(3).join() === '2026-10-06,2026-10-13,2026-10-20', 'PR.7: cold interval counted from the last warm watering');
+  const single = getTasksForDay([plant('a')], new Date(2026, 9, 13), 'warm').some(t => t.type === 'water');
+  assert(!single, 'PR.8: the single-step estimate misses the cold-season date');
+}
+
+// ─── Fertilizing dormancy ───
+{
+  const fern = plant('f', { databaseId: 'fern', fertilizeSchedule: undefined });
+  const p = projectTasks([fern], new Date(2026, 2, 1), new Date(2026, 5, 30), northern);
+  const fert = daysWith(p, 'f', 'fertilize');
+  assert(fert[0] === '2026-04-01', 'PR.9: never fertilized, dormant in March — due the first warm day');
+  assert(fert.join() === '2026-04-01,2026-05-01,2026-05-31,2026-06-30', 'PR.10: then every 30 days');
+  const autumn = projectTasks([{ ...fern, fertilizeSchedule: { intervalDays: 0, lastFertilized: '2026-09-15' } }], TODAY, new Date(2027, 4, 31), northern);
+  const autumnFert = daysWith(autumn, 'f', 'fertilize');
+  assert(autumnFert.every(d => d < '2026-10-01' || d >= '2027-04-01'), 'PR.11: no fertilizing through the cold season');
+  assert(autumnFert[0] === '2027-04-13', 'PR.12: it resumes on the cadence of the last fertilizing');
+  const override = projectTasks([{ ...fern, fertilizeSchedule: { intervalDays: 20, lastFertilized: day(0) } }], TODAY, new Date(2026, 10, 30), northern);
+  assert(daysWith(override, 'f', 'fertilize').join() === '2026-10-10,2026-10-30,2026-11-19', 'PR.13: a per-plant interval has no dormancy');
+}
+
+// ─── Deferrals and weekly tasks ───
+{
+  const snoozed = plant('z', {
+    lastWatered: day(-3),
+    taskDeferrals: { water: { kind: 'snooze', dueDate: day(0), until: day(2), anchor: day(-3) } },
+  });
+  const p = projectTasks([snoozed], TODAY, addDays(TODAY, 8), warmOnly);
+  assert(daysWith(p, 'z', 'water').join() === [day(2), day(5), day(8)].join(), 'PR.14: a snooze moves the first watering, the cadence follows from it');
+  const sunny = projectTasks([plant('s', { sunDays: [0, 3] })], TODAY, addDays(TODAY, 13), warmOnly);
+  assert(daysWith(sunny, 's', 'sun').join() === [day(0), day(3), day(7), day(10)].join(), 'PR.15: sun days repeat every week');
+  const two = projectTasks([plant('a'), plant('b', { lastWatered: day(-2) })], TODAY, addDays(TODAY, 1), warmOnly);
+  assert(two[day(1)].map(t => t.plantId).join() === 'b', 'PR.16: each plant keeps its own cadence');
+  const both = projectTasks([plant('a', { lastWatered: day(-3) }), plant('b', { lastWatered: day(-3) })], TODAY, TODAY, warmOnly);
+  assert(both[day(0)].map(t => t.plantId).join() === 'a,b', 'PR.17: plant order is kept within a day');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-task-projection] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-task-projection] PASS ${pass}/${pass}`);
@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+// scripts/smoke-vacation.mjs
+// v1.3 (VAC-01) vacation mode smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles dates + taskDeferral + plantLogic + plantHealth + vacationPlan and checks the
+// trip plan, the notification window and the post-trip re-baseline.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-vacation');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Stubs (auto-written — gitignored) ───
+writeFileSync(resolve(TMP_DIR, 'i18n.mjs'),
+  `// VAC-01 smoke stub for ../i18n. Auto-written.\n` +
+  `export default { t: (key, opts) => (opts && opts.defaultValue) || key, on: () => {}, language: 'es' };\n`
+);
+writeFileSync(resolve(TMP_DIR, 'plantDatabase.mjs'),
+  `// VAC-01 smoke stub for ../data/plantDatabase. Auto-written — no catalog needed.\n` +
+  `export function getCatalogEntry() { return null; }\n`
+);
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+compile('src/utils/dates.ts', 'dates.mjs');
+compile('src/utils/taskDeferral.ts', 'taskDeferral.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+]);
+compile('src/utils/plantLogic.ts', 'plantLogic.mjs', [
+  ['from "./dates"', 'from "./dates.mjs"'],
+  ['from "./taskDeferral"', 'from "./taskDeferral.mjs"'],
+  ['from "../data/plantDatabase"', 'from "./plantDatabase.mjs"'],
+  ['from "../i18n"', 'from "./i18n.mjs"'],
+]);
+compile('src/utils/migration.ts', 'migration.mjs');
+compile('src/utils/lightLabel.ts', 'lightLabel.mjs', [
+  ["from './migration'", "from './migration.mjs'"],
+]);
+compile('src/utils/placement.ts', 'placement.mjs', [
+  ["from './lightLabel'", "from './lightLabel.mjs'"],
+]);
+const healthPath = compile('src/utils/plantHealth.ts', 'plantHealth.mjs', [
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './taskDeferral'", "from './taskDeferral.mjs'"],
+  ["from './placement'", "from './placement.mjs'"],
+  ["from '../data/plantDatabase'", "from './plantDatabase.mjs'"],
+  ["from '../i18n'", "from './i18n.mjs'"],
+]);
+const vacationPath = compile('src/utils/vacationPlan.ts', 'vacationPlan.mjs', [
+  ["from './dates'", "from './dates.mjs'"],
+  ["from './plantLogic'", "from './plantLogic.mjs'"],
+  ["from './taskDeferral'", "from './taskDeferral.mjs'"],
+  ["from '../data/plantDatabase'", "from './plantDatabase.mjs'"],
+]);
+
+const {
+  isDateInVacation,
+  isVacationPending,
+  getVacationLength,
+  summarizeVacationForecast,
+  planVacationCare,
+  rebaselineAfterVacation,
+} = await import(vacationPath + '?t=' + Date.now());
+const { getNextWaterDate, getNextFertilizeDate } = await import(resolve(TMP_DIR, 'plantLogic.mjs'));
+const { calculatePlantHealth } = await import(healthPath + '?t=' + Date.now());
+const { formatDate, parseDate } = await import(resolve(TMP_DIR, 'dates.mjs'));
+
+// ─── Fixtures ───
+const day = (s) => parseDate(s);
+const plant = (id, overrides = {}) => ({
+  id,
+  name: id,
+  typeId: 'interior',
+  typeName: 'Interior',
+  icon: '🪴',
+  sunDays: [],
+  outdoorDays: [],
+  lastWatered: '2026-03-01',
+  sunDoneDate: null,
+  outdoorDoneDate: null,
+  waterMode: 'fixed',
+  waterSchedule: { warm: 7, cold: 14 },
+  ...overrides,
+});
+const trip = { departure: '2026-03-05', returnDate: '2026-03-12' };
+const forecastDay = (date, tempMax, precipitation = 0) => ({
+  date, weatherCode: 0, tempMax, tempMin: 15, precipitation, sunrise: null, sunset: null, uvIndexMax: null,
+});
+const weather = (days) => ({ current: { temperature: 22, windSpeed: 5 }, daily: days, lastFetched: 0 });
+
+// ─── Window helpers ───
+assert(getVacationLength(trip) === 7, 'VAC.1: trip length counts days away');
+assert(!isDateInVacation(trip, day('2026-03-04')), 'VAC.2: day before departure is not in the trip');
+assert(isDateInVacation(trip, day('2026-03-05')) && isDateInVacation(trip, day('2026-03-11')), 'VAC.3: departure..return-1 is in the trip');
+assert(!isDateInVacation(trip, day('2026-03-12')), 'VAC.4: return day is not in the trip (reminders resume)');
+assert(!isDateInVacation(null, day('2026-03-06')), 'VAC.5: no plan → never in vacation');
+assert(isVacationPending(trip, day('2026-03-01')) && !isVacationPending(trip, day('2026-03-12')), 'VAC.6: pending until the return day');
+
+// ─── Forecast ───
+{
+  const w = weather([
+    forecastDay('2026-03-04', 35),
+    forecastDay('2026-03-05', 31),
+    forecastDay('2026-03-06', 20, 12),
+    forecastDay('2026-03-07', 22),
+  ]);
+  const f = summarizeVacationForecast(trip, w);
+  assert(f.coveredDays === 3, 'VAC.7: only forecast days inside the trip are counted');
+  assert(f.hotDays === 1 && f.rainyDays === 1, 'VAC.8: hot and rainy days counted');
+  assert(summarizeVacationForecast(trip, null).coveredDays === 0, 'VAC.9: no weather → empty summary');
+}
+
+// ─── planVacationCare ───
+{
+  const plants = [
+    plant('weekly', { lastWatered: '2026-03-01' }), // due 03-08 → one watering away
+    plant('fast', { lastWatered: '2026-03-03', waterSchedule: { warm: 3, cold: 6 } }), // due 03-06, 03-09
+    plant('slow', { lastWatered: '2026-03-04', waterSchedule: { warm: 14, cold: 20 } }), // due 03-18
+  ];
+  const plan = planVacationCare(plants, trip, 'warm', null);
+  const byId = Object.fromEntries(plan.map(p => [p.plantId, p]));
+  assert(plan.length === 2 && !byId.slow, 'VAC.10: plants with nothing due are omitted');
+  assert(JSON.stringify(byId.weekly.dueDates) === '["2026-03-08"]', 'VAC.11: due dates inside the trip listed');
+  assert(byId.weekly.suggestion === 'deep_water', 'VAC.12: single missed watering → deep water');
+  assert(JSON.stringify(byId.fast.dueDates) === '["2026-03-06","2026-03-09"]', 'VAC.13: repeated waterings listed');
+  assert(byId.fast.suggestion === 'group', 'VAC.14: two or more waterings → group');
+  const hot = planVacationCare(plants, trip, 'warm', weather([forecastDay('2026-03-06', 34)]));
+  assert(hot.every(p => p.suggestion === 'group'), 'VAC.15: hot forecast escalates every plant to group');
+  const check = planVacationCare([plant('check', { waterMode: 'soil_check' })], trip, 'warm', null);
+  assert(check.length === 1, 'VAC.16: soil_check check-ins are part of the plan');
+}
+
+// ─── rebaselineAfterVacation ───
+{
+  const weekly = plant('weekly', { lastWatered: '2026-03-01' });
+  const slow = plant('slow', { lastWatered: '2026-03-04', waterSchedule: { warm: 14, cold: 20 } });
+  const fert = plant('fert', { fertilizeSchedule: { intervalDays: 30, lastFertilized: '2026-02-05' } });
+  const [w, s, f] = rebaselineAfterVacation([weekly, slow, fert], trip, day('2026-03-12'), 'warm');
+  assert(s === slow, 'VAC.17: untouched plants are returned as the same object');
+  assert(w.taskDeferrals?.water?.kind === 'vacation' && w.taskDeferrals.water.until === '2026-03-12',
+    'VAC.18: missed watering re-baselined onto the return day');
+  assert(w.lastWatered === '2026-03-01', 'VAC.19: re-baseline does not fake a watering');
+  assert(formatDate(getNextWaterDate(w, day('2026-03-12'), 'warm')) === '2026-03-12', 'VAC.20: watering due on the return day');
+  assert(formatDate(getNextWaterDate(w, day('2026-03-13'), 'warm')) === '2026-03-19', 'VAC.21: cadence restarts from the return day');
+  assert(f.taskDeferrals?.fertilize?.until === '2026-03-12', 'VAC.22: missed fertilizing re-baselined too');
+  assert(formatDate(getNextFertilizeDate(f, null, day('2026-03-12'), 'warm')) === '2026-03-12', 'VAC.23: fertilize due on the return day');
+  const health = calculatePlantHealth(w, day('2026-03-12'), null, [], 'warm');
+  assert(!health.issues.some(i => i.type === 'overdue_water'), 'VAC.24: no overdue penalty after the trip');
+  const [early] = rebaselineAfterVacation([weekly], trip, day('2026-03-04'), 'warm');
+  assert(early === weekly, 'VAC.25: trip cancelled before departure leaves plants unchanged');
+}
+
+// ─── Report ───
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-vacation] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-vacation] PASS ${pass}/${pass}`);
@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+// scripts/smoke-vision-provider.mjs
+// v1.3 (VISION-01) vision provider layer smoke runner. Single-compile-path policy (Phase 4 lock).
+// Compiles the edge functions' shared vision / prompts / aiValidation modules and checks
+// provider selection (env + weighted A/B), the Gemini and OpenAI-compatible request / response
+// mapping against a recorded fetch, the offline stub and the shared JSON reading.
+//
+// COMPILE PATH IS LOCKED to typescript.transpileModule. If this script breaks, fix the source — do NOT add a fallback compile path.
+
+import { readFileSync, writeFileSync, copyFileSync, mkdirSync, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+import ts from 'typescript';
+
+globalThis.__DEV__ = false;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT = resolve(__dirname, '..');
+const TMP_DIR = resolve(__dirname, '.tmp-vision-provider');
+if (!existsSync(TMP_DIR)) mkdirSync(TMP_DIR, { recursive: true });
+
+// ─── Deno / fetch stand-ins ───
+let env = {};
+globalThis.Deno = { env: { get: (key) => env[key] } };
+let calls = [];
+let nextResponse = null;
+globalThis.fetch = async (url, init) => {
+  calls.push({ url, init, body: JSON.parse(init.body) });
+  const { status = 200, json = {}, text = '' } = nextResponse;
+  return { ok: status < 400, status, json: async () => json, text: async () => text };
+};
+const silenced = console.error;
+console.error = () => {};
+
+// ─── Assertion harness (mirrors Phase 14) ───
+let pass = 0, fail = 0;
+const errors = [];
+function assert(cond, label) {
+  if (cond) { pass++; }
+  else { fail++; errors.push(`FAIL: ${label}`); }
+}
+
+// ─── Compile ───
+function compile(relPath, outName, rewrites = []) {
+  let src = readFileSync(resolve(ROOT, relPath), 'utf8');
+  for (const [from, to] of rewrites) src = src.split(from).join(to);
+  const out = ts.transpileModule(src, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  });
+  const outPath = resolve(TMP_DIR, outName);
+  writeFileSync(outPath, out.outputText);
+  return outPath;
+}
+
+const { selectVisionProvider } = await import(compile('supabase/functions/_shared/vision.ts', 'vision.mjs') + '?t=' + Date.now());
+copyFileSync(resolve(ROOT, 'supabase/functions/_shared/promptTemplates.json'), resolve(TMP_DIR, 'promptTemplates.json'));
+const { loadPrompts } = await import(compile('supabase/functions/_shared/prompts.ts', 'prompts.mjs') + '?t=' + Date.now());
+const { parseModelJson } = await import(compile('supabase/functions/_shared/aiValidation.ts', 'aiValidation.mjs') + '?t=' + Date.now());
+
+const request = {
+  task: 'chat',
+  system: 'SYSTEM',
+  messages: [
+    { role: 'user', parts: [{ text: 'hola' }] },
+    { role: 'model', parts: [{ text: 'respuesta' }] },
+    { role: 'user', parts: [{ image: 'AAAA' }, { text: 'y ahora?' }] },
+  ],
+};
+
+// ─── Selection ───
+{
+  env = { GEMINI_API_KEY: 'g-key' };
+  const gemini = selectVisionProvider();
+  assert(gemini?.name === 'gemini' && gemini.model === 'gemini-2.5-flash', 'VP.1: Gemini Flash is the default');
+  env = {};
+  assert(selectVisionProvider() === null, 'VP.2: no API key, no provider');
+  env = { VISION_PROVIDER: 'openai', OPENAI_API_KEY: 'o-key', OPENAI_MODEL: 'gpt-4.1-mini' };
+  const openai = selectVisionProvider();
+  assert(openai?.name === 'openai' && openai.model === 'gpt-4.1-mini', 'VP.3: VISION_PROVIDER and the model env pick the provider');
+  env = { VISION_PROVIDER: 'stub' };
+  assert(selectVisionProvider()?.name === 'stub', 'VP.4: the stub needs no key');
+
+  env = { VISION_PROVIDER: 'gemini:80, openai:20', GEMINI_API_KEY: 'g', OPENAI_API_KEY: 'o' };
+  assert(selectVisionProvider(() => 0.79)?.name === 'gemini' && selectVisionProvider(() => 0.81)?.name === 'openai', 'VP.5: weighted lists split requests by weight');
+  env = { VISION_PROVIDER: 'gemini:80,openai:20', OPENAI_API_KEY: 'o' };
+  assert(selectVisionProvider(() => 0)?.name === 'openai', 'VP.6: entries without their key drop out of the draw');
+  env = { VISION_PROVIDER: 'claude-vision' };
+  assert(selectVisionProvider() === null, 'VP.7: unknown providers are ignored');
+}
+
+// ─── Gemini mapping ───
+{
+  env = { GEMINI_API_KEY: 'g-key', GEMINI_MODEL: 'gemini-2.5-pro' };
+  const provider = selectVisionProvider();
+  calls = [];
+  nextResponse = { json: { candidates: [{ content: { parts: [{ text: '{"reply":"ok"}' }] } }] } };
+  const result = await provider.generate(request);
+  const { url, init, body } = calls[0];
+  assert(url.endsWith('/gemini-2.5-pro:generateContent') && init.headers['x-goog-api-key'] === 'g-key', 'VP.8: Gemini gets the model in the URL and the key header');
+  assert(
+    body.systemInstruction.parts[0].text === 'SYSTEM' && body.generationConfig.responseMimeType === 'application/json',
+    'VP.9: Gemini gets the system prompt and JSON mode'
+  );
+  assert(
+    body.contents[1].role === 'model' && body.contents[2].parts[0].inlineData.data === 'AAAA' && body.contents[2].parts[1].text === 'y ahora?',
+    'VP.10: Gemini turns keep roles and part order, images as inline JPEG'
+  );
+  assert(result.ok && result.text === '{"reply":"ok"}', 'VP.11: Gemini text is read from the first candidate');
+
+  nextResponse = { status: 429, text: 'quota' };
+  const failed = await provider.generate(request);
+  assert(!failed.ok && failed.code === 'PROVIDER_ERROR' && failed.status === 429 && failed.details === 'quota', 'VP.12: HTTP errors come back as PROVIDER_ERROR');
+  nextResponse = { json: { candidates: [] } };
+  assert((await provider.generate(request)).code === 'EMPTY_RESPONSE', 'VP.13: no text is EMPTY_RESPONSE');
+}
+
+// ─── OpenAI-compatible mapping ───
+{
+  env = { VISION_PROVIDER: 'openai', OPENAI_API_KEY: 'o-key', OPENAI_BASE_URL: 'http://localhost:8000/v1/' };
+  const provider = selectVisionProvider();
+  calls = [];
+  nextResponse = { json: { choices: [{ message: { content: '{"reply":"hi"}' } }] } };
+  const result = await provider.generate(request);
+  const { url, init, body } = calls[0];
+  assert(url === 'http://localhost:8000/v1/chat/completions' && init.headers.Authorization === 'Bearer o-key', 'VP.14: the base URL and bearer key are used');
+  assert(body.model === 'gpt-4o-mini' && body.response_format.type === 'json_object', 'VP.15: default model and JSON mode');
+  assert(body.messages[0].role === 'system' && body.messages[0].content === 'SYSTEM', 'VP.16: the system prompt goes first');
+  assert(body.messages[1].content === 'hola' && body.messages[2].role === 'assistant', 'VP.17: text-only turns are plain strings, model turns are assistant');
+  assert(
+    body.messages[3].content[0].image_url.url === 'data:image/jpeg;base64,AAAA' && body.messages[3].content[1].text === 'y ahora?',
+    'VP.18: images go as JPEG data URLs in order'
+  );
+  assert(result.ok && result.text === '{"reply":"hi"}', 'VP.19: the first choice is the answer');
+}
+
+// ─── Offline stub ───
+{
+  env = { VISION_PROVIDER: 'stub' };
+  calls = [];
+  const provider = selectVisionProvider();
+  const diagnosis = await provider.generate({ ...request, task: 'diagnosis' });
+  const chat = await provider.generate(request);
+  assert(calls.length === 0, 'VP.20: the stub never reaches the network');
+  assert(parseModelJson(diagnosis.text)?.issues.length === 1, 'VP.21: the stub diagnosis has the diagnosis shape');
+  assert(parseModelJson(chat.text)?.improvementDetected === false, 'VP.22: the stub chat answer has the chat shape');
+  env = { VISION_PROVIDER: 'stub', VISION_STUB_RESPONSE: 'not json' };
+  assert((await selectVisionProvider().generate(request)).text === 'not json', 'VP.23: VISION_STUB_RESPONSE is returned verbatim');
+}
+
+// ─── JSON reading ───
+{
+  assert(parseModelJson('{"reply":"a"}')?.reply === 'a', 'VP.24: plain JSON is read');
+  assert(parseModelJson('```json\n{"reply":"b"}\n```')?.reply === 'b', 'VP.25: JSON wrapped in markdown is read');
+  assert(parseModelJson('Acá va: {"reply": roto}') === undefined, 'VP.26: broken JSON inside braces gives undefined');
+  assert(parseModelJson('sin json') === undefined, 'VP.27: text without JSON gives undefined');
+}
+
+// ─── Plant context ───
+{
+  const ctx = { species: 'Potus', lastWatered: '2026-10-10', outdoorDays: [1], waterSchedule: { warm: 7, cold: 14 }, currentSeason: 'warm' };
+  const es = loadPrompts('es').plantContext(ctx);
+  assert(es.startsWith('Contexto de la planta:') && es.includes('temporada fría cada 14 días') && es.includes('Lun'), 'VP.28: v1.1 contexts render in Spanish');
+  const legacy = loadPrompts('en').plantContext({ species: 'Potus', lastWatered: null, outdoorDays: [], waterEvery: 5, sunHours: 3 });
+  assert(legacy.includes('every 5 days') && legacy.includes('none (indoor)'), 'VP.29: legacy payloads keep the v1.0 block');
+  assert(loadPrompts('es').plantContext(undefined) === '', 'VP.30: no context, no block');
+}
+
+// ─── Report ───
+console.error = silenced;
+console.log('');
+if (errors.length > 0) {
+  console.error('─── FAILURES ───');
+  errors.forEach(e => console.error('  ' + e));
+  console.log('');
+  console.error(`[smoke-vision-provider] FAIL — ${pass} pass, ${fail} fail`);
+  process.exit(1);
+}
+console.log(`[smoke-vision-provider] PASS ${pass}/${pass}`);
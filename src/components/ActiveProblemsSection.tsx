@@ -10,6 +10,8 @@ import { colors, fonts, spacing, borderRadius, shadows } from '../theme';
 import { SavedDiagnosis } from '../types';
 import { TRACKING_STATUS_CONFIG } from '../services/problemTrackingService';
 import { ProblemTimeline } from './ProblemTimeline';
+import { PhotoComparison } from './PhotoComparison';
+import { getComparisonPhotos } from '../utils/photoComparison';
 
 interface ActiveProblemsSectionProps {
   diagnoses: SavedDiagnosis[];
@@ -115,9 +117,12 @@ export function ActiveProblemsSection({
               </TouchableOpacity>
             )}
 
-            {/* Inline timeline */}
+            {/* Inline timeline — v1.3 (COMPARE-01): photo comparison on top when there are two photos */}
             {isExpanded && (
-              <ProblemTimeline entries={entries} plantIcon={plantIcon} />
+              <>
+                <PhotoComparison photos={getComparisonPhotos(d)} plantIcon={plantIcon} />
+                <ProblemTimeline entries={entries} plantIcon={plantIcon} />
+              </>
             )}
 
             {/* CTA */}
@@ -0,0 +1,183 @@
+/**
+ * src/components/BackupSection.tsx — v1.3 (BACKUP-01).
+ *
+ * Settings section with "Export backup" / "Import backup". Import asks merge vs replace
+ * (replace needs a second, destructive confirmation) and reports the plants that were
+ * skipped because the same id already exists here with different data.
+ *
+ * Self-contained like GardenSwitcher: reads and restores AppData through useStorage. File
+ * I/O lives in services/backupService.ts, the merge rules in utils/backup.ts.
+ */
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import { useStorage } from '../hooks/useStorage';
+import { trackEvent } from '../services/analyticsService';
+import {
+  deleteUnreferencedPhotos,
+  exportBackup,
+  pickBackupFile,
+  restoreBackupPhotos,
+} from '../services/backupService';
+import { applyBackup, type BackupImportMode } from '../utils/backup';
+import type { AppData } from '../types';
+
+export function BackupSection() {
+  const { t } = useTranslation();
+  const { getAppDataSnapshot, importBackupData } = useStorage();
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const data = getAppDataSnapshot();
+      const result = await exportBackup(data);
+      if (result.success) {
+        trackEvent('backup_exported', { plantCount: data.plants.length, photoCount: result.photoCount });
+        Alert.alert(t('settings.backup.title'), t('settings.backup.exportDone', { count: result.photoCount }));
+      } else {
+        Alert.alert(t('settings.backup.title'), t('settings.backup.exportFailed'));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async (backup: AppData, files: Record<string, string>, mode: BackupImportMode) => {
+    setBusy(true);
+    try {
+      const local = getAppDataSnapshot();
+      const result = applyBackup(local, backup, mode);
+      // Photos first, so every URI in the restored data points to a real file.
+      await restoreBackupPhotos(result.data, files);
+      importBackupData(result.data);
+      if (mode === 'replace') deleteUnreferencedPhotos(local, result.data);
+      trackEvent('backup_imported', { mode, added: result.added.length, conflicts: result.conflicts.length });
+
+      const lines = [t('settings.backup.importDone', { count: result.added.length })];
+      if (result.conflicts.length > 0) {
+        lines.push(t('settings.backup.conflicts', {
+          count: result.conflicts.length,
+          names: result.conflicts.map(c => c.localName).join(', '),
+        }));
+      }
+      Alert.alert(t('settings.backup.title'), lines.join('\n\n'));
+    } catch (e) {
+      if (__DEV__) console.warn('[BackupSection] import failed:', e);
+      Alert.alert(t('settings.backup.errorTitle'), t('settings.backup.errors.invalid_data'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    let picked: Awaited<ReturnType<typeof pickBackupFile>>;
+    try {
+      picked = await pickBackupFile();
+    } finally {
+      setBusy(false);
+    }
+    if (!picked.success) {
+      if (picked.error !== 'cancelled') {
+        Alert.alert(t('settings.backup.errorTitle'), t(`settings.backup.errors.${picked.error}`));
+      }
+      return;
+    }
+
+    const { data, files } = picked;
+    const confirmReplace = () => {
+      Alert.alert(
+        t('settings.backup.replaceConfirmTitle'),
+        t('settings.backup.replaceConfirmMessage'),
+        [
+          { text: t('settings.backup.cancel'), style: 'cancel' },
+          { text: t('settings.backup.replace'), style: 'destructive', onPress: () => runImport(data, files, 'replace') },
+        ]
+      );
+    };
+    Alert.alert(
+      t('settings.backup.importTitle'),
+      t('settings.backup.importMessage', { count: data.plants.length }),
+      [
+        { text: t('settings.backup.cancel'), style: 'cancel' },
+        { text: t('settings.backup.replace'), style: 'destructive', onPress: confirmReplace },
+        { text: t('settings.backup.merge'), onPress: () => runImport(data, files, 'merge') },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity
+        style={[styles.primaryButtonWide, busy && styles.disabled]}
+        onPress={handleExport}
+        disabled={busy}
+        accessibilityRole="button"
+      >
+        <Text style={styles.primaryButtonText}>📦 {t('settings.backup.export')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.secondaryButtonWide, busy && styles.disabled]}
+        onPress={handleImport}
+        disabled={busy}
+        accessibilityRole="button"
+      >
+        <Text style={styles.secondaryButtonText}>📥 {t('settings.backup.import')}</Text>
+      </TouchableOpacity>
+      {busy && (
+        <View style={styles.busyRow}>
+          <ActivityIndicator size="small" color={colors.green} />
+          <Text style={styles.muted}>{t('settings.backup.working')}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.card,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    gap: spacing.sm,
+  },
+  primaryButtonWide: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    backgroundColor: colors.green,
+    borderRadius: borderRadius.lg,
+  },
+  primaryButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.white,
+  },
+  secondaryButtonWide: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.green,
+    borderRadius: borderRadius.lg,
+  },
+  secondaryButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.green,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  busyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  muted: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
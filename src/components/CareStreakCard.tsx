@@ -0,0 +1,155 @@
+/**
+ * src/components/CareStreakCard.tsx — v1.3 (STREAK-01).
+ *
+ * Today card behind Features.CARE_STREAKS: the current and longest run of days with every
+ * task done, and this week's tasks done out of due per plant of the space on screen. The
+ * streak counts every plant; days without a record never end it (utils/careStreaks.ts), and
+ * the copy stays encouraging — a missed day is never called out.
+ */
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius, shadows } from '../theme';
+import { formatDate } from '../utils/dates';
+import { getCareStreaks, getWeeklyCareSummary } from '../utils/careStreaks';
+import type { CareDay, Plant } from '../types';
+import { ProgressBar } from './ProgressBar';
+
+interface CareStreakCardProps {
+  /** Plants of the space on screen, for the weekly rows. */
+  plants: Plant[];
+  careDays: Record<string, CareDay[]>;
+}
+
+export function CareStreakCard({ plants, careDays }: CareStreakCardProps) {
+  const { t } = useTranslation();
+  const today = formatDate(new Date());
+  const { current, longest } = getCareStreaks(careDays, today);
+  const week = getWeeklyCareSummary(careDays, plants.map(p => p.id), today);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.icon}>🌱</Text>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>{t('careStreak.title')}</Text>
+          <Text style={styles.subtitle}>
+            {current > 0 ? t('careStreak.current', { count: current }) : t('careStreak.start')}
+          </Text>
+        </View>
+        {longest > 0 && (
+          <Text style={styles.longest}>{t('careStreak.longest', { count: longest })}</Text>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('careStreak.weekTitle')}</Text>
+      {week.due > 0 ? (
+        <>
+          <Text style={styles.weekTotal}>{t('careStreak.weekTotal', { done: week.done, due: week.due })}</Text>
+          {week.plants.map(row => {
+            const plant = plants.find(p => p.id === row.plantId);
+            if (!plant) return null;
+            return (
+              <View key={row.plantId} style={styles.plantRow}>
+                <Text style={styles.plantIcon}>{plant.icon}</Text>
+                <View style={styles.plantInfo}>
+                  <View style={styles.plantLine}>
+                    <Text style={styles.plantName} numberOfLines={1}>{plant.name}</Text>
+                    <Text style={styles.plantCount}>
+                      {t('careStreak.plantTasks', { done: row.done, due: row.due })}
+                    </Text>
+                  </View>
+                  <ProgressBar progress={row.done / row.due} color={colors.green} height={4} />
+                </View>
+              </View>
+            );
+          })}
+        </>
+      ) : (
+        <Text style={styles.empty}>{t('careStreak.weekEmpty')}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+    borderRadius: borderRadius.xl,
+    padding: spacing.lg,
+    backgroundColor: colors.card,
+    gap: spacing.sm,
+    ...shadows.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  icon: {
+    fontSize: 28,
+    marginRight: spacing.md,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontFamily: fonts.headingMedium,
+    fontSize: 16,
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.green,
+    marginTop: 2,
+  },
+  longest: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  sectionTitle: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.textPrimary,
+    marginTop: spacing.sm,
+  },
+  weekTotal: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  plantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  plantIcon: {
+    fontSize: 20,
+  },
+  plantInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  plantLine: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  plantName: {
+    flex: 1,
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  plantCount: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  empty: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
@@ -172,7 +172,7 @@ export function DayDetail({
                             </Text>
                           </View>
                           <View style={styles.taskInfo}>
-                            <Text style={styles.taskLabel}>{task.label}</Text>
+                            <Text style={styles.taskLabel}>{t(task.label.key, task.label.params)}</Text>
                             <Text style={styles.taskType}>
                               {getTaskTypeLabel(task.type)}
                               {task.type === "sun" &&
@@ -12,7 +12,8 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { Plant, Note, Reminder } from '../types';
+import { useTranslation } from 'react-i18next';
+import { Plant, Note, Reminder, Task } from '../types';
 import { colors, spacing, borderRadius, shadows, fonts } from '../theme';
 import { DAYS_FULL, MONTHS_ES } from '../data/constants';
 import { formatDate } from '../utils/dates';
@@ -30,6 +31,8 @@ interface DayDetailModalProps {
   notes: Note[];
   reminders: Reminder[];
   season: WaterSeason;
+  /** v1.3 (PROJ-01). Projected tasks for the day, when the calendar has them. */
+  projectedTasks?: Task[];
   onClose: () => void;
   onWater: (plantId: string) => void;
   onSunDone: (plantId: string) => void;
@@ -55,6 +58,7 @@ export function DayDetailModal({
   notes,
   reminders,
   season,
+  projectedTasks,
   onClose,
   onWater,
   onSunDone,
@@ -69,13 +73,14 @@ export function DayDetailModal({
   toastMessage = '',
   onToastDismiss,
 }: DayDetailModalProps) {
+  const { t } = useTranslation();
   const [newNote, setNewNote] = useState('');
   const [newReminder, setNewReminder] = useState('');
   const [showNoteInput, setShowNoteInput] = useState(false);
   const [showReminderInput, setShowReminderInput] = useState(false);
 
   const dateStr = formatDate(date);
-  const tasks = getTasksForDay(plants, date, season);
+  const tasks = projectedTasks ?? getTasksForDay(plants, date, season);
   const dayName = DAYS_FULL[date.getDay()];
   const monthName = MONTHS_ES[date.getMonth()];
 
@@ -154,7 +159,7 @@ export function DayDetailModal({
                         done={isDone}
                         onPress={handlePress}
                         icon={task.icon}
-                        label={task.label}
+                        label={t(task.label.key, task.label.params)}
                         bgColor={
                           task.type === 'fertilize'
                             ? colors.successBg
@@ -0,0 +1,395 @@
+/**
+ * src/components/GardenEditorModal.tsx — v1.3 (GARDEN-01).
+ *
+ * Create / edit / delete an extra space: name, icon, location and climate zone.
+ * Location is optional — "same as home" keeps the home location (balcony, terrace);
+ * a city search (open-meteo geocoding, same endpoint as SettingsScreen) sets its own.
+ *
+ * The modal only reports the result — the caller turns it into addGarden / updateGarden.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import type { ClimateOverride, Garden, Location } from '../types';
+import { GARDEN_ICON_OPTIONS, GARDEN_NAME_MAX_LENGTH } from '../utils/gardens';
+
+interface GeocodingResult {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  country: string;
+  admin1?: string;
+}
+
+export interface GardenDraft {
+  name: string;
+  icon: string;
+  location: Location | null;
+  climateOverride: ClimateOverride;
+}
+
+interface GardenEditorModalProps {
+  visible: boolean;
+  /** null = create a new space. */
+  garden: Garden | null;
+  onSave: (draft: GardenDraft) => void;
+  onDelete?: (garden: Garden) => void;
+  onClose: () => void;
+}
+
+const CLIMATE_OPTIONS: ClimateOverride[] = ['auto', 'northern', 'southern', 'tropical'];
+
+export function GardenEditorModal({
+  visible,
+  garden,
+  onSave,
+  onDelete,
+  onClose,
+}: GardenEditorModalProps) {
+  const { t, i18n } = useTranslation();
+  const insets = useSafeAreaInsets();
+
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState<string>(GARDEN_ICON_OPTIONS[0]);
+  const [location, setLocation] = useState<Location | null>(null);
+  const [climateOverride, setClimateOverride] = useState<ClimateOverride>('auto');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<GeocodingResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Reset the form every time the modal opens (new space or a different one).
+  useEffect(() => {
+    if (!visible) return;
+    setName(garden?.name ?? '');
+    setIcon(garden?.icon ?? GARDEN_ICON_OPTIONS[0]);
+    setLocation(garden?.location ?? null);
+    setClimateOverride(garden?.climateOverride ?? 'auto');
+    setSearchQuery('');
+    setSearchResults([]);
+  }, [visible, garden]);
+
+  const searchCities = async (query: string) => {
+    if (query.length < 2) { setSearchResults([]); return; }
+    setIsSearching(true);
+    try {
+      const response = await fetch(`https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=5&language=${i18n.language}`);
+      const data = await response.json();
+      setSearchResults(data.results || []);
+    } catch { setSearchResults([]); }
+    finally { setIsSearching(false); }
+  };
+
+  const selectCity = (city: GeocodingResult) => {
+    setLocation({ lat: city.latitude, lon: city.longitude, name: city.name, country: city.country, admin1: city.admin1 });
+    setSearchQuery('');
+    setSearchResults([]);
+  };
+
+  const confirmDelete = () => {
+    if (!garden || !onDelete) return;
+    Alert.alert(
+      t('gardens.deleteTitle', { name: garden.name }),
+      t('gardens.deleteMessage'),
+      [
+        { text: t('gardens.cancel'), style: 'cancel' },
+        { text: t('gardens.delete'), style: 'destructive', onPress: () => onDelete(garden) },
+      ]
+    );
+  };
+
+  const canSave = name.trim().length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable
+          style={[styles.sheet, { paddingBottom: spacing.md + insets.bottom }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View style={styles.handle} />
+          <Text style={styles.title}>{garden ? t('gardens.editTitle') : t('gardens.newTitle')}</Text>
+
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.body}>
+            <Text style={styles.label}>{t('gardens.name')}</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('gardens.namePlaceholder')}
+              placeholderTextColor={colors.textMuted}
+              maxLength={GARDEN_NAME_MAX_LENGTH}
+            />
+
+            <View style={styles.chipRow}>
+              {GARDEN_ICON_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.iconChip, icon === option && styles.chipSelected]}
+                  onPress={() => setIcon(option)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: icon === option }}
+                >
+                  <Text style={styles.iconChipText}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>{t('gardens.location')}</Text>
+            {location ? (
+              <View style={styles.locationRow}>
+                <Text style={styles.locationName} numberOfLines={1}>
+                  📍 {location.name}{location.country ? `, ${location.country}` : ''}
+                </Text>
+                <TouchableOpacity onPress={() => setLocation(null)}>
+                  <Text style={styles.linkText}>{t('gardens.useHomeLocation')}</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <>
+                <Text style={styles.muted}>{t('gardens.sameAsHome')}</Text>
+                <View style={styles.searchContainer}>
+                  <TextInput
+                    style={[styles.input, styles.searchInput]}
+                    value={searchQuery}
+                    onChangeText={(text) => { setSearchQuery(text); searchCities(text); }}
+                    placeholder={t('settings.searchCity')}
+                    placeholderTextColor={colors.textMuted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  {isSearching && <ActivityIndicator style={styles.searchSpinner} color={colors.textSecondary} size="small" />}
+                </View>
+                {searchResults.map(city => (
+                  <TouchableOpacity key={city.id} style={styles.searchResult} onPress={() => selectCity(city)}>
+                    <Text style={styles.searchResultName}>{city.name}</Text>
+                    <Text style={styles.muted}>{city.admin1 && `${city.admin1}, `}{city.country}</Text>
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+
+            <Text style={styles.label}>{t('settings.climateOverride.title')}</Text>
+            <View style={styles.chipRow}>
+              {CLIMATE_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.climateChip, climateOverride === option && styles.chipSelected]}
+                  onPress={() => setClimateOverride(option)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: climateOverride === option }}
+                >
+                  <Text style={[styles.climateChipText, climateOverride === option && styles.climateChipTextSelected]}>
+                    {t(`settings.climateOverride.${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {garden && onDelete && (
+              <TouchableOpacity onPress={confirmDelete} style={styles.deleteButton}>
+                <Text style={styles.deleteButtonText}>{t('gardens.delete')}</Text>
+              </TouchableOpacity>
+            )}
+            <View style={styles.actionsSpacer} />
+            <TouchableOpacity onPress={onClose} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>{t('gardens.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onSave({ name: name.trim(), icon, location, climateOverride })}
+              style={[styles.primaryButton, !canSave && styles.primaryButtonDisabled]}
+              disabled={!canSave}
+            >
+              <Text style={styles.primaryButtonText}>{t('gardens.save')}</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: borderRadius.xxl,
+    borderTopRightRadius: borderRadius.xxl,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+    maxHeight: '85%',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 16,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  body: {
+    gap: spacing.sm,
+    paddingBottom: spacing.md,
+  },
+  label: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.textPrimary,
+    marginTop: spacing.sm,
+  },
+  input: {
+    fontFamily: fonts.body,
+    fontSize: 15,
+    color: colors.textPrimary,
+    backgroundColor: colors.bgPrimary,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  iconChip: {
+    width: 44,
+    height: 44,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  iconChipText: {
+    fontSize: 22,
+  },
+  chipSelected: {
+    borderColor: colors.green,
+    backgroundColor: colors.successBg,
+  },
+  climateChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  climateChipText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  climateChipTextSelected: {
+    color: colors.green,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  locationName: {
+    flex: 1,
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  linkText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.green,
+  },
+  muted: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  searchContainer: {
+    justifyContent: 'center',
+  },
+  searchInput: {
+    paddingRight: spacing.xl,
+  },
+  searchSpinner: {
+    position: 'absolute',
+    right: spacing.md,
+  },
+  searchResult: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  searchResultName: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingTop: spacing.sm,
+  },
+  actionsSpacer: {
+    flex: 1,
+  },
+  deleteButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.sm,
+  },
+  deleteButtonText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.dangerText,
+  },
+  primaryButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.green,
+    borderRadius: borderRadius.md,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.white,
+  },
+  secondaryButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  secondaryButtonText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
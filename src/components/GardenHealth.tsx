@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -8,7 +8,7 @@ import {
   TextStyle,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
-import { Plant, PlantHealthStatus, SavedDiagnosis, WeatherData } from '../types';
+import { HealthSnapshot, Plant, PlantHealthStatus, SavedDiagnosis, WeatherData } from '../types';
 import type { WaterSeason } from '../utils/seasonality';
 import { colors, spacing, borderRadius, fonts, shadows } from '../theme';
 import {
@@ -17,7 +17,9 @@ import {
   getHealthBgColor,
   getHealthMessage,
 } from '../utils/plantHealth';
+import { getGardenHealthTrend, type HealthTrendRange } from '../utils/healthHistory';
 import { ProgressBar } from './ProgressBar';
+import { HealthTrendChart } from './HealthTrendChart';
 
 interface GardenHealthProps {
   plants: Plant[];
@@ -25,6 +27,8 @@ interface GardenHealthProps {
   onPlantPress?: (plantId: string) => void;
   diagnosisHistory?: Record<string, SavedDiagnosis[]>;
   season: WaterSeason;
+  /** v1.3 (HEALTH-01). Daily snapshots for the trend chart (averaged over `plants`). */
+  healthHistory?: Record<string, HealthSnapshot[]>;
 }
 
 export function GardenHealth({
@@ -33,9 +37,16 @@ export function GardenHealth({
   onPlantPress,
   diagnosisHistory,
   season,
+  healthHistory,
 }: GardenHealthProps) {
   const { t } = useTranslation();
   const [showInfo, setShowInfo] = useState(false);
+  const [showTrend, setShowTrend] = useState(false);
+  const trendFor = useCallback(
+    (range: HealthTrendRange) =>
+      getGardenHealthTrend(healthHistory ?? {}, plants.map(p => p.id), range, new Date()),
+    [healthHistory, plants]
+  );
   const today = new Date();
   const {
     averageScore,
@@ -81,7 +92,7 @@ export function GardenHealth({
           <View style={styles.headerInfo}>
             <Text style={styles.title}>{t('gardenHealth.title')}</Text>
             <Text style={[styles.status, { color: healthColor }]}>
-              {healthMessage}
+              {t(healthMessage.key)}
             </Text>
           </View>
         </View>
@@ -105,6 +116,16 @@ export function GardenHealth({
       {/* Message + Info toggle */}
       <View style={styles.messageRow}>
         <Text style={[styles.message, { flex: 1 }]}>{getGardenMessage()}</Text>
+        {healthHistory && (
+          <TouchableOpacity
+            onPress={() => setShowTrend(!showTrend)}
+            style={styles.infoButton}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel={t('healthTrend.title')}
+          >
+            <Text style={styles.infoButtonText}>{showTrend ? '✕' : '📈'}</Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           onPress={() => setShowInfo(!showInfo)}
           style={styles.infoButton}
@@ -114,6 +135,14 @@ export function GardenHealth({
         </TouchableOpacity>
       </View>
 
+      {/* Score trend — v1.3 (HEALTH-01) */}
+      {showTrend && (
+        <View style={styles.infoSection}>
+          <Text style={styles.infoTitle}>{t('healthTrend.title')}</Text>
+          <HealthTrendChart trendFor={trendFor} />
+        </View>
+      )}
+
       {/* How it's calculated */}
       {showInfo && (
         <View style={styles.infoSection}>
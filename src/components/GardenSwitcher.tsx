@@ -0,0 +1,137 @@
+/**
+ * src/components/GardenSwitcher.tsx — v1.3 (GARDEN-01).
+ *
+ * Horizontal chip row shown on Today and Plants when Features.MULTIPLE_GARDENS is on
+ * (renders nothing otherwise). First chip is always the implicit home space; tap selects,
+ * long-press on an extra space opens its editor, and the trailing "+" chip creates one.
+ *
+ * Self-contained like PlantCard: reads and writes spaces through useStorage, so both
+ * screens only drop it into their header.
+ */
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import type { Garden } from '../types';
+import { Features } from '../config/features';
+import { useStorage } from '../hooks/useStorage';
+import { HOME_GARDEN_ID, createGarden } from '../utils/gardens';
+import { GardenEditorModal, type GardenDraft } from './GardenEditorModal';
+
+export function GardenSwitcher() {
+  const { t } = useTranslation();
+  const {
+    gardens,
+    activeGardenId,
+    setActiveGarden,
+    addGarden,
+    updateGarden,
+    deleteGarden,
+  } = useStorage();
+
+  // undefined = editor closed, null = creating a new space.
+  const [editing, setEditing] = useState<Garden | null | undefined>(undefined);
+
+  if (!Features.MULTIPLE_GARDENS) return null;
+
+  const handleSave = (draft: GardenDraft) => {
+    if (editing) {
+      updateGarden(editing.id, draft);
+    } else {
+      const garden = createGarden(draft.name, draft.icon, draft.location, draft.climateOverride);
+      addGarden(garden);
+      setActiveGarden(garden.id);
+    }
+    setEditing(undefined);
+  };
+
+  const handleDelete = (garden: Garden) => {
+    deleteGarden(garden.id);
+    setEditing(undefined);
+  };
+
+  const chips = [
+    { id: HOME_GARDEN_ID, label: `🏠 ${t('gardens.home')}`, garden: null as Garden | null },
+    ...gardens.map(g => ({ id: g.id, label: `${g.icon} ${g.name}`, garden: g as Garden | null })),
+  ];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+    >
+      {chips.map(chip => {
+        const active = chip.id === activeGardenId;
+        return (
+          <TouchableOpacity
+            key={chip.id}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => setActiveGarden(chip.id)}
+            onLongPress={chip.garden ? () => setEditing(chip.garden) : undefined}
+            accessibilityRole="button"
+            accessibilityState={{ selected: active }}
+            accessibilityHint={chip.garden ? t('gardens.editHint') : undefined}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+              {chip.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+      <TouchableOpacity
+        style={[styles.chip, styles.addChip]}
+        onPress={() => setEditing(null)}
+        accessibilityRole="button"
+        accessibilityLabel={t('gardens.add')}
+      >
+        <Text style={styles.addChipText}>＋</Text>
+      </TouchableOpacity>
+
+      <GardenEditorModal
+        visible={editing !== undefined}
+        garden={editing ?? null}
+        onSave={handleSave}
+        onDelete={handleDelete}
+        onClose={() => setEditing(undefined)}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.card,
+    maxWidth: 180,
+  },
+  chipActive: {
+    backgroundColor: colors.green,
+    borderColor: colors.green,
+  },
+  chipText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: colors.white,
+  },
+  addChip: {
+    borderStyle: 'dashed',
+  },
+  addChipText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,204 @@
+/**
+ * src/components/HealthTrendChart.tsx — v1.3 (HEALTH-01).
+ *
+ * Health score over the last 30 / 90 / 365 days as a row of columns (no chart dependency in
+ * the app — plain Views). Each column is colored by its health level; days without a
+ * snapshot stay empty. Optional markers (diagnosis dates on a plant) put a dot above their
+ * column, so a recovery after a diagnosis is easy to spot.
+ *
+ * Shared by PlantHealthDetail (one plant) and GardenHealth (the space on Today); the caller
+ * decides how columns are computed (utils/healthHistory.ts).
+ */
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import { getHealthColor, getHealthLevel } from '../utils/plantHealth';
+import {
+  HEALTH_TREND_RANGES,
+  findTrendBucket,
+  summarizeHealthTrend,
+  type HealthTrendBucket,
+  type HealthTrendRange,
+} from '../utils/healthHistory';
+import { parseDate } from '../utils/dates';
+
+interface HealthTrendChartProps {
+  /** Columns for a range, oldest first (getHealthTrend / getGardenHealthTrend). */
+  trendFor: (range: HealthTrendRange) => HealthTrendBucket[];
+  /** ISO days or timestamps flagged above their column. */
+  markers?: string[];
+  /** Legend for the markers, shown only when one falls inside the range. */
+  markerLabel?: string;
+}
+
+const CHART_HEIGHT = 72;
+
+export function HealthTrendChart({ trendFor, markers = [], markerLabel }: HealthTrendChartProps) {
+  const { t, i18n } = useTranslation();
+  const [range, setRange] = useState<HealthTrendRange>(30);
+
+  const buckets = useMemo(() => trendFor(range), [trendFor, range]);
+  const marked = useMemo(() => {
+    const set = new Set<number>();
+    for (const date of markers) {
+      const index = findTrendBucket(buckets, date);
+      if (index >= 0) set.add(index);
+    }
+    return set;
+  }, [buckets, markers]);
+  const summary = summarizeHealthTrend(buckets);
+  const hasData = buckets.some(b => b.score !== null);
+
+  const formatDay = (iso: string) =>
+    parseDate(iso).toLocaleDateString(i18n.language, { day: 'numeric', month: 'short' });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.rangeRow}>
+        {HEALTH_TREND_RANGES.map(r => (
+          <TouchableOpacity
+            key={r}
+            style={[styles.rangeChip, r === range && styles.rangeChipActive]}
+            onPress={() => setRange(r)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: r === range }}
+          >
+            <Text style={[styles.rangeText, r === range && styles.rangeTextActive]}>
+              {t(`healthTrend.range${r}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {hasData ? (
+        <>
+          <View style={styles.markerRow}>
+            {buckets.map((b, i) => (
+              <View key={b.start} style={styles.column}>
+                {marked.has(i) && <View style={styles.marker} />}
+              </View>
+            ))}
+          </View>
+          <View style={styles.chart}>
+            {buckets.map(b => (
+              <View key={b.start} style={styles.column}>
+                {b.score !== null && (
+                  <View
+                    style={[
+                      styles.bar,
+                      {
+                        height: Math.max(2, (b.score / 100) * CHART_HEIGHT),
+                        backgroundColor: getHealthColor(getHealthLevel(b.score)),
+                      },
+                    ]}
+                  />
+                )}
+              </View>
+            ))}
+          </View>
+          <View style={styles.axisRow}>
+            <Text style={styles.axisText}>{formatDay(buckets[0].start)}</Text>
+            <Text style={styles.axisText}>{t('healthTrend.today')}</Text>
+          </View>
+          {summary && (
+            <Text style={styles.summary}>
+              {t(`healthTrend.${summary.direction}`, { count: Math.abs(summary.change) })}
+            </Text>
+          )}
+          {marked.size > 0 && markerLabel && (
+            <View style={styles.legendRow}>
+              <View style={styles.marker} />
+              <Text style={styles.axisText}>{markerLabel}</Text>
+            </View>
+          )}
+        </>
+      ) : (
+        <Text style={styles.empty}>{t('healthTrend.empty')}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  rangeChip: {
+    paddingVertical: 4,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rangeChipActive: {
+    backgroundColor: colors.green,
+    borderColor: colors.green,
+  },
+  rangeText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  rangeTextActive: {
+    color: colors.white,
+  },
+  markerRow: {
+    flexDirection: 'row',
+    height: 8,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  bar: {
+    alignSelf: 'stretch',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  marker: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.waterBlue,
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  axisText: {
+    fontFamily: fonts.body,
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+  summary: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.textPrimary,
+    marginTop: spacing.xs,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  empty: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
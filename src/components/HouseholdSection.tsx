@@ -0,0 +1,308 @@
+/**
+ * src/components/HouseholdSection.tsx — v1.3 (HOUSE-01).
+ *
+ * Settings section for household sharing. Each of the user's own gardens can be shared with
+ * an invite code (sent through the share sheet); gardens shared with the user show who owns
+ * them and can be left. Below, a field to join someone else's garden with their code.
+ *
+ * Membership calls live in services/householdService.ts; the shared plants arrive through
+ * the normal sync, so joining or leaving ends with a full download (SyncStatusValue.pullAll).
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Share, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import { useStorage } from '../hooks/useStorage';
+import { trackEvent } from '../services/analyticsService';
+import {
+  acceptGardenInvite,
+  createGardenInvite,
+  listGardenHouseholds,
+  removeGardenMember,
+  type GardenHousehold,
+} from '../services/householdService';
+import {
+  INVITE_TTL_DAYS,
+  formatInviteCode,
+  ownGardens,
+  sharedWithMe,
+  type HouseholdError,
+} from '../utils/household';
+import type { SyncStatusValue } from '../hooks/useSyncStatus';
+import type { Garden, HouseholdPerson } from '../types';
+
+interface HouseholdSectionProps {
+  sync: SyncStatusValue;
+}
+
+export function HouseholdSection({ sync }: HouseholdSectionProps) {
+  const { t } = useTranslation();
+  const { gardens } = useStorage();
+  const [households, setHouseholds] = useState<GardenHousehold[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [code, setCode] = useState('');
+
+  const refresh = useCallback(async () => {
+    const result = await listGardenHouseholds();
+    if (result.success) setHouseholds(result.households ?? []);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, gardens.length]);
+
+  const nameOf = (person: HouseholdPerson) => person.name ?? t('settings.household.someone');
+  const householdOf = (garden: Garden) => households.find(h => h.gardenId === garden.id && (
+    garden.sharedBy ? h.owner.userId === garden.sharedBy.userId : h.owner.userId === sync.userId
+  ));
+
+  const showError = (error?: HouseholdError) => {
+    Alert.alert(t('settings.household.errorTitle'), t(`settings.household.errors.${error ?? 'unknown'}`));
+  };
+
+  const handleInvite = async (garden: Garden) => {
+    setBusy(true);
+    try {
+      const result = await createGardenInvite(sync.userId, garden.id);
+      if (!result.success || !result.code) {
+        showError(result.error);
+        return;
+      }
+      trackEvent('household_invite_created', { memberCount: householdOf(garden)?.members.length ?? 0 });
+      await Share.share({
+        message: t('settings.household.inviteMessage', {
+          garden: garden.name,
+          code: formatInviteCode(result.code),
+          count: INVITE_TTL_DAYS,
+        }),
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    setBusy(true);
+    try {
+      const result = await acceptGardenInvite(code);
+      if (!result.success) {
+        showError(result.error);
+        return;
+      }
+      trackEvent('household_joined');
+      setCode('');
+      await sync.pullAll();
+      await refresh();
+      Alert.alert(t('settings.household.title'), t('settings.household.joined'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const endMembership = async (household: GardenHousehold, memberId: string) => {
+    setBusy(true);
+    try {
+      const result = await removeGardenMember(household.cloudId, memberId);
+      if (!result.success) {
+        showError(result.error);
+        return;
+      }
+      if (memberId === sync.userId) await sync.pullAll();
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmRemove = (garden: Garden, household: GardenHousehold, member: HouseholdPerson) => {
+    Alert.alert(
+      t('settings.household.removeTitle'),
+      t('settings.household.removeMessage', { name: nameOf(member), garden: garden.name }),
+      [
+        { text: t('settings.household.cancel'), style: 'cancel' },
+        { text: t('settings.household.remove'), style: 'destructive', onPress: () => endMembership(household, member.userId) },
+      ]
+    );
+  };
+
+  const confirmLeave = (garden: Garden, household: GardenHousehold) => {
+    Alert.alert(
+      t('settings.household.leaveTitle'),
+      t('settings.household.leaveMessage', { garden: garden.name }),
+      [
+        { text: t('settings.household.cancel'), style: 'cancel' },
+        { text: t('settings.household.leave'), style: 'destructive', onPress: () => endMembership(household, sync.userId) },
+      ]
+    );
+  };
+
+  const mine = ownGardens(gardens);
+  const shared = sharedWithMe(gardens);
+
+  return (
+    <View style={styles.card}>
+      {mine.length === 0 && <Text style={styles.muted}>{t('settings.household.noGardens')}</Text>}
+
+      {mine.map(garden => {
+        const household = householdOf(garden);
+        const members = household?.members ?? [];
+        return (
+          <View key={garden.id} style={styles.gardenRow}>
+            <View style={styles.gardenHeader}>
+              <Text style={styles.gardenName} numberOfLines={1}>{garden.icon} {garden.name}</Text>
+              <TouchableOpacity onPress={() => handleInvite(garden)} disabled={busy}>
+                <Text style={[styles.link, busy && styles.disabled]}>{t('settings.household.invite')}</Text>
+              </TouchableOpacity>
+            </View>
+            {members.length === 0 ? (
+              <Text style={styles.muted}>{t('settings.household.onlyYou')}</Text>
+            ) : (
+              members.map(member => (
+                <View key={member.userId} style={styles.memberRow}>
+                  <Text style={styles.memberName} numberOfLines={1}>{nameOf(member)}</Text>
+                  <TouchableOpacity onPress={() => household && confirmRemove(garden, household, member)} disabled={busy}>
+                    <Text style={[styles.danger, busy && styles.disabled]}>{t('settings.household.remove')}</Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+        );
+      })}
+
+      {shared.map(garden => {
+        const household = householdOf(garden);
+        return (
+          <View key={garden.id} style={styles.gardenRow}>
+            <View style={styles.gardenHeader}>
+              <Text style={styles.gardenName} numberOfLines={1}>{garden.icon} {garden.name}</Text>
+              {household && (
+                <TouchableOpacity onPress={() => confirmLeave(garden, household)} disabled={busy}>
+                  <Text style={[styles.danger, busy && styles.disabled]}>{t('settings.household.leave')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.muted}>
+              {t('settings.household.sharedBy', { name: garden.sharedBy ? nameOf(garden.sharedBy) : t('settings.household.someone') })}
+            </Text>
+          </View>
+        );
+      })}
+
+      <Text style={styles.label}>{t('settings.household.joinLabel')}</Text>
+      <View style={styles.joinRow}>
+        <TextInput
+          style={styles.input}
+          value={code}
+          onChangeText={setCode}
+          placeholder={t('settings.household.codePlaceholder')}
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          maxLength={12}
+        />
+        <TouchableOpacity
+          style={[styles.primaryButton, (busy || code.trim() === '') && styles.disabled]}
+          onPress={handleJoin}
+          disabled={busy || code.trim() === ''}
+        >
+          {busy ? (
+            <ActivityIndicator color={colors.white} size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t('settings.household.join')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.card,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    gap: spacing.md,
+  },
+  gardenRow: {
+    gap: spacing.xs,
+    paddingBottom: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  gardenHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  gardenName: {
+    flex: 1,
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  memberName: {
+    flex: 1,
+    fontFamily: fonts.body,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  link: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.green,
+  },
+  danger: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.dangerText,
+  },
+  label: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  joinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    fontFamily: fonts.body,
+    fontSize: 16,
+    color: colors.textPrimary,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+    backgroundColor: colors.green,
+    borderRadius: borderRadius.lg,
+  },
+  primaryButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.white,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  muted: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
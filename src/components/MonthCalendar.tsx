@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ViewStyle, TextStyle } from 'react-native';
-import { Plant, Note, Reminder } from '../types';
+import { Plant, Note, Reminder, Task } from '../types';
 import { colors, spacing, borderRadius, fonts } from '../theme';
 import { DAYS_ES } from '../data/constants';
 import { formatDate, isSameDay } from '../utils/dates';
@@ -14,6 +14,8 @@ interface MonthCalendarProps {
   notes: Record<string, Note[]>;
   reminders: Record<string, Reminder[]>;
   season: WaterSeason;
+  /** v1.3 (PROJ-01). Projected tasks per ISO day (projectTasks); days not in it use getTasksForDay. */
+  tasksByDay?: Record<string, Task[]>;
   selectedDate: Date | null;
   onSelectDate: (date: Date) => void;
 }
@@ -25,6 +27,7 @@ export function MonthCalendar({
   notes,
   reminders,
   season,
+  tasksByDay,
   selectedDate,
   onSelectDate,
 }: MonthCalendarProps) {
@@ -62,7 +65,7 @@ export function MonthCalendar({
 
   const getIndicators = (date: Date) => {
     const dateStr = formatDate(date);
-    const tasks = getTasksForDay(plants, date, season);
+    const tasks = tasksByDay?.[dateStr] ?? getTasksForDay(plants, date, season);
     const hasNotes = (notes[dateStr] || []).length > 0;
     const hasReminders = (reminders[dateStr] || []).length > 0;
     const hasWater = tasks.some(t => t.type === 'water' || t.type === 'check_soil');
@@ -30,17 +30,27 @@ import { FertilizeCard } from './plant-detail/FertilizeCard';
 // Phase 21 (JOURNAL-04): 6th Diario section + quick-add sheet portal.
 import JournalSection from './plant-detail/JournalSection';
 import JournalQuickAddSheet from './plant-detail/JournalQuickAddSheet';
+import { PlantStatsSection } from './plant-detail/PlantStatsSection';
 import { compareUserVsCatalog, OverrideField, OverrideResult } from '../utils/overrideDetection';
 import { usePremiumGate } from '../config/premium';
 import { usePremium } from '../hooks/usePremium';
 import { useStorage } from '../hooks/useStorage';
 import { getEffectiveSeason, type WaterSeason } from '../utils/seasonality';
-import { getSeasonalInterval } from '../utils/plantLogic';
+import { getSeasonalInterval, getSeasonalFertilizeInterval } from '../utils/plantLogic';
 import { getLightLabel } from '../utils/lightLabel';
+import { getEffectiveCareEvents } from '../utils/careLog';
+import { suggestWaterInterval } from '../utils/adaptiveWatering';
+import { getPlantStats } from '../utils/plantStats';
+import { HOME_GARDEN_ID, getPlantGardenId } from '../utils/gardens';
+import { canDeletePlant } from '../utils/household';
+import { PLACEMENT_ICONS, PLACEMENT_OPTIONS, getPlantPlacement } from '../utils/placement';
+import { Features } from '../config/features';
+import { formatDate, parseDate } from '../utils/dates';
 
 /** v1.2 Phase 19 (TOX-04) — modal section anchors for scroll-to behavior.
- *  v1.2 Phase 21 (JOURNAL-04) — extended with 'diario' for the 6th educational section. */
-export type ModalSectionId = 'que-hacer' | 'donde' | 'por-que' | 'tus-ajustes' | 'mascotas' | 'diario';
+ *  v1.2 Phase 21 (JOURNAL-04) — extended with 'diario' for the 6th educational section.
+ *  v1.3 (STATS-01) — 'estadisticas' for the per-plant statistics section. */
+export type ModalSectionId = 'que-hacer' | 'donde' | 'por-que' | 'tus-ajustes' | 'mascotas' | 'diario' | 'estadisticas';
 
 interface MyPlantDetailModalProps {
   visible: boolean;
@@ -66,7 +76,7 @@ export function MyPlantDetailModal({
   visible,
   plant,
   weather,
-  latitude,
+  latitude: latitudeProp,
   onClose,
   onDelete,
   onAddPhoto,
@@ -75,7 +85,7 @@ export function MyPlantDetailModal({
   initialExpanded,
   onJournalEntrySaved,
 }: MyPlantDetailModalProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [showDiagnosis, setShowDiagnosis] = useState(false);
   const [selectedDiagnosis, setSelectedDiagnosis] = useState<SavedDiagnosis | null>(null);
   const [resumeDiagnosis, setResumeDiagnosis] = useState<SavedDiagnosis | null>(null);
@@ -87,13 +97,25 @@ export function MyPlantDetailModal({
   const {
     diagnosisCount,
     getDiagnosesForPlant,
-    climateOverride,
+    // v1.3 (GARDEN-01) — season inputs come from the plant's space; move between spaces.
+    gardens,
+    getGardenContext,
+    movePlantToGarden,
     // Phase 21 (JOURNAL-04) — read + mutators from Plan 21-03.
     journals,
     addJournalEntry,
     deleteJournalEntry,
+    // v1.3 (ADAPT-01) — care history feeds the adaptive interval suggestion.
+    careLog,
+    updatePlant,
   } = useStorage();
 
+  // v1.3 (GARDEN-01): a plant in another space follows that space's location + climate;
+  // home plants keep the latitude prop.
+  const gardenContext = getGardenContext(plant?.gardenId);
+  const climateOverride = gardenContext.climateOverride;
+  const latitude = plant?.gardenId ? gardenContext.location?.lat ?? null : latitudeProp;
+
   // Phase 19 (TOX-04): ScrollView ref + section layout tracking for scroll-to-section.
   const scrollViewRef = useRef<ScrollView>(null);
   const sectionLayouts = useRef<Partial<Record<ModalSectionId, number>>>({});
@@ -175,6 +197,33 @@ export function MyPlantDetailModal({
     return { currentSeason: season, waterInterval: interval, lightLabel: label, seasonKey: key };
   }, [plant, latitude, climateOverride, t]);
 
+  // v1.3 (ADAPT-01): learned interval for soil_check plants. Null until enough history exists
+  // or when the learned value already matches the schedule — the row simply does not render.
+  const waterSuggestion = useMemo(() => {
+    if (!plant) return null;
+    const locationObj: Location | null = latitude !== null ? { lat: latitude, lon: 0, name: '', country: '' } : null;
+    return suggestWaterInterval(
+      plant,
+      getEffectiveCareEvents(careLog[plant.id]),
+      currentSeason,
+      (date) => getEffectiveSeason(locationObj, climateOverride, date)
+    );
+  }, [plant, careLog, currentSeason, latitude, climateOverride]);
+
+  // v1.3 (STATS-01): care-plan statistics from the stored care log, journal, diagnoses and photos.
+  const plantStats = useMemo(() => {
+    if (!plant) return null;
+    return getPlantStats({
+      plant,
+      careEvents: careLog[plant.id],
+      journal: journals[plant.id],
+      diagnoses: allPlantDiagnoses,
+      waterInterval,
+      fertilizeInterval: getSeasonalFertilizeInterval(plant, strictDbEntry, currentSeason),
+      today: new Date(),
+    });
+  }, [plant, careLog, journals, allPlantDiagnoses, waterInterval, strictDbEntry, currentSeason]);
+
   const resolvedImageUrl = useMemo(() => {
     if (!plant) return null;
     if (plant.imageUrl) return plant.imageUrl;
@@ -493,6 +542,106 @@ export function MyPlantDetailModal({
                     </Text>
                   )}
                 </View>
+                {/* v1.3 (ADAPT-01) — learned check-in interval; accepting writes into waterSchedule. */}
+                {waterSuggestion && plant.waterSchedule && (
+                  <View style={styles.adaptiveCard}>
+                    <Text style={styles.adaptiveTitle}>🤚 {t('plantDetailModal.adaptive.title')}</Text>
+                    <Text style={styles.eduCopy}>
+                      {t('plantDetailModal.adaptive.body', {
+                        suggested: waterSuggestion.suggestedDays,
+                        current: waterSuggestion.currentDays,
+                        season: t(`plantDetail.seasonBadge.${waterSuggestion.bucket}`),
+                        count: waterSuggestion.sampleCount,
+                      })}
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.adaptiveButton}
+                      onPress={() => {
+                        if (!plant.waterSchedule) return;
+                        updatePlant(
+                          plant.id,
+                          { waterSchedule: { ...plant.waterSchedule, [waterSuggestion.bucket]: waterSuggestion.suggestedDays } },
+                          { fromUserEdit: true }
+                        );
+                      }}
+                      activeOpacity={0.7}
+                      accessibilityRole="button"
+                    >
+                      <Text style={styles.adaptiveButtonText}>
+                        {t('plantDetailModal.adaptive.accept', { days: waterSuggestion.suggestedDays })}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {/* v1.3 (PLACE-01) — where the plant lives; drives weather alerts and health. */}
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>{t('placement.label')}</Text>
+                  <View style={styles.choiceChips}>
+                    {PLACEMENT_OPTIONS.map(option => {
+                      const selected = getPlantPlacement(plant) === option;
+                      return (
+                        <TouchableOpacity
+                          key={option}
+                          style={[styles.choiceChip, selected && styles.choiceChipSelected]}
+                          onPress={() => { if (!selected) updatePlant(plant.id, { placement: option }, { fromUserEdit: true }); }}
+                          accessibilityRole="button"
+                          accessibilityState={{ selected }}
+                        >
+                          <Text style={[styles.choiceChipText, selected && styles.choiceChipTextSelected]} numberOfLines={1}>
+                            {PLACEMENT_ICONS[option]} {t(`placement.${option}`)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <Text style={styles.overrideNote}>{t('placement.hint')}</Text>
+                </View>
+                {/* v1.3 (HEALTH-02) — feeds the "repotting overdue" health rule. */}
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>{t('plantDetailModal.repot.label')}</Text>
+                  <Text style={styles.settingValue}>
+                    {plant.lastRepotted
+                      ? parseDate(plant.lastRepotted).toLocaleDateString(i18n.language, { day: 'numeric', month: 'short', year: 'numeric' })
+                      : t('plantDetailModal.repot.never')}
+                  </Text>
+                  {plant.lastRepotted !== formatDate(new Date()) && (
+                    <View style={styles.choiceChips}>
+                      <TouchableOpacity
+                        style={styles.choiceChip}
+                        onPress={() => updatePlant(plant.id, { lastRepotted: formatDate(new Date()) }, { fromUserEdit: true })}
+                        accessibilityRole="button"
+                      >
+                        <Text style={styles.choiceChipText}>🪴 {t('plantDetailModal.repot.today')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  <Text style={styles.overrideNote}>{t('plantDetailModal.repot.hint')}</Text>
+                </View>
+                {/* v1.3 (GARDEN-01) — move the plant to another space. */}
+                {Features.MULTIPLE_GARDENS && gardens.length > 0 && (
+                  <View style={styles.settingRow}>
+                    <Text style={styles.settingLabel}>{t('gardens.plantSpace')}</Text>
+                    <View style={styles.choiceChips}>
+                      {[{ id: HOME_GARDEN_ID, label: `🏠 ${t('gardens.home')}` },
+                        ...gardens.map(g => ({ id: g.id, label: `${g.icon} ${g.name}` }))].map(option => {
+                        const selected = getPlantGardenId(plant) === option.id;
+                        return (
+                          <TouchableOpacity
+                            key={option.id}
+                            style={[styles.choiceChip, selected && styles.choiceChipSelected]}
+                            onPress={() => { if (!selected) movePlantToGarden(plant.id, option.id); }}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected }}
+                          >
+                            <Text style={[styles.choiceChipText, selected && styles.choiceChipTextSelected]} numberOfLines={1}>
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                )}
               </EducationalSection>
             </View>
 
@@ -514,6 +663,19 @@ export function MyPlantDetailModal({
               />
             </View>
 
+            {/* v1.3 (STATS-01): statistics — collapsed by default, the numbers are for a closer look. */}
+            {plantStats && (
+              <View onLayout={onSectionLayout('estadisticas')}>
+                <EducationalSection
+                  emoji="📊"
+                  title={t('plantStats.title')}
+                  defaultExpanded={initialSection === 'estadisticas'}
+                >
+                  <PlantStatsSection stats={plantStats} />
+                </EducationalSection>
+              </View>
+            )}
+
             {/* Diagnosis History */}
             {plantDiagnoses.length > 0 && (
               <View style={styles.historySection}>
@@ -537,14 +699,16 @@ export function MyPlantDetailModal({
               onRequestPremium={() => requestPaywall('photo_album')}
             />
 
-            {/* Delete */}
-            <TouchableOpacity
-              style={styles.deleteButton}
-              onPress={handleDelete}
-              activeOpacity={0.7}
-            >
-              <Text style={styles.deleteButtonText}>{t('plantDetail.deletePlant')}</Text>
-            </TouchableOpacity>
+            {/* Delete — only the owner deletes plants of a shared garden (HOUSE-01) */}
+            {canDeletePlant(plant, gardens) && (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={handleDelete}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.deleteButtonText}>{t('plantDetail.deletePlant')}</Text>
+              </TouchableOpacity>
+            )}
           </ScrollView>
           {/* W3: tooltip is a sibling of ScrollView (NOT inside it) so its
               absolute-fill backdrop overlays the entire modal card. UX-01. */}
@@ -850,6 +1014,55 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
     fontStyle: 'italic',
   },
+  adaptiveCard: {
+    backgroundColor: colors.waterLight,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  adaptiveTitle: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.waterBlue,
+    marginBottom: spacing.xs,
+  },
+  adaptiveButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: colors.waterBlue,
+    borderRadius: borderRadius.sm,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    marginTop: spacing.sm,
+  },
+  adaptiveButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.white,
+  },
+  choiceChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  choiceChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  choiceChipSelected: {
+    borderColor: colors.green,
+    backgroundColor: colors.successBg,
+  },
+  choiceChipText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  choiceChipTextSelected: {
+    color: colors.green,
+  },
   nutrientsCardEdu: {
     backgroundColor: 'rgba(0,0,0,0.03)',
     borderRadius: borderRadius.md,
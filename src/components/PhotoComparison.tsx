@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  LayoutChangeEvent,
+  StyleProp,
+  ImageStyle,
+  ViewStyle,
+} from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { useSharedValue, useAnimatedStyle } from 'react-native-reanimated';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import { DiagnosisSeverity } from '../types';
+import { TRACKING_STATUS_CONFIG } from '../services/problemTrackingService';
+import { ComparisonPhoto, getComparisonPair, ORIGINAL_PHOTO_ID } from '../utils/photoComparison';
+
+// v1.3 (COMPARE-01): original diagnosis photo next to a follow-up photo, side by side or
+// stacked under a drag slider. Photos come from getComparisonPhotos (oldest first).
+
+type ComparisonMode = 'side' | 'slider';
+
+const SEVERITY_LABEL_KEYS: Record<DiagnosisSeverity, string> = {
+  healthy: 'diagnosis.severityHealthy',
+  minor: 'diagnosis.severityMinor',
+  moderate: 'diagnosis.severityModerate',
+  severe: 'diagnosis.severitySevere',
+};
+
+const SLIDER_HEIGHT = 220;
+const SLIDER_A11Y_STEP = 0.1;
+
+interface PhotoComparisonProps {
+  photos: ComparisonPhoto[];
+  plantIcon: string;
+}
+
+interface PhotoCaptionProps {
+  photo: ComparisonPhoto;
+}
+
+function PhotoCaption({ photo }: PhotoCaptionProps) {
+  const { t } = useTranslation();
+  const isOriginal = photo.id === ORIGINAL_PHOTO_ID;
+  const status = photo.statusChange ? TRACKING_STATUS_CONFIG[photo.statusChange] : null;
+
+  return (
+    <View style={styles.caption}>
+      <Text style={styles.captionTitle}>
+        {isOriginal ? t('diagnosis.tracking.comparison.original') : t('diagnosis.tracking.comparison.followUp')}
+      </Text>
+      <Text style={styles.captionDate}>{new Date(photo.date).toLocaleDateString()}</Text>
+      {status ? (
+        <View style={[styles.statusBadge, { backgroundColor: status.color + '26' }]}>
+          <Text style={[styles.statusBadgeText, { color: status.color }]}>
+            {status.emoji} {t(status.labelKey)}
+          </Text>
+        </View>
+      ) : photo.severity ? (
+        <View style={[styles.statusBadge, styles.severityBadge]}>
+          <Text style={[styles.statusBadgeText, styles.severityBadgeText]}>
+            {t(SEVERITY_LABEL_KEYS[photo.severity])}
+          </Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+export function PhotoComparison({ photos, plantIcon }: PhotoComparisonProps) {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<ComparisonMode>('side');
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [failedUris, setFailedUris] = useState<Record<string, boolean>>({});
+
+  // Slider: the original is clipped to `position` px over the full-width follow-up
+  const [sliderWidth, setSliderWidth] = useState(0);
+  const width = useSharedValue(0);
+  const position = useSharedValue(0);
+
+  const markFailed = (uri: string) => setFailedUris((prev) => ({ ...prev, [uri]: true }));
+
+  const renderPhoto = (photo: ComparisonPhoto, style: StyleProp<ImageStyle>) =>
+    failedUris[photo.uri] ? (
+      <View style={[style as StyleProp<ViewStyle>, styles.photoPlaceholder]}>
+        <Text style={styles.photoPlaceholderIcon}>{plantIcon}</Text>
+      </View>
+    ) : (
+      <Image
+        source={{ uri: photo.uri }}
+        style={style}
+        resizeMode="cover"
+        onError={() => markFailed(photo.uri)}
+      />
+    );
+
+  const handleSliderLayout = (event: LayoutChangeEvent) => {
+    const measured = event.nativeEvent.layout.width;
+    width.value = measured;
+    position.value = measured / 2;
+    setSliderWidth(measured);
+  };
+
+  // Same scroll co-existence as PlantCard's swipe: horizontal drags only
+  const panGesture = Gesture.Pan()
+    .activeOffsetX([-10, 10])
+    .failOffsetY([-10, 10])
+    .onUpdate((event) => {
+      'worklet';
+      position.value = Math.min(width.value, Math.max(0, event.x));
+    });
+
+  const clipStyle = useAnimatedStyle(() => ({ width: position.value }));
+  const handleStyle = useAnimatedStyle(() => ({ transform: [{ translateX: position.value - 1 }] }));
+
+  const pair = getComparisonPair(photos, afterId);
+  if (!pair) return null;
+  const { before, after, days } = pair;
+
+  const nudgeSlider = (direction: 1 | -1) => {
+    position.value = Math.min(width.value, Math.max(0, position.value + direction * width.value * SLIDER_A11Y_STEP));
+  };
+
+  const followUps = photos.slice(1);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('diagnosis.tracking.comparison.title')}</Text>
+        <View style={styles.modeToggle}>
+          {(['side', 'slider'] as ComparisonMode[]).map((m) => (
+            <TouchableOpacity
+              key={m}
+              style={[styles.modeButton, mode === m && styles.modeButtonActive]}
+              onPress={() => setMode(m)}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityState={{ selected: mode === m }}
+            >
+              <Text style={[styles.modeButtonText, mode === m && styles.modeButtonTextActive]}>
+                {m === 'side' ? t('diagnosis.tracking.comparison.sideBySide') : t('diagnosis.tracking.comparison.slider')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {mode === 'side' ? (
+        <View style={styles.sideBySide}>
+          <View style={styles.sidePane}>
+            {renderPhoto(before, styles.sidePhoto)}
+            <PhotoCaption photo={before} />
+          </View>
+          <View style={styles.sidePane}>
+            {renderPhoto(after, styles.sidePhoto)}
+            <PhotoCaption photo={after} />
+          </View>
+        </View>
+      ) : (
+        <>
+          <GestureDetector gesture={panGesture}>
+            <View
+              style={styles.slider}
+              onLayout={handleSliderLayout}
+              accessible
+              accessibilityRole="adjustable"
+              accessibilityLabel={t('diagnosis.tracking.comparison.sliderA11y')}
+              accessibilityHint={t('diagnosis.tracking.comparison.sliderHint')}
+              accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+              onAccessibilityAction={(event) => nudgeSlider(event.nativeEvent.actionName === 'increment' ? 1 : -1)}
+            >
+              {renderPhoto(after, styles.sliderPhoto)}
+              <Animated.View style={[styles.sliderClip, clipStyle]}>
+                {renderPhoto(before, [styles.sliderPhoto, { width: sliderWidth }])}
+              </Animated.View>
+              <Animated.View style={[styles.sliderHandle, handleStyle]} pointerEvents="none" />
+            </View>
+          </GestureDetector>
+          <View style={styles.sliderCaptions}>
+            <PhotoCaption photo={before} />
+            <PhotoCaption photo={after} />
+          </View>
+        </>
+      )}
+
+      <Text style={styles.daysApart}>
+        {days === 0
+          ? t('diagnosis.tracking.comparison.sameDay')
+          : t('diagnosis.tracking.comparison.daysApart', { count: days })}
+      </Text>
+
+      {/* Follow-up picker — only when there is more than one to choose from */}
+      {followUps.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.thumbnails}>
+          {followUps.map((photo) => (
+            <TouchableOpacity
+              key={photo.id}
+              onPress={() => setAfterId(photo.id)}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel={new Date(photo.date).toLocaleDateString()}
+              accessibilityState={{ selected: photo.id === after.id }}
+            >
+              {renderPhoto(photo, [styles.thumbnail, photo.id === after.id && styles.thumbnailActive])}
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.bgSecondary,
+    borderRadius: borderRadius.sm,
+    padding: 2,
+  },
+  modeButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+  },
+  modeButtonActive: {
+    backgroundColor: colors.card,
+  },
+  modeButtonText: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  modeButtonTextActive: {
+    fontFamily: fonts.bodySemiBold,
+    color: colors.green,
+  },
+  sideBySide: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  sidePane: {
+    flex: 1,
+  },
+  sidePhoto: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: borderRadius.md,
+  },
+  slider: {
+    height: SLIDER_HEIGHT,
+    borderRadius: borderRadius.md,
+    overflow: 'hidden',
+    backgroundColor: colors.bgSecondary,
+  },
+  sliderPhoto: {
+    width: '100%',
+    height: SLIDER_HEIGHT,
+  },
+  sliderClip: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    bottom: 0,
+    overflow: 'hidden',
+  },
+  sliderHandle: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    width: 2,
+    backgroundColor: colors.white,
+  },
+  sliderCaptions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  caption: {
+    paddingTop: spacing.xs,
+  },
+  captionTitle: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 12,
+    color: colors.textPrimary,
+  },
+  captionDate: {
+    fontFamily: fonts.body,
+    fontSize: 11,
+    color: colors.textMuted,
+    marginBottom: spacing.xs,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  statusBadgeText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 11,
+  },
+  severityBadge: {
+    backgroundColor: colors.bgSecondary,
+  },
+  severityBadgeText: {
+    color: colors.textSecondary,
+  },
+  photoPlaceholder: {
+    backgroundColor: colors.bgSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photoPlaceholderIcon: {
+    fontSize: 32,
+  },
+  daysApart: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textMuted,
+    marginTop: spacing.sm,
+  },
+  thumbnails: {
+    gap: spacing.sm,
+    paddingTop: spacing.sm,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: borderRadius.sm,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  thumbnailActive: {
+    borderColor: colors.green,
+  },
+});
@@ -8,10 +8,10 @@ import Animated, {
   withTiming,
   runOnJS,
 } from 'react-native-reanimated';
-import { Plant, WeatherData, SavedDiagnosis, TrackingStatus, Location, HealthLevel } from '../types';
+import { Plant, WeatherData, SavedDiagnosis, TrackingStatus, Location, HealthLevel, DeferrableTask, TaskDeferralKind } from '../types';
 import { colors, spacing, borderRadius, shadows, fonts } from '../theme';
 import { TRACKING_STATUS_CONFIG } from '../services/problemTrackingService';
-import { getNextWaterDate, getSeasonalInterval, getNextFertilizeDate } from '../utils/plantLogic';
+import { getNextWaterDate, getSeasonalInterval, getNextFertilizeDate, getSeasonalFertilizeInterval } from '../utils/plantLogic';
 import { getEffectiveSeason } from '../utils/seasonality';
 import { useStorage } from '../hooks/useStorage';
 import { isSameDay, formatDate } from '../utils/dates';
@@ -23,6 +23,9 @@ import { PlantHealthDetail } from './PlantHealthDetail';
 import { getPlantCategories, getCatalogEntry } from '../data/plantDatabase';
 import { PetToxicityBadge } from './PetToxicityBadge';
 import { getPetToxicity, shouldShowBadge } from '../utils/petToxicity';
+import { careByOthersOn, findLastCareEvent } from '../utils/careLog';
+import { canDeletePlant } from '../utils/household';
+import { TaskDeferSheet } from './TaskDeferSheet';
 
 // Phase 18 GAM-03: HealthLevel → mood-emoji mapping (frozen by REQUIREMENTS).
 const moodEmojiByLevel: Record<HealthLevel, string> = {
@@ -43,6 +46,10 @@ interface PlantCardProps {
   onOutdoorDone?: (plantId: string) => void;
   // Phase 20 (FERT-06): optional — invoked when fertilize TaskButton is tapped on mode='tasks' card.
   onFertilizeDone?: (plantId: string) => void;
+  // v1.3 (ADAPT-01): optional — soil_check check-in outcome "still moist". Shown next to the water button.
+  onSoilMoist?: (plantId: string) => void;
+  // v1.3 (SNOOZE-01): optional — enables the "⋯" skip/snooze sheet on water/check_soil and fertilize buttons.
+  onDeferTask?: (plantId: string, task: DeferrableTask, kind: TaskDeferralKind, dueDate: string, days: number) => void;
   // Phase 18 (CARD-01): re-purposed — invoked on swipe-commit (was Alert-confirmed delete).
   // Plan 04 wires this to the optimistic delete + Toast undo flow.
   onDelete: (plantId: string) => void;
@@ -63,13 +70,15 @@ interface PlantCardProps {
 export function PlantCard({
   plant,
   today,
-  latitude,
+  latitude: latitudeProp,
   weather,
   mode = 'tasks',
   onWater,
   onSunDone,
   onOutdoorDone,
   onFertilizeDone,
+  onSoilMoist,
+  onDeferTask,
   onDelete,
   onPress,
   onToggleFavorite,
@@ -80,8 +89,8 @@ export function PlantCard({
   onSwipeCommitted,
   onOpenToMascotas,
 }: PlantCardProps) {
-  const { t } = useTranslation();
-  const { climateOverride } = useStorage();
+  const { t, i18n } = useTranslation();
+  const { careLog, healthHistory, gardens, getGardenContext } = useStorage();
   const [showHealthDetail, setShowHealthDetail] = useState(false);
 
   const todayStr = formatDate(today);
@@ -92,6 +101,12 @@ export function PlantCard({
   const showCatBadge = shouldShowBadge(tox.cats);
   const showDogBadge = shouldShowBadge(tox.dogs);
 
+  // v1.3 (GARDEN-01): a plant in another space follows that space's location + climate;
+  // home plants keep the latitude prop.
+  const gardenContext = getGardenContext(plant.gardenId);
+  const climateOverride = gardenContext.climateOverride;
+  const latitude = plant.gardenId ? gardenContext.location?.lat ?? null : latitudeProp;
+
   // Pre-compute season once per render — PlantCard keeps latitude prop (Pattern A),
   // derives Location inline for getEffectiveSeason (uses location?.lat ?? null internally).
   const locationObj: Location | null = latitude !== null ? { lat: latitude, lon: 0, name: '', country: '' } : null;
@@ -121,6 +136,19 @@ export function PlantCard({
 
   const waterInterval = getSeasonalInterval(plant, currentSeason);
   const isCheckMode = plant.waterMode === 'soil_check';
+  // v1.3 (ADAPT-01): "still moist" already reported today for this check-in.
+  const soilMoistDone = isCheckMode && findLastCareEvent(careLog[plant.id], 'soil_check', todayStr) !== null;
+  // v1.3 (HOUSE-01): care someone else in a shared garden already logged today.
+  const othersCare = careByOthersOn(careLog[plant.id], todayStr);
+
+  // v1.3 (SNOOZE-01): which task's skip/snooze sheet is open. Skip length = the task's active interval.
+  const [deferTarget, setDeferTarget] = useState<DeferrableTask | null>(null);
+  const fertilizeInterval = getSeasonalFertilizeInterval(plant, catalogEntryForTox, currentSeason) ?? 0;
+  const deferSkipDays = deferTarget === 'fertilize' ? fertilizeInterval : waterInterval;
+  const handleDefer = (kind: TaskDeferralKind, days: number) => {
+    if (deferTarget && onDeferTask) onDeferTask(plant.id, deferTarget, kind, todayStr, days);
+    setDeferTarget(null);
+  };
 
   // Calculate plant health
   const healthStatus = useMemo(
@@ -158,7 +186,11 @@ export function PlantCard({
     onLongPress?.(plant); // Plan 04's screen presents BottomSheetModal
   };
 
+  // v1.3 (HOUSE-01): plants of a garden shared with you are the owner's to delete — no swipe.
+  const deletable = canDeletePlant(plant, gardens);
+
   const panGesture = Gesture.Pan()
+    .enabled(deletable)
     .activeOffsetX([-15, 15]) // Pitfall 1 — horizontal threshold
     .failOffsetY([-10, 10])    // Pitfall 1 — vertical fail threshold
     .onUpdate((event) => {
@@ -209,16 +241,18 @@ export function PlantCard({
   return (
     <View style={styles.cardContainer}>
       {/* Phase 18 CARD-01: Action layer revealed under the card during left-swipe. */}
-      <View style={styles.actionLayer} pointerEvents="box-none">
-        <TouchableOpacity
-          onPress={handleCommitDelete}
-          style={styles.deleteAction}
-          accessibilityLabel={t('plantCard.deleteButton')}
-          accessibilityRole="button"
-        >
-          <Text style={styles.deleteActionText}>{t('plantCard.deleteButton')}</Text>
-        </TouchableOpacity>
-      </View>
+      {deletable && (
+        <View style={styles.actionLayer} pointerEvents="box-none">
+          <TouchableOpacity
+            onPress={handleCommitDelete}
+            style={styles.deleteAction}
+            accessibilityLabel={t('plantCard.deleteButton')}
+            accessibilityRole="button"
+          >
+            <Text style={styles.deleteActionText}>{t('plantCard.deleteButton')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
       {/* Foreground card (translates under gesture). Gesture.Race prevents pan/long-press conflict. */}
       <GestureDetector gesture={composedGesture}>
@@ -302,6 +336,18 @@ export function PlantCard({
                     label={t('plantCard.water')}
                     bgColor={colors.waterLight}
                     textColor={colors.waterBlue}
+                    onMore={onDeferTask ? () => setDeferTarget('water') : undefined}
+                    moreLabel={t('plantCard.defer.more')}
+                  />
+                )}
+                {needsWaterToday && isCheckMode && !waterDone && onSoilMoist && (
+                  <TaskButton
+                    done={soilMoistDone}
+                    onPress={() => onSoilMoist(plant.id)}
+                    icon="🤚"
+                    label={t('plantCard.soilMoist')}
+                    bgColor={colors.waterLight}
+                    textColor={colors.waterBlue}
                   />
                 )}
                 {needsSunToday && onSunDone && (
@@ -334,8 +380,18 @@ export function PlantCard({
                     label={t('plantCard.fertilize')}
                     bgColor={colors.successBg}
                     textColor={colors.green}
+                    onMore={onDeferTask ? () => setDeferTarget('fertilize') : undefined}
+                    moreLabel={t('plantCard.defer.more')}
                   />
                 )}
+                {othersCare.map(event => (
+                  <Text key={event.id} style={styles.doneBy}>
+                    {t(`plantCard.doneBy.${event.type}`, {
+                      name: event.by?.name ?? t('plantCard.doneBy.someone'),
+                      time: new Date(event.timestamp).toLocaleTimeString(i18n.language, { hour: '2-digit', minute: '2-digit' }),
+                    })}
+                  </Text>
+                ))}
               </View>
             )}
 
@@ -355,12 +411,23 @@ export function PlantCard({
         </Animated.View>
       </GestureDetector>
 
+      <TaskDeferSheet
+        visible={deferTarget !== null}
+        title={deferTarget === 'fertilize' ? t('plantCard.fertilize') : t('plantCard.water')}
+        skipDays={deferSkipDays}
+        onSkip={() => handleDefer('skip', deferSkipDays)}
+        onSnooze={(days) => handleDefer('snooze', days)}
+        onDismiss={() => setDeferTarget(null)}
+      />
+
       {/* Health Detail Modal — preserved from previous PlantCard; mood-emoji tap reuses showHealthDetail state. */}
       <PlantHealthDetail
         visible={showHealthDetail}
         onClose={() => setShowHealthDetail(false)}
         plant={plant}
         healthStatus={healthStatus}
+        history={healthHistory[plant.id]}
+        diagnoses={diagnoses}
       />
     </View>
   );
@@ -388,6 +455,7 @@ interface Styles {
   diagnosisBadge: ViewStyle;
   diagnosisBadgeText: TextStyle;
   tasks: ViewStyle;
+  doneBy: TextStyle;
   waterBadge: ViewStyle;
   waterBadgeText: TextStyle;
 }
@@ -509,6 +577,12 @@ const styles = StyleSheet.create<Styles>({
   tasks: {
     marginTop: spacing.sm,
   },
+  doneBy: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
   waterBadge: {
     marginTop: spacing.sm,
     paddingTop: spacing.sm,
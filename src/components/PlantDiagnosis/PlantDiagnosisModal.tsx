@@ -156,6 +156,12 @@ export function PlantDiagnosisModal({
       addFollowUpEntry(plant.id, savedDiagnosisId, entry);
     },
     priorDiagnosisSummary,
+    // v1.3 (QUOTA-01): the server refused the call (free quota used up, e.g. after a reinstall
+    // reset the local counters). Same DIAG-07 exception to PAY-02: the paywall opens over this
+    // modal so the photos / typed message survive, and a purchase sends the request again.
+    onQuotaExceeded: (kind, retry) => {
+      showPaywall(kind === 'chat' ? 'diagnosis-limit' : 'plant_diagnosis', { onSuccess: retry });
+    },
   });
 
   // Handler for "Track this problem" button
@@ -93,7 +93,7 @@ export function PlantHealthBadge({
               </Text>
               <View>
                 <Text style={[styles.tooltipTitle, { color: healthColor }]}>
-                  {healthMessage}
+                  {t(healthMessage.key)}
                 </Text>
                 <Text style={styles.tooltipScore}>
                   {t('health.score', { score: healthStatus.score })}
@@ -106,7 +106,7 @@ export function PlantHealthBadge({
                 {healthStatus.issues.slice(0, 3).map((issue, index) => (
                   <View key={index} style={styles.tooltipIssue}>
                     <Text style={styles.tooltipBullet}>•</Text>
-                    <Text style={styles.tooltipIssueText}>{issue.message}</Text>
+                    <Text style={styles.tooltipIssueText}>{t(issue.message.key, issue.message.params)}</Text>
                   </View>
                 ))}
               </View>
@@ -1,6 +1,6 @@
 // Phase 8 (CAT-04): catalog content sourced via careTips/lightLabel utilities; no Plant-instance
 // content reads (tip/description/problems/nutrients) here. Verified by Plan 04 Task 2.
-import React from 'react';
+import React, { useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,7 +12,7 @@ import {
   TextStyle,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
-import { Plant, PlantHealthStatus, HealthIssueSeverity } from '../types';
+import { Plant, PlantHealthStatus, HealthIssueSeverity, HealthSnapshot, SavedDiagnosis } from '../types';
 import { colors, spacing, borderRadius, fonts, shadows } from '../theme';
 import {
   getHealthColor,
@@ -22,13 +22,19 @@ import {
 import { formatDate } from '../utils/dates';
 import { getLightLabel } from '../utils/lightLabel';
 import { getDaysShort } from '../data/constants';
+import { getHealthTrend, type HealthTrendRange } from '../utils/healthHistory';
 import { ProgressBar } from './ProgressBar';
+import { HealthTrendChart } from './HealthTrendChart';
 
 interface PlantHealthDetailProps {
   visible: boolean;
   onClose: () => void;
   plant: Plant;
   healthStatus: PlantHealthStatus;
+  /** v1.3 (HEALTH-01). Daily snapshots for the trend chart. */
+  history?: HealthSnapshot[];
+  /** Diagnosis dates are marked on the trend chart. */
+  diagnoses?: SavedDiagnosis[];
 }
 
 export function PlantHealthDetail({
@@ -36,8 +42,15 @@ export function PlantHealthDetail({
   onClose,
   plant,
   healthStatus,
+  history,
+  diagnoses,
 }: PlantHealthDetailProps) {
   const { t } = useTranslation();
+  const trendFor = useCallback(
+    (range: HealthTrendRange) => getHealthTrend(history, range, new Date()),
+    [history]
+  );
+  const diagnosisDates = (diagnoses ?? []).map(d => d.date);
   const healthColor = getHealthColor(healthStatus.level);
   const healthBgColor = getHealthBgColor(healthStatus.level);
   const healthMessage = getHealthMessage(healthStatus.level);
@@ -81,6 +94,14 @@ export function PlantHealthDetail({
         return t('health.noCareSuggestion');
       case 'extreme_weather':
         return t('health.extremeWeatherSuggestion');
+      case 'overdue_fertilize':
+        return t('health.overdueFertilizeSuggestion');
+      case 'tracked_problem':
+        return t('health.trackedProblemSuggestion');
+      case 'missed_follow_up':
+        return t('health.missedFollowUpSuggestion');
+      case 'overdue_repot':
+        return t('health.overdueRepotSuggestion');
       default:
         return '';
     }
@@ -102,7 +123,7 @@ export function PlantHealthDetail({
               <View style={styles.headerInfo}>
                 <Text style={styles.plantName}>{plant.name}</Text>
                 <Text style={[styles.healthLevel, { color: healthColor }]}>
-                  {healthMessage}
+                  {t(healthMessage.key)}
                 </Text>
               </View>
               <Pressable onPress={onClose} style={styles.closeButton}>
@@ -156,7 +177,7 @@ export function PlantHealthDetail({
                         </Text>
                       )}
                     </View>
-                    <Text style={styles.issueMessage}>{issue.message}</Text>
+                    <Text style={styles.issueMessage}>{t(issue.message.key, issue.message.params)}</Text>
                     <Text style={styles.issueSuggestion}>
                       {getSuggestion(issue.type)}
                     </Text>
@@ -173,6 +194,42 @@ export function PlantHealthDetail({
               </View>
             )}
 
+            {/* Score breakdown — v1.3 (HEALTH-02): what each rule took off the base 100 */}
+            {healthStatus.breakdown.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('health.breakdownTitle')}</Text>
+                <View style={styles.historyCard}>
+                  <View style={styles.breakdownRow}>
+                    <Text style={styles.breakdownLabel}>{t('health.breakdownBase')}</Text>
+                    <Text style={styles.breakdownPoints}>100</Text>
+                  </View>
+                  {healthStatus.breakdown.map(item => (
+                    <View key={item.rule} style={styles.breakdownRow}>
+                      <Text style={styles.breakdownLabel}>{t(`health.rule.${item.rule}`)}</Text>
+                      <Text style={[styles.breakdownPoints, { color: colors.dangerText }]}>{item.points}</Text>
+                    </View>
+                  ))}
+                  <View style={styles.historyDivider} />
+                  <View style={styles.breakdownRow}>
+                    <Text style={styles.historyValue}>{t('health.breakdownTotal')}</Text>
+                    <Text style={[styles.scoreValue, { color: healthColor }]}>{healthStatus.score}</Text>
+                  </View>
+                </View>
+              </View>
+            )}
+
+            {/* Score trend — v1.3 (HEALTH-01) */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('healthTrend.title')}</Text>
+              <View style={styles.historyCard}>
+                <HealthTrendChart
+                  trendFor={trendFor}
+                  markers={diagnosisDates}
+                  markerLabel={t('healthTrend.diagnosisMarker')}
+                />
+              </View>
+            </View>
+
             {/* Care History */}
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>{t('health.recentHistory')}</Text>
@@ -309,6 +366,9 @@ interface Styles {
   historyLabel: TextStyle;
   historyValue: TextStyle;
   historyDivider: ViewStyle;
+  breakdownRow: ViewStyle;
+  breakdownLabel: TextStyle;
+  breakdownPoints: TextStyle;
   tipsCard: ViewStyle;
   tipItem: TextStyle;
   bottomPadding: ViewStyle;
@@ -498,6 +558,23 @@ const styles = StyleSheet.create<Styles>({
     backgroundColor: colors.borderLight,
     marginVertical: spacing.xs,
   },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  breakdownLabel: {
+    fontFamily: fonts.body,
+    fontSize: 14,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+  breakdownPoints: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
   tipsCard: {
     backgroundColor: colors.card,
     borderRadius: borderRadius.lg,
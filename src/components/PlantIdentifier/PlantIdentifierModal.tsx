@@ -64,7 +64,12 @@ export function PlantIdentifierModal({
     reset,
     selectResult,
     selectedPlant,
-  } = usePlantIdentification();
+  } = usePlantIdentification({
+    // v1.3 (QUOTA-01): the server refused the call (free identifications used up, e.g. after a
+    // reinstall). Like DIAG-07 the paywall opens over this modal to keep the photo, and a
+    // purchase runs the analysis again.
+    onQuotaExceeded: retry => showPaywall('plant_identification', { onSuccess: retry }),
+  });
 
   const handleClose = () => {
     reset();
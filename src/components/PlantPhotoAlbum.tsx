@@ -4,7 +4,6 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  Image,
   FlatList,
   Modal,
   Alert,
@@ -16,6 +15,7 @@ import { colors, fonts, spacing, borderRadius, shadows } from '../theme';
 import { PlantPhoto } from '../types';
 import { usePremium } from '../hooks/usePremium';
 import { pickPhoto, savePhoto, deletePhoto } from '../services/photoService';
+import { SyncedPhoto } from './SyncedPhoto';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const THUMB_GAP = spacing.sm;
@@ -128,7 +128,7 @@ export function PlantPhotoAlbum({
       onLongPress={() => handleDeletePhoto(item)}
       activeOpacity={0.8}
     >
-      <Image source={{ uri: item.uri }} style={styles.thumbImage} />
+      <SyncedPhoto uri={item.uri} remotePath={item.remotePath} style={styles.thumbImage} />
     </TouchableOpacity>
   );
 
@@ -184,8 +184,9 @@ export function PlantPhotoAlbum({
 
           {fullscreenPhoto && (
             <View style={styles.fullscreenContent}>
-              <Image
-                source={{ uri: fullscreenPhoto.uri }}
+              <SyncedPhoto
+                uri={fullscreenPhoto.uri}
+                remotePath={fullscreenPhoto.remotePath}
                 style={styles.fullscreenImage}
                 resizeMode="contain"
               />
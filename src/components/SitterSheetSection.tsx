@@ -0,0 +1,121 @@
+/**
+ * src/components/SitterSheetSection.tsx — v1.3 (SITTER-01).
+ *
+ * Settings section that shares the plant-sitter care sheet: a standalone HTML page with the
+ * watering days, light, care copy and pet warnings of every plant, for a neighbor who does
+ * not have the app. With a trip planned (VAC-01) the sheet covers the trip; otherwise the
+ * next SITTER_SHEET_DEFAULT_DAYS days.
+ *
+ * Building and rendering live in utils/sitterSheet.ts, file I/O in
+ * services/sitterSheetService.ts.
+ */
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import { useStorage } from '../hooks/useStorage';
+import { trackEvent } from '../services/analyticsService';
+import { loadSitterSheetPhotos, shareSitterSheet } from '../services/sitterSheetService';
+import {
+  buildSitterSheet,
+  countPetWarnings,
+  getSitterSheetFileName,
+  getSitterSheetWindow,
+  renderSitterSheetHtml,
+} from '../utils/sitterSheet';
+import { formatDate, parseDate } from '../utils/dates';
+import type { VacationPlan } from '../types';
+import type { WaterSeason } from '../utils/seasonality';
+
+interface SitterSheetSectionProps {
+  season: WaterSeason;
+  vacation: VacationPlan | null;
+}
+
+export function SitterSheetSection({ season, vacation }: SitterSheetSectionProps) {
+  const { t, i18n } = useTranslation();
+  const { plants, gardens } = useStorage();
+  const [busy, setBusy] = useState(false);
+
+  const sheetWindow = getSitterSheetWindow(vacation, new Date());
+  const formatDay = (iso: string) =>
+    parseDate(iso).toLocaleDateString(i18n.language, { day: 'numeric', month: 'short' });
+
+  const handleShare = async () => {
+    setBusy(true);
+    try {
+      const sheet = buildSitterSheet(plants, gardens, sheetWindow, season, t);
+      const photos = await loadSitterSheetPhotos(plants);
+      const today = formatDate(new Date());
+      const html = renderSitterSheetHtml(sheet, { t, locale: i18n.language, photos, generatedOn: today });
+      const result = await shareSitterSheet(html, getSitterSheetFileName(today));
+      if (result.success) {
+        trackEvent('sitter_sheet_shared', {
+          plantCount: plants.length,
+          petWarnings: countPetWarnings(sheet),
+          forTrip: !!vacation,
+        });
+      } else if (result.error !== 'cancelled') {
+        Alert.alert(t('settings.sitter.title'), t('settings.sitter.shareFailed'));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (plants.length === 0) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.muted}>{t('settings.sitter.noPlants')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.muted}>
+        {t('settings.sitter.window', { from: formatDay(sheetWindow.from), until: formatDay(sheetWindow.until) })}
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButtonWide, busy && styles.disabled]}
+        onPress={handleShare}
+        disabled={busy}
+        accessibilityRole="button"
+      >
+        {busy ? (
+          <ActivityIndicator color={colors.white} size="small" />
+        ) : (
+          <Text style={styles.primaryButtonText}>📝 {t('settings.sitter.share')}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.card,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    gap: spacing.sm,
+  },
+  primaryButtonWide: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    backgroundColor: colors.green,
+    borderRadius: borderRadius.lg,
+  },
+  primaryButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.white,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  muted: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,124 @@
+/**
+ * src/components/SyncSection.tsx — v1.3 (SYNC-04).
+ *
+ * Settings section for cloud sync: the status badge with the number of changes still on this
+ * phone, photos waiting for upload, and one row per change the server rejected. "Sync now"
+ * retries everything right away instead of waiting for the backoff timer.
+ *
+ * Reads useSyncStatus(); SettingsScreen only renders it when that is non-null (signed in).
+ */
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import { SyncStatusBadge } from './SyncStatusBadge';
+import type { SyncStatusValue } from '../hooks/useSyncStatus';
+
+interface SyncSectionProps {
+  sync: SyncStatusValue;
+}
+
+export function SyncSection({ sync }: SyncSectionProps) {
+  const { t } = useTranslation();
+  const syncing = sync.status === 'syncing';
+
+  return (
+    <View style={styles.card}>
+      <SyncStatusBadge
+        status={sync.status}
+        lastSyncedAt={sync.lastSyncedAt}
+        pendingCount={sync.pendingCount}
+      />
+
+      {sync.photoPendingCount > 0 && (
+        <Text style={styles.muted}>{t('syncStatus.photosPending', { count: sync.photoPendingCount })}</Text>
+      )}
+      {sync.photoQuotaExceeded && (
+        <Text style={styles.warning}>{t('syncStatus.photoQuotaExceeded')}</Text>
+      )}
+
+      {sync.failures.length > 0 && (
+        <View style={styles.failures}>
+          <Text style={styles.failuresTitle}>{t('syncStatus.failuresTitle', { count: sync.failures.length })}</Text>
+          {sync.failures.map(entry => (
+            <View key={entry.key} style={styles.failureRow}>
+              <Text style={styles.failureLabel} numberOfLines={1}>
+                {t(`syncStatus.kinds.${entry.kind}`)}
+                {entry.label ? ` · ${entry.label}` : ''}
+              </Text>
+              {entry.lastError && (
+                <Text style={styles.failureError} numberOfLines={2}>{entry.lastError}</Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.secondaryButtonWide, syncing && styles.disabled]}
+        onPress={sync.syncNow}
+        disabled={syncing}
+      >
+        <Text style={styles.secondaryButtonText}>
+          {sync.failures.length > 0 ? t('syncStatus.retry') : t('syncStatus.syncNow')}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.card,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    gap: spacing.sm,
+    alignItems: 'stretch',
+  },
+  muted: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  warning: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.dangerText,
+  },
+  failures: {
+    gap: spacing.xs,
+  },
+  failuresTitle: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.dangerText,
+  },
+  failureRow: {
+    paddingVertical: spacing.xs,
+  },
+  failureLabel: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  failureError: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  secondaryButtonWide: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.green,
+    borderRadius: borderRadius.lg,
+  },
+  secondaryButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.green,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
@@ -1,11 +1,15 @@
 import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
 import { colors, fonts, spacing, borderRadius } from '../theme';
 import { SyncStatus } from '../services/syncService';
 
 interface SyncStatusBadgeProps {
   status: SyncStatus;
   lastSyncedAt: string | null;
+  /** v1.3 (SYNC-04) — local changes still waiting for the cloud. */
+  pendingCount?: number;
   onPress?: () => void;
   compact?: boolean;
 }
@@ -13,49 +17,61 @@ interface SyncStatusBadgeProps {
 export function SyncStatusBadge({
   status,
   lastSyncedAt,
+  pendingCount = 0,
   onPress,
   compact = false,
 }: SyncStatusBadgeProps) {
+  const { t } = useTranslation();
+
   const getStatusConfig = () => {
     switch (status) {
       case 'syncing':
         return {
           icon: null,
-          text: 'Sincronizando...',
+          text: t('syncStatus.syncing'),
           color: colors.textSecondary,
           showSpinner: true,
         };
       case 'success':
+        if (pendingCount > 0) return pendingConfig();
         return {
           icon: '✓',
-          text: 'Sincronizado',
+          text: t('syncStatus.synced'),
           color: colors.green,
           showSpinner: false,
         };
       case 'error':
         return {
           icon: '!',
-          text: 'Error al sincronizar',
+          text: t('syncStatus.error'),
           color: colors.dangerText,
           showSpinner: false,
         };
       case 'offline':
         return {
           icon: '○',
-          text: 'Sin conexion',
+          text: pendingCount > 0 ? t('syncStatus.offlinePending', { count: pendingCount }) : t('syncStatus.offline'),
           color: colors.textMuted,
           showSpinner: false,
         };
       default:
+        if (pendingCount > 0) return pendingConfig();
         return {
           icon: '☁️',
-          text: formatLastSync(lastSyncedAt),
+          text: formatLastSync(lastSyncedAt, t),
           color: colors.textSecondary,
           showSpinner: false,
         };
     }
   };
 
+  const pendingConfig = () => ({
+    icon: '↑',
+    text: t('syncStatus.pending', { count: pendingCount }),
+    color: colors.textSecondary,
+    showSpinner: false,
+  });
+
   const config = getStatusConfig();
 
   if (compact) {
@@ -92,8 +108,8 @@ export function SyncStatusBadge({
   );
 }
 
-function formatLastSync(timestamp: string | null): string {
-  if (!timestamp) return 'Nunca sincronizado';
+function formatLastSync(timestamp: string | null, t: TFunction): string {
+  if (!timestamp) return t('syncStatus.never');
 
   const date = new Date(timestamp);
   const now = new Date();
@@ -102,11 +118,11 @@ function formatLastSync(timestamp: string | null): string {
   const diffHours = Math.floor(diffMins / 60);
   const diffDays = Math.floor(diffHours / 24);
 
-  if (diffMins < 1) return 'Recien sincronizado';
-  if (diffMins < 60) return `Hace ${diffMins} min`;
-  if (diffHours < 24) return `Hace ${diffHours}h`;
-  if (diffDays === 1) return 'Ayer';
-  return `Hace ${diffDays} dias`;
+  if (diffMins < 1) return t('syncStatus.justNow');
+  if (diffMins < 60) return t('syncStatus.minutesAgo', { count: diffMins });
+  if (diffHours < 24) return t('syncStatus.hoursAgo', { count: diffHours });
+  if (diffDays === 1) return t('syncStatus.yesterday');
+  return t('syncStatus.daysAgo', { count: diffDays });
 }
 
 const styles = StyleSheet.create({
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Image, ImageResizeMode, ImageStyle, StyleProp, StyleSheet, View } from 'react-native';
+import { colors } from '../theme';
+import { useCachedPhoto } from '../hooks/useCachedPhoto';
+
+interface SyncedPhotoProps {
+  /** Device-local file (PlantPhoto.uri / JournalEntry.photoUri). */
+  uri: string | null | undefined;
+  /** user-photos bucket path (PlantPhoto.remotePath / JournalEntry.photoRemotePath). */
+  remotePath?: string | null;
+  style: StyleProp<ImageStyle>;
+  resizeMode?: ImageResizeMode;
+}
+
+/**
+ * v1.3 (SYNC-03) — a plant or journal photo that may have been taken on another device.
+ * Shows a neutral placeholder of the same size while the cloud copy downloads.
+ */
+export function SyncedPhoto({ uri, remotePath, style, resizeMode }: SyncedPhotoProps) {
+  const resolved = useCachedPhoto(uri, remotePath);
+  if (!resolved) return <View style={[style as object, styles.placeholder]} />;
+  return <Image source={{ uri: resolved }} style={style} resizeMode={resizeMode} />;
+}
+
+const styles = StyleSheet.create({
+  placeholder: {
+    backgroundColor: colors.bgTertiary,
+  },
+});
@@ -9,9 +9,12 @@ interface TaskButtonProps {
   label: string;
   bgColor: string;
   textColor: string;
+  /** v1.3 (SNOOZE-01) — optional trailing "⋯" that opens the skip/snooze sheet. Hidden once done. */
+  onMore?: () => void;
+  moreLabel?: string;
 }
 
-export function TaskButton({ done, onPress, icon, label, bgColor, textColor }: TaskButtonProps) {
+export function TaskButton({ done, onPress, icon, label, bgColor, textColor, onMore, moreLabel }: TaskButtonProps) {
   return (
     <TouchableOpacity
       style={[
@@ -33,6 +36,17 @@ export function TaskButton({ done, onPress, icon, label, bgColor, textColor }: T
       >
         {label}
       </Text>
+      {onMore && !done && (
+        <TouchableOpacity
+          onPress={onMore}
+          hitSlop={8}
+          style={styles.more}
+          accessibilityRole="button"
+          accessibilityLabel={moreLabel}
+        >
+          <Text style={[styles.moreText, { color: textColor }]}>⋯</Text>
+        </TouchableOpacity>
+      )}
     </TouchableOpacity>
   );
 }
@@ -43,6 +57,8 @@ interface Styles {
   icon: TextStyle;
   label: TextStyle;
   labelDone: TextStyle;
+  more: ViewStyle;
+  moreText: TextStyle;
 }
 
 const styles = StyleSheet.create<Styles>({
@@ -70,4 +86,11 @@ const styles = StyleSheet.create<Styles>({
   labelDone: {
     textDecorationLine: 'line-through',
   },
+  more: {
+    paddingLeft: spacing.sm,
+  },
+  moreText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 18,
+  },
 });
@@ -0,0 +1,127 @@
+/**
+ * src/components/TaskDeferSheet.tsx — v1.3 (SNOOZE-01).
+ *
+ * RN <Modal>-based option sheet opened from a task's trailing "⋯" on PlantCard.
+ * Offers "skip this time" plus the SNOOZE_DAY_OPTIONS snooze lengths. Uses an RN Modal
+ * (not Alert.alert) because Android alerts cap at three buttons.
+ *
+ * The sheet only reports the choice — the caller resolves dates and calls deferTask.
+ */
+import React from 'react';
+import { Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, borderRadius, fonts } from '../theme';
+import { SNOOZE_DAY_OPTIONS } from '../utils/taskDeferral';
+
+interface TaskDeferSheetProps {
+  visible: boolean;
+  /** Task label shown as the sheet title, e.g. "Water now 💧". */
+  title: string;
+  /** Days until the next regular occurrence — shown on the skip option. */
+  skipDays: number;
+  onSkip: () => void;
+  onSnooze: (days: number) => void;
+  onDismiss: () => void;
+}
+
+export function TaskDeferSheet({
+  visible,
+  title,
+  skipDays,
+  onSkip,
+  onSnooze,
+  onDismiss,
+}: TaskDeferSheetProps) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onDismiss}>
+      <Pressable style={styles.backdrop} onPress={onDismiss}>
+        <Pressable
+          style={[styles.sheet, { paddingBottom: spacing.md + insets.bottom }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <View style={styles.handle} />
+          <Text style={styles.title} numberOfLines={1}>{title}</Text>
+          <TouchableOpacity style={styles.option} onPress={onSkip} accessibilityRole="button">
+            <Text style={styles.optionText}>⏭️ {t('plantCard.defer.skip')}</Text>
+            <Text style={styles.optionHint}>{t('plantCard.defer.skipHint', { count: skipDays })}</Text>
+          </TouchableOpacity>
+          {SNOOZE_DAY_OPTIONS.map((days) => (
+            <TouchableOpacity
+              key={days}
+              style={styles.option}
+              onPress={() => onSnooze(days)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.optionText}>💤 {t('plantCard.defer.snooze', { count: days })}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity onPress={onDismiss} style={styles.cancelBtn}>
+            <Text style={styles.cancelBtnText}>{t('plantCard.defer.cancel')}</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: borderRadius.xxl,
+    borderTopRightRadius: borderRadius.xxl,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+    gap: spacing.sm,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 16,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  option: {
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.bgPrimary,
+    borderRadius: borderRadius.md,
+    minHeight: 44,
+  },
+  optionText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  optionHint: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  cancelBtn: {
+    alignSelf: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  cancelBtnText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
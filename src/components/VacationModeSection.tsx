@@ -0,0 +1,324 @@
+/**
+ * src/components/VacationModeSection.tsx — v1.3 (VAC-01).
+ *
+ * Settings section for vacation mode. Three states:
+ *  - no trip: short description + "Plan a trip" button
+ *  - editing: departure / return day steppers (no date-picker dependency in the app)
+ *  - trip planned: dates, forecast summary, per-plant plan from planVacationCare, and
+ *    "I'm back" (ongoing trip → endVacation re-baseline) or "Cancel trip" (upcoming → clear).
+ *
+ * Notification pausing and the automatic re-baseline on the return day live in
+ * useNotifications / StorageProvider — this component only edits the plan.
+ */
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../theme';
+import type { Plant, VacationPlan, WeatherData } from '../types';
+import type { WaterSeason } from '../utils/seasonality';
+import { addDays, formatDate, parseDate } from '../utils/dates';
+import {
+  VACATION_MAX_DAYS,
+  getVacationLength,
+  isDateInVacation,
+  planVacationCare,
+  summarizeVacationForecast,
+} from '../utils/vacationPlan';
+
+interface VacationModeSectionProps {
+  plants: Plant[];
+  weather: WeatherData | null;
+  season: WaterSeason;
+  vacation: VacationPlan | null;
+  onSave: (vacation: VacationPlan | null) => void;
+  onEnd: () => void;
+}
+
+const DEFAULT_TRIP_DAYS = 7;
+
+export function VacationModeSection({
+  plants,
+  weather,
+  season,
+  vacation,
+  onSave,
+  onEnd,
+}: VacationModeSectionProps) {
+  const { t, i18n } = useTranslation();
+  const today = new Date();
+  const todayStr = formatDate(today);
+
+  const [draft, setDraft] = useState<VacationPlan | null>(null);
+
+  const startEditing = () => {
+    setDraft(
+      vacation ?? {
+        departure: formatDate(addDays(today, 1)),
+        returnDate: formatDate(addDays(today, 1 + DEFAULT_TRIP_DAYS)),
+      }
+    );
+  };
+
+  // Keeps departure ≥ today and 1 ≤ trip length ≤ VACATION_MAX_DAYS while stepping.
+  const shiftDraft = (field: keyof VacationPlan, delta: number) => {
+    if (!draft) return;
+    const next = { ...draft, [field]: formatDate(addDays(parseDate(draft[field]), delta)) };
+    if (next.departure < todayStr) return;
+    const length = getVacationLength(next);
+    if (length < 1 || length > VACATION_MAX_DAYS) return;
+    setDraft(next);
+  };
+
+  const plan = useMemo(
+    () => (vacation ? planVacationCare(plants, vacation, season, weather) : []),
+    [plants, vacation, season, weather]
+  );
+  const forecast = useMemo(
+    () => (vacation ? summarizeVacationForecast(vacation, weather) : null),
+    [vacation, weather]
+  );
+  const plantsById = useMemo(() => new Map(plants.map(p => [p.id, p])), [plants]);
+
+  const formatDay = (iso: string) =>
+    parseDate(iso).toLocaleDateString(i18n.language, { day: 'numeric', month: 'short' });
+
+  if (draft) {
+    return (
+      <View style={styles.card}>
+        {(['departure', 'returnDate'] as const).map(field => (
+          <View key={field} style={styles.stepperRow}>
+            <Text style={styles.stepperLabel}>{t(`settings.vacation.${field}`)}</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => shiftDraft(field, -1)}
+                accessibilityRole="button"
+                accessibilityLabel={t('settings.vacation.dayEarlier')}
+              >
+                <Text style={styles.stepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{formatDay(draft[field])}</Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => shiftDraft(field, 1)}
+                accessibilityRole="button"
+                accessibilityLabel={t('settings.vacation.dayLater')}
+              >
+                <Text style={styles.stepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+        <Text style={styles.muted}>{t('settings.vacation.length', { count: getVacationLength(draft) })}</Text>
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={() => setDraft(null)} style={styles.secondaryButton}>
+            <Text style={styles.secondaryButtonText}>{t('settings.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => { onSave(draft); setDraft(null); }}
+            style={styles.primaryButton}
+          >
+            <Text style={styles.primaryButtonText}>{t('settings.save')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (!vacation) {
+    return (
+      <TouchableOpacity style={styles.primaryButtonWide} onPress={startEditing}>
+        <Text style={styles.primaryButtonText}>🧳 {t('settings.vacation.plan')}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const ongoing = isDateInVacation(vacation, today);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.tripTitle}>
+        {t(ongoing ? 'settings.vacation.ongoing' : 'settings.vacation.upcoming', {
+          from: formatDay(vacation.departure),
+          to: formatDay(vacation.returnDate),
+        })}
+      </Text>
+      <Text style={styles.muted}>{t('settings.vacation.notificationsPaused')}</Text>
+
+      {forecast && forecast.coveredDays > 0 && (
+        <Text style={styles.muted}>
+          {forecast.hotDays > 0
+            ? t('settings.vacation.forecastHot', { count: forecast.hotDays })
+            : forecast.rainyDays > 0
+              ? t('settings.vacation.forecastRain', { count: forecast.rainyDays })
+              : t('settings.vacation.forecastMild')}
+        </Text>
+      )}
+
+      {plan.length === 0 ? (
+        <Text style={styles.planEmpty}>{t('settings.vacation.nothingDue')}</Text>
+      ) : (
+        <View style={styles.planList}>
+          <Text style={styles.planHeader}>{t('settings.vacation.dueWhileAway', { count: plan.length })}</Text>
+          {plan.map(item => {
+            const plant = plantsById.get(item.plantId);
+            if (!plant) return null;
+            return (
+              <View key={item.plantId} style={styles.planRow}>
+                <Text style={styles.planIcon}>{plant.icon}</Text>
+                <View style={styles.planText}>
+                  <Text style={styles.planName}>{plant.name}</Text>
+                  <Text style={styles.muted}>{item.dueDates.map(formatDay).join(' · ')}</Text>
+                  <Text style={styles.planSuggestion}>
+                    {item.suggestion === 'group'
+                      ? t('settings.vacation.suggestGroup')
+                      : t('settings.vacation.suggestDeepWater')}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        {!ongoing && (
+          <TouchableOpacity onPress={startEditing} style={styles.secondaryButton}>
+            <Text style={styles.secondaryButtonText}>{t('settings.vacation.edit')}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          onPress={() => (ongoing ? onEnd() : onSave(null))}
+          style={styles.primaryButton}
+        >
+          <Text style={styles.primaryButtonText}>
+            {ongoing ? t('settings.vacation.back') : t('settings.vacation.cancelTrip')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.card,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    gap: spacing.sm,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepperLabel: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 18,
+    color: colors.textPrimary,
+  },
+  stepperValue: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 15,
+    color: colors.textPrimary,
+    minWidth: 72,
+    textAlign: 'center',
+  },
+  tripTitle: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  muted: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  planEmpty: {
+    fontFamily: fonts.body,
+    fontSize: 14,
+    color: colors.green,
+  },
+  planList: {
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  planHeader: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  planRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  planIcon: {
+    fontSize: 20,
+    marginRight: spacing.sm,
+  },
+  planText: {
+    flex: 1,
+  },
+  planName: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  planSuggestion: {
+    fontFamily: fonts.body,
+    fontSize: 13,
+    color: colors.waterBlue,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  primaryButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.green,
+    borderRadius: borderRadius.md,
+  },
+  primaryButtonWide: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    backgroundColor: colors.green,
+    borderRadius: borderRadius.lg,
+  },
+  primaryButtonText: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.white,
+  },
+  secondaryButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  secondaryButtonText: {
+    fontFamily: fonts.bodyMedium,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
@@ -16,7 +16,7 @@ const MAX_VISIBLE_ALERTS = 5;
 /**
  * Generates generic weather alerts (not plant-specific)
  */
-function generateGenericAlerts(weather: WeatherData | null, plants: Plant[], t: (key: string, options?: Record<string, unknown>) => string): WeatherAlert[] {
+function generateGenericAlerts(weather: WeatherData | null, plants: Plant[]): WeatherAlert[] {
   if (!weather || plants.length === 0) return [];
 
   const alerts: WeatherAlert[] = [];
@@ -28,16 +28,16 @@ function generateGenericAlerts(weather: WeatherData | null, plants: Plant[], t:
     alerts.push({
       type: 'rain',
       icon: '🌧️',
-      title: t('weatherAlerts.currentRain'),
-      message: t('weatherAlerts.currentRainMessage'),
+      title: { key: 'weatherAlerts.currentRain' },
+      message: { key: 'weatherAlerts.currentRainMessage' },
       severity: 'info',
     });
   } else if (todayForecast && todayForecast.precipitation > 5) {
     alerts.push({
       type: 'rain',
       icon: '☔',
-      title: t('weatherAlerts.expectedRain'),
-      message: t('weatherAlerts.expectedRainMessage', { amount: Math.round(todayForecast.precipitation) }),
+      title: { key: 'weatherAlerts.expectedRain' },
+      message: { key: 'weatherAlerts.expectedRainMessage', params: { amount: Math.round(todayForecast.precipitation) } },
       severity: 'info',
     });
   }
@@ -54,7 +54,7 @@ export function WeatherAlerts({ weather, plants }: WeatherAlertsProps) {
   const plantAlerts = generatePlantAlerts(plants, weather);
 
   // Generate generic alerts
-  const genericAlerts = generateGenericAlerts(weather, plants, t);
+  const genericAlerts = generateGenericAlerts(weather, plants);
 
   // Combine all alerts, plant-specific first (sorted by severity)
   const allAlerts = [...plantAlerts, ...genericAlerts];
@@ -155,7 +155,7 @@ export function WeatherAlerts({ weather, plants }: WeatherAlertsProps) {
                     ]}
                     numberOfLines={1}
                   >
-                    {alert.title}
+                    {t(alert.title.key, alert.title.params)}
                   </Text>
                   {isPlant && (
                     <Text style={[styles.plantName, { color: alertColors.text }]} numberOfLines={1}>
@@ -172,7 +172,7 @@ export function WeatherAlerts({ weather, plants }: WeatherAlertsProps) {
                 ]}
                 numberOfLines={useCompactMode ? 2 : 3}
               >
-                {alert.message}
+                {t(alert.message.key, alert.message.params)}
               </Text>
             </View>
           );
@@ -34,3 +34,9 @@ export { MigrationTooltip } from './MigrationTooltip';
 export { Toast } from './Toast';
 export { PetToxicityBadge } from './PetToxicityBadge';
 export type { PetToxicityBadgeProps } from './PetToxicityBadge';
+export { TaskDeferSheet } from './TaskDeferSheet';
+export { VacationModeSection } from './VacationModeSection';
+export { GardenSwitcher } from './GardenSwitcher';
+export { GardenEditorModal } from './GardenEditorModal';
+export { BackupSection } from './BackupSection';
+export { CareStreakCard } from './CareStreakCard';
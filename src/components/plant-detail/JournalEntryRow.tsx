@@ -21,7 +21,6 @@
 import React from 'react';
 import {
   Alert,
-  Image,
   Pressable,
   StyleSheet,
   Text,
@@ -30,6 +29,7 @@ import {
 import { useTranslation } from 'react-i18next';
 import type { TFunction } from 'i18next';
 import { deleteJournalPhoto } from '../../services/journalService';
+import { SyncedPhoto } from '../SyncedPhoto';
 import { colors, spacing, borderRadius, fonts } from '../../theme';
 import type { JournalEntry } from '../../types';
 
@@ -111,7 +111,7 @@ export default function JournalEntryRow({
         ) : null}
       </View>
       {entry.photoUri ? (
-        <Image source={{ uri: entry.photoUri }} style={styles.thumbnail} resizeMode="cover" />
+        <SyncedPhoto uri={entry.photoUri} remotePath={entry.photoRemotePath} style={styles.thumbnail} resizeMode="cover" />
       ) : null}
       {entry.text ? <Text style={styles.body}>{entry.text}</Text> : null}
     </Pressable>
@@ -0,0 +1,141 @@
+/**
+ * src/components/plant-detail/PlantStatsSection.tsx — v1.3 (STATS-01).
+ *
+ * Body of the `📊 Estadísticas` section in MyPlantDetailModal: days in the garden, waterings
+ * and fertilizations with the real average interval next to the scheduled one, diagnoses
+ * opened / resolved, journal entries per care tag and the photo count. The numbers come
+ * from utils/plantStats.ts; this component only lays them out.
+ */
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { colors, fonts, spacing, borderRadius } from '../../theme';
+import type { CareIntervalStats, PlantStats } from '../../utils/plantStats';
+
+interface PlantStatsSectionProps {
+  stats: PlantStats;
+}
+
+function StatRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.value}>{value}</Text>
+    </View>
+  );
+}
+
+export function PlantStatsSection({ stats }: PlantStatsSectionProps) {
+  const { t } = useTranslation();
+
+  const intervalText = (care: CareIntervalStats) => {
+    const actual = care.averageDays !== null
+      ? t('plantStats.averageEvery', { days: care.averageDays })
+      : t('plantStats.noAverage');
+    return care.scheduledDays !== null
+      ? t('plantStats.versusScheduled', { actual, days: care.scheduledDays })
+      : actual;
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatRow
+        label={t('plantStats.inGarden')}
+        value={stats.daysInGarden === null
+          ? t('plantStats.unknown')
+          : stats.daysInGarden === 0
+            ? t('plantStats.sinceToday')
+            : t('plantStats.days', { count: stats.daysInGarden })}
+      />
+
+      <View style={styles.block}>
+        <StatRow label={t('plantStats.waterings')} value={String(stats.watering.count)} />
+        <Text style={styles.detail}>{intervalText(stats.watering)}</Text>
+      </View>
+      <View style={styles.block}>
+        <StatRow label={t('plantStats.fertilizations')} value={String(stats.fertilizing.count)} />
+        <Text style={styles.detail}>{intervalText(stats.fertilizing)}</Text>
+      </View>
+
+      <StatRow
+        label={t('plantStats.diagnoses')}
+        value={t('plantStats.diagnosesValue', {
+          opened: stats.diagnoses.opened,
+          resolved: stats.diagnoses.resolved,
+        })}
+      />
+
+      <StatRow label={t('plantStats.journal')} value={String(stats.journal.total)} />
+      {(stats.journal.byTag.length > 0 || stats.journal.untagged > 0) && (
+        <View style={styles.chips}>
+          {stats.journal.byTag.map(({ tag, count }) => (
+            <View key={tag} style={styles.chip}>
+              <Text style={styles.chipText}>{t(`journal.careTag.${tag}`)} · {count}</Text>
+            </View>
+          ))}
+          {stats.journal.untagged > 0 && (
+            <View style={styles.chip}>
+              <Text style={styles.chipText}>{t('plantStats.untagged')} · {stats.journal.untagged}</Text>
+            </View>
+          )}
+        </View>
+      )}
+
+      <StatRow label={t('plantStats.photos')} value={String(stats.photos)} />
+      <Text style={styles.footnote}>{t('plantStats.footnote')}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  block: {
+    gap: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  label: {
+    flex: 1,
+    fontFamily: fonts.body,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  value: {
+    fontFamily: fonts.bodySemiBold,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  detail: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textMuted,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(0,0,0,0.03)',
+  },
+  chipText: {
+    fontFamily: fonts.body,
+    fontSize: 12,
+    color: colors.textPrimary,
+  },
+  footnote: {
+    fontFamily: fonts.body,
+    fontSize: 11,
+    color: colors.textMuted,
+    marginTop: spacing.xs,
+  },
+});
@@ -24,13 +24,15 @@ export const Features = {
   REFERRAL_SYSTEM: false,
   HOME_WIDGETS: false,
 
+  // V1.3 (enabled)
+  MULTIPLE_GARDENS: true,
+
   // V2.0 (disabled)
   DLC_SEASONAL_PREP: false,
   DLC_ADVANCED_DIAGNOSTICS: false,
   PLANT_COMPATIBILITY: false,
   CARE_STREAKS: false,
   SPONSORED_TIPS: false,
-  MULTIPLE_GARDENS: false,
 } as const;
 
 export function isEnabled(flag: keyof typeof Features): boolean {
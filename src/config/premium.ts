@@ -6,6 +6,9 @@ const FREE_IDENTIFICATION_LIMIT = 1;
 const FREE_DIAGNOSIS_LIMIT = 1;
 export const FREE_CHAT_MESSAGES_PER_DIAGNOSIS = 3;
 const FREE_TIPS_TRIAL_DAYS = 7;
+/** v1.3 (SYNC-03) — cloud photo storage per tier. The server enforces the same numbers
+ *  (photo_upload_allowed in supabase/migrations/008_photo_storage.sql). */
+export const PHOTO_STORAGE_QUOTA_MB = { free: 25, premium: 1024 } as const;
 
 function daysSinceInstall(installDate: string | null): number {
   if (!installDate) return Infinity;
@@ -66,6 +69,10 @@ export function usePremiumGate() {
       return isPremium;
     },
 
+    photoStorageQuotaBytes(): number {
+      return (isPremium ? PHOTO_STORAGE_QUOTA_MB.premium : PHOTO_STORAGE_QUOTA_MB.free) * 1024 * 1024;
+    },
+
     canAccessDLC(dlcFlag: keyof typeof Features): boolean {
       return Features[dlcFlag] && isPremium;
     },
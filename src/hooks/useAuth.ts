@@ -9,6 +9,15 @@ import {
   AuthResult,
 } from '../services/authService';
 import { isSupabaseConfigured } from '../lib/supabase';
+import { paymentService } from '../services/payments';
+
+/**
+ * v1.3 (QUOTA-01): the anonymous session the AI calls sign in with is not an account — no
+ * sync, no household — so it reads as signed out here.
+ */
+function accountSession(session: Session | null): Session | null {
+  return session && !session.user.is_anonymous ? session : null;
+}
 
 export interface AuthState {
   user: User | null;
@@ -42,15 +51,17 @@ export function useAuth(): AuthState & AuthActions {
 
     // Get initial session
     getSession().then((initialSession) => {
-      setSession(initialSession);
-      setUser(initialSession?.user ?? null);
+      const account = accountSession(initialSession);
+      setSession(account);
+      setUser(account?.user ?? null);
       setLoading(false);
     });
 
     // Listen for auth changes
     const { data: { subscription } } = onAuthStateChange((event, newSession) => {
-      setSession(newSession);
-      setUser(newSession?.user ?? null);
+      const account = accountSession(newSession);
+      setSession(account);
+      setUser(account?.user ?? null);
 
       if (event === 'SIGNED_OUT') {
         setSkipped(false);
@@ -62,6 +73,11 @@ export function useAuth(): AuthState & AuthActions {
     };
   }, [isConfigured]);
 
+  // Purchases follow the account, so the server can check the entitlement by auth id.
+  useEffect(() => {
+    if (user) paymentService.logIn(user.id);
+  }, [user?.id]);
+
   const signInWithGoogle = useCallback(async (): Promise<AuthResult> => {
     setLoading(true);
     const result = await authSignInWithGoogle();
@@ -0,0 +1,26 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getCachedPhoto, resolveLocalPhoto } from '../services/photoStorageService';
+
+/**
+ * v1.3 (SYNC-03) — URI to render for a plant or journal photo. The local file when this
+ * device took the picture; otherwise the cloud copy, downloaded into the cache the first time
+ * the photo is shown. Null while that download is running or when it failed.
+ */
+export function useCachedPhoto(localUri: string | null | undefined, remotePath: string | null | undefined): string | null {
+  const immediate = useMemo(() => resolveLocalPhoto(localUri, remotePath), [localUri, remotePath]);
+  const [downloaded, setDownloaded] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDownloaded(null);
+    if (immediate || !remotePath) return;
+    let cancelled = false;
+    getCachedPhoto(remotePath).then(uri => {
+      if (!cancelled) setDownloaded(uri);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [immediate, remotePath]);
+
+  return immediate ?? downloaded;
+}
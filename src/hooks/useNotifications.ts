@@ -2,10 +2,12 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import * as Notifications from "expo-notifications";
 import * as Device from "expo-device";
 import { Platform } from "react-native";
-import { Plant, WeatherData, NotificationSettings, SavedDiagnosis } from "../types";
-import type { WaterSeason } from "../utils/seasonality";
+import { Plant, WeatherData, NotificationSettings, SavedDiagnosis, VacationPlan, CareDay } from "../types";
+import { Features } from "../config/features";
+import type { SpaceConditions } from "../utils/gardens";
 import { PlantAlert } from "../utils/plantAlerts";
 import { calculateGardenHealth } from "../utils/plantHealth";
+import { isDateInVacation } from "../utils/vacationPlan";
 import {
   scheduleMorningReminder,
   cancelMorningReminder,
@@ -16,6 +18,9 @@ import {
   getScheduledNotificationCounts,
   isNotificationsAvailable,
   scheduleSmartSunNotifications,
+  cancelSunNotifications,
+  scheduleWeeklySummary,
+  cancelWeeklySummary,
 } from "../utils/notificationScheduler";
 
 // Configure how notifications are handled when app is in foreground
@@ -54,16 +59,24 @@ const DEFAULT_SETTINGS: NotificationSettings = {
   careReminders: true,
   /** v1.2 Phase 20 (FERT-05) — opt-in. Default OFF to avoid notification fatigue with 4th task type. */
   fertilizeReminders: false,
+  /** v1.3 (STREAK-01) — opt-in, and only offered with Features.CARE_STREAKS. */
+  weeklySummary: false,
 };
 
 interface UseNotificationsOptions {
   settings: NotificationSettings | null;
   onSettingsChange: (settings: NotificationSettings) => void;
   plants: Plant[];
+  /** Home forecast — the morning temperature line and the sunrise / UV / heat notifications. */
   weather: WeatherData | null;
   alerts: PlantAlert[];
   diagnosisHistory?: Record<string, SavedDiagnosis[]>;
-  season: WaterSeason;
+  /** v1.3 (GARDEN-01) — every plant by space, with its space's season and weather. */
+  spaces: SpaceConditions[];
+  /** v1.3 (VAC-01) — care notifications are paused inside the trip window. */
+  vacation?: VacationPlan | null;
+  /** v1.3 (STREAK-01) — recorded task completion for the weekly summary. */
+  careDays?: Record<string, CareDay[]>;
 }
 
 interface UseNotificationsReturn {
@@ -82,6 +95,14 @@ interface UseNotificationsReturn {
   refreshScheduled: () => Promise<void>;
 }
 
+/** v1.3 (GARDEN-01): health of every plant, each scored with its own space's weather and season. */
+function spaceHealth(spaces: SpaceConditions[], diagnosisHistory?: Record<string, SavedDiagnosis[]>) {
+  const now = new Date();
+  return spaces.flatMap((space) =>
+    calculateGardenHealth(space.plants, now, space.weather, diagnosisHistory, space.season).healthStatuses
+  );
+}
+
 export function useNotifications({
   settings: storedSettings,
   onSettingsChange,
@@ -89,7 +110,9 @@ export function useNotifications({
   weather,
   alerts,
   diagnosisHistory,
-  season,
+  spaces,
+  vacation,
+  careDays,
 }: UseNotificationsOptions): UseNotificationsReturn {
   const [permissionStatus, setPermissionStatus] =
     useState<PermissionStatus>("undetermined");
@@ -158,8 +181,7 @@ export function useNotifications({
   // Reschedule morning reminder when settings or plants change
   useEffect(() => {
     if (settings.enabled && settings.morningReminder && plants.length > 0) {
-      const { healthStatuses } = calculateGardenHealth(plants, new Date(), weather, diagnosisHistory, season);
-      scheduleMorningReminder(settings.morningTime, plants, weather, season, settings, healthStatuses);
+      scheduleMorningReminder(settings.morningTime, plants, weather, spaces, settings, spaceHealth(spaces, diagnosisHistory), vacation);
       refreshScheduled();
     }
   }, [
@@ -167,6 +189,8 @@ export function useNotifications({
     settings.morningReminder,
     settings.morningTime,
     plants.length,
+    vacation?.departure,
+    vacation?.returnDate,
   ]);
 
   // Schedule weather alerts when they change
@@ -177,11 +201,26 @@ export function useNotifications({
   }, [settings.enabled, settings.weatherAlerts, alerts]);
 
   // Schedule smart sun notifications based on sunrise/sunset
+  // v1.3 (VAC-01): same-day reminders — skipped (and cleared) while away.
   useEffect(() => {
-    if (settings.enabled && weather && plants.length > 0) {
-      scheduleSmartSunNotifications(plants, weather);
+    if (isDateInVacation(vacation, new Date())) {
+      cancelSunNotifications();
+      return;
     }
-  }, [settings.enabled, weather, plants.length]);
+    // Only plants under the home sky: another city's heat or UV is not in this forecast.
+    const homeSkyPlants = spaces.filter((s) => s.weather === weather).flatMap((s) => s.plants);
+    if (settings.enabled && weather && homeSkyPlants.length > 0) {
+      scheduleSmartSunNotifications(homeSkyPlants, weather);
+    }
+  }, [settings.enabled, weather, plants.length, vacation?.departure, vacation?.returnDate]);
+
+  // v1.3 (STREAK-01): Sunday summary — re-planned as care gets recorded so its numbers stay current.
+  useEffect(() => {
+    if (!Features.CARE_STREAKS) return;
+    if (settings.enabled && settings.weeklySummary) {
+      scheduleWeeklySummary(careDays ?? {}, plants, vacation);
+    }
+  }, [settings.enabled, settings.weeklySummary, careDays, plants.length, vacation?.departure, vacation?.returnDate]);
 
   const checkPermissionStatus = async () => {
     if (!isNotificationsAvailable()) return;
@@ -264,6 +303,9 @@ export function useNotifications({
       } else if (updates.weatherAlerts === false) {
         cancelWeatherAlerts();
         refreshScheduled();
+      } else if (updates.weeklySummary === false) {
+        cancelWeeklySummary();
+        refreshScheduled();
       }
     },
     [settings, onSettingsChange]
@@ -277,8 +319,7 @@ export function useNotifications({
 
       // Schedule morning reminder if enabled
       if (settings.morningReminder && plants.length > 0) {
-        const { healthStatuses } = calculateGardenHealth(plants, new Date(), weather, diagnosisHistory, season);
-        await scheduleMorningReminder(settings.morningTime, plants, weather, season, settings, healthStatuses);
+        await scheduleMorningReminder(settings.morningTime, plants, weather, spaces, settings, spaceHealth(spaces, diagnosisHistory), vacation);
       }
 
       // Schedule weather alerts if enabled
@@ -314,6 +355,9 @@ export function useNotifications({
     tomorrow.setDate(tomorrow.getDate() + 1);
     tomorrow.setHours(8, 0, 0, 0);
 
+    // v1.3 (VAC-01): nobody home to act on it.
+    if (isDateInVacation(vacation, tomorrow)) return;
+
     // Only schedule danger and warning alerts
     const importantAlerts = alerts.filter(
       (a) => a.severity === "danger" || a.severity === "warning"
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { User } from '@supabase/supabase-js';
+import type { Garden, JournalEntry, Plant } from '../types';
+import {
+  dueJobs,
+  fitToQuota,
+  jobKey,
+  markFailed,
+  nextRetryAt,
+  pendingPhotoUploads,
+  reconcileQueue,
+  type PhotoRef,
+  type PhotoUploadJob,
+} from '../utils/photoQueue';
+import {
+  getPhotoStorageUsage,
+  loadPhotoQueue,
+  localPhotoSize,
+  savePhotoQueue,
+  uploadPhoto,
+} from '../services/photoStorageService';
+import { ownerIdFor } from '../utils/household';
+
+export interface PhotoSyncState {
+  /** Photos on this device still waiting for their cloud copy. */
+  pendingCount: number;
+  /** At least one photo does not fit the account's storage quota. */
+  quotaExceeded: boolean;
+}
+
+interface UsePhotoSyncParams {
+  user: User | null;
+  plants: Plant[];
+  /** Shared gardens (HOUSE-01) decide whose folder a plant photo goes to. */
+  gardens: Garden[];
+  journals: Record<string, JournalEntry[]>;
+  /** Tier quota — usePremiumGate().photoStorageQuotaBytes(). */
+  quotaBytes: number;
+  /** Store the bucket path on the photo (useStorage.setPhotoRemotePath). */
+  onUploaded: (ref: PhotoRef, remotePath: string) => void;
+}
+
+/**
+ * v1.3 (SYNC-03) — background upload of plant and journal photos.
+ * Runs whenever the set of un-uploaded photos or the quota changes, when the app returns to
+ * the foreground, and on a timer for the next scheduled retry (utils/photoQueue.ts).
+ */
+export function usePhotoSync({
+  user,
+  plants,
+  gardens,
+  journals,
+  quotaBytes,
+  onUploaded,
+}: UsePhotoSyncParams): PhotoSyncState {
+  const [state, setState] = useState<PhotoSyncState>({ pendingCount: 0, quotaExceeded: false });
+
+  const pending = useMemo(() => pendingPhotoUploads(plants, journals), [plants, journals]);
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
+  const ownersRef = useRef({ plants, gardens });
+  ownersRef.current = { plants, gardens };
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const runningRef = useRef(false);
+  const rerunRef = useRef(false);
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const run = useCallback(async () => {
+    if (!user) return;
+    // Single flight: a change during a run triggers one more pass afterwards.
+    if (runningRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+    runningRef.current = true;
+
+    try {
+      let queue = reconcileQueue(await loadPhotoQueue(user.id), pendingRef.current);
+      const now = new Date();
+      const due = dueJobs(queue, now);
+      const replace = (job: PhotoUploadJob) => {
+        queue = queue.map(j => (jobKey(j) === jobKey(job) ? job : j));
+      };
+
+      // Photos of a plant in a shared garden go to the owner's folder (HOUSE-01), where
+      // members can read them. They count toward the owner's quota, which only the server
+      // knows — its upload policy decides, and a refusal retries like any failed upload.
+      const ownerOf = (job: PhotoUploadJob) =>
+        job.kind === 'plant' ? ownerIdFor(ownersRef.current, job.plantId, user.id) : user.id;
+
+      if (due.length > 0) {
+        const sized: Array<{ job: PhotoUploadJob; sizeBytes: number }> = [];
+        const shared: PhotoUploadJob[] = [];
+        for (const job of due) {
+          const sizeBytes = localPhotoSize(job.localUri);
+          if (sizeBytes === null) replace(markFailed(job, 'missing_file', now));
+          else if (ownerOf(job) !== user.id) shared.push(job);
+          else sized.push({ job, sizeBytes });
+        }
+
+        const upload = async (job: PhotoUploadJob) => {
+          const result = await uploadPhoto(ownerOf(job), job);
+          if (result.success && result.remotePath) {
+            queue = queue.filter(j => jobKey(j) !== jobKey(job));
+            onUploadedRef.current(job, result.remotePath);
+          } else {
+            replace(markFailed(job, result.missingFile ? 'missing_file' : 'upload_failed', now));
+          }
+        };
+        for (const job of shared) await upload(job);
+
+        const usedBytes = sized.length > 0 ? await getPhotoStorageUsage() : 0;
+        if (usedBytes === null) {
+          // Offline or signed out — back off like any failed upload.
+          sized.forEach(({ job }) => replace(markFailed(job, 'upload_failed', now)));
+        } else {
+          const { accepted, rejected } = fitToQuota(sized, usedBytes, quotaBytes);
+          rejected.forEach(({ job }) => replace(markFailed(job, 'quota_exceeded', now)));
+
+          for (const { job } of accepted) await upload(job);
+        }
+      }
+
+      await savePhotoQueue(user.id, queue);
+      setState({
+        pendingCount: queue.length,
+        quotaExceeded: queue.some(j => j.lastError === 'quota_exceeded'),
+      });
+
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+      const retryAt = nextRetryAt(queue);
+      if (retryAt) {
+        retryTimeoutRef.current = setTimeout(() => { run(); }, Math.max(0, Date.parse(retryAt) - Date.now()));
+      }
+    } finally {
+      runningRef.current = false;
+      if (rerunRef.current) {
+        rerunRef.current = false;
+        run();
+      }
+    }
+  }, [user, quotaBytes]);
+
+  useEffect(() => {
+    run();
+  }, [run, pending]);
+
+  // Retry right away when the app comes back — the connection is often back too.
+  useEffect(() => {
+    if (!user) return;
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') run();
+    });
+    return () => subscription.remove();
+  }, [user, run]);
+
+  useEffect(() => {
+    return () => {
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    };
+  }, []);
+
+  return state;
+}
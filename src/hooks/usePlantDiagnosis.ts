@@ -3,10 +3,13 @@ import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
 import { useTranslation } from 'react-i18next';
 import { DiagnosisState, DiagnosisResult, DiagnosisChatMessage, PlantDiagnosisContext, SavedDiagnosis, ProblemEntry, TrackingStatus } from '../types';
-import { diagnosePlant, chatDiagnosis, ChatDiagnosisResponse } from '../utils/plantDiagnosis';
+import { diagnosePlant, chatDiagnosis, ChatDiagnosisResponse, ChatReferencePhoto } from '../utils/plantDiagnosis';
 import { normalizePickedImage } from '../utils/imageNormalize';
 import { trackEvent } from '../services/analyticsService';
+import { QUOTA_EXCEEDED_ERROR } from '../services/aiQuotaService';
 import { persistDiagnosisPhoto } from '../services/problemTrackingService';
+import { getOriginalPhoto } from '../utils/photoComparison';
+import { formatDate } from '../utils/dates';
 
 const TIMEOUT_MS = 45000; // More time for multiple images
 const CHAT_TIMEOUT_MS = 15000;
@@ -24,6 +27,10 @@ interface UsePlantDiagnosisOptions {
    *  the chat-diagnosis resume clause. Sent only when resumeDiagnosis is non-null.
    *  When undefined, JSON serializer omits the key → server falls back to current behavior. */
   priorDiagnosisSummary?: string;
+  /** v1.3 (QUOTA-01): the server refused the call because the free quota is used up (e.g. the
+   *  local counters were reset by a reinstall). `retry` sends the same request again — call it
+   *  after a purchase. Without this option the server message shows as a normal error. */
+  onQuotaExceeded?: (kind: 'diagnosis' | 'chat', retry: () => void) => void;
 }
 
 interface ImageEntry {
@@ -54,6 +61,23 @@ interface UsePlantDiagnosisReturn {
   reset: () => void;
 }
 
+/**
+ * v1.3 (COMPARE-01): the original diagnosis photo for a follow-up photo — still in memory right
+ * after the diagnosis, read from disk when the chat was resumed. Undefined when unavailable.
+ */
+async function loadReferencePhoto(images: ImageEntry[], resumeDiag?: SavedDiagnosis | null): Promise<ChatReferencePhoto | undefined> {
+  if (images.length > 0) return { base64: images[0].base64, date: formatDate(new Date()) };
+  const original = resumeDiag ? getOriginalPhoto(resumeDiag) : null;
+  if (!original) return undefined;
+  try {
+    const base64 = await FileSystem.readAsStringAsync(original.uri, { encoding: 'base64' });
+    return { base64, date: formatDate(new Date(original.date)) };
+  } catch (e) {
+    console.warn('[Diagnosis] Failed to read the original photo:', e);
+    return undefined;
+  }
+}
+
 export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantDiagnosisReturn {
   const { t, i18n } = useTranslation();
   const resumeDiag = options?.resumeDiagnosis;
@@ -62,6 +86,9 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
   const [result, setResult] = useState<DiagnosisResult | null>(resumeDiag?.result || null);
   const [error, setError] = useState<string | null>(null);
   const [savedDiagnosisId, setSavedDiagnosisId] = useState<string | null>(resumeDiag?.id || null);
+  // v1.3 (QUOTA-01): the server counts free chat messages per diagnosis — this one's id, also
+  // when it is not saved to a plant.
+  const conversationIdRef = useRef<string | null>(resumeDiag?.id || null);
   const [isResumedChat, setIsResumedChat] = useState(!!resumeDiag);
 
   // Chat state - preload from resumed diagnosis
@@ -126,6 +153,7 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
     setResult(null);
     setError(null);
     setSavedDiagnosisId(null);
+    conversationIdRef.current = null;
     setIsResumedChat(false);
     setChatMessages([]);
     setChatLoading(false);
@@ -249,9 +277,11 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
         photo_count: images.length,
       });
 
+      const diagId = `diag_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
+      conversationIdRef.current = diagId;
+
       // Create SavedDiagnosis and notify parent
       if (options?.plantId) {
-        const diagId = `diag_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
         setSavedDiagnosisId(diagId);
 
         const imageUris = images.map(img => img.uri);
@@ -271,6 +301,12 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
       }
     } catch (err: any) {
       clearTimeout(timeoutId);
+      if (err.name === QUOTA_EXCEEDED_ERROR && options?.onQuotaExceeded) {
+        // Back to the photos so nothing is lost; the paywall goes on top
+        setState('capturing');
+        options.onQuotaExceeded('diagnosis', () => analyze(plantContext));
+        return;
+      }
       if (err.name === 'AbortError') {
         setError(t('diagnosis.diagnosisTimeout'));
       } else {
@@ -280,7 +316,7 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
     } finally {
       abortControllerRef.current = null;
     }
-  }, [images, options?.plantId, options?.onDiagnosisComplete, t, i18n.language]);
+  }, [images, options?.plantId, options?.onDiagnosisComplete, options?.onQuotaExceeded, t, i18n.language]);
 
   const sendChatMessage = useCallback(async (message: string, imageBase64?: string, imageUri?: string) => {
     if (!result || !plantContextRef.current) return;
@@ -308,6 +344,7 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
     const timeoutId = setTimeout(() => controller.abort(), imageBase64 ? TIMEOUT_MS : CHAT_TIMEOUT_MS);
 
     try {
+      const referencePhoto = imageBase64 ? await loadReferencePhoto(images, resumeDiag) : undefined;
       const response: ChatDiagnosisResponse = await chatDiagnosis(
         result,
         plantContextRef.current,
@@ -317,6 +354,8 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
         imageBase64,
         i18n.language,
         options?.priorDiagnosisSummary,   // Phase 9 (DIAG-05): additive — undefined when not resumed
+        referencePhoto,
+        conversationIdRef.current ?? undefined,
       );
 
       clearTimeout(timeoutId);
@@ -326,6 +365,7 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
         role: 'assistant',
         text: response.reply,
         timestamp: new Date().toISOString(),
+        ...(response.promptVersion ? { promptVersion: response.promptVersion } : {}),
       };
 
       setChatMessages(prev => [...prev, assistantMsg]);
@@ -358,6 +398,12 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
       });
     } catch (err: any) {
       clearTimeout(timeoutId);
+      if (err.name === QUOTA_EXCEEDED_ERROR && options?.onQuotaExceeded) {
+        // The message was not answered — take it back out so the retry sends it once
+        setChatMessages(prev => prev.filter(m => m.id !== userMsg.id));
+        options.onQuotaExceeded('chat', () => sendChatMessage(message, imageBase64, imageUri));
+        return;
+      }
       if (err.name === 'AbortError') {
         setChatError(t('diagnosis.chatTimeout'));
       } else {
@@ -366,7 +412,7 @@ export function usePlantDiagnosis(options?: UsePlantDiagnosisOptions): UsePlantD
     } finally {
       setChatLoading(false);
     }
-  }, [result, chatMessages, resumeDiag, savedDiagnosisId, options, t, i18n.language]);
+  }, [result, chatMessages, images, resumeDiag, savedDiagnosisId, options, t, i18n.language]);
 
   return {
     state,
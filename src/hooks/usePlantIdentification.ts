@@ -9,6 +9,12 @@ import { trackEvent } from '../services/analyticsService';
 
 const TIMEOUT_MS = 30000; // 30 seconds timeout
 
+interface UsePlantIdentificationOptions {
+  /** v1.3 (QUOTA-01): the server refused the call because the free identifications are used
+   *  up. `retry` runs the analysis again — call it after a purchase. */
+  onQuotaExceeded?: (retry: () => void) => void;
+}
+
 interface UsePlantIdentificationReturn {
   state: IdentificationState;
   imageUri: string | null;
@@ -27,7 +33,7 @@ interface UsePlantIdentificationReturn {
   selectedPlant: IdentifiedPlant | null;
 }
 
-export function usePlantIdentification(): UsePlantIdentificationReturn {
+export function usePlantIdentification(options?: UsePlantIdentificationOptions): UsePlantIdentificationReturn {
   const { t } = useTranslation();
   const [state, setState] = useState<IdentificationState>('idle');
   const [imageUri, setImageUri] = useState<string | null>(null);
@@ -159,6 +165,13 @@ export function usePlantIdentification(): UsePlantIdentificationReturn {
       clearTimeout(timeoutId);
 
       if (__DEV__) console.log('[PlantID] Result:', JSON.stringify({ success: identificationResult.success, type: identificationResult.type, resultsCount: identificationResult.results.length, reason: identificationResult.reason }));
+
+      if (identificationResult.quotaExceeded && options?.onQuotaExceeded) {
+        // Keep the photo; the paywall goes on top
+        setState('capturing');
+        options.onQuotaExceeded(() => analyze());
+        return;
+      }
       setResult(identificationResult);
 
       if (identificationResult.success) {
@@ -187,7 +200,7 @@ export function usePlantIdentification(): UsePlantIdentificationReturn {
     } finally {
       abortControllerRef.current = null;
     }
-  }, [imageBase64]);
+  }, [imageBase64, options?.onQuotaExceeded]);
 
   const selectResult = useCallback(async (plant: IdentifiedPlant) => {
     setSelectedPlant(plant);
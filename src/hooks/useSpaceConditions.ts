@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import { Features } from '../config/features';
+import { useStorage } from './useStorage';
+import { useWeatherByLocation, weatherKeyFor } from './useWeather';
+import type { Garden, WeatherData } from '../types';
+import { groupPlantsBySpace, resolveGardenContext, SpaceConditions } from '../utils/gardens';
+import { formatDate } from '../utils/dates';
+
+const NO_GARDENS: Garden[] = [];
+
+/**
+ * v1.3 (GARDEN-01): every plant grouped by space with that space's season and weather —
+ * the app-wide counterpart of the single space Today / Plants show. With the flag off every
+ * plant is home. `homeWeather` is the home forecast, the same object as the `weather` of
+ * every space at the home location.
+ */
+export function useSpaceConditions(): { spaces: SpaceConditions[]; homeWeather: WeatherData | null } {
+  const { plants, gardens: storedGardens, location, climateOverride } = useStorage();
+  const gardens = Features.MULTIPLE_GARDENS ? storedGardens : NO_GARDENS;
+  const home = useMemo(() => ({ location, climateOverride }), [location, climateOverride]);
+
+  const locations = useMemo(
+    () => [location, ...gardens.map(g => resolveGardenContext(g.id, gardens, home).location)],
+    [location, gardens, home]
+  );
+  const weatherByKey = useWeatherByLocation(locations);
+
+  // Seasons flip at midnight: recompute once per day even when nothing else changes.
+  const todayStr = formatDate(new Date());
+
+  const weatherFor = (loc: typeof location) => (loc ? weatherByKey[weatherKeyFor(loc)] ?? null : null);
+  const spaces = useMemo(
+    () => groupPlantsBySpace(plants, gardens, home, new Date(), weatherFor),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [plants, gardens, home, weatherByKey, todayStr]
+  );
+
+  return { spaces, homeWeather: weatherFor(location) };
+}
@@ -1,9 +1,9 @@
 import { useState, useEffect, useCallback, useMemo, useRef, createContext, useContext, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Plant, PlantPhoto, Note, Reminder, Location, AppData, NotificationSettings, SavedDiagnosis, DiagnosisChatMessage, ShoppingItem, TrackingStatus, ProblemEntry, ClimateOverride, JournalEntry } from '../types';
+import { Plant, PlantPhoto, Note, Reminder, Location, AppData, NotificationSettings, SavedDiagnosis, DiagnosisChatMessage, ShoppingItem, TrackingStatus, ProblemEntry, ClimateOverride, JournalEntry, CareEvent, CareEventType, CareEventSource, DeferrableTask, TaskDeferralKind, VacationPlan, Garden, SyncTombstone, HealthSnapshot, PlantHealthStatus, CareDay } from '../types';
 import type { PersistedAppData } from '../types';
 import { STORAGE_KEY } from '../data/constants';
-import { formatDate } from '../utils/dates';
+import { formatDate, parseDate } from '../utils/dates';
 import { severityToTrackingStatus } from '../services/problemTrackingService';
 import { trackEvent } from '../services/analyticsService';
 import {
@@ -15,7 +15,24 @@ import {
 } from '../utils/migration';
 import { getCatalogEntry } from '../data/plantDatabase';
 import { deleteJournalDirectory } from '../services/journalService';
+import { removeRemotePhotos } from '../services/photoStorageService';
 import { triggerHaptic } from '../utils/haptics';
+import { createCareEvent, appendCareEvent, findLastCareEvent, careTagToEventType } from '../utils/careLog';
+import { buildTaskDeferral } from '../utils/taskDeferral';
+import { rebaselineAfterVacation } from '../utils/vacationPlan';
+import { getEffectiveSeason, type WaterSeason } from '../utils/seasonality';
+import { inferPlacement } from '../utils/placement';
+import { stampRecords, stampDatedRecords, recordDeletions, recordPerPlantDeletions, flattenDated } from '../utils/syncMerge';
+import { recordHealthSnapshots } from '../utils/healthHistory';
+import { recordCareDays } from '../utils/careStreaks';
+import type { PhotoRef } from '../utils/photoQueue';
+import { canDeletePlant } from '../utils/household';
+import {
+  HOME_GARDEN_ID,
+  GardenContext,
+  resolveGardenContext,
+  reassignPlantsFromGarden,
+} from '../utils/gardens';
 
 /**
  * v1.2 Phase 14 (EDU-06). Fields that represent user-customized values which catalog-source
@@ -46,6 +63,13 @@ interface StorageState {
   shoppingList: ShoppingItem[];
   journals: Record<string, JournalEntry[]>; // v1.2 Phase 21 JOURNAL-01; never undefined at runtime, defaults to {}
   climateOverride: ClimateOverride; // v1.1 Phase 7 LOC-05; never undefined at runtime, defaults to 'auto'
+  careLog: Record<string, CareEvent[]>; // v1.3 HIST-01; never undefined at runtime, defaults to {}
+  vacation: VacationPlan | null; // v1.3 VAC-01; null = no trip planned
+  gardens: Garden[]; // v1.3 GARDEN-01; extra spaces besides home, defaults to []
+  activeGardenId: string; // v1.3 GARDEN-01; defaults to HOME_GARDEN_ID
+  syncTombstones: SyncTombstone[]; // v1.3 SYNC-02; deletions not yet expired, defaults to []
+  healthHistory: Record<string, HealthSnapshot[]>; // v1.3 HEALTH-01; daily scores per plant, defaults to {}
+  careDays: Record<string, CareDay[]>; // v1.3 STREAK-01; daily task completion per plant, defaults to {}
   loading: boolean;
   migrationFailed: boolean;       // SCHEMA-07: drives MigrationBanner render (Plan 06)
   migrationJustHappened: boolean; // SCHEMA-06: drives App-level reschedule trigger (Plan 07)
@@ -65,8 +89,19 @@ interface StorageActions {
   sunPlant: (id: string) => void;
   /** v1.2 Phase 22 (GAM-02) — marks outdoor task done on plant.outdoorDoneDate (TOGGLE — celebration fires ONLY on transition to done). */
   outdoorPlant: (id: string) => void;
+  /** v1.3 (ADAPT-01) — soil_check plant checked and still moist: logs a 'soil_check' care event for
+   *  today. Does NOT touch lastWatered. Feeds suggestWaterInterval. */
+  skipSoilCheck: (id: string) => void;
+  /** v1.3 (SNOOZE-01) — defers the water/check_soil or fertilize occurrence due on `dueDate`.
+   *  'snooze' brings it back `days` later; 'skip' expects `days` = the active interval.
+   *  Replaces any previous deferral for the same task. No haptic — nothing was completed. */
+  deferTask: (plantId: string, task: DeferrableTask, kind: TaskDeferralKind, dueDate: string, days: number) => void;
   /** v1.2 Phase 22 (GAM-01) — registers or clears the screen-level Toast callback. Pass `null` to clear on unmount. Screens (PlantsScreen, TodayScreen, CalendarScreen) register their setGamificationToastVisible setter via useEffect. */
   setOnTaskCompleted: (cb: (() => void) | null) => void;
+  /** v1.3 (HIST-01) — appends a care event without touching plant state. Used by back-dated
+   *  calendar completions, which update the plant fields themselves via updatePlant.
+   *  source 'undo' reverts the latest matching event on `date` (no-op when there is none). */
+  logCareEvent: (plantId: string, type: CareEventType, date: string, source: CareEventSource) => void;
   addNote: (dateStr: string, note: Note) => void;
   deleteNote: (dateStr: string, noteId: string) => void;
   addReminder: (dateStr: string, reminder: Reminder) => void;
@@ -90,13 +125,15 @@ interface StorageActions {
   incrementDiagnosisCount: () => void;
   addPhotoToPlant: (plantId: string, photo: PlantPhoto) => void;
   removePhotoFromPlant: (plantId: string, photoId: string) => void;
+  /** v1.3 (SYNC-03) — records the user-photos bucket path once a photo has been uploaded. */
+  setPhotoRemotePath: (ref: Pick<PhotoRef, 'kind' | 'plantId' | 'id'>, remotePath: string) => void;
   saveDiagnosis: (diagnosis: SavedDiagnosis) => void;
   addChatMessage: (plantId: string, diagnosisId: string, message: DiagnosisChatMessage | DiagnosisChatMessage[]) => void;
   getDiagnosesForPlant: (plantId: string) => SavedDiagnosis[];
   resolveDiagnosis: (plantId: string, diagnosisId: string) => void;
   updateDiagnosis: (plantId: string, diagnosisId: string, updates: Partial<SavedDiagnosis>) => void; // Phase 9 (DIAG-03): generic merge for reopenedAt + system-message append on reopen
   getActiveDiagnosesForPlant: (plantId: string) => SavedDiagnosis[];
-  trackProblem: (plantId: string, diagnosisId: string, trackingStatus: TrackingStatus, followUpDate: string, notificationId: string | null, problemSummary: string) => void;
+  trackProblem: (plantId: string, diagnosisId: string, trackingStatus: TrackingStatus, followUpDate: string, notificationId: string | null, problemSummary: string, imageUris?: string[]) => void;
   resolveTrackedProblem: (plantId: string, diagnosisId: string) => void;
   reopenTrackedProblem: (plantId: string, diagnosisId: string) => void;
   addFollowUpEntry: (plantId: string, diagnosisId: string, entry: ProblemEntry) => void;
@@ -106,6 +143,41 @@ interface StorageActions {
   clearCheckedShoppingItems: () => void;
   acknowledgeMigrationReschedule: () => void; // App.tsx (Plan 07) calls this once it has rescheduled notifications
   setClimateOverride: (override: ClimateOverride) => void; // v1.1 Phase 7 (LOC-05)
+  /** v1.3 (VAC-01) — plans (or cancels, with null) a trip. Does not touch plant schedules. */
+  setVacation: (vacation: VacationPlan | null) => void;
+  /** v1.3 (VAC-01) — user is back: re-baselines tasks missed during the trip onto today and
+   *  clears the plan. Runs automatically once the return day is reached. */
+  endVacation: () => void;
+  // ─── v1.3 (GARDEN-01) ───
+  /** Replaces the space list (cloud download). Plants pointing at a missing space fall back
+   *  to home at read time via resolveGardenContext. */
+  setGardens: (gardens: Garden[]) => void;
+  addGarden: (garden: Garden) => void;
+  updateGarden: (id: string, updates: Partial<Omit<Garden, 'id'>>) => void;
+  /** Removes a space; its plants move home. Switches back to home if it was active. */
+  deleteGarden: (id: string) => void;
+  /** Space shown on Today / Plants. New plants are added to it. */
+  setActiveGarden: (id: string) => void;
+  /** Pass HOME_GARDEN_ID to move a plant back home. */
+  movePlantToGarden: (plantId: string, gardenId: string) => void;
+  /** Location + climate override for a space (home for undefined / unknown ids).
+   *  Feed the result to getEffectiveSeason / useWeather. */
+  getGardenContext: (gardenId?: string) => GardenContext;
+  // v1.3 (BACKUP-01) — full-data backup export / import
+  /** Current AppData, read from the ref (includes mutations not yet re-rendered). */
+  getAppDataSnapshot: () => AppData;
+  /** Replaces every persisted field with `data` as is — a merged cloud download (mergeCloudData),
+   *  which must not be stamped again or queue tombstones. */
+  restoreAppData: (data: AppData) => void;
+  /** Replaces every persisted field with `data` (already migrated + merged by utils/backup) as
+   *  a local edit: synced records are stamped and the ones it removes leave tombstones. */
+  importBackupData: (data: AppData) => void;
+  /** v1.3 (HEALTH-01) — stores today's computed health as each plant's snapshot for `date`.
+   *  No save when every snapshot is unchanged. */
+  recordHealth: (statuses: PlantHealthStatus[], date: string) => void;
+  /** v1.3 (STREAK-01) — records which of `plants`' tasks were due and done on `date`.
+   *  No save when nothing changed. */
+  recordCare: (plants: Plant[], date: string, season: WaterSeason) => void;
 }
 
 type StorageContextType = StorageState & StorageActions;
@@ -135,11 +207,33 @@ function snapshotFromRef(ref: React.MutableRefObject<Omit<StorageState, 'loading
     shoppingList: d.shoppingList,
     climateOverride: d.climateOverride,
     journals: d.journals,
+    careLog: d.careLog,
+    vacation: d.vacation,
+    gardens: d.gardens,
+    activeGardenId: d.activeGardenId,
+    syncTombstones: d.syncTombstones,
+    healthHistory: d.healthHistory,
+    careDays: d.careDays,
   };
 }
 
 const SAVE_DEBOUNCE_MS = 100;
 
+// v1.3 (GARDEN-01): new plants land in the space the user is looking at, unless the caller
+// already picked one. Home plants carry no gardenId.
+function withGarden(plant: Plant, activeGardenId: string): Plant {
+  if (plant.gardenId !== undefined || activeGardenId === HOME_GARDEN_ID) return plant;
+  return { ...plant, gardenId: activeGardenId };
+}
+
+// v1.3 (PLACE-01): placement is decided once, when the plant is added — the catalog
+// `outdoor` flag when the plant comes from the catalog, its category otherwise.
+function withPlacement(plant: Plant): Plant {
+  if (plant.placement !== undefined) return plant;
+  const entry = plant.databaseId ? getCatalogEntry(plant.databaseId) : null;
+  return { ...plant, placement: inferPlacement(plant.typeId, entry?.outdoor) };
+}
+
 export function StorageProvider({ children }: StorageProviderProps) {
   const [plants, setPlants] = useState<Plant[]>([]);
   const [notes, setNotes] = useState<Record<string, Note[]>>({});
@@ -157,6 +251,13 @@ export function StorageProvider({ children }: StorageProviderProps) {
   // v1.2 Phase 21 (JOURNAL-01): state field; load-path hydrates via setJournals. Mutation actions land in Plan 21-03.
   const [journals, setJournals] = useState<Record<string, JournalEntry[]>>({});
   const [climateOverride, setClimateOverrideState] = useState<ClimateOverride>('auto');
+  const [careLog, setCareLog] = useState<Record<string, CareEvent[]>>({});
+  const [vacation, setVacationState] = useState<VacationPlan | null>(null);
+  const [gardens, setGardensState] = useState<Garden[]>([]);
+  const [activeGardenId, setActiveGardenId] = useState<string>(HOME_GARDEN_ID);
+  const [syncTombstones, setSyncTombstones] = useState<SyncTombstone[]>([]);
+  const [healthHistory, setHealthHistory] = useState<Record<string, HealthSnapshot[]>>({});
+  const [careDays, setCareDays] = useState<Record<string, CareDay[]>>({});
   const [loading, setLoading] = useState(true);
   const [migrationFailed, setMigrationFailed] = useState(false);
   const [migrationJustHappened, setMigrationJustHappened] = useState(false);
@@ -178,6 +279,13 @@ export function StorageProvider({ children }: StorageProviderProps) {
     shoppingList: [],
     journals: {},
     climateOverride: 'auto',
+    careLog: {},
+    vacation: null,
+    gardens: [],
+    activeGardenId: HOME_GARDEN_ID,
+    syncTombstones: [],
+    healthHistory: {},
+    careDays: {},
   });
 
   // Debounced save timer ref
@@ -212,6 +320,81 @@ export function StorageProvider({ children }: StorageProviderProps) {
     }, SAVE_DEBOUNCE_MS);
   }, []);
 
+  // Pushes a full AppData into React state + dataRef. Shared by the load path, restoreAppData
+  // and importBackupData (v1.3 BACKUP-01) so all of them hydrate exactly the same fields.
+  const hydrate = useCallback((data: AppData) => {
+    const p = data.plants || [];
+    const n = data.notes || {};
+    const r = data.reminders || {};
+    const loc = data.location || null;
+    const ob = data.onboardingCompleted || false;
+    const un = data.userName || null;
+    const ns = data.notificationSettings || null;
+    const pnk = data.plantNetApiKey || null;
+    const ic = data.identificationCount || 0;
+    const dc = data.diagnosisCount || 0;
+    const dh = data.diagnosisHistory || {};
+    const sl = data.shoppingList || [];
+    const co: ClimateOverride = (data as AppData).climateOverride ?? 'auto';
+    const j: Record<string, JournalEntry[]> = data.journals || {};
+    const cl: Record<string, CareEvent[]> = data.careLog || {};
+    const vac: VacationPlan | null = data.vacation ?? null;
+    const gs: Garden[] = data.gardens || [];
+    const ag: string = data.activeGardenId ?? HOME_GARDEN_ID;
+    const st: SyncTombstone[] = data.syncTombstones || [];
+    const hh: Record<string, HealthSnapshot[]> = data.healthHistory || {};
+    const cd: Record<string, CareDay[]> = data.careDays || {};
+    const effectiveInstallDate = data.installDate || formatDate(new Date());
+
+    setPlants(p);
+    setNotes(n);
+    setReminders(r);
+    setLocation(loc);
+    setOnboardingCompleted(ob);
+    setUserNameState(un);
+    setNotificationSettings(ns);
+    setPlantNetApiKeyState(pnk);
+    setIdentificationCount(ic);
+    setDiagnosisCount(dc);
+    setDiagnosisHistory(dh);
+    setShoppingList(sl);
+    setJournals(j);
+    setCareLog(cl);
+    setVacationState(vac);
+    setGardensState(gs);
+    setActiveGardenId(ag);
+    setSyncTombstones(st);
+    setHealthHistory(hh);
+    setCareDays(cd);
+    setClimateOverrideState(co);
+    setInstallDate(effectiveInstallDate);
+
+    dataRef.current = {
+      plants: p,
+      notes: n,
+      reminders: r,
+      location: loc,
+      onboardingCompleted: ob,
+      userName: un,
+      notificationSettings: ns,
+      plantNetApiKey: pnk,
+      installDate: effectiveInstallDate,
+      identificationCount: ic,
+      diagnosisCount: dc,
+      diagnosisHistory: dh,
+      shoppingList: sl,
+      journals: j,
+      climateOverride: co,
+      careLog: cl,
+      vacation: vac,
+      gardens: gs,
+      activeGardenId: ag,
+      syncTombstones: st,
+      healthHistory: hh,
+      careDays: cd,
+    };
+  }, []);
+
   // Load data on mount
   // Envelope-aware migration sequence (SCHEMA-01..09 / B2 simplified stage contract).
   // Single outer try/catch — ANY throw from getItem, JSON.parse, runMigrations, or
@@ -236,6 +419,7 @@ export function StorageProvider({ children }: StorageProviderProps) {
           setInstallDate(id);
           dataRef.current.installDate = id;
           dataRef.current.journals = {};
+          dataRef.current.careLog = {};
           setLoading(false);
           return;
         }
@@ -257,8 +441,12 @@ export function StorageProvider({ children }: StorageProviderProps) {
             throw new Error('FORCE_MIGRATION_FAIL (dev-only synthetic failure)');
           }
 
-          // Backup BEFORE mutating live data (SCHEMA-02) — write raw original verbatim
-          await AsyncStorage.setItem(BACKUP_KEY, stored);
+          // Backup BEFORE mutating live data (SCHEMA-02) — write raw original verbatim.
+          // Only for v0 sources: v1 → v2 is additive (careLog seed) and must not clobber
+          // the pre-v1.1 backup blob with already-migrated data.
+          if (persisted.schemaVersion < 1) {
+            await AsyncStorage.setItem(BACKUP_KEY, stored);
+          }
 
           // Pure transform
           data = runMigrations(persisted);
@@ -310,61 +498,14 @@ export function StorageProvider({ children }: StorageProviderProps) {
 
       // Hydrate React state from `data` (migrated OR legacy fallback OR null)
       if (data) {
-        const p = data.plants || [];
-        const n = data.notes || {};
-        const r = data.reminders || {};
-        const loc = data.location || null;
-        const ob = data.onboardingCompleted || false;
-        const un = data.userName || null;
-        const ns = data.notificationSettings || null;
-        const pnk = data.plantNetApiKey || null;
-        const ic = data.identificationCount || 0;
-        const dc = data.diagnosisCount || 0;
-        const dh = data.diagnosisHistory || {};
-        const sl = data.shoppingList || [];
-        const co: ClimateOverride = (data as AppData).climateOverride ?? 'auto';
-        const j: Record<string, JournalEntry[]> = data.journals || {};
-        const effectiveInstallDate = data.installDate || formatDate(new Date());
-
-        setPlants(p);
-        setNotes(n);
-        setReminders(r);
-        setLocation(loc);
-        setOnboardingCompleted(ob);
-        setUserNameState(un);
-        setNotificationSettings(ns);
-        setPlantNetApiKeyState(pnk);
-        setIdentificationCount(ic);
-        setDiagnosisCount(dc);
-        setDiagnosisHistory(dh);
-        setShoppingList(sl);
-        setJournals(j);
-        setClimateOverrideState(co);
-        setInstallDate(effectiveInstallDate);
-
-        dataRef.current = {
-          plants: p,
-          notes: n,
-          reminders: r,
-          location: loc,
-          onboardingCompleted: ob,
-          userName: un,
-          notificationSettings: ns,
-          plantNetApiKey: pnk,
-          installDate: effectiveInstallDate,
-          identificationCount: ic,
-          diagnosisCount: dc,
-          diagnosisHistory: dh,
-          shoppingList: sl,
-          journals: j,
-          climateOverride: co,
-        };
+        hydrate(data);
       } else {
         // Both migration AND legacy parse failed — treat as brand-new user
         const id = formatDate(new Date());
         setInstallDate(id);
         dataRef.current.installDate = id;
         dataRef.current.journals = {};
+        dataRef.current.careLog = {};
       }
 
       if (didMigrate) {
@@ -375,7 +516,7 @@ export function StorageProvider({ children }: StorageProviderProps) {
     };
 
     loadData();
-  }, []);
+  }, [hydrate]);
 
   // Cleanup debounce timer on unmount — flush pending save
   // Always emits the v1.1 versioned envelope { schemaVersion, data } (SCHEMA-09).
@@ -393,29 +534,115 @@ export function StorageProvider({ children }: StorageProviderProps) {
     };
   }, []);
 
+  // v1.3 (SYNC-02): every write to synced records goes through these, so each touched record
+  // gets a fresh updatedAt (the append-only care history aside) and each removed one leaves a
+  // tombstone for two-way sync (utils/syncMerge.ts). Callers still schedule the save.
+  const commitTombstones = useCallback((next: SyncTombstone[]) => {
+    if (next === dataRef.current.syncTombstones) return;
+    setSyncTombstones(next);
+    dataRef.current.syncTombstones = next;
+  }, []);
+
+  const commitPlants = useCallback((newPlants: Plant[]) => {
+    const now = new Date().toISOString();
+    const prev = dataRef.current.plants;
+    const stamped = stampRecords(prev, newPlants, now);
+    setPlants(stamped);
+    dataRef.current.plants = stamped;
+    commitTombstones(recordDeletions(dataRef.current.syncTombstones, 'plant', prev, stamped, now));
+  }, [commitTombstones]);
+
+  const commitNotes = useCallback((newNotes: Record<string, Note[]>) => {
+    const now = new Date().toISOString();
+    const prev = dataRef.current.notes;
+    const stamped = stampDatedRecords(prev, newNotes, now);
+    setNotes(stamped);
+    dataRef.current.notes = stamped;
+    commitTombstones(recordDeletions(dataRef.current.syncTombstones, 'note', flattenDated(prev), flattenDated(stamped), now));
+  }, [commitTombstones]);
+
+  const commitReminders = useCallback((newReminders: Record<string, Reminder[]>) => {
+    const now = new Date().toISOString();
+    const prev = dataRef.current.reminders;
+    const stamped = stampDatedRecords(prev, newReminders, now);
+    setReminders(stamped);
+    dataRef.current.reminders = stamped;
+    commitTombstones(recordDeletions(dataRef.current.syncTombstones, 'reminder', flattenDated(prev), flattenDated(stamped), now));
+  }, [commitTombstones]);
+
+  // v1.3 (GARDEN-01): spaces are stamped the same way, so an edit on two devices keeps the newer one.
+  const commitGardens = useCallback((newGardens: Garden[]) => {
+    const now = new Date().toISOString();
+    const prev = dataRef.current.gardens;
+    const stamped = stampRecords(prev, newGardens, now);
+    setGardensState(stamped);
+    dataRef.current.gardens = stamped;
+    commitTombstones(recordDeletions(dataRef.current.syncTombstones, 'garden', prev, stamped, now));
+  }, [commitTombstones]);
+
+  // Journal entries, diagnoses and shopping items are stamped too, so an edit made on two
+  // devices keeps the newer one. Entries of a deleted plant are covered by the plant's own
+  // tombstone (recordPerPlantDeletions).
+  const commitJournals = useCallback((newJournals: Record<string, JournalEntry[]>) => {
+    const now = new Date().toISOString();
+    const prev = dataRef.current.journals;
+    const stamped = stampDatedRecords(prev, newJournals, now);
+    setJournals(stamped);
+    dataRef.current.journals = stamped;
+    commitTombstones(recordPerPlantDeletions(dataRef.current.syncTombstones, 'journal', prev, stamped, new Set(dataRef.current.plants.map(p => p.id)), now));
+  }, [commitTombstones]);
+
+  const commitDiagnosisHistory = useCallback((newHistory: Record<string, SavedDiagnosis[]>) => {
+    const now = new Date().toISOString();
+    const prev = dataRef.current.diagnosisHistory;
+    const stamped = stampDatedRecords(prev, newHistory, now);
+    setDiagnosisHistory(stamped);
+    dataRef.current.diagnosisHistory = stamped;
+    commitTombstones(recordPerPlantDeletions(dataRef.current.syncTombstones, 'diagnosis', prev, stamped, new Set(dataRef.current.plants.map(p => p.id)), now));
+  }, [commitTombstones]);
+
+  // The care history is append-only and has no updatedAt; a removed event still leaves a
+  // tombstone so the merge does not bring it back.
+  const commitCareLog = useCallback((newCareLog: Record<string, CareEvent[]>) => {
+    const prev = dataRef.current.careLog;
+    setCareLog(newCareLog);
+    dataRef.current.careLog = newCareLog;
+    commitTombstones(recordPerPlantDeletions(dataRef.current.syncTombstones, 'care_event', prev, newCareLog, new Set(dataRef.current.plants.map(p => p.id)), new Date().toISOString()));
+  }, [commitTombstones]);
+
+  const commitShoppingList = useCallback((newList: ShoppingItem[]) => {
+    const now = new Date().toISOString();
+    const prev = dataRef.current.shoppingList;
+    const stamped = stampRecords(prev, newList, now);
+    setShoppingList(stamped);
+    dataRef.current.shoppingList = stamped;
+    commitTombstones(recordDeletions(dataRef.current.syncTombstones, 'shopping', prev, stamped, now));
+  }, [commitTombstones]);
+
   // --- Mutation helpers: each updates its own field in state + ref, then schedules save ---
 
   const handleSetPlants = useCallback((newPlants: Plant[]) => {
-    setPlants(newPlants);
-    dataRef.current.plants = newPlants;
+    commitPlants(newPlants);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants]);
 
   const addPlant = useCallback((plant: Plant) => {
-    const newPlants = [...dataRef.current.plants, plant];
-    setPlants(newPlants);
-    dataRef.current.plants = newPlants;
+    const newPlants = [...dataRef.current.plants, withGarden(withPlacement(plant), dataRef.current.activeGardenId)];
+    commitPlants(newPlants);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants]);
 
   const addPlants = useCallback((newPlantsToAdd: Plant[]) => {
-    const newPlants = [...dataRef.current.plants, ...newPlantsToAdd];
-    setPlants(newPlants);
-    dataRef.current.plants = newPlants;
+    const newPlants = [...dataRef.current.plants, ...newPlantsToAdd.map(p => withGarden(withPlacement(p), dataRef.current.activeGardenId))];
+    commitPlants(newPlants);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants]);
 
   const deletePlant = useCallback((id: string) => {
+    // v1.3 (HOUSE-01) — members don't delete shared plants: no local removal, no tombstone.
+    const target = dataRef.current.plants.find(p => p.id === id);
+    if (target && !canDeletePlant(target, dataRef.current.gardens)) return;
+
     // ─── Phase 21 (JOURNAL-04) ORPHAN CLEANUP — BEFORE state mutation ───
     // Fire-and-forget: photo dir delete is async but state mutation is sync.
     // Idempotent: missing dir is a no-op inside the service (deleteJournalDirectory existence-guarded).
@@ -427,25 +654,47 @@ export function StorageProvider({ children }: StorageProviderProps) {
     deleteJournalDirectory(id).catch(e => {
       if (__DEV__) console.warn('[deletePlant] journal photo cleanup failed (orphans possible):', e);
     });
+    // v1.3 (SYNC-03) — same policy for the cloud copies.
+    const remotePaths = [
+      ...(dataRef.current.plants.find(p => p.id === id)?.photos ?? []).map(ph => ph.remotePath),
+      ...(dataRef.current.journals[id] ?? []).map(e => e.photoRemotePath),
+    ].filter((path): path is string => !!path);
+    removeRemotePhotos(remotePaths).catch(e => {
+      if (__DEV__) console.warn('[deletePlant] cloud photo cleanup failed (orphans possible):', e);
+    });
 
     const newPlants = dataRef.current.plants.filter(p => p.id !== id);
-    setPlants(newPlants);
-    dataRef.current.plants = newPlants;
+    commitPlants(newPlants);
 
     // Clean up orphaned diagnosis history for the deleted plant
     const newHistory = { ...dataRef.current.diagnosisHistory };
     delete newHistory[id];
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
 
     // ─── Phase 21 (JOURNAL-04) — clean up journals map entry for the deleted plant ───
     const newJournals = { ...dataRef.current.journals };
     delete newJournals[id];
-    setJournals(newJournals);
-    dataRef.current.journals = newJournals;
+    commitJournals(newJournals);
+
+    // v1.3 (HIST-01) — the care history goes with the plant.
+    const newCareLog = { ...dataRef.current.careLog };
+    delete newCareLog[id];
+    commitCareLog(newCareLog);
+
+    // v1.3 (HEALTH-01) — and so does its health history.
+    const newHealthHistory = { ...dataRef.current.healthHistory };
+    delete newHealthHistory[id];
+    setHealthHistory(newHealthHistory);
+    dataRef.current.healthHistory = newHealthHistory;
+
+    // v1.3 (STREAK-01) — and its care days.
+    const newCareDays = { ...dataRef.current.careDays };
+    delete newCareDays[id];
+    setCareDays(newCareDays);
+    dataRef.current.careDays = newCareDays;
 
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants, commitJournals, commitDiagnosisHistory, commitCareLog]);
 
   const updatePlant = useCallback((id: string, updates: Partial<Plant>, options: UpdatePlantOptions = {}) => {
     // Phase 8 (CAT-05): auto-rewrite alias databaseId to canonical on save.
@@ -482,10 +731,26 @@ export function StorageProvider({ children }: StorageProviderProps) {
       }
     }
     const newPlants = dataRef.current.plants.map(p => p.id === id ? { ...p, ...normalizedUpdates } : p);
-    setPlants(newPlants);
-    dataRef.current.plants = newPlants;
+    commitPlants(newPlants);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants]);
+
+  // v1.3 (HIST-01) — append-only. An undo never deletes: it appends a 'undo' event pointing
+  // at the latest effective event of the same type on the same date.
+  const logCareEvent = useCallback((plantId: string, type: CareEventType, date: string, source: CareEventSource) => {
+    const cur = dataRef.current.careLog;
+    let event: CareEvent;
+    if (source === 'undo') {
+      const target = findLastCareEvent(cur[plantId], type, date);
+      if (!target) return;
+      event = createCareEvent(type, date, 'undo', target.id);
+    } else {
+      event = createCareEvent(type, date, source);
+    }
+    const newCareLog = appendCareEvent(cur, plantId, event);
+    commitCareLog(newCareLog);
+    scheduleSave();
+  }, [scheduleSave, commitCareLog]);
 
   /**
    * v1.2 Phase 20 (FERT-06). Marks fertilization done — sets fertilizeSchedule.lastFertilized = today.
@@ -518,7 +783,8 @@ export function StorageProvider({ children }: StorageProviderProps) {
     triggerHaptic('success');
     onTaskCompletedRef.current?.();
     updatePlant(id, { fertilizeSchedule: nextSchedule }, { fromUserEdit: true });
-  }, [updatePlant]);
+    logCareEvent(id, 'fertilize', today, 'task');
+  }, [updatePlant, logCareEvent]);
 
   // GAM-05 lock: NEVER add streak counters or consecutive-day tracking here.
   // The mood emoji (Phase 18 GAM-03/04) communicates plant state without anxiety.
@@ -528,10 +794,13 @@ export function StorageProvider({ children }: StorageProviderProps) {
     const plant = dataRef.current.plants.find(p => p.id === id);
     if (!plant) return;
     const todayStr = formatDate(new Date());
+    // Watered once today already — a second tap would log a second watering for the same day.
+    if (findLastCareEvent(dataRef.current.careLog[id], 'water', todayStr)) return;
     triggerHaptic('success');
     onTaskCompletedRef.current?.();
     updatePlant(id, { lastWatered: todayStr }, { fromUserEdit: true });
-  }, [updatePlant]);
+    logCareEvent(id, 'water', todayStr, 'task');
+  }, [updatePlant, logCareEvent]);
 
   // GAM-05 lock: NEVER add streak counters or consecutive-day tracking here.
   // The mood emoji (Phase 18 GAM-03/04) communicates plant state without anxiety.
@@ -547,7 +816,8 @@ export function StorageProvider({ children }: StorageProviderProps) {
       onTaskCompletedRef.current?.();
     }
     updatePlant(id, { sunDoneDate: wasUndone ? todayStr : null }, { fromUserEdit: true });
-  }, [updatePlant]);
+    logCareEvent(id, 'sun', todayStr, wasUndone ? 'task' : 'undo');
+  }, [updatePlant, logCareEvent]);
 
   // GAM-05 lock: NEVER add streak counters or consecutive-day tracking here.
   // The mood emoji (Phase 18 GAM-03/04) communicates plant state without anxiety.
@@ -563,6 +833,33 @@ export function StorageProvider({ children }: StorageProviderProps) {
       onTaskCompletedRef.current?.();
     }
     updatePlant(id, { outdoorDoneDate: wasUndone ? todayStr : null }, { fromUserEdit: true });
+    logCareEvent(id, 'outdoor', todayStr, wasUndone ? 'task' : 'undo');
+  }, [updatePlant, logCareEvent]);
+
+  // v1.3 (ADAPT-01) — "still moist" outcome of a check-in. No haptic / celebration toast:
+  // nothing was done to the plant, the user only reported what the soil looked like.
+  const skipSoilCheck = useCallback((id: string) => {
+    const plant = dataRef.current.plants.find(p => p.id === id);
+    if (!plant) return;
+    const todayStr = formatDate(new Date());
+    // One check-in per day is enough for the interval learner; repeat taps add nothing.
+    if (findLastCareEvent(dataRef.current.careLog[id], 'soil_check', todayStr)) return;
+    logCareEvent(id, 'soil_check', todayStr, 'task');
+  }, [logCareEvent]);
+
+  // v1.3 (SNOOZE-01) — skip / snooze. Pins the deferral to the current completion date so a
+  // later water/fertilize tap voids it without a cleanup write.
+  const deferTask = useCallback((
+    plantId: string,
+    task: DeferrableTask,
+    kind: TaskDeferralKind,
+    dueDate: string,
+    days: number
+  ) => {
+    const plant = dataRef.current.plants.find(p => p.id === plantId);
+    if (!plant) return;
+    const deferral = buildTaskDeferral(plant, task, kind, parseDate(dueDate), days);
+    updatePlant(plantId, { taskDeferrals: { ...plant.taskDeferrals, [task]: deferral } });
   }, [updatePlant]);
 
   // v1.2 Phase 22 (GAM-01) — ref-based setter. Empty deps array: ref mutation is stable
@@ -574,34 +871,30 @@ export function StorageProvider({ children }: StorageProviderProps) {
   const addNote = useCallback((dateStr: string, note: Note) => {
     const cur = dataRef.current.notes;
     const newNotes = { ...cur, [dateStr]: [...(cur[dateStr] || []), note] };
-    setNotes(newNotes);
-    dataRef.current.notes = newNotes;
+    commitNotes(newNotes);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitNotes]);
 
   const deleteNote = useCallback((dateStr: string, noteId: string) => {
     const cur = dataRef.current.notes;
     const newNotes = { ...cur, [dateStr]: (cur[dateStr] || []).filter(n => n.id !== noteId) };
-    setNotes(newNotes);
-    dataRef.current.notes = newNotes;
+    commitNotes(newNotes);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitNotes]);
 
   const addReminder = useCallback((dateStr: string, reminder: Reminder) => {
     const cur = dataRef.current.reminders;
     const newReminders = { ...cur, [dateStr]: [...(cur[dateStr] || []), reminder] };
-    setReminders(newReminders);
-    dataRef.current.reminders = newReminders;
+    commitReminders(newReminders);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitReminders]);
 
   const deleteReminder = useCallback((dateStr: string, reminderId: string) => {
     const cur = dataRef.current.reminders;
     const newReminders = { ...cur, [dateStr]: (cur[dateStr] || []).filter(r => r.id !== reminderId) };
-    setReminders(newReminders);
-    dataRef.current.reminders = newReminders;
+    commitReminders(newReminders);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitReminders]);
 
   const updateReminder = useCallback((dateStr: string, reminderId: string, updates: Partial<Reminder>) => {
     const cur = dataRef.current.reminders;
@@ -610,27 +903,33 @@ export function StorageProvider({ children }: StorageProviderProps) {
       ...cur,
       [dateStr]: dateReminders.map(r => r.id === reminderId ? { ...r, ...updates } : r)
     };
-    setReminders(newReminders);
-    dataRef.current.reminders = newReminders;
+    commitReminders(newReminders);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitReminders]);
 
   // ─── Phase 21 (JOURNAL-03) — mirrors addNote/deleteNote at lines 476-490 ───
   const addJournalEntry = useCallback((plantId: string, entry: JournalEntry) => {
     const cur = dataRef.current.journals;
     const newJournals = { ...cur, [plantId]: [...(cur[plantId] || []), entry] };
-    setJournals(newJournals);
-    dataRef.current.journals = newJournals;
+    commitJournals(newJournals);
+    // v1.3 (HIST-01): care-tagged entries double as history. Plant schedule fields are NOT
+    // touched — a journal note is a record, the task buttons remain the scheduling input.
+    const careType = careTagToEventType(entry.careTag);
+    if (careType) {
+      logCareEvent(plantId, careType, entry.date, 'journal');
+      return; // logCareEvent already scheduled the save
+    }
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, logCareEvent, commitJournals]);
 
   const deleteJournalEntry = useCallback((plantId: string, entryId: string) => {
     const cur = dataRef.current.journals;
+    const remotePath = (cur[plantId] || []).find(e => e.id === entryId)?.photoRemotePath;
+    if (remotePath) removeRemotePhotos([remotePath]).catch(() => {});
     const newJournals = { ...cur, [plantId]: (cur[plantId] || []).filter(e => e.id !== entryId) };
-    setJournals(newJournals);
-    dataRef.current.journals = newJournals;
+    commitJournals(newJournals);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitJournals]);
 
   const updateLocation = useCallback((newLocation: Location | null) => {
     setLocation(newLocation);
@@ -649,14 +948,13 @@ export function StorageProvider({ children }: StorageProviderProps) {
     if (__DEV__) console.log('[Storage] completeOnboardingWithData called');
     const allPlants = [...dataRef.current.plants, ...newPlants];
     const finalUserName = newUserName ?? dataRef.current.userName;
-    setPlants(allPlants);
+    commitPlants(allPlants);
     setUserNameState(finalUserName);
     setOnboardingCompleted(true);
-    dataRef.current.plants = allPlants;
     dataRef.current.userName = finalUserName;
     dataRef.current.onboardingCompleted = true;
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants]);
 
   const setUserName = useCallback((name: string | null) => {
     setUserNameState(name);
@@ -695,20 +993,39 @@ export function StorageProvider({ children }: StorageProviderProps) {
       if (p.id !== plantId) return p;
       return { ...p, photos: [...(p.photos || []), photo] };
     });
-    setPlants(newPlants);
-    dataRef.current.plants = newPlants;
+    commitPlants(newPlants);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants]);
 
   const removePhotoFromPlant = useCallback((plantId: string, photoId: string) => {
+    const photo = dataRef.current.plants.find(p => p.id === plantId)?.photos?.find(ph => ph.id === photoId);
+    if (photo?.remotePath) removeRemotePhotos([photo.remotePath]).catch(() => {});
     const newPlants = dataRef.current.plants.map(p => {
       if (p.id !== plantId) return p;
       return { ...p, photos: (p.photos || []).filter(ph => ph.id !== photoId) };
     });
-    setPlants(newPlants);
-    dataRef.current.plants = newPlants;
+    commitPlants(newPlants);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitPlants]);
+
+  const setPhotoRemotePath = useCallback((ref: Pick<PhotoRef, 'kind' | 'plantId' | 'id'>, remotePath: string) => {
+    if (ref.kind === 'plant') {
+      const newPlants = dataRef.current.plants.map(p => {
+        if (p.id !== ref.plantId) return p;
+        return { ...p, photos: (p.photos || []).map(ph => (ph.id === ref.id ? { ...ph, remotePath } : ph)) };
+      });
+      commitPlants(newPlants);
+    } else {
+      const cur = dataRef.current.journals;
+      if (!cur[ref.plantId]) return; // entry deleted while uploading
+      const newJournals = {
+        ...cur,
+        [ref.plantId]: cur[ref.plantId].map(e => (e.id === ref.id ? { ...e, photoRemotePath: remotePath } : e)),
+      };
+      commitJournals(newJournals);
+    }
+    scheduleSave();
+  }, [scheduleSave, commitPlants, commitJournals]);
 
   const saveDiagnosis = useCallback((diagnosis: SavedDiagnosis) => {
     const withDefaults: SavedDiagnosis = {
@@ -722,10 +1039,9 @@ export function StorageProvider({ children }: StorageProviderProps) {
       ...cur,
       [withDefaults.plantId]: [withDefaults, ...plantDiagnoses],
     };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const addChatMessage = useCallback((plantId: string, diagnosisId: string, message: DiagnosisChatMessage | DiagnosisChatMessage[]) => {
     const messages = Array.isArray(message) ? message : [message];
@@ -735,10 +1051,9 @@ export function StorageProvider({ children }: StorageProviderProps) {
       d.id === diagnosisId ? { ...d, chat: [...d.chat, ...messages] } : d
     );
     const newHistory = { ...cur, [plantId]: updatedDiagnoses };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const getDiagnosesForPlant = useCallback((plantId: string): SavedDiagnosis[] => {
     return (dataRef.current.diagnosisHistory[plantId] || []).sort((a, b) =>
@@ -760,10 +1075,9 @@ export function StorageProvider({ children }: StorageProviderProps) {
         : d
     );
     const newHistory = { ...cur, [plantId]: updatedDiagnoses };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const updateDiagnosis = useCallback((plantId: string, diagnosisId: string, updates: Partial<SavedDiagnosis>) => {
     // Phase 9 (DIAG-03 / RESEARCH §CF-4): generic merge action.
@@ -775,10 +1089,9 @@ export function StorageProvider({ children }: StorageProviderProps) {
       d.id === diagnosisId ? { ...d, ...updates } : d
     );
     const newHistory = { ...cur, [plantId]: updatedDiagnoses };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const getActiveDiagnosesForPlant = useCallback((plantId: string): SavedDiagnosis[] => {
     return (dataRef.current.diagnosisHistory[plantId] || []).filter(d =>
@@ -786,7 +1099,7 @@ export function StorageProvider({ children }: StorageProviderProps) {
     );
   }, []);
 
-  const trackProblem = useCallback((plantId: string, diagnosisId: string, trackingStatus: TrackingStatus, followUpDate: string, notificationId: string | null, problemSummary: string) => {
+  const trackProblem = useCallback((plantId: string, diagnosisId: string, trackingStatus: TrackingStatus, followUpDate: string, notificationId: string | null, problemSummary: string, imageUris?: string[]) => {
     const cur = dataRef.current.diagnosisHistory;
     const plantDiagnoses = cur[plantId] || [];
     const updatedDiagnoses = plantDiagnoses.map(d =>
@@ -798,14 +1111,15 @@ export function StorageProvider({ children }: StorageProviderProps) {
             followUpDate,
             followUpNotificationId: notificationId,
             problemSummary,
+            // v1.3 (COMPARE-01): the original photos, copied out of the cache
+            ...(imageUris && imageUris.length > 0 ? { imageUris, imageUri: imageUris[0] } : {}),
           }
         : d
     );
     const newHistory = { ...cur, [plantId]: updatedDiagnoses };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const resolveTrackedProblem = useCallback((plantId: string, diagnosisId: string) => {
     const cur = dataRef.current.diagnosisHistory;
@@ -822,10 +1136,9 @@ export function StorageProvider({ children }: StorageProviderProps) {
         : d
     );
     const newHistory = { ...cur, [plantId]: updatedDiagnoses };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const reopenTrackedProblem = useCallback((plantId: string, diagnosisId: string) => {
     const cur = dataRef.current.diagnosisHistory;
@@ -841,10 +1154,9 @@ export function StorageProvider({ children }: StorageProviderProps) {
         : d
     );
     const newHistory = { ...cur, [plantId]: updatedDiagnoses };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const addFollowUpEntry = useCallback((plantId: string, diagnosisId: string, entry: ProblemEntry) => {
     const cur = dataRef.current.diagnosisHistory;
@@ -855,40 +1167,35 @@ export function StorageProvider({ children }: StorageProviderProps) {
         : d
     );
     const newHistory = { ...cur, [plantId]: updatedDiagnoses };
-    setDiagnosisHistory(newHistory);
-    dataRef.current.diagnosisHistory = newHistory;
+    commitDiagnosisHistory(newHistory);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitDiagnosisHistory]);
 
   const addShoppingItem = useCallback((item: ShoppingItem) => {
     const newList = [...dataRef.current.shoppingList, item];
-    setShoppingList(newList);
-    dataRef.current.shoppingList = newList;
+    commitShoppingList(newList);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitShoppingList]);
 
   const removeShoppingItem = useCallback((itemId: string) => {
     const newList = dataRef.current.shoppingList.filter(i => i.id !== itemId);
-    setShoppingList(newList);
-    dataRef.current.shoppingList = newList;
+    commitShoppingList(newList);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitShoppingList]);
 
   const toggleShoppingItem = useCallback((itemId: string) => {
     const newList = dataRef.current.shoppingList.map(i =>
       i.id === itemId ? { ...i, checked: !i.checked } : i
     );
-    setShoppingList(newList);
-    dataRef.current.shoppingList = newList;
+    commitShoppingList(newList);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitShoppingList]);
 
   const clearCheckedShoppingItems = useCallback(() => {
     const newList = dataRef.current.shoppingList.filter(i => !i.checked);
-    setShoppingList(newList);
-    dataRef.current.shoppingList = newList;
+    commitShoppingList(newList);
     scheduleSave();
-  }, [scheduleSave]);
+  }, [scheduleSave, commitShoppingList]);
 
   const acknowledgeMigrationReschedule = useCallback(() => {
     setMigrationJustHappened(false);
@@ -900,6 +1207,142 @@ export function StorageProvider({ children }: StorageProviderProps) {
     scheduleSave();
   }, [scheduleSave]);
 
+  const setVacation = useCallback((plan: VacationPlan | null) => {
+    setVacationState(plan);
+    dataRef.current.vacation = plan;
+    scheduleSave();
+  }, [scheduleSave]);
+
+  // v1.3 (VAC-01): one write for all plants — rebaselineAfterVacation returns the same object
+  // for untouched plants, so only plants that missed care while away get a 'vacation' deferral.
+  // GARDEN-01: each plant is re-baselined with its own space's season.
+  const endVacation = useCallback(() => {
+    const plan = dataRef.current.vacation;
+    if (!plan) return;
+    const today = new Date();
+    const d = dataRef.current;
+    const home: GardenContext = { location: d.location, climateOverride: d.climateOverride };
+    const newPlants = d.plants.map(plant => {
+      const ctx = resolveGardenContext(plant.gardenId, d.gardens, home);
+      const season = getEffectiveSeason(ctx.location, ctx.climateOverride, today);
+      return rebaselineAfterVacation([plant], plan, today, season)[0];
+    });
+    commitPlants(newPlants);
+    setVacationState(null);
+    dataRef.current.vacation = null;
+    scheduleSave();
+  }, [scheduleSave, commitPlants]);
+
+  // ─── v1.3 (GARDEN-01) ───
+
+  const handleSetGardens = useCallback((newGardens: Garden[]) => {
+    commitGardens(newGardens);
+    scheduleSave();
+  }, [scheduleSave, commitGardens]);
+
+  const addGarden = useCallback((garden: Garden) => {
+    commitGardens([...dataRef.current.gardens, garden]);
+    scheduleSave();
+  }, [scheduleSave, commitGardens]);
+
+  const updateGarden = useCallback((id: string, updates: Partial<Omit<Garden, 'id'>>) => {
+    commitGardens(dataRef.current.gardens.map(g => g.id === id ? { ...g, ...updates } : g));
+    scheduleSave();
+  }, [scheduleSave, commitGardens]);
+
+  const deleteGarden = useCallback((id: string) => {
+    const newPlants = reassignPlantsFromGarden(dataRef.current.plants, id);
+    commitGardens(dataRef.current.gardens.filter(g => g.id !== id));
+    commitPlants(newPlants);
+    if (dataRef.current.activeGardenId === id) {
+      setActiveGardenId(HOME_GARDEN_ID);
+      dataRef.current.activeGardenId = HOME_GARDEN_ID;
+    }
+    scheduleSave();
+  }, [scheduleSave, commitPlants, commitGardens]);
+
+  const setActiveGarden = useCallback((id: string) => {
+    setActiveGardenId(id);
+    dataRef.current.activeGardenId = id;
+    scheduleSave();
+  }, [scheduleSave]);
+
+  const movePlantToGarden = useCallback((plantId: string, gardenId: string) => {
+    const newPlants = dataRef.current.plants.map(p => {
+      if (p.id !== plantId) return p;
+      if (gardenId !== HOME_GARDEN_ID) return { ...p, gardenId };
+      const { gardenId: _home, ...rest } = p;
+      return rest;
+    });
+    commitPlants(newPlants);
+    scheduleSave();
+  }, [scheduleSave, commitPlants]);
+
+  const getGardenContext = useCallback(
+    (gardenId?: string) => resolveGardenContext(gardenId, gardens, { location, climateOverride }),
+    [gardens, location, climateOverride]
+  );
+
+  const getAppDataSnapshot = useCallback(() => snapshotFromRef(dataRef), []);
+
+  const restoreAppData = useCallback((data: AppData) => {
+    hydrate(data);
+    scheduleSave();
+  }, [hydrate, scheduleSave]);
+
+  // A backup import is a local edit: synced records go through the commit helpers (plants
+  // first, so the per-plant collections of removed plants fall under the plant's tombstone),
+  // then the remaining fields are taken from `data` as they are.
+  const importBackupData = useCallback((data: AppData) => {
+    commitPlants(data.plants);
+    commitGardens(data.gardens || []);
+    commitNotes(data.notes || {});
+    commitReminders(data.reminders || {});
+    commitJournals(data.journals || {});
+    commitDiagnosisHistory(data.diagnosisHistory || {});
+    commitCareLog(data.careLog || {});
+    commitShoppingList(data.shoppingList || []);
+    const committed = dataRef.current;
+    hydrate({
+      ...data,
+      plants: committed.plants,
+      gardens: committed.gardens,
+      notes: committed.notes,
+      reminders: committed.reminders,
+      journals: committed.journals,
+      diagnosisHistory: committed.diagnosisHistory,
+      careLog: committed.careLog,
+      shoppingList: committed.shoppingList,
+      syncTombstones: committed.syncTombstones,
+    });
+    scheduleSave();
+  }, [
+    hydrate, scheduleSave, commitPlants, commitGardens, commitNotes, commitReminders,
+    commitJournals, commitDiagnosisHistory, commitCareLog, commitShoppingList,
+  ]);
+
+  const recordHealth = useCallback((statuses: PlantHealthStatus[], date: string) => {
+    const next = recordHealthSnapshots(dataRef.current.healthHistory, statuses, date);
+    if (next === dataRef.current.healthHistory) return;
+    setHealthHistory(next);
+    dataRef.current.healthHistory = next;
+    scheduleSave();
+  }, [scheduleSave]);
+
+  const recordCare = useCallback((dayPlants: Plant[], date: string, season: WaterSeason) => {
+    const next = recordCareDays(dataRef.current.careDays, dayPlants, date, season, dataRef.current.careLog);
+    if (next === dataRef.current.careDays) return;
+    setCareDays(next);
+    dataRef.current.careDays = next;
+    scheduleSave();
+  }, [scheduleSave]);
+
+  // Return day reached (app opened after the trip, or left open overnight into it).
+  useEffect(() => {
+    if (loading || !vacation) return;
+    if (formatDate(new Date()) >= vacation.returnDate) endVacation();
+  }, [loading, vacation, endVacation]);
+
   const value: StorageContextType = useMemo(() => ({
     plants,
     notes,
@@ -916,6 +1359,13 @@ export function StorageProvider({ children }: StorageProviderProps) {
     shoppingList,
     journals,
     climateOverride,
+    careLog,
+    vacation,
+    gardens,
+    activeGardenId,
+    syncTombstones,
+    healthHistory,
+    careDays,
     loading,
     migrationFailed,
     migrationJustHappened,
@@ -928,7 +1378,10 @@ export function StorageProvider({ children }: StorageProviderProps) {
     waterPlant,
     sunPlant,
     outdoorPlant,
+    skipSoilCheck,
+    deferTask,
     setOnTaskCompleted,
+    logCareEvent,
     addNote,
     deleteNote,
     addReminder,
@@ -946,6 +1399,7 @@ export function StorageProvider({ children }: StorageProviderProps) {
     incrementDiagnosisCount,
     addPhotoToPlant,
     removePhotoFromPlant,
+    setPhotoRemotePath,
     saveDiagnosis,
     addChatMessage,
     getDiagnosesForPlant,
@@ -962,23 +1416,39 @@ export function StorageProvider({ children }: StorageProviderProps) {
     clearCheckedShoppingItems,
     acknowledgeMigrationReschedule,
     setClimateOverride,
+    setVacation,
+    endVacation,
+    setGardens: handleSetGardens,
+    addGarden,
+    updateGarden,
+    deleteGarden,
+    setActiveGarden,
+    movePlantToGarden,
+    getGardenContext,
+    getAppDataSnapshot,
+    restoreAppData,
+    importBackupData,
+    recordHealth,
+    recordCare,
   }), [
     plants, notes, reminders, location, onboardingCompleted, userName,
     notificationSettings, plantNetApiKey, installDate, identificationCount,
     diagnosisCount, diagnosisHistory, shoppingList,
     journals,
-    climateOverride, loading,
+    climateOverride, careLog, vacation, gardens, activeGardenId, syncTombstones, healthHistory, careDays, loading,
     migrationFailed, migrationJustHappened,
     handleSetPlants, addPlant,
-    addPlants, deletePlant, updatePlant, fertilizePlant, waterPlant, sunPlant, outdoorPlant, setOnTaskCompleted, addNote, deleteNote, addReminder,
+    addPlants, deletePlant, updatePlant, fertilizePlant, waterPlant, sunPlant, outdoorPlant, skipSoilCheck, deferTask, setOnTaskCompleted, logCareEvent, addNote, deleteNote, addReminder,
     deleteReminder, updateReminder, addJournalEntry, deleteJournalEntry, updateLocation, completeOnboarding,
     completeOnboardingWithData, setUserName, updateNotificationSettings,
     updatePlantNetApiKey, incrementIdentificationCount, incrementDiagnosisCount,
-    addPhotoToPlant, removePhotoFromPlant, saveDiagnosis, addChatMessage,
+    addPhotoToPlant, removePhotoFromPlant, setPhotoRemotePath, saveDiagnosis, addChatMessage,
     getDiagnosesForPlant, resolveDiagnosis, updateDiagnosis, getActiveDiagnosesForPlant,
     trackProblem, resolveTrackedProblem, reopenTrackedProblem, addFollowUpEntry,
     addShoppingItem, removeShoppingItem, toggleShoppingItem, clearCheckedShoppingItems,
-    acknowledgeMigrationReschedule,
+    acknowledgeMigrationReschedule, setVacation, endVacation,
+    handleSetGardens, addGarden, updateGarden, deleteGarden, setActiveGarden, movePlantToGarden, getGardenContext,
+    getAppDataSnapshot, restoreAppData, importBackupData, recordHealth, recordCare,
   ]);
 
   return (
@@ -1,15 +1,32 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
 import { User } from '@supabase/supabase-js';
 import {
   syncToCloud,
   syncFromCloud,
   hasCloudData,
+  loadSyncCursor,
+  saveSyncCursor,
+  loadOutbox,
+  saveOutbox,
+  pushOutboxEntry,
   SyncStatus,
   CloudData,
 } from '../services/syncService';
-import { Plant, Note, Reminder, Location, NotificationSettings } from '../types';
 import { flushEvents } from '../services/analyticsService';
+import {
+  diffCloudData,
+  dueEntries,
+  enqueueChanges,
+  failedEntries,
+  isNetworkError,
+  markFailed,
+  nextRetryAt,
+  resetOfflineBackoff,
+  retryAllNow,
+  type OutboxEntry,
+} from '../utils/syncOutbox';
 
 // Debounce delay for auto-sync after changes (5 seconds)
 const SYNC_DEBOUNCE_MS = 5000;
@@ -21,89 +38,182 @@ export interface SyncState {
   lastSyncedAt: string | null;
   error: string | null;
   hasCloudData: boolean;
+  /** v1.3 (SYNC-04) — local changes not in the cloud yet. */
+  pendingCount: number;
+  /** v1.3 (SYNC-04) — changes the server rejected, one per record. */
+  failures: OutboxEntry[];
 }
 
 export interface SyncActions {
   syncUp: () => Promise<void>;
-  syncDown: () => Promise<CloudData | null>;
+  /** `full` downloads everything again, ignoring the incremental cursor. */
+  syncDown: (options?: { full?: boolean }) => Promise<CloudData | null>;
   checkCloudData: () => Promise<boolean>;
   triggerSync: () => void;
   clearError: () => void;
+  /** Retries every pending change now, ignoring the backoff. */
+  retryFailed: () => void;
 }
 
 interface UseSyncParams {
   user: User | null;
-  plants: Plant[];
-  notes: Record<string, Note[]>;
-  reminders: Record<string, Reminder[]>;
-  location: Location | null;
-  notificationSettings: NotificationSettings | null;
-  plantNetApiKey: string | null;
-  onDataReceived?: (data: CloudData) => void;
+  /** Synced slice of the local store (v1.3 SYNC-01) — build with toCloudData + useMemo. */
+  data: CloudData;
+  /** False while the store is still loading — nothing is recorded until it is. */
+  ready?: boolean;
+  /** Merges a download into the store. Return the merged slice (toCloudData) so the merge
+   *  itself is not queued as local changes. */
+  onDataReceived?: (data: CloudData) => CloudData | void;
 }
 
 export function useSync({
   user,
-  plants,
-  notes,
-  reminders,
-  location,
-  notificationSettings,
-  plantNetApiKey,
+  data,
+  ready = true,
   onDataReceived,
 }: UseSyncParams): SyncState & SyncActions {
   const [status, setStatus] = useState<SyncStatus>('idle');
   const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [cloudDataExists, setCloudDataExists] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
 
   const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastBackgroundTimeRef = useRef<number>(Date.now());
 
+  // v1.3 (SYNC-04): outbox state. dataRef is what a drain reads; baselineRef is the snapshot
+  // the next change is diffed against.
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const baselineRef = useRef<CloudData | null>(null);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const outboxLoadedRef = useRef(false);
+  const drainingRef = useRef(false);
+
+  const readyRef = useRef(false);
+
+  const commitOutbox = useCallback((next: OutboxEntry[]) => {
+    outboxRef.current = next;
+    setOutbox(next);
+    // Until the saved outbox is loaded, writing would overwrite it; the load merges these in.
+    if (user && outboxLoadedRef.current) saveOutbox(user.id, next);
+  }, [user]);
+
+  // Pushes due outbox entries one by one (SYNC-04). A network failure stops the drain and
+  // leaves the rest for the retry timer; a rejected record keeps its error and is skipped.
+  const drainOutbox = useCallback(async () => {
+    if (!user || drainingRef.current || !outboxLoadedRef.current) return;
+    drainingRef.current = true;
+
+    try {
+      // Before this device's first full upload (syncUp) the outbox only accumulates.
+      if (!(await loadSyncCursor(user.id)).pushedAt) return;
+      const now = new Date();
+      const due = dueEntries(outboxRef.current, now);
+      if (due.length === 0) return;
+
+      setStatus('syncing');
+      setError(null);
+      let offline = false;
+      let lastError: string | null = null;
+
+      for (const entry of due) {
+        const result = await pushOutboxEntry(user.id, entry, dataRef.current);
+        // Re-read: the entry may have been replaced by a newer change while it was pushed.
+        const current = outboxRef.current.find(e => e.key === entry.key);
+        if (result.success) {
+          if (current === entry) commitOutbox(outboxRef.current.filter(e => e !== entry));
+          continue;
+        }
+        lastError = result.error ?? 'Error desconocido';
+        if (current === entry) {
+          commitOutbox(outboxRef.current.map(e => (e === entry ? markFailed(entry, lastError!, now) : e)));
+        }
+        if (isNetworkError(lastError)) {
+          offline = true;
+          break;
+        }
+      }
+
+      if (offline) {
+        setStatus('offline');
+      } else if (lastError) {
+        setStatus('error');
+        setError(lastError);
+      } else {
+        const syncedAt = new Date().toISOString();
+        await saveSyncCursor(user.id, { ...(await loadSyncCursor(user.id)), pushedAt: syncedAt });
+        setStatus('success');
+        setLastSyncedAt(syncedAt);
+        setTimeout(() => setStatus('idle'), 2000);
+      }
+    } finally {
+      drainingRef.current = false;
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+      const retryAt = nextRetryAt(outboxRef.current);
+      if (retryAt) {
+        retryTimeoutRef.current = setTimeout(() => { drainOutbox(); }, Math.max(0, Date.parse(retryAt) - Date.now()));
+      }
+    }
+  }, [user, commitOutbox]);
+
   // Sync up (upload to cloud)
   const syncUp = useCallback(async () => {
     if (!user) return;
 
+    // v1.3 (SYNC-04): once this device has uploaded everything, changes go through the outbox.
+    const cursor = await loadSyncCursor(user.id);
+    if (cursor.pushedAt) {
+      await drainOutbox();
+      return;
+    }
+
     setStatus('syncing');
     setError(null);
 
-    const result = await syncToCloud(user.id, {
-      plants,
-      notes,
-      reminders,
-      location,
-      notificationSettings,
-      plantNetApiKey,
-    });
+    // First upload from this device: everything, then the outbox starts from here.
+    const result = await syncToCloud(user.id, dataRef.current, null);
 
     if (result.success) {
+      const syncedAt = result.syncedAt ?? new Date().toISOString();
+      // Re-read: a download may have moved pulledAt while this upload ran.
+      await saveSyncCursor(user.id, { ...(await loadSyncCursor(user.id)), pushedAt: syncedAt });
+      commitOutbox([]);
       setStatus('success');
-      setLastSyncedAt(result.syncedAt ?? new Date().toISOString());
+      setLastSyncedAt(syncedAt);
       // Reset to idle after a short delay
       setTimeout(() => setStatus('idle'), 2000);
     } else {
-      setStatus('error');
+      setStatus(isNetworkError(result.error) ? 'offline' : 'error');
       setError(result.error ?? 'Error desconocido');
     }
-  }, [user, plants, notes, reminders, location, notificationSettings, plantNetApiKey]);
+  }, [user, drainOutbox, commitOutbox]);
 
   // Sync down (download from cloud)
-  const syncDown = useCallback(async (): Promise<CloudData | null> => {
+  const syncDown = useCallback(async (options?: { full?: boolean }): Promise<CloudData | null> => {
     if (!user) return null;
 
     setStatus('syncing');
     setError(null);
 
-    const result = await syncFromCloud(user.id);
+    // v1.3 (SYNC-02): incremental — only rows uploaded since the last download. The caller
+    // merges them (utils/syncMerge.ts); the cursor moves only once that succeeded.
+    // `full` ignores the cursor — rows shared with this account after it moved (HOUSE-01).
+    const cursor = await loadSyncCursor(user.id);
+    const result = await syncFromCloud(user.id, options?.full ? null : cursor.pulledAt);
 
     if (result.success && result.data) {
+      const merged = onDataReceived?.(result.data);
+      // What the download brought in is already in the cloud — not a local change.
+      if (merged) baselineRef.current = merged;
+      await saveSyncCursor(user.id, { ...(await loadSyncCursor(user.id)), pulledAt: result.cursor ?? cursor.pulledAt });
       setStatus('success');
       setLastSyncedAt(new Date().toISOString());
-      onDataReceived?.(result.data);
       setTimeout(() => setStatus('idle'), 2000);
       return result.data;
     } else {
-      setStatus('error');
+      setStatus(isNetworkError(result.error) ? 'offline' : 'error');
       setError(result.error ?? 'Error desconocido');
       return null;
     }
@@ -129,9 +239,9 @@ export function useSync({
 
     // Set new timeout
     syncTimeoutRef.current = setTimeout(() => {
-      syncUp();
+      drainOutbox();
     }, SYNC_DEBOUNCE_MS);
-  }, [user, syncUp]);
+  }, [user, drainOutbox]);
 
   // Clear error
   const clearError = useCallback(() => {
@@ -141,6 +251,43 @@ export function useSync({
     }
   }, [status]);
 
+  const retryFailed = useCallback(() => {
+    commitOutbox(retryAllNow(outboxRef.current));
+    drainOutbox();
+  }, [commitOutbox, drainOutbox]);
+
+  // Load this account's outbox; changes made before it loaded are merged in.
+  useEffect(() => {
+    outboxLoadedRef.current = false;
+    outboxRef.current = [];
+    setOutbox([]);
+    if (!user) return;
+    let cancelled = false;
+    loadOutbox(user.id).then(saved => {
+      if (cancelled) return;
+      outboxLoadedRef.current = true;
+      commitOutbox([...saved, ...outboxRef.current.filter(e => !saved.some(s => s.key === e.key))]);
+      if (saved.length > 0) drainOutbox();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, commitOutbox, drainOutbox]);
+
+  // Record every local change of the synced slice in the outbox (SYNC-04).
+  // The render that finishes loading the store is not a change either.
+  useEffect(() => {
+    const baseline = baselineRef.current;
+    const wasReady = readyRef.current;
+    baselineRef.current = data;
+    readyRef.current = ready;
+    if (!user || !ready || !wasReady || !baseline || baseline === data) return;
+    const changes = diffCloudData(baseline, data);
+    if (changes.length === 0) return;
+    commitOutbox(enqueueChanges(outboxRef.current, changes, new Date()));
+    triggerSync();
+  }, [data, user, ready, commitOutbox, triggerSync]);
+
   // Handle app state changes (background/foreground)
   useEffect(() => {
     if (!user) return;
@@ -154,6 +301,8 @@ export function useSync({
         if (timeSinceBackground > BACKGROUND_SYNC_THRESHOLD_MS) {
           syncDown();
         }
+        // Coming back is the usual moment the connection returns — don't wait for the timer.
+        if (outboxRef.current.length > 0) retryFailed();
       } else if (nextAppState === 'background') {
         lastBackgroundTimeRef.current = Date.now();
         // Sync before going to background
@@ -167,7 +316,27 @@ export function useSync({
     return () => {
       subscription.remove();
     };
-  }, [user, syncUp, syncDown]);
+  }, [user, syncUp, syncDown, retryFailed]);
+
+  // Back online: what failed for lack of a connection goes now, not when its backoff ends.
+  useEffect(() => {
+    if (!user) return;
+
+    let offline = false;
+    const unsubscribe = NetInfo.addEventListener(state => {
+      const online = state.isConnected !== false && state.isInternetReachable !== false;
+      if (!online) {
+        offline = true;
+        return;
+      }
+      if (!offline) return;
+      offline = false;
+      commitOutbox(resetOfflineBackoff(outboxRef.current));
+      drainOutbox();
+    });
+
+    return unsubscribe;
+  }, [user, commitOutbox, drainOutbox]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -175,18 +344,26 @@ export function useSync({
       if (syncTimeoutRef.current) {
         clearTimeout(syncTimeoutRef.current);
       }
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+      }
     };
   }, []);
 
+  const failures = useMemo(() => failedEntries(outbox), [outbox]);
+
   return {
     status,
     lastSyncedAt,
     error,
     hasCloudData: cloudDataExists,
+    pendingCount: outbox.length,
+    failures,
     syncUp,
     syncDown,
     checkCloudData,
     triggerSync,
     clearError,
+    retryFailed,
   };
 }
@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+import type { SyncStatus } from '../services/syncService';
+import type { OutboxEntry } from '../utils/syncOutbox';
+
+/**
+ * v1.3 (SYNC-04) — cloud sync state for screens outside App. Provided by the auth + sync
+ * app path only; useSyncStatus() returns null in the local-only build, so callers hide
+ * their sync UI.
+ */
+export interface SyncStatusValue {
+  status: SyncStatus;
+  lastSyncedAt: string | null;
+  /** Local changes not in the cloud yet. */
+  pendingCount: number;
+  /** Changes the server rejected, one per record. */
+  failures: OutboxEntry[];
+  /** Photos waiting for their cloud copy (SYNC-03). */
+  photoPendingCount: number;
+  photoQuotaExceeded: boolean;
+  syncNow: () => void;
+  /** v1.3 (HOUSE-01) — signed-in account, for household invites. */
+  userId: string;
+  /** Downloads everything again — after joining or leaving a shared garden. */
+  pullAll: () => Promise<void>;
+}
+
+export const SyncStatusContext = createContext<SyncStatusValue | null>(null);
+
+export function useSyncStatus(): SyncStatusValue | null {
+  return useContext(SyncStatusContext);
+}
@@ -6,6 +6,64 @@ const WEATHER_CACHE_KEY = 'weather-cache';
 const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
 const FETCH_TIMEOUT_MS = 15000; // 15 seconds
 
+// v1.3 (GARDEN-01): one cache slot per place, so switching spaces (or the home-location
+// notification feed next to a space in another city) does not evict each other.
+const cacheKeyFor = (loc: Location) => `${WEATHER_CACHE_KEY}:${loc.lat.toFixed(2)},${loc.lon.toFixed(2)}`;
+
+async function readCachedWeather(loc: Location): Promise<WeatherData | null> {
+  try {
+    const cached = await AsyncStorage.getItem(cacheKeyFor(loc));
+    if (!cached) return null;
+    const data: WeatherData & { cachedLat: number; cachedLon: number } = JSON.parse(cached);
+    const isRecent = Date.now() - data.lastFetched < CACHE_DURATION;
+    const isSameLocation = data.cachedLat === loc.lat && data.cachedLon === loc.lon;
+    return isRecent && isSameLocation ? data : null;
+  } catch (e) {
+    // Cache read failed, continue to fetch
+    return null;
+  }
+}
+
+/** Fetches the forecast for `loc` and caches it. Throws on network errors and aborts. */
+async function fetchForecast(loc: Location, signal: AbortSignal): Promise<WeatherData> {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${loc.lat}&longitude=${loc.lon}&current=temperature_2m,weathercode,windspeed_10m,relative_humidity_2m,uv_index&daily=weathercode,temperature_2m_max,temperature_2m_min,precipitation_sum,sunrise,sunset,uv_index_max&timezone=auto&forecast_days=7`;
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error('Weather fetch failed');
+
+  const data = await response.json();
+
+  const weatherData: WeatherData = {
+    current: {
+      temperature: data.current.temperature_2m,
+      weatherCode: data.current.weathercode,
+      windSpeed: data.current.windspeed_10m,
+      humidity: data.current.relative_humidity_2m,
+      uvIndex: data.current.uv_index || null,
+    },
+    daily: data.daily.time.map((date: string, i: number) => ({
+      date,
+      weatherCode: data.daily.weathercode[i],
+      tempMax: data.daily.temperature_2m_max[i],
+      tempMin: data.daily.temperature_2m_min[i],
+      precipitation: data.daily.precipitation_sum[i],
+      sunrise: data.daily.sunrise?.[i] || null,
+      sunset: data.daily.sunset?.[i] || null,
+      uvIndexMax: data.daily.uv_index_max?.[i] || null,
+    })),
+    lastFetched: Date.now(),
+  };
+
+  // Cache the result
+  await AsyncStorage.setItem(cacheKeyFor(loc), JSON.stringify({
+    ...weatherData,
+    cachedLat: loc.lat,
+    cachedLon: loc.lon,
+  }));
+
+  return weatherData;
+}
+
 export function useWeather(location: Location | null) {
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -15,20 +73,10 @@ export function useWeather(location: Location | null) {
   const fetchWeather = useCallback(async (loc: Location, force = false) => {
     // Check cache first
     if (!force) {
-      try {
-        const cached = await AsyncStorage.getItem(WEATHER_CACHE_KEY);
-        if (cached) {
-          const data: WeatherData & { cachedLat: number; cachedLon: number } = JSON.parse(cached);
-          const isRecent = Date.now() - data.lastFetched < CACHE_DURATION;
-          const isSameLocation = data.cachedLat === loc.lat && data.cachedLon === loc.lon;
-
-          if (isRecent && isSameLocation) {
-            setWeather(data);
-            return;
-          }
-        }
-      } catch (e) {
-        // Cache read failed, continue to fetch
+      const cached = await readCachedWeather(loc);
+      if (cached) {
+        setWeather(cached);
+        return;
       }
     }
 
@@ -46,44 +94,9 @@ export function useWeather(location: Location | null) {
     setError(null);
 
     try {
-      const url = `https://api.open-meteo.com/v1/forecast?latitude=${loc.lat}&longitude=${loc.lon}&current=temperature_2m,weathercode,windspeed_10m,relative_humidity_2m,uv_index&daily=weathercode,temperature_2m_max,temperature_2m_min,precipitation_sum,sunrise,sunset,uv_index_max&timezone=auto&forecast_days=7`;
-
-      const response = await fetch(url, { signal: controller.signal });
-      if (!response.ok) throw new Error('Weather fetch failed');
-
-      const data = await response.json();
-
+      const weatherData = await fetchForecast(loc, controller.signal);
       clearTimeout(timeoutId);
-
-      const weatherData: WeatherData = {
-        current: {
-          temperature: data.current.temperature_2m,
-          weatherCode: data.current.weathercode,
-          windSpeed: data.current.windspeed_10m,
-          humidity: data.current.relative_humidity_2m,
-          uvIndex: data.current.uv_index || null,
-        },
-        daily: data.daily.time.map((date: string, i: number) => ({
-          date,
-          weatherCode: data.daily.weathercode[i],
-          tempMax: data.daily.temperature_2m_max[i],
-          tempMin: data.daily.temperature_2m_min[i],
-          precipitation: data.daily.precipitation_sum[i],
-          sunrise: data.daily.sunrise?.[i] || null,
-          sunset: data.daily.sunset?.[i] || null,
-          uvIndexMax: data.daily.uv_index_max?.[i] || null,
-        })),
-        lastFetched: Date.now(),
-      };
-
       setWeather(weatherData);
-
-      // Cache the result
-      await AsyncStorage.setItem(WEATHER_CACHE_KEY, JSON.stringify({
-        ...weatherData,
-        cachedLat: loc.lat,
-        cachedLon: loc.lon,
-      }));
     } catch (e: any) {
       clearTimeout(timeoutId);
       if (e.name === 'AbortError') {
@@ -118,3 +131,52 @@ export function useWeather(location: Location | null) {
 
   return { weather, loading, error, refetch };
 }
+
+/** Key of a place in useWeatherByLocation's result (the cache slot of that place). */
+export const weatherKeyFor = cacheKeyFor;
+
+/**
+ * v1.3 (GARDEN-01): weather of several places at once — one per space — for the app-wide
+ * notification feed. Cache-first like useWeather; a place that fails to load is just missing
+ * from the result (no loading or error state).
+ */
+export function useWeatherByLocation(locations: (Location | null)[]): Record<string, WeatherData> {
+  const [byKey, setByKey] = useState<Record<string, WeatherData>>({});
+
+  const places = new Map<string, Location>();
+  for (const loc of locations) if (loc) places.set(cacheKeyFor(loc), loc);
+  const placesKey = [...places.keys()].sort().join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    const load = async () => {
+      const entries = await Promise.all([...places].map(async ([key, loc]) => {
+        try {
+          return [key, (await readCachedWeather(loc)) ?? (await fetchForecast(loc, controller.signal))] as const;
+        } catch (e) {
+          console.error('Weather fetch error:', e);
+          return null;
+        }
+      }));
+      clearTimeout(timeoutId);
+      if (cancelled) return;
+      const next: Record<string, WeatherData> = {};
+      for (const entry of entries) if (entry) next[entry[0]] = entry[1];
+      setByKey(next);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+    // `places` is rebuilt every render; placesKey is its identity.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [placesKey]);
+
+  return byKey;
+}
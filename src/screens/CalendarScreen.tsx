@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useFocusEffect } from '@react-navigation/native';
 import {
   View,
@@ -14,8 +14,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { colors, spacing, borderRadius, shadows, fonts } from '../theme';
 import { useStorage } from '../hooks/useStorage';
 import { getMonths } from '../data/constants';
-import { formatDate } from '../utils/dates';
+import { formatDate, parseDate } from '../utils/dates';
 import { getEffectiveSeason } from '../utils/seasonality';
+import { projectTasks } from '../utils/taskProjection';
 import { Note, Reminder } from '../types';
 import {
   MonthCalendar,
@@ -36,6 +37,7 @@ export default function CalendarScreen() {
     sunPlant,
     outdoorPlant,
     setOnTaskCompleted,
+    logCareEvent,
     fertilizePlant,
     addNote,
     deleteNote,
@@ -52,6 +54,17 @@ export default function CalendarScreen() {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [showDayDetail, setShowDayDetail] = useState(false);
 
+  // v1.3 (PROJ-01): from today to the end of the month on screen, tasks come from the
+  // day-by-day projection (season of each day, completions carried forward). Past days keep
+  // the single-step getTasksForDay.
+  const todayStr = formatDate(today);
+  const projectedTasks = useMemo(() => {
+    const monthEnd = new Date(viewYear, viewMonth + 1, 0);
+    const start = parseDate(todayStr);
+    if (monthEnd < start) return {};
+    return projectTasks(plants, start, monthEnd, date => getEffectiveSeason(location, climateOverride, date));
+  }, [plants, location, climateOverride, viewYear, viewMonth, todayStr]);
+
   // Phase 22 (GAM-01): task-completion Toast — FIRST Toast surface on CalendarScreen.
   // Distinct identifier from Phase 18 / Phase 21 Toasts present on PlantsScreen + TodayScreen.
   const [gamificationToastVisible, setGamificationToastVisible] = useState(false);
@@ -112,6 +125,7 @@ export default function CalendarScreen() {
       waterPlant(plantId);
     } else {
       updatePlant(plantId, { lastWatered: dateStr });
+      logCareEvent(plantId, 'water', dateStr, 'calendar');
     }
   };
 
@@ -124,9 +138,11 @@ export default function CalendarScreen() {
     } else {
       const plant = plants.find(p => p.id === plantId);
       if (plant) {
+        const wasDone = plant.sunDoneDate === dateStr;
         updatePlant(plantId, {
-          sunDoneDate: plant.sunDoneDate === dateStr ? null : dateStr
+          sunDoneDate: wasDone ? null : dateStr
         });
+        logCareEvent(plantId, 'sun', dateStr, wasDone ? 'undo' : 'calendar');
       }
     }
   };
@@ -140,9 +156,11 @@ export default function CalendarScreen() {
     } else {
       const plant = plants.find(p => p.id === plantId);
       if (plant) {
+        const wasDone = plant.outdoorDoneDate === dateStr;
         updatePlant(plantId, {
-          outdoorDoneDate: plant.outdoorDoneDate === dateStr ? null : dateStr
+          outdoorDoneDate: wasDone ? null : dateStr
         });
+        logCareEvent(plantId, 'outdoor', dateStr, wasDone ? 'undo' : 'calendar');
       }
     }
   };
@@ -245,6 +263,7 @@ export default function CalendarScreen() {
           notes={notes}
           reminders={reminders}
           season={effectiveSeason}
+          tasksByDay={projectedTasks}
           selectedDate={selectedDate}
           onSelectDate={handleSelectDate}
         />
@@ -313,6 +332,7 @@ export default function CalendarScreen() {
           notes={selectedNotes}
           reminders={selectedReminders}
           season={effectiveSeason}
+          projectedTasks={projectedTasks[formatDate(selectedDate)]}
           onClose={handleCloseDayDetail}
           onWater={handleWater}
           onSunDone={handleSunDone}
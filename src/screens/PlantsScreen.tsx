@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useFocusEffect } from '@react-navigation/native';
 import {
   View,
@@ -27,6 +27,8 @@ import { useStorage } from '../hooks/useStorage';
 import { useWeather } from '../hooks/useWeather';
 import { getNextFertilizeDate } from '../utils/plantLogic';
 import { getEffectiveSeason } from '../utils/seasonality';
+import { filterPlantsByGarden } from '../utils/gardens';
+import { canDeletePlant } from '../utils/household';
 import { getCatalogEntry } from '../data/plantDatabase';
 import { isSameDay } from '../utils/dates';
 import { useDismissOnPaywall } from '../hooks/useDismissOnPaywall';
@@ -38,6 +40,7 @@ import {
   PlantIdentifierModal,
   MyPlantDetailModal,
   Toast,
+  GardenSwitcher,
 } from '../components';
 // Phase 21 (JOURNAL-04, Blocker A): separate type-only NAMED import — the existing
 // barrel import above stays untouched. MyPlantDetailModal is a NAMED export from
@@ -55,9 +58,9 @@ export default function PlantsScreen() {
   const premium = usePremiumGate();
   const { showPaywall } = usePremium();
   const {
-    plants,
+    plants: allPlants,
     plantNetApiKey,
-    location,
+    location: homeLocation,
     loading,
     identificationCount,
     incrementIdentificationCount,
@@ -70,9 +73,21 @@ export default function PlantsScreen() {
     getActiveDiagnosesForPlant,
     fertilizePlant,
     setOnTaskCompleted,
-    climateOverride,
+    climateOverride: homeClimateOverride,
+    activeGardenId,
+    getGardenContext,
+    gardens,
   } = useStorage();
 
+  // v1.3 (GARDEN-01): the list shows the active space only; the plant limit stays app-wide.
+  const { location, climateOverride } = Features.MULTIPLE_GARDENS
+    ? getGardenContext(activeGardenId)
+    : { location: homeLocation, climateOverride: homeClimateOverride };
+  const plants = useMemo(
+    () => (Features.MULTIPLE_GARDENS ? filterPlantsByGarden(allPlants, activeGardenId) : allPlants),
+    [allPlants, activeGardenId]
+  );
+
   const { weather } = useWeather(location);
 
   const [showAddPlant, setShowAddPlant] = useState(false);
@@ -84,7 +99,7 @@ export default function PlantsScreen() {
   const [searchQuery, setSearchQuery] = useState('');
 
   const handleOpenAddPlant = () => {
-    if (!premium.canAddPlant(plants.length)) {
+    if (!premium.canAddPlant(allPlants.length)) {
       showPaywall('plant_limit');
       return;
     }
@@ -347,6 +362,9 @@ export default function PlantsScreen() {
           : t('plants.plantCount', { count: plants.length })}
       </Text>
 
+      {/* v1.3 (GARDEN-01): renders nothing unless MULTIPLE_GARDENS is on */}
+      <GardenSwitcher />
+
       {/* Search bar */}
       {plants.length > 0 && (
         <TextInput
@@ -464,7 +482,7 @@ export default function PlantsScreen() {
       {/* Plant Detail Modal with Photo Album */}
       <MyPlantDetailModal
         visible={!!detailPlant}
-        plant={detailPlant ? plants.find(p => p.id === detailPlant.id) ?? detailPlant : null}
+        plant={detailPlant ? allPlants.find(p => p.id === detailPlant.id) ?? detailPlant : null}
         weather={weather}
         latitude={location?.lat ?? null}
         initialSection={detailInitialSection}
@@ -514,9 +532,11 @@ export default function PlantsScreen() {
           <TouchableOpacity onPress={handleMenuEdit} style={styles.menuItem}>
             <Text style={styles.menuItemText}>{t('plantCard.menu.edit')}</Text>
           </TouchableOpacity>
-          <TouchableOpacity onPress={handleMenuDelete} style={[styles.menuItem, styles.menuItemDestructive]}>
-            <Text style={[styles.menuItemText, styles.menuItemTextDestructive]}>{t('plantCard.menu.delete')}</Text>
-          </TouchableOpacity>
+          {longPressTarget && canDeletePlant(longPressTarget, gardens) && (
+            <TouchableOpacity onPress={handleMenuDelete} style={[styles.menuItem, styles.menuItemDestructive]}>
+              <Text style={[styles.menuItemText, styles.menuItemTextDestructive]}>{t('plantCard.menu.delete')}</Text>
+            </TouchableOpacity>
+          )}
         </BottomSheetView>
       </BottomSheetModal>
 
@@ -9,14 +9,21 @@ import { BottomSheetModal, BottomSheetView } from '@gorhom/bottom-sheet';
 import { colors, fonts, spacing, borderRadius, shadows } from '../theme';
 import { useStorage } from '../hooks/useStorage';
 import { usePremium } from '../hooks/usePremium';
-import { useWeather } from '../hooks/useWeather';
+import { useSpaceConditions } from '../hooks/useSpaceConditions';
 import { useNotifications } from '../hooks/useNotifications';
 import { generatePlantAlerts } from '../utils/plantAlerts';
 import { getEffectiveSeason } from '../utils/seasonality';
 import { Location } from '../types';
+import { Features } from '../config/features';
 import i18n, { setLanguage } from '../i18n';
 import { getUnknownPlantsReport } from '../services/unknownPlantTracker';
 import { Skeleton } from '../components/Skeleton';
+import { VacationModeSection } from '../components/VacationModeSection';
+import { SitterSheetSection } from '../components/SitterSheetSection';
+import { BackupSection } from '../components/BackupSection';
+import { SyncSection } from '../components/SyncSection';
+import { HouseholdSection } from '../components/HouseholdSection';
+import { useSyncStatus } from '../hooks/useSyncStatus';
 
 interface GeocodingResult {
   id: number;
@@ -42,15 +49,23 @@ export default function SettingsScreen() {
     location,
     climateOverride,
     setClimateOverride,
+    vacation,
+    setVacation,
+    endVacation,
+    careDays,
     notificationSettings,
     updateLocation,
     updateNotificationSettings,
   } = useStorage();
 
   const { isPremium, showPaywall, toggleMockPremium } = usePremium();
+  const syncStatus = useSyncStatus();
 
-  const { weather } = useWeather(location);
-  const plantAlerts = useMemo(() => generatePlantAlerts(plants, weather), [plants, weather]);
+  const { spaces, homeWeather } = useSpaceConditions();
+  const plantAlerts = useMemo(
+    () => spaces.flatMap(space => generatePlantAlerts(space.plants, space.weather)),
+    [spaces]
+  );
   const effectiveSeason = getEffectiveSeason(location, climateOverride, new Date());
 
   const {
@@ -66,9 +81,11 @@ export default function SettingsScreen() {
     settings: notificationSettings,
     onSettingsChange: updateNotificationSettings,
     plants,
-    weather,
+    weather: homeWeather,
     alerts: plantAlerts,
-    season: effectiveSeason,
+    spaces,
+    vacation,
+    careDays,
   });
 
   const [searchQuery, setSearchQuery] = useState('');
@@ -352,6 +369,24 @@ export default function SettingsScreen() {
                 />
               </View>
 
+              {Features.CARE_STREAKS && (
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingIcon}>📅</Text>
+                    <View style={styles.settingText}>
+                      <Text style={styles.settingTitle}>{t('settings.weeklySummary')}</Text>
+                      <Text style={styles.settingSubtitle}>{t('settings.weeklySummarySubtitle')}</Text>
+                    </View>
+                  </View>
+                  <Switch
+                    value={!!notifSettings.weeklySummary}
+                    onValueChange={(value) => updateSettings({ weeklySummary: value })}
+                    trackColor={{ false: colors.border, true: colors.green }}
+                    thumbColor={colors.white}
+                  />
+                </View>
+              )}
+
               <TouchableOpacity style={styles.testButton} onPress={async () => { await sendTest(); Alert.alert(t('settings.testSent'), t('settings.testSentMessage')); }}>
                 <Text style={styles.testButtonText}>{t('settings.sendTest')}</Text>
               </TouchableOpacity>
@@ -368,6 +403,52 @@ export default function SettingsScreen() {
           )}
         </View>
 
+        {/* Vacation Section — v1.3 (VAC-01) */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.vacation.title')}</Text>
+          <Text style={styles.sectionDescription}>{t('settings.vacation.description')}</Text>
+          <VacationModeSection
+            plants={plants}
+            weather={homeWeather}
+            season={effectiveSeason}
+            vacation={vacation}
+            onSave={setVacation}
+            onEnd={endVacation}
+          />
+        </View>
+
+        {/* Plant sitter Section — v1.3 (SITTER-01) */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.sitter.title')}</Text>
+          <Text style={styles.sectionDescription}>{t('settings.sitter.description')}</Text>
+          <SitterSheetSection season={effectiveSeason} vacation={vacation} />
+        </View>
+
+        {/* Sync Section — v1.3 (SYNC-04), signed-in builds only */}
+        {syncStatus && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('settings.sync.title')}</Text>
+            <Text style={styles.sectionDescription}>{t('settings.sync.description')}</Text>
+            <SyncSection sync={syncStatus} />
+          </View>
+        )}
+
+        {/* Household Section — v1.3 (HOUSE-01), signed-in builds only */}
+        {syncStatus && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('settings.household.title')}</Text>
+            <Text style={styles.sectionDescription}>{t('settings.household.description')}</Text>
+            <HouseholdSection sync={syncStatus} />
+          </View>
+        )}
+
+        {/* Backup Section — v1.3 (BACKUP-01) */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.backup.title')}</Text>
+          <Text style={styles.sectionDescription}>{t('settings.backup.description')}</Text>
+          <BackupSection />
+        </View>
+
         {/* Language Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
@@ -16,13 +16,18 @@ import { colors, spacing, fonts, borderRadius, shadows } from '../theme';
 import { LoadingScreen } from '../components/LoadingScreen';
 import { useStorage } from '../hooks/useStorage';
 import { useWeather } from '../hooks/useWeather';
+import { useSpaceConditions } from '../hooks/useSpaceConditions';
 import { useNotifications } from '../hooks/useNotifications';
 import { useDismissOnPaywall } from '../hooks/useDismissOnPaywall';
 import { formatDate, isSameDay, daysBetween } from '../utils/dates';
 import { getNextWaterDate, getNextFertilizeDate } from '../utils/plantLogic';
 import { getEffectiveSeason } from '../utils/seasonality';
+import { filterPlantsByGarden } from '../utils/gardens';
+import { canDeletePlant } from '../utils/household';
+import { isDateInVacation } from '../utils/vacationPlan';
 import { getCatalogEntry } from '../data/plantDatabase';
 import { generatePlantAlerts } from '../utils/plantAlerts';
+import { calculateGardenHealth } from '../utils/plantHealth';
 import { Plant, SavedDiagnosis, ShoppingItem, TrackingStatus } from '../types';
 import {
   Header,
@@ -31,6 +36,7 @@ import {
   WateringTips,
   DailyTip,
   GardenHealth,
+  CareStreakCard,
   PlantCard,
   SectionHeader,
   ReminderItem,
@@ -39,6 +45,7 @@ import {
   MyPlantDetailModal,
   DiagnosisFollowUp,
   Toast,
+  GardenSwitcher,
 } from '../components';
 // Phase 21 (JOURNAL-04, Blocker A): separate type-only NAMED import — the existing
 // barrel import above stays untouched. MyPlantDetailModal is a NAMED export from
@@ -65,11 +72,14 @@ export default function TodayScreen() {
   const premium = usePremiumGate();
   const { showPaywall } = usePremium();
   const {
-    plants,
+    plants: allPlants,
     notes,
     reminders,
-    location,
-    climateOverride,
+    location: homeLocation,
+    climateOverride: homeClimateOverride,
+    activeGardenId,
+    getGardenContext,
+    vacation,
     userName,
     notificationSettings,
     plantNetApiKey,
@@ -81,6 +91,8 @@ export default function TodayScreen() {
     waterPlant,
     sunPlant,
     outdoorPlant,
+    skipSoilCheck,
+    deferTask,
     setOnTaskCompleted,
     deleteNote,
     deleteReminder,
@@ -99,9 +111,27 @@ export default function TodayScreen() {
     removeShoppingItem,
     toggleShoppingItem,
     clearCheckedShoppingItems,
+    healthHistory,
+    recordHealth,
+    careDays,
+    recordCare,
+    careLog,
+    gardens,
   } = useStorage();
 
+  // v1.3 (GARDEN-01): Today shows one space at a time — its plants, weather and season.
+  // Notifications below stay app-wide: every plant, each with its own space's season and weather.
+  const gardensEnabled = Features.MULTIPLE_GARDENS;
+  const { location, climateOverride } = gardensEnabled
+    ? getGardenContext(activeGardenId)
+    : { location: homeLocation, climateOverride: homeClimateOverride };
+  const plants = useMemo(
+    () => (gardensEnabled ? filterPlantsByGarden(allPlants, activeGardenId) : allPlants),
+    [gardensEnabled, allPlants, activeGardenId]
+  );
+
   const { weather, loading: weatherLoading, error: weatherError, refetch: refetchWeather } = useWeather(location);
+  const { spaces, homeWeather } = useSpaceConditions();
   const { season, palette: seasonalPalette } = useSeason(location);
 
   // Pre-compute effective season (climate-override-aware SSOT, Phase 7 LOC-05).
@@ -109,10 +139,11 @@ export default function TodayScreen() {
   const today = new Date();
   const effectiveSeason = getEffectiveSeason(location, climateOverride, today);
 
-  // Generate plant alerts for notifications
-  const plantAlerts = useMemo(() => {
-    return generatePlantAlerts(plants, weather);
-  }, [plants, weather]);
+  // Generate plant alerts for notifications — each space against its own forecast
+  const plantAlerts = useMemo(
+    () => spaces.flatMap(space => generatePlantAlerts(space.plants, space.weather)),
+    [spaces]
+  );
 
   // Notifications hook
   const {
@@ -128,11 +159,13 @@ export default function TodayScreen() {
   } = useNotifications({
     settings: notificationSettings,
     onSettingsChange: updateNotificationSettings,
-    plants,
-    weather,
+    plants: allPlants,
+    weather: homeWeather,
     alerts: plantAlerts,
     diagnosisHistory,
-    season: effectiveSeason,
+    spaces,
+    vacation,
+    careDays,
   });
 
   const { pendingPlantId, clearPendingPlantId } = useContext(NotificationContext);
@@ -142,14 +175,14 @@ export default function TodayScreen() {
   const [detailInitialSection, setDetailInitialSection] = useState<ModalSectionId | undefined>(undefined);
 
   useEffect(() => {
-    if (pendingPlantId && plants.length > 0) {
-      const plant = plants.find(p => p.id === pendingPlantId);
+    if (pendingPlantId && allPlants.length > 0) {
+      const plant = allPlants.find(p => p.id === pendingPlantId);
       if (plant) {
         setDetailPlant(plant);
       }
       clearPendingPlantId();
     }
-  }, [pendingPlantId, plants]);
+  }, [pendingPlantId, allPlants]);
   const [selectedDiagnosis, setSelectedDiagnosis] = useState<SavedDiagnosis | null>(null);
   const [showShoppingList, setShowShoppingList] = useState(false);
   const [diagnosePlant, setDiagnosePlant] = useState<Plant | null>(null);
@@ -161,6 +194,23 @@ export default function TodayScreen() {
 
   const todayStr = formatDate(today);
 
+  // v1.3 (HEALTH-01): the scores of the space on screen become today's health snapshots
+  // (re-recorded as care, weather or diagnoses change; the last one of the day stays).
+  useEffect(() => {
+    if (storageLoading || plants.length === 0) return;
+    const { healthStatuses } = calculateGardenHealth(plants, new Date(), weather, diagnosisHistory, effectiveSeason);
+    recordHealth(healthStatuses, todayStr);
+  }, [storageLoading, plants, weather, diagnosisHistory, effectiveSeason, todayStr, recordHealth]);
+
+  // v1.3 (STREAK-01): and today's tasks of the space on screen — due and done — become its
+  // care day (re-recorded on soil check-ins too, which leave the plant untouched). Trip days
+  // are not recorded, like days the app stays closed.
+  useEffect(() => {
+    if (!Features.CARE_STREAKS || storageLoading || plants.length === 0) return;
+    if (isDateInVacation(vacation, new Date())) return;
+    recordCare(plants, todayStr, effectiveSeason);
+  }, [storageLoading, plants, careLog, effectiveSeason, todayStr, vacation, recordCare]);
+
   // Get today's reminders and notes
   const todayReminders = reminders[todayStr] || [];
   const todayNotes = notes[todayStr] || [];
@@ -377,6 +427,9 @@ export default function TodayScreen() {
           />
         }
       >
+        {/* v1.3 (GARDEN-01): space switcher — renders nothing unless MULTIPLE_GARDENS is on */}
+        <GardenSwitcher />
+
         {/* Weather Widget */}
         <WeatherWidget
           weather={weather}
@@ -398,7 +451,7 @@ export default function TodayScreen() {
         <WeatherAlerts weather={weather} plants={plants} />
 
         {/* Premium banner for free users */}
-        {!premium.isPremium && plants.length >= 5 && (
+        {!premium.isPremium && allPlants.length >= 5 && (
           <TouchableOpacity
             style={styles.premiumBanner}
             onPress={() => showPaywall('premium_feature')}
@@ -433,7 +486,18 @@ export default function TodayScreen() {
         <WateringTips plants={plants} weather={weather} season={effectiveSeason} />
 
         {/* Garden Health Summary */}
-        <GardenHealth plants={plants} weather={weather} diagnosisHistory={diagnosisHistory} season={effectiveSeason} />
+        <GardenHealth
+          plants={plants}
+          weather={weather}
+          diagnosisHistory={diagnosisHistory}
+          season={effectiveSeason}
+          healthHistory={healthHistory}
+        />
+
+        {/* Care streak + weekly summary — v1.3 (STREAK-01) */}
+        {Features.CARE_STREAKS && plants.length > 0 && (
+          <CareStreakCard plants={plants} careDays={careDays} />
+        )}
 
         {/* Shopping List button */}
         {premium.canUseShoppingList() && shoppingList.length > 0 && (
@@ -514,6 +578,8 @@ export default function TodayScreen() {
                 onSunDone={handleSunDone}
                 onOutdoorDone={handleOutdoorDone}
                 onFertilizeDone={fertilizePlant}
+                onSoilMoist={skipSoilCheck}
+                onDeferTask={deferTask}
                 onDelete={(id) => {
                   const target = plants.find(p => p.id === id);
                   if (target) handleCommitDelete(target);
@@ -608,7 +674,7 @@ export default function TodayScreen() {
         onClose={() => setSelectedDiagnosis(null)}
         onContinueChat={(diag) => {
           setSelectedDiagnosis(null);
-          const plant = plants.find(p => p.id === diag.plantId);
+          const plant = allPlants.find(p => p.id === diag.plantId);
           if (plant) {
             setResumeDiagnosis(diag);
             setDiagnosePlant(plant);
@@ -620,7 +686,7 @@ export default function TodayScreen() {
         }}
         canAddToShoppingList={premium.canUseShoppingList()}
         onAddToShoppingList={selectedDiagnosis ? (treatment: string) => {
-          const plant = plants.find(p => p.id === selectedDiagnosis.plantId);
+          const plant = allPlants.find(p => p.id === selectedDiagnosis.plantId);
           addShoppingItem({
             id: `shop_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
             text: treatment,
@@ -649,7 +715,7 @@ export default function TodayScreen() {
       {/* Plant Detail Modal with Photo Album */}
       <MyPlantDetailModal
         visible={!!detailPlant}
-        plant={detailPlant ? plants.find(p => p.id === detailPlant.id) ?? detailPlant : null}
+        plant={detailPlant ? allPlants.find(p => p.id === detailPlant.id) ?? detailPlant : null}
         weather={weather}
         latitude={location?.lat ?? null}
         initialSection={detailInitialSection}
@@ -698,9 +764,11 @@ export default function TodayScreen() {
           <TouchableOpacity onPress={handleMenuEdit} style={styles.menuItem}>
             <Text style={styles.menuItemText}>{t('plantCard.menu.edit')}</Text>
           </TouchableOpacity>
-          <TouchableOpacity onPress={handleMenuDelete} style={[styles.menuItem, styles.menuItemDestructive]}>
-            <Text style={[styles.menuItemText, styles.menuItemTextDestructive]}>{t('plantCard.menu.delete')}</Text>
-          </TouchableOpacity>
+          {longPressTarget && canDeletePlant(longPressTarget, gardens) && (
+            <TouchableOpacity onPress={handleMenuDelete} style={[styles.menuItem, styles.menuItemDestructive]}>
+              <Text style={[styles.menuItemText, styles.menuItemTextDestructive]}>{t('plantCard.menu.delete')}</Text>
+            </TouchableOpacity>
+          )}
         </BottomSheetView>
       </BottomSheetModal>
 
@@ -0,0 +1,115 @@
+/**
+ * v1.3 (QUOTA-01). Client side of the server-enforced free quotas for the AI edge functions
+ * (identify-plant, diagnose-plant, chat-diagnosis — see supabase/functions/_shared/quota.ts).
+ *
+ * The local counters in useStorage reset on a reinstall; the server counts per Supabase user
+ * and per device id instead. The functions require a session, so a user without an account is
+ * signed in anonymously on the first AI call. The device id lives in SecureStore (the keychain
+ * on iOS survives a reinstall), separate from the analytics id in AsyncStorage. RevenueCat is
+ * logged in with the same auth id, which is how the server recognises premium callers once the
+ * free quota is used up.
+ */
+import * as SecureStore from 'expo-secure-store';
+import { randomUUID } from 'expo-crypto';
+import { Platform } from 'react-native';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { paymentService } from './payments';
+
+/** `code` of the edge functions' 402 answer when the free quota is used up. */
+export const QUOTA_EXCEEDED_CODE = 'QUOTA_EXCEEDED';
+/** Error name thrown by diagnosePlant / chatDiagnosis on QUOTA_EXCEEDED (checked like 'AbortError'). */
+export const QUOTA_EXCEEDED_ERROR = 'QuotaExceededError';
+
+const DEVICE_ID_KEY = 'ai_quota_device_id';
+
+let deviceId: string | null = null;
+
+async function getDeviceId(): Promise<string> {
+  if (deviceId) return deviceId;
+
+  try {
+    const stored = Platform.OS === 'web'
+      ? localStorage.getItem(DEVICE_ID_KEY)
+      : await SecureStore.getItemAsync(DEVICE_ID_KEY);
+    if (stored) {
+      deviceId = stored;
+      return stored;
+    }
+
+    const newId = randomUUID();
+    if (Platform.OS === 'web') {
+      localStorage.setItem(DEVICE_ID_KEY, newId);
+    } else {
+      await SecureStore.setItemAsync(DEVICE_ID_KEY, newId);
+    }
+    deviceId = newId;
+    return newId;
+  } catch {
+    // Fallback: generate but don't persist — the server still counts the session
+    deviceId = randomUUID();
+    return deviceId;
+  }
+}
+
+/** The current session, signing in anonymously when there is none. Null when that fails. */
+async function getAiSession(): Promise<Session | null> {
+  try {
+    const { data } = await supabase.auth.getSession();
+    if (data.session) return data.session;
+    const { data: anonymous, error } = await supabase.auth.signInAnonymously();
+    if (error) throw error;
+    return anonymous.session;
+  } catch (error) {
+    console.error('[AiQuota] No session for AI call:', error);
+    return null;
+  }
+}
+
+/**
+ * Headers for every AI edge function call: the session's access token and the device id.
+ * Without a session (offline, anonymous sign-in disabled) the anon key goes and the function
+ * answers AUTH_REQUIRED.
+ */
+export async function getAiRequestHeaders(): Promise<Record<string, string>> {
+  let token = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+  const session = await getAiSession();
+  if (session) {
+    token = session.access_token;
+    await paymentService.logIn(session.user.id);
+  }
+
+  return {
+    Authorization: `Bearer ${token}`,
+    'x-device-id': await getDeviceId(),
+  };
+}
+
+export interface FunctionErrorInfo {
+  /** Machine-readable `code` of the error body, when the function sent one. */
+  code: string | null;
+  /** Finer cause some codes carry (INVALID_AI_RESPONSE → INVALID_JSON / INVALID_SHAPE, AIVAL-01). */
+  reason: string | null;
+  message: string;
+}
+
+/**
+ * Reads `{ error, code }` from a supabase.functions.invoke error. FunctionsHttpError keeps
+ * the response in `.context`; anything else only has a message.
+ */
+export async function readFunctionError(error: any, fallback: string): Promise<FunctionErrorInfo> {
+  try {
+    if (error?.context && typeof error.context.json === 'function') {
+      const errorBody = await error.context.json();
+      return {
+        code: typeof errorBody?.code === 'string' ? errorBody.code : null,
+        reason: typeof errorBody?.reason === 'string' ? errorBody.reason : null,
+        message: errorBody?.error || errorBody?.message || fallback,
+      };
+    }
+    return { code: null, reason: null, message: error?.message || fallback };
+  } catch {
+    // If we can't parse the error body, use the default message
+    return { code: null, reason: null, message: fallback };
+  }
+}
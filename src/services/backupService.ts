@@ -0,0 +1,136 @@
+/**
+ * src/services/backupService.ts — v1.3 (BACKUP-01) backup file I/O.
+ *
+ * Archive building, validation and merge are pure (utils/backup.ts); this module only
+ * reads / writes files and talks to the OS share sheet and picker:
+ *  - export: the archive is streamed into a file in the cache directory, one photo at a time,
+ *    handed to the share sheet (expo-sharing, both platforms) and deleted afterwards.
+ *  - import: the user picks a backup file; after the merge/replace decision, the photos the
+ *    resulting data references are written back under the document directory, and a replace
+ *    deletes the photo files the old data used.
+ *
+ * Modern API: Paths/File/Directory from expo-file-system (journalService.ts precedent).
+ */
+import { Paths, File, Directory } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { AppData } from '../types';
+import { formatDate } from '../utils/dates';
+import {
+  BACKUP_JSON_START,
+  backupJsonEnd,
+  backupPhotoJson,
+  buildBackupArchive,
+  collectPhotoUris,
+  getBackupFileName,
+  isSafePhotoPath,
+  localizeBackupData,
+  parseBackupArchive,
+  toArchivePath,
+  unreferencedPhotoUris,
+  type BackupParseResult,
+} from '../utils/backup';
+
+export type BackupExportResult =
+  | { success: true; photoCount: number }
+  | { success: false; error: 'write_failed' };
+
+const encoder = new TextEncoder();
+
+/**
+ * Packages `data` and its photos into a single JSON file and shares it. Photos that can no
+ * longer be read are left out (their entries keep the old URI, as on this phone).
+ */
+export async function exportBackup(data: AppData): Promise<BackupExportResult> {
+  const documentUri = Paths.document.uri;
+  const file = new File(Paths.cache, getBackupFileName(formatDate(new Date())));
+  const photos: string[] = [];
+
+  try {
+    if (!(await Sharing.isAvailableAsync())) return { success: false, error: 'write_failed' };
+    if (file.exists) file.delete();
+    file.create();
+    const output = file.open();
+    try {
+      output.writeBytes(encoder.encode(BACKUP_JSON_START));
+      for (const uri of collectPhotoUris(data)) {
+        const path = toArchivePath(uri, documentUri);
+        if (path === null || !isSafePhotoPath(path)) continue;
+        let base64: string;
+        try {
+          const source = new File(uri);
+          if (!source.exists) continue;
+          base64 = await source.base64();
+        } catch {
+          // Unreadable photo — skip it, the rest of the backup is still useful.
+          continue;
+        }
+        output.writeBytes(encoder.encode(backupPhotoJson(path, base64, photos.length)));
+        photos.push(path);
+      }
+      output.writeBytes(encoder.encode(backupJsonEnd(buildBackupArchive(data, photos, documentUri, new Date()))));
+    } finally {
+      output.close();
+    }
+    await Sharing.shareAsync(file.uri, { mimeType: 'application/json', UTI: 'public.json', dialogTitle: file.name });
+  } catch (e) {
+    if (__DEV__) console.warn('[backupService] export failed:', e);
+    return { success: false, error: 'write_failed' };
+  } finally {
+    try { if (file.exists) file.delete(); } catch { /* left in the cache — the OS clears it */ }
+  }
+  return { success: true, photoCount: photos.length };
+}
+
+export type BackupPickResult = BackupParseResult | { success: false; error: 'cancelled' };
+
+/** Lets the user pick a backup file and validates it. Does not touch app data. */
+export async function pickBackupFile(): Promise<BackupPickResult> {
+  const picked = await File.pickFileAsync(undefined, 'application/json').catch(() => null);
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) return { success: false, error: 'cancelled' };
+
+  let text: string;
+  try {
+    text = await file.text();
+  } catch {
+    return { success: false, error: 'invalid_json' };
+  }
+  const parsed = parseBackupArchive(text);
+  if (!parsed.success) return parsed;
+  return { ...parsed, data: localizeBackupData(parsed.data, parsed.files, Paths.document.uri) };
+}
+
+/**
+ * Writes the backup photos that `data` (the post-merge result) references and that are not
+ * on this phone yet. Call before committing `data` to storage so every persisted photo URI
+ * points to a real file (journalService atomic-write invariant). Paths outside the photo
+ * folders are never written, whatever the backup says.
+ */
+export async function restoreBackupPhotos(data: AppData, files: Record<string, string>): Promise<void> {
+  const documentUri = Paths.document.uri;
+  for (const uri of collectPhotoUris(data)) {
+    const path = toArchivePath(uri, documentUri);
+    if (path === null || !isSafePhotoPath(path) || !(path in files)) continue;
+    const file = new File(uri);
+    if (file.exists) continue;
+    const dir = new Directory(uri.slice(0, uri.lastIndexOf('/') + 1));
+    try { if (!dir.exists) dir.create({ intermediates: true }); } catch { /* race condition safe */ }
+    file.create();
+    file.write(files[path], { encoding: 'base64' });
+  }
+}
+
+/**
+ * Deletes the photo files `before` used that `after` no longer references. Run after a
+ * replace import is committed, so nothing persisted points at a deleted file.
+ */
+export function deleteUnreferencedPhotos(before: AppData, after: AppData): void {
+  for (const uri of unreferencedPhotoUris(before, after, Paths.document.uri)) {
+    try {
+      const file = new File(uri);
+      if (file.exists) file.delete();
+    } catch {
+      // Left on disk — harmless, it just takes space.
+    }
+  }
+}
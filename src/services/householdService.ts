@@ -0,0 +1,162 @@
+/**
+ * src/services/householdService.ts — v1.3 (HOUSE-01) invites and members of shared gardens.
+ *
+ * The rules (who sees what, who can write) are row-level security in
+ * supabase/migrations/009_household_sharing.sql; the shared plants themselves arrive through
+ * the normal sync. This file only manages membership. A garden can be shared once it has
+ * reached the cloud — invites point at its row.
+ *
+ * Like syncService, every call takes the signed-in user id and returns a result object.
+ */
+import { getRandomBytes } from 'expo-crypto';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import type { DbGarden, DbGardenInviteInsert, DbGardenMember, DbProfile } from '../types/database';
+import type { HouseholdPerson } from '../types';
+import {
+  generateInviteCode,
+  inviteExpiresAt,
+  isValidInviteCode,
+  normalizeInviteCode,
+  parseHouseholdError,
+  type HouseholdError,
+} from '../utils/household';
+
+export interface InviteResult {
+  success: boolean;
+  code?: string;
+  expiresAt?: string;
+  error?: HouseholdError;
+}
+
+export interface HouseholdResult {
+  success: boolean;
+  error?: HouseholdError;
+}
+
+/** One garden with the people caring for it. `gardenId` is the local id (Garden.id). */
+export interface GardenHousehold {
+  gardenId: string;
+  cloudId: string;
+  owner: HouseholdPerson;
+  members: HouseholdPerson[];
+}
+
+function errorOf(error: unknown): HouseholdError {
+  if (error instanceof Error) return parseHouseholdError(error.message);
+  return parseHouseholdError((error as { message?: string })?.message);
+}
+
+async function findGardenRow(ownerId: string, gardenId: string): Promise<DbGarden | null> {
+  const { data, error } = await supabase
+    .from('gardens')
+    .select('*')
+    .eq('user_id', ownerId)
+    .eq('local_id', gardenId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as DbGarden | null) ?? null;
+}
+
+/** New invite code for one of the user's own gardens, valid INVITE_TTL_DAYS. */
+export async function createGardenInvite(userId: string, gardenId: string): Promise<InviteResult> {
+  if (!isSupabaseConfigured()) return { success: false, error: 'not_signed_in' };
+
+  try {
+    const garden = await findGardenRow(userId, gardenId);
+    if (!garden) return { success: false, error: 'garden_not_synced' };
+
+    const code = generateInviteCode(getRandomBytes);
+    const expiresAt = inviteExpiresAt(new Date());
+    const invite: DbGardenInviteInsert = { garden_id: garden.id, created_by: userId, code, expires_at: expiresAt };
+    const { error } = await supabase.from('garden_invites').insert(invite as any);
+    if (error) throw error;
+
+    return { success: true, code, expiresAt };
+  } catch (error) {
+    console.error('[Household] Error creating invite:', error);
+    return { success: false, error: errorOf(error) };
+  }
+}
+
+/** Redeems a code. The shared garden shows up with the next full download. */
+export async function acceptGardenInvite(input: string): Promise<HouseholdResult> {
+  if (!isSupabaseConfigured()) return { success: false, error: 'not_signed_in' };
+  if (!isValidInviteCode(input)) return { success: false, error: 'invalid_code' };
+
+  try {
+    const { data, error } = await supabase.rpc('accept_garden_invite', { invite_code: normalizeInviteCode(input) } as any);
+    if (error) throw error;
+    // Refusals come back as a code rather than an error, so the server keeps the attempt.
+    if (data !== 'ok') return { success: false, error: parseHouseholdError(data as string | null) };
+    return { success: true };
+  } catch (error) {
+    console.error('[Household] Error accepting invite:', error);
+    return { success: false, error: errorOf(error) };
+  }
+}
+
+/**
+ * Every garden this user owns or was invited to, with its members. Own gardens that were
+ * never shared come back with no members.
+ */
+export async function listGardenHouseholds(): Promise<{
+  success: boolean;
+  households?: GardenHousehold[];
+  error?: HouseholdError;
+}> {
+  if (!isSupabaseConfigured()) return { success: false, error: 'not_signed_in' };
+
+  try {
+    const { data: dbGardens, error: gardensError } = await supabase.from('gardens').select('*');
+    if (gardensError) throw gardensError;
+    const gardens = (dbGardens ?? []) as DbGarden[];
+    if (gardens.length === 0) return { success: true, households: [] };
+
+    const { data: dbMembers, error: membersError } = await supabase
+      .from('garden_members')
+      .select('*')
+      .in('garden_id', gardens.map((g) => g.id))
+      .order('joined_at', { ascending: true });
+    if (membersError) throw membersError;
+    const members = (dbMembers ?? []) as DbGardenMember[];
+
+    const people = new Set<string>([...gardens.map((g) => g.user_id), ...members.map((m) => m.user_id)]);
+    const { data: dbProfiles } = await supabase.from('profiles').select('*').in('id', [...people]);
+    const names = new Map(((dbProfiles ?? []) as DbProfile[]).map((p) => [p.id, p.display_name]));
+    const person = (id: string): HouseholdPerson => ({ userId: id, name: names.get(id) ?? null });
+
+    return {
+      success: true,
+      households: gardens.map((g) => ({
+        gardenId: g.local_id,
+        cloudId: g.id,
+        owner: person(g.user_id),
+        members: members.filter((m) => m.garden_id === g.id).map((m) => person(m.user_id)),
+      })),
+    };
+  } catch (error) {
+    console.error('[Household] Error listing members:', error);
+    return { success: false, error: errorOf(error) };
+  }
+}
+
+/**
+ * Ends a membership: the owner removing someone, or a member leaving (memberId = own id).
+ * The garden disappears from the member's phone with their next download.
+ */
+export async function removeGardenMember(cloudGardenId: string, memberId: string): Promise<HouseholdResult> {
+  if (!isSupabaseConfigured()) return { success: false, error: 'not_signed_in' };
+
+  try {
+    const { error } = await supabase
+      .from('garden_members')
+      .delete()
+      .eq('garden_id', cloudGardenId)
+      .eq('user_id', memberId);
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('[Household] Error removing member:', error);
+    return { success: false, error: errorOf(error) };
+  }
+}
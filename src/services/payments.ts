@@ -26,6 +26,11 @@ export interface PaymentService {
   checkPremiumStatus(): Promise<boolean>;
   /** RevenueCat App User ID — used by support to grant entitlements */
   getAppUserID(): Promise<string | null>;
+  /**
+   * v1.3 (QUOTA-01) — makes the Supabase auth id the RevenueCat app user id, so the server can
+   * check the caller's entitlement itself. Purchases made before carry over.
+   */
+  logIn(appUserId: string): Promise<void>;
   /** Dev only — directly set/unset premium (mock mode) */
   mockSetPremium?(value: boolean): Promise<void>;
 }
@@ -111,6 +116,8 @@ const MockPaymentService: PaymentService = {
     return 'mock-user-id';
   },
 
+  async logIn() {},
+
   async mockSetPremium(value: boolean) {
     if (value) {
       await AsyncStorage.setItem(MOCK_PREMIUM_KEY, 'true');
@@ -362,6 +369,17 @@ function createRealPaymentService(): PaymentService {
         return null;
       }
     },
+
+    async logIn(appUserId: string) {
+      if (!Purchases) return;
+      try {
+        if ((await Purchases.getAppUserID()) === appUserId) return;
+        const { customerInfo } = await Purchases.logIn(appUserId);
+        notifyPremiumChange(!!customerInfo.entitlements.active[ENTITLEMENT_ID]);
+      } catch (e) {
+        console.error('[Payments] logIn error:', e);
+      }
+    },
   };
 }
 
@@ -0,0 +1,195 @@
+/**
+ * src/services/photoStorageService.ts — v1.3 (SYNC-03) cloud copies of plant and journal photos.
+ *
+ * Uploads go to the private `user-photos` bucket (supabase/storage-setup.sql) under the
+ * user's own folder; the queue that drives them is in utils/photoQueue.ts. Other devices
+ * download a photo the first time it is shown and keep it in `${Paths.cache}photo-cache/`
+ * — the OS may evict that folder, in which case it is simply downloaded again.
+ *
+ * Everything here is best-effort: failures return a result object or null and never throw,
+ * so a flaky connection can only delay a photo, not break the screen showing it.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Paths, File, Directory } from 'expo-file-system';
+import { decode } from 'base64-arraybuffer';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  PHOTO_BUCKET,
+  cacheFileName,
+  photoStoragePath,
+  type PhotoRef,
+  type PhotoUploadJob,
+} from '../utils/photoQueue';
+
+const QUEUE_KEY_PREFIX = 'photo-upload-queue:';
+const CACHE_DIR_NAME = 'photo-cache';
+const SIGNED_URL_TTL_SECONDS = 60;
+
+export interface PhotoUploadResult {
+  success: boolean;
+  remotePath?: string;
+  /** The local file is gone — nothing to upload from this device. */
+  missingFile?: boolean;
+  error?: string;
+}
+
+// === Queue persistence ===
+
+export async function loadPhotoQueue(userId: string): Promise<PhotoUploadJob[]> {
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY_PREFIX + userId);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch {
+    // Corrupt queue → rebuilt from the store on the next run.
+  }
+  return [];
+}
+
+export async function savePhotoQueue(userId: string, queue: PhotoUploadJob[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY_PREFIX + userId, JSON.stringify(queue));
+  } catch (error) {
+    console.error('[PhotoStorage] Error saving queue:', error);
+  }
+}
+
+export async function clearPhotoQueue(userId: string): Promise<void> {
+  await AsyncStorage.removeItem(QUEUE_KEY_PREFIX + userId);
+}
+
+// === Upload ===
+
+/** Size of a local photo in bytes, or null when the file is not on this device. */
+export function localPhotoSize(uri: string): number | null {
+  try {
+    const file = new File(uri);
+    return file.exists ? file.size : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Bytes the signed-in user already stores in the bucket; null when it cannot be read. */
+export async function getPhotoStorageUsage(): Promise<number | null> {
+  if (!isSupabaseConfigured()) return null;
+  const { data, error } = await supabase.rpc('photo_storage_usage');
+  if (error) {
+    console.error('[PhotoStorage] Error reading usage:', error);
+    return null;
+  }
+  return data ?? 0;
+}
+
+/** `ownerId` is the folder: the signed-in user, or the garden owner for a shared plant (HOUSE-01). */
+export async function uploadPhoto(ownerId: string, ref: PhotoRef): Promise<PhotoUploadResult> {
+  if (!isSupabaseConfigured()) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  try {
+    const file = new File(ref.localUri);
+    if (!file.exists) return { success: false, missingFile: true };
+
+    const remotePath = photoStoragePath(ownerId, ref);
+    // upsert: a retry after a lost response must not fail on the object it already wrote.
+    const { error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .upload(remotePath, decode(await file.base64()), {
+        contentType: 'image/jpeg',
+        upsert: true,
+      });
+    if (error) throw error;
+
+    return { success: true, remotePath };
+  } catch (error) {
+    console.error('[PhotoStorage] Error uploading:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Upload failed' };
+  }
+}
+
+// === Delete ===
+
+/** Removes cloud copies. Called when the user deletes a photo, a journal entry or a plant. */
+export async function removeRemotePhotos(remotePaths: string[]): Promise<void> {
+  if (!isSupabaseConfigured() || remotePaths.length === 0) return;
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(remotePaths);
+  if (error) console.error('[PhotoStorage] Error deleting:', error);
+}
+
+/** Every photo in the user's folder — deleteCloudData. Folders: <user>/<plants|journal>/<plant>/. */
+export async function removeAllRemotePhotos(userId: string): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+  const bucket = supabase.storage.from(PHOTO_BUCKET);
+  for (const section of ['plants', 'journal']) {
+    const { data: plantDirs } = await bucket.list(`${userId}/${section}`);
+    for (const dir of plantDirs ?? []) {
+      const prefix = `${userId}/${section}/${dir.name}`;
+      const { data: files } = await bucket.list(prefix);
+      await removeRemotePhotos((files ?? []).map(f => `${prefix}/${f.name}`));
+    }
+  }
+}
+
+// === Download cache ===
+
+const inFlight = new Map<string, Promise<string | null>>();
+
+function ensureCacheDir(): string {
+  const dirUri = `${Paths.cache.uri}${CACHE_DIR_NAME}/`;
+  const dir = new Directory(dirUri);
+  try { if (!dir.exists) dir.create(); } catch { /* race condition safe */ }
+  return dirUri;
+}
+
+/** Cached copy of a cloud photo if it is already on disk. Synchronous, for the first render. */
+export function peekCachedPhoto(remotePath: string): string | null {
+  const file = new File(`${Paths.cache.uri}${CACHE_DIR_NAME}/${cacheFileName(remotePath)}`);
+  return file.exists ? file.uri : null;
+}
+
+/**
+ * Local URI for a cloud photo, downloading it into the cache on first use. Concurrent
+ * requests for the same photo share one download. Null when offline or signed out.
+ */
+export function getCachedPhoto(remotePath: string): Promise<string | null> {
+  const cached = peekCachedPhoto(remotePath);
+  if (cached) return Promise.resolve(cached);
+
+  const pending = inFlight.get(remotePath);
+  if (pending) return pending;
+
+  const download = (async () => {
+    if (!isSupabaseConfigured()) return null;
+    try {
+      const { data, error } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .createSignedUrl(remotePath, SIGNED_URL_TTL_SECONDS);
+      if (error || !data) throw error ?? new Error('No signed URL');
+
+      const dest = new File(`${ensureCacheDir()}${cacheFileName(remotePath)}`);
+      const file = await File.downloadFileAsync(data.signedUrl, dest);
+      return file.uri;
+    } catch (error) {
+      if (__DEV__) console.warn('[PhotoStorage] Download failed:', remotePath, error);
+      return null;
+    } finally {
+      inFlight.delete(remotePath);
+    }
+  })();
+  inFlight.set(remotePath, download);
+  return download;
+}
+
+/**
+ * Best URI to show right now without waiting: the local file if this device has it, else a
+ * cached download. Null means the photo has to be downloaded first (getCachedPhoto).
+ */
+export function resolveLocalPhoto(localUri: string | null | undefined, remotePath: string | null | undefined): string | null {
+  if (localUri && localPhotoSize(localUri) !== null) return localUri;
+  if (remotePath) return peekCachedPhoto(remotePath);
+  // Not uploaded and not on disk — let <Image> try the URI as before.
+  return localUri ?? null;
+}
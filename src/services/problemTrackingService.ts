@@ -72,29 +72,47 @@ export function isTrackingOptional(overallStatus: DiagnosisSeverity): boolean {
  * Callers MUST NOT await it.
  *
  * Scope: Called for follow-up chat photos when the diagnosis is tracked
- * (isTracked === true). Initial diagnosis photos do not need persistence
- * because they are base64-encoded and sent to the edge function, not stored
- * long-term by URI. Follow-up photos are stored by URI in ProblemEntry.photoUri
- * and must survive cache clears.
+ * (isTracked === true). Follow-up photos are stored by URI in
+ * ProblemEntry.photoUri and must survive cache clears. v1.3 (COMPARE-01): the
+ * initial diagnosis photos are copied too once the problem is tracked — the
+ * photo comparison shows them next to the follow-ups weeks later.
  *
- * Call site: usePlantDiagnosis.sendChatMessage, when imageUri is provided
- * and the current diagnosis isTracked.
+ * Call sites: usePlantDiagnosis.sendChatMessage, when imageUri is provided
+ * and the current diagnosis isTracked; persistOriginalPhotos (startTracking).
  */
 export function persistDiagnosisPhoto(
   diagnosisId: string,
-  cacheUri: string
+  cacheUri: string,
+  filename = `${Date.now()}.jpg`
 ): string {
   const dirPath = `${Paths.document.uri}diagnosis-photos/${diagnosisId}/`;
   const dir = new Directory(dirPath);
   if (!dir.exists) dir.create();
 
-  const filename = `${Date.now()}.jpg`;
   const dest = new File(`${dirPath}${filename}`);
   const source = new File(cacheUri);
   source.copy(dest);
   return dest.uri;
 }
 
+/**
+ * v1.3 (COMPARE-01): the diagnosis photos moved out of the cache (see persistDiagnosisPhoto).
+ * Photos already in the document directory are kept; a photo that cannot be copied keeps its
+ * cache URI (the comparison falls back to the placeholder if the cache is cleared).
+ */
+export function persistOriginalPhotos(diagnosis: SavedDiagnosis): string[] {
+  const uris = diagnosis.imageUris ?? (diagnosis.imageUri ? [diagnosis.imageUri] : []);
+  return uris.map((uri, index) => {
+    if (uri.startsWith(Paths.document.uri)) return uri;
+    try {
+      return persistDiagnosisPhoto(diagnosis.id, uri, `original-${index}.jpg`);
+    } catch (e) {
+      console.warn('[ProblemTracking] Could not persist original photo:', e);
+      return uri;
+    }
+  });
+}
+
 /**
  * Orchestrate the full "Track this problem" flow (PROB-01, NOTF-01, NOTF-04)
  * Called when user taps the Track button in DiagnosisResults.
@@ -108,7 +126,8 @@ export async function startTracking(
     trackingStatus: TrackingStatus,
     followUpDate: string,
     notificationId: string | null,
-    problemSummary: string
+    problemSummary: string,
+    imageUris?: string[]
   ) => void
 ): Promise<TrackingStatus> {
   const severity = diagnosis.severity || diagnosis.result.overallStatus;
@@ -130,7 +149,8 @@ export async function startTracking(
     trackingStatus,
     followUpDate.toISOString(),
     notificationId,
-    diagnosis.problemSummary || diagnosis.result.summary
+    diagnosis.problemSummary || diagnosis.result.summary,
+    persistOriginalPhotos(diagnosis)
   );
 
   return trackingStatus;
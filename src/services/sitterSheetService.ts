@@ -0,0 +1,65 @@
+/**
+ * src/services/sitterSheetService.ts — v1.3 (SITTER-01) handoff sheet file I/O.
+ *
+ * The sheet itself is built and rendered by utils/sitterSheet.ts; this module adds a small
+ * photo of each plant (so the sitter can tell them apart) and hands the .html file to the
+ * OS the same way backupService does: share sheet on iOS, a folder the user picks on
+ * Android.
+ */
+import { Platform, Share } from 'react-native';
+import { Paths, File, Directory } from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import type { Plant } from '../types';
+
+export type SitterSheetShareResult =
+  | { success: true }
+  | { success: false; error: 'cancelled' | 'write_failed' };
+
+/** Width (px) of the embedded photos — enough to recognize a plant, small enough to send. */
+const PHOTO_WIDTH = 240;
+
+/**
+ * Plant id → JPEG data URI of its latest photo on this phone. Plants whose photo is missing
+ * or unreadable are left out; the sheet shows their icon instead.
+ */
+export async function loadSitterSheetPhotos(plants: Plant[]): Promise<Record<string, string>> {
+  const photos: Record<string, string> = {};
+  for (const plant of plants) {
+    const latest = [...(plant.photos ?? [])].sort((a, b) => b.date.localeCompare(a.date))[0];
+    if (!latest?.uri) continue;
+    try {
+      if (!new File(latest.uri).exists) continue;
+      const result = await ImageManipulator.manipulateAsync(
+        latest.uri,
+        [{ resize: { width: PHOTO_WIDTH } }],
+        { compress: 0.6, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+      );
+      if (result.base64) photos[plant.id] = `data:image/jpeg;base64,${result.base64}`;
+    } catch {
+      // Unreadable photo — the icon is good enough.
+    }
+  }
+  return photos;
+}
+
+/** Writes the rendered sheet to a file and shares it. */
+export async function shareSitterSheet(html: string, fileName: string): Promise<SitterSheetShareResult> {
+  try {
+    if (Platform.OS === 'android') {
+      const target = await Directory.pickDirectoryAsync().catch(() => null);
+      if (!target) return { success: false, error: 'cancelled' };
+      target.createFile(fileName, 'text/html').write(html);
+    } else {
+      const file = new File(Paths.cache, fileName);
+      if (file.exists) file.delete();
+      file.create();
+      file.write(html);
+      const result = await Share.share({ url: file.uri, title: fileName });
+      if (result.action === Share.dismissedAction) return { success: false, error: 'cancelled' };
+    }
+  } catch (e) {
+    if (__DEV__) console.warn('[sitterSheetService] share failed:', e);
+    return { success: false, error: 'write_failed' };
+  }
+  return { success: true };
+}
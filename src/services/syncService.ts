@@ -1,11 +1,51 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import { Plant, Note, Reminder, Location, NotificationSettings, PlantPhoto } from '../types';
 import {
+  Database,
+  DbCareEvent,
+  DbDiagnosis,
+  DbGarden,
+  DbJournalEntry,
   DbPlant,
+  DbProfile,
   DbNote,
   DbReminder,
+  DbShoppingItem,
+  DbSyncTombstone,
   DbUserSettings,
 } from '../types/database';
+import type { SyncRecordKind } from '../types';
+import {
+  careEventToDb,
+  dbToCareEvent,
+  dbToDiagnosis,
+  dbToGarden,
+  dbToJournalEntry,
+  dbToNote,
+  dbToPlant,
+  dbToReminder,
+  dbToSettings,
+  dbToShoppingItem,
+  dbToTombstone,
+  diagnosisToDb,
+  flattenKeyed,
+  gardenToDb,
+  groupByKey,
+  journalEntryToDb,
+  noteToDb,
+  plantToDb,
+  reminderToDb,
+  settingsToDb,
+  shoppingItemToDb,
+  tombstoneToDb,
+  type CloudData,
+} from '../utils/syncConverters';
+import { careEventsSince, changedSince, changedSinceDated, tombstonesSince } from '../utils/syncMerge';
+import type { OutboxEntry } from '../utils/syncOutbox';
+import { ownerIdFor } from '../utils/household';
+import { clearPhotoQueue, removeAllRemotePhotos } from './photoStorageService';
+
+export type { CloudData } from '../utils/syncConverters';
 
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error' | 'offline';
 
@@ -15,136 +55,282 @@ export interface SyncResult {
   syncedAt?: string;
 }
 
-export interface CloudData {
-  plants: Plant[];
-  notes: Record<string, Note[]>;
-  reminders: Record<string, Reminder[]>;
-  location: Location | null;
-  notificationSettings: NotificationSettings | null;
-  plantNetApiKey: string | null;
-}
+// Row converters live in utils/syncConverters.ts, the merge rules in utils/syncMerge.ts
+// (both pure, smoke-tested).
 
-// === Converters: Local <-> Database ===
-
-function plantToDb(plant: Plant, userId: string) {
-  return {
-    user_id: userId,
-    local_id: plant.id,
-    name: plant.name,
-    type_id: plant.typeId,
-    type_name: plant.typeName,
-    icon: plant.icon,
-    water_every: plant.waterEvery,
-    sun_hours: plant.sunHours,
-    sun_days: plant.sunDays,
-    outdoor_days: plant.outdoorDays,
-    last_watered: plant.lastWatered,
-    sun_done_date: plant.sunDoneDate,
-    outdoor_done_date: plant.outdoorDoneDate,
-    temp_min: plant.tempMin,
-    temp_max: plant.tempMax,
-    humidity: plant.humidity,
-    favorite: plant.favorite,
-    image_url: plant.imageUrl,
-    database_id: plant.databaseId,
-    photos: plant.photos ? JSON.stringify(plant.photos) : null,
-  };
+// === Sync cursor (v1.3 SYNC-02) ===
+
+/**
+ * Per-account progress of incremental sync on this device.
+ * - pulledAt: highest server `synced_at` downloaded (server clock).
+ * - pushedAt: device time of the last successful upload (compared with local updatedAt).
+ * null = never synced → full download / upload.
+ */
+export interface SyncCursor {
+  pulledAt: string | null;
+  pushedAt: string | null;
 }
 
-function dbToPlant(dbPlant: DbPlant): Plant {
-  let photos: PlantPhoto[] | undefined;
-  if ((dbPlant as any).photos) {
-    try {
-      photos = JSON.parse((dbPlant as any).photos);
-    } catch {
-      photos = undefined;
+/**
+ * Incremental downloads re-read this much before pulledAt. synced_at is stamped with the
+ * uploading transaction's start time, so a row committed late can land behind a cursor that
+ * already moved past it; rows read twice are dropped by id in the merge.
+ */
+export const SYNC_PULL_OVERLAP_MS = 5 * 60 * 1000;
+
+const SYNC_CURSOR_KEY_PREFIX = 'sync-cursor:';
+
+export async function loadSyncCursor(userId: string): Promise<SyncCursor> {
+  try {
+    const raw = await AsyncStorage.getItem(SYNC_CURSOR_KEY_PREFIX + userId);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return { pulledAt: parsed.pulledAt ?? null, pushedAt: parsed.pushedAt ?? null };
     }
+  } catch {
+    // Corrupt cursor → full sync, which is always safe.
   }
-
-  return {
-    id: dbPlant.local_id,
-    name: dbPlant.name,
-    typeId: dbPlant.type_id,
-    typeName: dbPlant.type_name,
-    icon: dbPlant.icon,
-    waterEvery: dbPlant.water_every,
-    sunHours: dbPlant.sun_hours,
-    sunDays: dbPlant.sun_days,
-    outdoorDays: dbPlant.outdoor_days,
-    lastWatered: dbPlant.last_watered,
-    sunDoneDate: dbPlant.sun_done_date,
-    outdoorDoneDate: dbPlant.outdoor_done_date,
-    tempMin: (dbPlant as any).temp_min,
-    tempMax: (dbPlant as any).temp_max,
-    humidity: (dbPlant as any).humidity,
-    favorite: (dbPlant as any).favorite,
-    imageUrl: (dbPlant as any).image_url,
-    databaseId: (dbPlant as any).database_id,
-    photos,
-  };
+  return { pulledAt: null, pushedAt: null };
 }
 
-function noteToDb(note: Note, date: string, userId: string) {
-  return {
-    user_id: userId,
-    local_id: note.id,
-    date,
-    text: note.text,
-  };
+export async function saveSyncCursor(userId: string, cursor: SyncCursor): Promise<void> {
+  await AsyncStorage.setItem(SYNC_CURSOR_KEY_PREFIX + userId, JSON.stringify(cursor));
 }
 
-function dbToNote(dbNote: DbNote): Note {
-  return {
-    id: dbNote.local_id,
-    text: dbNote.text,
-    createdAt: dbNote.created_at,
-  };
+// === Outbox (v1.3 SYNC-04) ===
+
+const OUTBOX_KEY_PREFIX = 'sync-outbox:';
+
+export async function loadOutbox(userId: string): Promise<OutboxEntry[]> {
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_KEY_PREFIX + userId);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch {
+    // Corrupt outbox → the next full upload covers it.
+  }
+  return [];
 }
 
-function reminderToDb(reminder: Reminder, date: string, userId: string) {
-  return {
-    user_id: userId,
-    local_id: reminder.id,
-    date,
-    text: reminder.text,
-    time: reminder.time,
-    done: reminder.done,
-  };
+export async function saveOutbox(userId: string, outbox: OutboxEntry[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY_PREFIX + userId, JSON.stringify(outbox));
+  } catch (error) {
+    console.error('[Sync] Error saving outbox:', error);
+  }
 }
 
-function dbToReminder(dbReminder: DbReminder): Reminder {
-  return {
-    id: dbReminder.local_id,
-    text: dbReminder.text,
-    time: dbReminder.time,
-    done: dbReminder.done,
-  };
+/**
+ * Pushes one outbox entry: the record's current state from `data`, or its deletion. A record
+ * that no longer exists locally was deleted after it was queued; its own delete entry
+ * handles it, so the upsert is a no-op.
+ */
+export async function pushOutboxEntry(userId: string, entry: OutboxEntry, data: CloudData): Promise<SyncResult> {
+  if (!isSupabaseConfigured()) {
+    return { success: false, error: 'Supabase no está configurado' };
+  }
+
+  try {
+    const now = new Date();
+    const plantId = entry.plantId ?? '';
+    const findDated = <T extends { id: string }>(record: Record<string, T[]>) => {
+      for (const [date, items] of Object.entries(record)) {
+        const item = items.find((i) => i.id === entry.recordId);
+        if (item) return { date, item };
+      }
+      return null;
+    };
+    const upsert = async (table: keyof Database['public']['Tables'], row: unknown, onConflict: string, ignoreDuplicates = false) => {
+      const { error } = await supabase.from(table).upsert(row as any, { onConflict, ignoreDuplicates });
+      if (error) throw error;
+    };
+    const remove = async (table: keyof Database['public']['Tables'], match: Record<string, string>) => {
+      let query = supabase.from(table).delete().eq('user_id', userId);
+      for (const [column, value] of Object.entries(match)) query = query.eq(column, value);
+      const { error } = await query;
+      if (error) throw error;
+    };
+    // Every deleted record leaves a tombstone so other devices drop it too (SYNC-02).
+    const pushTombstone = async (kind: SyncRecordKind) => {
+      const tombstone = data.tombstones.find((t) => t.kind === kind && t.id === entry.recordId)
+        ?? { kind, id: entry.recordId, deletedAt: now.toISOString() };
+      await upsert('sync_tombstones', tombstoneToDb(tombstone, userId), 'user_id,kind,local_id');
+    };
+
+    switch (entry.kind) {
+      case 'plant': {
+        if (entry.op === 'delete') {
+          await pushTombstone('plant');
+          for (const table of ['journal_entries', 'diagnoses', 'care_events'] as const) {
+            await remove(table, { plant_local_id: entry.recordId });
+          }
+          await remove('plants', { local_id: entry.recordId });
+        } else {
+          const plant = data.plants.find((p) => p.id === entry.recordId);
+          // Plants in a shared garden live in the owner's rows (HOUSE-01).
+          if (plant) await upsert('plants', plantToDb(plant, ownerIdFor(data, plant.id, userId), now), 'user_id,local_id');
+        }
+        break;
+      }
+      case 'note': {
+        if (entry.op === 'delete') {
+          await pushTombstone('note');
+          await remove('notes', { local_id: entry.recordId });
+        } else {
+          const found = findDated(data.notes);
+          if (found) await upsert('notes', noteToDb(found.item, found.date, userId, now), 'user_id,local_id');
+        }
+        break;
+      }
+      case 'reminder': {
+        if (entry.op === 'delete') {
+          await pushTombstone('reminder');
+          await remove('reminders', { local_id: entry.recordId });
+        } else {
+          const found = findDated(data.reminders);
+          if (found) await upsert('reminders', reminderToDb(found.item, found.date, userId, now), 'user_id,local_id');
+        }
+        break;
+      }
+      case 'garden': {
+        if (entry.op === 'delete') {
+          await pushTombstone('garden');
+          await remove('gardens', { local_id: entry.recordId });
+        } else {
+          const garden = data.gardens.find((g) => g.id === entry.recordId);
+          // Only the owner edits a shared garden.
+          if (garden && !garden.sharedBy) await upsert('gardens', gardenToDb(garden, userId, now), 'user_id,local_id');
+        }
+        break;
+      }
+      case 'journal': {
+        if (entry.op === 'delete') {
+          await pushTombstone('journal');
+          await remove('journal_entries', { plant_local_id: plantId, local_id: entry.recordId });
+        } else {
+          const journalEntry = data.journals[plantId]?.find((e) => e.id === entry.recordId);
+          if (journalEntry) {
+            await upsert('journal_entries', journalEntryToDb(journalEntry, plantId, userId, now), 'user_id,plant_local_id,local_id');
+          }
+        }
+        break;
+      }
+      case 'diagnosis': {
+        if (entry.op === 'delete') {
+          await pushTombstone('diagnosis');
+          await remove('diagnoses', { local_id: entry.recordId });
+        } else {
+          const diagnosis = data.diagnosisHistory[plantId]?.find((d) => d.id === entry.recordId);
+          if (diagnosis) await upsert('diagnoses', diagnosisToDb(diagnosis, plantId, userId, now), 'user_id,local_id');
+        }
+        break;
+      }
+      case 'shopping': {
+        if (entry.op === 'delete') {
+          await pushTombstone('shopping');
+          await remove('shopping_items', { local_id: entry.recordId });
+        } else {
+          const item = data.shoppingList.find((i) => i.id === entry.recordId);
+          if (item) await upsert('shopping_items', shoppingItemToDb(item, userId, now), 'user_id,local_id');
+        }
+        break;
+      }
+      case 'care_event': {
+        if (entry.op === 'delete') {
+          await pushTombstone('care_event');
+          await remove('care_events', { plant_local_id: plantId, local_id: entry.recordId });
+        } else {
+          const event = data.careLog[plantId]?.find((e) => e.id === entry.recordId);
+          if (event) {
+            await upsert('care_events', careEventToDb(event, plantId, ownerIdFor(data, plantId, userId)), 'user_id,plant_local_id,local_id', true);
+          }
+        }
+        break;
+      }
+      case 'settings': {
+        await upsert('user_settings', settingsToDb(data, userId, now), 'user_id');
+        break;
+      }
+    }
+
+    return { success: true, syncedAt: now.toISOString() };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? 'Error de sincronización',
+    };
+  }
 }
 
 // === Sync Functions ===
 
 /**
- * Upload local data to the cloud
+ * Upload local data to the cloud. With `since` (SyncCursor.pushedAt) only the records edited
+ * after it are sent (care events logged after it); deletions of any synced record since then
+ * are uploaded as tombstones and their rows removed.
  */
-export async function syncToCloud(
-  userId: string,
-  data: {
-    plants: Plant[];
-    notes: Record<string, Note[]>;
-    reminders: Record<string, Reminder[]>;
-    location: Location | null;
-    notificationSettings: NotificationSettings | null;
-    plantNetApiKey: string | null;
-  }
-): Promise<SyncResult> {
+export async function syncToCloud(userId: string, data: CloudData, since: string | null = null): Promise<SyncResult> {
   if (!isSupabaseConfigured()) {
     return { success: false, error: 'Supabase no está configurado' };
   }
 
   try {
+    const now = new Date();
+
+    // 0. Upsert gardens (v1.3 GARDEN-01) — before plants, which reference them by local id
+    // Shared gardens (HOUSE-01) belong to their owner and are never uploaded from here.
+    const ownGardens = data.gardens.filter((g) => !g.sharedBy);
+    if (ownGardens.length > 0) {
+      const gardensToUpsert = ownGardens.map((g) => gardenToDb(g, userId, now));
+      const { error: gardensError } = await supabase
+        .from('gardens')
+        .upsert(gardensToUpsert as any, { onConflict: 'user_id,local_id' });
+
+      if (gardensError) throw gardensError;
+    }
+
+    // 0b. Deletions (v1.3 SYNC-02) — tombstone first, then drop the rows and their children
+    const tombstones = tombstonesSince(data.tombstones, since);
+    if (tombstones.length > 0) {
+      const { error: tombstonesError } = await supabase
+        .from('sync_tombstones')
+        .upsert(tombstones.map((t) => tombstoneToDb(t, userId)) as any, { onConflict: 'user_id,kind,local_id' });
+
+      if (tombstonesError) throw tombstonesError;
+
+      const idsOf = (kind: string) => tombstones.filter((t) => t.kind === kind).map((t) => t.id);
+      const plantIds = idsOf('plant');
+      const deletions = [
+        { table: 'notes', column: 'local_id', ids: idsOf('note') },
+        { table: 'reminders', column: 'local_id', ids: idsOf('reminder') },
+        { table: 'journal_entries', column: 'local_id', ids: idsOf('journal') },
+        { table: 'diagnoses', column: 'local_id', ids: idsOf('diagnosis') },
+        { table: 'care_events', column: 'local_id', ids: idsOf('care_event') },
+        { table: 'shopping_items', column: 'local_id', ids: idsOf('shopping') },
+        { table: 'journal_entries', column: 'plant_local_id', ids: plantIds },
+        { table: 'diagnoses', column: 'plant_local_id', ids: plantIds },
+        { table: 'care_events', column: 'plant_local_id', ids: plantIds },
+        { table: 'plants', column: 'local_id', ids: plantIds },
+        { table: 'gardens', column: 'local_id', ids: idsOf('garden') },
+      ] as const;
+      for (const { table, column, ids } of deletions) {
+        if (ids.length === 0) continue;
+        const { error: deleteError } = await supabase
+          .from(table)
+          .delete()
+          .eq('user_id', userId)
+          .in(column, ids);
+
+        if (deleteError) throw deleteError;
+      }
+    }
+
     // 1. Upsert plants
-    if (data.plants.length > 0) {
-      const plantsToUpsert = data.plants.map((p) => plantToDb(p, userId));
+    const changedPlants = changedSince(data.plants, since);
+    if (changedPlants.length > 0) {
+      const plantsToUpsert = changedPlants.map((p) => plantToDb(p, ownerIdFor(data, p.id, userId), now));
       const { error: plantsError } = await supabase
         .from('plants')
         .upsert(plantsToUpsert as any, { onConflict: 'user_id,local_id' });
@@ -153,12 +339,7 @@ export async function syncToCloud(
     }
 
     // 2. Upsert notes
-    const allNotes = [];
-    for (const [date, noteList] of Object.entries(data.notes)) {
-      for (const note of noteList) {
-        allNotes.push(noteToDb(note, date, userId));
-      }
-    }
+    const allNotes = flattenKeyed(changedSinceDated(data.notes, since), (note, date) => noteToDb(note, date, userId, now));
     if (allNotes.length > 0) {
       const { error: notesError } = await supabase
         .from('notes')
@@ -168,12 +349,10 @@ export async function syncToCloud(
     }
 
     // 3. Upsert reminders
-    const allReminders = [];
-    for (const [date, reminderList] of Object.entries(data.reminders)) {
-      for (const reminder of reminderList) {
-        allReminders.push(reminderToDb(reminder, date, userId));
-      }
-    }
+    const allReminders = flattenKeyed(
+      changedSinceDated(data.reminders, since),
+      (reminder, date) => reminderToDb(reminder, date, userId, now)
+    );
     if (allReminders.length > 0) {
       const { error: remindersError } = await supabase
         .from('reminders')
@@ -182,32 +361,66 @@ export async function syncToCloud(
       if (remindersError) throw remindersError;
     }
 
-    // 4. Upsert user settings
-    const settings = {
-      user_id: userId,
-      location_lat: data.location?.lat ?? null,
-      location_lon: data.location?.lon ?? null,
-      location_name: data.location?.name ?? null,
-      location_country: data.location?.country ?? null,
-      location_admin1: data.location?.admin1 ?? null,
-      notification_enabled: data.notificationSettings?.enabled ?? false,
-      notification_morning_time: data.notificationSettings?.morningTime ?? '08:00',
-      notification_weather_alerts: data.notificationSettings?.weatherAlerts ?? false,
-      notification_care_reminders: data.notificationSettings?.careReminders ?? false,
-      notification_morning_reminder: data.notificationSettings?.morningReminder ?? false,
-      plantnet_api_key: data.plantNetApiKey,
-      updated_at: new Date().toISOString(),
-    };
+    // 4. Upsert journal entries (v1.3 SYNC-01)
+    const allJournal = flattenKeyed(
+      changedSinceDated(data.journals, since),
+      (entry, plantId) => journalEntryToDb(entry, plantId, userId, now)
+    );
+    if (allJournal.length > 0) {
+      const { error: journalError } = await supabase
+        .from('journal_entries')
+        .upsert(allJournal as any, { onConflict: 'user_id,plant_local_id,local_id' });
+
+      if (journalError) throw journalError;
+    }
+
+    // 5. Upsert diagnoses (v1.3 SYNC-01)
+    const allDiagnoses = flattenKeyed(
+      changedSinceDated(data.diagnosisHistory, since),
+      (d, plantId) => diagnosisToDb(d, plantId, userId, now)
+    );
+    if (allDiagnoses.length > 0) {
+      const { error: diagnosesError } = await supabase
+        .from('diagnoses')
+        .upsert(allDiagnoses as any, { onConflict: 'user_id,local_id' });
+
+      if (diagnosesError) throw diagnosesError;
+    }
+
+    // 6. Upsert shopping list (v1.3 SYNC-01)
+    const changedShopping = changedSince(data.shoppingList, since);
+    if (changedShopping.length > 0) {
+      const itemsToUpsert = changedShopping.map((item) => shoppingItemToDb(item, userId, now));
+      const { error: shoppingError } = await supabase
+        .from('shopping_items')
+        .upsert(itemsToUpsert as any, { onConflict: 'user_id,local_id' });
 
+      if (shoppingError) throw shoppingError;
+    }
+
+    // 7. Upsert care history (v1.3 SYNC-01) — append-only, existing rows never change
+    const allEvents = flattenKeyed(
+      careEventsSince(data.careLog, since),
+      (event, plantId) => careEventToDb(event, plantId, ownerIdFor(data, plantId, userId))
+    );
+    if (allEvents.length > 0) {
+      const { error: eventsError } = await supabase
+        .from('care_events')
+        .upsert(allEvents as any, { onConflict: 'user_id,plant_local_id,local_id', ignoreDuplicates: true });
+
+      if (eventsError) throw eventsError;
+    }
+
+    // 8. Upsert user settings
     const { error: settingsError } = await supabase
       .from('user_settings')
-      .upsert(settings as any, { onConflict: 'user_id' });
+      .upsert(settingsToDb(data, userId, now) as any, { onConflict: 'user_id' });
 
     if (settingsError) throw settingsError;
 
     return {
       success: true,
-      syncedAt: new Date().toISOString(),
+      syncedAt: now.toISOString(),
     };
   } catch (error) {
     console.error('[Sync] Upload error:', error);
@@ -219,11 +432,17 @@ export async function syncToCloud(
 }
 
 /**
- * Download data from the cloud
+ * Download data from the cloud. With `since` (SyncCursor.pulledAt) only plants, notes,
+ * reminders, care events and tombstones uploaded after it (minus SYNC_PULL_OVERLAP_MS) are
+ * fetched; the other collections are always fetched whole. `cursor` is the new pulledAt.
+ *
+ * Gardens, plants, care events and plant tombstones are not filtered by user: row-level
+ * security also returns the ones other accounts shared with this one (v1.3 HOUSE-01).
  */
-export async function syncFromCloud(userId: string): Promise<{
+export async function syncFromCloud(userId: string, since: string | null = null): Promise<{
   success: boolean;
   data?: CloudData;
+  cursor?: string | null;
   error?: string;
 }> {
   if (!isSupabaseConfigured()) {
@@ -231,45 +450,110 @@ export async function syncFromCloud(userId: string): Promise<{
   }
 
   try {
+    let cursor = since;
+    const from = since ? new Date(Date.parse(since) - SYNC_PULL_OVERLAP_MS).toISOString() : null;
+    const advance = (rows: { synced_at: string }[]) => {
+      for (const row of rows) if (cursor === null || row.synced_at > cursor) cursor = row.synced_at;
+    };
+
     // 1. Fetch plants
-    const { data: dbPlants, error: plantsError } = await supabase
-      .from('plants')
-      .select('*')
-      .eq('user_id', userId);
+    let plantsQuery = supabase.from('plants').select('*');
+    if (from) plantsQuery = plantsQuery.gt('synced_at', from);
+    const { data: dbPlants, error: plantsError } = await plantsQuery;
 
     if (plantsError) throw plantsError;
 
-    const plants: Plant[] = ((dbPlants ?? []) as DbPlant[]).map(dbToPlant);
+    advance((dbPlants ?? []) as DbPlant[]);
+    const plants = ((dbPlants ?? []) as DbPlant[]).map(dbToPlant);
+
+    // 1b. Fetch gardens (v1.3 GARDEN-01) — own and shared, converted once names are known
+    const { data: dbGardens, error: gardensError } = await supabase
+      .from('gardens')
+      .select('*');
+
+    if (gardensError) throw gardensError;
 
     // 2. Fetch notes
-    const { data: dbNotes, error: notesError } = await supabase
-      .from('notes')
-      .select('*')
-      .eq('user_id', userId);
+    let notesQuery = supabase.from('notes').select('*').eq('user_id', userId);
+    if (from) notesQuery = notesQuery.gt('synced_at', from);
+    const { data: dbNotes, error: notesError } = await notesQuery;
 
     if (notesError) throw notesError;
 
-    const notes: Record<string, Note[]> = {};
-    for (const dbNote of (dbNotes ?? []) as DbNote[]) {
-      const date = dbNote.date;
-      if (!notes[date]) notes[date] = [];
-      notes[date].push(dbToNote(dbNote));
-    }
+    advance((dbNotes ?? []) as DbNote[]);
+    const notes = groupByKey((dbNotes ?? []) as DbNote[], (row) => row.date, dbToNote);
 
     // 3. Fetch reminders
-    const { data: dbReminders, error: remindersError } = await supabase
-      .from('reminders')
-      .select('*')
-      .eq('user_id', userId);
+    let remindersQuery = supabase.from('reminders').select('*').eq('user_id', userId);
+    if (from) remindersQuery = remindersQuery.gt('synced_at', from);
+    const { data: dbReminders, error: remindersError } = await remindersQuery;
 
     if (remindersError) throw remindersError;
 
-    const reminders: Record<string, Reminder[]> = {};
-    for (const dbReminder of (dbReminders ?? []) as DbReminder[]) {
-      const date = dbReminder.date;
-      if (!reminders[date]) reminders[date] = [];
-      reminders[date].push(dbToReminder(dbReminder));
-    }
+    advance((dbReminders ?? []) as DbReminder[]);
+    const reminders = groupByKey((dbReminders ?? []) as DbReminder[], (row) => row.date, dbToReminder);
+
+    // 3b. Fetch journal entries, diagnoses, shopping list and care history (v1.3 SYNC-01)
+    const { data: dbJournal, error: journalError } = await supabase
+      .from('journal_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .order('date', { ascending: true });
+
+    if (journalError) throw journalError;
+
+    const journals = groupByKey((dbJournal ?? []) as DbJournalEntry[], (row) => row.plant_local_id, dbToJournalEntry);
+
+    const { data: dbDiagnoses, error: diagnosesError } = await supabase
+      .from('diagnoses')
+      .select('*')
+      .eq('user_id', userId)
+      .order('date', { ascending: false });
+
+    if (diagnosesError) throw diagnosesError;
+
+    const diagnosisHistory = groupByKey((dbDiagnoses ?? []) as DbDiagnosis[], (row) => row.plant_local_id, dbToDiagnosis);
+
+    const { data: dbShopping, error: shoppingError } = await supabase
+      .from('shopping_items')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (shoppingError) throw shoppingError;
+
+    const shoppingList = ((dbShopping ?? []) as DbShoppingItem[]).map(dbToShoppingItem);
+
+    let eventsQuery = supabase.from('care_events').select('*');
+    if (from) eventsQuery = eventsQuery.gt('synced_at', from);
+    const { data: dbEvents, error: eventsError } = await eventsQuery.order('logged_at', { ascending: true });
+
+    if (eventsError) throw eventsError;
+
+    advance((dbEvents ?? []) as DbCareEvent[]);
+
+    // 3b'. Names of the other people in shared gardens (HOUSE-01) — owners and whoever logged care
+    const otherIds = new Set<string>();
+    for (const row of (dbGardens ?? []) as DbGarden[]) if (row.user_id !== userId) otherIds.add(row.user_id);
+    for (const row of (dbEvents ?? []) as DbCareEvent[]) if (row.done_by && row.done_by !== userId) otherIds.add(row.done_by);
+    const names = await fetchDisplayNames([...otherIds]);
+
+    const gardens = ((dbGardens ?? []) as DbGarden[]).map((row) => dbToGarden(row, userId, names));
+    const careLog = groupByKey(
+      (dbEvents ?? []) as DbCareEvent[],
+      (row) => row.plant_local_id,
+      (row) => dbToCareEvent(row, userId, names)
+    );
+
+    // 3c. Fetch tombstones (v1.3 SYNC-02)
+    let tombstonesQuery = supabase.from('sync_tombstones').select('*');
+    if (from) tombstonesQuery = tombstonesQuery.gt('synced_at', from);
+    const { data: dbTombstones, error: tombstonesError } = await tombstonesQuery;
+
+    if (tombstonesError) throw tombstonesError;
+
+    advance((dbTombstones ?? []) as DbSyncTombstone[]);
+    const tombstones = ((dbTombstones ?? []) as DbSyncTombstone[]).map(dbToTombstone);
 
     // 4. Fetch user settings
     const { data: dbSettings, error: settingsError } = await supabase
@@ -279,32 +563,10 @@ export async function syncFromCloud(userId: string): Promise<{
       .single();
 
     // Settings might not exist yet, that's ok
-    let location: Location | null = null;
-    let notificationSettings: NotificationSettings | null = null;
-    let plantNetApiKey: string | null = null;
-
     const settings = dbSettings as DbUserSettings | null;
-    if (settings && !settingsError) {
-      if (settings.location_lat && settings.location_lon && settings.location_name) {
-        location = {
-          lat: settings.location_lat,
-          lon: settings.location_lon,
-          name: settings.location_name,
-          country: settings.location_country ?? '',
-          admin1: settings.location_admin1 ?? undefined,
-        };
-      }
-
-      notificationSettings = {
-        enabled: settings.notification_enabled,
-        morningReminder: settings.notification_morning_reminder,
-        morningTime: settings.notification_morning_time,
-        weatherAlerts: settings.notification_weather_alerts,
-        careReminders: settings.notification_care_reminders,
-      };
-
-      plantNetApiKey = settings.plantnet_api_key;
-    }
+    const userSettings = settings && !settingsError
+      ? dbToSettings(settings)
+      : { location: null, notificationSettings: null, plantNetApiKey: null, climateOverride: null };
 
     return {
       success: true,
@@ -312,10 +574,15 @@ export async function syncFromCloud(userId: string): Promise<{
         plants,
         notes,
         reminders,
-        location,
-        notificationSettings,
-        plantNetApiKey,
+        ...userSettings,
+        gardens,
+        journals,
+        diagnosisHistory,
+        shoppingList,
+        careLog,
+        tombstones,
       },
+      cursor,
     };
   } catch (error) {
     console.error('[Sync] Download error:', error);
@@ -326,6 +593,19 @@ export async function syncFromCloud(userId: string): Promise<{
   }
 }
 
+/** Profile names by user id. Best-effort: a missing name shows as "someone". */
+async function fetchDisplayNames(userIds: string[]): Promise<Map<string, string | null>> {
+  const names = new Map<string, string | null>();
+  if (userIds.length === 0) return names;
+  const { data, error } = await supabase.from('profiles').select('*').in('id', userIds);
+  if (error) {
+    console.error('[Sync] Error reading names:', error);
+    return names;
+  }
+  for (const row of (data ?? []) as DbProfile[]) names.set(row.id, row.display_name);
+  return names;
+}
+
 /**
  * Delete all user data from the cloud (for account cleanup)
  */
@@ -336,10 +616,22 @@ export async function deleteCloudData(userId: string): Promise<SyncResult> {
 
   try {
     // Delete in order to respect foreign key constraints
+    await supabase.from('care_events').delete().eq('user_id', userId);
+    await supabase.from('shopping_items').delete().eq('user_id', userId);
+    await supabase.from('diagnoses').delete().eq('user_id', userId);
+    await supabase.from('journal_entries').delete().eq('user_id', userId);
     await supabase.from('reminders').delete().eq('user_id', userId);
     await supabase.from('notes').delete().eq('user_id', userId);
     await supabase.from('plants').delete().eq('user_id', userId);
+    // Memberships in other people's gardens; members of this user's gardens go with them (cascade).
+    await supabase.from('garden_members').delete().eq('user_id', userId);
+    await supabase.from('gardens').delete().eq('user_id', userId);
     await supabase.from('user_settings').delete().eq('user_id', userId);
+    await supabase.from('sync_tombstones').delete().eq('user_id', userId);
+    await removeAllRemotePhotos(userId);
+    await AsyncStorage.removeItem(SYNC_CURSOR_KEY_PREFIX + userId);
+    await AsyncStorage.removeItem(OUTBOX_KEY_PREFIX + userId);
+    await clearPhotoQueue(userId);
 
     return { success: true };
   } catch (error) {
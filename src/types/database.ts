@@ -1,6 +1,22 @@
 // Supabase Database Types
 // These types mirror the SQL schema defined in the plan
 
+import type {
+  CareEventSource,
+  CareEventType,
+  CareTag,
+  DeferrableTask,
+  SyncRecordKind,
+  FertilizeSchedule,
+  HumidityLevel,
+  LightLevel,
+  PlantPlacement,
+  SavedDiagnosis,
+  TaskDeferral,
+  WaterMode,
+  WaterSchedule,
+} from './index';
+
 export interface DbProfile {
   id: string; // UUID from auth.users
   display_name: string | null;
@@ -16,13 +32,46 @@ export interface DbPlant {
   type_id: string;
   type_name: string;
   icon: string;
-  water_every: number;
-  sun_hours: number;
+  water_every: number | null; // deprecated — read only to upgrade rows synced before v1.3 SYNC-01
+  sun_hours: number | null; // deprecated — same
   sun_days: number[];
   outdoor_days: number[];
   last_watered: string | null; // DATE as ISO string
   sun_done_date: string | null;
   outdoor_done_date: string | null;
+  garden_id: string | null; // v1.3 GARDEN-01 — local garden id; null = home
+  temp_min: number | null;
+  temp_max: number | null;
+  humidity: HumidityLevel | null;
+  favorite: boolean | null;
+  image_url: string | null;
+  database_id: string | null;
+  photos: string | null; // JSON-encoded PlantPhoto[]
+  // v1.3 SYNC-01 — v1.1+ care fields
+  water_schedule: WaterSchedule | null;
+  light_level: LightLevel | null;
+  water_mode: WaterMode | null;
+  fertilize_schedule: FertilizeSchedule | null;
+  task_deferrals: Partial<Record<DeferrableTask, TaskDeferral>> | null;
+  placement: PlantPlacement | null;
+  last_repotted: string | null; // v1.3 HEALTH-02
+  updated_at: string; // v1.3 SYNC-02: last local write (device clock), used for conflict resolution
+  synced_at: string; // v1.3 SYNC-02: server time of the last upload, used as the pull cursor
+}
+
+// v1.3 (GARDEN-01) — extra spaces; home is implicit in user_settings.
+export interface DbGarden {
+  id: string; // UUID
+  user_id: string;
+  local_id: string;
+  name: string;
+  icon: string;
+  location_lat: number | null;
+  location_lon: number | null;
+  location_name: string | null;
+  location_country: string | null;
+  location_admin1: string | null;
+  climate_override: 'auto' | 'northern' | 'southern' | 'tropical';
   updated_at: string;
 }
 
@@ -33,6 +82,8 @@ export interface DbNote {
   date: string; // YYYY-MM-DD
   text: string;
   created_at: string;
+  updated_at: string | null; // v1.3 SYNC-02
+  synced_at: string; // v1.3 SYNC-02
 }
 
 export interface DbReminder {
@@ -43,6 +94,94 @@ export interface DbReminder {
   text: string;
   time: string; // HH:MM
   done: boolean;
+  updated_at: string | null; // v1.3 SYNC-02
+  synced_at: string; // v1.3 SYNC-02
+}
+
+// v1.3 (SYNC-02) — deletions of plants / notes / reminders, so other devices drop them too.
+export interface DbSyncTombstone {
+  id: string; // UUID
+  user_id: string;
+  kind: SyncRecordKind;
+  local_id: string;
+  deleted_at: string;
+  synced_at: string;
+  garden_id: string | null; // v1.3 HOUSE-01 — set by the server for plant tombstones
+}
+
+// v1.3 (SYNC-01) — per-plant journal entries. photo_uri is a device-local file URI;
+// photo_path (SYNC-03) is the uploaded copy in the user-photos bucket.
+export interface DbJournalEntry {
+  id: string; // UUID
+  user_id: string;
+  local_id: string;
+  plant_local_id: string;
+  date: string; // YYYY-MM-DD
+  text: string | null;
+  photo_uri: string | null;
+  photo_path: string | null;
+  care_tag: CareTag | null;
+  updated_at: string;
+}
+
+// v1.3 (SYNC-01) — saved diagnoses; the full SavedDiagnosis lives in payload.
+export interface DbDiagnosis {
+  id: string; // UUID
+  user_id: string;
+  local_id: string;
+  plant_local_id: string;
+  date: string;
+  resolved: boolean;
+  payload: SavedDiagnosis;
+  updated_at: string;
+}
+
+// v1.3 (SYNC-01)
+export interface DbShoppingItem {
+  id: string; // UUID
+  user_id: string;
+  local_id: string;
+  text: string;
+  diagnosis_id: string;
+  plant_local_id: string;
+  plant_name: string;
+  checked: boolean;
+  created_at: string;
+  updated_at: string | null; // v1.3 SYNC-02
+}
+
+// v1.3 (SYNC-01) — append-only care history.
+export interface DbCareEvent {
+  id: string; // UUID
+  user_id: string;
+  local_id: string;
+  plant_local_id: string;
+  type: CareEventType;
+  date: string; // YYYY-MM-DD
+  logged_at: string;
+  source: CareEventSource;
+  undoes: string | null;
+  done_by: string | null; // v1.3 HOUSE-01 — stamped by the server
+  synced_at: string; // v1.3 SYNC-02
+}
+
+// v1.3 (HOUSE-01) — household sharing
+export interface DbGardenMember {
+  id: string; // UUID
+  garden_id: string; // gardens.id
+  user_id: string;
+  joined_at: string;
+}
+
+export interface DbGardenInvite {
+  id: string; // UUID
+  garden_id: string; // gardens.id
+  created_by: string;
+  code: string;
+  expires_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
 }
 
 export interface DbUserSettings {
@@ -57,15 +196,26 @@ export interface DbUserSettings {
   notification_weather_alerts: boolean;
   notification_care_reminders: boolean;
   notification_morning_reminder: boolean;
+  notification_fertilize_reminders: boolean | null; // v1.3 SYNC-01
+  notification_weekly_summary: boolean | null; // v1.3 STREAK-01
   plantnet_api_key: string | null;
+  climate_override: 'auto' | 'northern' | 'southern' | 'tropical' | null; // v1.3 SYNC-01
   updated_at: string;
 }
 
 // Insert types (without auto-generated fields)
-export type DbPlantInsert = Omit<DbPlant, 'id' | 'updated_at'>;
-export type DbNoteInsert = Omit<DbNote, 'id' | 'created_at'>;
-export type DbReminderInsert = Omit<DbReminder, 'id'>;
+export type DbPlantInsert = Omit<DbPlant, 'id' | 'synced_at' | 'water_every' | 'sun_hours'>;
+export type DbGardenInsert = Omit<DbGarden, 'id' | 'updated_at'>;
+export type DbNoteInsert = Omit<DbNote, 'id' | 'created_at' | 'synced_at'>;
+export type DbReminderInsert = Omit<DbReminder, 'id' | 'synced_at'>;
+export type DbSyncTombstoneInsert = Omit<DbSyncTombstone, 'id' | 'synced_at' | 'garden_id'>;
+export type DbJournalEntryInsert = Omit<DbJournalEntry, 'id'>;
+export type DbDiagnosisInsert = Omit<DbDiagnosis, 'id'>;
+export type DbShoppingItemInsert = Omit<DbShoppingItem, 'id'>;
+export type DbCareEventInsert = Omit<DbCareEvent, 'id' | 'done_by' | 'synced_at'>;
 export type DbUserSettingsInsert = Omit<DbUserSettings, 'updated_at'>;
+export type DbGardenMemberInsert = Omit<DbGardenMember, 'id' | 'joined_at'>;
+export type DbGardenInviteInsert = Pick<DbGardenInvite, 'garden_id' | 'created_by' | 'code' | 'expires_at'>;
 
 // Cached plant knowledge from external APIs (shared across all users)
 export interface DbPlantKnowledge {
@@ -125,6 +275,12 @@ export interface Database {
         Update: Partial<Omit<DbPlant, 'id' | 'user_id'>>;
         Relationships: [];
       };
+      gardens: {
+        Row: DbGarden;
+        Insert: DbGardenInsert;
+        Update: Partial<Omit<DbGarden, 'id' | 'user_id'>>;
+        Relationships: [];
+      };
       notes: {
         Row: DbNote;
         Insert: DbNoteInsert;
@@ -137,6 +293,48 @@ export interface Database {
         Update: Partial<Omit<DbReminder, 'id' | 'user_id'>>;
         Relationships: [];
       };
+      sync_tombstones: {
+        Row: DbSyncTombstone;
+        Insert: DbSyncTombstoneInsert;
+        Update: Partial<Omit<DbSyncTombstone, 'id' | 'user_id'>>;
+        Relationships: [];
+      };
+      journal_entries: {
+        Row: DbJournalEntry;
+        Insert: DbJournalEntryInsert;
+        Update: Partial<Omit<DbJournalEntry, 'id' | 'user_id'>>;
+        Relationships: [];
+      };
+      diagnoses: {
+        Row: DbDiagnosis;
+        Insert: DbDiagnosisInsert;
+        Update: Partial<Omit<DbDiagnosis, 'id' | 'user_id'>>;
+        Relationships: [];
+      };
+      shopping_items: {
+        Row: DbShoppingItem;
+        Insert: DbShoppingItemInsert;
+        Update: Partial<Omit<DbShoppingItem, 'id' | 'user_id'>>;
+        Relationships: [];
+      };
+      care_events: {
+        Row: DbCareEvent;
+        Insert: DbCareEventInsert;
+        Update: Partial<Omit<DbCareEvent, 'id' | 'user_id'>>;
+        Relationships: [];
+      };
+      garden_members: {
+        Row: DbGardenMember;
+        Insert: DbGardenMemberInsert;
+        Update: Partial<Omit<DbGardenMember, 'id'>>;
+        Relationships: [];
+      };
+      garden_invites: {
+        Row: DbGardenInvite;
+        Insert: DbGardenInviteInsert;
+        Update: Partial<Omit<DbGardenInvite, 'id'>>;
+        Relationships: [];
+      };
       user_settings: {
         Row: DbUserSettings;
         Insert: DbUserSettingsInsert;
@@ -157,6 +355,17 @@ export interface Database {
       };
     };
     Views: {};
-    Functions: {};
+    Functions: {
+      // v1.3 (SYNC-03) — bytes used in the caller's user-photos folder.
+      photo_storage_usage: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      // v1.3 (HOUSE-01) — joins the caller to the invite's garden; returns gardens.id.
+      accept_garden_invite: {
+        Args: { invite_code: string };
+        Returns: string;
+      };
+    };
   };
 }
@@ -12,6 +12,9 @@ export interface PlantPhoto {
   uri: string;
   date: string;
   note?: string;
+  /** v1.3 (SYNC-03) — object path in the user-photos bucket once uploaded. `uri` stays the
+   *  device-local file; other devices download `remotePath` into their cache. */
+  remotePath?: string;
 }
 
 /**
@@ -37,6 +40,13 @@ export type WaterMode = 'fixed' | 'soil_check';
  */
 export type ClimateOverride = 'auto' | 'northern' | 'southern' | 'tropical';
 
+/**
+ * Where a plant physically lives (v1.3 / PLACE-01). Decides how much of the outdoor
+ * weather reaches it — see getPlacementExposure in utils/placement.ts.
+ * Missing on Plant = inferred from typeId (additive, no schema bump).
+ */
+export type PlantPlacement = 'indoor' | 'covered_balcony' | 'outdoor' | 'greenhouse';
+
 /**
  * Per-plant warm/cold watering schedule (v1.1). Replaces the single `waterEvery` field.
  * Cold interval is typically warm × per-category factor (see applyColdFactor in migration.ts).
@@ -57,6 +67,26 @@ export interface FertilizeSchedule {
   lastFertilized?: string;
 }
 
+/**
+ * v1.3 (SNOOZE-01) — a one-off deferral of a scheduled task. 'water' also covers the
+ * check_soil task (both are driven by getNextWaterDate).
+ * - 'skip'   → "skip this time": the next occurrence moves one full interval past the due day.
+ * - 'snooze' → the task comes back 1–3 days after the due day.
+ * - 'vacation' → written by rebaselineAfterVacation: occurrences missed while away are due on
+ *   the return day instead of counting as overdue (VAC-01).
+ * `anchor` is plant.lastWatered / fertilizeSchedule.lastFertilized at deferral time; a newer
+ * completion voids the deferral (see getActiveDeferral in utils/taskDeferral.ts).
+ */
+export type DeferrableTask = 'water' | 'fertilize';
+export type TaskDeferralKind = 'skip' | 'snooze' | 'vacation';
+
+export interface TaskDeferral {
+  kind: TaskDeferralKind;
+  dueDate: string; // ISO "YYYY-MM-DD" the task was due when deferred
+  until: string; // ISO "YYYY-MM-DD" the task is due again
+  anchor: string | null;
+}
+
 export interface Plant {
   id: string;
   name: string;
@@ -95,12 +125,29 @@ export interface Plant {
 
   /** v1.2 Phase 20 (FERT-01). Additive optional; absence means no fertilize task emission. */
   fertilizeSchedule?: FertilizeSchedule;
+
+  /** v1.3 (SNOOZE-01). Additive optional; at most one pending deferral per task. */
+  taskDeferrals?: Partial<Record<DeferrableTask, TaskDeferral>>;
+
+  /** v1.3 (GARDEN-01). Space the plant lives in. Absent = the home space. */
+  gardenId?: string;
+
+  /** v1.3 (PLACE-01). Stamped when the plant is added; absent = inferred from typeId. */
+  placement?: PlantPlacement;
+
+  /** v1.3 (HEALTH-02). ISO day of the last repotting; absent = unknown, never flagged as overdue. */
+  lastRepotted?: string;
+
+  /** v1.3 (SYNC-02). ISO timestamp of the last local write; absent = never edited since SYNC-02. */
+  updatedAt?: string;
 }
 
 export interface Note {
   id: string;
   text: string;
   createdAt: string;
+  /** v1.3 (SYNC-02). See Plant.updatedAt. */
+  updatedAt?: string;
 }
 
 export interface Reminder {
@@ -108,6 +155,31 @@ export interface Reminder {
   text: string;
   time: string;
   done: boolean;
+  /** v1.3 (SYNC-02). See Plant.updatedAt. */
+  updatedAt?: string;
+}
+
+/** v1.3 (SYNC-02) — record kinds whose deletions propagate across devices. */
+export type SyncRecordKind =
+  | 'plant'
+  | 'note'
+  | 'reminder'
+  // v1.3 (SYNC-02): every other synced collection needs tombstones too, or a record deleted
+  // on one device comes back from any other device that still has it.
+  | 'garden'
+  | 'journal'
+  | 'diagnosis'
+  | 'care_event'
+  | 'shopping';
+
+/**
+ * v1.3 (SYNC-02) — marker left behind when a synced record is deleted, so the other devices
+ * drop it instead of uploading it again. Pruned after TOMBSTONE_TTL_DAYS (utils/syncMerge.ts).
+ */
+export interface SyncTombstone {
+  kind: SyncRecordKind;
+  id: string;
+  deletedAt: string; // ISO timestamp
 }
 
 export interface Location {
@@ -118,10 +190,21 @@ export interface Location {
   admin1?: string;
 }
 
+/**
+ * v1.3 (I18N-02). User-facing text as an i18next key plus interpolation params. Pure
+ * generators (getTasksForDay, calculatePlantHealth, generatePlantAlerts) return these and the
+ * UI renders them with t(key, params), so the text follows the app language.
+ * scripts/check-i18n-keys.mjs verifies every key they emit exists in en and es.
+ */
+export interface LocalizedMessage {
+  key: string;
+  params?: Record<string, string | number>;
+}
+
 export interface Task {
   type: "water" | "sun" | "outdoor" | "check_soil" | "fertilize"; // FERT-03
   icon: string;
-  label: string;
+  label: LocalizedMessage;
   plantId: string;
 }
 
@@ -133,6 +216,8 @@ export interface ShoppingItem {
   plantName: string;
   checked: boolean;
   createdAt: string;
+  /** v1.3 (SYNC-02). See Plant.updatedAt. */
+  updatedAt?: string;
 }
 
 /** v1.2 Phase 21 (JOURNAL-02) — care-tag taxonomy. 6 predefined values, single-select. */
@@ -148,7 +233,82 @@ export interface JournalEntry {
   date: string;
   text?: string;
   photoUri?: string;
+  /** v1.3 (SYNC-03) — user-photos bucket path of `photoUri` once uploaded. */
+  photoRemotePath?: string;
   careTag?: CareTag;
+  /** v1.3 (SYNC-02). See Plant.updatedAt. */
+  updatedAt?: string;
+}
+
+/**
+ * v1.3 (HIST-01) — care actions recorded in the per-plant history log.
+ * 'soil_check' (ADAPT-01) = soil_check plant checked and still moist, watering skipped.
+ */
+export type CareEventType = 'water' | 'sun' | 'outdoor' | 'fertilize' | 'soil_check';
+
+/**
+ * v1.3 (HIST-01) — where a care event came from.
+ * - 'task'      → TaskButton / PlantCard tap for today
+ * - 'calendar'  → back-dated completion from DayDetailModal
+ * - 'journal'   → journal entry tagged riego / fertilizar / sol
+ * - 'undo'      → reverts an earlier event (see CareEvent.undoes)
+ * - 'migration' → seeded from the pre-log last-done dates by migrateV1toV2
+ */
+export type CareEventSource = 'task' | 'calendar' | 'journal' | 'undo' | 'migration';
+
+/**
+ * v1.3 (HIST-01) — single append-only care event. Events are never edited or removed;
+ * an undo appends a new event whose `undoes` points at the reverted event id.
+ * `date` is the ISO day the care applies to ("YYYY-MM-DD"); `timestamp` is when it was logged.
+ */
+export interface CareEvent {
+  id: string;
+  type: CareEventType;
+  date: string;
+  timestamp: string;
+  source: CareEventSource;
+  undoes?: string;
+  /** v1.3 (HOUSE-01) — someone else in a shared garden logged it. Absent = this user. */
+  by?: HouseholdPerson;
+}
+
+/**
+ * v1.3 (HOUSE-01) — another account caring for a shared garden. `name` comes from their
+ * profile; null when they never set one.
+ */
+export interface HouseholdPerson {
+  userId: string;
+  name: string | null;
+}
+
+/**
+ * v1.3 (VAC-01) — vacation mode. Dates are ISO "YYYY-MM-DD"; the user is away from
+ * `departure` (inclusive) until `returnDate` (exclusive — care resumes that day).
+ */
+export interface VacationPlan {
+  departure: string;
+  returnDate: string;
+}
+
+/**
+ * v1.3 (GARDEN-01) — a named space (balcony, office, weekend house) with its own location
+ * and climate zone. The home space is implicit: it is the top-level AppData.location /
+ * climateOverride and is never stored in `gardens`.
+ */
+export interface Garden {
+  id: string;
+  name: string;
+  icon: string;
+  /** null = same place as home (e.g. a balcony); the home location is used. */
+  location: Location | null;
+  climateOverride: ClimateOverride;
+  /**
+   * v1.3 (HOUSE-01) — set on gardens another account shared with this one. Their plants and
+   * care history sync to the owner's cloud rows; absent = this user's own garden.
+   */
+  sharedBy?: HouseholdPerson;
+  /** v1.3 (GARDEN-01). See Plant.updatedAt — a space edited on two devices keeps the newer edit. */
+  updatedAt?: string;
 }
 
 export interface AppData {
@@ -169,6 +329,20 @@ export interface AppData {
   climateOverride?: ClimateOverride;
   /** v1.2 Phase 21 (JOURNAL-01). Additive optional; absence/empty = no entries. Keyed by plant.id. */
   journals?: Record<string, JournalEntry[]>;
+  /** v1.3 (HIST-01). Append-only care history keyed by plant.id. Seeded by migrateV1toV2. */
+  careLog?: Record<string, CareEvent[]>;
+  /** v1.3 (VAC-01). Additive optional; absence/null = no trip planned. Cleared on return. */
+  vacation?: VacationPlan | null;
+  /** v1.3 (GARDEN-01). Extra spaces besides home. Defaulted to [] by migrateV2toV3. */
+  gardens?: Garden[];
+  /** v1.3 (GARDEN-01). Space shown on Today / Plants. Missing = home. */
+  activeGardenId?: string;
+  /** v1.3 (SYNC-02). Deleted plants / notes / reminders not yet expired. Additive optional. */
+  syncTombstones?: SyncTombstone[];
+  /** v1.3 (HEALTH-01). Daily health snapshots keyed by plant.id, oldest first. This device only. */
+  healthHistory?: Record<string, HealthSnapshot[]>;
+  /** v1.3 (STREAK-01). Daily task completion keyed by plant.id, oldest first. This device only. */
+  careDays?: Record<string, CareDay[]>;
 }
 
 /**
@@ -318,8 +492,8 @@ export interface WeatherData {
 export interface WeatherAlert {
   type: "frost" | "heat" | "rain" | "wind";
   icon: string;
-  title: string;
-  message: string;
+  title: LocalizedMessage;
+  message: LocalizedMessage;
   severity: "danger" | "warning" | "info";
 }
 
@@ -332,27 +506,84 @@ export interface NotificationSettings {
   careReminders: boolean;
   /** v1.2 Phase 20 (FERT-05). Default OFF; opt-in fertilize axis in morning body. */
   fertilizeReminders?: boolean;
+  /** v1.3 (STREAK-01). Default OFF; Sunday-evening summary of the week's care. */
+  weeklySummary?: boolean;
 }
 
 // Plant Health Types
 export type HealthLevel = 'excellent' | 'good' | 'warning' | 'danger';
 
-export type HealthIssueType = 'overdue_water' | 'overdue_sun' | 'no_care' | 'extreme_weather' | 'active_diagnosis';
+export type HealthIssueType =
+  | 'overdue_water'
+  | 'overdue_sun'
+  | 'no_care'
+  | 'extreme_weather'
+  | 'active_diagnosis'
+  | 'overdue_fertilize'
+  | 'tracked_problem'
+  | 'missed_follow_up'
+  | 'overdue_repot';
 
 export type HealthIssueSeverity = 'low' | 'medium' | 'high';
 
 export interface HealthIssue {
   type: HealthIssueType;
   severity: HealthIssueSeverity;
-  message: string;
+  message: LocalizedMessage;
   daysSince?: number;
 }
 
+/**
+ * v1.3 (HEALTH-02). Ids of the scoring rules in HEALTH_RULES (utils/plantHealth.ts). The
+ * weather rule is split by cause so the breakdown can say which condition cost points.
+ */
+export type HealthRuleId =
+  | 'overdue_water'
+  | 'overdue_sun'
+  | 'no_care'
+  | 'frost'
+  | 'heat'
+  | 'wind'
+  | 'rain'
+  | 'active_diagnosis'
+  | 'overdue_fertilize'
+  | 'tracked_problem'
+  | 'missed_follow_up'
+  | 'overdue_repot';
+
+/** v1.3 (HEALTH-02). Points one rule took off the score (always negative). */
+export interface HealthContribution {
+  rule: HealthRuleId;
+  points: number;
+}
+
 export interface PlantHealthStatus {
   plantId: string;
   score: number; // 0-100
   level: HealthLevel;
   issues: HealthIssue[];
+  /** v1.3 (HEALTH-02). Rules that cost points, in table order. Sums to score - 100 before clamping. */
+  breakdown: HealthContribution[];
+}
+
+/**
+ * v1.3 (HEALTH-01). One day of a plant's health — the last score computed that day. Issues
+ * keep only type + severity (messages are rebuilt on display).
+ */
+export interface HealthSnapshot {
+  date: string;
+  score: number;
+  issues: Array<Pick<HealthIssue, 'type' | 'severity'>>;
+}
+
+/**
+ * v1.3 (STREAK-01). One day of a plant's care — the task types due that day and the ones
+ * done. Feeds the care streak and the weekly summary (Features.CARE_STREAKS).
+ */
+export interface CareDay {
+  date: string;
+  due: Task['type'][];
+  done: Task['type'][];
 }
 
 // Plant Identification Types (Claude Vision)
@@ -380,8 +611,18 @@ export interface IdentificationResult {
   type: IdentificationResultType;
   results: IdentifiedPlant[];
   reason?: string; // Reason for failure or ambiguity
+  /** v1.3 (QUOTA-01): the server refused the call, the free identifications are used up. */
+  quotaExceeded?: boolean;
+  /** v1.3 (AIVAL-01): the identification payload failed validation. */
+  errorCode?: AiResponseErrorCode;
 }
 
+/**
+ * v1.3 (AIVAL-01): why an AI answer was rejected — no JSON at all, or JSON that could not be
+ * repaired. Mirrors AiValidationErrorCode in supabase/functions/_shared/aiValidation.ts.
+ */
+export type AiResponseErrorCode = 'INVALID_JSON' | 'INVALID_SHAPE';
+
 export type IdentificationState = 'idle' | 'capturing' | 'analyzing' | 'results' | 'error';
 
 // Plant Diagnosis Types (Claude Vision)
@@ -400,6 +641,8 @@ export interface DiagnosisResult {
   summary: string;
   issues: DiagnosisIssue[];
   careTips: string[];
+  /** v1.3 (PROMPT-01): prompt template the diagnosis came from, e.g. "es-AR@1". */
+  promptVersion?: string;
 }
 
 export type DiagnosisState = 'idle' | 'capturing' | 'analyzing' | 'results' | 'error';
@@ -447,6 +690,8 @@ export interface DiagnosisChatMessage {
   text: string;
   timestamp: string;
   imageUri?: string | null;
+  /** v1.3 (PROMPT-01): assistant replies only — prompt template the reply came from. */
+  promptVersion?: string;
 }
 
 export type TrackingStatus = 'watching' | 'needs_attention' | 'recovering' | 'resolved';
@@ -481,6 +726,8 @@ export interface SavedDiagnosis {
   problemSummary?: string;
   severity?: DiagnosisSeverity;
   entries?: ProblemEntry[];
+  /** v1.3 (SYNC-02). See Plant.updatedAt. */
+  updatedAt?: string;
 }
 
 // Auth & Sync Types
@@ -0,0 +1,132 @@
+/**
+ * v1.3 (ADAPT-01). Adaptive watering interval for soil_check plants.
+ *
+ * A soil_check plant's waterSchedule is only a check-in cadence; the real thirst of the
+ * plant shows up in the care log. Two signals are used:
+ *   - Closed gaps: days between two consecutive effective 'water' events.
+ *   - Skipped checks: a 'soil_check' event (soil still moist, no water) after the latest
+ *     watering proves the current gap is at least (days since watering + 1).
+ *
+ * Gaps are bucketed by the season of the watering that closes them (warm / cold; tropical
+ * maps to warm like getSeasonalInterval) so a winter habit never leaks into the summer value.
+ * The suggestion is the median of the bucket's samples — robust against one forgotten week.
+ *
+ * Pure function — no React, no async, no side effects. Season resolution is injected
+ * (seasonOf) so the math stays testable without location state.
+ */
+import type { CareEvent, Plant, WaterSeason } from '../types';
+import { parseDate, daysBetween } from './dates';
+
+/** Minimum samples before a suggestion is offered. Fewer than this is noise. */
+export const ADAPTIVE_MIN_SAMPLES = 3;
+/** Gaps longer than this are treated as vacations / forgotten plants, not thirst data. */
+export const ADAPTIVE_MAX_GAP_DAYS = 45;
+/** Same clamp as applyColdFactor in migration.ts — schedule values stay in [1, 30]. */
+const MIN_INTERVAL = 1;
+const MAX_INTERVAL = 30;
+
+export interface WaterIntervalSuggestion {
+  bucket: 'warm' | 'cold';
+  currentDays: number;
+  suggestedDays: number;
+  /** Number of closed gaps + skipped-check lower bounds that fed the median — intervals, not
+   *  check-ins (the suggestion copy counts intervals). */
+  sampleCount: number;
+  /** Skipped soil checks seen in the bucket (soil still moist at check-in). */
+  skippedChecks: number;
+}
+
+function toBucket(season: WaterSeason): 'warm' | 'cold' {
+  return season === 'cold' ? 'cold' : 'warm';
+}
+
+/** Median of a non-empty list; even-length lists average the two middle values. */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Collects interval samples (days) for one season bucket from effective care events.
+ * `events` must already be undo-filtered (getEffectiveCareEvents) — only 'water' and
+ * 'soil_check' types are read, anything else is ignored.
+ */
+export function collectIntervalSamples(
+  events: CareEvent[],
+  bucket: 'warm' | 'cold',
+  seasonOf: (date: Date) => WaterSeason
+): { samples: number[]; skippedChecks: number } {
+  const relevant = events
+    .filter(e => e.type === 'water' || e.type === 'soil_check')
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const samples: number[] = [];
+  let skippedChecks = 0;
+  let lastWater: Date | null = null;
+  let openSkipGap = 0; // longest "still moist" gap since lastWater
+
+  for (const event of relevant) {
+    const date = parseDate(event.date);
+    const inBucket = toBucket(seasonOf(date)) === bucket;
+
+    if (event.type === 'soil_check') {
+      if (!lastWater || !inBucket) continue;
+      skippedChecks += 1;
+      openSkipGap = Math.max(openSkipGap, daysBetween(lastWater, date) + 1);
+      continue;
+    }
+
+    if (lastWater && inBucket) {
+      const gap = daysBetween(lastWater, date);
+      if (gap >= MIN_INTERVAL && gap <= ADAPTIVE_MAX_GAP_DAYS) samples.push(gap);
+    }
+    lastWater = date;
+    openSkipGap = 0;
+  }
+
+  // Skips after the latest watering: the plant has not needed water yet, so the
+  // running gap is a lower bound on its real interval.
+  if (openSkipGap >= MIN_INTERVAL && openSkipGap <= ADAPTIVE_MAX_GAP_DAYS) {
+    samples.push(openSkipGap);
+  }
+
+  return { samples, skippedChecks };
+}
+
+/**
+ * Returns a suggested interval for the bucket of `season`, or null when:
+ *   - the plant is not in soil_check mode,
+ *   - there are fewer than ADAPTIVE_MIN_SAMPLES samples,
+ *   - the suggestion matches the current schedule value.
+ *
+ * @param plant      The plant (its waterSchedule is the baseline).
+ * @param events     Effective care events for this plant (getEffectiveCareEvents).
+ * @param season     Current effective season — selects the bucket to suggest for.
+ * @param seasonOf   Season resolver for past dates (getEffectiveSeason bound to location + override).
+ */
+export function suggestWaterInterval(
+  plant: Plant,
+  events: CareEvent[],
+  season: WaterSeason,
+  seasonOf: (date: Date) => WaterSeason
+): WaterIntervalSuggestion | null {
+  if (plant.waterMode !== 'soil_check') return null;
+  const bucket = toBucket(season);
+  const currentDays = plant.waterSchedule?.[bucket];
+  if (typeof currentDays !== 'number' || currentDays <= 0) return null;
+
+  const { samples, skippedChecks } = collectIntervalSamples(events, bucket, seasonOf);
+  if (samples.length < ADAPTIVE_MIN_SAMPLES) return null;
+
+  const suggestedDays = Math.max(MIN_INTERVAL, Math.min(MAX_INTERVAL, Math.round(median(samples))));
+  if (suggestedDays === currentDays) return null;
+
+  return {
+    bucket,
+    currentDays,
+    suggestedDays,
+    sampleCount: samples.length,
+    skippedChecks,
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * v1.3 (BACKUP-01). Full JSON backup of AppData — the way to move a garden to a new phone
+ * without cloud sync.
+ *
+ * A backup is one JSON file: the PersistedAppData envelope plus every local plant / journal
+ * photo as base64, keyed by its path under the document directory. The export writes it piece
+ * by piece (BACKUP_JSON_START, backupPhotoJson, backupJsonEnd), so only one photo is in memory
+ * at a time. Photo URIs inside the envelope are stored as those relative paths, because the
+ * document directory differs per install (iOS container id) — localizeBackupData turns them
+ * back into URIs on import. Only paths inside the photo folders are accepted back
+ * (isSafePhotoPath): a crafted backup cannot write anywhere else.
+ *
+ * Import always goes through toPersisted → runMigrations, so a backup written by an older
+ * app version lands on the current schema. A backup from a NEWER schema is refused rather
+ * than half-read.
+ *
+ * Merge keeps everything on this phone and adds the backup's plants (with their diagnoses,
+ * journal, care days, care and health history) that are not here yet, plus the calendar notes
+ * and reminders this phone does not have.
+ * A plant id present on both sides with different content is a conflict: the local plant
+ * wins and the id is reported back so the UI can say which plants were skipped.
+ *
+ * Pure functions — no React, no async, no side effects. File I/O lives in
+ * services/backupService.ts.
+ */
+import type { AppData, PersistedAppData, Plant } from '../types';
+import { CURRENT_SCHEMA_VERSION, isVersioned, runMigrations, toPersisted } from './migration';
+
+export const BACKUP_FORMAT = 'plant-agenda-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_FILE_PREFIX = 'plant-agenda-backup';
+/** Opens the archive JSON; the photo entries follow (backupPhotoJson), then backupJsonEnd. */
+export const BACKUP_JSON_START = '{"files":{';
+
+// Folders under the document directory holding the photos a backup carries
+// (services/photoService.ts, services/journalService.ts).
+const PHOTO_FOLDERS = ['plant-photos', 'journal'];
+
+export type BackupImportMode = 'merge' | 'replace';
+
+export type BackupErrorCode =
+  | 'invalid_json'
+  | 'not_a_backup'
+  | 'unsupported_version'
+  | 'newer_schema'
+  | 'invalid_data';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  persisted: PersistedAppData;
+  /** base64 file contents keyed by path relative to the document directory. */
+  files: Record<string, string>;
+}
+
+/** Everything in the archive but the photo contents — what buildBackupArchive returns. */
+export type BackupArchiveHead = Omit<BackupArchive, 'files'>;
+
+export type BackupParseResult =
+  | { success: true; data: AppData; files: Record<string, string>; exportedAt: string }
+  | { success: false; error: BackupErrorCode };
+
+export interface BackupConflict {
+  plantId: string;
+  /** Name of the plant kept on this phone. */
+  localName: string;
+  /** Name of the skipped plant in the backup. */
+  backupName: string;
+}
+
+export interface BackupImportResult {
+  data: AppData;
+  /** Plant ids from the backup that now exist on this phone. */
+  added: string[];
+  /** Same id on both sides with different content — the local plant was kept (merge only). */
+  conflicts: BackupConflict[];
+}
+
+// Per-plant records keyed by plant id that travel with their plant on merge.
+const PLANT_KEYED_FIELDS = ['diagnosisHistory', 'journals', 'careLog', 'healthHistory', 'careDays'] as const;
+// Calendar notes and reminders, keyed by date and merged by note / reminder id.
+const DATE_KEYED_FIELDS = ['notes', 'reminders'] as const;
+
+/** Every local photo URI the backup has to carry: plant gallery + journal photos. */
+export function collectPhotoUris(data: AppData): string[] {
+  const uris = new Set<string>();
+  for (const plant of data.plants) {
+    for (const photo of plant.photos ?? []) {
+      if (photo.uri) uris.add(photo.uri);
+    }
+  }
+  for (const entries of Object.values(data.journals ?? {})) {
+    for (const entry of entries) {
+      if (entry.photoUri) uris.add(entry.photoUri);
+    }
+  }
+  return [...uris];
+}
+
+/** Rewrites every plant / journal photo URI through `fn` (same object when nothing changes). */
+export function mapPhotoUris(data: AppData, fn: (uri: string) => string): AppData {
+  const plants = data.plants.map(plant => {
+    if (!plant.photos || plant.photos.length === 0) return plant;
+    return { ...plant, photos: plant.photos.map(photo => ({ ...photo, uri: fn(photo.uri) })) };
+  });
+  const journals = data.journals
+    ? Object.fromEntries(
+        Object.entries(data.journals).map(([plantId, entries]) => [
+          plantId,
+          entries.map(entry => (entry.photoUri ? { ...entry, photoUri: fn(entry.photoUri) } : entry)),
+        ])
+      )
+    : data.journals;
+  return { ...data, plants, journals };
+}
+
+/** Path of a file under the document directory, or null for anything else (remote URLs, cache). */
+export function toArchivePath(uri: string, documentUri: string): string | null {
+  if (!uri.startsWith(documentUri)) return null;
+  const path = uri.slice(documentUri.length);
+  return path.length > 0 ? path : null;
+}
+
+/**
+ * Whether a photo path from a backup may be written under the document directory: relative,
+ * inside one of the photo folders, with no `..`, `.` or empty segments.
+ */
+export function isSafePhotoPath(path: string): boolean {
+  if (path.startsWith('/') || path.includes('\\') || path.includes(':')) return false;
+  const segments = path.split('/');
+  return (
+    segments.length > 1 &&
+    PHOTO_FOLDERS.includes(segments[0]) &&
+    segments.every(segment => segment !== '' && segment !== '.' && segment !== '..')
+  );
+}
+
+/**
+ * Photo files under the document directory that `before` references and `after` does not —
+ * what a replace import leaves behind.
+ */
+export function unreferencedPhotoUris(before: AppData, after: AppData, documentUri: string): string[] {
+  const kept = new Set(collectPhotoUris(after));
+  return collectPhotoUris(before).filter(uri => !kept.has(uri) && toArchivePath(uri, documentUri) !== null);
+}
+
+/**
+ * Builds the archive head from the current AppData and the paths (by toArchivePath) of the
+ * photos the caller wrote into the file. The PlantNet API key is a per-device secret and never
+ * leaves the phone.
+ */
+export function buildBackupArchive(
+  data: AppData,
+  photos: string[],
+  documentUri: string,
+  exportedAt: Date
+): BackupArchiveHead {
+  const packaged = new Set(photos);
+  const portable = mapPhotoUris(data, uri => {
+    const path = toArchivePath(uri, documentUri);
+    return path !== null && packaged.has(path) ? path : uri;
+  });
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    persisted: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      data: { ...portable, plantNetApiKey: null },
+    },
+  };
+}
+
+/** One `files` entry; `index` is its position, so every entry after the first gets a comma. */
+export function backupPhotoJson(path: string, base64: string, index: number): string {
+  return `${index > 0 ? ',' : ''}${JSON.stringify(path)}:${JSON.stringify(base64)}`;
+}
+
+/** Closes `files` and the archive with the head, once the photos that made it in are known. */
+export function backupJsonEnd(head: BackupArchiveHead): string {
+  return `},${JSON.stringify(head).slice(1)}`;
+}
+
+/**
+ * Archive-relative photo paths become URIs under this install's document directory. Only
+ * packaged paths that pass isSafePhotoPath are mapped.
+ */
+export function localizeBackupData(data: AppData, files: Record<string, string>, documentUri: string): AppData {
+  return mapPhotoUris(data, uri => (uri in files && isSafePhotoPath(uri) ? `${documentUri}${uri}` : uri));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidPlant(value: unknown): value is Plant {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string';
+}
+
+/**
+ * Validates a backup file and migrates its envelope to the current schema. Never throws —
+ * a malformed file is reported with an error code the UI can translate.
+ */
+export function parseBackupArchive(text: string): BackupParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'invalid_json' };
+  }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT || !isRecord(raw.persisted)) {
+    return { success: false, error: 'not_a_backup' };
+  }
+  if (typeof raw.formatVersion !== 'number' || raw.formatVersion > BACKUP_FORMAT_VERSION) {
+    return { success: false, error: 'unsupported_version' };
+  }
+  if (isVersioned(raw.persisted) && raw.persisted.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { success: false, error: 'newer_schema' };
+  }
+
+  const persisted = toPersisted(raw.persisted);
+  if (!isRecord(persisted.data) || !Array.isArray(persisted.data.plants) || !persisted.data.plants.every(isValidPlant)) {
+    return { success: false, error: 'invalid_data' };
+  }
+  for (const field of [...PLANT_KEYED_FIELDS, ...DATE_KEYED_FIELDS]) {
+    const value = (persisted.data as unknown as Record<string, unknown>)[field];
+    if (value !== undefined && !isRecord(value)) return { success: false, error: 'invalid_data' };
+  }
+  const files = isRecord(raw.files)
+    ? Object.fromEntries(
+        Object.entries(raw.files).filter(([path, v]) => typeof v === 'string' && isSafePhotoPath(path))
+      ) as Record<string, string>
+    : {};
+
+  let data: AppData;
+  try {
+    data = runMigrations(persisted);
+  } catch {
+    return { success: false, error: 'invalid_data' };
+  }
+  return {
+    success: true,
+    data,
+    files,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+  };
+}
+
+function pickPlantRecords<T>(
+  record: Record<string, T> | undefined,
+  plantIds: Set<string>
+): Record<string, T> {
+  if (!record) return {};
+  return Object.fromEntries(Object.entries(record).filter(([plantId]) => plantIds.has(plantId)));
+}
+
+/**
+ * Date-keyed notes / reminders: every local entry stays; backup entries whose id is not on
+ * this phone (under any date) join the list of their date.
+ */
+function mergeDatedById<T extends { id: string }>(
+  local: Record<string, T[]>,
+  backup: Record<string, T[]> | undefined
+): Record<string, T[]> {
+  const localIds = new Set(Object.values(local).flat().map(item => item.id));
+  const out: Record<string, T[]> = { ...local };
+  for (const [date, items] of Object.entries(backup ?? {})) {
+    const added = items.filter(item => !localIds.has(item.id));
+    if (added.length > 0) out[date] = [...(local[date] ?? []), ...added];
+  }
+  return out;
+}
+
+/**
+ * Applies an imported backup to the data on this phone.
+ *
+ * - 'replace': the backup wins wholesale. The local PlantNet key stays (it is never
+ *   exported) and the AI usage counters keep the higher value, so a restore cannot be used
+ *   to reset the free quota.
+ * - 'merge': see the file header.
+ */
+export function applyBackup(local: AppData, backup: AppData, mode: BackupImportMode): BackupImportResult {
+  if (mode === 'replace') {
+    return {
+      data: {
+        ...backup,
+        plantNetApiKey: local.plantNetApiKey,
+        identificationCount: Math.max(local.identificationCount ?? 0, backup.identificationCount ?? 0),
+        diagnosisCount: Math.max(local.diagnosisCount ?? 0, backup.diagnosisCount ?? 0),
+        onboardingCompleted: local.onboardingCompleted || backup.onboardingCompleted,
+      },
+      added: backup.plants.map(p => p.id),
+      conflicts: [],
+    };
+  }
+
+  const localById = new Map(local.plants.map(p => [p.id, p]));
+  const newPlants: Plant[] = [];
+  const conflicts: BackupConflict[] = [];
+  for (const plant of backup.plants) {
+    const existing = localById.get(plant.id);
+    if (!existing) {
+      newPlants.push(plant);
+    } else if (JSON.stringify(existing) !== JSON.stringify(plant)) {
+      conflicts.push({ plantId: plant.id, localName: existing.name, backupName: plant.name });
+    }
+  }
+  const newIds = new Set(newPlants.map(p => p.id));
+
+  // Spaces: keep local ones, add the backup's unknown ids. Added plants pointing at a space
+  // that exists on neither side land home (mirrors dropDanglingGardenIds).
+  const localGardens = local.gardens ?? [];
+  const localGardenIds = new Set(localGardens.map(g => g.id));
+  const gardens = [...localGardens, ...(backup.gardens ?? []).filter(g => !localGardenIds.has(g.id))];
+  const gardenIds = new Set(gardens.map(g => g.id));
+  const addedPlants = newPlants.map(p => {
+    if (p.gardenId === undefined || gardenIds.has(p.gardenId)) return p;
+    const { gardenId: _removed, ...rest } = p;
+    return rest;
+  });
+
+  const localShoppingIds = new Set((local.shoppingList ?? []).map(i => i.id));
+  const shoppingList = [
+    ...(local.shoppingList ?? []),
+    ...(backup.shoppingList ?? []).filter(i => newIds.has(i.plantId) && !localShoppingIds.has(i.id)),
+  ];
+
+  return {
+    data: {
+      ...local,
+      plants: [...local.plants, ...addedPlants],
+      notes: mergeDatedById(local.notes, backup.notes),
+      reminders: mergeDatedById(local.reminders, backup.reminders),
+      diagnosisHistory: { ...pickPlantRecords(backup.diagnosisHistory, newIds), ...local.diagnosisHistory },
+      journals: { ...pickPlantRecords(backup.journals, newIds), ...(local.journals ?? {}) },
+      careLog: { ...pickPlantRecords(backup.careLog, newIds), ...(local.careLog ?? {}) },
+      healthHistory: { ...pickPlantRecords(backup.healthHistory, newIds), ...(local.healthHistory ?? {}) },
+      careDays: { ...pickPlantRecords(backup.careDays, newIds), ...(local.careDays ?? {}) },
+      shoppingList,
+      gardens,
+    },
+    added: [...newIds],
+    conflicts,
+  };
+}
+
+/** File name for an export made on `date`, e.g. plant-agenda-backup-2026-10-18.json. */
+export function getBackupFileName(date: string): string {
+  return `${BACKUP_FILE_PREFIX}-${date}.json`;
+}
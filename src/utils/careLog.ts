@@ -0,0 +1,100 @@
+/**
+ * v1.3 (HIST-01). Append-only care history helpers.
+ *
+ * Every task completion appends a CareEvent to AppData.careLog[plantId]. Nothing is ever
+ * rewritten or removed: an undo (sun/outdoor toggle-off) appends an event with
+ * source 'undo' whose `undoes` field points at the reverted event. Readers that want
+ * "what actually happened" go through getEffectiveCareEvents, which drops both halves
+ * of every undo pair.
+ *
+ * Plant.lastWatered / sunDoneDate / fertilizeSchedule.lastFertilized stay the source of
+ * truth for scheduling — the log is history, not state.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { CareEvent, CareEventSource, CareEventType, CareTag } from '../types';
+
+/**
+ * Builds a new event. `date` is the ISO day the care applies to; `timestamp` is now.
+ * Ids follow the app-wide Date.now() convention plus a short random suffix, because a
+ * single tap can append more than one event inside the same millisecond.
+ */
+export function createCareEvent(
+  type: CareEventType,
+  date: string,
+  source: CareEventSource,
+  undoes?: string
+): CareEvent {
+  const event: CareEvent = {
+    id: `${Date.now().toString()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    date,
+    timestamp: new Date().toISOString(),
+    source,
+  };
+  if (undoes) event.undoes = undoes;
+  return event;
+}
+
+/** Returns a new log map with `event` appended to the plant's list. Never mutates `log`. */
+export function appendCareEvent(
+  log: Record<string, CareEvent[]>,
+  plantId: string,
+  event: CareEvent
+): Record<string, CareEvent[]> {
+  return { ...log, [plantId]: [...(log[plantId] || []), event] };
+}
+
+/**
+ * Drops undo events and the events they revert. Result is sorted by care date, then by
+ * log timestamp, oldest first.
+ */
+export function getEffectiveCareEvents(events: CareEvent[] | undefined, type?: CareEventType): CareEvent[] {
+  if (!events || events.length === 0) return [];
+  const undone = new Set<string>();
+  for (const e of events) {
+    if (e.source === 'undo' && e.undoes) undone.add(e.undoes);
+  }
+  return events
+    .filter(e => e.source !== 'undo' && !undone.has(e.id))
+    .filter(e => !type || e.type === type)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Latest effective event of `type`, optionally restricted to one care date.
+ * Used by the toggle-off paths to find which event an undo should point at.
+ */
+export function findLastCareEvent(
+  events: CareEvent[] | undefined,
+  type: CareEventType,
+  date?: string
+): CareEvent | null {
+  const effective = getEffectiveCareEvents(events, type).filter(e => !date || e.date === date);
+  return effective.length > 0 ? effective[effective.length - 1] : null;
+}
+
+/**
+ * Journal care tags that describe a care action. 'poda' / 'problema' / 'otro' have no
+ * scheduled counterpart and are not logged.
+ */
+export function careTagToEventType(tag: CareTag | undefined): CareEventType | null {
+  switch (tag) {
+    case 'riego':
+      return 'water';
+    case 'fertilizar':
+      return 'fertilize';
+    case 'sol':
+      return 'sun';
+    default:
+      return null;
+  }
+}
+
+/**
+ * v1.3 (HOUSE-01). Effective care someone else in a shared garden logged for `date` — shown
+ * next to the day's tasks so nobody waters twice.
+ */
+export function careByOthersOn(events: CareEvent[] | undefined, date: string): CareEvent[] {
+  return getEffectiveCareEvents(events).filter(e => e.date === date && e.by);
+}
@@ -0,0 +1,211 @@
+/**
+ * v1.3 (STREAK-01). Daily care completion — per plant, the task types due on a day and the
+ * ones done — feeding the care streak and the weekly summary behind Features.CARE_STREAKS.
+ *
+ * getTasksForDay decides what is due. A finished watering or fertilizing drops out of it (the
+ * next date moves forward), so recordCareDays keeps every task type it has seen due that day
+ * and recomputes which of them are done from the plant, with the same checks as the
+ * calendar's day detail, plus a same-day soil check-in for check_soil. A recorded type leaves
+ * `due` again once the task is skipped or snoozed past the day. Like health snapshots, only
+ * the plants of the space on screen are recorded, and records older than CARE_HISTORY_DAYS are
+ * dropped on the next write.
+ *
+ * A day counts toward the streak when everything due was done. Days without a record (app
+ * not opened, nothing due, on a trip) neither count nor break it: the streak only speaks
+ * about days we know of, it never guesses at missed ones (GAM-05). Today only counts once it
+ * is complete — an unfinished today does not end the streak before the day is over.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { CareDay, CareEvent, DeferrableTask, Plant, Task } from '../types';
+import type { WaterSeason } from './seasonality';
+import { addDays, formatDate, parseDate } from './dates';
+import { getTasksForDay } from './plantLogic';
+import { findLastCareEvent } from './careLog';
+import { getActiveDeferral, isDeferralPending } from './taskDeferral';
+
+/** Care records are kept for a year, so the longest streak can look back that far. */
+export const CARE_HISTORY_DAYS = 365;
+/** Days covered by the weekly summary, ending on its last day. */
+export const WEEKLY_SUMMARY_DAYS = 7;
+
+type CareTaskType = Task['type'];
+
+// Stable order for stored task types, so an unchanged day compares equal.
+const TASK_ORDER: CareTaskType[] = ['water', 'check_soil', 'sun', 'outdoor', 'fertilize'];
+
+export interface CareStreaks {
+  /** Complete days in a row up to the latest recorded day (today only once it is complete). */
+  current: number;
+  /** Longest run of complete days in the kept history. */
+  longest: number;
+}
+
+export interface PlantWeekSummary {
+  plantId: string;
+  due: number;
+  done: number;
+}
+
+export interface WeeklyCareSummary {
+  /** First and last ISO day covered, both inclusive. */
+  from: string;
+  until: string;
+  due: number;
+  done: number;
+  /** Plants with something due in the week, in the order they were asked for. */
+  plants: PlantWeekSummary[];
+}
+
+/**
+ * Whether `plant` shows `type` as done on `date` (ISO day). `events` is the plant's care log:
+ * a soil check-in that found the soil still moist completes check_soil without a watering.
+ */
+export function isTaskDoneOn(type: CareTaskType, plant: Plant, date: string, events?: CareEvent[]): boolean {
+  switch (type) {
+    case 'water':
+      return plant.lastWatered === date;
+    case 'check_soil':
+      return plant.lastWatered === date || findLastCareEvent(events, 'soil_check', date) !== null;
+    case 'sun':
+      return plant.sunDoneDate === date;
+    case 'outdoor':
+      return plant.outdoorDoneDate === date;
+    case 'fertilize':
+      return plant.fertilizeSchedule?.lastFertilized === date;
+  }
+}
+
+// Task types a skip / snooze covers (check_soil is deferred as 'water').
+function deferralTask(type: CareTaskType): DeferrableTask | null {
+  if (type === 'water' || type === 'check_soil') return 'water';
+  return type === 'fertilize' ? 'fertilize' : null;
+}
+
+/** Whether `type` was skipped or snoozed over `date` — no longer due that day. */
+function isDeferredOn(type: CareTaskType, plant: Plant, date: string): boolean {
+  const task = deferralTask(type);
+  return task !== null && isDeferralPending(getActiveDeferral(plant, task), parseDate(date));
+}
+
+function sameCareDay(a: CareDay, b: CareDay): boolean {
+  return a.date === b.date && a.due.join() === b.due.join() && a.done.join() === b.done.join();
+}
+
+/**
+ * Stores `day` as its date's entry (replacing an earlier one that day) and drops entries older
+ * than CARE_HISTORY_DAYS. Returns `history` itself when nothing changed.
+ */
+export function recordCareDay(history: CareDay[] | undefined, day: CareDay): CareDay[] {
+  const current = history ?? [];
+  const cutoff = formatDate(addDays(parseDate(day.date), -(CARE_HISTORY_DAYS - 1)));
+  const existing = current.find(d => d.date === day.date);
+  const expired = current.some(d => d.date < cutoff);
+  if (existing && sameCareDay(existing, day) && !expired && history) return history;
+
+  const next = current.filter(d => d.date >= cutoff && d.date !== day.date);
+  next.push(day);
+  next.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  return next;
+}
+
+/**
+ * Records `date` for every plant with something due: the task types due now plus the ones
+ * already recorded as due that day (minus those skipped or snoozed since), and which of them
+ * the plant shows as done. Returns `history` itself when nothing changed, so callers can skip
+ * the save.
+ */
+export function recordCareDays(
+  history: Record<string, CareDay[]>,
+  plants: Plant[],
+  date: string,
+  season: WaterSeason,
+  careLog: Record<string, CareEvent[]> = {}
+): Record<string, CareDay[]> {
+  const dueNow = new Map<string, Set<CareTaskType>>();
+  for (const task of getTasksForDay(plants, parseDate(date), season)) {
+    const types = dueNow.get(task.plantId) ?? new Set<CareTaskType>();
+    types.add(task.type);
+    dueNow.set(task.plantId, types);
+  }
+
+  let next = history;
+  for (const plant of plants) {
+    const before = history[plant.id];
+    const recorded = before?.find(d => d.date === date);
+    const types = new Set([...(recorded?.due ?? []), ...(dueNow.get(plant.id) ?? [])]);
+    if (types.size === 0) continue;
+    const due = TASK_ORDER.filter(type => types.has(type) && !isDeferredOn(type, plant, date));
+    if (due.length === 0 && !recorded) continue;
+    const done = due.filter(type => isTaskDoneOn(type, plant, date, careLog[plant.id]));
+    const after = recordCareDay(before, { date, due, done });
+    if (after === before) continue;
+    if (next === history) next = { ...history };
+    next[plant.id] = after;
+  }
+  return next;
+}
+
+/** Due / done task counts per recorded day across `plantIds` (every plant when omitted). */
+function totalsByDay(
+  history: Record<string, CareDay[]>,
+  plantIds?: string[]
+): Map<string, { due: number; done: number }> {
+  const totals = new Map<string, { due: number; done: number }>();
+  for (const plantId of plantIds ?? Object.keys(history)) {
+    for (const day of history[plantId] ?? []) {
+      const total = totals.get(day.date) ?? { due: 0, done: 0 };
+      total.due += day.due.length;
+      total.done += day.done.length;
+      totals.set(day.date, total);
+    }
+  }
+  return totals;
+}
+
+/** Current and longest run of complete days across every plant, as of `today` (ISO day). */
+export function getCareStreaks(history: Record<string, CareDay[]>, today: string): CareStreaks {
+  const days = [...totalsByDay(history)]
+    .filter(([date, total]) => date <= today && total.due > 0)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  let run = 0;
+  let longest = 0;
+  for (const [date, total] of days) {
+    const complete = total.done >= total.due;
+    if (complete) {
+      run += 1;
+      longest = Math.max(longest, run);
+    } else if (date !== today) {
+      run = 0;
+    }
+  }
+  return { current: run, longest };
+}
+
+/** Tasks due and done per plant over the WEEKLY_SUMMARY_DAYS ending on `until` (ISO day). */
+export function getWeeklyCareSummary(
+  history: Record<string, CareDay[]>,
+  plantIds: string[],
+  until: string
+): WeeklyCareSummary {
+  const from = formatDate(addDays(parseDate(until), -(WEEKLY_SUMMARY_DAYS - 1)));
+  const plants: PlantWeekSummary[] = [];
+  for (const plantId of plantIds) {
+    let due = 0;
+    let done = 0;
+    for (const day of history[plantId] ?? []) {
+      if (day.date < from || day.date > until) continue;
+      due += day.due.length;
+      done += day.done.length;
+    }
+    if (due > 0) plants.push({ plantId, due, done });
+  }
+  return {
+    from,
+    until,
+    due: plants.reduce((sum, p) => sum + p.due, 0),
+    done: plants.reduce((sum, p) => sum + p.done, 0),
+    plants,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * v1.3 (GARDEN-01). Multiple gardens / spaces.
+ *
+ * The home space is virtual: HOME_GARDEN_ID resolves to the top-level AppData.location and
+ * climateOverride, so single-space users (and every plant without a gardenId) keep working
+ * exactly as before. Extra spaces live in AppData.gardens.
+ *
+ * resolveGardenContext is the per-space input to getEffectiveSeason and useWeather. A space
+ * without its own location and with climate 'auto' behaves exactly like home — that is the
+ * "balcony in the same city" case.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { ClimateOverride, Garden, Location, Plant, WaterSeason, WeatherData } from '../types';
+import { getEffectiveSeason } from './seasonality';
+
+export const HOME_GARDEN_ID = 'home';
+/** Longest space name the editor accepts. */
+export const GARDEN_NAME_MAX_LENGTH = 30;
+export const GARDEN_ICON_OPTIONS = ['🏡', '🌇', '🏢', '🌳', '🏕️', '🪴'] as const;
+
+export interface GardenContext {
+  location: Location | null;
+  climateOverride: ClimateOverride;
+}
+
+/** Space id a plant belongs to — plants without one (pre-v1.3, or flag off) are home. */
+export function getPlantGardenId(plant: Plant): string {
+  return plant.gardenId ?? HOME_GARDEN_ID;
+}
+
+export function filterPlantsByGarden(plants: Plant[], gardenId: string): Plant[] {
+  return plants.filter(p => getPlantGardenId(p) === gardenId);
+}
+
+/**
+ * Location + climate override for a space. Unknown ids (deleted space, stale
+ * activeGardenId) fall back to home.
+ */
+export function resolveGardenContext(
+  gardenId: string | undefined,
+  gardens: Garden[],
+  home: GardenContext
+): GardenContext {
+  const garden = gardenId && gardenId !== HOME_GARDEN_ID ? gardens.find(g => g.id === gardenId) : undefined;
+  if (!garden) return home;
+  if (!garden.location && garden.climateOverride === 'auto') return home;
+  return {
+    location: garden.location ?? home.location,
+    climateOverride: garden.climateOverride,
+  };
+}
+
+/** The plants of one space with that space's season and weather (see groupPlantsBySpace). */
+export interface SpaceConditions {
+  gardenId: string;
+  plants: Plant[];
+  context: GardenContext;
+  season: WaterSeason;
+  /** null until the place's forecast loads (or when it has no location). */
+  weather: WeatherData | null;
+}
+
+/**
+ * Plants grouped by space, each group with its own season and weather, for app-wide work
+ * (notifications, daily snapshots) that covers every plant whatever space is on screen.
+ * Spaces come in first-plant order; spaces without plants are left out.
+ */
+export function groupPlantsBySpace(
+  plants: Plant[],
+  gardens: Garden[],
+  home: GardenContext,
+  date: Date,
+  weatherFor: (location: Location | null) => WeatherData | null
+): SpaceConditions[] {
+  const byGarden = new Map<string, Plant[]>();
+  for (const plant of plants) {
+    const gardenId = getPlantGardenId(plant);
+    byGarden.set(gardenId, [...(byGarden.get(gardenId) ?? []), plant]);
+  }
+  return [...byGarden].map(([gardenId, spacePlants]) => {
+    const context = resolveGardenContext(gardenId, gardens, home);
+    return {
+      gardenId,
+      plants: spacePlants,
+      context,
+      season: getEffectiveSeason(context.location, context.climateOverride, date),
+      weather: weatherFor(context.location),
+    };
+  });
+}
+
+export function createGarden(
+  name: string,
+  icon: string,
+  location: Location | null,
+  climateOverride: ClimateOverride
+): Garden {
+  return {
+    id: `garden-${Date.now()}`,
+    name: name.trim().slice(0, GARDEN_NAME_MAX_LENGTH),
+    icon,
+    location,
+    climateOverride,
+  };
+}
+
+/**
+ * Plants of a deleted space move back home (same object for every other plant). Care
+ * history, journals and diagnoses are keyed by plant id, so nothing else has to move.
+ */
+export function reassignPlantsFromGarden(plants: Plant[], gardenId: string): Plant[] {
+  return plants.map(p => {
+    if (p.gardenId !== gardenId) return p;
+    const { gardenId: _removed, ...rest } = p;
+    return rest;
+  });
+}
+
+/** Drops gardenIds that point at no space (sync from an older device, partial restore). */
+export function dropDanglingGardenIds(plants: Plant[], gardens: Garden[]): Plant[] {
+  const known = new Set(gardens.map(g => g.id));
+  return plants.map(p => {
+    if (p.gardenId === undefined || known.has(p.gardenId)) return p;
+    const { gardenId: _removed, ...rest } = p;
+    return rest;
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * v1.3 (HEALTH-01). Health score history — one snapshot per plant per day, so the health
+ * detail can show whether a plant is slowly declining or recovering.
+ *
+ * calculatePlantHealth still computes the current score on the fly. Whenever Today computes
+ * it, recordHealthSnapshots stores the result for the day (the last computation of the day
+ * wins, so a watering in the evening shows up as a better day). Days the app was not opened
+ * have no snapshot; charts leave a gap instead of inventing a score. Snapshots older than
+ * HEALTH_HISTORY_DAYS are dropped on the next write.
+ *
+ * Trend charts group the range into at most HEALTH_TREND_MAX_BUCKETS columns (1 day per
+ * column for 30 days, 3 for 90, 13 for 365), each the average of its snapshots.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { HealthSnapshot, PlantHealthStatus } from '../types';
+import { addDays, formatDate, parseDate } from './dates';
+
+/** Snapshots are kept for a year. */
+export const HEALTH_HISTORY_DAYS = 365;
+export const HEALTH_TREND_RANGES = [30, 90, 365] as const;
+export type HealthTrendRange = (typeof HEALTH_TREND_RANGES)[number];
+/** Most columns a trend chart draws; longer ranges average several days per column. */
+export const HEALTH_TREND_MAX_BUCKETS = 30;
+/** Score change (points) under which a trend counts as stable. */
+export const HEALTH_TREND_FLAT_POINTS = 5;
+
+export interface HealthTrendBucket {
+  /** First and last ISO day of the column, both inclusive. */
+  start: string;
+  end: string;
+  /** Average score of the snapshots in the column; null when there are none. */
+  score: number | null;
+}
+
+export type HealthTrendDirection = 'up' | 'down' | 'flat';
+
+export interface HealthTrendSummary {
+  direction: HealthTrendDirection;
+  /** Last score minus first score in the range. */
+  change: number;
+}
+
+export function toHealthSnapshot(status: PlantHealthStatus, date: string): HealthSnapshot {
+  return {
+    date,
+    score: status.score,
+    issues: status.issues.map(issue => ({ type: issue.type, severity: issue.severity })),
+  };
+}
+
+function sameSnapshot(a: HealthSnapshot, b: HealthSnapshot): boolean {
+  return a.date === b.date && a.score === b.score && JSON.stringify(a.issues) === JSON.stringify(b.issues);
+}
+
+/**
+ * Stores `snapshot` as its day's entry (replacing an earlier one that day) and drops entries
+ * older than HEALTH_HISTORY_DAYS. Returns `history` itself when nothing changed, so callers
+ * can skip the save.
+ */
+export function recordHealthSnapshot(
+  history: HealthSnapshot[] | undefined,
+  snapshot: HealthSnapshot
+): HealthSnapshot[] {
+  const current = history ?? [];
+  const cutoff = formatDate(addDays(parseDate(snapshot.date), -(HEALTH_HISTORY_DAYS - 1)));
+  const existing = current.find(s => s.date === snapshot.date);
+  const expired = current.some(s => s.date < cutoff);
+  if (existing && sameSnapshot(existing, snapshot) && !expired && history) return history;
+
+  const next = current.filter(s => s.date >= cutoff && s.date !== snapshot.date);
+  next.push(snapshot);
+  next.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  return next;
+}
+
+/** recordHealthSnapshot for every status. Returns `history` itself when nothing changed. */
+export function recordHealthSnapshots(
+  history: Record<string, HealthSnapshot[]>,
+  statuses: PlantHealthStatus[],
+  date: string
+): Record<string, HealthSnapshot[]> {
+  let next = history;
+  for (const status of statuses) {
+    const before = history[status.plantId];
+    const after = recordHealthSnapshot(before, toHealthSnapshot(status, date));
+    if (after === before) continue;
+    if (next === history) next = { ...history };
+    next[status.plantId] = after;
+  }
+  return next;
+}
+
+function bucketize(daily: Map<string, number>, range: HealthTrendRange, today: Date): HealthTrendBucket[] {
+  const bucketDays = Math.ceil(range / HEALTH_TREND_MAX_BUCKETS);
+  const count = Math.ceil(range / bucketDays);
+  const buckets: HealthTrendBucket[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const endDate = addDays(today, -i * bucketDays);
+    const startDate = addDays(endDate, -(bucketDays - 1));
+    const start = formatDate(startDate);
+    const end = formatDate(endDate);
+    const scores: number[] = [];
+    for (let d = startDate; formatDate(d) <= end; d = addDays(d, 1)) {
+      const score = daily.get(formatDate(d));
+      if (score !== undefined) scores.push(score);
+    }
+    buckets.push({
+      start,
+      end,
+      score: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+    });
+  }
+  return buckets;
+}
+
+/** One plant's trend over the last `range` days, oldest column first. */
+export function getHealthTrend(
+  history: HealthSnapshot[] | undefined,
+  range: HealthTrendRange,
+  today: Date
+): HealthTrendBucket[] {
+  return bucketize(new Map((history ?? []).map(s => [s.date, s.score])), range, today);
+}
+
+/**
+ * Trend of a group of plants: each day is the average of the plants that have a snapshot
+ * that day, so a plant added last week does not drag the earlier days down.
+ */
+export function getGardenHealthTrend(
+  history: Record<string, HealthSnapshot[]>,
+  plantIds: string[],
+  range: HealthTrendRange,
+  today: Date
+): HealthTrendBucket[] {
+  const sums = new Map<string, { total: number; count: number }>();
+  for (const plantId of plantIds) {
+    for (const snapshot of history[plantId] ?? []) {
+      const day = sums.get(snapshot.date) ?? { total: 0, count: 0 };
+      day.total += snapshot.score;
+      day.count += 1;
+      sums.set(snapshot.date, day);
+    }
+  }
+  const daily = new Map([...sums].map(([date, { total, count }]) => [date, total / count]));
+  return bucketize(daily, range, today);
+}
+
+/** First vs last column with data. Null when fewer than two columns have data. */
+export function summarizeHealthTrend(buckets: HealthTrendBucket[]): HealthTrendSummary | null {
+  const scores = buckets.map(b => b.score).filter((s): s is number => s !== null);
+  if (scores.length < 2) return null;
+  const change = scores[scores.length - 1] - scores[0];
+  const direction: HealthTrendDirection =
+    Math.abs(change) < HEALTH_TREND_FLAT_POINTS ? 'flat' : change > 0 ? 'up' : 'down';
+  return { direction, change };
+}
+
+/** Index of the column containing `date` (ISO day or timestamp), or -1 outside the range. */
+export function findTrendBucket(buckets: HealthTrendBucket[], date: string): number {
+  const day = date.slice(0, 10);
+  return buckets.findIndex(b => b.start <= day && day <= b.end);
+}
@@ -0,0 +1,109 @@
+/**
+ * v1.3 (HOUSE-01). Household sharing — co-caretakers on the same garden.
+ *
+ * An owner shares one of their gardens (never home) with an invite code; whoever redeems it
+ * sees the garden, its plants and their care history, and can water, edit and add plants
+ * there. Shared records stay in the owner's cloud rows (supabase/migrations/
+ * 009_household_sharing.sql): on a member's phone the garden carries `sharedBy`, and every
+ * upload of its plants, care events and plant photos goes to the owner's user id.
+ *
+ * Journal entries, diagnoses, notes and settings are never shared — each person keeps their
+ * own notification settings and reminders for the same plants.
+ *
+ * Pure functions — no React, no Supabase. Network calls live in services/householdService.ts.
+ */
+import type { Garden, Plant } from '../types';
+
+/** Invite codes skip look-alike characters (0/O, 1/I/L) — they are read out loud and typed. */
+export const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const INVITE_CODE_LENGTH = 8;
+export const INVITE_TTL_DAYS = 7;
+
+export type HouseholdError =
+  | 'not_signed_in'
+  | 'invalid_code'
+  | 'invite_not_found'
+  | 'invite_used'
+  | 'invite_expired'
+  | 'own_garden'
+  | 'too_many_attempts'
+  | 'garden_not_synced'
+  | 'network'
+  | 'unknown';
+
+const SERVER_ERRORS: HouseholdError[] = ['invite_not_found', 'invite_used', 'invite_expired', 'own_garden', 'too_many_attempts'];
+
+/**
+ * A code grants write access to someone's garden, so `randomBytes` must be a cryptographic
+ * source (expo-crypto getRandomBytes in householdService). Bytes past the last whole multiple
+ * of the alphabet size are dropped, so every character is equally likely.
+ */
+export function generateInviteCode(randomBytes: (count: number) => Uint8Array): string {
+  const size = INVITE_CODE_ALPHABET.length;
+  const limit = 256 - (256 % size);
+  let code = '';
+  while (code.length < INVITE_CODE_LENGTH) {
+    for (const byte of randomBytes(INVITE_CODE_LENGTH)) {
+      if (byte < limit && code.length < INVITE_CODE_LENGTH) code += INVITE_CODE_ALPHABET[byte % size];
+    }
+  }
+  return code;
+}
+
+/** What the user typed → stored form: uppercase, no spaces or dashes. */
+export function normalizeInviteCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function isValidInviteCode(input: string): boolean {
+  const code = normalizeInviteCode(input);
+  return code.length === INVITE_CODE_LENGTH && [...code].every(c => INVITE_CODE_ALPHABET.includes(c));
+}
+
+/** "ABCD-EFGH" — easier to read in a message. */
+export function formatInviteCode(code: string): string {
+  const half = INVITE_CODE_LENGTH / 2;
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+export function inviteExpiresAt(now: Date): string {
+  return new Date(now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/** Maps a Supabase / fetch error message to a HouseholdError. */
+export function parseHouseholdError(message: string | null | undefined): HouseholdError {
+  if (!message) return 'unknown';
+  const known = SERVER_ERRORS.find(code => message.includes(code));
+  if (known) return known;
+  if (/network request failed|failed to fetch|fetch failed|timed? ?out/i.test(message)) return 'network';
+  return 'unknown';
+}
+
+/** The account a plant's cloud rows belong to: the garden owner for shared gardens, else `selfId`. */
+export function ownerIdFor(
+  data: { plants: Plant[]; gardens: Garden[] },
+  plantId: string,
+  selfId: string
+): string {
+  const gardenId = data.plants.find(p => p.id === plantId)?.gardenId;
+  if (!gardenId) return selfId;
+  return data.gardens.find(g => g.id === gardenId)?.sharedBy?.userId ?? selfId;
+}
+
+/**
+ * Only the owner deletes the plants of a shared garden (009_household_sharing.sql); a member's
+ * delete would be refused by the server and the plant would come back on the next download.
+ */
+export function canDeletePlant(plant: Pick<Plant, 'gardenId'>, gardens: Garden[]): boolean {
+  return !plant.gardenId || !gardens.find(g => g.id === plant.gardenId)?.sharedBy;
+}
+
+/** Gardens this account owns — the ones it can invite others to. */
+export function ownGardens(gardens: Garden[]): Garden[] {
+  return gardens.filter(g => !g.sharedBy);
+}
+
+/** Gardens other accounts shared with this one. */
+export function sharedWithMe(gardens: Garden[]): Garden[] {
+  return gardens.filter(g => g.sharedBy);
+}
@@ -6,13 +6,14 @@ import type {
   WaterMode,
   WaterSchedule,
   PersistedAppData,
+  CareEvent,
 } from '../types';
 
 // ───────────────────────────────────────────────────────────────────────────
 // Constants
 // ───────────────────────────────────────────────────────────────────────────
 
-export const CURRENT_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 3;
 export const BACKUP_KEY = 'plant-agenda-v2.backup-pre-v1.1';
 
 // TODO(v1.2): call cleanupBackup_v1_1() once on launch, then delete this helper
@@ -171,6 +172,71 @@ function migrateV0toV1(data: AppData): AppData {
   };
 }
 
+// ───────────────────────────────────────────────────────────────────────────
+// AppData migration v1 → v2 (v1.3 HIST-01 — care history log)
+// ───────────────────────────────────────────────────────────────────────────
+
+/**
+ * Seeds one care event per last-done date the plant already carries, so the log does
+ * not start empty for existing gardens. Ids are deterministic (plant id + type) to keep
+ * the migration byte-identical across re-runs; timestamps use the care date itself since
+ * the original tap time was never recorded.
+ */
+export function seedCareLogForPlant(plant: Plant): CareEvent[] {
+  const seeds: Array<[CareEvent['type'], string | null | undefined]> = [
+    ['water', plant.lastWatered],
+    ['sun', plant.sunDoneDate],
+    ['outdoor', plant.outdoorDoneDate],
+    ['fertilize', plant.fertilizeSchedule?.lastFertilized],
+  ];
+  const events: CareEvent[] = [];
+  for (const [type, date] of seeds) {
+    if (!date) continue;
+    events.push({
+      id: `migration-${plant.id}-${type}`,
+      type,
+      date,
+      timestamp: `${date}T00:00:00.000Z`,
+      source: 'migration',
+    });
+  }
+  return events;
+}
+
+/**
+ * Additive: only plants without a careLog entry are seeded. Plants with an existing
+ * (even empty) list are left untouched, which makes the transform idempotent.
+ */
+function migrateV1toV2(data: AppData): AppData {
+  const careLog = { ...(data.careLog ?? {}) };
+  for (const plant of data.plants ?? []) {
+    if (careLog[plant.id]) continue;
+    careLog[plant.id] = seedCareLogForPlant(plant);
+  }
+  return { ...data, careLog };
+}
+
+/**
+ * v1.3 (GARDEN-01). Additive: defaults the space list and active space, and drops plant
+ * gardenIds that point at no space (all plants land in home). Idempotent — existing
+ * values are kept, and a clean plant list comes back unchanged.
+ */
+function migrateV2toV3(data: AppData): AppData {
+  const gardens = data.gardens ?? [];
+  // Literal mirrors HOME_GARDEN_ID in utils/gardens — this module stays import-free at
+  // runtime so the migration smoke test can load it standalone.
+  const activeGardenId = data.activeGardenId ?? 'home';
+  // Same rule as dropDanglingGardenIds in utils/gardens, copied for the same reason. The copy
+  // is frozen with the v3 schema: later changes to the helper must not reach this step.
+  const known = new Set(gardens.map(g => g.id));
+  const plants = (data.plants ?? []).map(p => {
+    if (p.gardenId === undefined || known.has(p.gardenId)) return p;
+    const { gardenId: _dangling, ...rest } = p;
+    return rest;
+  });
+  return { ...data, plants, gardens, activeGardenId };
+}
+
 // ───────────────────────────────────────────────────────────────────────────
 // Envelope detection + idempotent migration runner
 // ───────────────────────────────────────────────────────────────────────────
@@ -208,7 +274,14 @@ export function runMigrations(persisted: PersistedAppData): AppData {
     data = migrateV0toV1(data);
     schemaVersion = 1;
   }
-  // Future: if (schemaVersion < 2) data = migrateV1toV2(data);
+  if (schemaVersion < 2) {
+    data = migrateV1toV2(data);
+    schemaVersion = 2;
+  }
+  if (schemaVersion < 3) {
+    data = migrateV2toV3(data);
+    schemaVersion = 3;
+  }
   return data;
 }
 
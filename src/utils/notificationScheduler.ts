@@ -1,10 +1,12 @@
 import * as Notifications from "expo-notifications";
-import { Plant, WeatherData, NotificationSettings, PlantHealthStatus, SavedDiagnosis, LightLevel } from "../types";
+import { Plant, WeatherData, NotificationSettings, PlantHealthStatus, SavedDiagnosis, LightLevel, VacationPlan, CareDay } from "../types";
 import { getTasksForDay } from "./plantLogic";
-import type { WaterSeason } from "./seasonality";
+import type { SpaceConditions } from "./gardens";
 import { PlantAlert } from "./plantAlerts";
-import { formatDate } from "./dates";
+import { formatDate, addDays } from "./dates";
+import { isDateInVacation, isVacationPending } from "./vacationPlan";
 import { getPlantFullInfo, getPlantsAtTempRisk, PlantFullInfo } from "./plantInfo";
+import { getCareStreaks, getWeeklyCareSummary } from "./careStreaks";
 import i18n from "../i18n";
 
 // Constants for smart scheduling
@@ -12,6 +14,11 @@ const SUNRISE_OFFSET_MINUTES = 30; // Notify 30 min after sunrise
 const SUNSET_OFFSET_MINUTES = 60;  // Notify 60 min before sunset
 const HIGH_UV_THRESHOLD = 8;       // UV index considered dangerous
 const MODERATE_UV_THRESHOLD = 5;   // UV index for warning
+// v1.3 (VAC-01): while a trip is planned the daily repeating trigger is replaced by one-off
+// reminders for the days outside the trip. Re-planned on every app open, so a short window is enough.
+const VACATION_MORNING_WINDOW_DAYS = 14;
+// v1.3 (STREAK-01): the weekly care summary goes out on Sunday evening.
+const WEEKLY_SUMMARY_HOUR = 19;
 
 // Track if notifications are available (set to false on first error)
 // Start as true and will be disabled on first error in Expo Go
@@ -31,6 +38,7 @@ function markNotificationsUnavailable(error: unknown) {
 const MORNING_REMINDER_ID = "morning-reminder";
 const WEATHER_ALERT_PREFIX = "weather-alert-";
 const CARE_REMINDER_PREFIX = "care-reminder-";
+const WEEKLY_SUMMARY_ID = "weekly-summary";
 
 /**
  * Parses a time string "HH:MM" to hours and minutes
@@ -46,12 +54,12 @@ function parseTime(time: string): { hours: number; minutes: number } {
 function createMorningContent(
   plants: Plant[],
   weather: WeatherData | null,
-  season: WaterSeason,
+  spaces: SpaceConditions[],
   notifSettings: NotificationSettings | null,
   healthStatuses?: PlantHealthStatus[]
 ): { title: string; body: string } {
   const today = new Date();
-  const tasks = getTasksForDay(plants, today, season);
+  const tasks = spaces.flatMap((space) => getTasksForDay(space.plants, today, space.season));
 
   // Check health statuses for danger/warning plants
   const dangerPlants = healthStatuses?.filter((h) => h.score < 40) || [];
@@ -64,7 +72,7 @@ function createMorningContent(
     title = i18n.t('notifications.morningDanger');
     const status = dangerPlants[0];
     const plant = plants.find((p) => p.id === status.plantId);
-    const topIssue = status.issues[0]?.message || '';
+    const topIssue = status.issues[0] ? i18n.t(status.issues[0].message.key, status.issues[0].message.params) : '';
     if (plant) {
       body = i18n.t('notifications.dangerBody', { name: plant.name, issue: topIssue }) + ' ';
     }
@@ -72,7 +80,7 @@ function createMorningContent(
     title = i18n.t('notifications.morningWarning');
     const status = warningPlants[0];
     const plant = plants.find((p) => p.id === status.plantId);
-    const topIssue = status.issues[0]?.message || '';
+    const topIssue = status.issues[0] ? i18n.t(status.issues[0].message.key, status.issues[0].message.params) : '';
     if (plant) {
       body = i18n.t('notifications.warningBody', { name: plant.name, issue: topIssue }) + ' ';
     }
@@ -148,15 +156,24 @@ function createMorningContent(
 }
 
 /**
- * Schedules the daily morning reminder notification
+ * Schedules the daily morning reminder notification.
+ *
+ * v1.3 (GARDEN-01): tasks come from `spaces`, each space with its own season; `weather` is
+ * the home forecast for the temperature line.
+ *
+ * v1.3 (VAC-01): with a pending vacation, schedules one-off DATE reminders for the days
+ * before departure and from the return day on (VACATION_MORNING_WINDOW_DAYS ahead) instead
+ * of the DAILY trigger, so nothing fires while away. All share data.type "morning-reminder"
+ * so cancelMorningReminder cleans them up.
  */
 export async function scheduleMorningReminder(
   time: string,
   plants: Plant[],
   weather: WeatherData | null,
-  season: WaterSeason,
+  spaces: SpaceConditions[],
   notifSettings: NotificationSettings | null,
-  healthStatuses?: PlantHealthStatus[]
+  healthStatuses?: PlantHealthStatus[],
+  vacation?: VacationPlan | null
 ): Promise<string | null> {
   if (!notificationsAvailable) return null;
 
@@ -165,7 +182,33 @@ export async function scheduleMorningReminder(
     await cancelMorningReminder();
 
     const { hours, minutes } = parseTime(time);
-    const { title, body } = createMorningContent(plants, weather, season, notifSettings, healthStatuses);
+    const { title, body } = createMorningContent(plants, weather, spaces, notifSettings, healthStatuses);
+
+    const now = new Date();
+    if (isVacationPending(vacation, now)) {
+      let first: string | null = null;
+      for (let i = 0; i < VACATION_MORNING_WINDOW_DAYS; i++) {
+        const date = addDays(now, i);
+        date.setHours(hours, minutes, 0, 0);
+        if (date <= now || isDateInVacation(vacation, date)) continue;
+        const identifier = await Notifications.scheduleNotificationAsync({
+          identifier: `${MORNING_REMINDER_ID}-${formatDate(date)}`,
+          content: {
+            title,
+            body,
+            sound: true,
+            priority: Notifications.AndroidNotificationPriority.HIGH,
+            data: { type: "morning-reminder" },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date,
+          },
+        });
+        first = first ?? identifier;
+      }
+      return first;
+    }
 
     const identifier = await Notifications.scheduleNotificationAsync({
       identifier: MORNING_REMINDER_ID,
@@ -226,6 +269,67 @@ export async function cancelMorningReminder(): Promise<void> {
   }
 }
 
+/**
+ * v1.3 (STREAK-01). Schedules the Sunday-evening summary of the week ending that Sunday: tasks
+ * done out of due, plus the current run of complete days. The numbers are fixed when
+ * scheduling, so callers re-schedule whenever care is recorded (the morning reminder works the
+ * same way). Nothing is scheduled when that Sunday falls inside a trip or no care was recorded
+ * for the week yet.
+ */
+export async function scheduleWeeklySummary(
+  careDays: Record<string, CareDay[]>,
+  plants: Plant[],
+  vacation?: VacationPlan | null
+): Promise<string | null> {
+  if (!notificationsAvailable) return null;
+
+  try {
+    await cancelWeeklySummary();
+
+    const now = new Date();
+    const sunday = addDays(now, (7 - now.getDay()) % 7);
+    sunday.setHours(WEEKLY_SUMMARY_HOUR, 0, 0, 0);
+    if (sunday <= now) sunday.setDate(sunday.getDate() + 7);
+    if (isDateInVacation(vacation, sunday)) return null;
+
+    const summary = getWeeklyCareSummary(careDays, plants.map((p) => p.id), formatDate(sunday));
+    if (summary.due === 0) return null;
+    const { current } = getCareStreaks(careDays, formatDate(now));
+    let body = i18n.t("notifications.weeklySummaryBody", { done: summary.done, due: summary.due });
+    if (current > 0) body += " " + i18n.t("notifications.weeklySummaryStreak", { count: current });
+
+    return await Notifications.scheduleNotificationAsync({
+      identifier: WEEKLY_SUMMARY_ID,
+      content: {
+        title: i18n.t("notifications.weeklySummaryTitle"),
+        body,
+        sound: true,
+        data: { type: "weekly-summary" },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: sunday,
+      },
+    });
+  } catch (error) {
+    markNotificationsUnavailable(error);
+    return null;
+  }
+}
+
+/**
+ * v1.3 (STREAK-01). Cancels the weekly care summary.
+ */
+export async function cancelWeeklySummary(): Promise<void> {
+  if (!notificationsAvailable) return;
+
+  try {
+    await Notifications.cancelScheduledNotificationAsync(WEEKLY_SUMMARY_ID);
+  } catch {
+    // No-op if not found
+  }
+}
+
 /**
  * Schedules a weather alert notification
  */
@@ -246,8 +350,8 @@ export async function scheduleWeatherAlert(
 
     const identifier = await Notifications.scheduleNotificationAsync({
       content: {
-        title: `${alert.plantIcon} ${alert.title}`,
-        body: alert.message,
+        title: `${alert.plantIcon} ${i18n.t(alert.title.key, alert.title.params)}`,
+        body: i18n.t(alert.message.key, alert.message.params),
         sound: true,
         priority:
           alert.severity === "danger"
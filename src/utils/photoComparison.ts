@@ -0,0 +1,73 @@
+/**
+ * v1.3 (COMPARE-01). Photos of a tracked problem for the comparison view — the original
+ * diagnosis photo, then every follow-up entry that has a photo, oldest first — so the owner can
+ * put any two side by side (or under the overlay slider) and judge the recovery.
+ *
+ * The original photo is also what the follow-up chat sends along with a new photo, so the
+ * model compares the two instead of judging the new one alone.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { DiagnosisSeverity, SavedDiagnosis, TrackingStatus } from '../types';
+import { daysBetween } from './dates';
+
+/** `id` of the original diagnosis photo (entries use their own ids). */
+export const ORIGINAL_PHOTO_ID = 'original';
+
+export interface ComparisonPhoto {
+  /** ORIGINAL_PHOTO_ID or the ProblemEntry id. */
+  id: string;
+  uri: string;
+  /** ISO timestamp of the diagnosis or the follow-up. */
+  date: string;
+  /** Follow-ups: the status change they recorded, if any. */
+  statusChange: TrackingStatus | null;
+  /** Original only: the diagnosed severity. */
+  severity?: DiagnosisSeverity;
+}
+
+export interface ComparisonPair {
+  before: ComparisonPhoto;
+  after: ComparisonPhoto;
+  /** Calendar days from `before` to `after`. */
+  days: number;
+}
+
+/** The first photo of the diagnosis, or null for a diagnosis without photos. */
+export function getOriginalPhoto(diagnosis: SavedDiagnosis): ComparisonPhoto | null {
+  const uri = diagnosis.imageUris?.[0] ?? diagnosis.imageUri;
+  if (!uri) return null;
+  return {
+    id: ORIGINAL_PHOTO_ID,
+    uri,
+    date: diagnosis.date,
+    statusChange: null,
+    severity: diagnosis.severity ?? diagnosis.result.overallStatus,
+  };
+}
+
+/** The original photo and the follow-up photos, oldest first. */
+export function getComparisonPhotos(diagnosis: SavedDiagnosis): ComparisonPhoto[] {
+  const original = getOriginalPhoto(diagnosis);
+  const followUps = (diagnosis.entries ?? [])
+    .filter(entry => !!entry.photoUri)
+    .map((entry): ComparisonPhoto => ({
+      id: entry.id,
+      uri: entry.photoUri!,
+      date: entry.date,
+      statusChange: entry.statusChange,
+    }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return original ? [original, ...followUps] : followUps;
+}
+
+/**
+ * The two photos to compare: the oldest against `afterId` (the newest when missing or when it
+ * names the oldest). Null with fewer than two photos.
+ */
+export function getComparisonPair(photos: ComparisonPhoto[], afterId?: string | null): ComparisonPair | null {
+  if (photos.length < 2) return null;
+  const before = photos[0];
+  const after = photos.find(p => p.id === afterId && p !== before) ?? photos[photos.length - 1];
+  return { before, after, days: daysBetween(new Date(before.date), new Date(after.date)) };
+}
@@ -0,0 +1,149 @@
+/**
+ * v1.3 (SYNC-03). Upload queue for plant and journal photos.
+ *
+ * Photos are saved to the device first (photoService / journalService) and uploaded to the
+ * private `user-photos` bucket in the background. What still needs uploading is derived from
+ * the store — every plant photo without `remotePath` and every journal photo without
+ * `photoRemotePath` — so the queue only persists retry bookkeeping, never the photos.
+ *
+ *  - Failed uploads back off exponentially (30 s → 6 h cap) and keep retrying.
+ *  - A photo whose file is not on this device (taken on another phone, not uploaded yet)
+ *    is parked as `missing_file`; it drops out once the other phone uploads it.
+ *  - Before each run the account's usage is checked against the tier quota; photos that
+ *    would not fit are parked as `quota_exceeded` and re-checked on the next run. The
+ *    storage upload policy enforces the same quota server-side; this check only spares the
+ *    retries.
+ *
+ * Pure functions — no React, no Supabase, no file system, no clock reads (callers pass `now`).
+ */
+import type { JournalEntry, Plant } from '../types';
+
+export const PHOTO_BUCKET = 'user-photos';
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+export type PhotoKind = 'plant' | 'journal';
+
+/** One photo that needs uploading, as found in the store. */
+export interface PhotoRef {
+  kind: PhotoKind;
+  plantId: string;
+  /** PlantPhoto.id or JournalEntry.id. */
+  id: string;
+  localUri: string;
+}
+
+export type PhotoUploadError = 'missing_file' | 'quota_exceeded' | 'upload_failed';
+
+export interface PhotoUploadJob extends PhotoRef {
+  attempts: number;
+  /** ISO time of the next retry; null = due now. */
+  nextAttemptAt: string | null;
+  lastError: PhotoUploadError | null;
+}
+
+/** Object path inside the bucket. The first segment is the owner — storage policies check it. */
+export function photoStoragePath(userId: string, ref: Pick<PhotoRef, 'kind' | 'plantId' | 'id'>): string {
+  return `${userId}/${ref.kind === 'plant' ? 'plants' : 'journal'}/${ref.plantId}/${ref.id}.jpg`;
+}
+
+export function jobKey(ref: Pick<PhotoRef, 'kind' | 'plantId' | 'id'>): string {
+  return `${ref.kind}:${ref.plantId}:${ref.id}`;
+}
+
+/** Every photo in the store that has no cloud copy yet. */
+export function pendingPhotoUploads(plants: Plant[], journals: Record<string, JournalEntry[]>): PhotoRef[] {
+  const refs: PhotoRef[] = [];
+  for (const plant of plants) {
+    for (const photo of plant.photos ?? []) {
+      if (!photo.remotePath && photo.uri) {
+        refs.push({ kind: 'plant', plantId: plant.id, id: photo.id, localUri: photo.uri });
+      }
+    }
+  }
+  for (const [plantId, entries] of Object.entries(journals)) {
+    for (const entry of entries) {
+      if (entry.photoUri && !entry.photoRemotePath) {
+        refs.push({ kind: 'journal', plantId, id: entry.id, localUri: entry.photoUri });
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Brings the persisted queue in line with the store: keeps retry state for photos still
+ * pending, adds new ones as due now, drops uploaded or deleted ones. Returns `queue` itself
+ * when nothing changed.
+ */
+export function reconcileQueue(queue: PhotoUploadJob[], pending: PhotoRef[]): PhotoUploadJob[] {
+  const existing = new Map(queue.map(j => [jobKey(j), j]));
+  const next = pending.map(ref => {
+    const job = existing.get(jobKey(ref));
+    if (job && job.localUri === ref.localUri) return job;
+    return { ...ref, attempts: 0, nextAttemptAt: null, lastError: null };
+  });
+  const unchanged = next.length === queue.length && next.every((j, i) => j === queue[i]);
+  return unchanged ? queue : next;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/** Records a failed attempt. Only `upload_failed` counts toward the backoff. */
+export function markFailed(job: PhotoUploadJob, error: PhotoUploadError, now: Date): PhotoUploadJob {
+  if (error !== 'upload_failed') return { ...job, lastError: error, nextAttemptAt: null };
+  const attempts = job.attempts + 1;
+  return {
+    ...job,
+    attempts,
+    lastError: error,
+    nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+  };
+}
+
+/** Jobs to try now, oldest queue order first. Missing files wait for the other device. */
+export function dueJobs(queue: PhotoUploadJob[], now: Date): PhotoUploadJob[] {
+  const nowIso = now.toISOString();
+  return queue.filter(j => j.lastError !== 'missing_file' && (!j.nextAttemptAt || j.nextAttemptAt <= nowIso));
+}
+
+/** Earliest scheduled retry, or null when nothing is waiting on a timer. */
+export function nextRetryAt(queue: PhotoUploadJob[]): string | null {
+  let next: string | null = null;
+  for (const job of queue) {
+    if (job.lastError === 'missing_file' || !job.nextAttemptAt) continue;
+    if (!next || job.nextAttemptAt < next) next = job.nextAttemptAt;
+  }
+  return next;
+}
+
+/**
+ * Splits sized jobs into the ones that fit the quota (in queue order) and the rest. A photo
+ * that does not fit does not stop smaller ones behind it.
+ */
+export function fitToQuota<T extends { sizeBytes: number }>(
+  jobs: T[],
+  usedBytes: number,
+  quotaBytes: number
+): { accepted: T[]; rejected: T[] } {
+  const accepted: T[] = [];
+  const rejected: T[] = [];
+  let used = usedBytes;
+  for (const job of jobs) {
+    if (used + job.sizeBytes <= quotaBytes) {
+      accepted.push(job);
+      used += job.sizeBytes;
+    } else {
+      rejected.push(job);
+    }
+  }
+  return { accepted, rejected };
+}
+
+/** File name of a downloaded copy in the photo cache. */
+export function cacheFileName(remotePath: string): string {
+  return remotePath.replace(/\//g, '_');
+}
@@ -0,0 +1,80 @@
+/**
+ * v1.3 (PLACE-01). Per-plant placement — where the plant physically lives — and how much
+ * of the outdoor weather actually reaches it.
+ *
+ * Weather surfaces (generatePlantAlerts, calculatePlantHealth, getWateringRecommendations)
+ * used to apply the forecast to every plant, so a pothos in a heated living room got frost
+ * alerts. They now read the forecast through getPlacementExposure:
+ *   - indoor          → temperature is not weather-driven; no wind or rain
+ *   - covered_balcony → lows buffered by the building, still windy, no rain
+ *   - outdoor         → full exposure (the pre-v1.3 behavior)
+ *   - greenhouse      → lows buffered, highs amplified, no wind or rain
+ *
+ * Plants added before v1.3 carry no placement; getPlantPlacement infers it from the
+ * typeId the same way new plants are stamped (catalog entry unknown at read time).
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { Plant, PlantPlacement } from '../types';
+import { OUTDOOR_TYPE_IDS } from './lightLabel';
+
+export const PLACEMENT_OPTIONS: readonly PlantPlacement[] = ['indoor', 'covered_balcony', 'outdoor', 'greenhouse'];
+
+export const PLACEMENT_ICONS: Record<PlantPlacement, string> = {
+  indoor: '🏠',
+  covered_balcony: '🌇',
+  outdoor: '🌳',
+  greenhouse: '🏕️',
+};
+
+export interface PlacementExposure {
+  /**
+   * °C added to outdoor temperatures before comparing them against the plant's
+   * tolerances. null = the plant's temperature does not follow the outdoor weather.
+   */
+  lowOffset: number | null;
+  highOffset: number | null;
+  wind: boolean;
+  rain: boolean;
+}
+
+const PLACEMENT_EXPOSURE: Record<PlantPlacement, PlacementExposure> = {
+  indoor: { lowOffset: null, highOffset: null, wind: false, rain: false },
+  covered_balcony: { lowOffset: 2, highOffset: 0, wind: true, rain: false },
+  outdoor: { lowOffset: 0, highOffset: 0, wind: true, rain: true },
+  greenhouse: { lowOffset: 5, highOffset: 5, wind: false, rain: false },
+};
+
+/**
+ * Placement for a newly added plant. The catalog `outdoor` flag wins when the plant comes
+ * from the catalog (it is curated per entry — aromáticas and huerta mix both); custom and
+ * identified plants fall back to the category via OUTDOOR_TYPE_IDS.
+ */
+export function inferPlacement(typeId: string, catalogOutdoor?: boolean): PlantPlacement {
+  if (catalogOutdoor !== undefined) return catalogOutdoor ? 'outdoor' : 'indoor';
+  return OUTDOOR_TYPE_IDS.has(typeId) ? 'outdoor' : 'indoor';
+}
+
+export function getPlantPlacement(plant: Pick<Plant, 'placement' | 'typeId'>): PlantPlacement {
+  return plant.placement ?? inferPlacement(plant.typeId);
+}
+
+/**
+ * Exposure of a plant to the outdoor weather. Plants taken outside on their outdoorDays
+ * are exposed to wind on those days even when they live indoors.
+ */
+export function getPlacementExposure(plant: Pick<Plant, 'placement' | 'typeId' | 'outdoorDays'>): PlacementExposure {
+  const exposure = PLACEMENT_EXPOSURE[getPlantPlacement(plant)];
+  if (!exposure.wind && plant.outdoorDays.length > 0) return { ...exposure, wind: true };
+  return exposure;
+}
+
+/** Outdoor low as felt by the plant, or null when its temperature is not weather-driven. */
+export function exposedLow(outdoorTemp: number, exposure: PlacementExposure): number | null {
+  return exposure.lowOffset === null ? null : outdoorTemp + exposure.lowOffset;
+}
+
+/** Outdoor high as felt by the plant, or null when its temperature is not weather-driven. */
+export function exposedHigh(outdoorTemp: number, exposure: PlacementExposure): number | null {
+  return exposure.highOffset === null ? null : outdoorTemp + exposure.highOffset;
+}
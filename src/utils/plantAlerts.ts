@@ -1,5 +1,6 @@
-import { Plant, WeatherData } from "../types";
+import { LocalizedMessage, Plant, WeatherData } from "../types";
 import { getPlantById } from "../data/plantDatabase";
+import { exposedHigh, exposedLow, getPlacementExposure } from "./placement";
 
 export interface PlantAlert {
   plantId: string;
@@ -7,20 +8,24 @@ export interface PlantAlert {
   plantIcon: string;
   type: "cold" | "heat" | "rain" | "wind";
   severity: "danger" | "warning" | "info";
-  title: string;
-  message: string;
+  /** v1.3 (I18N-02): alerts.* keys, rendered by the caller. */
+  title: LocalizedMessage;
+  message: LocalizedMessage;
 }
 
 interface AlertConfig {
   type: PlantAlert["type"];
   severity: PlantAlert["severity"];
-  title: string;
-  message: string;
+  title: LocalizedMessage;
+  message: LocalizedMessage;
 }
 
 /**
  * Generates personalized weather alerts for each plant based on its
  * temperature tolerances from the plant database.
+ *
+ * v1.3 (PLACE-01): temperatures are read through the plant's placement — indoor
+ * plants get no temperature alerts, sheltered ones compare buffered values.
  */
 export function generatePlantAlerts(
   plants: Plant[],
@@ -38,12 +43,19 @@ export function generatePlantAlerts(
     if (!plantInfo) return;
 
     const { tempMin, tempMax } = plantInfo;
-
-    // Check tomorrow's minimum temperature against plant's cold tolerance
-    if (tomorrowForecast && tomorrowForecast.tempMin < tempMin) {
+    const exposure = getPlacementExposure(plant);
+    const tomorrowLow = tomorrowForecast ? exposedLow(tomorrowForecast.tempMin, exposure) : null;
+    const tomorrowHigh = tomorrowForecast ? exposedHigh(tomorrowForecast.tempMax, exposure) : null;
+    const currentLow = exposedLow(current.temperature, exposure);
+    const currentHigh = exposedHigh(current.temperature, exposure);
+
+    // Check tomorrow's minimum temperature against plant's cold tolerance. The adjusted
+    // value is compared; messages quote the raw forecast.
+    if (tomorrowForecast && tomorrowLow !== null && tomorrowLow < tempMin) {
       const alertConfig = getColdAlertConfig(
         plant.name,
         tempMin,
+        tomorrowLow,
         tomorrowForecast.tempMin
       );
       alerts.push({
@@ -55,10 +67,11 @@ export function generatePlantAlerts(
     }
 
     // Check tomorrow's maximum temperature against plant's heat tolerance
-    if (tomorrowForecast && tomorrowForecast.tempMax > tempMax) {
+    if (tomorrowForecast && tomorrowHigh !== null && tomorrowHigh > tempMax) {
       const alertConfig = getHeatAlertConfig(
         plant.name,
         tempMax,
+        tomorrowHigh,
         tomorrowForecast.tempMax
       );
       alerts.push({
@@ -70,34 +83,40 @@ export function generatePlantAlerts(
     }
 
     // Check current temperature extremes for immediate alerts
-    if (current.temperature < tempMin) {
+    if (currentLow !== null && currentLow < tempMin) {
       alerts.push({
         plantId: plant.id,
         plantName: plant.name,
         plantIcon: plant.icon,
         type: "cold",
         severity: "danger",
-        title: `${plant.name} en riesgo`,
-        message: `Ahora hay ${Math.round(current.temperature)}°C. Tu ${plant.name.toLowerCase()} no tolera menos de ${tempMin}°C.`,
+        title: { key: "alerts.plantAtRisk", params: { name: plant.name } },
+        message: {
+          key: "alerts.currentTemp",
+          params: { temp: Math.round(current.temperature), name: plant.name.toLowerCase(), min: tempMin },
+        },
       });
     }
 
-    if (current.temperature > tempMax) {
+    if (currentHigh !== null && currentHigh > tempMax) {
       alerts.push({
         plantId: plant.id,
         plantName: plant.name,
         plantIcon: plant.icon,
         type: "heat",
         severity: "danger",
-        title: `${plant.name} en riesgo`,
-        message: `Ahora hay ${Math.round(current.temperature)}°C. Tu ${plant.name.toLowerCase()} sufre con mas de ${tempMax}°C.`,
+        title: { key: "alerts.plantAtRisk", params: { name: plant.name } },
+        message: {
+          key: "alerts.currentHeat",
+          params: { temp: Math.round(current.temperature), name: plant.name.toLowerCase(), max: tempMax },
+        },
       });
     }
   });
 
-  // Check wind alerts for outdoor plants
+  // Check wind alerts for wind-exposed plants (outdoor/balcony, or taken out on outdoorDays)
   if (current.windSpeed > 40) {
-    const outdoorPlants = plants.filter((p) => p.outdoorDays.length > 0);
+    const outdoorPlants = plants.filter((p) => getPlacementExposure(p).wind);
     outdoorPlants.forEach((plant) => {
       alerts.push({
         plantId: plant.id,
@@ -105,8 +124,11 @@ export function generatePlantAlerts(
         plantIcon: plant.icon,
         type: "wind",
         severity: "warning",
-        title: "Viento fuerte",
-        message: `Protege tu ${plant.name.toLowerCase()} de las rafagas de ${Math.round(current.windSpeed)} km/h.`,
+        title: { key: "alerts.strongWind" },
+        message: {
+          key: "alerts.windMessage",
+          params: { name: plant.name.toLowerCase(), speed: Math.round(current.windSpeed) },
+        },
       });
     });
   }
@@ -116,35 +138,47 @@ export function generatePlantAlerts(
   return deduplicateAlerts(sortedAlerts);
 }
 
+/**
+ * `exposedTemp` (placement-adjusted) drives the severity; the message quotes `forecastTemp`,
+ * the value the user sees in the forecast.
+ */
 function getColdAlertConfig(
   plantName: string,
   tempMin: number,
+  exposedTemp: number,
   forecastTemp: number
 ): AlertConfig {
-  const diff = tempMin - forecastTemp;
+  const diff = tempMin - exposedTemp;
   const severity: PlantAlert["severity"] = diff >= 5 ? "danger" : "warning";
 
   return {
     type: "cold",
     severity,
-    title: severity === "danger" ? "Helada manana" : "Frio manana",
-    message: `Tu ${plantName.toLowerCase()} no tolera menos de ${tempMin}°C, manana habra ${Math.round(forecastTemp)}°C.`,
+    title: { key: severity === "danger" ? "alerts.frostTomorrow" : "alerts.coldTomorrow" },
+    message: {
+      key: "alerts.coldMessage",
+      params: { name: plantName.toLowerCase(), min: tempMin, forecast: Math.round(forecastTemp) },
+    },
   };
 }
 
 function getHeatAlertConfig(
   plantName: string,
   tempMax: number,
+  exposedTemp: number,
   forecastTemp: number
 ): AlertConfig {
-  const diff = forecastTemp - tempMax;
+  const diff = exposedTemp - tempMax;
   const severity: PlantAlert["severity"] = diff >= 5 ? "danger" : "warning";
 
   return {
     type: "heat",
     severity,
-    title: severity === "danger" ? "Calor extremo manana" : "Calor manana",
-    message: `Tu ${plantName.toLowerCase()} sufre con mas de ${tempMax}°C, manana habra ${Math.round(forecastTemp)}°C.`,
+    title: { key: severity === "danger" ? "alerts.extremeHeatTomorrow" : "alerts.heatTomorrow" },
+    message: {
+      key: "alerts.heatMessage",
+      params: { name: plantName.toLowerCase(), max: tempMax, forecast: Math.round(forecastTemp) },
+    },
   };
 }
 
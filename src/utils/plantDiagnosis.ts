@@ -1,6 +1,40 @@
-import { DiagnosisResult, DiagnosisChatMessage, PlantDiagnosisContext } from '../types';
+import { AiResponseErrorCode, DiagnosisResult, DiagnosisChatMessage, PlantDiagnosisContext } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import i18n from '../i18n';
+import { getAiRequestHeaders, readFunctionError, QUOTA_EXCEEDED_CODE, QUOTA_EXCEEDED_ERROR } from '../services/aiQuotaService';
+import {
+  INVALID_AI_RESPONSE,
+  validateChatResponse,
+  validateDiagnosisResult,
+} from '../../supabase/functions/_shared/aiValidation';
+
+/** v1.3 (AIVAL-01): error name when the AI answer failed validation (checked like 'AbortError'). */
+export const INVALID_AI_RESPONSE_ERROR = 'InvalidAiResponseError';
+
+/** Error thrown by diagnosePlant / chatDiagnosis when the answer could not be validated. */
+export type InvalidAiResponseError = Error & { code: AiResponseErrorCode };
+
+function invalidResponseError(code: AiResponseErrorCode): InvalidAiResponseError {
+  const failure = new Error(i18n.t('diagnosis.invalidResponse'));
+  failure.name = INVALID_AI_RESPONSE_ERROR;
+  return Object.assign(failure, { code });
+}
+
+/** Error for a failed call; QUOTA_EXCEEDED and INVALID_AI_RESPONSE keep their own names. */
+async function functionError(error: any, fallback: string): Promise<Error> {
+  const { code, reason, message } = await readFunctionError(error, fallback);
+  if (code === INVALID_AI_RESPONSE) {
+    return invalidResponseError(reason === 'INVALID_JSON' ? 'INVALID_JSON' : 'INVALID_SHAPE');
+  }
+  const failure = new Error(message);
+  // v1.3 (QUOTA-01): free quota used up on the server — the hook opens the paywall
+  if (code === QUOTA_EXCEEDED_CODE) failure.name = QUOTA_EXCEEDED_ERROR;
+  return failure;
+}
+
+function isPassThrough(error: any): boolean {
+  return error.name === 'AbortError' || error.name === QUOTA_EXCEEDED_ERROR || error.name === INVALID_AI_RESPONSE_ERROR;
+}
 
 /**
  * Diagnostica la salud de una planta usando Gemini Vision via Edge Function
@@ -28,9 +62,7 @@ export async function diagnosePlant(
 
     const { data, error } = await supabase.functions.invoke<DiagnosisResult>('diagnose-plant', {
       body: { imagesBase64: images, plantContext, lang: lang || 'en' },
-      headers: {
-        Authorization: `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-      },
+      headers: await getAiRequestHeaders(),
     });
 
     if (signal?.aborted) {
@@ -39,29 +71,25 @@ export async function diagnosePlant(
 
     if (error) {
       console.error('[Diagnosis] Edge function error:', error);
-      let reason = i18n.t('diagnosis.serviceConnectionError');
-      try {
-        if (error.context && typeof error.context.json === 'function') {
-          const errorBody = await error.context.json();
-          reason = errorBody?.error || errorBody?.message || reason;
-        } else if (error.message) {
-          reason = error.message;
-        }
-      } catch {
-        // Use default message
-      }
-      throw new Error(reason);
+      throw await functionError(error, i18n.t('diagnosis.serviceConnectionError'));
     }
 
     if (!data) {
       throw new Error(i18n.t('diagnosis.noResponseReceived'));
     }
 
-    console.log('[Diagnosis] Result:', data.overallStatus, 'issues:', data.issues?.length);
-    return data;
+    // v1.3 (AIVAL-01): the edge function already validated — this catches older deploys
+    const validation = validateDiagnosisResult(data);
+    if (!validation.ok) {
+      console.error('[Diagnosis] Invalid result:', validation.code, validation.errors);
+      throw invalidResponseError(validation.code);
+    }
+
+    console.log('[Diagnosis] Result:', validation.value.overallStatus, 'issues:', validation.value.issues.length);
+    return validation.value;
 
   } catch (error: any) {
-    if (error.name === 'AbortError') {
+    if (isPassThrough(error)) {
       throw error;
     }
     console.error('[Diagnosis] Error:', error);
@@ -141,6 +169,14 @@ export interface ChatDiagnosisResponse {
   reply: string;
   updatedTips: string[];
   improvementDetected?: boolean; // true when AI detects plant improvement (PROB-05)
+  promptVersion?: string; // v1.3 (PROMPT-01): prompt template the reply came from
+}
+
+/** v1.3 (COMPARE-01): the original diagnosis photo sent along with a follow-up photo. */
+export interface ChatReferencePhoto {
+  base64: string;
+  /** Day the original photo was taken (YYYY-MM-DD). */
+  date: string;
 }
 
 /**
@@ -155,6 +191,8 @@ export async function chatDiagnosis(
   imageBase64?: string,
   lang?: string,
   priorDiagnosisSummary?: string,
+  referencePhoto?: ChatReferencePhoto,
+  diagnosisId?: string,
 ): Promise<ChatDiagnosisResponse> {
   if (!isSupabaseConfigured()) {
     console.log('[ChatDiagnosis] Supabase no configurado, usando modo mock');
@@ -171,13 +209,16 @@ export async function chatDiagnosis(
         plantContext,
         chatHistory: chatHistory.map(m => ({ role: m.role, text: m.text })),
         userMessage,
+        diagnosisId,              // v1.3 (QUOTA-01): free chat messages are counted per diagnosis
         lang: lang || 'en',
         ...(imageBase64 ? { imageBase64 } : {}),
         priorDiagnosisSummary,    // Phase 9 (DIAG-05): additive — undefined omitted by JSON serializer
+        // v1.3 (COMPARE-01): only with a new photo — the model compares it with the original
+        ...(imageBase64 && referencePhoto
+          ? { referenceImageBase64: referencePhoto.base64, referenceImageDate: referencePhoto.date }
+          : {}),
       },
-      headers: {
-        Authorization: `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-      },
+      headers: await getAiRequestHeaders(),
     });
 
     if (signal?.aborted) {
@@ -186,28 +227,23 @@ export async function chatDiagnosis(
 
     if (error) {
       console.error('[ChatDiagnosis] Edge function error:', error);
-      let reason = i18n.t('diagnosis.chatServiceError');
-      try {
-        if (error.context && typeof error.context.json === 'function') {
-          const errorBody = await error.context.json();
-          reason = errorBody?.error || errorBody?.message || reason;
-        } else if (error.message) {
-          reason = error.message;
-        }
-      } catch {
-        // Use default message
-      }
-      throw new Error(reason);
+      throw await functionError(error, i18n.t('diagnosis.chatServiceError'));
     }
 
     if (!data) {
       throw new Error(i18n.t('diagnosis.noChatResponse'));
     }
 
-    console.log('[ChatDiagnosis] Reply received, updatedTips:', data.updatedTips?.length || 0);
-    return data;
+    const validation = validateChatResponse(data);
+    if (!validation.ok) {
+      console.error('[ChatDiagnosis] Invalid reply:', validation.code, validation.errors);
+      throw invalidResponseError(validation.code);
+    }
+
+    console.log('[ChatDiagnosis] Reply received, updatedTips:', validation.value.updatedTips.length);
+    return validation.value;
   } catch (error: any) {
-    if (error.name === 'AbortError') throw error;
+    if (isPassThrough(error)) throw error;
     console.error('[ChatDiagnosis] Error:', error);
     throw new Error(error.message || i18n.t('diagnosis.chatError'));
   }
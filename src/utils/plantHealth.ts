@@ -1,25 +1,336 @@
 import {
   Plant,
+  PlantDBEntry,
   WeatherData,
   PlantHealthStatus,
+  HealthContribution,
   HealthIssue,
   HealthLevel,
   HealthIssueSeverity,
+  HealthRuleId,
+  LocalizedMessage,
   SavedDiagnosis,
+  TrackingStatus,
 } from '../types';
-import { getNextWaterDate } from './plantLogic';
-import { daysBetween, formatDate } from './dates';
+import { getFertilizeOverdueDays, getNextWaterDate } from './plantLogic';
+import { daysBetween, formatDate, parseDate } from './dates';
+import { getActiveDeferral, isDeferralPending } from './taskDeferral';
 import type { WaterSeason } from './seasonality';
+import { exposedHigh, exposedLow, getPlacementExposure } from './placement';
+import { getCatalogEntry } from '../data/plantDatabase';
+
+/**
+ * v1.3 (HEALTH-02). Points each rule takes off the 100-point base. Pass a modified copy to
+ * calculatePlantHealth to tune the model without touching the rules.
+ */
+export interface HealthWeights {
+  /** Watering overdue: flat penalty, plus perDay for every day after the first, capped at maxExtraDays. */
+  overdueWater: { base: number; perDay: number; maxExtraDays: number };
+  overdueSun: number;
+  noCare: number;
+  frost: number;
+  heat: number;
+  wind: number;
+  /** Worst open (untracked) diagnosis, by its overall status. */
+  diagnosis: Record<'severe' | 'moderate' | 'minor', number>;
+  /** Fertilizing overdue by more than graceDays; `long` once past longDays. */
+  overdueFertilize: { graceDays: number; points: number; longDays: number; longPoints: number };
+  /** Worst tracked problem still open (watching / needs attention), by its tracking status. */
+  trackedProblem: Record<Extract<TrackingStatus, 'watching' | 'needs_attention'>, number>;
+  /** Tracked problems whose follow-up day passed without a follow-up entry. */
+  missedFollowUp: number;
+  /** Repotting older than intervalDays. */
+  overdueRepot: { intervalDays: number; points: number };
+}
+
+export const DEFAULT_HEALTH_WEIGHTS: HealthWeights = {
+  overdueWater: { base: 20, perDay: 10, maxExtraDays: 3 },
+  overdueSun: 15,
+  noCare: 10,
+  frost: 10,
+  heat: 10,
+  wind: 5,
+  diagnosis: { severe: 25, moderate: 15, minor: 5 },
+  overdueFertilize: { graceDays: 7, points: 5, longDays: 30, longPoints: 10 },
+  trackedProblem: { needs_attention: 20, watching: 10 },
+  missedFollowUp: 10,
+  overdueRepot: { intervalDays: 730, points: 5 },
+};
+
+/** Everything a rule may look at, resolved once per plant. */
+export interface HealthRuleContext {
+  plant: Plant;
+  today: Date;
+  todayStr: string;
+  season: WaterSeason;
+  weather: WeatherData | null;
+  diagnoses: SavedDiagnosis[];
+  catalogEntry: PlantDBEntry | null;
+  /** Days until the next watering; negative when overdue. */
+  daysUntilWater: number;
+  weights: HealthWeights;
+}
+
+/**
+ * What a rule found. `points` is what it takes off (positive); a rule may report an issue
+ * worth 0 points (a note, like rain on watering day).
+ */
+export interface HealthRuleResult {
+  points: number;
+  issue: HealthIssue;
+}
+
+export interface HealthRule {
+  id: HealthRuleId;
+  /** Null when the rule does not apply to the plant today. */
+  evaluate: (ctx: HealthRuleContext) => HealthRuleResult | null;
+}
+
+/** Frost / heat as felt at the plant's placement (indoor plants are sheltered, v1.3 PLACE-01). */
+function getTemperatureRisk(weather: WeatherData, plant: Plant): 'frost' | 'heat' | null {
+  const exposure = getPlacementExposure(plant);
+  const todayForecast = weather.daily[0];
+  const lowNow = exposedLow(weather.current.temperature, exposure);
+  const highNow = exposedHigh(weather.current.temperature, exposure);
+  const lowToday = todayForecast ? exposedLow(todayForecast.tempMin, exposure) : null;
+  const highToday = todayForecast ? exposedHigh(todayForecast.tempMax, exposure) : null;
+  if ((lowNow !== null && lowNow < 5) || (lowToday !== null && lowToday < 3)) return 'frost';
+  if ((highNow !== null && highNow > 35) || (highToday !== null && highToday > 38)) return 'heat';
+  return null;
+}
+
+/**
+ * Days since a tracked problem's follow-up day, or 0 when it is not due yet, resolved, or a
+ * follow-up entry was logged on or after that day. followUpDate / entry dates are timestamps.
+ */
+function getMissedFollowUpDays(diagnosis: SavedDiagnosis, today: Date): number {
+  if (!diagnosis.isTracked || diagnosis.resolved || !diagnosis.followUpDate) return 0;
+  const followUpDay = formatDate(new Date(diagnosis.followUpDate));
+  if ((diagnosis.entries ?? []).some(e => formatDate(new Date(e.date)) >= followUpDay)) return 0;
+  return Math.max(0, daysBetween(parseDate(followUpDay), today));
+}
+
+const DIAGNOSIS_SEVERITY: Record<string, HealthIssueSeverity> = { severe: 'high', moderate: 'medium', minor: 'low' };
+const TRACKING_SEVERITY: Record<string, HealthIssueSeverity> = { needs_attention: 'high', watching: 'medium' };
+
+/**
+ * v1.3 (HEALTH-02). The scoring model, one row per rule, evaluated in order. Issues and the
+ * breakdown come out in this order too. New rules are new rows — calculatePlantHealth does
+ * not change.
+ */
+export const HEALTH_RULES: readonly HealthRule[] = [
+  {
+    // WATER-06: soil_check plants are not penalized for "overdue watering" (their cadence is
+    // a check-in reminder, not a missed action). Defensive: when waterMode is undefined
+    // (legacy/migration-failure path), preserve PRE-Phase-5 behavior — apply penalty.
+    // v1.3 (SNOOZE-01): a skipped/snoozed watering is a decision, not a miss — no penalty
+    // while the deferral window is open.
+    id: 'overdue_water',
+    evaluate: ({ plant, today, daysUntilWater, weights }) => {
+      if (daysUntilWater >= 0 || plant.waterMode === 'soil_check') return null;
+      if (isDeferralPending(getActiveDeferral(plant, 'water'), today)) return null;
+      const daysOverdue = Math.abs(daysUntilWater);
+      const { base, perDay, maxExtraDays } = weights.overdueWater;
+      return {
+        points: base + Math.min(daysOverdue - 1, maxExtraDays) * perDay,
+        issue: {
+          type: 'overdue_water',
+          severity: daysOverdue > 3 ? 'high' : daysOverdue > 1 ? 'medium' : 'low',
+          message: daysOverdue === 1
+            ? { key: 'alerts.needsWaterSinceYesterday' }
+            : { key: 'alerts.needsWaterDays', params: { days: daysOverdue } },
+          daysSince: daysOverdue,
+        },
+      };
+    },
+  },
+  {
+    id: 'overdue_sun',
+    evaluate: ({ plant, today, todayStr, weights }) => {
+      if (!plant.sunDays.includes(today.getDay()) || plant.sunDoneDate === todayStr) return null;
+      return {
+        points: weights.overdueSun,
+        issue: { type: 'overdue_sun', severity: 'medium', message: { key: 'alerts.sunDayToday' } },
+      };
+    },
+  },
+  {
+    id: 'no_care',
+    evaluate: ({ plant, weights }) => {
+      if (plant.lastWatered || plant.sunDoneDate || plant.outdoorDoneDate) return null;
+      return {
+        points: weights.noCare,
+        issue: { type: 'no_care', severity: 'low', message: { key: 'alerts.neverCared' } },
+      };
+    },
+  },
+  {
+    id: 'frost',
+    evaluate: ({ plant, weather, weights }) => {
+      if (!weather || getTemperatureRisk(weather, plant) !== 'frost') return null;
+      return {
+        points: weights.frost,
+        issue: { type: 'extreme_weather', severity: 'high', message: { key: 'alerts.frostRisk' } },
+      };
+    },
+  },
+  {
+    id: 'heat',
+    evaluate: ({ plant, weather, weights }) => {
+      if (!weather || getTemperatureRisk(weather, plant) !== 'heat') return null;
+      return {
+        points: weights.heat,
+        issue: { type: 'extreme_weather', severity: 'high', message: { key: 'alerts.heatWave' } },
+      };
+    },
+  },
+  {
+    // Strong winds only matter to plants exposed to them.
+    id: 'wind',
+    evaluate: ({ plant, weather, weights }) => {
+      if (!weather || weather.current.windSpeed <= 40 || !getPlacementExposure(plant).wind) return null;
+      return {
+        points: weights.wind,
+        issue: { type: 'extreme_weather', severity: 'medium', message: { key: 'alerts.strongWindOutdoor' } },
+      };
+    },
+  },
+  {
+    // Rain on watering day helps — a note, not a penalty.
+    id: 'rain',
+    evaluate: ({ plant, weather, daysUntilWater }) => {
+      const todayForecast = weather?.daily[0];
+      if (!todayForecast || !getPlacementExposure(plant).rain) return null;
+      if (todayForecast.precipitation <= 10 || daysUntilWater !== 0) return null;
+      return {
+        points: 0,
+        issue: { type: 'extreme_weather', severity: 'low', message: { key: 'alerts.rainNoWater' } },
+      };
+    },
+  },
+  {
+    // Open diagnoses that are not being tracked; tracked ones score by their tracking status.
+    id: 'active_diagnosis',
+    evaluate: ({ diagnoses, weights }) => {
+      const active = diagnoses.filter(d => !d.resolved && !d.isTracked && d.result.overallStatus !== 'healthy');
+      if (active.length === 0) return null;
+      const worst = active.reduce((a, b) =>
+        (weights.diagnosis[b.result.overallStatus as keyof HealthWeights['diagnosis']] ?? 0) >
+        (weights.diagnosis[a.result.overallStatus as keyof HealthWeights['diagnosis']] ?? 0) ? b : a
+      );
+      const message: LocalizedMessage = active.length === 1
+        ? { key: 'health.issue.activeDiagnosis', params: { summary: active[0].result.summary } }
+        : { key: 'health.issue.activeDiagnoses', params: { count: active.length } };
+      return {
+        points: weights.diagnosis[worst.result.overallStatus as keyof HealthWeights['diagnosis']] ?? 0,
+        issue: {
+          type: 'active_diagnosis',
+          severity: DIAGNOSIS_SEVERITY[worst.result.overallStatus] || 'low',
+          message,
+        },
+      };
+    },
+  },
+  {
+    // Fertilizing a few days late is fine; a plant skipped for a whole cycle is not.
+    id: 'overdue_fertilize',
+    evaluate: ({ plant, catalogEntry, today, season, weights }) => {
+      const { graceDays, points, longDays, longPoints } = weights.overdueFertilize;
+      const daysOverdue = getFertilizeOverdueDays(plant, catalogEntry, today, season);
+      if (daysOverdue <= graceDays) return null;
+      const long = daysOverdue > longDays;
+      return {
+        points: long ? longPoints : points,
+        issue: {
+          type: 'overdue_fertilize',
+          severity: long ? 'medium' : 'low',
+          message: { key: 'health.issue.overdueFertilize', params: { count: daysOverdue } },
+          daysSince: daysOverdue,
+        },
+      };
+    },
+  },
+  {
+    // Recovering problems are on their way out; only watching / needs attention cost points.
+    id: 'tracked_problem',
+    evaluate: ({ diagnoses, weights }) => {
+      const weightOf = (d: SavedDiagnosis) =>
+        weights.trackedProblem[d.trackingStatus as keyof HealthWeights['trackedProblem']] ?? 0;
+      const tracked = diagnoses.filter(d => d.isTracked && !d.resolved && weightOf(d) > 0);
+      if (tracked.length === 0) return null;
+      const worst = tracked.reduce((a, b) => (weightOf(b) > weightOf(a) ? b : a));
+      const message: LocalizedMessage = tracked.length === 1
+        ? { key: 'health.issue.trackedProblem', params: { summary: worst.problemSummary || worst.result.summary } }
+        : { key: 'health.issue.trackedProblems', params: { count: tracked.length } };
+      return {
+        points: weightOf(worst),
+        issue: {
+          type: 'tracked_problem',
+          severity: TRACKING_SEVERITY[worst.trackingStatus as string] || 'low',
+          message,
+        },
+      };
+    },
+  },
+  {
+    // A follow-up counts as done once an entry is logged on or after its day.
+    id: 'missed_follow_up',
+    evaluate: ({ diagnoses, today, weights }) => {
+      const missed = diagnoses
+        .map(d => ({ d, daysLate: getMissedFollowUpDays(d, today) }))
+        .filter(m => m.daysLate > 0);
+      if (missed.length === 0) return null;
+      const oldest = missed.reduce((a, b) => (b.daysLate > a.daysLate ? b : a));
+      const message: LocalizedMessage = missed.length === 1
+        ? {
+            key: 'health.issue.missedFollowUp',
+            params: { count: oldest.daysLate, summary: oldest.d.problemSummary || oldest.d.result.summary },
+          }
+        : { key: 'health.issue.missedFollowUps', params: { count: missed.length } };
+      return {
+        points: weights.missedFollowUp,
+        issue: {
+          type: 'missed_follow_up',
+          severity: 'medium',
+          message,
+          daysSince: oldest.daysLate,
+        },
+      };
+    },
+  },
+  {
+    // Only once a repotting has been logged — an unknown date is not a missed one.
+    id: 'overdue_repot',
+    evaluate: ({ plant, today, weights }) => {
+      if (!plant.lastRepotted) return null;
+      const daysSince = daysBetween(parseDate(plant.lastRepotted), today);
+      if (daysSince <= weights.overdueRepot.intervalDays) return null;
+      return {
+        points: weights.overdueRepot.points,
+        issue: {
+          type: 'overdue_repot',
+          severity: 'low',
+          message: { key: 'health.issue.overdueRepot', params: { count: Math.floor(daysSince / 30) } },
+          daysSince,
+        },
+      };
+    },
+  },
+];
+
+export interface HealthModel {
+  rules: readonly HealthRule[];
+  weights: HealthWeights;
+}
+
+export const DEFAULT_HEALTH_MODEL: HealthModel = { rules: HEALTH_RULES, weights: DEFAULT_HEALTH_WEIGHTS };
 
 /**
  * Calculates the health status of a plant based on its care history and weather conditions.
  *
- * Health calculation:
- * - Base: 100 points
- * - -20 if overdue for watering (more days than waterEvery since last watered)
- * - -10 per extra day overdue (max -30 additional)
- * - -15 if today is a sun day and sun care wasn't done
- * - -10 if there are adverse weather conditions for the plant
+ * Starts at 100 and subtracts the points of every rule in the model (HEALTH_RULES with
+ * DEFAULT_HEALTH_WEIGHTS by default). Each rule that costs points is listed in `breakdown`,
+ * so the detail screen can show where the score came from.
  *
  * Levels:
  * - 80-100: excellent
@@ -32,149 +343,39 @@ export function calculatePlantHealth(
   today: Date,
   weather: WeatherData | null,
   diagnoses: SavedDiagnosis[] | undefined,
-  season: WaterSeason
+  season: WaterSeason,
+  model: HealthModel = DEFAULT_HEALTH_MODEL
 ): PlantHealthStatus {
-  let score = 100;
-  const issues: HealthIssue[] = [];
-  const todayStr = formatDate(today);
-
-  // Check water status
-  const nextWaterDate = getNextWaterDate(plant, today, season);
-  const daysUntilWater = daysBetween(today, nextWaterDate);
-
-  // WATER-06: soil_check plants are not penalized for "overdue watering"
-  // (their cadence is a check-in reminder, not a missed action). Defensive:
-  // when waterMode is undefined (legacy/migration-failure path), preserve
-  // PRE-Phase-5 behavior — apply penalty. Pitfall: do NOT skip optimistically
-  // on undefined (per RESEARCH.md anti-pattern).
-  if (daysUntilWater < 0 && plant.waterMode !== 'soil_check') {
-    const daysOverdue = Math.abs(daysUntilWater);
-
-    // -20 for being overdue
-    score -= 20;
-
-    // -10 per extra day (max -30)
-    const extraPenalty = Math.min(daysOverdue - 1, 3) * 10;
-    score -= extraPenalty;
-
-    const severity: HealthIssueSeverity = daysOverdue > 3 ? 'high' : daysOverdue > 1 ? 'medium' : 'low';
-
-    issues.push({
-      type: 'overdue_water',
-      severity,
-      message: daysOverdue === 1
-        ? 'Necesita riego desde ayer'
-        : `Necesita riego hace ${daysOverdue} dias`,
-      daysSince: daysOverdue,
-    });
-  }
-
-  // Check sun care - only if today is a sun day and not done
-  const isSunDay = plant.sunDays.includes(today.getDay());
-  if (isSunDay && plant.sunDoneDate !== todayStr) {
-    score -= 15;
-    issues.push({
-      type: 'overdue_sun',
-      severity: 'medium',
-      message: 'Hoy toca ponerla al sol',
-    });
-  }
-
-  // Check for no care at all
-  if (!plant.lastWatered && !plant.sunDoneDate && !plant.outdoorDoneDate) {
-    score -= 10;
-    issues.push({
-      type: 'no_care',
-      severity: 'low',
-      message: 'Esta planta nunca fue cuidada',
-    });
-  }
-
-  // Check weather conditions if available
-  if (weather) {
-    const temp = weather.current.temperature;
-    const windSpeed = weather.current.windSpeed;
-    const todayForecast = weather.daily[0];
-
-    // Check for extreme cold (frost risk)
-    if (temp < 5 || (todayForecast && todayForecast.tempMin < 3)) {
-      score -= 10;
-      issues.push({
-        type: 'extreme_weather',
-        severity: 'high',
-        message: 'Riesgo de heladas - protege tus plantas',
-      });
-    }
-    // Check for extreme heat
-    else if (temp > 35 || (todayForecast && todayForecast.tempMax > 38)) {
-      score -= 10;
-      issues.push({
-        type: 'extreme_weather',
-        severity: 'high',
-        message: 'Ola de calor - riega temprano o al atardecer',
-      });
-    }
-
-    // Check for strong winds (plants outdoors at risk)
-    if (windSpeed > 40 && plant.outdoorDays.length > 0) {
-      score -= 5;
-      issues.push({
-        type: 'extreme_weather',
-        severity: 'medium',
-        message: 'Viento fuerte - no saques las plantas afuera',
-      });
-    }
-
-    // Check for heavy rain and watering needed
-    if (todayForecast && todayForecast.precipitation > 10 && daysUntilWater === 0) {
-      // This is actually good - rain helps, so we add a positive note
-      // but we keep score neutral
-      issues.push({
-        type: 'extreme_weather',
-        severity: 'low',
-        message: 'Lluvia prevista - quiza no necesites regar',
-      });
-    }
-  }
+  const ctx: HealthRuleContext = {
+    plant,
+    today,
+    todayStr: formatDate(today),
+    season,
+    weather,
+    diagnoses: diagnoses ?? [],
+    catalogEntry: plant.databaseId ? getCatalogEntry(plant.databaseId) : null,
+    daysUntilWater: daysBetween(today, getNextWaterDate(plant, today, season)),
+    weights: model.weights,
+  };
 
-  // Check active diagnoses
-  if (diagnoses && diagnoses.length > 0) {
-    const activeDiagnoses = diagnoses.filter(d => !d.resolved && d.result.overallStatus !== 'healthy');
-    if (activeDiagnoses.length > 0) {
-      // Find worst severity
-      const severityPenalty: Record<string, number> = { severe: 25, moderate: 15, minor: 5 };
-      let worstPenalty = 0;
-      let worstLabel = '';
-      for (const d of activeDiagnoses) {
-        const penalty = severityPenalty[d.result.overallStatus] || 0;
-        if (penalty > worstPenalty) {
-          worstPenalty = penalty;
-          worstLabel = d.result.overallStatus;
-        }
-      }
-      score -= worstPenalty;
-      const severityMap: Record<string, HealthIssueSeverity> = { severe: 'high', moderate: 'medium', minor: 'low' };
-      issues.push({
-        type: 'active_diagnosis',
-        severity: severityMap[worstLabel] || 'low',
-        message: activeDiagnoses.length === 1
-          ? `Diagnostico activo: ${activeDiagnoses[0].result.summary}`
-          : `${activeDiagnoses.length} diagnosticos activos pendientes`,
-      });
-    }
+  const issues: HealthIssue[] = [];
+  const breakdown: HealthContribution[] = [];
+  for (const rule of model.rules) {
+    const result = rule.evaluate(ctx);
+    if (!result) continue;
+    issues.push(result.issue);
+    if (result.points > 0) breakdown.push({ rule: rule.id, points: -result.points });
   }
 
   // Ensure score stays within bounds
-  score = Math.max(0, Math.min(100, score));
-
-  // Determine level based on score
-  const level = getHealthLevel(score);
+  const score = Math.max(0, Math.min(100, breakdown.reduce((sum, c) => sum + c.points, 100)));
 
   return {
     plantId: plant.id,
     score,
-    level,
+    level: getHealthLevel(score),
     issues,
+    breakdown,
   };
 }
 
@@ -221,19 +422,10 @@ export function getHealthBgColor(level: HealthLevel): string {
 }
 
 /**
- * Returns a friendly message for the health level
+ * Returns a friendly message for the health level (v1.3 I18N-02: render with t(key)).
  */
-export function getHealthMessage(level: HealthLevel): string {
-  switch (level) {
-    case 'excellent':
-      return 'Excelente';
-    case 'good':
-      return 'Bien';
-    case 'warning':
-      return 'Necesita atencion';
-    case 'danger':
-      return 'Requiere cuidado urgente';
-  }
+export function getHealthMessage(level: HealthLevel): LocalizedMessage {
+  return { key: `health.${level}` };
 }
 
 /**
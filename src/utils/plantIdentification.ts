@@ -9,6 +9,8 @@ import { sunHoursToLightLevel } from './migration';
 // ============================================================================
 
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getAiRequestHeaders, readFunctionError, QUOTA_EXCEEDED_CODE } from '../services/aiQuotaService';
+import { INVALID_AI_RESPONSE, validateIdentificationResponse } from '../../supabase/functions/_shared/aiValidation';
 
 // Datos de cuidado genéricos por familia/tipo de planta
 const GENERIC_CARE_DATA: Record<string, Partial<IdentifiedPlant>> = {
@@ -397,12 +399,10 @@ export async function identifyPlant(
   try {
     console.log('[PlantID] Calling edge function, image size:', Math.round(imageBase64.length / 1024), 'KB');
     // Llamar a la Edge Function
-    // Usamos la anon key explícitamente para que funcione sin usuario logueado
+    // Sin usuario logueado va la anon key; el device id cuenta el cupo gratuito (QUOTA-01)
     const { data, error } = await supabase.functions.invoke<PlantNetResponse>('identify-plant', {
       body: { imageBase64, organ: 'auto', lang: i18n.language },
-      headers: {
-        Authorization: `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-      },
+      headers: await getAiRequestHeaders(),
     });
     console.log('[PlantID] Edge function returned - data:', !!data, 'error:', !!error);
 
@@ -422,24 +422,25 @@ export async function identifyPlant(
       console.error('[PlantID] Edge function error:', error);
 
       // FunctionsHttpError tiene el response en .context — extraer el mensaje real
-      let reason = i18n.t('identification.serviceConnectionError');
-      try {
-        if (error.context && typeof error.context.json === 'function') {
-          const errorBody = await error.context.json();
-          reason = errorBody?.error || errorBody?.message || reason;
-          console.error('[PlantID] Server response:', errorBody);
-        } else if (error.message) {
-          reason = error.message;
-        }
-      } catch {
-        // If we can't parse the error body, use the default message
+      const { code, reason, message } = await readFunctionError(error, i18n.t('identification.serviceConnectionError'));
+      console.error('[PlantID] Server response:', code, message);
+
+      if (code === INVALID_AI_RESPONSE) {
+        return {
+          success: false,
+          type: 'none',
+          results: [],
+          reason: i18n.t('identification.invalidResponse'),
+          errorCode: reason === 'INVALID_JSON' ? 'INVALID_JSON' : 'INVALID_SHAPE',
+        };
       }
 
       return {
         success: false,
         type: 'none',
         results: [],
-        reason,
+        reason: message,
+        ...(code === QUOTA_EXCEEDED_CODE ? { quotaExceeded: true } : {}),
       };
     }
 
@@ -454,18 +455,32 @@ export async function identifyPlant(
       };
     }
 
+    // v1.3 (AIVAL-01): misma validación que la Edge Function (deploys viejos)
+    const validation = validateIdentificationResponse(data);
+    if (!validation.ok) {
+      console.error('[PlantID] Invalid response:', validation.code, validation.errors);
+      return {
+        success: false,
+        type: 'none',
+        results: [],
+        reason: i18n.t('identification.invalidResponse'),
+        errorCode: validation.code,
+      };
+    }
+    const matches = validation.value;
+
     // Sin resultados (planta no identificada)
-    if (!data?.results || data.results.length === 0) {
+    if (matches.results.length === 0) {
       return {
         success: false,
         type: 'none',
         results: [],
-        reason: data?.message || i18n.t('identification.noMatchesFound'),
+        reason: matches.message || i18n.t('identification.noMatchesFound'),
       };
     }
 
     // Filtrar resultados con confianza > 10%
-    const rawResults = data.results
+    const rawResults = matches.results
       .filter(r => r.score > 0.1)
       .slice(0, 5)
       .map(convertPlantNetResult);
@@ -1,8 +1,8 @@
 import { Plant, PlantDBEntry, Task } from "../types";
-import { parseDate, addDays, isSameDay } from "./dates";
+import { parseDate, addDays, daysBetween, isSameDay } from "./dates";
 import type { WaterSeason } from "./seasonality";
 import { getCatalogEntry } from "../data/plantDatabase";
-import i18n from "../i18n";
+import { getActiveDeferral } from "./taskDeferral";
 
 // ─── POLISH-01 (Phase 23) ───────────────────────────────────────────────────
 /**
@@ -51,6 +51,9 @@ export function getSeasonalInterval(plant: Plant, season: WaterSeason): number {
  * Callers MUST pre-compute season via getEffectiveSeason(location, climateOverride, today)
  * exactly ONCE per render/scheduler tick, then pass to all consumers.
  *
+ * v1.3 (SNOOZE-01): an active skip/snooze deferral restarts the cadence from its
+ * `until` day instead of lastWatered (covers check_soil plants too).
+ *
  * @param plant   The plant.
  * @param today   Reference date.
  * @param season  Pre-computed effective season ('warm' | 'cold' | 'tropical').
@@ -58,6 +61,12 @@ export function getSeasonalInterval(plant: Plant, season: WaterSeason): number {
 export function getNextWaterDate(plant: Plant, today: Date, season: WaterSeason): Date {
   const intervalDays = getSeasonalInterval(plant, season);
   if (intervalDays <= 0) return today;
+  const deferral = getActiveDeferral(plant, 'water');
+  if (deferral) {
+    let deferred = parseDate(deferral.until);
+    while (deferred < today) deferred = addDays(deferred, intervalDays);
+    return deferred;
+  }
   if (!plant.lastWatered) return today;
   const last = parseDate(plant.lastWatered);
   let next = addDays(last, intervalDays);
@@ -83,16 +92,15 @@ export function getTasksForDay(plants: Plant[], day: Date, season: WaterSeason):
         tasks.push({
           type: "check_soil",
           icon: "🤚",
-          label: i18n.t('tasks.checkSoil', { name: p.name }),
+          label: { key: 'tasks.checkSoil', params: { name: p.name } },
           plantId: p.id,
         });
       } else {
-        tasks.push({ type: "water", icon: "💧", label: `Regar ${p.name}`, plantId: p.id });
+        tasks.push({ type: "water", icon: "💧", label: { key: 'tasks.water', params: { name: p.name } }, plantId: p.id });
       }
     }
     if (p.sunDays.includes(day.getDay())) {
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      tasks.push({ type: "sun", icon: "☀️", label: `Sol para ${p.name} (${p.sunHours}h)`, plantId: p.id });
+      tasks.push({ type: "sun", icon: "☀️", label: { key: 'tasks.sun', params: { name: p.name } }, plantId: p.id });
     }
     // POLISH-01: skip outdoor-task emission for plants that already live outdoors permanently.
     // Two-layer defense — POLISH-02 catalog `outdoor: false` ALSO prevents `outdoorDays`
@@ -101,20 +109,21 @@ export function getTasksForDay(plants: Plant[], day: Date, season: WaterSeason):
       p.outdoorDays.includes(day.getDay()) &&
       !OUTDOOR_TYPE_IDS.has(p.typeId)
     ) {
-      tasks.push({ type: "outdoor", icon: "🌤️", label: `Sacar ${p.name}`, plantId: p.id });
+      tasks.push({ type: "outdoor", icon: "🌤️", label: { key: 'tasks.outdoor', params: { name: p.name } }, plantId: p.id });
     }
     // FERT-03/04 — emit fertilize task on cadence (season-aware via warm/cold split).
     // catalogEntry resolved via getCatalogEntry; null for custom plants → no emission.
     // Cold-season dormancy + per-plant fertilizeSchedule.intervalDays override
     // both handled inside getNextFertilizeDate (Plan 20-02). i18n key tasks.fertilize
-    // (landed in Plan 20-00 Task 3) is the user-facing label with {{name}} interpolation.
+    // (landed in Plan 20-00 Task 3) is the user-facing label with {{name}} interpolation,
+    // rendered by the caller (v1.3 I18N-02 — labels are LocalizedMessage, not strings).
     const fertilizeCatalogEntry = p.databaseId ? getCatalogEntry(p.databaseId) : null;
     const nextFertilize = getNextFertilizeDate(p, fertilizeCatalogEntry, day, season);
     if (nextFertilize && isSameDay(nextFertilize, day)) {
       tasks.push({
         type: "fertilize",
         icon: "🌱",
-        label: i18n.t('tasks.fertilize', { name: p.name }),
+        label: { key: 'tasks.fertilize', params: { name: p.name } },
         plantId: p.id,
       });
     }
@@ -167,6 +176,9 @@ export function getSeasonalFertilizeInterval(
  * on due-day, never N (Pitfall: do NOT add an "overdue penalty" — the loop guarantees
  * nextDate >= today, so daysUntil < 0 is dead code by-construction).
  *
+ * v1.3 (SNOOZE-01): an active deferral restarts the cadence from `until`. Dormancy still
+ * wins — a snoozed fertilize task stays silent through the cold season.
+ *
  * @param plant         The plant.
  * @param catalogEntry  Resolved via getCatalogEntry(plant.databaseId) by caller; null for custom plants.
  * @param today         Reference date.
@@ -180,6 +192,12 @@ export function getNextFertilizeDate(
 ): Date | null {
   const intervalDays = getSeasonalFertilizeInterval(plant, catalogEntry, season);
   if (intervalDays == null || intervalDays <= 0) return null;
+  const deferral = getActiveDeferral(plant, 'fertilize');
+  if (deferral) {
+    let deferred = parseDate(deferral.until);
+    while (deferred < today) deferred = addDays(deferred, intervalDays);
+    return deferred;
+  }
   // Never-fertilized plants are due today (mirrors getNextWaterDate first-water behavior).
   const lastFertilized = plant.fertilizeSchedule?.lastFertilized;
   if (!lastFertilized) return today;
@@ -188,3 +206,27 @@ export function getNextFertilizeDate(
   while (next < today) next = addDays(next, intervalDays);
   return next;
 }
+
+/**
+ * v1.3 (HEALTH-03) — Days the plant's fertilizing is past due. getNextFertilizeDate rolls a
+ * missed date forward so the task shows once; this measures from the date it rolled past
+ * (lastFertilized + interval, or the end of an active skip/snooze).
+ *
+ * Returns 0 when not due yet, dormant, without an interval, or never fertilized (due today,
+ * not late).
+ */
+export function getFertilizeOverdueDays(
+  plant: Plant,
+  catalogEntry: PlantDBEntry | null,
+  today: Date,
+  season: WaterSeason
+): number {
+  const intervalDays = getSeasonalFertilizeInterval(plant, catalogEntry, season);
+  if (intervalDays == null || intervalDays <= 0) return 0;
+  const deferral = getActiveDeferral(plant, 'fertilize');
+  const lastFertilized = plant.fertilizeSchedule?.lastFertilized;
+  const due = deferral
+    ? parseDate(deferral.until)
+    : lastFertilized ? addDays(parseDate(lastFertilized), intervalDays) : null;
+  return due ? Math.max(0, daysBetween(due, today)) : 0;
+}
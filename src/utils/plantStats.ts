@@ -0,0 +1,120 @@
+/**
+ * v1.3 (STATS-01). Per-plant statistics for the plant detail — how long the plant has been
+ * in the garden, how often it was really watered and fertilized against its schedule, its
+ * diagnoses, journal and photos — so the owner can judge whether the care plan works.
+ *
+ * Everything is computed from what is already stored: the care log (HIST-01), journal
+ * entries, saved diagnoses and the photo album. Plants have no creation date, so the first
+ * day in the garden is the earliest of the id timestamp (ids are Date.now() at creation) and
+ * the oldest record of any kind. Care before the care log existed is not counted.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { CareEvent, CareTag, JournalEntry, Plant, SavedDiagnosis } from '../types';
+import { daysBetween, formatDate, parseDate } from './dates';
+import { getEffectiveCareEvents } from './careLog';
+
+/** Journal tags in the order the quick-add sheet shows them. */
+const CARE_TAG_ORDER: CareTag[] = ['riego', 'fertilizar', 'sol', 'poda', 'problema', 'otro'];
+
+// Date.now() ids from 2001-09-09 on have 13 digits; anything else is not a timestamp.
+const TIMESTAMP_ID_RE = /^\d{13}$/;
+
+export interface CareIntervalStats {
+  /** Effective events in the care log. */
+  count: number;
+  /** Mean days between consecutive care days; null with fewer than two. */
+  averageDays: number | null;
+  /** Current scheduled interval; null when the plant has none (e.g. no fertilizer plan). */
+  scheduledDays: number | null;
+}
+
+export interface JournalTagCount {
+  tag: CareTag;
+  count: number;
+}
+
+export interface PlantStats {
+  /** First known ISO day of the plant; null when nothing dates it. */
+  since: string | null;
+  /** Days from `since` to today (0 on the first day). */
+  daysInGarden: number | null;
+  watering: CareIntervalStats;
+  fertilizing: CareIntervalStats;
+  diagnoses: { opened: number; resolved: number };
+  journal: { total: number; untagged: number; byTag: JournalTagCount[] };
+  /** Album photos plus journal entries with a photo. */
+  photos: number;
+}
+
+export interface PlantStatsInput {
+  plant: Plant;
+  careEvents?: CareEvent[];
+  journal?: JournalEntry[];
+  diagnoses?: SavedDiagnosis[];
+  /** Scheduled intervals for the current season (getSeasonalInterval / getSeasonalFertilizeInterval). */
+  waterInterval: number | null;
+  fertilizeInterval: number | null;
+  today: Date;
+}
+
+/** ISO day the plant was created, read from a Date.now() id; null for any other id. */
+export function getIdDate(id: string): string | null {
+  if (!TIMESTAMP_ID_RE.test(id)) return null;
+  return formatDate(new Date(Number(id)));
+}
+
+function intervalStats(events: CareEvent[], scheduledDays: number | null): CareIntervalStats {
+  const days = [...new Set(events.map(e => e.date))];
+  let averageDays: number | null = null;
+  if (days.length >= 2) {
+    const span = daysBetween(parseDate(days[0]), parseDate(days[days.length - 1]));
+    averageDays = Math.round((span / (days.length - 1)) * 10) / 10;
+  }
+  return { count: events.length, averageDays, scheduledDays };
+}
+
+export function getPlantStats({
+  plant,
+  careEvents,
+  journal = [],
+  diagnoses = [],
+  waterInterval,
+  fertilizeInterval,
+  today,
+}: PlantStatsInput): PlantStats {
+  const effective = getEffectiveCareEvents(careEvents);
+
+  const dated = [
+    getIdDate(plant.id),
+    ...effective.map(e => e.date),
+    ...journal.map(e => e.date),
+    ...diagnoses.map(d => d.date),
+    ...(plant.photos ?? []).map(p => p.date),
+  ]
+    .filter((d): d is string => !!d)
+    .map(d => d.slice(0, 10))
+    .sort();
+  const since = dated.length > 0 ? dated[0] : null;
+
+  const byTag = CARE_TAG_ORDER
+    .map(tag => ({ tag, count: journal.filter(e => e.careTag === tag).length }))
+    .filter(t => t.count > 0);
+
+  return {
+    since,
+    daysInGarden: since ? Math.max(0, daysBetween(parseDate(since), today)) : null,
+    watering: intervalStats(effective.filter(e => e.type === 'water'), waterInterval),
+    fertilizing: intervalStats(effective.filter(e => e.type === 'fertilize'), fertilizeInterval),
+    diagnoses: {
+      opened: diagnoses.length,
+      resolved: diagnoses.filter(d => d.resolved).length,
+    },
+    journal: {
+      total: journal.length,
+      untagged: journal.filter(e => !e.careTag).length,
+      byTag,
+    },
+    photos: (plant.photos ?? []).length + journal.filter(e => e.photoUri).length,
+  };
+}
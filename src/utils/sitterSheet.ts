@@ -0,0 +1,268 @@
+/**
+ * v1.3 (SITTER-01). Plant-sitter handoff sheet — a care sheet for whoever looks after the
+ * plants while the owner is away.
+ *
+ * buildSitterSheet turns Plant records into one row per plant, grouped by space: the
+ * watering (or soil check-in) days inside the window from getNextWaterDate, fertilizing from
+ * getNextFertilizeDate when it falls inside the window, the light label, the catalog
+ * careAction copy and the pet-toxicity level. The window runs to the return day of a
+ * planned trip, else SITTER_SHEET_DEFAULT_DAYS ahead.
+ *
+ * renderSitterSheetHtml writes the sheet as one self-contained HTML document — inline CSS,
+ * photos as data URIs, no scripts — so it opens in any browser or messaging app and prints
+ * cleanly, without the app installed.
+ *
+ * Pure functions — no React, no async. File writing and sharing live in
+ * services/sitterSheetService.ts.
+ */
+import type { Garden, Plant, ToxLevel, VacationPlan, WaterMode } from '../types';
+import type { WaterSeason } from './seasonality';
+import { addDays, formatDate, parseDate } from './dates';
+import { getNextFertilizeDate, getNextWaterDate, getSeasonalInterval } from './plantLogic';
+import { getLightLabel } from './lightLabel';
+import { getPetToxicity, shouldShowBadge } from './petToxicity';
+import { getPlantGardenId, HOME_GARDEN_ID } from './gardens';
+import { getCatalogEntry, getTranslatedPlant } from '../data/plantDatabase';
+
+/** Days the sheet covers when no trip is planned. */
+export const SITTER_SHEET_DEFAULT_DAYS = 14;
+export const SITTER_SHEET_FILE_PREFIX = 'plant-sitter-sheet';
+
+type Translator = (key: string, options?: Record<string, unknown>) => string;
+
+export interface SitterSheetPlant {
+  plantId: string;
+  name: string;
+  icon: string;
+  typeName: string;
+  waterMode: WaterMode;
+  /** ISO days inside the window the plant needs water (or a soil check). */
+  waterDates: string[];
+  /** First watering day, even when it falls after the window. */
+  nextWater: string;
+  /** ISO day of the next fertilizing when it falls inside the window. */
+  fertilizeDate: string | null;
+  lightLabel: string;
+  careAction: string | null;
+  toxicity: { cats: ToxLevel; dogs: ToxLevel };
+}
+
+export interface SitterSheetGroup {
+  gardenId: string;
+  name: string;
+  icon: string;
+  plants: SitterSheetPlant[];
+}
+
+export interface SitterSheet {
+  /** First and last ISO day covered, both inclusive. */
+  from: string;
+  until: string;
+  groups: SitterSheetGroup[];
+}
+
+/**
+ * Days the sheet covers: today through the day before a pending trip's return, or the next
+ * SITTER_SHEET_DEFAULT_DAYS when no trip is planned.
+ */
+export function getSitterSheetWindow(
+  vacation: VacationPlan | null | undefined,
+  today: Date
+): { from: string; until: string } {
+  const from = formatDate(today);
+  if (vacation && from < vacation.returnDate) {
+    return { from, until: formatDate(addDays(parseDate(vacation.returnDate), -1)) };
+  }
+  return { from, until: formatDate(addDays(today, SITTER_SHEET_DEFAULT_DAYS - 1)) };
+}
+
+function buildSitterSheetPlant(
+  plant: Plant,
+  today: Date,
+  until: string,
+  season: WaterSeason,
+  t: Translator
+): SitterSheetPlant {
+  const rawEntry = plant.databaseId ? getCatalogEntry(plant.databaseId) : null;
+  const entry = rawEntry ? getTranslatedPlant(rawEntry) : null;
+  const waterMode: WaterMode = plant.waterMode ?? 'fixed';
+
+  const nextWater = getNextWaterDate(plant, today, season);
+  const interval = getSeasonalInterval(plant, season);
+  const waterDates: string[] = [];
+  for (let d = nextWater; formatDate(d) <= until; d = addDays(d, interval)) {
+    waterDates.push(formatDate(d));
+  }
+
+  const nextFertilize = getNextFertilizeDate(plant, rawEntry, today, season);
+  const fertilizeDate = nextFertilize && formatDate(nextFertilize) <= until ? formatDate(nextFertilize) : null;
+
+  const careAction = waterMode === 'soil_check'
+    ? entry?.careAction?.soilCheck ?? entry?.careAction?.fixed
+    : entry?.careAction?.fixed ?? entry?.careAction?.soilCheck;
+
+  return {
+    plantId: plant.id,
+    name: plant.name,
+    icon: plant.icon,
+    typeName: plant.typeName,
+    waterMode,
+    waterDates,
+    nextWater: formatDate(nextWater),
+    fertilizeDate,
+    lightLabel: getLightLabel(plant, t),
+    careAction: careAction ?? null,
+    toxicity: getPetToxicity(rawEntry),
+  };
+}
+
+/**
+ * One row per plant, grouped by space (home first, then spaces in their saved order; empty
+ * spaces are left out). Inside a space, plants that need water soonest come first.
+ */
+export function buildSitterSheet(
+  plants: Plant[],
+  gardens: Garden[],
+  window: { from: string; until: string },
+  season: WaterSeason,
+  t: Translator
+): SitterSheet {
+  const today = parseDate(window.from);
+  const spaces = [
+    { gardenId: HOME_GARDEN_ID, name: t('gardens.home'), icon: '🏠' },
+    ...gardens.map(g => ({ gardenId: g.id, name: g.name, icon: g.icon })),
+  ];
+  const known = new Set(spaces.map(s => s.gardenId));
+
+  const groups: SitterSheetGroup[] = [];
+  for (const space of spaces) {
+    const rows = plants
+      .filter(p => {
+        const gardenId = getPlantGardenId(p);
+        return known.has(gardenId) ? gardenId === space.gardenId : space.gardenId === HOME_GARDEN_ID;
+      })
+      .map(p => buildSitterSheetPlant(p, today, window.until, season, t))
+      .sort((a, b) => a.nextWater.localeCompare(b.nextWater) || a.name.localeCompare(b.name));
+    if (rows.length > 0) groups.push({ ...space, plants: rows });
+  }
+  return { ...window, groups };
+}
+
+/** Plants that warrant a pet warning (toxic or caution for either species). */
+export function countPetWarnings(sheet: SitterSheet): number {
+  let count = 0;
+  for (const group of sheet.groups) {
+    for (const row of group.plants) {
+      if (shouldShowBadge(row.toxicity.cats) || shouldShowBadge(row.toxicity.dogs)) count++;
+    }
+  }
+  return count;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function getSitterSheetFileName(date: string): string {
+  return `${SITTER_SHEET_FILE_PREFIX}-${date}.html`;
+}
+
+const SHEET_CSS = `
+body{font-family:-apple-system,"Segoe UI",Roboto,Helvetica,Arial,sans-serif;color:#2d3a2e;background:#f7f5ef;margin:0;padding:16px;line-height:1.45}
+main{max-width:720px;margin:0 auto}
+h1{font-size:24px;margin:0 0 4px}
+h2{font-size:18px;margin:24px 0 8px;padding-bottom:4px;border-bottom:2px solid #c9d8c5}
+.intro,.muted{color:#5f6b60}
+.alert{background:#fdecea;color:#8a1c12;border-radius:10px;padding:10px 12px;margin:12px 0}
+.plant{background:#fff;border-radius:12px;padding:12px;margin:0 0 12px;page-break-inside:avoid;break-inside:avoid}
+.head{display:flex;align-items:center;gap:12px}
+.head img{width:64px;height:64px;object-fit:cover;border-radius:10px}
+.icon{font-size:32px}
+.name{font-size:17px;font-weight:600}
+.line{margin:6px 0 0}
+.days{display:flex;flex-wrap:wrap;gap:6px;margin:6px 0 0;padding:0;list-style:none}
+.days li{border:1px solid #7aa874;border-radius:8px;padding:2px 8px;font-size:14px}
+.warn{color:#8a1c12;font-weight:600}
+footer{margin-top:24px;font-size:13px}
+@media print{body{background:#fff;padding:0}.plant{border:1px solid #ddd}}
+`;
+
+export interface SitterSheetRenderOptions {
+  t: Translator;
+  /** BCP-47 tag for the dates and the document language. */
+  locale: string;
+  /** Plant id → image data URI. Plants without one show their icon. */
+  photos?: Record<string, string>;
+  /** When the sheet was made (ISO day). */
+  generatedOn: string;
+}
+
+/** The sheet as a standalone HTML document. Every user-provided string is escaped. */
+export function renderSitterSheetHtml(sheet: SitterSheet, options: SitterSheetRenderOptions): string {
+  const { t, locale, photos = {}, generatedOn } = options;
+  const day = (iso: string) =>
+    parseDate(iso).toLocaleDateString(locale, { weekday: 'short', day: 'numeric', month: 'short' });
+  const plantCount = sheet.groups.reduce((sum, g) => sum + g.plants.length, 0);
+  const petWarnings = countPetWarnings(sheet);
+
+  const renderToxicity = (row: SitterSheetPlant): string => {
+    const lines = (['cats', 'dogs'] as const)
+      .filter(species => shouldShowBadge(row.toxicity[species]))
+      .map(species => t(
+        row.toxicity[species] === 'toxic' ? 'toxicity.toxicForSpecies' : 'toxicity.cautionForSpecies',
+        { species: t(`toxicity.species.${species}`) }
+      ));
+    if (lines.length === 0) return '';
+    return `<p class="line warn">⚠️ ${escapeHtml(lines.join(' '))} ${escapeHtml(t('sitterSheet.keepAway'))}</p>`;
+  };
+
+  const renderPlant = (row: SitterSheetPlant): string => {
+    const photo = photos[row.plantId];
+    const picture = photo
+      ? `<img src="${escapeHtml(photo)}" alt="">`
+      : `<span class="icon">${escapeHtml(row.icon)}</span>`;
+    const soil = row.waterMode === 'soil_check';
+    const water = row.waterDates.length > 0
+      ? `<p class="line">${escapeHtml(t(soil ? 'sitterSheet.checkSoilOn' : 'sitterSheet.waterOn'))}</p>` +
+        `<ul class="days">${row.waterDates.map(d => `<li>${escapeHtml(day(d))}</li>`).join('')}</ul>`
+      : `<p class="line">${escapeHtml(t('sitterSheet.noWater', { date: day(row.nextWater) }))}</p>`;
+    const fertilize = row.fertilizeDate
+      ? `<p class="line">${escapeHtml(t('sitterSheet.fertilizeOn', { date: day(row.fertilizeDate) }))}</p>`
+      : '';
+    const careAction = row.careAction
+      ? `<p class="line">${escapeHtml(t('sitterSheet.howTo', { text: row.careAction }))}</p>`
+      : '';
+    return `<section class="plant">` +
+      `<div class="head">${picture}<div><div class="name">${escapeHtml(row.name)}</div>` +
+      `<div class="muted">${escapeHtml(row.typeName)}</div></div></div>` +
+      water + fertilize +
+      `<p class="line">${escapeHtml(t('sitterSheet.light', { label: row.lightLabel }))}</p>` +
+      careAction + renderToxicity(row) +
+      `</section>`;
+  };
+
+  const groups = sheet.groups.map(group => {
+    const heading = sheet.groups.length > 1
+      ? `<h2>${escapeHtml(`${group.icon} ${group.name}`)}</h2>`
+      : '';
+    return heading + group.plants.map(renderPlant).join('');
+  }).join('');
+
+  return '<!DOCTYPE html>' +
+    `<html lang="${escapeHtml(locale)}"><head><meta charset="utf-8">` +
+    '<meta name="viewport" content="width=device-width, initial-scale=1">' +
+    `<title>${escapeHtml(t('sitterSheet.title'))}</title><style>${SHEET_CSS}</style></head>` +
+    '<body><main>' +
+    `<h1>🪴 ${escapeHtml(t('sitterSheet.title'))}</h1>` +
+    `<p class="intro">${escapeHtml(t('sitterSheet.intro', { count: plantCount, from: day(sheet.from), until: day(sheet.until) }))}</p>` +
+    (petWarnings > 0 ? `<p class="alert">⚠️ ${escapeHtml(t('sitterSheet.petSummary', { count: petWarnings }))}</p>` : '') +
+    groups +
+    `<footer class="muted"><p>${escapeHtml(t('sitterSheet.wetSoil'))}</p>` +
+    `<p>${escapeHtml(t('sitterSheet.generated', { date: day(generatedOn) }))}</p></footer>` +
+    '</main></body></html>';
+}
@@ -0,0 +1,477 @@
+/**
+ * v1.3 (SYNC-01). Local ⇄ Supabase row converters for cloud sync.
+ *
+ * Everything the device stores for a garden round-trips: plants with their v1.1+ care
+ * fields, notes, reminders, spaces, journal entries, diagnoses, the shopping list, the care
+ * history and the climate override. Row shapes mirror supabase/migrations/006_full_sync.sql.
+ *
+ * Plants no longer write the legacy water_every / sun_hours columns. Rows synced by an older
+ * build have no water_schedule yet; dbToPlant upgrades them with migratePlant_0to1, the same
+ * path a pre-v1.1 local store takes on launch.
+ *
+ * Plant and journal photo URIs are device-local files; they travel with their user-photos
+ * bucket path once uploaded (v1.3 SYNC-03, utils/photoQueue.ts) and other devices download
+ * that. Diagnosis image URIs are synced as-is and only resolve on the phone that took them.
+ *
+ * Gardens and care events of another account (shared gardens, v1.3 HOUSE-01) come back
+ * marked with who they belong to / who logged them; `selfId` is the signed-in user and
+ * `names` maps user ids to profile names.
+ *
+ * Pure functions — no React, no Supabase client. Network calls live in
+ * services/syncService.ts.
+ */
+import type {
+  AppData,
+  CareEvent,
+  ClimateOverride,
+  Garden,
+  JournalEntry,
+  Location,
+  Note,
+  NotificationSettings,
+  Plant,
+  PlantPhoto,
+  Reminder,
+  SavedDiagnosis,
+  ShoppingItem,
+  SyncTombstone,
+} from '../types';
+import type {
+  DbCareEvent,
+  DbCareEventInsert,
+  DbDiagnosis,
+  DbDiagnosisInsert,
+  DbGarden,
+  DbGardenInsert,
+  DbJournalEntry,
+  DbJournalEntryInsert,
+  DbNote,
+  DbNoteInsert,
+  DbPlant,
+  DbPlantInsert,
+  DbReminder,
+  DbReminderInsert,
+  DbShoppingItem,
+  DbShoppingItemInsert,
+  DbSyncTombstone,
+  DbSyncTombstoneInsert,
+  DbUserSettings,
+  DbUserSettingsInsert,
+} from '../types/database';
+import { migratePlant_0to1 } from './migration';
+
+/** The slice of AppData that is synced to the cloud. */
+export interface CloudData {
+  plants: Plant[];
+  notes: Record<string, Note[]>;
+  reminders: Record<string, Reminder[]>;
+  location: Location | null;
+  notificationSettings: NotificationSettings | null;
+  plantNetApiKey: string | null;
+  gardens: Garden[];
+  /** null = no settings row in the cloud yet (download keeps the local value). */
+  climateOverride: ClimateOverride | null;
+  journals: Record<string, JournalEntry[]>;
+  diagnosisHistory: Record<string, SavedDiagnosis[]>;
+  shoppingList: ShoppingItem[];
+  careLog: Record<string, CareEvent[]>;
+  /** v1.3 (SYNC-02) — deletions of plants / notes / reminders. */
+  tombstones: SyncTombstone[];
+}
+
+/** The synced slice of a store snapshot — the same record objects, so identities match. */
+export function toCloudData(data: AppData): CloudData {
+  return {
+    plants: data.plants,
+    notes: data.notes,
+    reminders: data.reminders,
+    location: data.location,
+    notificationSettings: data.notificationSettings,
+    plantNetApiKey: data.plantNetApiKey,
+    gardens: data.gardens ?? [],
+    climateOverride: data.climateOverride ?? 'auto',
+    journals: data.journals ?? {},
+    diagnosisHistory: data.diagnosisHistory,
+    shoppingList: data.shoppingList,
+    careLog: data.careLog ?? {},
+    tombstones: data.syncTombstones ?? [],
+  };
+}
+
+// === Plants ===
+
+export function plantToDb(plant: Plant, userId: string, now: Date): DbPlantInsert {
+  return {
+    user_id: userId,
+    local_id: plant.id,
+    name: plant.name,
+    type_id: plant.typeId,
+    type_name: plant.typeName,
+    icon: plant.icon,
+    sun_days: plant.sunDays,
+    outdoor_days: plant.outdoorDays,
+    last_watered: plant.lastWatered,
+    sun_done_date: plant.sunDoneDate,
+    outdoor_done_date: plant.outdoorDoneDate,
+    temp_min: plant.tempMin ?? null,
+    temp_max: plant.tempMax ?? null,
+    humidity: plant.humidity ?? null,
+    favorite: plant.favorite ?? null,
+    image_url: plant.imageUrl ?? null,
+    database_id: plant.databaseId ?? null,
+    photos: plant.photos ? JSON.stringify(plant.photos) : null,
+    garden_id: plant.gardenId ?? null,
+    water_schedule: plant.waterSchedule ?? null,
+    light_level: plant.lightLevel ?? null,
+    water_mode: plant.waterMode ?? null,
+    fertilize_schedule: plant.fertilizeSchedule ?? null,
+    task_deferrals: plant.taskDeferrals ?? null,
+    placement: plant.placement ?? null,
+    last_repotted: plant.lastRepotted ?? null,
+    updated_at: plant.updatedAt ?? now.toISOString(),
+  };
+}
+
+export function dbToPlant(dbPlant: DbPlant): Plant {
+  let photos: PlantPhoto[] | undefined;
+  if (dbPlant.photos) {
+    try {
+      photos = JSON.parse(dbPlant.photos);
+    } catch {
+      photos = undefined;
+    }
+  }
+
+  const plant: Plant = {
+    id: dbPlant.local_id,
+    name: dbPlant.name,
+    typeId: dbPlant.type_id,
+    typeName: dbPlant.type_name,
+    icon: dbPlant.icon,
+    sunDays: dbPlant.sun_days,
+    outdoorDays: dbPlant.outdoor_days,
+    lastWatered: dbPlant.last_watered,
+    sunDoneDate: dbPlant.sun_done_date,
+    outdoorDoneDate: dbPlant.outdoor_done_date,
+    updatedAt: dbPlant.updated_at,
+  };
+  if (dbPlant.temp_min !== null) plant.tempMin = dbPlant.temp_min;
+  if (dbPlant.temp_max !== null) plant.tempMax = dbPlant.temp_max;
+  if (dbPlant.humidity !== null) plant.humidity = dbPlant.humidity;
+  if (dbPlant.favorite !== null) plant.favorite = dbPlant.favorite;
+  if (dbPlant.image_url !== null) plant.imageUrl = dbPlant.image_url;
+  if (dbPlant.database_id !== null) plant.databaseId = dbPlant.database_id;
+  if (photos) plant.photos = photos;
+  if (dbPlant.garden_id !== null) plant.gardenId = dbPlant.garden_id;
+  if (dbPlant.water_schedule !== null) plant.waterSchedule = dbPlant.water_schedule;
+  if (dbPlant.light_level !== null) plant.lightLevel = dbPlant.light_level;
+  if (dbPlant.water_mode !== null) plant.waterMode = dbPlant.water_mode;
+  if (dbPlant.fertilize_schedule !== null) plant.fertilizeSchedule = dbPlant.fertilize_schedule;
+  if (dbPlant.task_deferrals !== null) plant.taskDeferrals = dbPlant.task_deferrals;
+  if (dbPlant.placement !== null) plant.placement = dbPlant.placement;
+  if (dbPlant.last_repotted != null) plant.lastRepotted = dbPlant.last_repotted;
+
+  if (plant.waterSchedule && plant.lightLevel && plant.waterMode) return plant;
+  // Row written by a pre-SYNC-01 build: derive the v1.1 fields from the legacy columns.
+  return migratePlant_0to1({
+    ...plant,
+    waterEvery: dbPlant.water_every ?? undefined,
+    sunHours: dbPlant.sun_hours ?? undefined,
+  });
+}
+
+// === Gardens (v1.3 GARDEN-01) ===
+
+export function gardenToDb(garden: Garden, userId: string, now: Date): DbGardenInsert & { updated_at: string } {
+  return {
+    user_id: userId,
+    local_id: garden.id,
+    name: garden.name,
+    icon: garden.icon,
+    location_lat: garden.location?.lat ?? null,
+    location_lon: garden.location?.lon ?? null,
+    location_name: garden.location?.name ?? null,
+    location_country: garden.location?.country ?? null,
+    location_admin1: garden.location?.admin1 ?? null,
+    climate_override: garden.climateOverride,
+    updated_at: garden.updatedAt ?? now.toISOString(),
+  };
+}
+
+export function dbToGarden(
+  dbGarden: DbGarden,
+  selfId?: string,
+  names?: ReadonlyMap<string, string | null>
+): Garden {
+  const hasLocation =
+    dbGarden.location_lat !== null && dbGarden.location_lon !== null && dbGarden.location_name !== null;
+  const garden: Garden = {
+    id: dbGarden.local_id,
+    name: dbGarden.name,
+    icon: dbGarden.icon,
+    location: hasLocation
+      ? {
+          lat: dbGarden.location_lat as number,
+          lon: dbGarden.location_lon as number,
+          name: dbGarden.location_name as string,
+          country: dbGarden.location_country ?? '',
+          admin1: dbGarden.location_admin1 ?? undefined,
+        }
+      : null,
+    climateOverride: dbGarden.climate_override ?? 'auto',
+    updatedAt: dbGarden.updated_at,
+  };
+  if (selfId && dbGarden.user_id !== selfId) {
+    garden.sharedBy = { userId: dbGarden.user_id, name: names?.get(dbGarden.user_id) ?? null };
+  }
+  return garden;
+}
+
+// === Notes & reminders (keyed by calendar date) ===
+
+export function noteToDb(note: Note, date: string, userId: string, now: Date): DbNoteInsert {
+  return {
+    user_id: userId,
+    local_id: note.id,
+    date,
+    text: note.text,
+    updated_at: note.updatedAt ?? now.toISOString(),
+  };
+}
+
+export function dbToNote(dbNote: DbNote): Note {
+  const note: Note = {
+    id: dbNote.local_id,
+    text: dbNote.text,
+    createdAt: dbNote.created_at,
+  };
+  if (dbNote.updated_at !== null) note.updatedAt = dbNote.updated_at;
+  return note;
+}
+
+export function reminderToDb(reminder: Reminder, date: string, userId: string, now: Date): DbReminderInsert {
+  return {
+    user_id: userId,
+    local_id: reminder.id,
+    date,
+    text: reminder.text,
+    time: reminder.time,
+    done: reminder.done,
+    updated_at: reminder.updatedAt ?? now.toISOString(),
+  };
+}
+
+export function dbToReminder(dbReminder: DbReminder): Reminder {
+  const reminder: Reminder = {
+    id: dbReminder.local_id,
+    text: dbReminder.text,
+    time: dbReminder.time,
+    done: dbReminder.done,
+  };
+  if (dbReminder.updated_at !== null) reminder.updatedAt = dbReminder.updated_at;
+  return reminder;
+}
+
+// === Tombstones (v1.3 SYNC-02) ===
+
+export function tombstoneToDb(tombstone: SyncTombstone, userId: string): DbSyncTombstoneInsert {
+  return {
+    user_id: userId,
+    kind: tombstone.kind,
+    local_id: tombstone.id,
+    deleted_at: tombstone.deletedAt,
+  };
+}
+
+export function dbToTombstone(row: DbSyncTombstone): SyncTombstone {
+  return { kind: row.kind, id: row.local_id, deletedAt: row.deleted_at };
+}
+
+// === Journal entries (v1.2 JOURNAL-01, keyed by plant id) ===
+
+export function journalEntryToDb(entry: JournalEntry, plantId: string, userId: string, now: Date): DbJournalEntryInsert {
+  return {
+    user_id: userId,
+    local_id: entry.id,
+    plant_local_id: plantId,
+    date: entry.date,
+    text: entry.text ?? null,
+    photo_uri: entry.photoUri ?? null,
+    photo_path: entry.photoRemotePath ?? null,
+    care_tag: entry.careTag ?? null,
+    updated_at: entry.updatedAt ?? now.toISOString(),
+  };
+}
+
+export function dbToJournalEntry(row: DbJournalEntry): JournalEntry {
+  const entry: JournalEntry = { id: row.local_id, date: row.date };
+  if (row.text !== null) entry.text = row.text;
+  if (row.photo_uri !== null) entry.photoUri = row.photo_uri;
+  if (row.photo_path) entry.photoRemotePath = row.photo_path;
+  if (row.care_tag !== null) entry.careTag = row.care_tag;
+  entry.updatedAt = row.updated_at;
+  return entry;
+}
+
+// === Diagnoses (full SavedDiagnosis in payload) ===
+
+export function diagnosisToDb(diagnosis: SavedDiagnosis, plantId: string, userId: string, now: Date): DbDiagnosisInsert {
+  return {
+    user_id: userId,
+    local_id: diagnosis.id,
+    plant_local_id: plantId,
+    date: diagnosis.date,
+    resolved: diagnosis.resolved,
+    payload: diagnosis,
+    updated_at: diagnosis.updatedAt ?? now.toISOString(),
+  };
+}
+
+export function dbToDiagnosis(row: DbDiagnosis): SavedDiagnosis {
+  return {
+    ...row.payload,
+    id: row.local_id,
+    plantId: row.plant_local_id,
+    resolved: row.resolved,
+    updatedAt: row.updated_at,
+  };
+}
+
+// === Shopping list ===
+
+export function shoppingItemToDb(item: ShoppingItem, userId: string, now: Date): DbShoppingItemInsert {
+  return {
+    user_id: userId,
+    local_id: item.id,
+    text: item.text,
+    diagnosis_id: item.diagnosisId,
+    plant_local_id: item.plantId,
+    plant_name: item.plantName,
+    checked: item.checked,
+    created_at: item.createdAt,
+    updated_at: item.updatedAt ?? now.toISOString(),
+  };
+}
+
+export function dbToShoppingItem(row: DbShoppingItem): ShoppingItem {
+  const item: ShoppingItem = {
+    id: row.local_id,
+    text: row.text,
+    diagnosisId: row.diagnosis_id,
+    plantId: row.plant_local_id,
+    plantName: row.plant_name,
+    checked: row.checked,
+    createdAt: row.created_at,
+  };
+  if (row.updated_at !== null) item.updatedAt = row.updated_at;
+  return item;
+}
+
+// === Care history (v1.3 HIST-01, append-only) ===
+
+export function careEventToDb(event: CareEvent, plantId: string, userId: string): DbCareEventInsert {
+  return {
+    user_id: userId,
+    local_id: event.id,
+    plant_local_id: plantId,
+    type: event.type,
+    date: event.date,
+    logged_at: event.timestamp,
+    source: event.source,
+    undoes: event.undoes ?? null,
+  };
+}
+
+export function dbToCareEvent(
+  row: DbCareEvent,
+  selfId?: string,
+  names?: ReadonlyMap<string, string | null>
+): CareEvent {
+  const event: CareEvent = {
+    id: row.local_id,
+    type: row.type,
+    date: row.date,
+    timestamp: row.logged_at,
+    source: row.source,
+  };
+  if (row.undoes !== null) event.undoes = row.undoes;
+  if (selfId && row.done_by && row.done_by !== selfId) {
+    event.by = { userId: row.done_by, name: names?.get(row.done_by) ?? null };
+  }
+  return event;
+}
+
+// === User settings ===
+
+export function settingsToDb(data: CloudData, userId: string, now: Date): DbUserSettingsInsert & { updated_at: string } {
+  return {
+    user_id: userId,
+    location_lat: data.location?.lat ?? null,
+    location_lon: data.location?.lon ?? null,
+    location_name: data.location?.name ?? null,
+    location_country: data.location?.country ?? null,
+    location_admin1: data.location?.admin1 ?? null,
+    notification_enabled: data.notificationSettings?.enabled ?? false,
+    notification_morning_time: data.notificationSettings?.morningTime ?? '08:00',
+    notification_weather_alerts: data.notificationSettings?.weatherAlerts ?? false,
+    notification_care_reminders: data.notificationSettings?.careReminders ?? false,
+    notification_morning_reminder: data.notificationSettings?.morningReminder ?? false,
+    notification_fertilize_reminders: data.notificationSettings?.fertilizeReminders ?? false,
+    notification_weekly_summary: data.notificationSettings?.weeklySummary ?? false,
+    plantnet_api_key: data.plantNetApiKey,
+    climate_override: data.climateOverride ?? 'auto',
+    updated_at: now.toISOString(),
+  };
+}
+
+export function dbToSettings(settings: DbUserSettings): Pick<
+  CloudData,
+  'location' | 'notificationSettings' | 'plantNetApiKey' | 'climateOverride'
+> {
+  let location: Location | null = null;
+  if (settings.location_lat && settings.location_lon && settings.location_name) {
+    location = {
+      lat: settings.location_lat,
+      lon: settings.location_lon,
+      name: settings.location_name,
+      country: settings.location_country ?? '',
+      admin1: settings.location_admin1 ?? undefined,
+    };
+  }
+  return {
+    location,
+    notificationSettings: {
+      enabled: settings.notification_enabled,
+      morningReminder: settings.notification_morning_reminder,
+      morningTime: settings.notification_morning_time,
+      weatherAlerts: settings.notification_weather_alerts,
+      careReminders: settings.notification_care_reminders,
+      fertilizeReminders: settings.notification_fertilize_reminders ?? false,
+      weeklySummary: settings.notification_weekly_summary ?? false,
+    },
+    plantNetApiKey: settings.plantnet_api_key,
+    climateOverride: settings.climate_override ?? 'auto',
+  };
+}
+
+// === Grouping helpers ===
+
+/** Flattens a `Record<key, T[]>` into rows via `toRow(item, key)`. */
+export function flattenKeyed<T, R>(record: Record<string, T[]>, toRow: (item: T, key: string) => R): R[] {
+  const rows: R[] = [];
+  for (const [key, items] of Object.entries(record)) {
+    for (const item of items) rows.push(toRow(item, key));
+  }
+  return rows;
+}
+
+/** Groups rows back into a `Record<key, T[]>`, preserving row order within each key. */
+export function groupByKey<R, T>(rows: R[], keyOf: (row: R) => string, fromRow: (row: R) => T): Record<string, T[]> {
+  const record: Record<string, T[]> = {};
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!record[key]) record[key] = [];
+    record[key].push(fromRow(row));
+  }
+  return record;
+}
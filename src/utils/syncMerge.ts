@@ -0,0 +1,462 @@
+/**
+ * v1.3 (SYNC-02). Conflict-aware two-way merge for cloud sync.
+ *
+ * Plants, notes, reminders, spaces, journal entries, diagnoses and shopping items carry
+ * `updatedAt` (stamped locally on every write by stampRecords) and deletions of any synced record leave a SyncTombstone (recordDeletions,
+ * recordPerPlantDeletions). On download the cloud records and tombstones are merged into the
+ * local store with these rules:
+ *
+ *  - Same record on both sides → the newer `updatedAt` wins. Ties (including two legacy
+ *    records with no timestamp) are broken by content, so every device picks the same side.
+ *  - Plants use a field merge on top of that (MERGE_POLICY): care progress is monotonic, so
+ *    `lastWatered`, `fertilizeSchedule.lastFertilized` and `lastRepotted` keep the later date
+ *    from either side — watering on one phone while renaming on the other keeps both.
+ *  - A tombstone removes the record unless the record was edited after the deletion; in that
+ *    case the edit wins and the tombstone is dropped.
+ *  - A record present on only one side is kept — the remote set may be an incremental
+ *    download, so absence never means deletion. Only tombstones delete.
+ *  - Except shared gardens (v1.3 HOUSE-01): gardens always download whole, so a garden shared
+ *    with this account that is missing from the download was unshared. It leaves with its
+ *    plants.
+ *
+ * The care history is append-only and has no timestamps: it is unioned by id, local copy
+ * first, minus tombstoned ids — with nothing to compare, a tombstone always deletes. A deleted
+ * plant takes its per-plant collections with it, mirroring deletePlant in useStorage.
+ *
+ * Pure functions — no React, no Supabase, no clock reads (callers pass `now`).
+ */
+import type {
+  AppData,
+  CareEvent,
+  Garden,
+  JournalEntry,
+  Plant,
+  SavedDiagnosis,
+  ShoppingItem,
+  SyncRecordKind,
+  SyncTombstone,
+} from '../types';
+import type { CloudData } from './syncConverters';
+
+/** Tombstones older than this are pruned — every active device has synced by then. */
+export const TOMBSTONE_TTL_DAYS = 90;
+
+/** 'union' = no timestamps: both sides' records are kept by id, local copy first. */
+export type MergePolicy = 'last_writer_wins' | 'field_merge' | 'union';
+
+export const MERGE_POLICY: Record<SyncRecordKind, MergePolicy> = {
+  plant: 'field_merge',
+  note: 'last_writer_wins',
+  reminder: 'last_writer_wins',
+  garden: 'last_writer_wins',
+  journal: 'last_writer_wins',
+  diagnosis: 'last_writer_wins',
+  care_event: 'union',
+  shopping: 'last_writer_wins',
+};
+
+interface SyncRecord {
+  id: string;
+  updatedAt?: string;
+}
+
+// ─── Local bookkeeping ───
+
+/**
+ * Stamps `updatedAt = now` on every record of `next` that is new or not the same object as
+ * in `prev`. Mutations in useStorage replace only the records they touch, so object
+ * identity is the change signal.
+ */
+export function stampRecords<T extends SyncRecord>(prev: T[], next: T[], now: string): T[] {
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  return next.map(r => (prevById.get(r.id) === r ? r : { ...r, updatedAt: now }));
+}
+
+/** stampRecords for the keyed maps: notes / reminders by date, journals / diagnoses by plant. */
+export function stampDatedRecords<T extends SyncRecord>(
+  prev: Record<string, T[]>,
+  next: Record<string, T[]>,
+  now: string
+): Record<string, T[]> {
+  const out: Record<string, T[]> = {};
+  for (const [date, items] of Object.entries(next)) {
+    out[date] = prev[date] === items ? items : stampRecords(prev[date] ?? [], items, now);
+  }
+  return out;
+}
+
+/** Every record of a date-keyed map, flattened. */
+export function flattenDated<T>(record: Record<string, T[]>): T[] {
+  return Object.values(record).flat();
+}
+
+/**
+ * Adds a tombstone for every id in `prev` that is gone from `next`. Returns `tombstones`
+ * itself when nothing was deleted.
+ */
+export function recordDeletions(
+  tombstones: SyncTombstone[],
+  kind: SyncRecordKind,
+  prev: SyncRecord[],
+  next: SyncRecord[],
+  now: string
+): SyncTombstone[] {
+  const nextIds = new Set(next.map(r => r.id));
+  const deleted = prev.filter(r => !nextIds.has(r.id));
+  if (deleted.length === 0) return tombstones;
+  const deletedKeys = new Set(deleted.map(r => tombstoneKey(kind, r.id)));
+  return [
+    ...tombstones.filter(t => !deletedKeys.has(tombstoneKey(t.kind, t.id))),
+    ...deleted.map(r => ({ kind, id: r.id, deletedAt: now })),
+  ];
+}
+
+/**
+ * recordDeletions for the per-plant collections (journals, diagnoses, care history). Records
+ * of a plant that is gone from `livePlantIds` leave no tombstone: the plant's own covers them.
+ */
+export function recordPerPlantDeletions(
+  tombstones: SyncTombstone[],
+  kind: SyncRecordKind,
+  prev: Record<string, SyncRecord[]>,
+  next: Record<string, SyncRecord[]>,
+  livePlantIds: Set<string>,
+  now: string
+): SyncTombstone[] {
+  let out = tombstones;
+  for (const plantId of Object.keys(prev)) {
+    if (!livePlantIds.has(plantId) || prev[plantId] === next[plantId]) continue;
+    out = recordDeletions(out, kind, prev[plantId], next[plantId] ?? [], now);
+  }
+  return out;
+}
+
+function tombstoneKey(kind: SyncRecordKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+// ─── Merge ───
+
+/** Union of both tombstone sets (latest deletion per record), minus expired ones. */
+export function mergeTombstones(a: SyncTombstone[], b: SyncTombstone[], now: Date): SyncTombstone[] {
+  const cutoff = new Date(now.getTime() - TOMBSTONE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const byKey = new Map<string, SyncTombstone>();
+  for (const t of [...a, ...b]) {
+    if (t.deletedAt < cutoff) continue;
+    const key = tombstoneKey(t.kind, t.id);
+    const existing = byKey.get(key);
+    if (!existing || t.deletedAt > existing.deletedAt) byKey.set(key, t);
+  }
+  return [...byKey.values()];
+}
+
+/** Newer `updatedAt` wins; ties go to the lexically larger content so all devices agree. */
+export function pickWinner<T extends SyncRecord>(local: T, remote: T): T {
+  const l = local.updatedAt ?? '';
+  const r = remote.updatedAt ?? '';
+  if (l !== r) return l > r ? local : remote;
+  return JSON.stringify(local) >= JSON.stringify(remote) ? local : remote;
+}
+
+function laterDate(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Field merge for plants: winner's fields, monotonic care dates from either side, and the
+ * cloud path of any photo the other side has already uploaded (SYNC-03).
+ */
+export function mergePlantFields(winner: Plant, other: Plant): Plant {
+  const lastWatered = laterDate(winner.lastWatered, other.lastWatered);
+  let merged: Plant = lastWatered === winner.lastWatered ? winner : { ...winner, lastWatered };
+  const fertilized = laterDate(winner.fertilizeSchedule?.lastFertilized, other.fertilizeSchedule?.lastFertilized);
+  if (merged.fertilizeSchedule && fertilized && fertilized !== merged.fertilizeSchedule.lastFertilized) {
+    merged = { ...merged, fertilizeSchedule: { ...merged.fertilizeSchedule, lastFertilized: fertilized } };
+  }
+  const repotted = laterDate(winner.lastRepotted, other.lastRepotted);
+  if (repotted && repotted !== merged.lastRepotted) merged = { ...merged, lastRepotted: repotted };
+  const otherPaths = new Map((other.photos ?? []).filter(p => p.remotePath).map(p => [p.id, p.remotePath]));
+  if (merged.photos?.some(p => !p.remotePath && otherPaths.has(p.id))) {
+    merged = {
+      ...merged,
+      photos: merged.photos.map(p => (p.remotePath || !otherPaths.has(p.id) ? p : { ...p, remotePath: otherPaths.get(p.id) })),
+    };
+  }
+  return merged;
+}
+
+/** Combines the winner of a conflict with the losing copy ('field_merge' kinds). */
+type FieldMerge<T> = (winner: T, other: T) => T;
+
+function resolveConflict<T extends SyncRecord>(local: T, remote: T, fieldMerge?: FieldMerge<T>): T {
+  const winner = pickWinner(local, remote);
+  if (!fieldMerge) return winner;
+  return fieldMerge(winner, winner === local ? remote : local);
+}
+
+interface Keyed<T> {
+  key: string;
+  record: T;
+}
+
+/**
+ * Merges one record kind. Local order is kept; remote-only records are appended. Returns the
+ * surviving records and the ids whose tombstone lost to a later edit.
+ */
+function mergeKind<T extends SyncRecord>(
+  kind: SyncRecordKind,
+  local: Keyed<T>[],
+  remote: Keyed<T>[],
+  tombstones: Map<string, SyncTombstone>,
+  fieldMerge?: FieldMerge<T>
+): { records: Keyed<T>[]; revived: string[] } {
+  const remoteById = new Map(remote.map(r => [r.record.id, r]));
+  const localIds = new Set(local.map(r => r.record.id));
+  const candidates: Keyed<T>[] = [
+    ...local.map(l => {
+      const r = remoteById.get(l.record.id);
+      if (!r) return l;
+      const record = resolveConflict(l.record, r.record, fieldMerge);
+      return { key: record === r.record ? r.key : l.key, record };
+    }),
+    ...remote.filter(r => !localIds.has(r.record.id)),
+  ];
+
+  const records: Keyed<T>[] = [];
+  const revived: string[] = [];
+  for (const candidate of candidates) {
+    const tombstone = tombstones.get(tombstoneKey(kind, candidate.record.id));
+    if (tombstone && tombstone.deletedAt >= (candidate.record.updatedAt ?? '')) continue;
+    if (tombstone) revived.push(tombstoneKey(kind, candidate.record.id));
+    records.push(candidate);
+  }
+  return { records, revived };
+}
+
+function toKeyed<T>(record: Record<string, T[]>): Keyed<T>[] {
+  return Object.entries(record).flatMap(([key, items]) => items.map(item => ({ key, record: item })));
+}
+
+function fromKeyed<T>(items: Keyed<T>[]): Record<string, T[]> {
+  const out: Record<string, T[]> = {};
+  for (const { key, record } of items) {
+    if (!out[key]) out[key] = [];
+    out[key].push(record);
+  }
+  return out;
+}
+
+/** Merged per-plant records (keyed by plant id) of the plants that survived, each list in `order`. */
+function byPlant<T>(items: Keyed<T>[], plantIds: Set<string>, order: (a: T, b: T) => number): Record<string, T[]> {
+  const out = fromKeyed(items.filter(i => plantIds.has(i.key)));
+  for (const records of Object.values(out)) records.sort(order);
+  return out;
+}
+
+/** Union by id, local copy first; remote-only items appended. */
+function unionById<T extends { id: string }>(local: T[], remote: T[]): T[] {
+  const localIds = new Set(local.map(i => i.id));
+  return [...local, ...remote.filter(i => !localIds.has(i.id))];
+}
+
+function mergePerPlant<T extends { id: string }>(
+  local: Record<string, T[]>,
+  remote: Record<string, T[]>,
+  plantIds: Set<string>,
+  order: (a: T, b: T) => number
+): Record<string, T[]> {
+  const out: Record<string, T[]> = {};
+  for (const plantId of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+    if (!plantIds.has(plantId)) continue;
+    out[plantId] = unionById(local[plantId] ?? [], remote[plantId] ?? []).sort(order);
+  }
+  return out;
+}
+
+/** Drops the records of a 'union' kind that have a tombstone (no timestamps: it always wins). */
+function dropTombstoned<T extends { id: string }>(
+  kind: SyncRecordKind,
+  items: T[],
+  tombstones: Map<string, SyncTombstone>
+): T[] {
+  return items.filter(item => !tombstones.has(tombstoneKey(kind, item.id)));
+}
+
+function dropTombstonedPerPlant<T extends { id: string }>(
+  kind: SyncRecordKind,
+  record: Record<string, T[]>,
+  tombstones: Map<string, SyncTombstone>
+): Record<string, T[]> {
+  const out: Record<string, T[]> = {};
+  for (const [plantId, items] of Object.entries(record)) out[plantId] = dropTombstoned(kind, items, tombstones);
+  return out;
+}
+
+/** A journal photo uploaded by the other device keeps its cloud path on the winner too (SYNC-03). */
+function withJournalPhotoPath(winner: JournalEntry, other: JournalEntry): JournalEntry {
+  return winner.photoRemotePath || !other.photoRemotePath ? winner : { ...winner, photoRemotePath: other.photoRemotePath };
+}
+
+/**
+ * Same space on both sides → the newer `updatedAt` wins (GARDEN-01), like plants and notes,
+ * and a tombstone removes it unless the space was edited after the deletion. A shared garden
+ * is the owner's row: the downloaded copy always wins.
+ */
+function mergeGardens(
+  local: Garden[],
+  remote: Garden[],
+  unshared: Set<string>,
+  tombstones: Map<string, SyncTombstone>
+): Garden[] {
+  const remoteById = new Map(remote.map(g => [g.id, g]));
+  const localIds = new Set(local.map(g => g.id));
+  return [
+    ...local.filter(g => !unshared.has(g.id)).map(g => {
+      const r = remoteById.get(g.id);
+      if (!r) return g;
+      return r.sharedBy ? r : pickWinner(g, r);
+    }),
+    ...remote.filter(g => !localIds.has(g.id)),
+  ].filter(g => {
+    const tombstone = tombstones.get(tombstoneKey('garden', g.id));
+    return !tombstone || tombstone.deletedAt < (g.updatedAt ?? '');
+  });
+}
+
+/** Shared gardens on this device that the download no longer has (HOUSE-01). */
+export function unsharedGardenIds(local: Garden[], remote: Garden[]): Set<string> {
+  const remoteIds = new Set(remote.map(g => g.id));
+  return new Set(local.filter(g => g.sharedBy && !remoteIds.has(g.id)).map(g => g.id));
+}
+
+/**
+ * Merges downloaded cloud data into the local store (see file header). The result carries
+ * the merged tombstone set, so uploading it afterwards makes both sides converge.
+ */
+export function mergeCloudData(local: AppData, remote: CloudData, now: Date): AppData {
+  let tombstones = mergeTombstones(local.syncTombstones ?? [], remote.tombstones, now);
+  const tombstoneMap = new Map(tombstones.map(t => [tombstoneKey(t.kind, t.id), t]));
+
+  const plants = mergeKind<Plant>(
+    'plant',
+    local.plants.map(p => ({ key: '', record: p })),
+    remote.plants.map(p => ({ key: '', record: p })),
+    tombstoneMap,
+    MERGE_POLICY.plant === 'field_merge' ? mergePlantFields : undefined
+  );
+  const notes = mergeKind('note', toKeyed(local.notes), toKeyed(remote.notes), tombstoneMap);
+  const reminders = mergeKind('reminder', toKeyed(local.reminders), toKeyed(remote.reminders), tombstoneMap);
+  // Journal entries and diagnoses are keyed by plant id. Journal photos are not part of the
+  // edit: the winner only picks up a cloud path the other copy already has.
+  const journals = mergeKind<JournalEntry>(
+    'journal',
+    toKeyed(local.journals ?? {}),
+    toKeyed(remote.journals),
+    tombstoneMap,
+    withJournalPhotoPath
+  );
+  const diagnoses = mergeKind<SavedDiagnosis>(
+    'diagnosis',
+    toKeyed(local.diagnosisHistory),
+    toKeyed(remote.diagnosisHistory),
+    tombstoneMap
+  );
+  const shopping = mergeKind<ShoppingItem>(
+    'shopping',
+    local.shoppingList.map(i => ({ key: '', record: i })),
+    remote.shoppingList.map(i => ({ key: '', record: i })),
+    tombstoneMap
+  );
+
+  const revived = new Set([
+    ...plants.revived,
+    ...notes.revived,
+    ...reminders.revived,
+    ...journals.revived,
+    ...diagnoses.revived,
+    ...shopping.revived,
+  ]);
+  if (revived.size > 0) tombstones = tombstones.filter(t => !revived.has(tombstoneKey(t.kind, t.id)));
+
+  const unshared = unsharedGardenIds(local.gardens ?? [], remote.gardens);
+  const mergedPlants = plants.records
+    .map(p => p.record)
+    .filter(p => !p.gardenId || !unshared.has(p.gardenId));
+  const plantIds = new Set(mergedPlants.map(p => p.id));
+  const byDate = (a: { date: string }, b: { date: string }) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+
+  return {
+    ...local,
+    plants: mergedPlants,
+    notes: fromKeyed(notes.records),
+    reminders: fromKeyed(reminders.records),
+    syncTombstones: tombstones,
+    location: remote.location ?? local.location,
+    notificationSettings: remote.notificationSettings ?? local.notificationSettings,
+    plantNetApiKey: remote.plantNetApiKey ?? local.plantNetApiKey,
+    climateOverride: remote.climateOverride ?? local.climateOverride,
+    gardens: mergeGardens(local.gardens ?? [], remote.gardens, unshared, tombstoneMap),
+    journals: byPlant(journals.records, plantIds, byDate),
+    // Newest first, as saveDiagnosis prepends.
+    diagnosisHistory: byPlant(diagnoses.records, plantIds, (a, b) => byDate(b, a)),
+    careLog: dropTombstonedPerPlant(
+      'care_event',
+      mergePerPlant<CareEvent>(
+        local.careLog ?? {},
+        remote.careLog,
+        plantIds,
+        (a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0)
+      ),
+      tombstoneMap
+    ),
+    shoppingList: shopping.records.map(i => i.record),
+  };
+}
+
+/**
+ * Records changed after `since` — the upload set. Everything when `since` is null (first
+ * sync on this device); unstamped legacy records were uploaded by that first sync.
+ */
+export function changedSince<T extends SyncRecord>(records: T[], since: string | null): T[] {
+  if (since === null) return records;
+  return records.filter(r => r.updatedAt !== undefined && r.updatedAt > since);
+}
+
+/** Tombstones written after `since` (all of them when `since` is null). */
+export function tombstonesSince(tombstones: SyncTombstone[], since: string | null): SyncTombstone[] {
+  if (since === null) return tombstones;
+  return tombstones.filter(t => t.deletedAt > since);
+}
+
+/**
+ * Care events logged after `since` (all of them when `since` is null), by plant. An event
+ * never changes once logged, so its log time stands in for updatedAt.
+ */
+export function careEventsSince(
+  careLog: Record<string, CareEvent[]>,
+  since: string | null
+): Record<string, CareEvent[]> {
+  if (since === null) return careLog;
+  const out: Record<string, CareEvent[]> = {};
+  for (const [plantId, events] of Object.entries(careLog)) {
+    const logged = events.filter(e => e.timestamp > since);
+    if (logged.length > 0) out[plantId] = logged;
+  }
+  return out;
+}
+
+/** changedSince for the keyed maps (notes / reminders by date, journals / diagnoses by plant); empty keys are dropped. */
+export function changedSinceDated<T extends SyncRecord>(
+  record: Record<string, T[]>,
+  since: string | null
+): Record<string, T[]> {
+  if (since === null) return record;
+  const out: Record<string, T[]> = {};
+  for (const [date, items] of Object.entries(record)) {
+    const changed = changedSince(items, since);
+    if (changed.length > 0) out[date] = changed;
+  }
+  return out;
+}
@@ -0,0 +1,236 @@
+/**
+ * v1.3 (SYNC-04). Outbox of local changes waiting to reach the cloud.
+ *
+ * Every mutation of the synced slice (CloudData) — adding a plant, watering it, a journal
+ * entry, resolving a diagnosis, a settings change — becomes an outbox entry for the record
+ * it touched. diffCloudData finds them by object identity, the same change signal
+ * stampRecords uses: store mutations replace only the records they touch. Entries for the
+ * same record coalesce, so ten waterings offline upload the plant once.
+ *
+ * Entries hold no payload. When the outbox drains, the record's current state is read from
+ * the store and pushed on its own, so one failing record does not hold back the rest:
+ *
+ *  - A network failure stops the drain (everything behind it would fail the same way) and
+ *    the outbox waits for the retry timer, the connection coming back or the app returning
+ *    to the foreground.
+ *  - Any other failure is kept on that entry as a per-item error and the drain moves on.
+ *  - Retries back off exponentially (5 s → 15 min cap).
+ *
+ * Pure functions — no React, no Supabase, no clock reads (callers pass `now`).
+ */
+import type { CareEvent, Garden, JournalEntry, Plant, SavedDiagnosis, ShoppingItem } from '../types';
+import type { CloudData } from './syncConverters';
+
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+const LABEL_MAX_LENGTH = 40;
+
+export type OutboxKind =
+  | 'plant'
+  | 'note'
+  | 'reminder'
+  | 'garden'
+  | 'journal'
+  | 'diagnosis'
+  | 'shopping'
+  | 'care_event'
+  | 'settings';
+
+export type OutboxOp = 'upsert' | 'delete';
+
+export interface OutboxChange {
+  kind: OutboxKind;
+  op: OutboxOp;
+  recordId: string;
+  /** Owning plant id for per-plant records (journal, diagnosis, care_event); null otherwise. */
+  plantId: string | null;
+  /** What the user would call it — plant name, note text. Shown next to a failure. */
+  label: string | null;
+}
+
+export interface OutboxEntry extends OutboxChange {
+  key: string;
+  queuedAt: string;
+  attempts: number;
+  /** ISO time of the next retry; null = due now. */
+  nextAttemptAt: string | null;
+  lastError: string | null;
+}
+
+export function outboxKey(change: Pick<OutboxChange, 'kind' | 'plantId' | 'recordId'>): string {
+  return change.plantId ? `${change.kind}:${change.plantId}:${change.recordId}` : `${change.kind}:${change.recordId}`;
+}
+
+function shorten(text: string | null | undefined): string | null {
+  if (!text) return null;
+  return text.length > LABEL_MAX_LENGTH ? `${text.slice(0, LABEL_MAX_LENGTH - 1)}…` : text;
+}
+
+// ─── Diff ───
+
+function diffById<T extends { id: string }>(
+  kind: OutboxKind,
+  prev: T[],
+  next: T[],
+  plantId: string | null,
+  label: (record: T) => string | null
+): OutboxChange[] {
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  const changes: OutboxChange[] = [];
+  for (const record of next) {
+    if (prevById.get(record.id) !== record) {
+      changes.push({ kind, op: 'upsert', recordId: record.id, plantId, label: label(record) });
+    }
+  }
+  for (const record of prev) {
+    if (!nextIds.has(record.id)) {
+      changes.push({ kind, op: 'delete', recordId: record.id, plantId, label: label(record) });
+    }
+  }
+  return changes;
+}
+
+/** Per-plant collections. Children of a deleted plant go with the plant's own delete. */
+function diffPerPlant<T extends { id: string }>(
+  kind: OutboxKind,
+  prev: Record<string, T[]>,
+  next: Record<string, T[]>,
+  livePlantIds: Set<string>,
+  plantName: (plantId: string) => string | null
+): OutboxChange[] {
+  const changes: OutboxChange[] = [];
+  for (const plantId of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (!livePlantIds.has(plantId)) continue;
+    if (prev[plantId] === next[plantId]) continue;
+    changes.push(...diffById(kind, prev[plantId] ?? [], next[plantId] ?? [], plantId, () => plantName(plantId)));
+  }
+  return changes;
+}
+
+/** Every record the user changed between two snapshots of the synced slice. */
+export function diffCloudData(prev: CloudData, next: CloudData): OutboxChange[] {
+  const names = new Map<string, string>();
+  for (const p of [...prev.plants, ...next.plants]) names.set(p.id, p.name);
+  const plantName = (plantId: string) => names.get(plantId) ?? null;
+  const livePlantIds = new Set(next.plants.map(p => p.id));
+
+  const changes: OutboxChange[] = [
+    ...diffById<Garden>('garden', prev.gardens, next.gardens, null, g => g.name),
+    ...diffById<Plant>('plant', prev.plants, next.plants, null, p => p.name),
+  ];
+  // Notes and reminders are keyed by date locally but by id in the cloud — a note moved to
+  // another day is an upsert, not a delete.
+  if (prev.notes !== next.notes) {
+    changes.push(...diffById('note', Object.values(prev.notes).flat(), Object.values(next.notes).flat(), null, n => shorten(n.text)));
+  }
+  if (prev.reminders !== next.reminders) {
+    changes.push(...diffById('reminder', Object.values(prev.reminders).flat(), Object.values(next.reminders).flat(), null, r => shorten(r.text)));
+  }
+  if (prev.journals !== next.journals) {
+    changes.push(...diffPerPlant<JournalEntry>('journal', prev.journals, next.journals, livePlantIds, plantName));
+  }
+  if (prev.diagnosisHistory !== next.diagnosisHistory) {
+    changes.push(...diffPerPlant<SavedDiagnosis>('diagnosis', prev.diagnosisHistory, next.diagnosisHistory, livePlantIds, plantName));
+  }
+  if (prev.careLog !== next.careLog) {
+    changes.push(...diffPerPlant<CareEvent>('care_event', prev.careLog, next.careLog, livePlantIds, plantName));
+  }
+  if (prev.shoppingList !== next.shoppingList) {
+    changes.push(...diffById<ShoppingItem>('shopping', prev.shoppingList, next.shoppingList, null, i => shorten(i.text)));
+  }
+  if (
+    prev.location !== next.location ||
+    prev.notificationSettings !== next.notificationSettings ||
+    prev.plantNetApiKey !== next.plantNetApiKey ||
+    prev.climateOverride !== next.climateOverride
+  ) {
+    changes.push({ kind: 'settings', op: 'upsert', recordId: 'settings', plantId: null, label: null });
+  }
+  return changes;
+}
+
+// ─── Queue ───
+
+/**
+ * Adds changes to the outbox. A change to a record already queued replaces that entry (the
+ * latest op wins, retry state resets) but keeps its place in line.
+ */
+export function enqueueChanges(outbox: OutboxEntry[], changes: OutboxChange[], now: Date): OutboxEntry[] {
+  if (changes.length === 0) return outbox;
+  const nowIso = now.toISOString();
+  const next = [...outbox];
+  const indexByKey = new Map(next.map((e, i) => [e.key, i]));
+  for (const change of changes) {
+    const key = outboxKey(change);
+    const index = indexByKey.get(key);
+    const entry: OutboxEntry = {
+      ...change,
+      key,
+      queuedAt: index === undefined ? nowIso : next[index].queuedAt,
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+    };
+    if (index === undefined) {
+      indexByKey.set(key, next.length);
+      next.push(entry);
+    } else {
+      next[index] = entry;
+    }
+  }
+  return next;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+export function markFailed(entry: OutboxEntry, error: string, now: Date): OutboxEntry {
+  const attempts = entry.attempts + 1;
+  return {
+    ...entry,
+    attempts,
+    lastError: error,
+    nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+  };
+}
+
+/** Entries to push now, in queue order. */
+export function dueEntries(outbox: OutboxEntry[], now: Date): OutboxEntry[] {
+  const nowIso = now.toISOString();
+  return outbox.filter(e => !e.nextAttemptAt || e.nextAttemptAt <= nowIso);
+}
+
+/** Earliest scheduled retry, or null when nothing is waiting on a timer. */
+export function nextRetryAt(outbox: OutboxEntry[]): string | null {
+  let next: string | null = null;
+  for (const entry of outbox) {
+    if (entry.nextAttemptAt && (!next || entry.nextAttemptAt < next)) next = entry.nextAttemptAt;
+  }
+  return next;
+}
+
+/** "Retry now" — makes every entry due again without forgetting how often it failed. */
+export function retryAllNow(outbox: OutboxEntry[]): OutboxEntry[] {
+  return outbox.map(e => (e.nextAttemptAt ? { ...e, nextAttemptAt: null } : e));
+}
+
+/**
+ * The connection is back: entries that failed for being offline are due now and start their
+ * backoff over. Entries the server rejected keep theirs — a reconnect does not change that.
+ */
+export function resetOfflineBackoff(outbox: OutboxEntry[]): OutboxEntry[] {
+  return outbox.map(e => (isNetworkError(e.lastError) ? { ...e, attempts: 0, nextAttemptAt: null, lastError: null } : e));
+}
+
+/** Fetch-level failures (no connection, timeout) as opposed to the server rejecting a row. */
+export function isNetworkError(message: string | null | undefined): boolean {
+  if (!message) return false;
+  return /network request failed|failed to fetch|fetch failed|network ?error|timed? ?out|offline/i.test(message);
+}
+
+/** Entries the server rejected — shown one by one, unlike offline ones. */
+export function failedEntries(outbox: OutboxEntry[]): OutboxEntry[] {
+  return outbox.filter(e => e.lastError && !isNetworkError(e.lastError));
+}
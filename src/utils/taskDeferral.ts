@@ -0,0 +1,62 @@
+/**
+ * v1.3 (SNOOZE-01). Skip / snooze for water, check_soil and fertilize tasks.
+ *
+ * A deferral does not rewrite lastWatered / lastFertilized — the plant was not cared for.
+ * Instead getNextWaterDate / getNextFertilizeDate restart their cadence from `until` while
+ * the deferral is active. A deferral stays active until the task is completed again: any
+ * completion changes the anchor field, which voids it without an explicit cleanup write.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { DeferrableTask, Plant, TaskDeferral, TaskDeferralKind } from '../types';
+import { addDays, formatDate } from './dates';
+
+/** Snooze lengths offered in the day view. */
+export const SNOOZE_DAY_OPTIONS = [1, 2, 3] as const;
+
+/** Completion date the deferral is pinned to — lastWatered or lastFertilized. */
+export function getDeferralAnchor(plant: Plant, task: DeferrableTask): string | null {
+  if (task === 'fertilize') return plant.fertilizeSchedule?.lastFertilized ?? null;
+  return plant.lastWatered;
+}
+
+/** The plant's deferral for `task`, or null when there is none or a later completion voided it. */
+export function getActiveDeferral(plant: Plant, task: DeferrableTask): TaskDeferral | null {
+  const deferral = plant.taskDeferrals?.[task];
+  if (!deferral) return null;
+  return deferral.anchor === getDeferralAnchor(plant, task) ? deferral : null;
+}
+
+/**
+ * True while `today` falls inside the deferral window (dueDate ≤ today < until).
+ * Health scoring uses this to keep a skipped/snoozed task out of the overdue checks.
+ */
+export function isDeferralPending(deferral: TaskDeferral | null, today: Date): boolean {
+  if (!deferral) return false;
+  const todayStr = formatDate(today);
+  return deferral.dueDate <= todayStr && todayStr < deferral.until;
+}
+
+/**
+ * Builds a deferral for the occurrence due on `dueDate`.
+ *
+ * @param plant         The plant (anchor is read from it).
+ * @param task          'water' (also check_soil) or 'fertilize'.
+ * @param kind          'skip' or 'snooze'.
+ * @param dueDate       Day the task is currently due.
+ * @param days          Snooze length; for 'skip' pass the active interval for the task.
+ */
+export function buildTaskDeferral(
+  plant: Plant,
+  task: DeferrableTask,
+  kind: TaskDeferralKind,
+  dueDate: Date,
+  days: number
+): TaskDeferral {
+  return {
+    kind,
+    dueDate: formatDate(dueDate),
+    until: formatDate(addDays(dueDate, Math.max(1, Math.round(days)))),
+    anchor: getDeferralAnchor(plant, task),
+  };
+}
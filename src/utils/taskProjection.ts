@@ -0,0 +1,71 @@
+/**
+ * v1.3 (PROJ-01). Multi-day projection of future tasks for the calendar.
+ *
+ * getTasksForDay answers "what is due on this day" from the plant as stored, with one season.
+ * Asked about a day weeks ahead it only rolls lastWatered forward by today's interval, so a
+ * season change on the way (warm → cold interval) or a fertilizing dormancy that starts or
+ * ends inside the range never shows up.
+ *
+ * projectTasks walks the range day by day instead. Each day is asked with that day's season
+ * (seasonOf, normally getEffectiveSeason) and every water / check_soil / fertilize task it
+ * emits is assumed done on its day, so the next one is counted from there — the same way the
+ * app would see the plant if the user kept up. A simulated completion also voids a pending
+ * skip / snooze, exactly like a real one (SNOOZE-01).
+ *
+ * Fertilizing keeps the plant's plan: a plant on the catalog interval stays on it, so cold
+ * dormancy applies every winter of the range (a real completion writes the warm interval
+ * as an override — the projection does not copy that side effect).
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { Plant, Task, WaterSeason } from '../types';
+import { addDays, formatDate } from './dates';
+import { getTasksForDay } from './plantLogic';
+
+/** Applies the completion of `task` on `date` to the simulated plant. */
+function completeTask(plant: Plant, task: Task, date: string): Plant {
+  switch (task.type) {
+    case 'water':
+    case 'check_soil':
+      return { ...plant, lastWatered: date };
+    case 'fertilize':
+      return {
+        ...plant,
+        // intervalDays 0 = no override, getSeasonalFertilizeInterval keeps reading the catalog.
+        fertilizeSchedule: { intervalDays: plant.fertilizeSchedule?.intervalDays ?? 0, lastFertilized: date },
+      };
+    default:
+      return plant;
+  }
+}
+
+/**
+ * Tasks per ISO day from `from` to `until` (both inclusive), assuming every watering and
+ * fertilizing is done the day it is due. `from` is normally today: its tasks are the ones
+ * getTasksForDay shows now. Plant order is kept within each day.
+ */
+export function projectTasks(
+  plants: Plant[],
+  from: Date,
+  until: Date,
+  seasonOf: (date: Date) => WaterSeason
+): Record<string, Task[]> {
+  const projection: Record<string, Task[]> = {};
+  const simulated = [...plants];
+  const last = formatDate(until);
+
+  for (let day = from; formatDate(day) <= last; day = addDays(day, 1)) {
+    const date = formatDate(day);
+    const season = seasonOf(day);
+    const tasks: Task[] = [];
+    simulated.forEach((plant, index) => {
+      const due = getTasksForDay([plant], day, season);
+      let next = plant;
+      for (const task of due) next = completeTask(next, task, date);
+      simulated[index] = next;
+      tasks.push(...due);
+    });
+    projection[date] = tasks;
+  }
+  return projection;
+}
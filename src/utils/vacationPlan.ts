@@ -0,0 +1,149 @@
+/**
+ * v1.3 (VAC-01). Vacation mode — pre-trip watering plan and post-trip re-baseline.
+ *
+ * A VacationPlan is a [departure, returnDate) window. Before the trip, planVacationCare
+ * walks each plant's watering cadence (getNextWaterDate — check-ins included) across the
+ * window and recommends either one deep watering before leaving or grouping plants
+ * together. The weather forecast only escalates: hot days inside the window push every
+ * plant to 'group', because a deep watering will not last through a heat wave.
+ *
+ * On return, rebaselineAfterVacation turns every watering / fertilizing that fell inside
+ * the window into a 'vacation' TaskDeferral due on the return day — no fake care history,
+ * no overdue penalties, and the cadence restarts from the day the user is back.
+ *
+ * Pure functions — no React, no async, no side effects.
+ */
+import type { Plant, TaskDeferral, VacationPlan, WeatherData } from '../types';
+import type { WaterSeason } from './seasonality';
+import { addDays, daysBetween, formatDate, parseDate } from './dates';
+import { getNextFertilizeDate, getNextWaterDate, getSeasonalInterval } from './plantLogic';
+import { buildTaskDeferral } from './taskDeferral';
+import { getCatalogEntry } from '../data/plantDatabase';
+
+/** Forecast max temperature (°C) from which a day counts as hot for the trip plan. */
+export const VACATION_HOT_DAY_C = 30;
+/** Forecast precipitation (mm) from which a day counts as rainy for the trip plan. */
+export const VACATION_RAIN_MM = 5;
+/** Longest trip the settings picker allows. */
+export const VACATION_MAX_DAYS = 60;
+
+export type VacationSuggestion = 'deep_water' | 'group';
+
+export interface VacationPlantPlan {
+  plantId: string;
+  /** ISO days the plant's watering (or soil check-in) falls on while away. */
+  dueDates: string[];
+  suggestion: VacationSuggestion;
+}
+
+export interface VacationForecast {
+  hotDays: number;
+  rainyDays: number;
+  /** Trip days covered by the forecast (the API returns about a week). */
+  coveredDays: number;
+}
+
+/** True while `date` is inside the trip window — departure inclusive, return day exclusive. */
+export function isDateInVacation(vacation: VacationPlan | null | undefined, date: Date): boolean {
+  if (!vacation) return false;
+  const d = formatDate(date);
+  return vacation.departure <= d && d < vacation.returnDate;
+}
+
+/** True until the return day — covers both an upcoming and an ongoing trip. */
+export function isVacationPending(vacation: VacationPlan | null | undefined, today: Date): boolean {
+  if (!vacation) return false;
+  return formatDate(today) < vacation.returnDate;
+}
+
+/** Number of days away (return day not counted). */
+export function getVacationLength(vacation: VacationPlan): number {
+  return daysBetween(parseDate(vacation.departure), parseDate(vacation.returnDate));
+}
+
+/** Counts hot / rainy forecast days inside the trip window. */
+export function summarizeVacationForecast(
+  vacation: VacationPlan,
+  weather: WeatherData | null
+): VacationForecast {
+  const summary: VacationForecast = { hotDays: 0, rainyDays: 0, coveredDays: 0 };
+  if (!weather) return summary;
+  for (const day of weather.daily) {
+    if (day.date < vacation.departure || day.date >= vacation.returnDate) continue;
+    summary.coveredDays += 1;
+    if (day.tempMax >= VACATION_HOT_DAY_C) summary.hotDays += 1;
+    if (day.precipitation >= VACATION_RAIN_MM) summary.rainyDays += 1;
+  }
+  return summary;
+}
+
+/**
+ * Lists the plants that need water while away. Plants with nothing due are omitted.
+ * One missed watering and no heat → 'deep_water'; two or more, or a hot forecast → 'group'.
+ */
+export function planVacationCare(
+  plants: Plant[],
+  vacation: VacationPlan,
+  season: WaterSeason,
+  weather: WeatherData | null
+): VacationPlantPlan[] {
+  const departure = parseDate(vacation.departure);
+  const { hotDays } = summarizeVacationForecast(vacation, weather);
+  const result: VacationPlantPlan[] = [];
+
+  for (const plant of plants) {
+    const interval = getSeasonalInterval(plant, season);
+    const dueDates: string[] = [];
+    let next = getNextWaterDate(plant, departure, season);
+    while (formatDate(next) < vacation.returnDate) {
+      dueDates.push(formatDate(next));
+      next = addDays(next, interval);
+    }
+    if (dueDates.length === 0) continue;
+    result.push({
+      plantId: plant.id,
+      dueDates,
+      suggestion: dueDates.length >= 2 || hotDays > 0 ? 'group' : 'deep_water',
+    });
+  }
+  return result;
+}
+
+/**
+ * Returns the plants with a 'vacation' deferral for every watering / fertilizing that came
+ * due inside [departure, returnedOn). Plants with nothing missed are returned unchanged
+ * (same object), so callers can cheaply detect whether anything moved.
+ */
+export function rebaselineAfterVacation(
+  plants: Plant[],
+  vacation: VacationPlan,
+  returnedOn: Date,
+  season: WaterSeason
+): Plant[] {
+  const departure = parseDate(vacation.departure);
+  const returnedStr = formatDate(returnedOn);
+
+  return plants.map(plant => {
+    const deferrals: Plant['taskDeferrals'] = { ...plant.taskDeferrals };
+    let changed = false;
+
+    const missed = (due: Date | null): due is Date => due !== null && formatDate(due) < returnedStr;
+    const toReturnDay = (task: 'water' | 'fertilize', due: Date): TaskDeferral =>
+      buildTaskDeferral(plant, task, 'vacation', due, daysBetween(due, returnedOn));
+
+    const waterDue = getNextWaterDate(plant, departure, season);
+    if (missed(waterDue)) {
+      deferrals.water = toReturnDay('water', waterDue);
+      changed = true;
+    }
+
+    const catalogEntry = plant.databaseId ? getCatalogEntry(plant.databaseId) : null;
+    const fertilizeDue = getNextFertilizeDate(plant, catalogEntry, departure, season);
+    if (missed(fertilizeDue)) {
+      deferrals.fertilize = toReturnDay('fertilize', fertilizeDue);
+      changed = true;
+    }
+
+    return changed ? { ...plant, taskDeferrals: deferrals } : plant;
+  });
+}
@@ -4,6 +4,7 @@ import { getNextWaterDate } from './plantLogic';
 import { isSameDay, addDays } from './dates';
 import i18n from '../i18n';
 import type { WaterSeason } from './seasonality';
+import { exposedHigh, getPlacementExposure } from './placement';
 
 export interface WateringRecommendation {
   plantId: string;
@@ -36,8 +37,6 @@ export function getWateringRecommendations(
   const isRainingNow = isRainyWeather(current.weatherCode);
   const willRainToday = todayForecast && todayForecast.precipitation > 5;
   const willRainTomorrow = tomorrowForecast && tomorrowForecast.precipitation > 5;
-  const isExtremeHeat = current.temperature >= 35 || (todayForecast && todayForecast.tempMax >= 35);
-  const isVeryHot = current.temperature >= 32 || (todayForecast && todayForecast.tempMax >= 32);
   const isHighHumidity = current.humidity > 80;
   const isWindyAndSunny = current.windSpeed > 30 && !isRainyWeather(current.weatherCode) && current.weatherCode <= 3;
 
@@ -52,10 +51,17 @@ export function getWateringRecommendations(
   plantsNeedingWater.forEach(plant => {
     const nextWater = getNextWaterDate(plant, today, season);
     const needsWaterToday = isSameDay(nextWater, today);
-    const isOutdoorPlant = plant.outdoorDays.length > 0;
+    // v1.3 (PLACE-01): rain only waters plants open to the sky; heat is felt through the
+    // placement (a greenhouse runs hotter, indoor plants don't follow the forecast).
+    const exposure = getPlacementExposure(plant);
+    const isRainExposed = exposure.rain;
+    const highNow = exposedHigh(current.temperature, exposure);
+    const highToday = todayForecast ? exposedHigh(todayForecast.tempMax, exposure) : null;
+    const isExtremeHeat = (highNow !== null && highNow >= 35) || (highToday !== null && highToday >= 35);
+    const isVeryHot = (highNow !== null && highNow >= 32) || (highToday !== null && highToday >= 32);
 
     // Skip watering if it's raining (outdoor plants only)
-    if (isOutdoorPlant && needsWaterToday && (isRainingNow || willRainToday)) {
+    if (isRainExposed && needsWaterToday && (isRainingNow || willRainToday)) {
       recommendations.push({
         plantId: plant.id,
         plantName: plant.name,
@@ -70,7 +76,7 @@ export function getWateringRecommendations(
     }
 
     // Skip watering if rain expected tomorrow (outdoor plants)
-    if (isOutdoorPlant && !needsWaterToday && willRainTomorrow) {
+    if (isRainExposed && !needsWaterToday && willRainTomorrow) {
       recommendations.push({
         plantId: plant.id,
         plantName: plant.name,
@@ -122,7 +128,7 @@ export function getWateringRecommendations(
     }
 
     // Windy and sunny - don't forget to water
-    if (isWindyAndSunny && needsWaterToday) {
+    if (isWindyAndSunny && exposure.wind && needsWaterToday) {
       recommendations.push({
         plantId: plant.id,
         plantName: plant.name,
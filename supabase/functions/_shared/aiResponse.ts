@@ -0,0 +1,43 @@
+// Supabase Edge Functions — módulo compartido: respuesta del modelo validada, con un reintento.
+// v1.3 (VISION-01 / AIVAL-01): diagnose-plant y chat-diagnosis piden la respuesta acá. Si el JSON
+// no pasa el validador (_shared/aiValidation.ts) se le devuelve al modelo su respuesta con los
+// errores y se le pide una vez más; si vuelve a fallar, el error sale con código. El texto del
+// reintento viene del prompt del locale (PROMPT-01, _shared/prompts.ts).
+
+import type { VisionProvider, VisionRequest } from "./vision.ts"
+import { parseModelJson, type AiValidation, type AiValidationErrorCode } from "./aiValidation.ts"
+
+export type ValidatedGeneration<T> =
+  | { ok: true; value: T; repairs: string[]; attempts: number }
+  | { ok: false; code: 'PROVIDER_ERROR' | 'EMPTY_RESPONSE'; status?: number; details?: string }
+  | { ok: false; code: AiValidationErrorCode; errors: string[] };
+
+/**
+ * Asks `provider` and validates the JSON answer. An answer that fails validation is sent back
+ * once with `retryInstruction(errors)`; provider failures are never retried.
+ */
+export async function generateValidated<T>(
+  provider: VisionProvider,
+  request: VisionRequest,
+  validate: (raw: unknown) => AiValidation<T>,
+  retryInstruction: (errors: string[]) => string
+): Promise<ValidatedGeneration<T>> {
+  const first = await provider.generate(request);
+  if (!first.ok) return first;
+  const validation = validate(parseModelJson(first.text));
+  if (validation.ok) return { ...validation, attempts: 1 };
+
+  console.error(`Invalid ${request.task} response (${validation.code}):`, validation.errors.join('; '), first.text);
+  const second = await provider.generate({
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'model', parts: [{ text: first.text }] },
+      { role: 'user', parts: [{ text: retryInstruction(validation.errors) }] },
+    ],
+  });
+  if (!second.ok) return second;
+  const retried = validate(parseModelJson(second.text));
+  if (!retried.ok) console.error(`Invalid ${request.task} response after retry (${retried.code}):`, retried.errors.join('; '), second.text);
+  return retried.ok ? { ...retried, attempts: 2 } : retried;
+}
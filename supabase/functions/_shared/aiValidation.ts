@@ -0,0 +1,294 @@
+// Supabase Edge Functions — módulo compartido: validación y reparación de respuestas de IA.
+// v1.3 (AIVAL-01): diagnose-plant, chat-diagnosis e identify-plant validan acá lo que devuelve
+// el proveedor antes de responder, y la app (src/utils/plantDiagnosis.ts, plantIdentification.ts)
+// vuelve a validar lo que recibe. Sin imports ni Deno: el mismo archivo corre en las dos puntas.
+//
+// Lo reparable se repara (severidad en otro idioma, confianza 0-1 o "85%", listas sueltas,
+// campos de texto faltantes); lo que no, vuelve como error con código.
+
+export type AiSeverity = 'healthy' | 'minor' | 'moderate' | 'severe';
+
+/** INVALID_JSON: no JSON object at all. INVALID_SHAPE: JSON that cannot be repaired. */
+export type AiValidationErrorCode = 'INVALID_JSON' | 'INVALID_SHAPE';
+
+export type AiValidation<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; code: AiValidationErrorCode; errors: string[] };
+
+/** `code` of the edge functions' error body when the model's answer stayed invalid. */
+export const INVALID_AI_RESPONSE = 'INVALID_AI_RESPONSE';
+
+export interface ValidDiagnosisIssue {
+  name: string;
+  confidence: number;
+  severity: AiSeverity;
+  description: string;
+  treatment: string;
+}
+
+export interface ValidDiagnosisResult {
+  overallStatus: AiSeverity;
+  summary: string;
+  issues: ValidDiagnosisIssue[];
+  careTips: string[];
+  /** Same value as overallStatus (problem tracking reads it). */
+  severity: AiSeverity;
+  problemSummary?: string;
+  /** Prompt template the answer came from, "es-AR@1" (PROMPT-01, _shared/prompts.ts). */
+  promptVersion?: string;
+}
+
+export interface ValidChatResponse {
+  reply: string;
+  updatedTips: string[];
+  improvementDetected: boolean;
+  /** Prompt template the answer came from (PROMPT-01). */
+  promptVersion?: string;
+}
+
+export interface ValidPlantNetResult {
+  score: number;
+  species: {
+    scientificNameWithoutAuthor: string;
+    scientificNameAuthorship: string;
+    genus: { scientificNameWithoutAuthor: string };
+    family: { scientificNameWithoutAuthor: string };
+    commonNames: string[];
+  };
+}
+
+/** identify-plant payload (PlantNet matches) — what the app turns into an IdentificationResult. */
+export interface ValidIdentificationResponse {
+  results: ValidPlantNetResult[];
+  bestMatch?: string;
+  message?: string;
+}
+
+const SEVERITIES: AiSeverity[] = ['healthy', 'minor', 'moderate', 'severe'];
+const SEVERITY_RANK: Record<AiSeverity, number> = { healthy: 0, minor: 1, moderate: 2, severe: 3 };
+const SEVERITY_ALIASES: Record<string, AiSeverity> = {
+  good: 'healthy', ok: 'healthy', none: 'healthy', sana: 'healthy', saludable: 'healthy',
+  mild: 'minor', low: 'minor', leve: 'minor',
+  medium: 'moderate', moderada: 'moderate', moderado: 'moderate',
+  high: 'severe', critical: 'severe', grave: 'severe', severa: 'severe', severo: 'severe',
+};
+
+type Fields = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toSeverity(value: unknown): AiSeverity | null {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  return (SEVERITIES as string[]).includes(key) ? key as AiSeverity : SEVERITY_ALIASES[key] ?? null;
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'number' ? value
+    : typeof value === 'string' ? parseFloat(value.replace('%', '').replace(',', '.'))
+    : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/** Strings of a list; a lone string becomes a one-item list. Null for anything else. */
+function toTextList(value: unknown): string[] | null {
+  if (typeof value === 'string') return toText(value) ? [value.trim()] : [];
+  if (!Array.isArray(value)) return null;
+  return value.map(toText).filter((t): t is string => t !== null);
+}
+
+/**
+ * The model's JSON object, unwrapped from markdown when needed; undefined when the text holds
+ * no JSON object.
+ */
+export function parseModelJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Try to extract JSON from the response if wrapped in markdown
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return undefined;
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function invalid<T>(errors: string[]): AiValidation<T> {
+  return { ok: false, code: 'INVALID_SHAPE', errors };
+}
+
+export function validateDiagnosisResult(raw: unknown): AiValidation<ValidDiagnosisResult> {
+  if (!isRecord(raw)) return { ok: false, code: 'INVALID_JSON', errors: ['not a JSON object'] };
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  let rawIssues: unknown[];
+  if (Array.isArray(raw.issues)) {
+    rawIssues = raw.issues;
+  } else if (raw.issues === undefined || raw.issues === null) {
+    rawIssues = [];
+    repairs.push('issues missing');
+  } else if (isRecord(raw.issues)) {
+    rawIssues = [raw.issues];
+    repairs.push('issues wrapped in a list');
+  } else {
+    return invalid(['issues is not a list']);
+  }
+
+  const issues = rawIssues.map((item, i) => {
+    if (!isRecord(item)) {
+      errors.push(`issues[${i}] is not an object`);
+      return null;
+    }
+    const name = toText(item.name);
+    if (!name) errors.push(`issues[${i}].name missing`);
+    const number = toNumber(item.confidence);
+    if (number === null) errors.push(`issues[${i}].confidence missing`);
+    let confidence = number ?? 0;
+    // 0-1 fractions are percentages the model forgot to scale
+    if (confidence > 0 && confidence < 1) confidence *= 100;
+    const clamped = Math.round(Math.min(100, Math.max(0, confidence)));
+    if (number !== null && clamped !== number) repairs.push(`issues[${i}].confidence ${number} → ${clamped}`);
+    const severity = toSeverity(item.severity);
+    if (severity !== null && severity !== item.severity) repairs.push(`issues[${i}].severity ${item.severity} → ${severity}`);
+    const description = toText(item.description);
+    const treatment = toText(item.treatment);
+    if (!description || !treatment) repairs.push(`issues[${i}] text missing`);
+    return { name: name ?? '', confidence: clamped, severity, description: description ?? '', treatment: treatment ?? '' };
+  });
+
+  // Missing status: the severity copy, else the worst issue
+  let status = toSeverity(raw.overallStatus);
+  if (status === null) {
+    const worst = issues.reduce<AiSeverity | null>((acc, issue) =>
+      issue?.severity && (acc === null || SEVERITY_RANK[issue.severity] > SEVERITY_RANK[acc]) ? issue.severity : acc, null);
+    status = toSeverity(raw.severity) ?? worst;
+    if (status === null) errors.push('overallStatus missing');
+    else repairs.push(`overallStatus ${String(raw.overallStatus)} → ${status}`);
+  } else if (status !== raw.overallStatus) {
+    repairs.push(`overallStatus ${raw.overallStatus} → ${status}`);
+  }
+
+  const problemSummary = toText(raw.problemSummary);
+  let summary = toText(raw.summary);
+  if (!summary && problemSummary) {
+    summary = problemSummary;
+    repairs.push('summary taken from problemSummary');
+  }
+  if (!summary) errors.push('summary missing');
+
+  let careTips = toTextList(raw.careTips);
+  if (careTips === null || !Array.isArray(raw.careTips)) {
+    repairs.push('careTips not a list');
+    careTips = careTips ?? [];
+  }
+
+  if (errors.length > 0 || status === null || summary === null) return invalid(errors);
+  const overallStatus = status;
+  const promptVersion = toText(raw.promptVersion);
+
+  return {
+    ok: true,
+    repairs,
+    value: {
+      overallStatus,
+      summary,
+      issues: issues.map(issue => ({ ...issue!, severity: issue!.severity ?? overallStatus })),
+      careTips,
+      severity: overallStatus,
+      ...(problemSummary ? { problemSummary } : {}),
+      ...(promptVersion ? { promptVersion } : {}),
+    },
+  };
+}
+
+export function validateChatResponse(raw: unknown): AiValidation<ValidChatResponse> {
+  if (!isRecord(raw)) return { ok: false, code: 'INVALID_JSON', errors: ['not a JSON object'] };
+  const repairs: string[] = [];
+
+  const reply = toText(raw.reply);
+  if (!reply) return invalid(['reply missing']);
+
+  let updatedTips = toTextList(raw.updatedTips);
+  if (updatedTips === null || (raw.updatedTips !== undefined && !Array.isArray(raw.updatedTips))) {
+    repairs.push('updatedTips not a list');
+    updatedTips = updatedTips ?? [];
+  }
+
+  let improvementDetected = false;
+  if (typeof raw.improvementDetected === 'boolean') {
+    improvementDetected = raw.improvementDetected;
+  } else if (raw.improvementDetected !== undefined) {
+    improvementDetected = String(raw.improvementDetected).trim().toLowerCase() === 'true';
+    repairs.push(`improvementDetected ${String(raw.improvementDetected)} → ${improvementDetected}`);
+  }
+
+  const promptVersion = toText(raw.promptVersion);
+  return {
+    ok: true,
+    repairs,
+    value: { reply, updatedTips, improvementDetected, ...(promptVersion ? { promptVersion } : {}) },
+  };
+}
+
+export function validateIdentificationResponse(raw: unknown): AiValidation<ValidIdentificationResponse> {
+  if (!isRecord(raw)) return { ok: false, code: 'INVALID_JSON', errors: ['not a JSON object'] };
+  const repairs: string[] = [];
+
+  let rawResults: unknown[];
+  if (Array.isArray(raw.results)) {
+    rawResults = raw.results;
+  } else if (raw.results === undefined || raw.results === null) {
+    rawResults = [];
+  } else {
+    return invalid(['results is not a list']);
+  }
+
+  // A match without a scientific name cannot be looked up or shown — drop it, keep the rest
+  const results: ValidPlantNetResult[] = [];
+  rawResults.forEach((item, i) => {
+    const species = isRecord(item) && isRecord(item.species) ? item.species : null;
+    const scientificName = toText(species?.scientificNameWithoutAuthor);
+    const number = isRecord(item) ? toNumber(item.score) : null;
+    if (!species || !scientificName || number === null) {
+      repairs.push(`results[${i}] dropped`);
+      return;
+    }
+    // Percent scores are scaled back to PlantNet's 0-1
+    const score = Math.min(1, Math.max(0, number > 1 ? number / 100 : number));
+    if (score !== number) repairs.push(`results[${i}].score ${number} → ${score}`);
+    const genus = isRecord(species.genus) ? toText(species.genus.scientificNameWithoutAuthor) : null;
+    const family = isRecord(species.family) ? toText(species.family.scientificNameWithoutAuthor) : null;
+    results.push({
+      score,
+      species: {
+        scientificNameWithoutAuthor: scientificName,
+        scientificNameAuthorship: toText(species.scientificNameAuthorship) ?? '',
+        genus: { scientificNameWithoutAuthor: genus ?? scientificName.split(' ')[0] },
+        family: { scientificNameWithoutAuthor: family ?? '' },
+        commonNames: toTextList(species.commonNames) ?? [],
+      },
+    });
+  });
+
+  const bestMatch = toText(raw.bestMatch);
+  const message = toText(raw.message);
+  return {
+    ok: true,
+    repairs,
+    value: {
+      results,
+      ...(bestMatch ? { bestMatch } : {}),
+      ...(message ? { message } : {}),
+    },
+  };
+}
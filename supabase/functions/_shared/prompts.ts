@@ -0,0 +1,181 @@
+// Supabase Edge Functions — módulo compartido: prompts de diagnóstico y chat por idioma.
+// v1.3 (PROMPT-01): el texto de los prompts vive en promptTemplates.json, una entrada por locale
+// (es-AR con voseo, es-419 neutro, en, pt-BR) con su número de versión. Sumar un idioma es sumar
+// una entrada al JSON; este módulo sólo elige el locale, arma los valores y reemplaza {{variables}}.
+//
+// Cada respuesta lleva `promptVersion` ("es-AR@1"): cuando cambie el texto de un locale, subí su
+// "version" para poder separar las respuestas del prompt viejo y del nuevo.
+
+import templates from "./promptTemplates.json" with { type: "json" }
+
+export interface PlantContext {
+  species: string;
+  lastWatered: string | null;
+  outdoorDays: number[];
+
+  // ─── v1.0 legacy fields (optional — old clients only) ───
+  waterEvery?: number;
+  sunHours?: number;
+
+  // ─── v1.1 fields (Phase 7+) ───
+  lightLevel?: 'direct' | 'bright_indirect' | 'medium_indirect' | 'low';
+  waterSchedule?: { warm: number; cold: number };
+  waterMode?: 'fixed' | 'soil_check';
+  currentSeason?: 'warm' | 'cold' | 'tropical';
+}
+
+/** One locale of promptTemplates.json. Every locale has every key. */
+export interface LocaleTemplates {
+  /** Bumped whenever any text of the locale changes. */
+  version: number;
+  labels: {
+    days: string[];
+    lightLevel: Record<string, string>;
+    lightLevelUnknown: string;
+    season: Record<string, string>;
+    seasonUnknown: string;
+    lastWateredUnknown: string;
+    outdoorNone: string;
+  };
+  plantContext: { v2: string; waterSoilCheck: string; waterSchedule: string; legacy: string };
+  diagnosis: { system: string; photoOne: string; photoMany: string; userOne: string; userMany: string };
+  chat: { system: string; offTopic: string; resume: string; issue: string; noIssues: string; comparison: string };
+  retry: string;
+}
+
+export interface PromptCatalog {
+  defaultLocale: string;
+  /** Language tags the app sends mapped to a locale ("es" → "es-AR": the app speaks voseo). */
+  aliases: Record<string, string>;
+  locales: Record<string, LocaleTemplates>;
+}
+
+/** The previous diagnosis chat-diagnosis follows up on. */
+export interface PromptDiagnosis {
+  overallStatus: string;
+  summary: string;
+  issues: { name: string; confidence: number; severity: string; description: string }[];
+  careTips: string[];
+}
+
+export interface ChatPromptInput {
+  ctx: PlantContext;
+  diagnosis: PromptDiagnosis;
+  /** Phase 9 (DIAG-05): adds the resume clause (no severity re-assess) when present. */
+  priorDiagnosisSummary?: string;
+}
+
+export interface Prompts {
+  locale: string;
+  /** "<locale>@<version>" — sent back with every response. */
+  version: string;
+  /** "Plant context" block; empty without a context. */
+  plantContext(ctx: PlantContext | undefined): string;
+  diagnosis(ctx: PlantContext | undefined, photoCount: number): { system: string; user: string };
+  chat(input: ChatPromptInput): string;
+  /** Text before the original photo when a follow-up photo is compared with it (COMPARE-01). */
+  comparison(originalDate: string): string;
+  /** Re-ask text for an answer that failed validation (AIVAL-01). */
+  retry(errors: string[]): string;
+}
+
+const defaultCatalog = templates as PromptCatalog;
+
+/** Replaces {{name}} in one pass — values are never scanned again, so user text stays as is. */
+export function interpolate(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => (name in vars ? String(vars[name]) : ''));
+}
+
+/**
+ * Locale for a language tag: exact locale, alias, then the base language (alias, locale or
+ * first regional locale of that language), else the default. Case-insensitive.
+ */
+export function resolvePromptLocale(lang: string | undefined, catalog: PromptCatalog = defaultCatalog): string {
+  const keys = Object.keys(catalog.locales);
+  const find = (tag: string) => {
+    const lower = tag.toLowerCase();
+    const alias = Object.keys(catalog.aliases).find(a => a.toLowerCase() === lower);
+    return keys.find(k => k.toLowerCase() === lower)
+      ?? (alias && keys.includes(catalog.aliases[alias]) ? catalog.aliases[alias] : undefined);
+  };
+
+  const tag = (lang ?? '').trim().replace('_', '-');
+  if (!tag) return catalog.defaultLocale;
+  const base = tag.split('-')[0];
+  return find(tag)
+    ?? find(base)
+    ?? keys.find(k => k.toLowerCase().startsWith(`${base.toLowerCase()}-`))
+    ?? catalog.defaultLocale;
+}
+
+/** The prompts for `lang` (the `lang` field the app sends). */
+export function loadPrompts(lang: string | undefined, catalog: PromptCatalog = defaultCatalog): Prompts {
+  const locale = resolvePromptLocale(lang, catalog);
+  const t = catalog.locales[locale];
+  const { labels } = t;
+
+  const outdoorDays = (days: number[]) =>
+    days.length > 0 ? days.map(d => labels.days[d]).join(', ') : labels.outdoorNone;
+
+  /**
+   * Phase 7 (Plan 07-08): dual-payload discriminator. New clients send waterSchedule;
+   * old clients (pre-Phase-7, store-update grace window) send waterEvery + sunHours.
+   */
+  const plantContext = (ctx: PlantContext | undefined): string => {
+    if (!ctx) return '';
+    const common = {
+      species: ctx.species,
+      lastWatered: ctx.lastWatered || labels.lastWateredUnknown,
+      outdoorDays: outdoorDays(ctx.outdoorDays),
+    };
+    if (!ctx.waterSchedule) {
+      return interpolate(t.plantContext.legacy, { ...common, waterEvery: ctx.waterEvery ?? '?', sunHours: ctx.sunHours ?? '?' });
+    }
+    const waterLines = ctx.waterMode === 'soil_check'
+      ? t.plantContext.waterSoilCheck
+      : interpolate(t.plantContext.waterSchedule, { warmDays: ctx.waterSchedule.warm ?? '?', coldDays: ctx.waterSchedule.cold ?? '?' });
+    return interpolate(t.plantContext.v2, {
+      ...common,
+      waterLines,
+      season: ctx.currentSeason ? labels.season[ctx.currentSeason] : labels.seasonUnknown,
+      lightLevel: ctx.lightLevel ? labels.lightLevel[ctx.lightLevel] : labels.lightLevelUnknown,
+    });
+  };
+
+  return {
+    locale,
+    version: `${locale}@${t.version}`,
+    plantContext,
+    diagnosis(ctx, photoCount) {
+      const many = photoCount > 1;
+      return {
+        system: interpolate(t.diagnosis.system, {
+          plantContext: ctx ? `\n${plantContext(ctx)}\n` : '',
+          photoContext: interpolate(many ? t.diagnosis.photoMany : t.diagnosis.photoOne, { photoCount }),
+        }),
+        user: interpolate(many ? t.diagnosis.userMany : t.diagnosis.userOne, { photoCount }),
+      };
+    },
+    chat({ ctx, diagnosis, priorDiagnosisSummary }) {
+      const issues = diagnosis.issues.length > 0
+        ? diagnosis.issues.map(i => interpolate(t.chat.issue, { ...i })).join('\n')
+        : t.chat.noIssues;
+      return interpolate(t.chat.system, {
+        plantContext: plantContext(ctx),
+        resume: priorDiagnosisSummary ? interpolate(t.chat.resume, { priorSummary: priorDiagnosisSummary }) : '',
+        overallStatus: diagnosis.overallStatus,
+        summary: diagnosis.summary,
+        issues,
+        careTips: diagnosis.careTips.join('; '),
+        species: ctx.species,
+        offTopicReply: interpolate(t.chat.offTopic, { species: ctx.species }),
+      });
+    },
+    comparison(originalDate) {
+      return interpolate(t.chat.comparison, { date: originalDate });
+    },
+    retry(errors) {
+      return interpolate(t.retry, { errors: errors.join('; ') });
+    },
+  };
+}
@@ -0,0 +1,157 @@
+// Supabase Edge Functions — módulo compartido: cupos del plan gratuito.
+// v1.3 (QUOTA-01): identify-plant, diagnose-plant y chat-diagnosis cuentan cada llamada de un
+// usuario gratuito en public.ai_usage (migrations/012_ai_quota.sql) antes de llamar a la IA.
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+import { getPremiumEntitlement } from "./revenuecat.ts"
+
+export type QuotaKind = 'identification' | 'diagnosis' | 'chat';
+
+// Mirrors src/config/premium.ts — scripts/smoke-ai-quota.mjs fails when they drift apart.
+const FREE_IDENTIFICATION_LIMIT = 1;
+const FREE_DIAGNOSIS_LIMIT = 1;
+const FREE_CHAT_MESSAGES_PER_DIAGNOSIS = 3;
+
+// Chat is counted per conversation: each diagnosis gets its own free messages, like the app gate.
+export const FREE_LIMITS: Record<QuotaKind, number> = {
+  identification: FREE_IDENTIFICATION_LIMIT,
+  diagnosis: FREE_DIAGNOSIS_LIMIT,
+  chat: FREE_CHAT_MESSAGES_PER_DIAGNOSIS,
+};
+
+/** Headers the app adds to AI calls; every function must allow them in CORS. */
+export const QUOTA_HEADERS = 'x-device-id';
+
+const DEVICE_ID_RE = /^[A-Za-z0-9-]{8,64}$/;
+// Diagnosis ids as the app creates them (usePlantDiagnosis: diag_<ms>_<random>).
+const DIAGNOSIS_ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type QuotaCheck =
+  | { allowed: true; release: () => Promise<void> }
+  | { allowed: false; response: Response };
+
+const noRelease = async () => {};
+
+/**
+ * Who is calling: the user of the session token (anonymous sessions included — the app signs
+ * in anonymously before its first AI call) and the device id header (checked by checkQuota).
+ * Null without a valid session: every call must be counted against an account the server
+ * created, never only against an id the client made up.
+ *
+ * Registered users count against their account and the device. An anonymous account is new
+ * after every reinstall, so anonymous calls count against the device only.
+ */
+async function getCaller(
+  req: Request,
+  supabase: SupabaseClient,
+  deviceId: string
+): Promise<{ userId: string; subjects: string[] } | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token || token === Deno.env.get('SUPABASE_ANON_KEY')) return null;
+  const { data } = await supabase.auth.getUser(token);
+  if (!data.user) return null;
+
+  const device = `device:${deviceId}`;
+  const subjects = data.user.is_anonymous ? [device] : [`user:${data.user.id}`, device];
+  return { userId: data.user.id, subjects };
+}
+
+function errorResponse(
+  status: number,
+  error: string,
+  code: string,
+  corsHeaders: Record<string, string>
+): QuotaCheck {
+  return {
+    allowed: false,
+    response: new Response(JSON.stringify({ error, code }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }),
+  };
+}
+
+/**
+ * Counts this call against the caller's free quota. Once the quota is used up only premium
+ * callers go through; everyone else gets a 402 with code QUOTA_EXCEEDED, which the app turns
+ * into the paywall. `release` gives the call back when the AI provider fails afterwards.
+ * Calls without a session get a 401 with code AUTH_REQUIRED, calls without the device id
+ * header a 400 with code NO_DEVICE_ID. Chat messages are counted per `diagnosisId`; a chat
+ * call without a valid one gets a 400 with code NO_DIAGNOSIS.
+ *
+ * A database or configuration problem lets the call through: a quota outage must not take
+ * the AI features down, and the app's own gate still applies.
+ */
+export async function checkQuota(
+  req: Request,
+  kind: QuotaKind,
+  corsHeaders: Record<string, string>,
+  diagnosisId?: string
+): Promise<QuotaCheck> {
+  const deviceId = req.headers.get('x-device-id');
+  if (!deviceId || !DEVICE_ID_RE.test(deviceId)) {
+    return errorResponse(400, 'Falta el identificador del dispositivo', 'NO_DEVICE_ID', corsHeaders);
+  }
+  if (kind === 'chat' && (typeof diagnosisId !== 'string' || !DIAGNOSIS_ID_RE.test(diagnosisId))) {
+    return errorResponse(400, 'Se requiere el diagnóstico de la conversación', 'NO_DIAGNOSIS', corsHeaders);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error('Quota check skipped: SUPABASE_SERVICE_ROLE_KEY not configured');
+    return { allowed: true, release: noRelease };
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const caller = await getCaller(req, supabase, deviceId);
+  if (!caller) {
+    return errorResponse(401, 'Iniciá sesión para usar esta función', 'AUTH_REQUIRED', corsHeaders);
+  }
+  const subjects = kind === 'chat'
+    ? caller.subjects.map(subject => `${subject}:diagnosis:${diagnosisId}`)
+    : caller.subjects;
+  const { data, error } = await supabase.rpc('consume_ai_quota', {
+    subjects,
+    quota_kind: kind,
+    quota_limit: FREE_LIMITS[kind],
+  });
+
+  if (error || !data) {
+    console.error('consume_ai_quota error:', error);
+    return { allowed: true, release: noRelease };
+  }
+
+  if (data.allowed) {
+    return {
+      allowed: true,
+      release: async () => {
+        const { error: releaseError } = await supabase.rpc('release_ai_quota', { subjects, quota_kind: kind });
+        if (releaseError) console.error('release_ai_quota error:', releaseError);
+      },
+    };
+  }
+
+  // The RevenueCat app user id is the auth id (paymentService.logIn), never a request header.
+  if ((await getPremiumEntitlement(caller.userId))?.active) {
+    return { allowed: true, release: noRelease };
+  }
+
+  console.log(`Quota exceeded: ${kind} ${data.used}/${data.limit}`);
+  return {
+    allowed: false,
+    response: new Response(
+      JSON.stringify({
+        error: 'Alcanzaste el límite del plan gratuito',
+        code: 'QUOTA_EXCEEDED',
+        kind,
+        limit: data.limit,
+        used: data.used,
+      }),
+      {
+        status: 402,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    ),
+  };
+}
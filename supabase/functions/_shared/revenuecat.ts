@@ -0,0 +1,36 @@
+// Supabase Edge Functions — módulo compartido: estado premium en RevenueCat.
+// v1.3 (QUOTA-01 / SYNC-03): el app user id de RevenueCat es el auth id de Supabase
+// (paymentService.logIn), así que el servidor consulta el entitlement del usuario verificado.
+
+// src/config/revenuecat.ts ENTITLEMENT_ID.
+const ENTITLEMENT_ID = 'premium';
+const REVENUECAT_API_URL = 'https://api.revenuecat.com/v1/subscribers';
+
+export interface PremiumEntitlement {
+  active: boolean;
+  /** ISO expiry; null for a lifetime purchase. */
+  expiresAt: string | null;
+}
+
+/** The premium entitlement of this user; null when RevenueCat cannot be asked. */
+export async function getPremiumEntitlement(userId: string): Promise<PremiumEntitlement | null> {
+  const secretKey = Deno.env.get('REVENUECAT_SECRET_KEY');
+  if (!secretKey) return null;
+  try {
+    const response = await fetch(`${REVENUECAT_API_URL}/${encodeURIComponent(userId)}`, {
+      headers: { Authorization: `Bearer ${secretKey}` },
+    });
+    if (!response.ok) {
+      console.error('RevenueCat error:', response.status);
+      return null;
+    }
+    const data = await response.json();
+    const entitlement = data.subscriber?.entitlements?.[ENTITLEMENT_ID];
+    if (!entitlement) return { active: false, expiresAt: null };
+    const expiresAt: string | null = entitlement.expires_date ?? null;
+    return { active: !expiresAt || new Date(expiresAt) > new Date(), expiresAt };
+  } catch (error) {
+    console.error('RevenueCat check failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,203 @@
+// Supabase Edge Functions — módulo compartido: proveedores de visión.
+// v1.3 (VISION-01): diagnose-plant y chat-diagnosis arman un VisionRequest neutro y esta capa lo
+// traduce al proveedor elegido por VISION_PROVIDER. Sin imports: la corre también el smoke
+// scripts/smoke-vision-provider.mjs bajo Node.
+
+export type VisionTask = 'diagnosis' | 'chat';
+
+/** Base64 JPEG images and text, in the order the model should read them. */
+export type VisionPart = { text: string } | { image: string };
+
+export interface VisionMessage {
+  role: 'user' | 'model';
+  parts: VisionPart[];
+}
+
+export interface VisionRequest {
+  task: VisionTask;
+  system: string;
+  messages: VisionMessage[];
+}
+
+export type VisionResult =
+  | { ok: true; text: string }
+  | { ok: false; code: 'PROVIDER_ERROR' | 'EMPTY_RESPONSE'; status?: number; details?: string };
+
+export interface VisionProvider {
+  name: string;
+  model: string;
+  /** Asks for a JSON answer; never throws for provider-side failures. */
+  generate(request: VisionRequest): Promise<VisionResult>;
+}
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+function geminiProvider(apiKey: string, model: string): VisionProvider {
+  return {
+    name: 'gemini',
+    model,
+    async generate({ system, messages }) {
+      const response = await fetch(`${GEMINI_API_URL}/${model}:generateContent`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          systemInstruction: {
+            parts: [{ text: system }],
+          },
+          contents: messages.map(m => ({
+            role: m.role,
+            parts: m.parts.map(p => 'text' in p
+              ? { text: p.text }
+              : { inlineData: { mimeType: 'image/jpeg', data: p.image } }),
+          })),
+          generationConfig: {
+            responseMimeType: 'application/json',
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        return { ok: false, code: 'PROVIDER_ERROR', status: response.status, details: await response.text() };
+      }
+      const data = await response.json();
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      return text ? { ok: true, text } : { ok: false, code: 'EMPTY_RESPONSE', details: JSON.stringify(data) };
+    },
+  };
+}
+
+/** Any OpenAI-compatible chat completions API (OpenAI, OpenRouter, a local vLLM…). */
+function openAiProvider(apiKey: string, model: string, baseUrl: string): VisionProvider {
+  return {
+    name: 'openai',
+    model,
+    async generate({ system, messages }) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: system },
+            ...messages.map(m => ({
+              role: m.role === 'model' ? 'assistant' : 'user',
+              // Text-only turns go as a plain string — not every compatible server takes parts
+              content: m.parts.every(p => 'text' in p)
+                ? m.parts.map(p => (p as { text: string }).text).join('\n')
+                : m.parts.map(p => 'text' in p
+                  ? { type: 'text', text: p.text }
+                  : { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${p.image}` } }),
+            })),
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        return { ok: false, code: 'PROVIDER_ERROR', status: response.status, details: await response.text() };
+      }
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content;
+      return text ? { ok: true, text } : { ok: false, code: 'EMPTY_RESPONSE', details: JSON.stringify(data) };
+    },
+  };
+}
+
+const STUB_RESPONSES: Record<VisionTask, unknown> = {
+  diagnosis: {
+    overallStatus: 'minor',
+    summary: 'Stub diagnosis: slight overwatering.',
+    issues: [
+      {
+        name: 'Overwatering',
+        confidence: 70,
+        severity: 'minor',
+        description: 'Stub issue returned by the offline provider.',
+        treatment: 'Let the top of the soil dry before watering again.',
+      },
+    ],
+    careTips: ['Check the soil before watering.'],
+    severity: 'minor',
+    problemSummary: 'Slight overwatering.',
+  },
+  chat: {
+    reply: 'Stub reply from the offline provider.',
+    updatedTips: [],
+    improvementDetected: false,
+  },
+};
+
+/** Offline provider for tests: a canned answer per task, or VISION_STUB_RESPONSE verbatim. */
+function stubProvider(): VisionProvider {
+  return {
+    name: 'stub',
+    model: 'stub',
+    async generate({ task }) {
+      return { ok: true, text: Deno.env.get('VISION_STUB_RESPONSE') ?? JSON.stringify(STUB_RESPONSES[task]) };
+    },
+  };
+}
+
+function createProvider(name: string): VisionProvider | null {
+  switch (name) {
+    case 'gemini': {
+      const apiKey = Deno.env.get('GEMINI_API_KEY');
+      if (!apiKey) {
+        console.error('GEMINI_API_KEY not configured');
+        return null;
+      }
+      return geminiProvider(apiKey, Deno.env.get('GEMINI_MODEL') || DEFAULT_GEMINI_MODEL);
+    }
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        console.error('OPENAI_API_KEY not configured');
+        return null;
+      }
+      return openAiProvider(
+        apiKey,
+        Deno.env.get('OPENAI_MODEL') || DEFAULT_OPENAI_MODEL,
+        Deno.env.get('OPENAI_BASE_URL') || DEFAULT_OPENAI_BASE_URL
+      );
+    }
+    case 'stub':
+      return stubProvider();
+    default:
+      console.error(`Unknown vision provider: ${name}`);
+      return null;
+  }
+}
+
+/**
+ * Provider for this request. VISION_PROVIDER is `gemini` (default), `openai` or `stub`, or a
+ * weighted list for A/B runs (`gemini:80,openai:20`) drawn per request. Entries without their
+ * API key are left out of the draw; null when nothing is configured.
+ */
+export function selectVisionProvider(random: () => number = Math.random): VisionProvider | null {
+  const entries = (Deno.env.get('VISION_PROVIDER') || 'gemini')
+    .split(',')
+    .map(entry => {
+      const [name, weight] = entry.trim().split(':');
+      return { provider: createProvider(name.trim().toLowerCase()), weight: weight === undefined ? 1 : Number(weight) };
+    })
+    .filter((e): e is { provider: VisionProvider; weight: number } => !!e.provider && e.weight > 0);
+
+  if (entries.length === 0) return null;
+
+  const total = entries.reduce((sum, e) => sum + e.weight, 0);
+  let pick = random() * total;
+  for (const entry of entries) {
+    pick -= entry.weight;
+    if (pick < 0) return entry.provider;
+  }
+  return entries[entries.length - 1].provider;
+}
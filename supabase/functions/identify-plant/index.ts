@@ -2,12 +2,14 @@
 // Proxy para PlantNet API - mantiene la API key segura en el servidor
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { checkQuota, QUOTA_HEADERS } from "../_shared/quota.ts"
+import { validateIdentificationResponse, INVALID_AI_RESPONSE } from "../_shared/aiValidation.ts"
 
 const PLANTNET_API_URL = 'https://my-api.plantnet.org/v2/identify/all';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${QUOTA_HEADERS}`,
 };
 
 interface RequestBody {
@@ -22,6 +24,9 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  // v1.3 (QUOTA-01): set once the call is counted; gives it back when the provider fails.
+  let releaseQuota = async () => {};
+
   try {
     // Get PlantNet API key from Supabase secrets
     const plantnetApiKey = Deno.env.get('PLANTNET_API_KEY');
@@ -68,6 +73,11 @@ serve(async (req) => {
       );
     }
 
+    // v1.3 (QUOTA-01): count the call against the free tier before reaching PlantNet.
+    const quota = await checkQuota(req, 'identification', corsHeaders);
+    if (!quota.allowed) return quota.response;
+    releaseQuota = quota.release;
+
     // Convert base64 to Uint8Array for the blob
     const binaryString = atob(body.imageBase64);
     const bytes = new Uint8Array(binaryString.length);
@@ -109,6 +119,7 @@ serve(async (req) => {
       }
 
       console.error('PlantNet API error:', plantnetResponse.status);
+      await releaseQuota();
       return new Response(
         JSON.stringify({
           error: `Error de PlantNet: ${plantnetResponse.status}`,
@@ -121,9 +132,27 @@ serve(async (req) => {
       );
     }
 
-    const data = await plantnetResponse.json();
+    // v1.3 (AIVAL-01): malformed matches are dropped, scores kept in 0-1.
+    const validation = validateIdentificationResponse(await plantnetResponse.json());
+    if (!validation.ok) {
+      console.error('Invalid PlantNet response:', validation.code, validation.errors.join('; '));
+      await releaseQuota();
+      return new Response(
+        JSON.stringify({
+          error: 'La respuesta de PlantNet llegó incompleta',
+          code: INVALID_AI_RESPONSE,
+          reason: validation.code,
+        }),
+        {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+    if (validation.repairs.length > 0) console.log('PlantNet response repaired:', validation.repairs.join('; '));
 
-    console.log(`PlantNet returned ${data.results?.length || 0} results`);
+    const data = validation.value;
+    console.log(`PlantNet returned ${data.results.length} results`);
 
     return new Response(
       JSON.stringify(data),
@@ -135,6 +164,7 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Edge function error:', error);
+    await releaseQuota();
     return new Response(
       JSON.stringify({
         error: error.message || 'Error interno del servidor',
@@ -0,0 +1,57 @@
+// Supabase Edge Function: revenuecat-webhook
+// v1.3 (SYNC-03): mantiene public.premium_status al día para que las políticas de Storage
+// apliquen el cupo de fotos según el plan (migrations/008_photo_storage.sql).
+//
+// RevenueCat llama con el header Authorization configurado en su dashboard
+// (REVENUECAT_WEBHOOK_AUTH). El evento sólo indica a quién mirar: el estado se vuelve a leer
+// de la API de RevenueCat, así un evento repetido o fuera de orden no deja datos viejos.
+// verify_jwt = false (supabase/config.toml): RevenueCat no manda un JWT de Supabase.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+import { getPremiumEntitlement } from "../_shared/revenuecat.ts"
+
+// App user ids that are Supabase auth ids; RevenueCat's own anonymous ids are skipped.
+const AUTH_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+serve(async (req) => {
+  const expected = Deno.env.get('REVENUECAT_WEBHOOK_AUTH');
+  if (!expected || req.headers.get('Authorization') !== expected) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { event } = await req.json();
+    const ids: string[] = [event?.app_user_id, event?.original_app_user_id, ...(event?.aliases ?? [])];
+    const userIds = [...new Set(ids.filter((id) => typeof id === 'string' && AUTH_ID_RE.test(id)))];
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    for (const userId of userIds) {
+      const entitlement = await getPremiumEntitlement(userId);
+      // RevenueCat retries non-2xx answers, so a failed lookup is reported back.
+      if (!entitlement) return json({ error: 'RevenueCat lookup failed' }, 502);
+
+      const { error } = entitlement.active
+        ? await supabase
+          .from('premium_status')
+          .upsert({ user_id: userId, expires_at: entitlement.expiresAt }, { onConflict: 'user_id' })
+        : await supabase.from('premium_status').delete().eq('user_id', userId);
+      if (error) {
+        console.error('premium_status write error:', error);
+        return json({ error: 'Failed to store premium status' }, 500);
+      }
+    }
+
+    return json({ success: true, users: userIds.length }, 200);
+  } catch (error) {
+    console.error('Error:', error);
+    return json({ error: 'Invalid webhook payload' }, 400);
+  }
+})
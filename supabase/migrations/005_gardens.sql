@@ -0,0 +1,43 @@
+-- v1.3 (GARDEN-01): multiple gardens / spaces.
+-- Each user can have extra spaces besides home, each with its own location and climate
+-- zone. The home space is implicit (user_settings location) and never stored here.
+-- plants.garden_id holds the space's local_id; NULL = home.
+
+CREATE TABLE public.gardens (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  location_lat DOUBLE PRECISION,
+  location_lon DOUBLE PRECISION,
+  location_name TEXT,
+  location_country TEXT,
+  location_admin1 TEXT,
+  climate_override TEXT NOT NULL DEFAULT 'auto'
+    CHECK (climate_override IN ('auto', 'northern', 'southern', 'tropical')),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, local_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.gardens ENABLE ROW LEVEL SECURITY;
+
+-- Gardens policies
+CREATE POLICY "Users can view own gardens" ON public.gardens
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own gardens" ON public.gardens
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own gardens" ON public.gardens
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own gardens" ON public.gardens
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster queries
+CREATE INDEX idx_gardens_user_id ON public.gardens(user_id);
+
+-- Plants: owning space (local garden id). NULL = home.
+ALTER TABLE public.plants ADD COLUMN garden_id TEXT;
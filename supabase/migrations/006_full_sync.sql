@@ -0,0 +1,165 @@
+-- v1.3 (SYNC-01): sync everything the device stores, so a restored account gets it all back.
+--
+-- plants: v1.1 care fields (water_schedule, light_level, water_mode), fertilize schedule,
+-- pending skip/snooze deferrals and placement. The legacy water_every / sun_hours columns
+-- are no longer written by the app; they stay (nullable) so rows synced by older builds
+-- can still be upgraded on download. The per-plant override columns the app already
+-- wrote but the schema never declared are added here too.
+--
+-- New per-user tables: journal_entries, diagnoses, shopping_items, care_events.
+-- user_settings: climate zone override and the fertilize reminder opt-in.
+
+-- ============================================
+-- PLANTS — v1.1+ fields
+-- ============================================
+ALTER TABLE public.plants ALTER COLUMN water_every DROP NOT NULL;
+ALTER TABLE public.plants ALTER COLUMN sun_hours DROP NOT NULL;
+
+ALTER TABLE public.plants ADD COLUMN IF NOT EXISTS temp_min INTEGER;
+ALTER TABLE public.plants ADD COLUMN IF NOT EXISTS temp_max INTEGER;
+ALTER TABLE public.plants ADD COLUMN IF NOT EXISTS humidity TEXT;
+ALTER TABLE public.plants ADD COLUMN IF NOT EXISTS favorite BOOLEAN;
+ALTER TABLE public.plants ADD COLUMN IF NOT EXISTS image_url TEXT;
+ALTER TABLE public.plants ADD COLUMN IF NOT EXISTS database_id TEXT;
+ALTER TABLE public.plants ADD COLUMN IF NOT EXISTS photos TEXT; -- JSON-encoded PlantPhoto[]
+
+ALTER TABLE public.plants ADD COLUMN water_schedule JSONB; -- { warm, cold }
+ALTER TABLE public.plants ADD COLUMN light_level TEXT
+  CHECK (light_level IN ('direct', 'bright_indirect', 'medium_indirect', 'low'));
+ALTER TABLE public.plants ADD COLUMN water_mode TEXT
+  CHECK (water_mode IN ('fixed', 'soil_check'));
+ALTER TABLE public.plants ADD COLUMN fertilize_schedule JSONB; -- { intervalDays, lastFertilized? }
+ALTER TABLE public.plants ADD COLUMN task_deferrals JSONB;     -- { water?, fertilize? }
+ALTER TABLE public.plants ADD COLUMN placement TEXT
+  CHECK (placement IN ('indoor', 'covered_balcony', 'outdoor', 'greenhouse'));
+
+-- ============================================
+-- JOURNAL ENTRIES (v1.2 JOURNAL-01) — photo_uri is device-local
+-- ============================================
+CREATE TABLE public.journal_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  text TEXT,
+  photo_uri TEXT,
+  care_tag TEXT CHECK (care_tag IN ('riego', 'fertilizar', 'sol', 'poda', 'problema', 'otro')),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, plant_local_id, local_id)
+);
+
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own journal entries" ON public.journal_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own journal entries" ON public.journal_entries
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own journal entries" ON public.journal_entries
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own journal entries" ON public.journal_entries
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_journal_entries_user_id ON public.journal_entries(user_id);
+
+-- ============================================
+-- DIAGNOSES — the full SavedDiagnosis (result, chat, tracking) lives in `payload`
+-- ============================================
+CREATE TABLE public.diagnoses (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  resolved BOOLEAN DEFAULT FALSE,
+  payload JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, local_id)
+);
+
+ALTER TABLE public.diagnoses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own diagnoses" ON public.diagnoses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own diagnoses" ON public.diagnoses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own diagnoses" ON public.diagnoses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own diagnoses" ON public.diagnoses
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_diagnoses_user_id ON public.diagnoses(user_id);
+
+-- ============================================
+-- SHOPPING ITEMS (treatments suggested by a diagnosis)
+-- ============================================
+CREATE TABLE public.shopping_items (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  diagnosis_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  plant_name TEXT NOT NULL,
+  checked BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(user_id, local_id)
+);
+
+ALTER TABLE public.shopping_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shopping items" ON public.shopping_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own shopping items" ON public.shopping_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own shopping items" ON public.shopping_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shopping items" ON public.shopping_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_shopping_items_user_id ON public.shopping_items(user_id);
+
+-- ============================================
+-- CARE EVENTS (v1.3 HIST-01) — append-only, never updated
+-- ============================================
+CREATE TABLE public.care_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('water', 'sun', 'outdoor', 'fertilize', 'soil_check')),
+  date TEXT NOT NULL,
+  logged_at TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('task', 'calendar', 'journal', 'undo', 'migration')),
+  undoes TEXT,
+  UNIQUE(user_id, plant_local_id, local_id)
+);
+
+ALTER TABLE public.care_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own care events" ON public.care_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own care events" ON public.care_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own care events" ON public.care_events
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_care_events_user_id ON public.care_events(user_id);
+
+-- ============================================
+-- USER SETTINGS — climate zone + fertilize reminders
+-- ============================================
+ALTER TABLE public.user_settings ADD COLUMN climate_override TEXT NOT NULL DEFAULT 'auto'
+  CHECK (climate_override IN ('auto', 'northern', 'southern', 'tropical'));
+ALTER TABLE public.user_settings ADD COLUMN notification_fertilize_reminders BOOLEAN DEFAULT FALSE;
@@ -0,0 +1,106 @@
+-- v1.3 (SYNC-02): conflict-aware two-way sync.
+--
+-- plants / notes / reminders: updated_at now carries the device time of the last local write
+-- (the app sends it; it is what conflicts are resolved on). synced_at is stamped by the server
+-- on every insert / update and is the cursor for incremental downloads — device clocks are
+-- never compared against it.
+--
+-- journal entries / diagnoses / shopping items: updated_at carries the device time too, so the
+-- same record edited on two devices keeps the newer edit. journal_entries and diagnoses already
+-- had the column (filled with the upload time until now); shopping_items gets it here. Rows
+-- written before this stay NULL and lose to any stamped copy.
+--
+-- care_events: gets the synced_at cursor too, so a download fetches only the events uploaded
+-- since the last one instead of the whole history. NOW() is the start of the uploading
+-- transaction: a row committed late can carry a synced_at older than a cursor another download
+-- already moved past, so the app re-reads a window before its cursor (SYNC_PULL_OVERLAP_MS in
+-- src/services/syncService.ts) and the merge drops the events it already has by id.
+--
+-- sync_tombstones: one row per deleted record of any synced kind, so a device that still has
+-- the record drops it instead of uploading it again. The app prunes tombstones older than
+-- 90 days (TOMBSTONE_TTL_DAYS in src/utils/syncMerge.ts).
+
+-- ============================================
+-- synced_at trigger
+-- ============================================
+CREATE OR REPLACE FUNCTION public.touch_synced_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.synced_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- PLANTS / NOTES / REMINDERS
+-- ============================================
+ALTER TABLE public.plants ADD COLUMN synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE public.notes ADD COLUMN updated_at TIMESTAMPTZ;
+ALTER TABLE public.notes ADD COLUMN synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE public.reminders ADD COLUMN updated_at TIMESTAMPTZ;
+ALTER TABLE public.reminders ADD COLUMN synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE TRIGGER plants_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.plants
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+CREATE TRIGGER notes_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.notes
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+CREATE TRIGGER reminders_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.reminders
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+CREATE INDEX idx_plants_synced_at ON public.plants(user_id, synced_at);
+CREATE INDEX idx_notes_synced_at ON public.notes(user_id, synced_at);
+CREATE INDEX idx_reminders_synced_at ON public.reminders(user_id, synced_at);
+
+-- ============================================
+-- SHOPPING ITEMS
+-- ============================================
+ALTER TABLE public.shopping_items ADD COLUMN updated_at TIMESTAMPTZ;
+
+-- ============================================
+-- CARE EVENTS
+-- ============================================
+ALTER TABLE public.care_events ADD COLUMN synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE TRIGGER care_events_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.care_events
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+CREATE INDEX idx_care_events_synced_at ON public.care_events(user_id, synced_at);
+
+-- ============================================
+-- SYNC TOMBSTONES
+-- ============================================
+CREATE TABLE public.sync_tombstones (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('plant', 'note', 'reminder', 'garden', 'journal', 'diagnosis', 'care_event', 'shopping')),
+  local_id TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, kind, local_id)
+);
+
+ALTER TABLE public.sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tombstones" ON public.sync_tombstones
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tombstones" ON public.sync_tombstones
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tombstones" ON public.sync_tombstones
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tombstones" ON public.sync_tombstones
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER sync_tombstones_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.sync_tombstones
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+CREATE INDEX idx_sync_tombstones_synced_at ON public.sync_tombstones(user_id, synced_at);
@@ -0,0 +1,70 @@
+-- v1.3 (SYNC-03): plant and journal photos in Supabase Storage.
+--
+-- Photos upload to the private `user-photos` bucket under `<user id>/plants/<plant id>/` and
+-- `<user id>/journal/<plant id>/` (bucket + policies: supabase/storage-setup.sql). Plant
+-- photos carry their object path inside plants.photos (PlantPhoto.remotePath); journal
+-- entries get their own column. photo_uri stays the device-local file of the phone that took
+-- the picture.
+--
+-- photo_storage_usage() is what the app checks its tier quota against before uploading
+-- (PHOTO_STORAGE_QUOTA_MB in src/config/premium.ts), to park photos as quota_exceeded instead
+-- of retrying them. The server enforces the same quota: photo_upload_allowed() is what the
+-- upload policies of the user-photos bucket check — the folder owner's usage against their
+-- tier's quota. Its numbers mirror PHOTO_STORAGE_QUOTA_MB; scripts/smoke-photo-queue.mjs fails
+-- when they drift apart.
+--
+-- premium_status holds the accounts with an active RevenueCat entitlement. Only the
+-- revenuecat-webhook edge function (service role) writes it; the app's RevenueCat app user id
+-- is the Supabase auth id, so the webhook knows whose row it is. expires_at NULL = lifetime.
+
+-- ============================================
+-- JOURNAL ENTRIES
+-- ============================================
+ALTER TABLE public.journal_entries ADD COLUMN photo_path TEXT;
+
+-- ============================================
+-- STORAGE USAGE
+-- ============================================
+CREATE OR REPLACE FUNCTION public.photo_storage_usage()
+RETURNS BIGINT AS $$
+  SELECT COALESCE(SUM((metadata->>'size')::BIGINT), 0)
+  FROM storage.objects
+  WHERE bucket_id = 'user-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+GRANT EXECUTE ON FUNCTION public.photo_storage_usage() TO authenticated;
+
+-- ============================================
+-- PREMIUM STATUS
+-- ============================================
+CREATE TABLE public.premium_status (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  expires_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.premium_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own premium status" ON public.premium_status
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================
+-- PHOTO QUOTA
+-- ============================================
+-- Free: 25 MB. Premium: 1024 MB.
+CREATE OR REPLACE FUNCTION public.photo_upload_allowed(object_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(SUM((o.metadata->>'size')::BIGINT), 0) < (
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.premium_status s
+        WHERE s.user_id::text = (storage.foldername(object_name))[1]
+          AND (s.expires_at IS NULL OR s.expires_at > NOW())
+      ) THEN 1024
+      ELSE 25
+    END
+  ) * 1024 * 1024
+  FROM storage.objects o
+  WHERE o.bucket_id = 'user-photos'
+    AND (storage.foldername(o.name))[1] = (storage.foldername(object_name))[1];
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
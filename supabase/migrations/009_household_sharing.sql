@@ -0,0 +1,258 @@
+-- v1.3 (HOUSE-01): household sharing — co-caretakers on the same garden.
+--
+-- The owner of a garden (an extra space, GARDEN-01 — home is never shared) creates an invite
+-- code; whoever redeems it with accept_garden_invite() becomes a member. Members read and
+-- write the owner's rows directly: the garden, its plants and their care history stay under
+-- the owner's user_id and these policies open them up. Members can add and edit plants in a
+-- shared garden and log care on them; only the owner deletes plants or the garden.
+--
+-- care_events.done_by is stamped by the server with whoever logged the event, so every
+-- device can show who watered and when. Journal entries, diagnoses and user_settings stay
+-- per person — each member keeps their own notification settings and reminders.
+
+-- ============================================
+-- MEMBERS & INVITES
+-- ============================================
+CREATE TABLE public.garden_members (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  garden_id UUID REFERENCES public.gardens(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(garden_id, user_id)
+);
+
+CREATE TABLE public.garden_invites (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  garden_id UUID REFERENCES public.gardens(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  code TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by UUID REFERENCES auth.users(id),
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_garden_members_user_id ON public.garden_members(user_id);
+CREATE INDEX idx_garden_members_garden_id ON public.garden_members(garden_id);
+CREATE INDEX idx_garden_invites_garden_id ON public.garden_invites(garden_id);
+
+-- Failed invite redemptions, for the attempt limit in accept_garden_invite(). No policies:
+-- only that function (SECURITY DEFINER) reads and writes it.
+CREATE TABLE public.garden_invite_attempts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_garden_invite_attempts_user ON public.garden_invite_attempts(user_id, attempted_at);
+
+ALTER TABLE public.garden_invite_attempts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- ACCESS HELPERS
+-- ============================================
+-- SECURITY DEFINER so the policies below can look at garden_members / plants without
+-- recursing into their own RLS.
+
+-- Caller is a member of the owner's garden with this local id.
+CREATE OR REPLACE FUNCTION public.is_garden_member(owner UUID, garden_local_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.garden_members m
+    JOIN public.gardens g ON g.id = m.garden_id
+    WHERE m.user_id = auth.uid() AND g.user_id = owner AND g.local_id = garden_local_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Caller is a member of the garden this plant of the owner lives in.
+CREATE OR REPLACE FUNCTION public.is_shared_plant(owner UUID, plant_local_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.plants p
+    JOIN public.gardens g ON g.user_id = p.user_id AND g.local_id = p.garden_id
+    JOIN public.garden_members m ON m.garden_id = g.id
+    WHERE p.user_id = owner AND p.local_id = plant_local_id AND m.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Storage object (user-photos bucket) under `<owner>/plants/<plant local id>/` of a plant the
+-- caller co-cares for. Photos of shared plants live in the owner's folder, whoever took them
+-- (supabase/storage-setup.sql).
+CREATE OR REPLACE FUNCTION public.is_shared_plant_photo(object_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT (storage.foldername(object_name))[2] = 'plants' AND EXISTS (
+    SELECT 1
+    FROM public.plants p
+    JOIN public.gardens g ON g.user_id = p.user_id AND g.local_id = p.garden_id
+    JOIN public.garden_members m ON m.garden_id = g.id
+    WHERE p.user_id::text = (storage.foldername(object_name))[1]
+      AND p.local_id = (storage.foldername(object_name))[3]
+      AND m.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Caller owns or is a member of this garden (by cloud id).
+CREATE OR REPLACE FUNCTION public.can_see_garden(garden UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.gardens g WHERE g.id = garden AND g.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.garden_members m WHERE m.garden_id = garden AND m.user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Caller and `other` care for at least one garden together (owner or member on either side).
+CREATE OR REPLACE FUNCTION public.shares_garden_with(other UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.gardens g
+    WHERE (g.user_id = auth.uid() OR EXISTS (SELECT 1 FROM public.garden_members m WHERE m.garden_id = g.id AND m.user_id = auth.uid()))
+      AND (g.user_id = other OR EXISTS (SELECT 1 FROM public.garden_members m WHERE m.garden_id = g.id AND m.user_id = other))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Redeems an invite code for the caller. Returns 'ok' or a stable code the app maps to a
+-- message: invite_not_found, invite_used, invite_expired, own_garden, too_many_attempts.
+-- A code grants write access to someone's garden, so failed redemptions are counted and a
+-- caller with 10 in the last hour is turned away. Failures are returned, not raised: a raise
+-- would roll back the recorded attempt.
+CREATE OR REPLACE FUNCTION public.accept_garden_invite(invite_code TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  invite public.garden_invites%ROWTYPE;
+  failure TEXT;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.garden_invite_attempts a
+    WHERE a.user_id = auth.uid() AND a.attempted_at > NOW() - INTERVAL '1 hour'
+  ) >= 10 THEN
+    RETURN 'too_many_attempts';
+  END IF;
+
+  SELECT * INTO invite FROM public.garden_invites WHERE code = upper(invite_code) FOR UPDATE;
+  IF NOT FOUND THEN
+    failure := 'invite_not_found';
+  ELSIF invite.created_by = auth.uid() THEN
+    failure := 'own_garden';
+  ELSIF invite.accepted_at IS NOT NULL AND invite.accepted_by <> auth.uid() THEN
+    failure := 'invite_used';
+  ELSIF invite.expires_at < NOW() THEN
+    failure := 'invite_expired';
+  END IF;
+
+  IF failure IS NOT NULL THEN
+    INSERT INTO public.garden_invite_attempts (user_id) VALUES (auth.uid());
+    RETURN failure;
+  END IF;
+
+  INSERT INTO public.garden_members (garden_id, user_id)
+  VALUES (invite.garden_id, auth.uid())
+  ON CONFLICT (garden_id, user_id) DO NOTHING;
+
+  UPDATE public.garden_invites
+  SET accepted_by = auth.uid(), accepted_at = NOW()
+  WHERE id = invite.id;
+
+  RETURN 'ok';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+GRANT EXECUTE ON FUNCTION public.accept_garden_invite(TEXT) TO authenticated;
+
+-- ============================================
+-- MEMBERS & INVITES POLICIES
+-- ============================================
+ALTER TABLE public.garden_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.garden_invites ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in a garden sees who else is in it. Members join only through
+-- accept_garden_invite(); the owner removes anyone, a member removes themselves (leave).
+CREATE POLICY "Household can view garden members" ON public.garden_members
+  FOR SELECT USING (public.can_see_garden(garden_id));
+
+CREATE POLICY "Owners and members can delete memberships" ON public.garden_members
+  FOR DELETE USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.gardens g WHERE g.id = garden_id AND g.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can view own garden invites" ON public.garden_invites
+  FOR SELECT USING (auth.uid() = created_by);
+
+CREATE POLICY "Owners can insert own garden invites" ON public.garden_invites
+  FOR INSERT WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (SELECT 1 FROM public.gardens g WHERE g.id = garden_id AND g.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete own garden invites" ON public.garden_invites
+  FOR DELETE USING (auth.uid() = created_by);
+
+-- ============================================
+-- SHARED ROWS
+-- ============================================
+CREATE POLICY "Members can view shared gardens" ON public.gardens
+  FOR SELECT USING (public.is_garden_member(user_id, local_id));
+
+CREATE POLICY "Members can view shared plants" ON public.plants
+  FOR SELECT USING (public.is_garden_member(user_id, garden_id));
+
+CREATE POLICY "Members can insert shared plants" ON public.plants
+  FOR INSERT WITH CHECK (public.is_garden_member(user_id, garden_id));
+
+CREATE POLICY "Members can update shared plants" ON public.plants
+  FOR UPDATE USING (public.is_garden_member(user_id, garden_id))
+  WITH CHECK (public.is_garden_member(user_id, garden_id));
+
+-- Deleted shared plants reach members the same way they reach the owner's other devices.
+-- The plant row is gone by the time members download, so a plant tombstone keeps the space
+-- the plant lived in (filled from the plant row when the tombstone is written) and only
+-- members of that space see it.
+ALTER TABLE public.sync_tombstones ADD COLUMN garden_id TEXT;
+
+CREATE OR REPLACE FUNCTION public.stamp_tombstone_garden()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.kind = 'plant' THEN
+    NEW.garden_id = COALESCE(
+      (SELECT p.garden_id FROM public.plants p WHERE p.user_id = NEW.user_id AND p.local_id = NEW.local_id),
+      NEW.garden_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER sync_tombstones_stamp_garden
+  BEFORE INSERT OR UPDATE ON public.sync_tombstones
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_tombstone_garden();
+
+CREATE POLICY "Members can view shared plant tombstones" ON public.sync_tombstones
+  FOR SELECT USING (kind = 'plant' AND garden_id IS NOT NULL AND public.is_garden_member(user_id, garden_id));
+
+-- Names next to "watered by".
+CREATE POLICY "Household can view each other's profiles" ON public.profiles
+  FOR SELECT USING (public.shares_garden_with(id));
+
+-- ============================================
+-- CARE EVENTS — who did it
+-- ============================================
+ALTER TABLE public.care_events ADD COLUMN done_by UUID REFERENCES auth.users(id);
+
+CREATE OR REPLACE FUNCTION public.stamp_care_event_done_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.done_by = auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER care_events_stamp_done_by
+  BEFORE INSERT ON public.care_events
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_care_event_done_by();
+
+CREATE POLICY "Members can view shared care events" ON public.care_events
+  FOR SELECT USING (public.is_shared_plant(user_id, plant_local_id));
+
+CREATE POLICY "Members can insert shared care events" ON public.care_events
+  FOR INSERT WITH CHECK (public.is_shared_plant(user_id, plant_local_id));
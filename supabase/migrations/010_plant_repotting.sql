@@ -0,0 +1,4 @@
+-- v1.3 (HEALTH-02): last repotting day per plant, for the "repotting overdue" health rule.
+-- NULL = never recorded; the rule only fires once a repotting has been logged.
+
+ALTER TABLE public.plants ADD COLUMN last_repotted DATE;
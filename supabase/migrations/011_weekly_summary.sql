@@ -0,0 +1,4 @@
+-- v1.3 (STREAK-01): opt-in Sunday care summary notification, synced with the other
+-- notification toggles. NULL on rows written before this column reads as off.
+
+ALTER TABLE public.user_settings ADD COLUMN notification_weekly_summary BOOLEAN DEFAULT FALSE;
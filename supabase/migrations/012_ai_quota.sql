@@ -0,0 +1,58 @@
+-- v1.3 (QUOTA-01): server-side free-tier quotas for the AI edge functions.
+--
+-- identify-plant, diagnose-plant and chat-diagnosis count every call of a free user here
+-- before reaching the AI provider. The functions require a Supabase session (the app signs in
+-- anonymously when the user has no account) and the x-device-id header (kept in the keychain,
+-- so it survives a reinstall on iOS). Every call counts against 'device:<id>'; a registered
+-- user's also counts against 'user:<auth id>', and the highest count among them is the one
+-- checked. An anonymous account is new after a reinstall, so it is not a subject of its own.
+-- Chat messages are counted per conversation: their subjects end in ':diagnosis:<id>'.
+-- Premium callers — a RevenueCat entitlement on the app user id equal to the auth id — skip
+-- the limit once it is reached.
+--
+-- Only the edge functions (service role) touch this table; clients have no policies on it.
+
+CREATE TABLE public.ai_usage (
+  subject TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('identification', 'diagnosis', 'chat')),
+  used INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (subject, kind)
+);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Counts one call for every subject when the highest count is under the limit. Row locks
+-- serialize concurrent calls from the same user or device.
+CREATE OR REPLACE FUNCTION public.consume_ai_quota(subjects TEXT[], quota_kind TEXT, quota_limit INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  current_used INTEGER;
+BEGIN
+  INSERT INTO public.ai_usage (subject, kind)
+  SELECT s, quota_kind FROM unnest(subjects) AS s
+  ON CONFLICT (subject, kind) DO NOTHING;
+
+  PERFORM 1 FROM public.ai_usage WHERE subject = ANY(subjects) AND kind = quota_kind FOR UPDATE;
+  SELECT COALESCE(MAX(used), 0) INTO current_used
+  FROM public.ai_usage WHERE subject = ANY(subjects) AND kind = quota_kind;
+
+  IF current_used >= quota_limit THEN
+    RETURN jsonb_build_object('allowed', false, 'used', current_used, 'limit', quota_limit);
+  END IF;
+
+  UPDATE public.ai_usage SET used = used + 1, updated_at = NOW()
+  WHERE subject = ANY(subjects) AND kind = quota_kind;
+  RETURN jsonb_build_object('allowed', true, 'used', current_used + 1, 'limit', quota_limit);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Gives back a call counted by consume_ai_quota when the AI provider failed.
+CREATE OR REPLACE FUNCTION public.release_ai_quota(subjects TEXT[], quota_kind TEXT)
+RETURNS VOID AS $$
+  UPDATE public.ai_usage SET used = GREATEST(used - 1, 0), updated_at = NOW()
+  WHERE subject = ANY(subjects) AND kind = quota_kind;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.consume_ai_quota(TEXT[], TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_ai_quota(TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
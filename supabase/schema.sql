@@ -45,6 +45,15 @@ CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+-- v1.3 (SYNC-02): server-side upload time, the cursor for incremental downloads
+CREATE OR REPLACE FUNCTION public.touch_synced_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.synced_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
 -- ============================================
 -- PLANTS TABLE
 -- ============================================
@@ -56,14 +65,31 @@ CREATE TABLE public.plants (
   type_id TEXT NOT NULL,
   type_name TEXT NOT NULL,
   icon TEXT NOT NULL,
-  water_every INTEGER NOT NULL,
-  sun_hours INTEGER NOT NULL,
+  water_every INTEGER, -- deprecated (v1.3 SYNC-01): no longer written; read to upgrade old rows
+  sun_hours INTEGER,   -- deprecated (v1.3 SYNC-01): same
   sun_days INTEGER[] DEFAULT '{}',
   outdoor_days INTEGER[] DEFAULT '{}',
   last_watered DATE,
   sun_done_date DATE,
   outdoor_done_date DATE,
-  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  garden_id TEXT, -- v1.3 (GARDEN-01): local id of the owning space; NULL = home
+  temp_min INTEGER,
+  temp_max INTEGER,
+  humidity TEXT,
+  favorite BOOLEAN,
+  image_url TEXT,
+  database_id TEXT,
+  photos TEXT, -- JSON-encoded PlantPhoto[]
+  -- v1.3 (SYNC-01): v1.1+ care fields
+  water_schedule JSONB, -- { warm, cold }
+  light_level TEXT CHECK (light_level IN ('direct', 'bright_indirect', 'medium_indirect', 'low')),
+  water_mode TEXT CHECK (water_mode IN ('fixed', 'soil_check')),
+  fertilize_schedule JSONB, -- { intervalDays, lastFertilized? }
+  task_deferrals JSONB,     -- { water?, fertilize? }
+  placement TEXT CHECK (placement IN ('indoor', 'covered_balcony', 'outdoor', 'greenhouse')),
+  last_repotted DATE, -- v1.3 (HEALTH-02): NULL = never recorded
+  updated_at TIMESTAMPTZ DEFAULT NOW(), -- v1.3 (SYNC-02): device time of the last local write
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- v1.3 (SYNC-02)
   UNIQUE(user_id, local_id)
 );
 
@@ -85,6 +111,50 @@ CREATE POLICY "Users can delete own plants" ON public.plants
 
 -- Index for faster queries
 CREATE INDEX idx_plants_user_id ON public.plants(user_id);
+CREATE INDEX idx_plants_synced_at ON public.plants(user_id, synced_at);
+
+CREATE TRIGGER plants_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.plants
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+-- ============================================
+-- GARDENS TABLE (v1.3 GARDEN-01 — extra spaces; home is implicit)
+-- ============================================
+CREATE TABLE public.gardens (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  location_lat DOUBLE PRECISION,
+  location_lon DOUBLE PRECISION,
+  location_name TEXT,
+  location_country TEXT,
+  location_admin1 TEXT,
+  climate_override TEXT NOT NULL DEFAULT 'auto'
+    CHECK (climate_override IN ('auto', 'northern', 'southern', 'tropical')),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, local_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.gardens ENABLE ROW LEVEL SECURITY;
+
+-- Gardens policies
+CREATE POLICY "Users can view own gardens" ON public.gardens
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own gardens" ON public.gardens
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own gardens" ON public.gardens
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own gardens" ON public.gardens
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster queries
+CREATE INDEX idx_gardens_user_id ON public.gardens(user_id);
 
 -- ============================================
 -- NOTES TABLE
@@ -96,6 +166,8 @@ CREATE TABLE public.notes (
   date TEXT NOT NULL,
   text TEXT NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ, -- v1.3 (SYNC-02)
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- v1.3 (SYNC-02)
   UNIQUE(user_id, local_id)
 );
 
@@ -118,6 +190,11 @@ CREATE POLICY "Users can delete own notes" ON public.notes
 -- Index for faster queries
 CREATE INDEX idx_notes_user_id ON public.notes(user_id);
 CREATE INDEX idx_notes_date ON public.notes(date);
+CREATE INDEX idx_notes_synced_at ON public.notes(user_id, synced_at);
+
+CREATE TRIGGER notes_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.notes
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
 
 -- ============================================
 -- REMINDERS TABLE
@@ -130,6 +207,8 @@ CREATE TABLE public.reminders (
   text TEXT NOT NULL,
   time TEXT NOT NULL,
   done BOOLEAN DEFAULT FALSE,
+  updated_at TIMESTAMPTZ, -- v1.3 (SYNC-02)
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- v1.3 (SYNC-02)
   UNIQUE(user_id, local_id)
 );
 
@@ -152,6 +231,178 @@ CREATE POLICY "Users can delete own reminders" ON public.reminders
 -- Index for faster queries
 CREATE INDEX idx_reminders_user_id ON public.reminders(user_id);
 CREATE INDEX idx_reminders_date ON public.reminders(date);
+CREATE INDEX idx_reminders_synced_at ON public.reminders(user_id, synced_at);
+
+CREATE TRIGGER reminders_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.reminders
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+-- ============================================
+-- SYNC TOMBSTONES TABLE (v1.3 SYNC-02 — deleted records of every synced kind)
+-- ============================================
+CREATE TABLE public.sync_tombstones (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('plant', 'note', 'reminder', 'garden', 'journal', 'diagnosis', 'care_event', 'shopping')),
+  local_id TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  garden_id TEXT, -- v1.3 (HOUSE-01): space of a deleted plant, scopes members' access
+  UNIQUE(user_id, kind, local_id)
+);
+
+ALTER TABLE public.sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tombstones" ON public.sync_tombstones
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tombstones" ON public.sync_tombstones
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tombstones" ON public.sync_tombstones
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tombstones" ON public.sync_tombstones
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER sync_tombstones_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.sync_tombstones
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
+
+CREATE INDEX idx_sync_tombstones_synced_at ON public.sync_tombstones(user_id, synced_at);
+
+-- ============================================
+-- JOURNAL ENTRIES TABLE (v1.3 SYNC-01 — photo_uri is device-local, photo_path in user-photos)
+-- ============================================
+CREATE TABLE public.journal_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  text TEXT,
+  photo_uri TEXT,
+  photo_path TEXT,
+  care_tag TEXT CHECK (care_tag IN ('riego', 'fertilizar', 'sol', 'poda', 'problema', 'otro')),
+  updated_at TIMESTAMPTZ DEFAULT NOW(), -- v1.3 (SYNC-02): device time of the last local write
+  UNIQUE(user_id, plant_local_id, local_id)
+);
+
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own journal entries" ON public.journal_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own journal entries" ON public.journal_entries
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own journal entries" ON public.journal_entries
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own journal entries" ON public.journal_entries
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_journal_entries_user_id ON public.journal_entries(user_id);
+
+-- ============================================
+-- DIAGNOSES TABLE (v1.3 SYNC-01 — full SavedDiagnosis in payload)
+-- ============================================
+CREATE TABLE public.diagnoses (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  resolved BOOLEAN DEFAULT FALSE,
+  payload JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(), -- v1.3 (SYNC-02): device time of the last local write
+  UNIQUE(user_id, local_id)
+);
+
+ALTER TABLE public.diagnoses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own diagnoses" ON public.diagnoses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own diagnoses" ON public.diagnoses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own diagnoses" ON public.diagnoses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own diagnoses" ON public.diagnoses
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_diagnoses_user_id ON public.diagnoses(user_id);
+
+-- ============================================
+-- SHOPPING ITEMS TABLE (v1.3 SYNC-01)
+-- ============================================
+CREATE TABLE public.shopping_items (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  diagnosis_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  plant_name TEXT NOT NULL,
+  checked BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ, -- v1.3 (SYNC-02): device time of the last local write
+  UNIQUE(user_id, local_id)
+);
+
+ALTER TABLE public.shopping_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shopping items" ON public.shopping_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own shopping items" ON public.shopping_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own shopping items" ON public.shopping_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shopping items" ON public.shopping_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_shopping_items_user_id ON public.shopping_items(user_id);
+
+-- ============================================
+-- CARE EVENTS TABLE (v1.3 SYNC-01 — append-only care history)
+-- ============================================
+CREATE TABLE public.care_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  local_id TEXT NOT NULL,
+  plant_local_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('water', 'sun', 'outdoor', 'fertilize', 'soil_check')),
+  date TEXT NOT NULL,
+  logged_at TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('task', 'calendar', 'journal', 'undo', 'migration')),
+  undoes TEXT,
+  done_by UUID REFERENCES auth.users(id), -- v1.3 HOUSE-01, stamped by the server
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- v1.3 (SYNC-02)
+  UNIQUE(user_id, plant_local_id, local_id)
+);
+
+ALTER TABLE public.care_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own care events" ON public.care_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own care events" ON public.care_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own care events" ON public.care_events
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_care_events_user_id ON public.care_events(user_id);
+CREATE INDEX idx_care_events_synced_at ON public.care_events(user_id, synced_at);
+
+CREATE TRIGGER care_events_touch_synced_at
+  BEFORE INSERT OR UPDATE ON public.care_events
+  FOR EACH ROW EXECUTE FUNCTION public.touch_synced_at();
 
 -- ============================================
 -- USER SETTINGS TABLE
@@ -168,7 +419,11 @@ CREATE TABLE public.user_settings (
   notification_weather_alerts BOOLEAN DEFAULT FALSE,
   notification_care_reminders BOOLEAN DEFAULT FALSE,
   notification_morning_reminder BOOLEAN DEFAULT FALSE,
+  notification_fertilize_reminders BOOLEAN DEFAULT FALSE, -- v1.3 (SYNC-01)
+  notification_weekly_summary BOOLEAN DEFAULT FALSE, -- v1.3 (STREAK-01)
   plantnet_api_key TEXT,
+  climate_override TEXT NOT NULL DEFAULT 'auto'
+    CHECK (climate_override IN ('auto', 'northern', 'southern', 'tropical')), -- v1.3 (SYNC-01)
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -185,6 +440,345 @@ CREATE POLICY "Users can insert own settings" ON public.user_settings
 CREATE POLICY "Users can update own settings" ON public.user_settings
   FOR UPDATE USING (auth.uid() = user_id);
 
+-- ============================================
+-- PHOTO STORAGE USAGE (v1.3 SYNC-03 — bucket setup in storage-setup.sql)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.photo_storage_usage()
+RETURNS BIGINT AS $$
+  SELECT COALESCE(SUM((metadata->>'size')::BIGINT), 0)
+  FROM storage.objects
+  WHERE bucket_id = 'user-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+GRANT EXECUTE ON FUNCTION public.photo_storage_usage() TO authenticated;
+
+-- ============================================
+-- PREMIUM STATUS & PHOTO QUOTA (v1.3 SYNC-03 — written by the revenuecat-webhook function)
+-- ============================================
+CREATE TABLE public.premium_status (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  expires_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.premium_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own premium status" ON public.premium_status
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Folder owner's usage under their tier's quota — the user-photos upload policies.
+-- Free: 25 MB. Premium: 1024 MB (PHOTO_STORAGE_QUOTA_MB in src/config/premium.ts).
+CREATE OR REPLACE FUNCTION public.photo_upload_allowed(object_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(SUM((o.metadata->>'size')::BIGINT), 0) < (
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.premium_status s
+        WHERE s.user_id::text = (storage.foldername(object_name))[1]
+          AND (s.expires_at IS NULL OR s.expires_at > NOW())
+      ) THEN 1024
+      ELSE 25
+    END
+  ) * 1024 * 1024
+  FROM storage.objects o
+  WHERE o.bucket_id = 'user-photos'
+    AND (storage.foldername(o.name))[1] = (storage.foldername(object_name))[1];
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- ============================================
+-- HOUSEHOLD SHARING (v1.3 HOUSE-01 — members read and write the owner's rows)
+-- ============================================
+CREATE TABLE public.garden_members (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  garden_id UUID REFERENCES public.gardens(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) NOT NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(garden_id, user_id)
+);
+
+CREATE TABLE public.garden_invites (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  garden_id UUID REFERENCES public.gardens(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  code TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by UUID REFERENCES auth.users(id),
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_garden_members_user_id ON public.garden_members(user_id);
+CREATE INDEX idx_garden_members_garden_id ON public.garden_members(garden_id);
+CREATE INDEX idx_garden_invites_garden_id ON public.garden_invites(garden_id);
+
+-- Failed invite redemptions, for the attempt limit in accept_garden_invite(). No policies:
+-- only that function (SECURITY DEFINER) reads and writes it.
+CREATE TABLE public.garden_invite_attempts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_garden_invite_attempts_user ON public.garden_invite_attempts(user_id, attempted_at);
+
+ALTER TABLE public.garden_invite_attempts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- ACCESS HELPERS
+-- ============================================
+-- SECURITY DEFINER so the policies below can look at garden_members / plants without
+-- recursing into their own RLS.
+
+-- Caller is a member of the owner's garden with this local id.
+CREATE OR REPLACE FUNCTION public.is_garden_member(owner UUID, garden_local_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.garden_members m
+    JOIN public.gardens g ON g.id = m.garden_id
+    WHERE m.user_id = auth.uid() AND g.user_id = owner AND g.local_id = garden_local_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Caller is a member of the garden this plant of the owner lives in.
+CREATE OR REPLACE FUNCTION public.is_shared_plant(owner UUID, plant_local_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.plants p
+    JOIN public.gardens g ON g.user_id = p.user_id AND g.local_id = p.garden_id
+    JOIN public.garden_members m ON m.garden_id = g.id
+    WHERE p.user_id = owner AND p.local_id = plant_local_id AND m.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Storage object (user-photos bucket) under `<owner>/plants/<plant local id>/` of a plant the
+-- caller co-cares for. Photos of shared plants live in the owner's folder, whoever took them
+-- (supabase/storage-setup.sql).
+CREATE OR REPLACE FUNCTION public.is_shared_plant_photo(object_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT (storage.foldername(object_name))[2] = 'plants' AND EXISTS (
+    SELECT 1
+    FROM public.plants p
+    JOIN public.gardens g ON g.user_id = p.user_id AND g.local_id = p.garden_id
+    JOIN public.garden_members m ON m.garden_id = g.id
+    WHERE p.user_id::text = (storage.foldername(object_name))[1]
+      AND p.local_id = (storage.foldername(object_name))[3]
+      AND m.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Caller owns or is a member of this garden (by cloud id).
+CREATE OR REPLACE FUNCTION public.can_see_garden(garden UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.gardens g WHERE g.id = garden AND g.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.garden_members m WHERE m.garden_id = garden AND m.user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Caller and `other` care for at least one garden together (owner or member on either side).
+CREATE OR REPLACE FUNCTION public.shares_garden_with(other UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.gardens g
+    WHERE (g.user_id = auth.uid() OR EXISTS (SELECT 1 FROM public.garden_members m WHERE m.garden_id = g.id AND m.user_id = auth.uid()))
+      AND (g.user_id = other OR EXISTS (SELECT 1 FROM public.garden_members m WHERE m.garden_id = g.id AND m.user_id = other))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Redeems an invite code for the caller. Returns 'ok' or a stable code the app maps to a
+-- message: invite_not_found, invite_used, invite_expired, own_garden, too_many_attempts.
+-- A code grants write access to someone's garden, so failed redemptions are counted and a
+-- caller with 10 in the last hour is turned away. Failures are returned, not raised: a raise
+-- would roll back the recorded attempt.
+CREATE OR REPLACE FUNCTION public.accept_garden_invite(invite_code TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  invite public.garden_invites%ROWTYPE;
+  failure TEXT;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.garden_invite_attempts a
+    WHERE a.user_id = auth.uid() AND a.attempted_at > NOW() - INTERVAL '1 hour'
+  ) >= 10 THEN
+    RETURN 'too_many_attempts';
+  END IF;
+
+  SELECT * INTO invite FROM public.garden_invites WHERE code = upper(invite_code) FOR UPDATE;
+  IF NOT FOUND THEN
+    failure := 'invite_not_found';
+  ELSIF invite.created_by = auth.uid() THEN
+    failure := 'own_garden';
+  ELSIF invite.accepted_at IS NOT NULL AND invite.accepted_by <> auth.uid() THEN
+    failure := 'invite_used';
+  ELSIF invite.expires_at < NOW() THEN
+    failure := 'invite_expired';
+  END IF;
+
+  IF failure IS NOT NULL THEN
+    INSERT INTO public.garden_invite_attempts (user_id) VALUES (auth.uid());
+    RETURN failure;
+  END IF;
+
+  INSERT INTO public.garden_members (garden_id, user_id)
+  VALUES (invite.garden_id, auth.uid())
+  ON CONFLICT (garden_id, user_id) DO NOTHING;
+
+  UPDATE public.garden_invites
+  SET accepted_by = auth.uid(), accepted_at = NOW()
+  WHERE id = invite.id;
+
+  RETURN 'ok';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+GRANT EXECUTE ON FUNCTION public.accept_garden_invite(TEXT) TO authenticated;
+
+-- ============================================
+-- MEMBERS & INVITES POLICIES
+-- ============================================
+ALTER TABLE public.garden_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.garden_invites ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in a garden sees who else is in it. Members join only through
+-- accept_garden_invite(); the owner removes anyone, a member removes themselves (leave).
+CREATE POLICY "Household can view garden members" ON public.garden_members
+  FOR SELECT USING (public.can_see_garden(garden_id));
+
+CREATE POLICY "Owners and members can delete memberships" ON public.garden_members
+  FOR DELETE USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.gardens g WHERE g.id = garden_id AND g.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can view own garden invites" ON public.garden_invites
+  FOR SELECT USING (auth.uid() = created_by);
+
+CREATE POLICY "Owners can insert own garden invites" ON public.garden_invites
+  FOR INSERT WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (SELECT 1 FROM public.gardens g WHERE g.id = garden_id AND g.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete own garden invites" ON public.garden_invites
+  FOR DELETE USING (auth.uid() = created_by);
+
+-- ============================================
+-- SHARED ROWS
+-- ============================================
+CREATE POLICY "Members can view shared gardens" ON public.gardens
+  FOR SELECT USING (public.is_garden_member(user_id, local_id));
+
+CREATE POLICY "Members can view shared plants" ON public.plants
+  FOR SELECT USING (public.is_garden_member(user_id, garden_id));
+
+CREATE POLICY "Members can insert shared plants" ON public.plants
+  FOR INSERT WITH CHECK (public.is_garden_member(user_id, garden_id));
+
+CREATE POLICY "Members can update shared plants" ON public.plants
+  FOR UPDATE USING (public.is_garden_member(user_id, garden_id))
+  WITH CHECK (public.is_garden_member(user_id, garden_id));
+
+-- Deleted shared plants reach members the same way they reach the owner's other devices.
+-- The plant row is gone by the time members download, so a plant tombstone keeps the space
+-- the plant lived in (filled from the plant row when the tombstone is written) and only
+-- members of that space see it.
+CREATE OR REPLACE FUNCTION public.stamp_tombstone_garden()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.kind = 'plant' THEN
+    NEW.garden_id = COALESCE(
+      (SELECT p.garden_id FROM public.plants p WHERE p.user_id = NEW.user_id AND p.local_id = NEW.local_id),
+      NEW.garden_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER sync_tombstones_stamp_garden
+  BEFORE INSERT OR UPDATE ON public.sync_tombstones
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_tombstone_garden();
+
+CREATE POLICY "Members can view shared plant tombstones" ON public.sync_tombstones
+  FOR SELECT USING (kind = 'plant' AND garden_id IS NOT NULL AND public.is_garden_member(user_id, garden_id));
+
+-- Names next to "watered by".
+CREATE POLICY "Household can view each other's profiles" ON public.profiles
+  FOR SELECT USING (public.shares_garden_with(id));
+
+-- ============================================
+-- CARE EVENTS — who did it
+-- ============================================
+CREATE OR REPLACE FUNCTION public.stamp_care_event_done_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.done_by = auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER care_events_stamp_done_by
+  BEFORE INSERT ON public.care_events
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_care_event_done_by();
+
+CREATE POLICY "Members can view shared care events" ON public.care_events
+  FOR SELECT USING (public.is_shared_plant(user_id, plant_local_id));
+
+CREATE POLICY "Members can insert shared care events" ON public.care_events
+  FOR INSERT WITH CHECK (public.is_shared_plant(user_id, plant_local_id));
+
+-- ============================================
+-- AI QUOTAS (v1.3 QUOTA-01)
+-- ============================================
+-- Free-tier usage of identify-plant / diagnose-plant / chat-diagnosis per 'device:<id>' and
+-- registered 'user:<id>' subject (chat per conversation, ':diagnosis:<id>'). Service role
+-- only — see migrations/012_ai_quota.sql.
+CREATE TABLE public.ai_usage (
+  subject TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('identification', 'diagnosis', 'chat')),
+  used INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (subject, kind)
+);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Counts one call for every subject when the highest count is under the limit. Row locks
+-- serialize concurrent calls from the same user or device.
+CREATE OR REPLACE FUNCTION public.consume_ai_quota(subjects TEXT[], quota_kind TEXT, quota_limit INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  current_used INTEGER;
+BEGIN
+  INSERT INTO public.ai_usage (subject, kind)
+  SELECT s, quota_kind FROM unnest(subjects) AS s
+  ON CONFLICT (subject, kind) DO NOTHING;
+
+  PERFORM 1 FROM public.ai_usage WHERE subject = ANY(subjects) AND kind = quota_kind FOR UPDATE;
+  SELECT COALESCE(MAX(used), 0) INTO current_used
+  FROM public.ai_usage WHERE subject = ANY(subjects) AND kind = quota_kind;
+
+  IF current_used >= quota_limit THEN
+    RETURN jsonb_build_object('allowed', false, 'used', current_used, 'limit', quota_limit);
+  END IF;
+
+  UPDATE public.ai_usage SET used = used + 1, updated_at = NOW()
+  WHERE subject = ANY(subjects) AND kind = quota_kind;
+  RETURN jsonb_build_object('allowed', true, 'used', current_used + 1, 'limit', quota_limit);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Gives back a call counted by consume_ai_quota when the AI provider failed.
+CREATE OR REPLACE FUNCTION public.release_ai_quota(subjects TEXT[], quota_kind TEXT)
+RETURNS VOID AS $$
+  UPDATE public.ai_usage SET used = GREATEST(used - 1, 0), updated_at = NOW()
+  WHERE subject = ANY(subjects) AND kind = quota_kind;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.consume_ai_quota(TEXT[], TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_ai_quota(TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+
 -- ============================================
 -- HELPFUL VIEWS
 -- ============================================
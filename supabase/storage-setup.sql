@@ -43,3 +43,85 @@ USING (bucket_id = 'plant-images');
 -- 3. Nombre: plant-images
 -- 4. Marcar "Public bucket"
 -- 5. Guardar
+
+-- ============================================================================
+-- Bucket privado para fotos de usuarios (v1.3 SYNC-03)
+-- Fotos del álbum de cada planta y del diario. Rutas: <user id>/plants/<plant id>/<id>.jpg
+-- y <user id>/journal/<plant id>/<id>.jpg. Requiere public.photo_storage_usage() y
+-- public.photo_upload_allowed() (supabase/migrations/008_photo_storage.sql).
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'user-photos',
+  'user-photos',
+  false,
+  5242880, -- 5MB max
+  ARRAY['image/jpeg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Política: cada usuario ve solo su carpeta (las descargas usan URLs firmadas)
+CREATE POLICY "Users can view own photos"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'user-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Política: subir solo a la propia carpeta y dentro del cupo del plan del dueño de la carpeta
+-- (25 MB gratis, 1 GB premium — src/config/premium.ts).
+CREATE POLICY "Users can upload own photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'user-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND public.photo_upload_allowed(name)
+);
+
+-- Un upsert que reemplaza un objeto pasa por UPDATE: el cupo se revisa también acá.
+CREATE POLICY "Users can update own photos"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'user-photos' AND (storage.foldername(name))[1] = auth.uid()::text)
+WITH CHECK (
+  bucket_id = 'user-photos'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND public.photo_upload_allowed(name)
+);
+
+CREATE POLICY "Users can delete own photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'user-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Plantas compartidas (v1.3 HOUSE-01): las fotos de una planta de un jardín compartido van a
+-- la carpeta del dueño, las suba quien las suba, y cuentan para el cupo del dueño. Los
+-- miembros del jardín las ven, suben y borran ahí. Requiere public.is_shared_plant_photo() (migrations/009_household_sharing.sql).
+CREATE POLICY "Members can view shared plant photos"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'user-photos' AND public.is_shared_plant_photo(name));
+
+CREATE POLICY "Members can upload shared plant photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'user-photos'
+  AND public.is_shared_plant_photo(name)
+  AND public.photo_upload_allowed(name)
+);
+
+CREATE POLICY "Members can update shared plant photos"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'user-photos' AND public.is_shared_plant_photo(name))
+WITH CHECK (
+  bucket_id = 'user-photos'
+  AND public.is_shared_plant_photo(name)
+  AND public.photo_upload_allowed(name)
+);
+
+CREATE POLICY "Members can delete shared plant photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'user-photos' AND public.is_shared_plant_photo(name));